@@ -0,0 +1,59 @@
+<?php
+
+namespace App\Console\Commands;
+
+use App\Models\User;
+use App\Services\BillService;
+use Illuminate\Console\Command;
+use Illuminate\Support\Facades\Log;
+
+class SendBillReminders extends Command
+{
+    /**
+     * The name and signature of the console command.
+     *
+     * @var string
+     */
+    protected $signature = 'bills:send-reminders
+                            {--user= : Process only for a specific user ID}';
+
+    /**
+     * The console command description.
+     *
+     * @var string
+     */
+    protected $description = 'Mark past-due bills as overdue and send reminders for bills coming due';
+
+    /**
+     * Execute the console command.
+     */
+    public function handle(BillService $billService): int
+    {
+        $userId = $this->option('user');
+        $reminderCount = 0;
+        $failed = 0;
+
+        $users = User::whereHas('bills', fn ($query) => $query->whereIn('status', ['active', 'overdue']))
+            ->when($userId, fn ($query) => $query->where('id', $userId))
+            ->get();
+
+        foreach ($users as $user) {
+            try {
+                $billService->updateOverdueStatuses($user);
+                $reminderCount += count($billService->checkAndSendReminders($user));
+            } catch (\Exception $e) {
+                $failed++;
+                $this->error("  - User ID {$user->id}: {$e->getMessage()}");
+
+                Log::error('Bill reminders failed', [
+                    'user_id' => $user->id,
+                    'error' => $e->getMessage(),
+                ]);
+            }
+        }
+
+        $this->info("Sent {$reminderCount} bill reminders for {$users->count()} users.");
+
+        return $failed > 0 ? Command::FAILURE : Command::SUCCESS;
+    }
+}
@@ -10,10 +10,12 @@
 use App\Http\Resources\AccountTransactionResource;
 use App\Http\Resources\AccountSummaryResource;
 use App\Models\Account;
+use App\Models\ExchangeRate;
 use App\Services\AccountService;
 use Illuminate\Http\Request;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Support\Facades\DB;
+use Carbon\Carbon;
 
 class AccountController extends Controller
 {
@@ -591,7 +593,9 @@ public function balanceHistory(Request $request, Account $account): JsonResponse
      *                 @OA\Property(property="from_transaction", ref="#/components/schemas/Transaction"),
      *                 @OA\Property(property="to_transaction", ref="#/components/schemas/Transaction"),
      *                 @OA\Property(property="from_account_balance", type="number"),
-     *                 @OA\Property(property="to_account_balance", type="number")
+     *                 @OA\Property(property="to_account_balance", type="number"),
+     *                 @OA\Property(property="converted_amount", type="number", description="Amount credited to the destination account"),
+     *                 @OA\Property(property="exchange_rate", type="number")
      *             )
      *         )
      *     ),
@@ -615,6 +619,10 @@ public function transfer(TransferRequest $request): JsonResponse
             ], 404);
         }
 
+        // Accounts in different currencies receive the converted amount
+        $rate = ExchangeRate::getRate($fromAccount->currency, $toAccount->currency, $request->date);
+        $convertedAmount = round($request->amount * $rate, 2);
+
         try {
             DB::beginTransaction();
 
@@ -624,7 +632,8 @@ public function transfer(TransferRequest $request): JsonResponse
                 $request->amount,
                 $request->description,
                 $request->date,
-                $request->notes
+                $request->notes,
+                $convertedAmount
             );
 
             DB::commit();
@@ -638,6 +647,8 @@ public function transfer(TransferRequest $request): JsonResponse
                     'to_transaction' => new AccountTransactionResource($result['to_transaction']),
                     'from_account_balance' => $fromAccount->fresh()->balance,
                     'to_account_balance' => $toAccount->fresh()->balance,
+                    'converted_amount' => $convertedAmount,
+                    'exchange_rate' => $rate,
                 ]
             ]);
         } catch (\Exception $e) {
@@ -1049,6 +1060,171 @@ public function syncBalance(Request $request, Account $account): JsonResponse
         }
     }
 
+    /**
+     * Get reconciliation data
+     *
+     * @OA\Get(
+     *     path="/api/accounts/{account}/reconciliation",
+     *     operationId="getAccountReconciliation",
+     *     tags={"Accounts"},
+     *     summary="Get reconciliation data",
+     *     description="Get the cleared balance and uncleared transactions up to a statement date",
+     *     security={{"sanctum":{}}},
+     *     @OA\Parameter(
+     *         name="account",
+     *         in="path",
+     *         description="Account ID",
+     *         required=true,
+     *         @OA\Schema(type="integer")
+     *     ),
+     *     @OA\Parameter(
+     *         name="statement_date",
+     *         in="query",
+     *         description="Statement ending date (defaults to today)",
+     *         required=false,
+     *         @OA\Schema(type="string", format="date")
+     *     ),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Reconciliation data retrieved successfully",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="success", type="boolean", example=true),
+     *             @OA\Property(property="data", type="object",
+     *                 @OA\Property(property="statement_date", type="string", format="date"),
+     *                 @OA\Property(property="current_balance", type="number"),
+     *                 @OA\Property(property="cleared_balance", type="number"),
+     *                 @OA\Property(property="last_cleared_at", type="string", format="date-time", nullable=true),
+     *                 @OA\Property(property="transactions", type="array",
+     *                     @OA\Items(
+     *                         @OA\Property(property="id", type="integer"),
+     *                         @OA\Property(property="date", type="string", format="date"),
+     *                         @OA\Property(property="description", type="string"),
+     *                         @OA\Property(property="type", type="string"),
+     *                         @OA\Property(property="amount", type="number"),
+     *                         @OA\Property(property="effect", type="number", description="Signed change to the account balance")
+     *                     )
+     *                 )
+     *             )
+     *         )
+     *     ),
+     *     @OA\Response(response=401, description="Unauthenticated"),
+     *     @OA\Response(response=404, description="Account not found")
+     * )
+     */
+    public function reconciliation(Request $request, Account $account): JsonResponse
+    {
+        // Ensure account belongs to authenticated user
+        if ($account->user_id !== $request->user()->id) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Account not found'
+            ], 404);
+        }
+
+        $request->validate([
+            'statement_date' => ['nullable', 'date'],
+        ]);
+
+        $statementDate = Carbon::parse($request->input('statement_date', now()))->format('Y-m-d');
+
+        return response()->json([
+            'success' => true,
+            'data' => $this->accountService->getReconciliationData($account, $statementDate)
+        ]);
+    }
+
+    /**
+     * Reconcile account against a statement
+     *
+     * @OA\Post(
+     *     path="/api/accounts/{account}/reconcile",
+     *     operationId="reconcileAccount",
+     *     tags={"Accounts"},
+     *     summary="Reconcile account",
+     *     description="Mark the selected transactions as cleared and post a balance adjustment for any remaining difference to the statement balance",
+     *     security={{"sanctum":{}}},
+     *     @OA\Parameter(
+     *         name="account",
+     *         in="path",
+     *         description="Account ID",
+     *         required=true,
+     *         @OA\Schema(type="integer")
+     *     ),
+     *     @OA\RequestBody(
+     *         required=true,
+     *         @OA\JsonContent(
+     *             required={"statement_balance", "statement_date"},
+     *             @OA\Property(property="statement_balance", type="number", example=10000),
+     *             @OA\Property(property="statement_date", type="string", format="date", example="2025-01-31"),
+     *             @OA\Property(property="transaction_ids", type="array", @OA\Items(type="integer"))
+     *         )
+     *     ),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Account reconciled successfully",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="success", type="boolean", example=true),
+     *             @OA\Property(property="message", type="string", example="Account reconciled successfully"),
+     *             @OA\Property(property="data", type="object",
+     *                 @OA\Property(property="cleared_count", type="integer"),
+     *                 @OA\Property(property="cleared_balance", type="number"),
+     *                 @OA\Property(property="statement_balance", type="number"),
+     *                 @OA\Property(property="adjustment", type="number"),
+     *                 @OA\Property(property="account", ref="#/components/schemas/Account")
+     *             )
+     *         )
+     *     ),
+     *     @OA\Response(response=401, description="Unauthenticated"),
+     *     @OA\Response(response=404, description="Account not found"),
+     *     @OA\Response(response=422, description="Validation error")
+     * )
+     */
+    public function reconcile(Request $request, Account $account): JsonResponse
+    {
+        // Ensure account belongs to authenticated user
+        if ($account->user_id !== $request->user()->id) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Account not found'
+            ], 404);
+        }
+
+        $request->validate([
+            'statement_balance' => ['required', 'numeric'],
+            'statement_date' => ['required', 'date', 'before_or_equal:today'],
+            'transaction_ids' => ['nullable', 'array'],
+            'transaction_ids.*' => ['integer'],
+        ]);
+
+        try {
+            DB::beginTransaction();
+
+            $result = $this->accountService->reconcileAccount(
+                $account,
+                $request->input('transaction_ids', []),
+                (float) $request->statement_balance,
+                Carbon::parse($request->statement_date)->format('Y-m-d')
+            );
+
+            DB::commit();
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Account reconciled successfully',
+                'data' => array_merge($result, [
+                    'account' => new AccountResource($account->fresh()),
+                ])
+            ]);
+        } catch (\Exception $e) {
+            DB::rollBack();
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Reconciliation failed: ' . $e->getMessage()
+            ], 500);
+        }
+    }
+
     /**
      * Bulk update accounts
      *
@@ -119,6 +119,13 @@ public function dashboard(Request $request): JsonResponse
      *         required=false,
      *         @OA\Schema(type="array", @OA\Items(type="integer"))
      *     ),
+     *     @OA\Parameter(
+     *         name="category_ids",
+     *         in="query",
+     *         description="Filter by category IDs",
+     *         required=false,
+     *         @OA\Schema(type="array", @OA\Items(type="integer"))
+     *     ),
      *     @OA\Response(
      *         response=200,
      *         description="Income vs expenses data retrieved successfully",
@@ -144,6 +151,8 @@ public function incomeVsExpenses(Request $request): JsonResponse
             'group_by' => ['nullable', 'string', 'in:day,week,month,year'],
             'account_ids' => ['nullable', 'array'],
             'account_ids.*' => ['integer', 'exists:accounts,id'],
+            'category_ids' => ['nullable', 'array'],
+            'category_ids.*' => ['integer', 'exists:categories,id'],
         ]);
 
         $user = $request->user();
@@ -152,6 +161,7 @@ public function incomeVsExpenses(Request $request): JsonResponse
         $endDate = $request->input('end_date');
         $groupBy = $request->input('group_by', 'month');
         $accountIds = $request->input('account_ids', []);
+        $categoryIds = $request->input('category_ids', []);
 
         $data = $this->analyticsService->getIncomeVsExpenses(
             $user,
@@ -159,7 +169,8 @@ public function incomeVsExpenses(Request $request): JsonResponse
             $startDate,
             $endDate,
             $groupBy,
-            $accountIds
+            $accountIds,
+            $categoryIds
         );
 
         return response()->json([
@@ -433,8 +444,8 @@ public function netWorth(Request $request): JsonResponse
         $period = $request->input('period', 'year');
         $startDate = $request->input('start_date');
         $endDate = $request->input('end_date');
-        $includeDebts = $request->input('include_debts', true);
-        $includeGoals = $request->input('include_goals', false);
+        $includeDebts = $request->boolean('include_debts', true);
+        $includeGoals = $request->boolean('include_goals');
 
         $netWorth = $this->analyticsService->getNetWorthTracking(
             $user,
@@ -463,6 +474,8 @@ public function cashFlow(Request $request): JsonResponse
             'end_date' => ['nullable', 'date', 'after_or_equal:start_date'],
             'account_ids' => ['nullable', 'array'],
             'account_ids.*' => ['integer', 'exists:accounts,id'],
+            'category_ids' => ['nullable', 'array'],
+            'category_ids.*' => ['integer', 'exists:categories,id'],
             'group_by' => ['nullable', 'string', 'in:day,week,month'],
             'include_transfers' => ['nullable', 'boolean'],
         ]);
@@ -472,8 +485,9 @@ public function cashFlow(Request $request): JsonResponse
         $startDate = $request->input('start_date');
         $endDate = $request->input('end_date');
         $accountIds = $request->input('account_ids', []);
+        $categoryIds = $request->input('category_ids', []);
         $groupBy = $request->input('group_by', 'week');
-        $includeTransfers = $request->input('include_transfers', false);
+        $includeTransfers = $request->boolean('include_transfers');
 
         $cashFlow = $this->analyticsService->getCashFlowAnalysis(
             $user,
@@ -482,7 +496,8 @@ public function cashFlow(Request $request): JsonResponse
             $endDate,
             $accountIds,
             $groupBy,
-            $includeTransfers
+            $includeTransfers,
+            $categoryIds
         );
 
         return response()->json([
@@ -606,10 +621,19 @@ public function goalProgress(Request $request): JsonResponse
      *         required=true,
      *         @OA\JsonContent(
      *             required={"report_type","metrics"},
-     *             @OA\Property(property="report_type", type="string", enum={"transactions","summary","comparison","forecast"}),
-     *             @OA\Property(property="metrics", type="array", @OA\Items(type="string", enum={"income","expense","balance","savings","category_spending","account_balance"})),
-     *             @OA\Property(property="filters", type="object"),
+     *             @OA\Property(property="report_type", type="string", enum={"transactions","summary","comparison","forecast","aggregate"}),
+     *             @OA\Property(property="metrics", type="array", description="sum, count or average for aggregate reports", @OA\Items(type="string", enum={"income","expense","balance","savings","category_spending","account_balance","sum","count","average"})),
+     *             @OA\Property(property="dimensions", type="array", description="Aggregate reports only, up to two", @OA\Items(type="string", enum={"category","account","type","month","tag"})),
+     *             @OA\Property(property="filters", type="object",
+     *                 @OA\Property(property="types", type="array", @OA\Items(type="string", enum={"income","expense","transfer"})),
+     *                 @OA\Property(property="category_ids", type="array", @OA\Items(type="integer")),
+     *                 @OA\Property(property="account_ids", type="array", @OA\Items(type="integer")),
+     *                 @OA\Property(property="tags", type="array", @OA\Items(type="string")),
+     *                 @OA\Property(property="min_amount", type="number"),
+     *                 @OA\Property(property="max_amount", type="number")
+     *             ),
      *             @OA\Property(property="group_by", type="string", enum={"day","week","month","quarter","year","category","account"}),
+     *             @OA\Property(property="date_preset", type="string", enum={"last_month","1m","3m","6m","12m","ytd"}, description="Relative range, overrides start_date and end_date"),
      *             @OA\Property(property="start_date", type="string", format="date"),
      *             @OA\Property(property="end_date", type="string", format="date"),
      *             @OA\Property(property="format", type="string", enum={"json","csv","pdf"})
@@ -634,16 +658,16 @@ public function goalProgress(Request $request): JsonResponse
      */
     public function customReport(Request $request): JsonResponse
     {
-        $request->validate([
-            'report_type' => ['required', 'string', 'in:transactions,summary,comparison,forecast'],
-            'metrics' => ['required', 'array'],
-            'metrics.*' => ['string', 'in:income,expense,balance,savings,category_spending,account_balance'],
-            'filters' => ['nullable', 'array'],
+        $isAggregate = $request->input('report_type') === 'aggregate';
+
+        $request->validate(array_merge($this->reportDefinitionRules(), [
+            'report_type' => ['required', 'string', 'in:transactions,summary,comparison,forecast,aggregate'],
+            'metrics.*' => ['string', $isAggregate
+                ? 'in:sum,count,average'
+                : 'in:income,expense,balance,savings,category_spending,account_balance'],
             'group_by' => ['nullable', 'string', 'in:day,week,month,quarter,year,category,account'],
-            'start_date' => ['nullable', 'date'],
-            'end_date' => ['nullable', 'date', 'after_or_equal:start_date'],
             'format' => ['nullable', 'string', 'in:json,csv,pdf'],
-        ]);
+        ]));
 
         $user = $request->user();
         $reportData = $this->analyticsService->generateCustomReport(
@@ -664,6 +688,132 @@ public function customReport(Request $request): JsonResponse
         return $this->exportReport($reportData, $format);
     }
 
+    /**
+     * Get saved report definitions
+     * GET /api/analytics/saved-reports
+     */
+    public function savedReports(Request $request): JsonResponse
+    {
+        $reports = $this->analyticsService->getSavedReports($request->user());
+
+        return response()->json([
+            'success' => true,
+            'data' => $reports
+        ]);
+    }
+
+    /**
+     * Save a named aggregate report definition
+     * POST /api/analytics/saved-reports
+     */
+    public function storeSavedReport(Request $request): JsonResponse
+    {
+        $validated = $request->validate($this->savedReportRules());
+
+        DB::beginTransaction();
+        try {
+            $report = $this->analyticsService->createSavedReport(
+                $request->user(),
+                $validated['name'],
+                $validated['definition']
+            );
+
+            DB::commit();
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Report saved successfully',
+                'data' => $report
+            ], 201);
+        } catch (\Exception $e) {
+            DB::rollBack();
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to save report',
+                'error' => $e->getMessage()
+            ], 500);
+        }
+    }
+
+    /**
+     * Rename or redefine a saved report
+     * PUT /api/analytics/saved-reports/{id}
+     */
+    public function updateSavedReport(Request $request, string $id): JsonResponse
+    {
+        $validated = $request->validate($this->savedReportRules());
+
+        DB::beginTransaction();
+        try {
+            $report = $this->analyticsService->updateSavedReport(
+                $request->user(),
+                $id,
+                $validated['name'],
+                $validated['definition']
+            );
+
+            if (!$report) {
+                DB::rollBack();
+
+                return response()->json([
+                    'success' => false,
+                    'message' => 'Saved report not found'
+                ], 404);
+            }
+
+            DB::commit();
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Report updated successfully',
+                'data' => $report
+            ]);
+        } catch (\Exception $e) {
+            DB::rollBack();
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to update report',
+                'error' => $e->getMessage()
+            ], 500);
+        }
+    }
+
+    /**
+     * Delete a saved report
+     * DELETE /api/analytics/saved-reports/{id}
+     */
+    public function destroySavedReport(Request $request, string $id): JsonResponse
+    {
+        DB::beginTransaction();
+        try {
+            if (!$this->analyticsService->deleteSavedReport($request->user(), $id)) {
+                DB::rollBack();
+
+                return response()->json([
+                    'success' => false,
+                    'message' => 'Saved report not found'
+                ], 404);
+            }
+
+            DB::commit();
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Report deleted successfully'
+            ]);
+        } catch (\Exception $e) {
+            DB::rollBack();
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to delete report',
+                'error' => $e->getMessage()
+            ], 500);
+        }
+    }
+
     /**
      * Get expense predictions
      * GET /api/analytics/predictions
@@ -719,23 +869,125 @@ public function insights(Request $request): JsonResponse
     {
         $request->validate([
             'focus_areas' => ['nullable', 'array'],
-            'focus_areas.*' => ['string', 'in:spending,saving,budgeting,debt,investments'],
+            'focus_areas.*' => ['string', 'in:spending,saving,budgeting,subscriptions,debt,investments'],
             'limit' => ['nullable', 'integer', 'min:1', 'max:20'],
+            'include_dismissed' => ['nullable', 'boolean'],
         ]);
 
         $user = $request->user();
-        $focusAreas = $request->input('focus_areas', ['spending', 'saving', 'budgeting']);
+        $focusAreas = $request->input('focus_areas', ['spending', 'saving', 'budgeting', 'subscriptions']);
         $limit = $request->input('limit', 10);
 
         $insights = $this->analyticsService->getInsights(
             $user,
             $focusAreas,
-            $limit
+            $limit,
+            $request->boolean('include_dismissed')
         );
 
         return response()->json([
             'success' => true,
-            'data' => $insights
+            'data' => $insights['insights'],
+            'meta' => [
+                'dismissed_count' => $insights['dismissed_count'],
+            ]
+        ]);
+    }
+
+    /**
+     * Dismiss an insight so it no longer shows in the feed
+     * POST /api/analytics/insights/dismiss
+     */
+    public function dismissInsight(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'id' => ['required', 'string', 'max:255'],
+        ]);
+
+        DB::beginTransaction();
+        try {
+            $this->analyticsService->dismissInsight($request->user(), $validated['id']);
+
+            DB::commit();
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Insight dismissed'
+            ]);
+        } catch (\Exception $e) {
+            DB::rollBack();
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to dismiss insight',
+                'error' => $e->getMessage()
+            ], 500);
+        }
+    }
+
+    /**
+     * Bring back every dismissed insight
+     * DELETE /api/analytics/insights/dismissed
+     */
+    public function restoreInsights(Request $request): JsonResponse
+    {
+        DB::beginTransaction();
+        try {
+            $this->analyticsService->restoreDismissedInsights($request->user());
+
+            DB::commit();
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Dismissed insights restored'
+            ]);
+        } catch (\Exception $e) {
+            DB::rollBack();
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to restore insights',
+                'error' => $e->getMessage()
+            ], 500);
+        }
+    }
+
+    /**
+     * Rules shared by custom reports and saved report definitions
+     */
+    protected function reportDefinitionRules(string $prefix = ''): array
+    {
+        return [
+            "{$prefix}metrics" => ['required', 'array', 'min:1'],
+            "{$prefix}dimensions" => ['nullable', 'array', 'max:2'],
+            "{$prefix}dimensions.*" => ['string', 'distinct', 'in:category,account,type,month,tag'],
+            "{$prefix}filters" => ['nullable', 'array'],
+            "{$prefix}filters.types" => ['nullable', 'array'],
+            "{$prefix}filters.types.*" => ['string', 'in:income,expense,transfer'],
+            "{$prefix}filters.category_ids" => ['nullable', 'array'],
+            "{$prefix}filters.category_ids.*" => ['integer', 'exists:categories,id'],
+            "{$prefix}filters.account_ids" => ['nullable', 'array'],
+            "{$prefix}filters.account_ids.*" => ['integer', 'exists:accounts,id'],
+            "{$prefix}filters.tags" => ['nullable', 'array'],
+            "{$prefix}filters.tags.*" => ['string', 'max:50'],
+            "{$prefix}filters.min_amount" => ['nullable', 'numeric', 'min:0'],
+            "{$prefix}filters.max_amount" => ['nullable', 'numeric', 'min:0'],
+            "{$prefix}date_preset" => ['nullable', 'string', 'in:last_month,1m,3m,6m,12m,ytd'],
+            "{$prefix}start_date" => ['nullable', 'date'],
+            "{$prefix}end_date" => ['nullable', 'date', "after_or_equal:{$prefix}start_date"],
+        ];
+    }
+
+    /**
+     * Saved reports are always aggregate report definitions
+     */
+    protected function savedReportRules(): array
+    {
+        return array_merge($this->reportDefinitionRules('definition.'), [
+            'name' => ['required', 'string', 'max:100'],
+            'definition' => ['required', 'array'],
+            'definition.metrics.*' => ['string', 'in:sum,count,average'],
+            'definition.view' => ['nullable', 'string', 'in:table,bar,line'],
         ]);
     }
 
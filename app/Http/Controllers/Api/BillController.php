@@ -13,6 +13,7 @@
 use Illuminate\Http\Request;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Support\Facades\DB;
+use Illuminate\Validation\ValidationException;
 use Carbon\Carbon;
 
 class BillController extends Controller
@@ -78,6 +79,9 @@ public function index(Request $request): JsonResponse
         ]);
 
         try {
+            // Update overdue statuses before filtering on them
+            $this->billService->updateOverdueStatuses($request->user());
+
             $query = $request->user()->bills()->with(['category']);
 
             // Apply filters
@@ -124,9 +128,6 @@ public function index(Request $request): JsonResponse
             $perPage = $request->input('per_page', 15);
             $bills = $query->paginate($perPage);
 
-            // Update overdue statuses
-            $this->billService->updateOverdueStatuses($request->user());
-
             return response()->json([
                 'success' => true,
                 'data' => BillResource::collection($bills),
@@ -396,7 +397,9 @@ public function destroy(Request $request, Bill $bill): JsonResponse
      *             @OA\Property(property="amount", type="number", format="float"),
      *             @OA\Property(property="payment_date", type="string", format="date"),
      *             @OA\Property(property="notes", type="string"),
-     *             @OA\Property(property="create_transaction", type="boolean", default=true)
+     *             @OA\Property(property="create_transaction", type="boolean", default=true),
+     *             @OA\Property(property="account_id", type="integer", description="Account the expense transaction is recorded against"),
+     *             @OA\Property(property="next_due_date", type="string", format="date", description="Overrides the next due date of a recurring bill")
      *         )
      *     ),
      *     @OA\Response(
@@ -495,6 +498,77 @@ public function getUpcomingBills(Request $request): JsonResponse
         }
     }
 
+    /**
+     * Get bill occurrences for a calendar
+     *
+     * @OA\Get(
+     *     path="/api/bills/status/calendar",
+     *     summary="Get paid, overdue and upcoming bill occurrences between two dates",
+     *     description="The range can cover at most one year.",
+     *     tags={"Bills"},
+     *     security={{"sanctum": {}}},
+     *     @OA\Parameter(
+     *         name="start_date",
+     *         in="query",
+     *         required=true,
+     *         @OA\Schema(type="string", format="date")
+     *     ),
+     *     @OA\Parameter(
+     *         name="end_date",
+     *         in="query",
+     *         required=true,
+     *         @OA\Schema(type="string", format="date")
+     *     ),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Bill calendar retrieved successfully"
+     *     )
+     * )
+     */
+    public function getCalendar(Request $request): JsonResponse
+    {
+        $request->validate([
+            'start_date' => ['required', 'date'],
+            'end_date' => ['required', 'date', 'after_or_equal:start_date'],
+        ]);
+
+        $startDate = Carbon::parse($request->input('start_date'))->startOfDay();
+        $endDate = Carbon::parse($request->input('end_date'))->endOfDay();
+
+        // Every recurring occurrence in the range is generated, so keep the range bounded
+        if ($endDate->gt($startDate->copy()->addYear()->endOfDay())) {
+            throw ValidationException::withMessages([
+                'end_date' => ['The calendar range cannot be longer than one year.'],
+            ]);
+        }
+
+        try {
+            $this->billService->updateOverdueStatuses($request->user());
+
+            $occurrences = $this->billService->getCalendar($request->user(), $startDate, $endDate);
+
+            $collection = collect($occurrences);
+
+            return response()->json([
+                'success' => true,
+                'data' => $occurrences,
+                'meta' => [
+                    'start_date' => $request->input('start_date'),
+                    'end_date' => $request->input('end_date'),
+                    'paid_amount' => round($collection->where('status', 'paid')->sum('amount'), 2),
+                    'overdue_amount' => round($collection->where('status', 'overdue')->sum('amount'), 2),
+                    'upcoming_amount' => round($collection->where('status', 'upcoming')->sum('amount'), 2),
+                ]
+            ]);
+        } catch (\Exception $e) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to retrieve bill calendar',
+                'error' => $e->getMessage()
+            ], 500);
+        }
+    }
+
     /**
      * Get overdue bills
      *
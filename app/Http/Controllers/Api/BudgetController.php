@@ -293,7 +293,7 @@ public function current(Request $request): JsonResponse
      *     summary="Get spending velocity analysis",
      *     security={{"bearerAuth":{}}},
      *     @OA\Parameter(name="period", in="query", required=false, @OA\Schema(type="string", enum={"monthly", "quarterly", "yearly"})),
-     *     @OA\Response(response=200, description="Spending velocity data")
+     *     @OA\Response(response=200, description="Spending velocity with the end-of-period forecast per budget and overall")
      * )
      */
     public function spendingVelocity(Request $request): JsonResponse
@@ -321,19 +321,16 @@ public function spendingVelocity(Request $request): JsonResponse
                 $endDate = $currentDate->copy()->endOfMonth();
         }
 
-        $totalDays = $startDate->diffInDays($endDate) + 1;
-        $daysPassed = $startDate->diffInDays($currentDate) + 1;
-        $daysRemaining = max(0, $currentDate->diffInDays($endDate));
+        // Projection from the day-to-day pace plus the recurring expenses still due
+        $forecast = $this->budgetService->getSpendingForecast($user, $startDate, $endDate, $period);
+        $overall = $forecast['overall'];
+        $totalDays = $forecast['period']['total_days'];
 
-        // Get total budget and spending
-        $budgets = $user->budgets()->where('period', $period)->where('is_active', true)->get();
-        $totalBudget = $budgets->sum('amount');
-        $totalSpent = $this->budgetService->calculatePeriodSpending($user, $startDate, $currentDate);
-
-        // Calculate daily averages
-        $dailyAverage = $daysPassed > 0 ? $totalSpent / $daysPassed : 0;
+        $totalBudget = $overall['total_budget'];
+        $totalSpent = $overall['spent'];
+        $dailyAverage = $forecast['period']['days_passed'] > 0 ? $totalSpent / $forecast['period']['days_passed'] : 0;
         $expectedDailySpend = $totalBudget / $totalDays;
-        $projectedMonthEnd = $dailyAverage * $totalDays;
+        $projectedMonthEnd = $overall['projected'];
 
         // Determine spending rate
         $spendingRate = $expectedDailySpend > 0 ? $dailyAverage / $expectedDailySpend : 0;
@@ -348,24 +345,24 @@ public function spendingVelocity(Request $request): JsonResponse
 
         // Check if over budget
         $overBudgetAmount = max(0, $projectedMonthEnd - $totalBudget);
-        $hasWarning = $overBudgetAmount > 0;
+        $hasWarning = $totalBudget > 0 && $overBudgetAmount > 0;
 
         return response()->json([
             'success' => true,
-            'data' => [
+            'data' => array_merge([
                 'current_rate' => $currentRate,
                 'rate_value' => round($spendingRate, 2),
                 'daily_average' => round($dailyAverage, 2),
                 'expected_daily_spend' => round($expectedDailySpend, 2),
                 'projected_month_end' => round($projectedMonthEnd, 2),
-                'days_remaining' => $daysRemaining,
+                'days_remaining' => $forecast['period']['days_remaining'],
                 'total_budget' => $totalBudget,
                 'total_spent' => $totalSpent,
                 'warning' => $hasWarning ? [
-                    'message' => "At current rate, you'll exceed budget by $" . number_format($overBudgetAmount, 2),
-                    'amount' => $overBudgetAmount,
+                    'message' => "At current rate, you'll exceed budget by " . $user->getCurrencySymbol() . number_format($overBudgetAmount, 2),
+                    'amount' => round($overBudgetAmount, 2),
                 ] : null,
-            ],
+            ], $forecast),
         ]);
     }
 
@@ -382,7 +379,9 @@ public function spendingVelocity(Request $request): JsonResponse
      *         required=true,
      *         @OA\JsonContent(
      *             @OA\Property(property="percentage", type="number", example=5),
-     *             @OA\Property(property="period", type="string", enum={"monthly", "quarterly", "yearly"})
+     *             @OA\Property(property="period", type="string", enum={"monthly", "quarterly", "yearly"}),
+     *             @OA\Property(property="category_ids", type="array", @OA\Items(type="integer")),
+     *             @OA\Property(property="budget_ids", type="array", @OA\Items(type="integer"))
      *         )
      *     ),
      *     @OA\Response(response=200, description="Budgets adjusted successfully")
@@ -395,12 +394,15 @@ public function quickAdjust(Request $request): JsonResponse
             'period' => ['nullable', 'string', 'in:monthly,quarterly,yearly'],
             'category_ids' => ['nullable', 'array'],
             'category_ids.*' => ['integer', 'exists:categories,id'],
+            'budget_ids' => ['nullable', 'array'],
+            'budget_ids.*' => ['integer'],
         ]);
 
         $user = $request->user();
         $percentage = $request->input('percentage');
         $period = $request->input('period');
         $categoryIds = $request->input('category_ids', []);
+        $budgetIds = $request->input('budget_ids', []);
 
         $query = $user->budgets()->where('is_active', true);
 
@@ -412,6 +414,10 @@ public function quickAdjust(Request $request): JsonResponse
             $query->whereIn('category_id', $categoryIds);
         }
 
+        if (!empty($budgetIds)) {
+            $query->whereIn('id', $budgetIds);
+        }
+
         $budgets = $query->get();
         $adjustedCount = 0;
 
@@ -538,72 +544,73 @@ public function updateAlertConfig(Request $request): JsonResponse
      * Get budget vs actual comparison
      *
      * @OA\Get(
-     *     path="/api/budgets/comparison",
+     *     path="/api/budgets/analytics/comparison",
      *     operationId="getBudgetComparison",
      *     tags={"Budgets"},
      *     summary="Get budget vs actual comparison",
+     *     description="Budgeted amount, actual spending and variance per category for the current period and the periods before it",
      *     security={{"bearerAuth":{}}},
-     *     @OA\Response(response=200, description="Budget comparison data")
+     *     @OA\Parameter(name="period", in="query", required=false, @OA\Schema(type="string", enum={"weekly", "monthly", "yearly"})),
+     *     @OA\Parameter(name="periods", in="query", required=false, description="Number of periods to compare, ending with the current one", @OA\Schema(type="integer", minimum=1, maximum=12)),
+     *     @OA\Parameter(name="limit", in="query", required=false, description="Maximum number of budgets to include", @OA\Schema(type="integer")),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Budget comparison data",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="success", type="boolean"),
+     *             @OA\Property(property="data", type="object",
+     *                 @OA\Property(property="period", type="object"),
+     *                 @OA\Property(property="comparison", type="array", @OA\Items(type="object")),
+     *                 @OA\Property(property="periods", type="array", @OA\Items(type="object"))
+     *             )
+     *         )
+     *     )
      * )
      */
     public function comparison(Request $request): JsonResponse
     {
         $request->validate([
-            'period' => ['nullable', 'string', 'in:monthly,quarterly,yearly'],
+            'period' => ['nullable', 'string', 'in:weekly,monthly,yearly'],
+            'periods' => ['nullable', 'integer', 'min:1', 'max:12'],
             'limit' => ['nullable', 'integer', 'min:1', 'max:20'],
         ]);
 
         $user = $request->user();
         $period = $request->input('period', 'monthly');
-        $limit = $request->input('limit', 6);
-        $currentDate = Carbon::now();
+        $periodCount = (int) $request->input('periods', 1);
 
-        // Get date range based on period
-        switch ($period) {
-            case 'quarterly':
-                $startDate = $currentDate->copy()->firstOfQuarter();
-                $endDate = $currentDate->copy()->lastOfQuarter();
-                break;
-            case 'yearly':
-                $startDate = $currentDate->copy()->startOfYear();
-                $endDate = $currentDate->copy()->endOfYear();
-                break;
-            default: // monthly
-                $startDate = $currentDate->copy()->startOfMonth();
-                $endDate = $currentDate->copy()->endOfMonth();
-        }
+        $periods = $this->budgetService->getBudgetVsActual($user, $period, $periodCount);
 
-        // Get budgets with spending data
-        $budgets = $user->budgets()
-            ->where('period', $period)
-            ->where('is_active', true)
-            ->with('category')
-            ->take($limit)
-            ->get();
+        if ($request->filled('limit')) {
+            $periods = array_map(function ($row) use ($request) {
+                $row['items'] = array_slice($row['items'], 0, (int) $request->limit);
+                return $row;
+            }, $periods);
+        }
 
-        $comparisonData = $budgets->map(function ($budget) use ($startDate, $endDate) {
-            $spent = $this->budgetService->calculateCurrentSpent($budget, $startDate, $endDate);
+        $current = end($periods);
 
-            return [
-                'category' => $budget->category ? $budget->category->name : $budget->name,
-                'category_icon' => $budget->category?->icon,
-                'category_color' => $budget->category?->color,
-                'budget' => $budget->amount,
-                'spent' => $spent,
-                'remaining' => $budget->amount - $spent,
-                'percentage' => $budget->amount > 0 ? round(($spent / $budget->amount) * 100, 1) : 0,
-            ];
-        });
+        // Current period in the original comparison format
+        $comparisonData = array_map(fn ($item) => [
+            'category' => $item['category'],
+            'category_icon' => $item['category_icon'],
+            'category_color' => $item['category_color'],
+            'budget' => $item['budgeted'],
+            'spent' => $item['actual'],
+            'remaining' => $item['variance'],
+            'percentage' => $item['budgeted'] > 0 ? round(($item['actual'] / $item['budgeted']) * 100, 1) : 0,
+        ], $current['items']);
 
         return response()->json([
             'success' => true,
             'data' => [
                 'period' => [
                     'type' => $period,
-                    'start_date' => $startDate->toDateString(),
-                    'end_date' => $endDate->toDateString(),
+                    'start_date' => $current['start_date'],
+                    'end_date' => $current['end_date'],
                 ],
                 'comparison' => $comparisonData,
+                'periods' => $periods,
             ],
         ]);
     }
@@ -684,6 +691,92 @@ public function categoryBreakdown(Request $request): JsonResponse
         ]);
     }
 
+    /**
+     * Get budgets with their spending in a given period
+     *
+     * @OA\Get(
+     *     path="/api/budgets/period/view",
+     *     operationId="getBudgetsForPeriod",
+     *     tags={"Budgets"},
+     *     summary="Get budget spending for a period",
+     *     description="Resolve a standard or saved period, shifted by offset periods from the current one, and return each active budget's actual spending in that window",
+     *     security={{"bearerAuth":{}}},
+     *     @OA\Parameter(name="period_type", in="query", required=false, @OA\Schema(type="string", enum={"weekly", "monthly", "yearly"})),
+     *     @OA\Parameter(name="budget_period_id", in="query", required=false, description="Saved period to anchor on", @OA\Schema(type="integer")),
+     *     @OA\Parameter(name="offset", in="query", required=false, description="Periods to move back (negative) or forward", @OA\Schema(type="integer")),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Budgets for the period",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="success", type="boolean"),
+     *             @OA\Property(property="data", type="array", @OA\Items(ref="#/components/schemas/Budget")),
+     *             @OA\Property(property="meta", type="object",
+     *                 @OA\Property(property="start_date", type="string", format="date"),
+     *                 @OA\Property(property="end_date", type="string", format="date"),
+     *                 @OA\Property(property="label", type="string"),
+     *                 @OA\Property(property="offset", type="integer"),
+     *                 @OA\Property(property="is_current", type="boolean"),
+     *                 @OA\Property(property="total_budgeted", type="number"),
+     *                 @OA\Property(property="total_spent", type="number")
+     *             )
+     *         )
+     *     ),
+     *     @OA\Response(response=404, description="Budget period not found")
+     * )
+     */
+    public function periodView(Request $request): JsonResponse
+    {
+        $request->validate([
+            'period_type' => ['nullable', 'string', 'in:weekly,monthly,yearly'],
+            'budget_period_id' => ['nullable', 'integer'],
+            'offset' => ['nullable', 'integer', 'between:-120,120'],
+        ]);
+
+        $user = $request->user();
+        $offset = (int) $request->input('offset', 0);
+        $budgetPeriod = null;
+
+        if ($request->filled('budget_period_id')) {
+            $budgetPeriod = $user->budgetPeriods()->find($request->budget_period_id);
+
+            if (!$budgetPeriod) {
+                return response()->json([
+                    'success' => false,
+                    'message' => 'Budget period not found'
+                ], 404);
+            }
+        }
+
+        $periodType = $budgetPeriod ? $budgetPeriod->period_type : $request->input('period_type', 'monthly');
+        $window = $this->budgetService->resolvePeriodWindow($periodType, $offset, $budgetPeriod);
+
+        // Standard periods only compare budgets of the same length; saved periods show every budget
+        $budgets = $this->budgetService->getBudgetsForWindow(
+            $user,
+            $window['start'],
+            $window['end'],
+            $budgetPeriod ? null : $periodType
+        );
+
+        $today = Carbon::today();
+
+        return response()->json([
+            'success' => true,
+            'data' => BudgetResource::collection($budgets),
+            'meta' => [
+                'start_date' => $window['start']->toDateString(),
+                'end_date' => $window['end']->toDateString(),
+                'label' => $window['label'],
+                'period_type' => $periodType,
+                'budget_period_id' => $budgetPeriod?->id,
+                'offset' => $offset,
+                'is_current' => $today->between($window['start'], $window['end']),
+                'total_budgeted' => $budgets->sum('amount'),
+                'total_spent' => $budgets->sum('current_spent'),
+            ],
+        ]);
+    }
+
     /**
      * Get budget analysis
      */
@@ -758,11 +851,24 @@ public function reset(Request $request, Budget $budget): JsonResponse
      *     tags={"Budgets"},
      *     summary="Export budgets to CSV",
      *     security={{"bearerAuth":{}}},
+     *     @OA\Parameter(name="report", in="query", required=false, description="Export the budget list or the budget vs actual comparison", @OA\Schema(type="string", enum={"budgets", "comparison"})),
+     *     @OA\Parameter(name="period", in="query", required=false, description="Comparison period type", @OA\Schema(type="string", enum={"weekly", "monthly", "yearly"})),
+     *     @OA\Parameter(name="periods", in="query", required=false, description="Number of comparison periods", @OA\Schema(type="integer", minimum=1, maximum=12)),
      *     @OA\Response(response=200, description="CSV file download")
      * )
      */
     public function export(Request $request)
     {
+        $request->validate([
+            'report' => ['nullable', 'string', 'in:budgets,comparison'],
+            'period' => ['nullable', 'string', 'in:weekly,monthly,yearly'],
+            'periods' => ['nullable', 'integer', 'min:1', 'max:12'],
+        ]);
+
+        if ($request->input('report') === 'comparison') {
+            return $this->exportComparison($request);
+        }
+
         $user = $request->user();
         $budgets = $user->budgets()->with('category')->get();
 
@@ -792,4 +898,38 @@ public function export(Request $request)
             ->header('Content-Type', 'text/csv')
             ->header('Content-Disposition', 'attachment; filename="budgets_export_' . now()->format('Y-m-d') . '.csv"');
     }
+
+    /**
+     * Export budget vs actual comparison rows to CSV
+     */
+    private function exportComparison(Request $request)
+    {
+        $periods = $this->budgetService->getBudgetVsActual(
+            $request->user(),
+            $request->input('period', 'monthly'),
+            (int) $request->input('periods', 3)
+        );
+
+        $csvContent = "Period,Start Date,End Date,Category,Budgeted,Actual,Variance,Variance %\n";
+
+        foreach ($periods as $period) {
+            foreach ($period['items'] as $item) {
+                $csvContent .= sprintf(
+                    "\"%s\",%s,%s,\"%s\",%.2f,%.2f,%.2f,%.1f%%\n",
+                    str_replace('"', '""', $period['label']),
+                    $period['start_date'],
+                    $period['end_date'],
+                    str_replace('"', '""', $item['category']),
+                    $item['budgeted'],
+                    $item['actual'],
+                    $item['variance'],
+                    $item['variance_percentage']
+                );
+            }
+        }
+
+        return response($csvContent)
+            ->header('Content-Type', 'text/csv')
+            ->header('Content-Disposition', 'attachment; filename="budget_comparison_' . now()->format('Y-m-d') . '.csv"');
+    }
 }
@@ -0,0 +1,136 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Http\Resources\BudgetPeriodResource;
+use App\Models\BudgetPeriod;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+class BudgetPeriodController extends Controller
+{
+    /**
+     * Get saved budget periods
+     *
+     * @OA\Get(
+     *     path="/api/budget-periods",
+     *     operationId="getBudgetPeriods",
+     *     tags={"Budgets"},
+     *     summary="Get saved budget periods",
+     *     security={{"bearerAuth":{}}},
+     *     @OA\Parameter(name="include_inactive", in="query", required=false, @OA\Schema(type="boolean")),
+     *     @OA\Response(response=200, description="List of budget periods")
+     * )
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $request->validate([
+            'include_inactive' => ['nullable', 'boolean'],
+        ]);
+
+        $query = $request->user()->budgetPeriods();
+
+        if (!$request->boolean('include_inactive')) {
+            $query->where('is_active', true);
+        }
+
+        return response()->json([
+            'success' => true,
+            'data' => BudgetPeriodResource::collection($query->orderBy('name')->get()),
+        ]);
+    }
+
+    /**
+     * Save a budget period
+     *
+     * @OA\Post(
+     *     path="/api/budget-periods",
+     *     operationId="createBudgetPeriod",
+     *     tags={"Budgets"},
+     *     summary="Save a budget period",
+     *     description="Save a period such as a pay cycle. Its dates anchor the navigation to earlier and later periods.",
+     *     security={{"bearerAuth":{}}},
+     *     @OA\RequestBody(
+     *         required=true,
+     *         @OA\JsonContent(
+     *             required={"name", "start_date", "end_date", "period_type"},
+     *             @OA\Property(property="name", type="string", example="Pay cycle"),
+     *             @OA\Property(property="start_date", type="string", format="date", example="2025-01-15"),
+     *             @OA\Property(property="end_date", type="string", format="date", example="2025-02-14"),
+     *             @OA\Property(property="period_type", type="string", enum={"weekly", "monthly", "yearly", "custom"}),
+     *             @OA\Property(property="is_active", type="boolean")
+     *         )
+     *     ),
+     *     @OA\Response(response=201, description="Budget period created"),
+     *     @OA\Response(response=422, description="Validation error")
+     * )
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $data = $request->validate($this->rules());
+
+        $budgetPeriod = $request->user()->budgetPeriods()->create($data);
+
+        return response()->json([
+            'success' => true,
+            'message' => 'Budget period created successfully',
+            'data' => new BudgetPeriodResource($budgetPeriod),
+        ], 201);
+    }
+
+    /**
+     * Update a budget period
+     */
+    public function update(Request $request, BudgetPeriod $budgetPeriod): JsonResponse
+    {
+        if ($budgetPeriod->user_id !== $request->user()->id) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Budget period not found'
+            ], 404);
+        }
+
+        $budgetPeriod->update($request->validate($this->rules()));
+
+        return response()->json([
+            'success' => true,
+            'message' => 'Budget period updated successfully',
+            'data' => new BudgetPeriodResource($budgetPeriod->fresh()),
+        ]);
+    }
+
+    /**
+     * Delete a budget period
+     */
+    public function destroy(Request $request, BudgetPeriod $budgetPeriod): JsonResponse
+    {
+        if ($budgetPeriod->user_id !== $request->user()->id) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Budget period not found'
+            ], 404);
+        }
+
+        $budgetPeriod->delete();
+
+        return response()->json([
+            'success' => true,
+            'message' => 'Budget period deleted successfully',
+        ]);
+    }
+
+    /**
+     * Validation rules shared by store and update
+     */
+    private function rules(): array
+    {
+        return [
+            'name' => ['required', 'string', 'max:255'],
+            'start_date' => ['required', 'date'],
+            'end_date' => ['required', 'date', 'after_or_equal:start_date'],
+            'period_type' => ['required', 'string', 'in:weekly,monthly,yearly,custom'],
+            'is_active' => ['nullable', 'boolean'],
+        ];
+    }
+}
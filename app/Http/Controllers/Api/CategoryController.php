@@ -10,6 +10,7 @@
 use App\Services\CategoryService;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
+use Illuminate\Support\Facades\DB;
 use Carbon\Carbon;
 
 class CategoryController extends Controller
@@ -27,7 +28,7 @@ public function __construct(
      *     tags={"Categories"},
      *     summary="Get all categories",
      *     security={{"bearerAuth":{}}},
-     *     @OA\Parameter(name="type", in="query", required=false, @OA\Schema(type="string", enum={"income", "expense", "both"})),
+     *     @OA\Parameter(name="type", in="query", required=false, @OA\Schema(type="string", enum={"income", "expense", "transfer", "both"})),
      *     @OA\Parameter(name="parent_id", in="query", required=false, @OA\Schema(type="integer")),
      *     @OA\Parameter(name="is_active", in="query", required=false, @OA\Schema(type="boolean")),
      *     @OA\Parameter(name="with_budget", in="query", required=false, @OA\Schema(type="boolean")),
@@ -47,7 +48,7 @@ public function __construct(
     public function index(Request $request): JsonResponse
     {
         $request->validate([
-            'type' => ['nullable', 'string', 'in:income,expense,both'],
+            'type' => ['nullable', 'string', 'in:income,expense,transfer,both'],
             'parent_id' => ['nullable', 'integer', 'exists:categories,id'],
             'is_active' => ['nullable', 'boolean'],
             'with_budget' => ['nullable', 'boolean'],
@@ -448,26 +449,36 @@ public function spendingAnalysis(Request $request): JsonResponse
 
     /**
      * Get category trends
+     *
+     * @OA\Get(
+     *     path="/api/categories/analytics/trends",
+     *     operationId="getCategoryTrends",
+     *     tags={"Categories"},
+     *     summary="Monthly totals per category",
+     *     security={{"bearerAuth":{}}},
+     *     @OA\Parameter(name="category_ids[]", in="query", required=false, @OA\Schema(type="array", @OA\Items(type="integer"))),
+     *     @OA\Parameter(name="months", in="query", required=false, description="Number of months including the current one", @OA\Schema(type="integer", default=6, minimum=1, maximum=24)),
+     *     @OA\Parameter(name="type", in="query", required=false, @OA\Schema(type="string", enum={"income", "expense"})),
+     *     @OA\Response(response=200, description="One entry per month with the categories that had transactions")
+     * )
      */
     public function trends(Request $request): JsonResponse
     {
         $request->validate([
             'category_ids' => ['nullable', 'array'],
             'category_ids.*' => ['integer', 'exists:categories,id'],
-            'period' => ['nullable', 'string', 'in:week,month,quarter,year'],
-            'interval' => ['nullable', 'string', 'in:day,week,month'],
+            'months' => ['nullable', 'integer', 'min:1', 'max:24'],
+            'type' => ['nullable', 'string', 'in:income,expense'],
         ]);
 
         $user = $request->user();
-        $categoryIds = $request->input('category_ids', []);
-        $period = $request->input('period', 'month');
-        $interval = $request->input('interval', 'day');
 
         $trends = $this->categoryService->getCategoryTrends(
             $user,
-            $categoryIds,
-            $period,
-            $interval
+            'month',
+            (int) $request->input('months', 6),
+            $request->input('category_ids') ?: null,
+            $request->input('type')
         );
 
         return response()->json([
@@ -506,6 +517,7 @@ public function getIconsAndColors(): JsonResponse
             ['name' => 'local_hospital', 'label' => 'Hospital', 'category' => 'healthcare'],
             ['name' => 'attach_money', 'label' => 'Money', 'category' => 'income'],
             ['name' => 'account_balance', 'label' => 'Bank', 'category' => 'finance'],
+            ['name' => 'swap_horiz', 'label' => 'Transfer', 'category' => 'transfer'],
         ];
 
         $colors = [
@@ -555,6 +567,8 @@ public function getDefaults(): JsonResponse
             ['name' => 'Salary', 'type' => 'income', 'icon' => 'attach_money', 'color' => '#10B981'],
             ['name' => 'Freelance', 'type' => 'income', 'icon' => 'work', 'color' => '#3B82F6'],
             ['name' => 'Investments', 'type' => 'income', 'icon' => 'account_balance', 'color' => '#8B5CF6'],
+            // Transfer categories
+            ['name' => 'Transfer', 'type' => 'transfer', 'icon' => 'swap_horiz', 'color' => '#06B6D4'],
         ];
 
         return response()->json([
@@ -565,51 +579,83 @@ public function getDefaults(): JsonResponse
 
     /**
      * Create default categories for user
+     *
+     * Defaults whose name already exists for the same type are skipped, so this
+     * can be used to fill in missing categories as well as to seed an empty list.
      */
     public function createDefaults(Request $request): JsonResponse
     {
         $user = $request->user();
 
-        // Check if user already has categories
-        if ($user->categories()->count() > 0) {
+        $existing = $user->categories()
+            ->get(['name', 'type'])
+            ->map(fn ($category) => $category->type . '|' . mb_strtolower($category->name))
+            ->all();
+
+        $defaults = collect($this->getDefaults()->original['data'])
+            ->reject(fn ($default) => in_array($default['type'] . '|' . mb_strtolower($default['name']), $existing))
+            ->values();
+
+        if ($defaults->isEmpty()) {
             return response()->json([
                 'success' => false,
-                'message' => 'User already has categories. Delete existing categories first or use merge.',
+                'message' => 'All default categories already exist.',
             ], 422);
         }
 
-        $defaults = $this->getDefaults()->original['data'];
         $createdCategories = [];
-        $parentMap = [];
-
-        // First pass: Create parent categories
-        foreach ($defaults as $default) {
-            if (!isset($default['parent'])) {
-                $category = Category::create([
-                    'user_id' => $user->id,
-                    'name' => $default['name'],
-                    'type' => $default['type'],
-                    'icon' => $default['icon'],
-                    'color' => $default['color'],
-                ]);
-                $parentMap[$default['name']] = $category->id;
-                $createdCategories[] = $category;
+        $sortOrder = ($user->categories()->max('sort_order') ?? -1) + 1;
+
+        // Parents that already exist can still receive new default children
+        $parentMap = $user->categories()
+            ->whereNull('parent_id')
+            ->pluck('id', 'name')
+            ->all();
+
+        try {
+            DB::beginTransaction();
+
+            // First pass: Create parent categories
+            foreach ($defaults as $default) {
+                if (!isset($default['parent'])) {
+                    $category = Category::create([
+                        'user_id' => $user->id,
+                        'name' => $default['name'],
+                        'type' => $default['type'],
+                        'icon' => $default['icon'],
+                        'color' => $default['color'],
+                        'sort_order' => $sortOrder++,
+                    ]);
+                    $parentMap[$default['name']] = $category->id;
+                    $createdCategories[] = $category;
+                }
             }
-        }
 
-        // Second pass: Create child categories
-        foreach ($defaults as $default) {
-            if (isset($default['parent'])) {
-                $category = Category::create([
-                    'user_id' => $user->id,
-                    'name' => $default['name'],
-                    'type' => $default['type'],
-                    'icon' => $default['icon'],
-                    'color' => $default['color'],
-                    'parent_id' => $parentMap[$default['parent']] ?? null,
-                ]);
-                $createdCategories[] = $category;
+            // Second pass: Create child categories
+            foreach ($defaults as $default) {
+                if (isset($default['parent'])) {
+                    $category = Category::create([
+                        'user_id' => $user->id,
+                        'name' => $default['name'],
+                        'type' => $default['type'],
+                        'icon' => $default['icon'],
+                        'color' => $default['color'],
+                        'parent_id' => $parentMap[$default['parent']] ?? null,
+                        'sort_order' => $sortOrder++,
+                    ]);
+                    $createdCategories[] = $category;
+                }
             }
+
+            DB::commit();
+        } catch (\Exception $e) {
+            DB::rollBack();
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to create default categories',
+                'error' => $e->getMessage(),
+            ], 500);
         }
 
         return response()->json([
@@ -683,12 +729,34 @@ public function reorder(Request $request): JsonResponse
 
     /**
      * Merge categories
+     *
+     * @OA\Post(
+     *     path="/api/categories/merge",
+     *     operationId="mergeCategories",
+     *     tags={"Categories"},
+     *     summary="Merge one category into another",
+     *     description="Moves the source category's transactions, budgets and subcategories to the target, then deletes the source (or deactivates it when delete_source is false)",
+     *     security={{"bearerAuth":{}}},
+     *     @OA\RequestBody(
+     *         required=true,
+     *         @OA\JsonContent(
+     *             required={"source_id", "target_id"},
+     *             @OA\Property(property="source_id", type="integer"),
+     *             @OA\Property(property="target_id", type="integer"),
+     *             @OA\Property(property="delete_source", type="boolean", default=true)
+     *         )
+     *     ),
+     *     @OA\Response(response=200, description="Categories merged"),
+     *     @OA\Response(response=404, description="Category not found"),
+     *     @OA\Response(response=422, description="Categories are of different types")
+     * )
      */
     public function merge(Request $request): JsonResponse
     {
         $request->validate([
             'source_id' => ['required', 'integer', 'exists:categories,id'],
             'target_id' => ['required', 'integer', 'exists:categories,id', 'different:source_id'],
+            'delete_source' => ['nullable', 'boolean'],
         ]);
 
         $user = $request->user();
@@ -708,22 +776,37 @@ public function merge(Request $request): JsonResponse
             ], 404);
         }
 
-        // Move all transactions from source to target
-        $user->transactions()
-            ->where('category_id', $source->id)
-            ->update(['category_id' => $target->id]);
+        if ($source->type !== $target->type) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Only categories of the same type can be merged',
+            ], 422);
+        }
+
+        try {
+            DB::beginTransaction();
 
-        // Move children categories
-        Category::where('parent_id', $source->id)
-            ->where('user_id', $user->id)
-            ->update(['parent_id' => $target->id]);
+            $result = $this->categoryService->mergeCategories(
+                $source,
+                $target,
+                $request->boolean('delete_source', true)
+            );
 
-        // Delete source category
-        $source->delete();
+            DB::commit();
 
-        return response()->json([
-            'success' => true,
-            'message' => "Category '{$source->name}' merged into '{$target->name}' successfully",
-        ]);
+            return response()->json([
+                'success' => true,
+                'message' => "Category '{$source->name}' merged into '{$target->name}' successfully",
+                'data' => $result,
+            ]);
+        } catch (\Exception $e) {
+            DB::rollBack();
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to merge categories',
+                'error' => $e->getMessage(),
+            ], 500);
+        }
     }
 }
@@ -359,6 +359,10 @@ public function destroy(Request $request, Debt $debt): JsonResponse
      *             required={"amount", "payment_date"},
      *             @OA\Property(property="amount", type="number", format="float"),
      *             @OA\Property(property="payment_date", type="string", format="date"),
+     *             @OA\Property(property="interest", type="number", format="float", description="Interest portion; estimated from the APR when omitted"),
+     *             @OA\Property(property="transaction_id", type="integer", description="Existing expense transaction to link"),
+     *             @OA\Property(property="account_id", type="integer", description="Account to record a new expense transaction from"),
+     *             @OA\Property(property="category_id", type="integer", description="Category for the new expense transaction"),
      *             @OA\Property(property="notes", type="string")
      *         )
      *     ),
@@ -403,6 +407,86 @@ public function recordPayment(RecordPaymentRequest $request, Debt $debt): JsonRe
         }
     }
 
+    /**
+     * Estimate the interest and principal portions of a payment
+     *
+     * @OA\Get(
+     *     path="/api/debts/{id}/payment-split",
+     *     summary="Estimate the interest and principal split of a debt payment",
+     *     tags={"Debts"},
+     *     security={{"sanctum": {}}},
+     *     @OA\Parameter(
+     *         name="id",
+     *         in="path",
+     *         required=true,
+     *         description="Debt ID",
+     *         @OA\Schema(type="integer")
+     *     ),
+     *     @OA\Parameter(
+     *         name="amount",
+     *         in="query",
+     *         required=true,
+     *         description="Payment amount",
+     *         @OA\Schema(type="number", format="float")
+     *     ),
+     *     @OA\Parameter(
+     *         name="payment_date",
+     *         in="query",
+     *         description="Payment date, defaults to today",
+     *         @OA\Schema(type="string", format="date")
+     *     ),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Payment split calculated successfully",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="success", type="boolean"),
+     *             @OA\Property(property="data", type="object",
+     *                 @OA\Property(property="last_payment_date", type="string", format="date", nullable=true),
+     *                 @OA\Property(property="days_since_last_payment", type="integer"),
+     *                 @OA\Property(property="interest_due", type="number"),
+     *                 @OA\Property(property="interest", type="number"),
+     *                 @OA\Property(property="principal", type="number"),
+     *                 @OA\Property(property="payoff_amount", type="number")
+     *             )
+     *         )
+     *     )
+     * )
+     */
+    public function getPaymentSplit(Request $request, Debt $debt): JsonResponse
+    {
+        // Ensure the debt belongs to the authenticated user
+        if ($debt->user_id !== $request->user()->id) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Debt not found'
+            ], 404);
+        }
+
+        $request->validate([
+            'amount' => ['required', 'numeric', 'min:0'],
+            'payment_date' => ['nullable', 'date'],
+        ]);
+
+        try {
+            $split = $this->debtService->calculatePaymentSplit(
+                $debt,
+                (float) $request->input('amount'),
+                Carbon::parse($request->input('payment_date', now()->toDateString()))
+            );
+
+            return response()->json([
+                'success' => true,
+                'data' => $split
+            ]);
+        } catch (\Exception $e) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to calculate payment split',
+                'error' => $e->getMessage()
+            ], 500);
+        }
+    }
+
     /**
      * Get debt payoff schedule
      *
@@ -465,6 +549,95 @@ public function getPayoffSchedule(Request $request, Debt $debt): JsonResponse
         }
     }
 
+    /**
+     * Get a payoff plan across all active debts
+     *
+     * @OA\Get(
+     *     path="/api/debts/payoff-plan",
+     *     summary="Simulate paying off all active debts with a payoff strategy",
+     *     tags={"Debts"},
+     *     security={{"sanctum": {}}},
+     *     @OA\Parameter(
+     *         name="extra_payment",
+     *         in="query",
+     *         description="Extra amount paid each month on top of the minimum payments",
+     *         @OA\Schema(type="number", format="float")
+     *     ),
+     *     @OA\Parameter(
+     *         name="strategy",
+     *         in="query",
+     *         description="Payoff strategy for the returned schedule",
+     *         @OA\Schema(type="string", enum={"avalanche", "snowball", "custom", "minimum"})
+     *     ),
+     *     @OA\Parameter(
+     *         name="order[]",
+     *         in="query",
+     *         description="Debt IDs in payoff priority order for the custom strategy",
+     *         @OA\Schema(type="array", @OA\Items(type="integer"))
+     *     ),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Payoff plan calculated successfully",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="success", type="boolean"),
+     *             @OA\Property(property="data", type="object",
+     *                 @OA\Property(property="plan", type="object"),
+     *                 @OA\Property(property="comparison", type="object")
+     *             )
+     *         )
+     *     )
+     * )
+     */
+    public function getPayoffPlan(Request $request): JsonResponse
+    {
+        $request->validate([
+            'extra_payment' => ['nullable', 'numeric', 'min:0', 'max:9999999999.99'],
+            'strategy' => ['nullable', 'string', 'in:avalanche,snowball,custom,minimum'],
+            'order' => ['nullable', 'array'],
+            'order.*' => ['integer'],
+        ]);
+
+        try {
+            $debts = $request->user()->debts()
+                ->where('status', 'active')
+                ->where('current_balance', '>', 0)
+                ->get();
+
+            $extraPayment = (float) $request->input('extra_payment', 0);
+            $strategy = $request->input('strategy', 'avalanche');
+            $order = $request->input('order', []);
+
+            $plan = $this->debtService->simulatePayoffPlan($debts, $extraPayment, $strategy, $order);
+
+            // Summaries of every strategy so they can be compared side by side
+            $strategies = ['minimum', 'avalanche', 'snowball'];
+            if (!empty($order) || $strategy === 'custom') {
+                $strategies[] = 'custom';
+            }
+
+            $comparison = [];
+            foreach ($strategies as $name) {
+                $comparison[$name] = $name === $strategy
+                    ? $plan['summary']
+                    : $this->debtService->simulatePayoffPlan($debts, $extraPayment, $name, $order)['summary'];
+            }
+
+            return response()->json([
+                'success' => true,
+                'data' => [
+                    'plan' => $plan,
+                    'comparison' => $comparison,
+                ]
+            ]);
+        } catch (\Exception $e) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to calculate payoff plan',
+                'error' => $e->getMessage()
+            ], 500);
+        }
+    }
+
     /**
      * Get debt summary statistics
      *
@@ -584,7 +757,7 @@ public function getPaymentHistory(Request $request, Debt $debt): JsonResponse
         ]);
 
         try {
-            $query = $debt->payments()->with('transaction');
+            $query = $debt->payments()->with('transaction.account');
 
             // Apply date filters
             if ($request->has('start_date')) {
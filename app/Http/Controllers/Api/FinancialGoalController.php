@@ -255,7 +255,7 @@ public function show(Request $request, FinancialGoal $goal): JsonResponse
             ], 403);
         }
 
-        $goal->load('contributions');
+        $goal->load('contributions.transaction');
 
         // Calculate additional progress metrics
         $progressPercentage = $goal->target_amount > 0
@@ -589,9 +589,7 @@ public function contribute(ContributeToGoalRequest $request, FinancialGoal $goal
      *         @OA\JsonContent(
      *             @OA\Property(property="success", type="boolean"),
      *             @OA\Property(property="data", type="object",
-     *                 @OA\Property(property="goal", ref="#/components/schemas/FinancialGoalResource"),
-     *                 @OA\Property(property="progress", type="object"),
-     *                 @OA\Property(property="projections", type="object"),
+     *                 @OA\Property(property="timeline", type="array", @OA\Items(type="object")),
      *                 @OA\Property(property="milestones", type="array", @OA\Items(type="object"))
      *             )
      *         )
@@ -628,11 +626,12 @@ public function progress(Request $request, FinancialGoal $goal): JsonResponse
 
         return response()->json([
             'success' => true,
-            // 'data' => new GoalProgressResource($goal),
-            // 'statistics' => $contributionStats,
-            'timeline' => $progressTimeline,
-            // 'projection' => $projection,
-            'milestones' => $milestones,
+            'data' => [
+                // 'statistics' => $contributionStats,
+                'timeline' => $progressTimeline,
+                // 'projection' => $projection,
+                'milestones' => $milestones,
+            ],
         ]);
     }
 
@@ -4,7 +4,9 @@
 
 use App\Http\Controllers\Controller;
 use App\Http\Resources\NotificationResource;
+use App\Jobs\SendNotificationMessage;
 use App\Models\Notification;
+use App\Services\NotificationService;
 use Illuminate\Http\Request;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Support\Facades\DB;
@@ -12,6 +14,13 @@
 
 class NotificationController extends Controller
 {
+    protected NotificationService $notificationService;
+
+    public function __construct(NotificationService $notificationService)
+    {
+        $this->notificationService = $notificationService;
+    }
+
     /**
      * Get all notifications with filtering and pagination
      *
@@ -58,7 +67,7 @@ class NotificationController extends Controller
      *     @OA\Parameter(
      *         name="channel",
      *         in="query",
-     *         description="Filter by channel",
+     *         description="Filter by channel; only in-app notifications are listed when omitted",
      *         required=false,
      *         @OA\Schema(type="string", enum={"app","email","sms"})
      *     ),
@@ -124,10 +133,8 @@ public function index(Request $request): JsonResponse
             $query->where('is_read', $request->boolean('is_read'));
         }
 
-        // Filter by channel
-        if ($request->filled('channel')) {
-            $query->where('channel', $request->channel);
-        }
+        // The feed is the in-app copy unless another channel is asked for
+        $query->where('channel', $request->input('channel', 'app'));
 
         // Date filtering
         if ($request->filled('start_date')) {
@@ -153,7 +160,7 @@ public function index(Request $request): JsonResponse
                 'last_page' => $notifications->lastPage(),
                 'per_page' => $notifications->perPage(),
                 'total' => $notifications->total(),
-                'unread_count' => $request->user()->notifications()->where('is_read', false)->count(),
+                'unread_count' => $request->user()->notifications()->inApp()->where('is_read', false)->count(),
             ]
         ]);
     }
@@ -367,6 +374,12 @@ public function destroy(Request $request, Notification $notification): JsonRespo
      *     summary="Mark all notifications as read",
      *     tags={"Notifications"},
      *     security={{"sanctum":{}}},
+     *     @OA\RequestBody(
+     *         required=false,
+     *         @OA\JsonContent(
+     *             @OA\Property(property="type", type="string", enum={"budget_alert","bill_reminder","goal_milestone","low_balance","system","transaction"}, description="Only mark notifications of this type")
+     *         )
+     *     ),
      *     @OA\Response(
      *         response=200,
      *         description="All notifications marked as read",
@@ -383,12 +396,21 @@ public function destroy(Request $request, Notification $notification): JsonRespo
      */
     public function markAllAsRead(Request $request): JsonResponse
     {
-        $updated = $request->user()->notifications()
-            ->where('is_read', false)
-            ->update([
-                'is_read' => true,
-                'read_at' => now()
-            ]);
+        $request->validate([
+            'type' => ['nullable', 'string', 'in:budget_alert,bill_reminder,goal_milestone,low_balance,system,transaction'],
+        ]);
+
+        $query = $request->user()->notifications()->inApp()->where('is_read', false);
+
+        // Limit to one type, e.g. a group in the notification center
+        if ($request->filled('type')) {
+            $query->where('type', $request->type);
+        }
+
+        $updated = $query->update([
+            'is_read' => true,
+            'read_at' => now()
+        ]);
 
         return response()->json([
             'success' => true,
@@ -425,16 +447,19 @@ public function markAllAsRead(Request $request): JsonResponse
     public function getUnreadCount(Request $request): JsonResponse
     {
         $count = $request->user()->notifications()
+            ->inApp()
             ->where('is_read', false)
             ->count();
 
         $countByType = $request->user()->notifications()
+            ->inApp()
             ->where('is_read', false)
             ->select('type', DB::raw('count(*) as count'))
             ->groupBy('type')
             ->pluck('count', 'type');
 
         $countByPriority = $request->user()->notifications()
+            ->inApp()
             ->where('is_read', false)
             ->select('priority', DB::raw('count(*) as count'))
             ->groupBy('priority')
@@ -455,7 +480,7 @@ public function getUnreadCount(Request $request): JsonResponse
      *
      * @OA\Get(
      *     path="/api/notifications/user/settings",
-     *     summary="Get notification settings",
+     *     summary="Get which notification types are sent on which channels, and their thresholds",
      *     tags={"Notifications"},
      *     security={{"sanctum":{}}},
      *     @OA\Response(
@@ -464,20 +489,19 @@ public function getUnreadCount(Request $request): JsonResponse
      *         @OA\JsonContent(
      *             @OA\Property(property="success", type="boolean", example=true),
      *             @OA\Property(property="data", type="object",
-     *                 @OA\Property(property="channels", type="object",
-     *                     @OA\Property(property="app", type="boolean"),
-     *                     @OA\Property(property="email", type="boolean"),
-     *                     @OA\Property(property="sms", type="boolean")
+     *                 @OA\Property(property="matrix", type="object", description="Type => {app, email, sms} booleans",
+     *                     example={"budget_alert": {"app": true, "email": true, "sms": false}}
      *                 ),
-     *                 @OA\Property(property="types", type="object",
-     *                     @OA\Property(property="budget_alert", type="boolean"),
-     *                     @OA\Property(property="bill_reminder", type="boolean"),
-     *                     @OA\Property(property="goal_milestone", type="boolean"),
-     *                     @OA\Property(property="low_balance", type="boolean"),
-     *                     @OA\Property(property="system", type="boolean"),
-     *                     @OA\Property(property="transaction", type="boolean")
-     *                 ),
-     *                 @OA\Property(property="preferences", type="object")
+     *                 @OA\Property(property="channels", type="object", description="Deprecated: channel => true when any type is sent on it"),
+     *                 @OA\Property(property="types", type="object", description="Deprecated: type => true when it is sent on any channel"),
+     *                 @OA\Property(property="preferences", type="object",
+     *                     @OA\Property(property="low_balance_threshold", type="number"),
+     *                     @OA\Property(property="reminder_days_before", type="integer"),
+     *                     @OA\Property(property="budget_alert_percentage", type="integer"),
+     *                     @OA\Property(property="quiet_hours_enabled", type="boolean"),
+     *                     @OA\Property(property="quiet_hours_start", type="string", example="22:00"),
+     *                     @OA\Property(property="quiet_hours_end", type="string", example="08:00")
+     *                 )
      *             )
      *         )
      *     ),
@@ -486,35 +510,9 @@ public function getUnreadCount(Request $request): JsonResponse
      */
     public function getSettings(Request $request): JsonResponse
     {
-        $user = $request->user();
-
-        $settings = [
-            'channels' => [
-                'app' => $user->getSetting('notifications_app', true),
-                'email' => $user->getSetting('notifications_email', true),
-                'sms' => $user->getSetting('notifications_sms', false),
-            ],
-            'types' => [
-                'budget_alert' => $user->getSetting('notify_budget_alerts', true),
-                'bill_reminder' => $user->getSetting('notify_bill_reminders', true),
-                'goal_milestone' => $user->getSetting('notify_goal_milestones', true),
-                'low_balance' => $user->getSetting('notify_low_balance', true),
-                'transaction' => $user->getSetting('notify_transactions', false),
-                'system' => $user->getSetting('notify_system', true),
-            ],
-            'preferences' => [
-                'quiet_hours_enabled' => $user->getSetting('quiet_hours_enabled', false),
-                'quiet_hours_start' => $user->getSetting('quiet_hours_start', '22:00'),
-                'quiet_hours_end' => $user->getSetting('quiet_hours_end', '08:00'),
-                'reminder_days_before' => $user->getSetting('reminder_days_before', 3),
-                'low_balance_threshold' => $user->getSetting('low_balance_threshold', 1000),
-                'budget_alert_percentage' => $user->getSetting('budget_alert_percentage', 80),
-            ]
-        ];
-
         return response()->json([
             'success' => true,
-            'data' => $settings
+            'data' => $this->notificationService->getSettings($request->user())
         ]);
     }
 
@@ -529,19 +527,9 @@ public function getSettings(Request $request): JsonResponse
      *     @OA\RequestBody(
      *         required=true,
      *         @OA\JsonContent(
-     *             @OA\Property(property="channels", type="object",
-     *                 @OA\Property(property="app", type="boolean"),
-     *                 @OA\Property(property="email", type="boolean"),
-     *                 @OA\Property(property="sms", type="boolean")
-     *             ),
-     *             @OA\Property(property="types", type="object",
-     *                 @OA\Property(property="budget_alert", type="boolean"),
-     *                 @OA\Property(property="bill_reminder", type="boolean"),
-     *                 @OA\Property(property="goal_milestone", type="boolean"),
-     *                 @OA\Property(property="low_balance", type="boolean"),
-     *                 @OA\Property(property="system", type="boolean"),
-     *                 @OA\Property(property="transaction", type="boolean")
-     *             ),
+     *             @OA\Property(property="matrix", type="object", description="Type => {app, email, sms} booleans; cells that are left out or null are unchanged"),
+     *             @OA\Property(property="channels", type="object", description="Deprecated: channel => boolean, sets that channel for every type"),
+     *             @OA\Property(property="types", type="object", description="Deprecated: type => boolean, sets that type on every channel"),
      *             @OA\Property(property="preferences", type="object")
      *         )
      *     ),
@@ -560,72 +548,71 @@ public function getSettings(Request $request): JsonResponse
      */
     public function updateSettings(Request $request): JsonResponse
     {
-        $request->validate([
-            'channels' => ['nullable', 'array'],
-            'channels.app' => ['nullable', 'boolean'],
-            'channels.email' => ['nullable', 'boolean'],
-            'channels.sms' => ['nullable', 'boolean'],
-
-            'types' => ['nullable', 'array'],
-            'types.budget_alert' => ['nullable', 'boolean'],
-            'types.bill_reminder' => ['nullable', 'boolean'],
-            'types.goal_milestone' => ['nullable', 'boolean'],
-            'types.low_balance' => ['nullable', 'boolean'],
-            'types.transaction' => ['nullable', 'boolean'],
-            'types.system' => ['nullable', 'boolean'],
-
-            'preferences' => ['nullable', 'array'],
+        $rules = [
+            'matrix' => ['nullable', 'array:' . implode(',', NotificationService::TYPES)],
+            'channels' => ['nullable', 'array:' . implode(',', NotificationService::CHANNELS)],
+            'channels.*' => ['nullable', 'boolean'],
+            'types' => ['nullable', 'array:' . implode(',', NotificationService::TYPES)],
+            'types.*' => ['nullable', 'boolean'],
+
+            'preferences' => ['nullable', 'array:quiet_hours_enabled,quiet_hours_start,quiet_hours_end,reminder_days_before,low_balance_threshold,budget_alert_percentage'],
             'preferences.quiet_hours_enabled' => ['nullable', 'boolean'],
             'preferences.quiet_hours_start' => ['nullable', 'string', 'regex:/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/'],
             'preferences.quiet_hours_end' => ['nullable', 'string', 'regex:/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/'],
             'preferences.reminder_days_before' => ['nullable', 'integer', 'min:1', 'max:30'],
             'preferences.low_balance_threshold' => ['nullable', 'numeric', 'min:0'],
             'preferences.budget_alert_percentage' => ['nullable', 'integer', 'min:50', 'max:100'],
-        ]);
+        ];
 
-        $user = $request->user();
+        foreach (NotificationService::TYPES as $type) {
+            $rules["matrix.{$type}"] = ['nullable', 'array:' . implode(',', NotificationService::CHANNELS)];
 
-        // Update channel settings
-        if ($request->has('channels')) {
-            foreach ($request->input('channels', []) as $channel => $enabled) {
-                $user->setSetting("notifications_{$channel}", $enabled);
+            foreach (NotificationService::CHANNELS as $channel) {
+                $rules["matrix.{$type}.{$channel}"] = ['nullable', 'boolean'];
             }
         }
 
-        // Update type settings
-        if ($request->has('types')) {
-            foreach ($request->input('types', []) as $type => $enabled) {
-                $user->setSetting("notify_{$type}", $enabled);
-            }
-        }
-
-        // Update preference settings
-        if ($request->has('preferences')) {
-            foreach ($request->input('preferences', []) as $key => $value) {
-                $user->setSetting($key, $value);
-            }
-        }
+        $validated = $request->validate($rules);
+
+        $settings = $this->notificationService->updateSettings($request->user(), [
+            'matrix' => $validated['matrix'] ?? [],
+            'channels' => $validated['channels'] ?? [],
+            'types' => $validated['types'] ?? [],
+            // A null preference is left unchanged
+            'preferences' => array_filter(
+                $validated['preferences'] ?? [],
+                fn ($value) => $value !== null
+            ),
+        ]);
 
         return response()->json([
             'success' => true,
-            'message' => 'Notification settings updated successfully'
+            'message' => 'Notification settings updated successfully',
+            'data' => $settings
         ]);
     }
 
     /**
-     * Delete multiple notifications
-     * DELETE /api/notifications/bulk
+     * Delete multiple notifications, either by id or every read/all notification
+     * DELETE /api/notifications/bulk/delete
      */
     public function bulkDelete(Request $request): JsonResponse
     {
         $request->validate([
-            'notification_ids' => ['required', 'array', 'min:1'],
+            'notification_ids' => ['required_without:scope', 'array', 'min:1'],
             'notification_ids.*' => ['required', 'integer', 'exists:notifications,id'],
+            'scope' => ['nullable', 'string', 'in:read,all'],
         ]);
 
-        $deleted = $request->user()->notifications()
-            ->whereIn('id', $request->notification_ids)
-            ->delete();
+        $query = $request->user()->notifications();
+
+        if ($request->filled('notification_ids')) {
+            $query->whereIn('id', $request->notification_ids);
+        } elseif ($request->input('scope') === 'read') {
+            $query->where('is_read', true);
+        }
+
+        $deleted = $query->delete();
 
         return response()->json([
             'success' => true,
@@ -714,6 +701,17 @@ public function sendTestNotification(Request $request): JsonResponse
         // Create test notification based on type
         $testData = $this->getTestNotificationData($type);
 
+        // Email and SMS are delivered, not added to the in-app feed
+        if ($channel !== 'app') {
+            SendNotificationMessage::dispatch($request->user(), $channel, $testData['title'], $testData['message']);
+
+            return response()->json([
+                'success' => true,
+                'message' => "Test notification queued for {$channel}",
+                'data' => null
+            ]);
+        }
+
         $notification = $request->user()->notifications()->create([
             'type' => $type,
             'title' => $testData['title'],
@@ -724,10 +722,6 @@ public function sendTestNotification(Request $request): JsonResponse
             'is_read' => false,
         ]);
 
-        // Here you would normally trigger the actual notification sending
-        // For example, sending email, SMS, or push notification
-        // This is just creating the notification record
-
         return response()->json([
             'success' => true,
             'message' => 'Test notification sent successfully',
@@ -675,6 +675,8 @@ public function importData(Request $request): JsonResponse
      *
      * @OA\Get(
      *     path="/api/settings/notifications",
+     *     deprecated=true,
+     *     description="Superseded by /api/notifications/user/settings, which the settings screen uses",
      *     summary="Get notification settings",
      *     tags={"Settings"},
      *     security={{"sanctum":{}}},
@@ -738,6 +740,8 @@ public function getNotificationSettings(Request $request): JsonResponse
      *
      * @OA\Put(
      *     path="/api/settings/notifications",
+     *     deprecated=true,
+     *     description="Superseded by /api/notifications/user/settings, which the settings screen uses",
      *     summary="Update notification settings",
      *     tags={"Settings"},
      *     security={{"sanctum":{}}},
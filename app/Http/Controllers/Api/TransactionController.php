@@ -8,6 +8,7 @@
 use App\Http\Requests\Transaction\BulkCreateTransactionRequest;
 use App\Http\Requests\Transaction\BulkDeleteTransactionRequest;
 use App\Http\Requests\Transaction\ImportTransactionRequest;
+use App\Http\Requests\Transaction\PreviewImportTransactionRequest;
 use App\Http\Resources\TransactionResource;
 use App\Models\Transaction;
 use App\Services\TransactionService;
@@ -16,6 +17,7 @@
 use Illuminate\Support\Facades\DB;
 use Illuminate\Support\Facades\Storage;
 use Illuminate\Support\Facades\Log;
+use Illuminate\Validation\Rule;
 
 class TransactionController extends Controller
 {
@@ -391,7 +393,8 @@ public function destroy(Request $request, Transaction $transaction): JsonRespons
      *         @OA\JsonContent(
      *             @OA\Property(property="transactions", type="array",
      *                 @OA\Items(ref="#/components/schemas/CreateTransactionRequest")
-     *             )
+     *             ),
+     *             @OA\Property(property="skip_existing_references", type="boolean")
      *         )
      *     ),
      *     @OA\Response(
@@ -402,6 +405,7 @@ public function destroy(Request $request, Transaction $transaction): JsonRespons
      *             @OA\Property(property="message", type="string"),
      *             @OA\Property(property="data", type="object",
      *                 @OA\Property(property="created_count", type="integer"),
+     *                 @OA\Property(property="skipped_count", type="integer", description="Rows left out by skip_existing_references"),
      *                 @OA\Property(property="transactions", type="array", @OA\Items(ref="#/components/schemas/TransactionResource"))
      *             )
      *         )
@@ -415,7 +419,17 @@ public function bulkCreate(BulkCreateTransactionRequest $request): JsonResponse
         try {
             DB::beginTransaction();
 
-            $transactions = $this->transactionService->bulkCreateTransactions($request->validated()['transactions']);
+            $transactionsData = $request->validated()['transactions'];
+            $received = count($transactionsData);
+
+            if ($request->boolean('skip_existing_references')) {
+                $transactionsData = $this->transactionService->withoutExistingReferences(
+                    $request->user(),
+                    $transactionsData
+                );
+            }
+
+            $transactions = $this->transactionService->bulkCreateTransactions($transactionsData);
 
             DB::commit();
 
@@ -424,6 +438,7 @@ public function bulkCreate(BulkCreateTransactionRequest $request): JsonResponse
                 'message' => 'Transactions created successfully',
                 'data' => [
                     'created_count' => count($transactions),
+                    'skipped_count' => $received - count($transactionsData),
                     'transactions' => TransactionResource::collection($transactions)
                 ]
             ], 201);
@@ -569,9 +584,9 @@ public function search(Request $request): JsonResponse
      *         @OA\MediaType(
      *             mediaType="multipart/form-data",
      *             @OA\Schema(
-     *                 @OA\Property(property="file", type="string", format="binary"),
-     *                 @OA\Property(property="skip_duplicates", type="boolean"),
-     *                 @OA\Property(property="date_format", type="string", default="Y-m-d")
+     *                 @OA\Property(property="csv_file", type="string", format="binary"),
+     *                 @OA\Property(property="column_mappings", type="object", description="Header name per field: date, description, amount or debit/credit, type, category, account, notes, reference_number"),
+     *                 @OA\Property(property="import_options", type="object", description="skip_duplicates, skip_lines, default_account_id, default_category_id, default_type, date_format, delimiter, has_header, amount_sign, decimal_separator")
      *             )
      *         )
      *     ),
@@ -619,6 +634,347 @@ public function import(ImportTransactionRequest $request): JsonResponse
         }
     }
 
+    /**
+     * Preview a CSV import
+     *
+     * @OA\Post(
+     *     path="/api/transactions/import/csv/preview",
+     *     operationId="previewTransactionImport",
+     *     tags={"Transactions"},
+     *     summary="Read a CSV file and show how it would be imported, without importing it",
+     *     security={{"bearerAuth":{}}},
+     *     @OA\RequestBody(
+     *         required=true,
+     *         @OA\MediaType(
+     *             mediaType="multipart/form-data",
+     *             @OA\Schema(
+     *                 @OA\Property(property="csv_file", type="string", format="binary"),
+     *                 @OA\Property(property="column_mappings", type="object"),
+     *                 @OA\Property(property="import_options", type="object")
+     *             )
+     *         )
+     *     ),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Headers, sample rows and, when mappings are given, every mapped row",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="success", type="boolean"),
+     *             @OA\Property(property="data", type="object",
+     *                 @OA\Property(property="headers", type="array", @OA\Items(type="string")),
+     *                 @OA\Property(property="sample", type="array", @OA\Items(type="array", @OA\Items(type="string"))),
+     *                 @OA\Property(property="total_rows", type="integer"),
+     *                 @OA\Property(property="rows", type="array", @OA\Items(type="object")),
+     *                 @OA\Property(property="summary", type="object")
+     *             )
+     *         )
+     *     ),
+     *     @OA\Response(response=401, description="Unauthenticated"),
+     *     @OA\Response(response=422, description="Validation error")
+     * )
+     */
+    public function previewImport(PreviewImportTransactionRequest $request): JsonResponse
+    {
+        try {
+            $preview = $this->transactionService->previewCsvImport(
+                $request->user(),
+                $request->file('csv_file'),
+                $request->input('column_mappings', []),
+                $request->input('import_options', [])
+            );
+
+            return response()->json([
+                'success' => true,
+                'data' => $preview
+            ]);
+        } catch (\Exception $e) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Preview failed: ' . $e->getMessage()
+            ], 500);
+        }
+    }
+
+    /**
+     * Find likely duplicate transactions
+     *
+     * @OA\Get(
+     *     path="/api/transactions/duplicates/groups",
+     *     operationId="getDuplicateTransactionGroups",
+     *     tags={"Transactions"},
+     *     summary="Group transactions that look like double entries",
+     *     security={{"bearerAuth":{}}},
+     *     @OA\Parameter(name="days", in="query", required=false, description="Maximum days apart", @OA\Schema(type="integer", minimum=0, maximum=30, default=3)),
+     *     @OA\Parameter(name="amount_tolerance", in="query", required=false, description="Maximum amount difference in percent", @OA\Schema(type="number", minimum=0, maximum=20, default=1)),
+     *     @OA\Parameter(name="similarity", in="query", required=false, description="Minimum description similarity in percent", @OA\Schema(type="integer", minimum=50, maximum=100, default=70)),
+     *     @OA\Parameter(name="account_id", in="query", required=false, @OA\Schema(type="integer")),
+     *     @OA\Parameter(name="start_date", in="query", required=false, @OA\Schema(type="string", format="date")),
+     *     @OA\Parameter(name="end_date", in="query", required=false, @OA\Schema(type="string", format="date")),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Duplicate groups, newest first",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="success", type="boolean"),
+     *             @OA\Property(property="data", type="array", @OA\Items(type="object",
+     *                 @OA\Property(property="key", type="string"),
+     *                 @OA\Property(property="suggested_keep_id", type="integer"),
+     *                 @OA\Property(property="transactions", type="array", @OA\Items(ref="#/components/schemas/TransactionResource"))
+     *             ))
+     *         )
+     *     ),
+     *     @OA\Response(response=401, description="Unauthenticated")
+     * )
+     */
+    public function duplicates(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'days' => ['nullable', 'integer', 'min:0', 'max:30'],
+            'amount_tolerance' => ['nullable', 'numeric', 'min:0', 'max:20'],
+            'similarity' => ['nullable', 'integer', 'min:50', 'max:100'],
+            'account_id' => ['nullable', 'integer', 'exists:accounts,id'],
+            'start_date' => ['nullable', 'date'],
+            'end_date' => ['nullable', 'date', 'after_or_equal:start_date'],
+        ]);
+
+        $groups = $this->transactionService->findDuplicateGroups($request->user(), $validated);
+
+        return response()->json([
+            'success' => true,
+            'data' => array_map(function ($group) {
+                return [
+                    'key' => $group['key'],
+                    'suggested_keep_id' => $group['suggested_keep_id'],
+                    'transactions' => TransactionResource::collection($group['transactions']),
+                ];
+            }, $groups),
+            'meta' => [
+                'count' => count($groups),
+            ]
+        ]);
+    }
+
+    /**
+     * Mark a group of transactions as not duplicates
+     * POST /api/transactions/duplicates/ignore
+     */
+    public function ignoreDuplicates(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'transaction_ids' => ['required', 'array', 'min:2'],
+            'transaction_ids.*' => ['integer', 'distinct'],
+        ]);
+
+        $owned = $request->user()->transactions()->whereIn('id', $validated['transaction_ids'])->count();
+        if ($owned !== count($validated['transaction_ids'])) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Transaction not found'
+            ], 404);
+        }
+
+        DB::beginTransaction();
+        try {
+            $key = $this->transactionService->ignoreDuplicateGroup($request->user(), $validated['transaction_ids']);
+
+            DB::commit();
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Marked as not duplicates',
+                'data' => ['key' => $key]
+            ]);
+        } catch (\Exception $e) {
+            DB::rollBack();
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to update duplicates',
+                'error' => $e->getMessage()
+            ], 500);
+        }
+    }
+
+    /**
+     * Merge a duplicate group into the kept transaction and delete the others
+     * POST /api/transactions/duplicates/merge
+     */
+    public function mergeDuplicates(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'keep_id' => ['required', 'integer'],
+            'transaction_ids' => ['required', 'array', 'min:1'],
+            'transaction_ids.*' => ['integer', 'distinct', Rule::notIn([$request->input('keep_id')])],
+            'notes' => ['nullable', 'string', 'max:1000'],
+            'tags' => ['nullable', 'array'],
+            'tags.*' => ['string', 'max:50'],
+        ]);
+
+        $transactions = $request->user()->transactions()
+            ->whereIn('id', [$validated['keep_id'], ...$validated['transaction_ids']])
+            ->get()
+            ->keyBy('id');
+
+        if ($transactions->count() !== count($validated['transaction_ids']) + 1) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Transaction not found'
+            ], 404);
+        }
+
+        DB::beginTransaction();
+        try {
+            $keeper = $this->transactionService->mergeDuplicates(
+                $transactions->pull($validated['keep_id']),
+                $transactions,
+                $validated
+            );
+
+            DB::commit();
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Duplicates merged successfully',
+                'data' => new TransactionResource($keeper),
+                'meta' => [
+                    'deleted_count' => $transactions->count(),
+                ]
+            ]);
+        } catch (\Exception $e) {
+            DB::rollBack();
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to merge duplicates',
+                'error' => $e->getMessage()
+            ], 500);
+        }
+    }
+
+    /**
+     * Get saved CSV mapping presets
+     * GET /api/transactions/import/presets
+     */
+    public function importPresets(Request $request): JsonResponse
+    {
+        return response()->json([
+            'success' => true,
+            'data' => $this->transactionService->getImportPresets($request->user())
+        ]);
+    }
+
+    /**
+     * Save a CSV mapping preset
+     * POST /api/transactions/import/presets
+     */
+    public function storeImportPreset(Request $request): JsonResponse
+    {
+        $validated = $request->validate($this->importPresetRules());
+
+        DB::beginTransaction();
+        try {
+            $preset = $this->transactionService->createImportPreset(
+                $request->user(),
+                $validated['name'],
+                $validated['column_mappings'],
+                $validated['import_options'] ?? []
+            );
+
+            DB::commit();
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Preset saved successfully',
+                'data' => $preset
+            ], 201);
+        } catch (\Exception $e) {
+            DB::rollBack();
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to save preset',
+                'error' => $e->getMessage()
+            ], 500);
+        }
+    }
+
+    /**
+     * Update a CSV mapping preset
+     * PUT /api/transactions/import/presets/{id}
+     */
+    public function updateImportPreset(Request $request, string $id): JsonResponse
+    {
+        $validated = $request->validate($this->importPresetRules());
+
+        DB::beginTransaction();
+        try {
+            $preset = $this->transactionService->updateImportPreset(
+                $request->user(),
+                $id,
+                $validated['name'],
+                $validated['column_mappings'],
+                $validated['import_options'] ?? []
+            );
+
+            if (!$preset) {
+                DB::rollBack();
+
+                return response()->json([
+                    'success' => false,
+                    'message' => 'Preset not found'
+                ], 404);
+            }
+
+            DB::commit();
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Preset updated successfully',
+                'data' => $preset
+            ]);
+        } catch (\Exception $e) {
+            DB::rollBack();
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to update preset',
+                'error' => $e->getMessage()
+            ], 500);
+        }
+    }
+
+    /**
+     * Delete a CSV mapping preset
+     * DELETE /api/transactions/import/presets/{id}
+     */
+    public function destroyImportPreset(Request $request, string $id): JsonResponse
+    {
+        DB::beginTransaction();
+        try {
+            if (!$this->transactionService->deleteImportPreset($request->user(), $id)) {
+                DB::rollBack();
+
+                return response()->json([
+                    'success' => false,
+                    'message' => 'Preset not found'
+                ], 404);
+            }
+
+            DB::commit();
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Preset deleted successfully'
+            ]);
+        } catch (\Exception $e) {
+            DB::rollBack();
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to delete preset',
+                'error' => $e->getMessage()
+            ], 500);
+        }
+    }
+
     /**
      * Export transactions to CSV
      *
@@ -895,4 +1251,25 @@ private function calculateTransactionSummary(int $userId, Request $request): arr
             ],
         ];
     }
+
+    /**
+     * Rules for CSV mapping presets
+     */
+    protected function importPresetRules(): array
+    {
+        return [
+            'name' => ['required', 'string', 'max:100'],
+            'column_mappings' => ['required', 'array'],
+            'column_mappings.*' => ['nullable', 'string', 'max:255'],
+            'import_options' => ['nullable', 'array'],
+            'import_options.date_format' => ['nullable', 'string', 'in:' . implode(',', ImportTransactionRequest::DATE_FORMATS)],
+            'import_options.delimiter' => ['nullable', 'string', 'in:comma,semicolon,tab,pipe'],
+            'import_options.has_header' => ['nullable', 'boolean'],
+            'import_options.amount_sign' => ['nullable', 'string', 'in:absolute,negative_is_expense,positive_is_expense'],
+            'import_options.decimal_separator' => ['nullable', 'string', Rule::in(['.', ','])],
+            'import_options.default_account_id' => ['nullable', 'integer', 'exists:accounts,id'],
+            'import_options.default_category_id' => ['nullable', 'integer', 'exists:categories,id'],
+            'import_options.default_type' => ['nullable', 'string', 'in:income,expense'],
+        ];
+    }
 }
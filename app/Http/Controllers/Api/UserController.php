@@ -771,10 +771,11 @@ public function deleteAccount(Request $request): JsonResponse
      *
      * @OA\Get(
      *     path="/api/user/notification-settings",
+     *     deprecated=true,
+     *     description="Superseded by /api/notifications/user/settings, which the settings screen uses",
      *     operationId="getNotificationSettings",
      *     tags={"Users"},
      *     summary="Get notification settings",
-     *     description="Get user notification preferences",
      *     security={{"sanctum":{}}},
      *     @OA\Response(
      *         response=200,
@@ -822,10 +823,11 @@ public function getNotificationSettings(Request $request): JsonResponse
      *
      * @OA\Put(
      *     path="/api/user/notification-settings",
+     *     deprecated=true,
+     *     description="Superseded by /api/notifications/user/settings, which the settings screen uses",
      *     operationId="updateNotificationSettings",
      *     tags={"Users"},
      *     summary="Update notification settings",
-     *     description="Update user notification preferences",
      *     security={{"sanctum":{}}},
      *     @OA\RequestBody(
      *         required=true,
@@ -359,14 +359,18 @@ public function bulkDestroy(Request $request): RedirectResponse
     {
         $validated = $request->validate([
             'transaction_ids' => ['required', 'array'],
-            'transaction_ids.*' => ['integer', 'exists:transactions,id']
+            'transaction_ids.*' => ['integer', 'distinct']
         ]);
 
+        // Only the user's own transactions can be deleted, and only all of them at once
+        $transactions = $request->user()->transactions()->whereIn('id', $validated['transaction_ids'])->get();
+        if ($transactions->count() !== count($validated['transaction_ids'])) {
+            abort(404);
+        }
+
         try {
             DB::beginTransaction();
 
-            $transactions = Transaction::whereIn('id', $validated['transaction_ids'])->get();
-
             foreach ($transactions as $transaction) {
                 // Reverse transaction effect on account balance
                 $account = Account::find($transaction->account_id);
@@ -385,7 +389,8 @@ public function bulkDestroy(Request $request): RedirectResponse
 
             DB::commit();
 
-            return redirect()->route('transactions.index')
+            // Back to wherever the delete came from, e.g. the duplicate review
+            return redirect()->back()
                 ->with('success', count($validated['transaction_ids']) . ' transaction(s) deleted successfully.');
 
         } catch (\Exception $e) {
@@ -2,6 +2,7 @@
 
 namespace App\Http\Requests\Account;
 
+use App\Models\ExchangeRate;
 use Illuminate\Foundation\Http\FormRequest;
 
 class TransferRequest extends FormRequest
@@ -104,9 +105,27 @@ public function withValidator($validator): void
                 }
             }
 
+            // Amount received by the destination, converted when currencies differ
+            $receivedAmount = (float) $this->input('amount');
+            if ($fromAccount && $toAccount && $fromAccount->currency !== $toAccount->currency) {
+                $receivedAmount = ExchangeRate::convert(
+                    $receivedAmount,
+                    $fromAccount->currency,
+                    $toAccount->currency,
+                    $this->input('date')
+                );
+
+                if ($receivedAmount === null) {
+                    $validator->errors()->add(
+                        'to_account_id',
+                        "No exchange rate available from {$fromAccount->currency} to {$toAccount->currency}."
+                    );
+                }
+            }
+
             // Validate credit limit for credit card destination
-            if ($toAccount && $toAccount->type === 'credit_card') {
-                $transferAmount = (float) $this->input('amount');
+            if ($toAccount && $toAccount->type === 'credit_card' && $receivedAmount !== null) {
+                $transferAmount = $receivedAmount;
                 $currentBalance = abs($toAccount->balance);
                 $availableCredit = $toAccount->credit_limit - $currentBalance;
 
@@ -127,12 +146,6 @@ public function withValidator($validator): void
             if ($toAccount && !$toAccount->is_active) {
                 $validator->errors()->add('to_account_id', 'The destination account is not active.');
             }
-
-            // Validate currency compatibility (optional - add warning if different)
-            if ($fromAccount && $toAccount && $fromAccount->currency !== $toAccount->currency) {
-                // This could be a warning rather than an error
-                // For now, we'll allow it but you might want to add exchange rate handling
-            }
         });
     }
 
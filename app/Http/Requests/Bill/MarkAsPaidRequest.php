@@ -24,6 +24,8 @@ public function rules(): array
             'payment_date' => ['required', 'date', 'before_or_equal:today'],
             'amount' => ['nullable', 'numeric', 'min:0.01', 'max:9999999999.99'],
             'transaction_id' => ['nullable', 'integer', 'exists:transactions,id'],
+            'create_transaction' => ['nullable', 'boolean'],
+            'account_id' => ['nullable', 'integer', 'exists:accounts,id'],
             'notes' => ['nullable', 'string', 'max:500'],
             'next_due_date' => ['nullable', 'date', 'after:payment_date'],
         ];
@@ -41,6 +43,7 @@ public function messages(): array
             'amount.numeric' => 'Payment amount must be a number.',
             'amount.min' => 'Payment amount must be at least 0.01.',
             'transaction_id.exists' => 'The selected transaction does not exist.',
+            'account_id.exists' => 'The selected account does not exist.',
             'notes.max' => 'Notes cannot exceed 500 characters.',
             'next_due_date.date' => 'Please provide a valid next due date.',
             'next_due_date.after' => 'Next due date must be after the payment date.',
@@ -54,7 +57,7 @@ public function withValidator($validator): void
     {
         $validator->after(function ($validator) {
             // Validate transaction belongs to user if provided
-            if ($this->has('transaction_id')) {
+            if ($this->filled('transaction_id')) {
                 $user = $this->user();
                 $transaction = $user->transactions()->find($this->input('transaction_id'));
 
@@ -64,6 +67,19 @@ public function withValidator($validator): void
                     $validator->errors()->add('transaction_id', 'The selected transaction must be an expense type.');
                 }
             }
+
+            // Validate the paying account belongs to the user
+            if (!$this->filled('transaction_id') && $this->boolean('create_transaction', true)) {
+                $accounts = $this->user()->accounts();
+
+                if ($this->filled('account_id')) {
+                    if (!$accounts->whereKey($this->input('account_id'))->exists()) {
+                        $validator->errors()->add('account_id', 'The selected account does not belong to you.');
+                    }
+                } elseif (!$accounts->exists()) {
+                    $validator->errors()->add('account_id', 'Add an account before recording bill payments as transactions.');
+                }
+            }
         });
     }
 }
@@ -2,6 +2,7 @@
 
 namespace App\Http\Requests\Debt;
 
+use App\Services\DebtService;
 use Illuminate\Foundation\Http\FormRequest;
 
 class RecordPaymentRequest extends FormRequest
@@ -24,7 +25,10 @@ public function rules(): array
         return [
             'amount' => ['required', 'numeric', 'min:0.01', 'max:9999999999.99'],
             'payment_date' => ['required', 'date', 'before_or_equal:today'],
+            'interest' => ['nullable', 'numeric', 'min:0', 'lte:amount'],
             'transaction_id' => ['nullable', 'integer', 'exists:transactions,id'],
+            'account_id' => ['nullable', 'integer', 'exists:accounts,id'],
+            'category_id' => ['required_with:account_id', 'nullable', 'integer', 'exists:categories,id'],
             'notes' => ['nullable', 'string', 'max:500'],
         ];
     }
@@ -43,7 +47,12 @@ public function messages(): array
             'payment_date.required' => 'The payment date is required.',
             'payment_date.date' => 'The payment date must be a valid date.',
             'payment_date.before_or_equal' => 'The payment date cannot be in the future.',
+            'interest.min' => 'The interest portion cannot be negative.',
+            'interest.lte' => 'The interest portion cannot exceed the payment amount.',
             'transaction_id.exists' => 'The selected transaction does not exist.',
+            'account_id.exists' => 'The selected account does not exist.',
+            'category_id.required_with' => 'Choose a category for the payment transaction.',
+            'category_id.exists' => 'The selected category does not exist.',
             'notes.max' => 'The notes must not exceed 500 characters.',
         ];
     }
@@ -54,22 +63,31 @@ public function messages(): array
     public function withValidator($validator): void
     {
         $validator->after(function ($validator) {
+            // The payoff check needs a valid date; the date rule has already reported it
+            if ($validator->errors()->has('payment_date')) {
+                return;
+            }
+
             $debt = $this->route('debt');
             $amount = (float) $this->input('amount', 0);
 
-            // Validate payment doesn't exceed current balance
-            if ($amount > $debt->current_balance) {
+            // Validate payment doesn't exceed the balance plus the interest accrued so far
+            $paymentDate = $this->date('payment_date') ?? now();
+            $payoffAmount = app(DebtService::class)
+                ->calculatePaymentSplit($debt, $amount, $paymentDate)['payoff_amount'];
+
+            if ($amount > $payoffAmount) {
                 $validator->errors()->add(
                     'amount',
                     sprintf(
-                        'The payment amount cannot exceed the current balance of %s.',
-                        number_format($debt->current_balance, 2)
+                        'The payment amount cannot exceed the payoff amount of %s.',
+                        number_format($payoffAmount, 2)
                     )
                 );
             }
 
             // Validate transaction belongs to user if provided
-            if ($this->has('transaction_id')) {
+            if ($this->filled('transaction_id')) {
                 $user = $this->user();
                 $transaction = $user->transactions()->find($this->input('transaction_id'));
 
@@ -85,6 +103,23 @@ public function withValidator($validator): void
                 }
             }
 
+            // Validate the paying account and its category belong to the user
+            if ($this->filled('account_id')) {
+                $user = $this->user();
+
+                if ($this->filled('transaction_id')) {
+                    $validator->errors()->add('account_id', 'Link an existing transaction or create a new one, not both.');
+                }
+
+                if (!$user->accounts()->whereKey($this->input('account_id'))->exists()) {
+                    $validator->errors()->add('account_id', 'The selected account does not belong to you.');
+                }
+
+                if ($this->filled('category_id') && !$user->categories()->whereKey($this->input('category_id'))->exists()) {
+                    $validator->errors()->add('category_id', 'The selected category does not belong to you.');
+                }
+            }
+
             // Check if debt is already paid off
             if ($debt->status === 'paid_off') {
                 $validator->errors()->add('amount', 'Cannot record payment for a debt that is already paid off.');
@@ -64,7 +64,7 @@ public function withValidator($validator): void
             }
 
             // Validate transaction belongs to the same user if provided
-            if ($this->has('transaction_id')) {
+            if ($this->filled('transaction_id')) {
                 $user = auth()->user();
                 $transactionExists = $user->transactions()
                     ->where('id', $this->input('transaction_id'))
@@ -36,6 +36,8 @@ public function rules(): array
             'transactions.*.reference_number' => ['nullable', 'string', 'max:50'],
             'transactions.*.location' => ['nullable', 'string', 'max:255'],
             'transactions.*.is_cleared' => ['nullable', 'boolean'],
+            // Skip rows whose reference number already exists in the account, e.g. statement re-imports
+            'skip_existing_references' => ['nullable', 'boolean'],
         ];
     }
 
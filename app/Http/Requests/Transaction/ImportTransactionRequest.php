@@ -3,9 +3,15 @@
 namespace App\Http\Requests\Transaction;
 
 use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
 
 class ImportTransactionRequest extends FormRequest
 {
+    /**
+     * Date formats a CSV date column can be read with
+     */
+    public const DATE_FORMATS = ['Y-m-d', 'm/d/Y', 'd/m/Y', 'Y/m/d', 'd-m-Y', 'm-d-Y', 'd.m.Y'];
+
     /**
      * Determine if the user is authorized to make this request.
      */
@@ -26,7 +32,10 @@ public function rules(): array
             'column_mappings' => ['required', 'array'],
             'column_mappings.date' => ['required', 'string'],
             'column_mappings.description' => ['required', 'string'],
-            'column_mappings.amount' => ['required', 'string'],
+            // Either one amount column or separate debit/credit columns
+            'column_mappings.amount' => ['nullable', 'string', 'required_without_all:column_mappings.debit,column_mappings.credit'],
+            'column_mappings.debit' => ['nullable', 'string'],
+            'column_mappings.credit' => ['nullable', 'string'],
             'column_mappings.type' => ['nullable', 'string'],
             'column_mappings.category' => ['nullable', 'string'],
             'column_mappings.account' => ['nullable', 'string'],
@@ -37,7 +46,13 @@ public function rules(): array
             'import_options.default_account_id' => ['nullable', 'integer', 'exists:accounts,id'],
             'import_options.default_category_id' => ['nullable', 'integer', 'exists:categories,id'],
             'import_options.default_type' => ['nullable', 'string', 'in:income,expense'],
-            'import_options.date_format' => ['nullable', 'string', 'in:Y-m-d,m/d/Y,d/m/Y,Y/m/d'],
+            'import_options.date_format' => ['nullable', 'string', 'in:' . implode(',', self::DATE_FORMATS)],
+            'import_options.delimiter' => ['nullable', 'string', 'in:comma,semicolon,tab,pipe'],
+            'import_options.has_header' => ['nullable', 'boolean'],
+            'import_options.amount_sign' => ['nullable', 'string', 'in:absolute,negative_is_expense,positive_is_expense'],
+            'import_options.decimal_separator' => ['nullable', 'string', Rule::in(['.', ','])],
+            'import_options.skip_lines' => ['nullable', 'array'],
+            'import_options.skip_lines.*' => ['integer', 'min:1'],
         ];
     }
 
@@ -56,11 +71,12 @@ public function messages(): array
             'column_mappings.required' => 'Column mappings are required.',
             'column_mappings.date.required' => 'Date column mapping is required.',
             'column_mappings.description.required' => 'Description column mapping is required.',
-            'column_mappings.amount.required' => 'Amount column mapping is required.',
+            'column_mappings.amount.required' => 'Map an amount column, or debit and credit columns.',
+            'column_mappings.amount.required_without_all' => 'Map an amount column, or debit and credit columns.',
             'import_options.default_account_id.exists' => 'The default account does not exist.',
             'import_options.default_category_id.exists' => 'The default category does not exist.',
             'import_options.default_type.in' => 'Default type must be income or expense.',
-            'import_options.date_format.in' => 'Date format must be one of: Y-m-d, m/d/Y, d/m/Y, Y/m/d.',
+            'import_options.date_format.in' => 'Date format must be one of: ' . implode(', ', self::DATE_FORMATS) . '.',
         ];
     }
 
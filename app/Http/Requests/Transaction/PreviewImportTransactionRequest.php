@@ -0,0 +1,32 @@
+<?php
+
+namespace App\Http\Requests\Transaction;
+
+use Illuminate\Validation\Rule;
+
+class PreviewImportTransactionRequest extends ImportTransactionRequest
+{
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * Without column mappings the preview only reads the headers and the
+     * first rows, so the mappings can be chosen against the real file.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return array_merge(parent::rules(), [
+            'column_mappings' => ['nullable', 'array'],
+            'column_mappings.date' => [Rule::requiredIf(fn () => $this->filled('column_mappings')), 'nullable', 'string'],
+            'column_mappings.description' => [Rule::requiredIf(fn () => $this->filled('column_mappings')), 'nullable', 'string'],
+            'column_mappings.amount' => [
+                Rule::requiredIf(fn () => $this->filled('column_mappings')
+                    && !$this->filled('column_mappings.debit')
+                    && !$this->filled('column_mappings.credit')),
+                'nullable',
+                'string',
+            ],
+        ]);
+    }
+}
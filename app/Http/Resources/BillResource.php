@@ -15,7 +15,7 @@ class BillResource extends JsonResource
      */
     public function toArray(Request $request): array
     {
-        $paymentHistory = $this->payment_history ? json_decode($this->payment_history, true) : [];
+        $paymentHistory = $this->payment_history ?? [];
         $lastPaidDate = $this->getLastPaidDate($paymentHistory);
         $totalPaid = $this->calculateTotalPaid($paymentHistory);
         $paymentCount = count($paymentHistory);
@@ -28,8 +28,8 @@ public function toArray(Request $request): array
             'name' => $this->name,
             'amount' => $this->amount,
             'formatted_amount' => $this->getFormattedAmount(),
-            'due_date' => $this->due_date,
-            'formatted_due_date' => Carbon::parse($this->due_date)->format('M d, Y'),
+            'due_date' => $this->due_date->format('Y-m-d'),
+            'formatted_due_date' => $this->due_date->format('M d, Y'),
             'days_until_due' => $this->getDaysUntilDue(),
             'frequency' => $this->frequency,
             'frequency_label' => $this->getFrequencyLabel(),
@@ -108,7 +108,7 @@ private function getFormattedAmount(): string
     private function isOverdue(): bool
     {
         return $this->status === 'overdue' ||
-               ($this->status === 'active' && $this->due_date->isPast());
+               ($this->status === 'active' && $this->due_date->lt(Carbon::today()));
     }
 
     /**
@@ -120,14 +120,8 @@ private function getDaysUntilDue(): ?int
             return null;
         }
 
-        $dueDate = Carbon::parse($this->due_date);
-        $today = Carbon::today();
-
-        if ($dueDate->isPast()) {
-            return -$dueDate->diffInDays($today);
-        }
-
-        return $dueDate->diffInDays($today);
+        // Negative when the bill is past due
+        return (int) Carbon::today()->diffInDays($this->due_date, false);
     }
 
     /**
@@ -139,7 +133,7 @@ private function getLastPaidDate(?array $paymentHistory): ?string
             return null;
         }
 
-        $dates = array_column($paymentHistory, 'date');
+        $dates = array_column($paymentHistory, 'payment_date');
         if (empty($dates)) {
             return null;
         }
@@ -129,40 +129,28 @@ private function getColor(): string
      */
     private function getActionUrl(): ?string
     {
-        if (empty($this->data)) {
-            return null;
-        }
-
-        $baseUrl = '/'; // Adjust based on your frontend routing
+        $data = $this->data ?? [];
 
+        // Point at the web pages that exist; budgets, bills and goals have no detail page
         switch ($this->type) {
             case 'budget_alert':
-                return isset($this->data['budget_id'])
-                    ? "{$baseUrl}budgets/{$this->data['budget_id']}"
-                    : "{$baseUrl}budgets";
+                return '/budgets';
 
             case 'bill_reminder':
-                return isset($this->data['bill_id'])
-                    ? "{$baseUrl}bills/{$this->data['bill_id']}"
-                    : "{$baseUrl}bills";
+                return '/bills';
 
             case 'goal_milestone':
-                return isset($this->data['goal_id'])
-                    ? "{$baseUrl}goals/{$this->data['goal_id']}"
-                    : "{$baseUrl}goals";
+                return '/goals';
 
             case 'low_balance':
-                return isset($this->data['account_id'])
-                    ? "{$baseUrl}accounts/{$this->data['account_id']}"
-                    : "{$baseUrl}accounts";
+                return isset($data['account_id'])
+                    ? "/accounts/{$data['account_id']}"
+                    : '/accounts';
 
             case 'transaction':
-                return isset($this->data['transaction_id'])
-                    ? "{$baseUrl}transactions/{$this->data['transaction_id']}"
-                    : "{$baseUrl}transactions";
-
-            case 'system':
-                return "{$baseUrl}settings";
+                return isset($data['transaction_id'])
+                    ? "/transactions/{$data['transaction_id']}"
+                    : '/transactions';
 
             default:
                 return null;
@@ -0,0 +1,60 @@
+<?php
+
+namespace App\Jobs;
+
+use App\Mail\NotificationMail;
+use App\Models\User;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Foundation\Queue\Queueable;
+use Illuminate\Support\Facades\Http;
+use Illuminate\Support\Facades\Mail;
+
+/**
+ * Deliver a notification outside the app, by email or SMS. The in-app feed
+ * only holds the app copy.
+ */
+class SendNotificationMessage implements ShouldQueue
+{
+    use Queueable;
+
+    public int $tries = 3;
+
+    public function __construct(
+        public User $user,
+        public string $channel,
+        public string $title,
+        public string $message,
+    ) {
+    }
+
+    public function handle(): void
+    {
+        match ($this->channel) {
+            'email' => Mail::to($this->user)->send(new NotificationMail($this->title, $this->message)),
+            'sms' => $this->sendSms(),
+            default => null,
+        };
+    }
+
+    /**
+     * Post the text to the configured SMS gateway. Users without a phone
+     * number, or installs without a gateway, get no SMS.
+     */
+    protected function sendSms(): void
+    {
+        $url = config('services.sms.url');
+
+        if (!$url || !$this->user->phone) {
+            return;
+        }
+
+        Http::timeout(10)
+            ->withToken((string) config('services.sms.token'))
+            ->post($url, [
+                'to' => $this->user->phone,
+                'from' => config('services.sms.sender'),
+                'message' => "{$this->title}: {$this->message}",
+            ])
+            ->throw();
+    }
+}
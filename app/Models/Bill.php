@@ -17,6 +17,7 @@ class Bill extends Model
         'name',
         'amount',
         'due_date',
+        'due_day',
         'frequency',
         'reminder_days',
         'status',
@@ -32,6 +33,7 @@ protected function casts(): array
         return [
             'amount' => 'decimal:2',
             'due_date' => 'date',
+            'due_day' => 'integer',
             'reminder_days' => 'integer',
             'is_recurring' => 'boolean',
             'payment_history' => 'array',
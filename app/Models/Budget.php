@@ -49,4 +49,16 @@ public function category(): BelongsTo
     {
         return $this->belongsTo(Category::class);
     }
+
+    /**
+     * Get the amount spent in this budget's category during its current period
+     */
+    public function getSpentAmount(): float
+    {
+        return (float) Transaction::where('user_id', $this->user_id)
+            ->where('category_id', $this->category_id)
+            ->where('type', 'expense')
+            ->whereBetween('date', [$this->start_date->toDateString(), $this->end_date->toDateString()])
+            ->sum('amount');
+    }
 }
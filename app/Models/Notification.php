@@ -35,4 +35,12 @@ public function user(): BelongsTo
     {
         return $this->belongsTo(User::class);
     }
+
+    /**
+     * Scope to get only the notifications shown in the app.
+     */
+    public function scopeInApp($query)
+    {
+        return $query->where('channel', 'app');
+    }
 }
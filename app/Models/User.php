@@ -410,7 +410,7 @@ public function setPreference(string $key, $value): void
      */
     public function hasUnreadNotifications(): bool
     {
-        return $this->notifications()->where('is_read', false)->exists();
+        return $this->notifications()->inApp()->where('is_read', false)->exists();
     }
 
     /**
@@ -418,7 +418,7 @@ public function hasUnreadNotifications(): bool
      */
     public function getUnreadNotificationsCount(): int
     {
-        return $this->notifications()->where('is_read', false)->count();
+        return $this->notifications()->inApp()->where('is_read', false)->count();
     }
 
     /**
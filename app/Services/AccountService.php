@@ -102,16 +102,21 @@ public function getBalanceHistory(Account $account, string $period = 'month', ?s
         $history = $account->balanceHistory()
             ->whereBetween('date', [$start->format('Y-m-d'), $end->format('Y-m-d')])
             ->orderBy('date')
-            ->get();
+            ->get()
+            ->keyBy(fn ($record) => $record->date->format('Y-m-d'));
 
-        // Fill missing dates with previous balance
+        // Fill missing dates with previous balance, starting from the last
+        // recorded balance before the range rather than zero
         $filledHistory = [];
-        $lastBalance = 0;
+        $lastBalance = $account->balanceHistory()
+            ->where('date', '<', $start->format('Y-m-d'))
+            ->orderByDesc('date')
+            ->value('balance') ?? 0;
 
         $current = $start->copy();
         while ($current->lte($end)) {
             $dateStr = $current->format('Y-m-d');
-            $record = $history->firstWhere('date', $dateStr);
+            $record = $history->get($dateStr);
 
             if ($record) {
                 $lastBalance = $record->balance;
@@ -196,8 +201,11 @@ public function canDeleteAccount(Account $account): array
     /**
      * Transfer money between accounts
      */
-    public function transferMoney(Account $fromAccount, Account $toAccount, float $amount, string $description, string $date, ?string $notes = null): array
+    public function transferMoney(Account $fromAccount, Account $toAccount, float $amount, string $description, string $date, ?string $notes = null, ?float $receivedAmount = null): array
     {
+        // Differs from $amount only when the accounts use different currencies
+        $receivedAmount = $receivedAmount ?? $amount;
+
         $user = $fromAccount->user;
 
         // Find or create transfer category
@@ -235,7 +243,7 @@ public function transferMoney(Account $fromAccount, Account $toAccount, float $a
             'category_id' => $transferCategory->id,
             'transfer_account_id' => $fromAccount->id,
             'description' => $description,
-            'amount' => $amount,
+            'amount' => $receivedAmount,
             'type' => 'transfer',
             'date' => $date,
             'notes' => $notes,
@@ -245,11 +253,11 @@ public function transferMoney(Account $fromAccount, Account $toAccount, float $a
 
         // Update account balances
         $this->updateAccountBalanceForTransfer($fromAccount, $amount, 'outgoing');
-        $this->updateAccountBalanceForTransfer($toAccount, $amount, 'incoming');
+        $this->updateAccountBalanceForTransfer($toAccount, $receivedAmount, 'incoming');
 
         // Record balance history
         $this->recordBalanceHistory($fromAccount, $fromAccount->balance, 'transaction', -$amount);
-        $this->recordBalanceHistory($toAccount, $toAccount->balance, 'transaction', $amount);
+        $this->recordBalanceHistory($toAccount, $toAccount->balance, 'transaction', $receivedAmount);
 
         return [
             'transfer_id' => $fromTransaction->id,
@@ -279,6 +287,80 @@ public function syncAccountBalance(Account $account, float $actualBalance, strin
         }
     }
 
+    /**
+     * Get uncleared transactions and the cleared balance for reconciling against a statement
+     */
+    public function getReconciliationData(Account $account, string $statementDate): array
+    {
+        $uncleared = $this->getUnclearedTransactions($account);
+
+        // The stored balance includes every transaction, so back out the uncleared ones
+        $unclearedTotal = $uncleared->sum(fn ($transaction) => $this->getTransactionEffect($account, $transaction));
+        $clearedBalance = round($account->balance - $unclearedTotal, 2);
+
+        $lastClearedAt = $account->transactions()
+            ->where('is_cleared', true)
+            ->whereNotNull('cleared_at')
+            ->max('cleared_at');
+
+        return [
+            'statement_date' => $statementDate,
+            'current_balance' => (float) $account->balance,
+            'cleared_balance' => $clearedBalance,
+            'last_cleared_at' => $lastClearedAt,
+            'transactions' => $uncleared
+                ->filter(fn ($transaction) => $transaction->date->format('Y-m-d') <= $statementDate)
+                ->map(function ($transaction) use ($account) {
+                    return [
+                        'id' => $transaction->id,
+                        'date' => $transaction->date->format('Y-m-d'),
+                        'description' => $transaction->description,
+                        'type' => $transaction->type,
+                        'amount' => (float) $transaction->amount,
+                        'effect' => $this->getTransactionEffect($account, $transaction),
+                        'reference_number' => $transaction->reference_number,
+                        'category' => $transaction->category?->name,
+                        'transfer_account' => $transaction->transferAccount?->name,
+                    ];
+                })
+                ->values()
+                ->all(),
+        ];
+    }
+
+    /**
+     * Clear the ticked transactions and adjust the balance for any remaining difference
+     */
+    public function reconcileAccount(Account $account, array $transactionIds, float $statementBalance, string $statementDate): array
+    {
+        $toClear = $this->getUnclearedTransactions($account)
+            ->filter(fn ($transaction) => in_array($transaction->id, $transactionIds))
+            ->filter(fn ($transaction) => $transaction->date->format('Y-m-d') <= $statementDate);
+
+        Transaction::whereIn('id', $toClear->pluck('id'))->update([
+            'is_cleared' => true,
+            'cleared_at' => now(),
+        ]);
+
+        $clearedBalance = $this->getReconciliationData($account->fresh(), $statementDate)['cleared_balance'];
+        $difference = round($statementBalance - $clearedBalance, 2);
+
+        if (abs($difference) > 0.01) {
+            $this->syncAccountBalance(
+                $account,
+                $account->balance + $difference,
+                "Reconciliation to statement of {$statementDate}"
+            );
+        }
+
+        return [
+            'cleared_count' => $toClear->count(),
+            'cleared_balance' => $clearedBalance,
+            'statement_balance' => $statementBalance,
+            'adjustment' => abs($difference) > 0.01 ? $difference : 0.0,
+        ];
+    }
+
     /**
      * Calculate account performance metrics
      */
@@ -374,6 +456,46 @@ private function updateAccountBalanceForTransfer(Account $account, float $amount
         }
     }
 
+    /**
+     * Get uncleared transactions posted to or transferred into an account
+     */
+    private function getUnclearedTransactions(Account $account): Collection
+    {
+        return Transaction::with(['category', 'transferAccount'])
+            ->where('is_cleared', false)
+            ->where(function ($query) use ($account) {
+                $query->where('account_id', $account->id)
+                    ->orWhere(function ($q) use ($account) {
+                        $q->where('type', 'transfer')
+                            ->where('transfer_account_id', $account->id);
+                    });
+            })
+            ->orderBy('date')
+            ->orderBy('id')
+            ->get();
+    }
+
+    /**
+     * Signed effect of a transaction on an account balance, matching TransactionService
+     */
+    private function getTransactionEffect(Account $account, Transaction $transaction): float
+    {
+        $amount = (float) $transaction->amount;
+        $isCreditCard = $account->type === 'credit_card';
+
+        // Incoming side of a transfer recorded on another account
+        if ($transaction->account_id != $account->id) {
+            return $isCreditCard ? -$amount : $amount;
+        }
+
+        if ($transaction->type === 'income') {
+            return $amount;
+        }
+
+        // Expenses and outgoing transfers add debt to credit cards
+        return $isCreditCard ? $amount : -$amount;
+    }
+
     /**
      * Create balance adjustment transaction
      */
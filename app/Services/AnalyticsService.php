@@ -5,17 +5,41 @@
 use App\Models\User;
 use App\Models\Transaction;
 use App\Models\Account;
+use App\Models\AccountBalanceHistory;
 use App\Models\Category;
 use App\Models\Budget;
 use App\Models\FinancialGoal;
 use App\Models\Debt;
 use Illuminate\Support\Collection;
 use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Str;
 use Carbon\Carbon;
 use Carbon\CarbonPeriod;
 
 class AnalyticsService
 {
+    /**
+     * UserSetting key holding the saved report definitions as JSON
+     */
+    private const SAVED_REPORTS_SETTING = 'saved_reports';
+
+    /**
+     * UserSetting key holding dismissed insight ids as JSON
+     */
+    private const DISMISSED_INSIGHTS_SETTING = 'dismissed_insights';
+
+    private const DISMISSED_INSIGHTS_RETENTION_DAYS = 180;
+
+    /**
+     * Spending this much above the 3-month average is worth pointing out
+     */
+    private const SPENDING_INCREASE_THRESHOLD = 0.25;
+
+    /**
+     * Savings rate (%) below which an insight is raised
+     */
+    private const LOW_SAVINGS_RATE = 10;
+
     /**
      * Get dashboard summary
      */
@@ -39,13 +63,15 @@ public function getDashboardSummary(User $user, string $period, Carbon $date): a
 
         // Get active debts
         $activeDebts = $user->debts()->where('status', 'active')->get();
-        $totalDebt = $activeDebts->sum('remaining_amount');
+        $totalDebt = $activeDebts->sum('current_balance');
         $netWorth -= $totalDebt;
 
         // Get budget status
         $currentBudgets = $user->budgets()
+            ->with('category')
             ->where('is_active', true)
-            ->whereBetween('start_date', [$dateRange['start'], $dateRange['end']])
+            ->where('start_date', '<=', $dateRange['end'])
+            ->where('end_date', '>=', $dateRange['start'])
             ->get();
 
         $budgetUtilization = $this->calculateBudgetUtilization($currentBudgets, $transactions);
@@ -115,7 +141,8 @@ public function getIncomeVsExpenses(
         ?string $startDate,
         ?string $endDate,
         string $groupBy,
-        array $accountIds
+        array $accountIds,
+        array $categoryIds = []
     ): array {
         if ($startDate && $endDate) {
             $dateRange = [
@@ -134,6 +161,10 @@ public function getIncomeVsExpenses(
             $query->whereIn('account_id', $accountIds);
         }
 
+        if (!empty($categoryIds)) {
+            $query->whereIn('category_id', $categoryIds);
+        }
+
         $transactions = $query->get();
 
         // Group transactions by period
@@ -199,7 +230,7 @@ public function getSpendingTrends(
         $trends = [];
         $monthlyData = $transactions->groupBy(function ($transaction) {
             return Carbon::parse($transaction->date)->format('Y-m');
-        });
+        })->sortKeys();
 
         foreach ($monthlyData as $month => $monthTransactions) {
             $categorySpending = $monthTransactions->groupBy('category_id')->map(function ($catTransactions) {
@@ -445,6 +476,10 @@ public function getYearlySummary(User $user, int $year, array $accountIds, bool
 
     /**
      * Get net worth tracking
+     *
+     * Month-end balances come from the account balance history and debt
+     * payments, so past months reflect what was actually owned and owed.
+     * Credit card balances are amounts owed and count as liabilities.
      */
     public function getNetWorthTracking(
         User $user,
@@ -455,41 +490,73 @@ public function getNetWorthTracking(
         bool $includeGoals
     ): array {
         $dateRange = $this->determineDateRange($period, $startDate, $endDate);
+        $rangeEnd = Carbon::parse($dateRange['end'])->endOfDay();
+        $now = Carbon::now();
 
-        // Get account balance history
+        // Excluded accounts are still returned so they can be toggled back in
         $accounts = $user->accounts()
-            ->where('include_in_net_worth', true)
             ->where('is_active', true)
+            ->orderBy('name')
             ->get();
 
+        $balanceHistory = AccountBalanceHistory::whereIn('account_id', $accounts->pluck('id'))
+            ->where('date', '<=', $rangeEnd->format('Y-m-d'))
+            ->orderBy('date')
+            ->get()
+            ->groupBy('account_id');
+
+        $debts = collect();
+        if ($includeDebts) {
+            $debts = $user->debts()
+                ->whereIn('status', ['active', 'paid_off'])
+                ->with('payments')
+                ->orderBy('name')
+                ->get();
+        }
+
         $netWorthHistory = [];
-        $monthlyPeriod = CarbonPeriod::create($dateRange['start'], '1 month', $dateRange['end']);
+        $monthlyPeriod = CarbonPeriod::create(
+            Carbon::parse($dateRange['start'])->startOfMonth(),
+            '1 month',
+            $rangeEnd
+        );
 
         foreach ($monthlyPeriod as $date) {
-            $monthEnd = $date->copy()->endOfMonth();
-
-            // Calculate total assets
-            $totalAssets = $accounts->sum(function ($account) use ($monthEnd) {
-                // This would ideally fetch historical balance, but for now using current
-                return $account->balance;
-            });
+            $monthEnd = $date->copy()->endOfMonth()->min($rangeEnd);
 
+            $accountBalances = [];
+            $totalAssets = 0;
             $totalLiabilities = 0;
-            if ($includeDebts) {
-                $debts = $user->debts()
-                    ->where('status', 'active')
-                    ->where('created_at', '<=', $monthEnd)
-                    ->get();
-                $totalLiabilities = $debts->sum('remaining_amount');
+
+            foreach ($accounts as $account) {
+                $balance = $this->getAccountBalanceAt($account, $balanceHistory->get($account->id), $monthEnd, $now);
+                $accountBalances[$account->id] = $balance;
+
+                if (!$account->include_in_net_worth) {
+                    continue;
+                }
+
+                if ($account->type === 'credit_card') {
+                    $totalLiabilities += $balance;
+                } else {
+                    $totalAssets += $balance;
+                }
             }
 
-            $netWorth = $totalAssets - $totalLiabilities;
+            $debtBalances = [];
+            foreach ($debts as $debt) {
+                $balance = $this->getDebtBalanceAt($debt, $monthEnd);
+                $debtBalances[$debt->id] = $balance;
+                $totalLiabilities += $balance;
+            }
 
             $netWorthHistory[] = [
                 'date' => $date->format('Y-m'),
-                'assets' => $totalAssets,
-                'liabilities' => $totalLiabilities,
-                'net_worth' => $netWorth,
+                'assets' => round($totalAssets, 2),
+                'liabilities' => round($totalLiabilities, 2),
+                'net_worth' => round($totalAssets - $totalLiabilities, 2),
+                'accounts' => (object) $accountBalances,
+                'debts' => (object) $debtBalances,
             ];
         }
 
@@ -497,16 +564,38 @@ public function getNetWorthTracking(
         $previousNetWorth = $netWorthHistory[count($netWorthHistory) - 2]['net_worth'] ?? 0;
         $netWorthChange = $currentNetWorth - $previousNetWorth;
         $netWorthChangePercent = $previousNetWorth != 0 ?
-            (($netWorthChange / $previousNetWorth) * 100) : 0;
+            (($netWorthChange / abs($previousNetWorth)) * 100) : 0;
+
+        $includedAccounts = $accounts->where('include_in_net_worth', true);
 
         return [
             'date_range' => $dateRange,
             'current_net_worth' => $currentNetWorth,
-            'net_worth_change' => $netWorthChange,
+            'net_worth_change' => round($netWorthChange, 2),
             'net_worth_change_percent' => round($netWorthChangePercent, 2),
             'history' => $netWorthHistory,
+            'accounts' => $accounts->map(function ($account) {
+                return [
+                    'id' => $account->id,
+                    'name' => $account->name,
+                    'type' => $account->type,
+                    'color' => $account->color,
+                    'balance' => $account->balance,
+                    'is_liability' => $account->type === 'credit_card',
+                    'include_in_net_worth' => $account->include_in_net_worth,
+                ];
+            })->values(),
+            'debts' => $debts->map(function ($debt) {
+                return [
+                    'id' => $debt->id,
+                    'name' => $debt->name,
+                    'type' => $debt->type,
+                    'current_balance' => $debt->current_balance,
+                    'status' => $debt->status,
+                ];
+            })->values(),
             'breakdown' => [
-                'assets' => $accounts->groupBy('type')->map(function ($group) {
+                'assets' => $includedAccounts->where('type', '!=', 'credit_card')->groupBy('type')->map(function ($group) {
                     return [
                         'type' => $group->first()->type,
                         'count' => $group->count(),
@@ -528,7 +617,8 @@ public function getCashFlowAnalysis(
         ?string $endDate,
         array $accountIds,
         string $groupBy,
-        bool $includeTransfers
+        bool $includeTransfers,
+        array $categoryIds = []
     ): array {
         $dateRange = $this->determineDateRange($period, $startDate, $endDate);
 
@@ -539,6 +629,10 @@ public function getCashFlowAnalysis(
             $query->whereIn('account_id', $accountIds);
         }
 
+        if (!empty($categoryIds)) {
+            $query->whereIn('category_id', $categoryIds);
+        }
+
         if (!$includeTransfers) {
             $query->where('type', '!=', 'transfer');
         }
@@ -736,6 +830,10 @@ public function generateCustomReport(User $user, array $parameters): array
         $startDate = $parameters['start_date'] ?? Carbon::now()->subMonths(6)->format('Y-m-d');
         $endDate = $parameters['end_date'] ?? Carbon::now()->format('Y-m-d');
 
+        if (!empty($parameters['date_preset'])) {
+            [$startDate, $endDate] = $this->resolveReportPreset($parameters['date_preset']);
+        }
+
         $data = [
             'report_type' => $reportType,
             'generated_at' => Carbon::now()->toIso8601String(),
@@ -757,11 +855,94 @@ public function generateCustomReport(User $user, array $parameters): array
             case 'forecast':
                 $data['data'] = $this->generateForecastReport($user, $metrics);
                 break;
+            case 'aggregate':
+                $data['data'] = $this->generateAggregateReport(
+                    $user,
+                    $startDate,
+                    $endDate,
+                    $metrics,
+                    $parameters['dimensions'] ?? [],
+                    $filters
+                );
+                break;
         }
 
         return $data;
     }
 
+    /**
+     * Get the user's saved report definitions
+     */
+    public function getSavedReports(User $user): array
+    {
+        $reports = json_decode($user->getSetting(self::SAVED_REPORTS_SETTING, '[]'), true);
+
+        return is_array($reports) ? array_values($reports) : [];
+    }
+
+    /**
+     * Save a named report definition
+     */
+    public function createSavedReport(User $user, string $name, array $definition): array
+    {
+        $reports = $this->getSavedReports($user);
+        $now = Carbon::now()->toIso8601String();
+
+        $report = [
+            'id' => (string) Str::uuid(),
+            'name' => $name,
+            'definition' => $this->normalizeReportDefinition($definition),
+            'created_at' => $now,
+            'updated_at' => $now,
+        ];
+
+        $reports[] = $report;
+        $user->setSetting(self::SAVED_REPORTS_SETTING, $reports);
+
+        return $report;
+    }
+
+    /**
+     * Replace the name and definition of a saved report
+     */
+    public function updateSavedReport(User $user, string $id, string $name, array $definition): ?array
+    {
+        $reports = $this->getSavedReports($user);
+        $index = array_search($id, array_column($reports, 'id'), true);
+
+        if ($index === false) {
+            return null;
+        }
+
+        $reports[$index] = array_merge($reports[$index], [
+            'name' => $name,
+            'definition' => $this->normalizeReportDefinition($definition),
+            'updated_at' => Carbon::now()->toIso8601String(),
+        ]);
+        $user->setSetting(self::SAVED_REPORTS_SETTING, $reports);
+
+        return $reports[$index];
+    }
+
+    /**
+     * Delete a saved report
+     */
+    public function deleteSavedReport(User $user, string $id): bool
+    {
+        $reports = $this->getSavedReports($user);
+        $remaining = array_values(array_filter($reports, function ($report) use ($id) {
+            return $report['id'] !== $id;
+        }));
+
+        if (count($remaining) === count($reports)) {
+            return false;
+        }
+
+        $user->setSetting(self::SAVED_REPORTS_SETTING, $remaining);
+
+        return true;
+    }
+
     /**
      * Get expense predictions
      */
@@ -828,94 +1009,48 @@ public function getExpensePredictions(
 
     /**
      * Calculate health score
+     *
+     * Each component is scored for the 30 days up to today and for the 30
+     * days up to a month ago, so the breakdown can show its trend. Components
+     * without data (no budgets, no bills due) are left out of the total.
      */
     public function calculateHealthScore(User $user): array
     {
-        $scores = [];
-
-        // 1. Savings Rate Score (30 points)
-        $lastMonth = Carbon::now()->subMonth();
-        $income = $user->getTotalIncome($lastMonth->startOfMonth(), $lastMonth->endOfMonth());
-        $expenses = $user->getTotalExpenses($lastMonth->startOfMonth(), $lastMonth->endOfMonth());
-        $savingsRate = $income > 0 ? (($income - $expenses) / $income) * 100 : 0;
-
-        $scores['savings_rate'] = [
-            'value' => $savingsRate,
-            'score' => min(30, $savingsRate * 1.5), // 20% savings rate = 30 points
-            'max_score' => 30,
-        ];
-
-        // 2. Budget Adherence Score (20 points)
-        $budgets = $user->budgets()->where('is_active', true)->get();
-        $budgetAdherence = 100;
-        if ($budgets->count() > 0) {
-            $totalBudget = $budgets->sum('amount');
-            $totalSpent = $budgets->sum(function ($budget) {
-                return $budget->getSpentAmount();
-            });
-            $budgetAdherence = $totalBudget > 0 ? (1 - ($totalSpent / $totalBudget)) * 100 : 100;
-        }
-
-        $scores['budget_adherence'] = [
-            'value' => $budgetAdherence,
-            'score' => min(20, $budgetAdherence * 0.2),
-            'max_score' => 20,
-        ];
-
-        // 3. Debt-to-Income Ratio Score (20 points)
-        $totalDebt = $user->debts()->where('status', 'active')->sum('remaining_amount');
-        $annualIncome = $income * 12;
-        $debtToIncome = $annualIncome > 0 ? ($totalDebt / $annualIncome) * 100 : 0;
-
-        $scores['debt_to_income'] = [
-            'value' => $debtToIncome,
-            'score' => max(0, 20 - ($debtToIncome * 0.4)), // 0% debt = 20 points, 50% debt = 0 points
-            'max_score' => 20,
-        ];
-
-        // 4. Emergency Fund Score (15 points)
-        $netWorth = $user->net_worth;
-        $monthlyExpenses = $expenses;
-        $emergencyMonths = $monthlyExpenses > 0 ? $netWorth / $monthlyExpenses : 0;
-
-        $scores['emergency_fund'] = [
-            'value' => $emergencyMonths,
-            'score' => min(15, $emergencyMonths * 2.5), // 6 months = 15 points
-            'max_score' => 15,
-        ];
-
-        // 5. Goal Progress Score (15 points)
-        $activeGoals = $user->financialGoals()->where('status', 'active')->get();
-        $goalProgress = 0;
-        if ($activeGoals->count() > 0) {
-            $goalProgress = $activeGoals->avg(function ($goal) {
-                return $goal->target_amount > 0 ?
-                    ($goal->current_amount / $goal->target_amount) * 100 : 0;
-            });
+        $now = Carbon::now();
+        $current = $this->getHealthComponents($user, $now);
+        $previous = $this->getHealthComponents($user, $now->copy()->subMonthNoOverflow());
+
+        $components = [];
+        foreach ($current as $key => $component) {
+            $before = $previous[$key];
+            $components[$key] = $component + [
+                'previous_value' => $before['value'],
+                'previous_score' => $before['score'],
+                'score_change' => $component['applicable'] && $before['applicable']
+                    ? round($component['score'] - $before['score'], 1)
+                    : null,
+            ];
         }
 
-        $scores['goal_progress'] = [
-            'value' => $goalProgress,
-            'score' => min(15, $goalProgress * 0.15),
-            'max_score' => 15,
-        ];
-
-        $totalScore = collect($scores)->sum('score');
-        $maxScore = collect($scores)->sum('max_score');
+        $overallScore = $this->getOverallHealthScore($current);
+        $previousScore = $this->getOverallHealthScore($previous);
 
         return [
-            'overall_score' => round($totalScore),
-            'max_score' => $maxScore,
-            'grade' => $this->getGrade($totalScore),
-            'components' => $scores,
-            'recommendations' => $this->getHealthRecommendations($scores),
+            'as_of' => $now->toDateString(),
+            'overall_score' => $overallScore,
+            'max_score' => 100,
+            'grade' => $this->getGrade($overallScore),
+            'previous_score' => $previousScore,
+            'score_change' => $overallScore - $previousScore,
+            'components' => $components,
         ];
     }
 
     /**
-     * Get insights
+     * Get insights and recommendations, leaving out the ones the user has
+     * dismissed unless asked for
      */
-    public function getInsights(User $user, array $focusAreas, int $limit): array
+    public function getInsights(User $user, array $focusAreas, int $limit, bool $includeDismissed = false): array
     {
         $insights = [];
 
@@ -930,6 +1065,9 @@ public function getInsights(User $user, array $focusAreas, int $limit): array
                 case 'budgeting':
                     $insights = array_merge($insights, $this->getBudgetingInsights($user));
                     break;
+                case 'subscriptions':
+                    $insights = array_merge($insights, $this->getSubscriptionInsights($user));
+                    break;
                 case 'debt':
                     $insights = array_merge($insights, $this->getDebtInsights($user));
                     break;
@@ -939,12 +1077,56 @@ public function getInsights(User $user, array $focusAreas, int $limit): array
             }
         }
 
+        $dismissed = $this->getDismissedInsights($user);
+        $insights = array_map(function ($insight) use ($dismissed) {
+            $insight['dismissed'] = isset($dismissed[$insight['id']]);
+            return $insight;
+        }, $insights);
+        $dismissedCount = count(array_filter($insights, function ($insight) {
+            return $insight['dismissed'];
+        }));
+
+        if (!$includeDismissed) {
+            $insights = array_values(array_filter($insights, function ($insight) {
+                return !$insight['dismissed'];
+            }));
+        }
+
         // Sort by priority and limit
         usort($insights, function ($a, $b) {
             return $b['priority'] <=> $a['priority'];
         });
 
-        return array_slice($insights, 0, $limit);
+        return [
+            'insights' => array_slice($insights, 0, $limit),
+            'dismissed_count' => $dismissedCount,
+        ];
+    }
+
+    /**
+     * Hide an insight for the user. Ids carry the period they describe, so
+     * the same finding in a later month shows up again.
+     */
+    public function dismissInsight(User $user, string $insightId): void
+    {
+        $dismissed = $this->getDismissedInsights($user);
+        $dismissed[$insightId] = Carbon::now()->toIso8601String();
+
+        // Period-bound ids stop matching after a while; don't keep them forever
+        $cutoff = Carbon::now()->subDays(self::DISMISSED_INSIGHTS_RETENTION_DAYS);
+        $dismissed = array_filter($dismissed, function ($dismissedAt) use ($cutoff) {
+            return Carbon::parse($dismissedAt)->gte($cutoff);
+        });
+
+        $user->setSetting(self::DISMISSED_INSIGHTS_SETTING, $dismissed);
+    }
+
+    /**
+     * Show every dismissed insight again
+     */
+    public function restoreDismissedInsights(User $user): void
+    {
+        $user->settings()->where('key', self::DISMISSED_INSIGHTS_SETTING)->delete();
     }
 
     // Helper methods
@@ -994,7 +1176,28 @@ private function determineDateRange(string $period, ?string $startDate, ?string
             ];
         }
 
-        return $this->getDateRange($period, Carbon::now());
+        // Rolling windows used by the trend and net worth reports
+        $now = Carbon::now();
+        switch ($period) {
+            case '3months':
+            case '6months':
+                return [
+                    'start' => $now->copy()->subMonthsNoOverflow((int) $period - 1)->startOfMonth(),
+                    'end' => $now->copy()->endOfMonth(),
+                ];
+            case '2years':
+                return [
+                    'start' => $now->copy()->subMonthsNoOverflow(23)->startOfMonth(),
+                    'end' => $now->copy()->endOfMonth(),
+                ];
+            case 'all':
+                return [
+                    'start' => $now->copy()->subYears(5)->startOfMonth(),
+                    'end' => $now->copy()->endOfMonth(),
+                ];
+        }
+
+        return $this->getDateRange($period, $now);
     }
 
     private function groupTransactionsByPeriod(Collection $transactions, string $groupBy): Collection
@@ -1004,22 +1207,45 @@ private function groupTransactionsByPeriod(Collection $transactions, string $gro
 
             return match($groupBy) {
                 'day' => $date->format('Y-m-d'),
-                'week' => $date->format('Y-W'),
+                'week' => $date->format('o-W'),
                 'month' => $date->format('Y-m'),
                 'quarter' => $date->format('Y-Q'),
                 'year' => $date->format('Y'),
                 default => $date->format('Y-m'),
             };
-        });
+        })->sortKeys();
     }
 
     private function calculateBudgetUtilization($budgets, $transactions): array
     {
-        // Implementation for budget utilization calculation
+        $expenses = $transactions->where('type', 'expense');
+
+        $items = $budgets->map(function ($budget) use ($expenses) {
+            $spent = $expenses->where('category_id', $budget->category_id)->sum('amount');
+            $percentageUsed = $budget->amount > 0 ? ($spent / $budget->amount) * 100 : 0;
+
+            return [
+                'budget_id' => $budget->id,
+                'name' => $budget->name,
+                'category_color' => $budget->category?->color,
+                'amount' => $budget->amount,
+                'spent' => $spent,
+                'percentage_used' => round($percentageUsed, 2),
+                'status' => $this->getBudgetStatus($percentageUsed),
+            ];
+        })->sortByDesc('percentage_used')->values();
+
+        $totalBudget = $items->sum('amount');
+        $totalSpent = $items->sum('spent');
+
         return [
-            'total_budget' => $budgets->sum('amount'),
-            'total_spent' => 0, // Calculate from transactions
-            'utilization_percentage' => 0,
+            'total_budget' => $totalBudget,
+            'total_spent' => $totalSpent,
+            'utilization_percentage' => $totalBudget > 0 ? round(($totalSpent / $totalBudget) * 100, 2) : 0,
+            'on_track' => $items->whereIn('status', ['on_track', 'normal'])->count(),
+            'warning' => $items->where('status', 'warning')->count(),
+            'exceeded' => $items->where('status', 'exceeded')->count(),
+            'budgets' => $items->toArray(),
         ];
     }
 
@@ -1136,13 +1362,64 @@ private function getDebtBreakdown(User $user): array
             ->map(function ($debts) {
                 return [
                     'count' => $debts->count(),
-                    'total' => $debts->sum('remaining_amount'),
-                    'average' => $debts->avg('remaining_amount'),
+                    'total' => $debts->sum('current_balance'),
+                    'average' => $debts->avg('current_balance'),
                 ];
             })
             ->toArray();
     }
 
+    /**
+     * Balance of an account at the end of a day, taken from the last recorded
+     * history entry on or before it
+     */
+    private function getAccountBalanceAt(Account $account, ?Collection $history, Carbon $date, Carbon $now): float
+    {
+        // The stored balance is authoritative for today
+        if ($date->gte($now->copy()->startOfDay())) {
+            return (float) $account->balance;
+        }
+
+        if ($account->created_at && $account->created_at->gt($date)) {
+            return 0;
+        }
+
+        if (!$history || $history->isEmpty()) {
+            return (float) $account->balance;
+        }
+
+        $record = $history->last(fn ($entry) => $entry->date->lte($date));
+        if ($record) {
+            return (float) $record->balance;
+        }
+
+        // Before the first recorded change the account held its opening balance:
+        // an initial entry is that balance, any other entry records the signed change
+        $first = $history->first();
+        if ($first->change_type === 'initial') {
+            return (float) $first->balance;
+        }
+
+        return (float) $first->balance - (float) $first->change_amount;
+    }
+
+    /**
+     * Balance of a debt at the end of a day: the current balance plus any
+     * principal paid off after that day
+     */
+    private function getDebtBalanceAt(Debt $debt, Carbon $date): float
+    {
+        if ($debt->created_at && $debt->created_at->gt($date)) {
+            return 0;
+        }
+
+        $paidSince = $debt->payments
+            ->filter(fn ($payment) => Carbon::parse($payment->payment_date)->gt($date))
+            ->sum('principal');
+
+        return round((float) $debt->current_balance + $paidSince, 2);
+    }
+
     private function calculateAverageDailyFlow($transactions, array $dateRange): float
     {
         $days = Carbon::parse($dateRange['start'])->diffInDays(Carbon::parse($dateRange['end'])) ?: 1;
@@ -1224,6 +1501,178 @@ private function generateTransactionReport(User $user, $startDate, $endDate, arr
         ];
     }
 
+    /**
+     * Sum, count and average of transaction amounts grouped by up to two
+     * dimensions. Grouping by tag counts a transaction once under each of
+     * its tags, so the totals are always taken from the transactions.
+     */
+    private function generateAggregateReport(
+        User $user,
+        $startDate,
+        $endDate,
+        array $metrics,
+        array $dimensions,
+        array $filters
+    ): array {
+        $metrics = array_values($metrics);
+        $dimensions = array_values($dimensions);
+
+        $query = $user->transactions()
+            ->whereBetween('date', [$startDate, $endDate])
+            ->with(['category', 'account']);
+
+        if (!empty($filters['types'])) {
+            $query->whereIn('type', $filters['types']);
+        }
+        if (!empty($filters['category_ids'])) {
+            $query->whereIn('category_id', $filters['category_ids']);
+        }
+        if (!empty($filters['account_ids'])) {
+            $query->whereIn('account_id', $filters['account_ids']);
+        }
+        if (!empty($filters['tags'])) {
+            $query->where(function ($q) use ($filters) {
+                foreach ($filters['tags'] as $tag) {
+                    $q->orWhereJsonContains('tags', $tag);
+                }
+            });
+        }
+        if (isset($filters['min_amount'])) {
+            $query->where('amount', '>=', $filters['min_amount']);
+        }
+        if (isset($filters['max_amount'])) {
+            $query->where('amount', '<=', $filters['max_amount']);
+        }
+
+        $transactions = $query->get();
+
+        $entries = $transactions->flatMap(function ($transaction) use ($dimensions, $filters) {
+            $tags = array_values(array_unique($transaction->tags ?? []));
+            if (!empty($filters['tags'])) {
+                $tags = array_values(array_intersect($tags, $filters['tags']));
+            }
+
+            $values = [
+                'category' => [$transaction->category ? $transaction->category->name : 'Uncategorized'],
+                'account' => [$transaction->account ? $transaction->account->name : 'Unknown account'],
+                'type' => [$transaction->type],
+                'month' => [Carbon::parse($transaction->date)->format('Y-m')],
+                'tag' => empty($tags) ? ['Untagged'] : $tags,
+            ];
+
+            $combinations = [[]];
+            foreach ($dimensions as $dimension) {
+                $next = [];
+                foreach ($combinations as $combination) {
+                    foreach ($values[$dimension] as $value) {
+                        $next[] = $combination + [$dimension => $value];
+                    }
+                }
+                $combinations = $next;
+            }
+
+            return array_map(function ($combination) use ($transaction) {
+                return ['dimensions' => $combination, 'amount' => (float) $transaction->amount];
+            }, $combinations);
+        });
+
+        $rows = $entries->groupBy(function ($entry) {
+            return json_encode($entry['dimensions']);
+        })->map(function ($group) use ($metrics) {
+            return array_merge(
+                $group->first()['dimensions'],
+                $this->aggregateMetrics($group->pluck('amount'), $metrics)
+            );
+        });
+
+        // Months read best in order, everything else largest first
+        $sorting = in_array('month', $dimensions) ? [['month', 'asc']] : [];
+        $sorting[] = [$metrics[0], 'desc'];
+
+        return [
+            'start_date' => Carbon::parse($startDate)->format('Y-m-d'),
+            'end_date' => Carbon::parse($endDate)->format('Y-m-d'),
+            'dimensions' => $dimensions,
+            'metrics' => $metrics,
+            'rows' => $rows->sortBy($sorting)->values()->toArray(),
+            'totals' => $this->aggregateMetrics($transactions->pluck('amount'), $metrics),
+        ];
+    }
+
+    private function aggregateMetrics(Collection $amounts, array $metrics): array
+    {
+        $amounts = $amounts->map(function ($amount) {
+            return (float) $amount;
+        });
+        $values = [];
+
+        foreach ($metrics as $metric) {
+            switch ($metric) {
+                case 'sum':
+                    $values['sum'] = round($amounts->sum(), 2);
+                    break;
+                case 'count':
+                    $values['count'] = $amounts->count();
+                    break;
+                case 'average':
+                    $values['average'] = $amounts->isEmpty() ? 0 : round($amounts->avg(), 2);
+                    break;
+            }
+        }
+
+        return $values;
+    }
+
+    /**
+     * Relative ranges let a saved report cover a new period on every run
+     */
+    private function resolveReportPreset(string $preset): array
+    {
+        $now = Carbon::now();
+
+        switch ($preset) {
+            case 'last_month':
+                $start = $now->copy()->subMonthNoOverflow()->startOfMonth();
+                $end = $start->copy()->endOfMonth();
+                break;
+            case 'ytd':
+                $start = $now->copy()->startOfYear();
+                $end = $now->copy();
+                break;
+            default:
+                $start = $now->copy()->subMonthsNoOverflow((int) $preset - 1)->startOfMonth();
+                $end = $now->copy();
+        }
+
+        return [$start->format('Y-m-d'), $end->format('Y-m-d')];
+    }
+
+    /**
+     * Keep only the keys the report builder understands
+     */
+    private function normalizeReportDefinition(array $definition): array
+    {
+        $filters = $definition['filters'] ?? [];
+
+        return [
+            'report_type' => 'aggregate',
+            'metrics' => array_values($definition['metrics']),
+            'dimensions' => array_values($definition['dimensions'] ?? []),
+            'filters' => [
+                'types' => array_values($filters['types'] ?? []),
+                'category_ids' => array_map('intval', $filters['category_ids'] ?? []),
+                'account_ids' => array_map('intval', $filters['account_ids'] ?? []),
+                'tags' => array_values($filters['tags'] ?? []),
+                'min_amount' => $filters['min_amount'] ?? null,
+                'max_amount' => $filters['max_amount'] ?? null,
+            ],
+            'date_preset' => $definition['date_preset'] ?? null,
+            'start_date' => $definition['start_date'] ?? null,
+            'end_date' => $definition['end_date'] ?? null,
+            'view' => $definition['view'] ?? 'table',
+        ];
+    }
+
     private function generateSummaryReport(User $user, $startDate, $endDate, array $metrics): array
     {
         $report = [];
@@ -1347,85 +1796,426 @@ private function getGrade(float $score): string
         return 'F';
     }
 
-    private function getHealthRecommendations(array $scores): array
+    /**
+     * Score every health component for the 30 days up to a date
+     */
+    private function getHealthComponents(User $user, Carbon $asOf): array
     {
-        $recommendations = [];
-
-        if ($scores['savings_rate']['score'] < 20) {
-            $recommendations[] = [
-                'category' => 'savings',
-                'priority' => 'high',
-                'message' => 'Your savings rate is below recommended levels. Aim to save at least 20% of your income.',
-                'action' => 'Review your expenses and identify areas to cut back.',
-            ];
+        $asOf = $asOf->copy()->endOfDay();
+        $windowStart = $asOf->copy()->subDays(29)->startOfDay();
+        $quarterStart = $asOf->copy()->subDays(89)->startOfDay();
+        $symbol = $user->getCurrencySymbol();
+
+        $transactions = $user->transactions()
+            ->with('category')
+            ->whereIn('type', ['income', 'expense'])
+            ->whereBetween('date', [$quarterStart, $asOf])
+            ->get();
+        $recent = $transactions->filter(fn ($t) => Carbon::parse($t->date)->gte($windowStart));
+
+        $income = (float) $recent->where('type', 'income')->sum('amount');
+        $expenses = (float) $recent->where('type', 'expense')->sum('amount');
+        $monthlyIncome = (float) $transactions->where('type', 'income')->sum('amount') / 3;
+        $monthlyExpenses = (float) $transactions->where('type', 'expense')->sum('amount') / 3;
+
+        return [
+            'savings_rate' => $this->scoreSavingsRate($recent, $income, $expenses, $symbol),
+            'debt_to_income' => $this->scoreDebtToIncome($user, $asOf, $monthlyIncome),
+            'emergency_fund' => $this->scoreEmergencyFund($user, $asOf, $monthlyExpenses, $symbol),
+            'budget_adherence' => $this->scoreBudgetAdherence($user, $windowStart, $asOf, $symbol),
+            'bill_punctuality' => $this->scoreBillPunctuality($user, $windowStart, $asOf),
+        ];
+    }
+
+    /**
+     * Savings rate (25 points): saving 20% of income earns full marks
+     */
+    private function scoreSavingsRate(Collection $transactions, float $income, float $expenses, string $symbol): array
+    {
+        $maxScore = 25;
+
+        if ($income <= 0) {
+            return $this->healthComponent('Savings rate', null, '%', 0, $maxScore, $expenses > 0,
+                $expenses > 0
+                    ? 'No income was recorded in the last 30 days. Log your income so your savings rate can be tracked.'
+                    : 'Record your income and expenses to get a savings rate.');
         }
 
-        if ($scores['budget_adherence']['score'] < 15) {
-            $recommendations[] = [
-                'category' => 'budgeting',
-                'priority' => 'high',
-                'message' => 'You\'re exceeding your budget limits. This could lead to financial stress.',
-                'action' => 'Review and adjust your budget categories to be more realistic.',
-            ];
+        $rate = (($income - $expenses) / $income) * 100;
+        $score = max(0, min($maxScore, ($rate / 20) * $maxScore));
+
+        $topCategory = $transactions->where('type', 'expense')
+            ->groupBy('category_id')
+            ->map(fn ($group) => [
+                'name' => $group->first()->category->name ?? 'Uncategorized',
+                'amount' => $group->sum('amount'),
+            ])
+            ->sortByDesc('amount')
+            ->first();
+
+        if ($rate >= 20) {
+            $suggestion = sprintf('You kept %.0f%% of your income. Move the surplus into a goal or investment account so it keeps working.', $rate);
+        } else {
+            $shortfall = (0.2 * $income) - ($income - $expenses);
+            $suggestion = sprintf(
+                'Cutting %s%s a month would bring you to a 20%% savings rate.%s',
+                $symbol,
+                number_format($shortfall, 2),
+                $topCategory ? sprintf(' %s is your largest expense at %s%s.', $topCategory['name'], $symbol, number_format($topCategory['amount'], 2)) : ''
+            );
         }
 
-        if ($scores['debt_to_income']['score'] < 10) {
-            $recommendations[] = [
-                'category' => 'debt',
-                'priority' => 'critical',
-                'message' => 'Your debt-to-income ratio is concerning. This limits your financial flexibility.',
-                'action' => 'Focus on paying down high-interest debt first.',
-            ];
+        return $this->healthComponent('Savings rate', round($rate, 1), '%', $score, $maxScore, true, $suggestion);
+    }
+
+    /**
+     * Debt-to-income (20 points): monthly debt payments under 15% of income
+     * earn full marks, 50% or more earns none
+     */
+    private function scoreDebtToIncome(User $user, Carbon $asOf, float $monthlyIncome): array
+    {
+        $maxScore = 20;
+        $frequencyFactors = ['weekly' => 52 / 12, 'bi-weekly' => 26 / 12, 'monthly' => 1];
+
+        $debts = $user->debts()
+            ->with('payments')
+            ->whereIn('status', ['active', 'paid_off'])
+            ->get()
+            ->filter(fn ($debt) => $this->getDebtBalanceAt($debt, $asOf) > 0);
+
+        if ($debts->isEmpty()) {
+            return $this->healthComponent('Debt-to-income', 0, '%', $maxScore, $maxScore, true,
+                'You have no outstanding debt. Keep credit card balances paid in full to stay here.');
         }
 
-        if ($scores['emergency_fund']['score'] < 10) {
-            $recommendations[] = [
-                'category' => 'emergency_fund',
-                'priority' => 'high',
-                'message' => 'Your emergency fund is insufficient. Aim for 3-6 months of expenses.',
-                'action' => 'Set up automatic transfers to build your emergency fund.',
-            ];
+        $monthlyPayments = $debts->sum(
+            fn ($debt) => (float) $debt->minimum_payment * ($frequencyFactors[$debt->payment_frequency] ?? 1)
+        );
+        $ratio = $monthlyIncome > 0 ? ($monthlyPayments / $monthlyIncome) * 100 : null;
+        $score = $ratio === null ? 0 : max(0, min($maxScore, (50 - $ratio) / 35 * $maxScore));
+
+        $costliest = $debts->sortByDesc('interest_rate')->first();
+        $suggestion = $ratio !== null && $ratio <= 15
+            ? sprintf('Debt payments take %.0f%% of your income, well within a healthy range.', $ratio)
+            : sprintf(
+                'Put any extra payments toward %s (%s%% interest) first to lower what you owe fastest.',
+                $costliest->name,
+                number_format($costliest->interest_rate, 2)
+            );
+
+        return $this->healthComponent('Debt-to-income', $ratio === null ? null : round($ratio, 1), '%', $score, $maxScore, true, $suggestion);
+    }
+
+    /**
+     * Emergency fund (20 points): cash on hand covering six months of
+     * expenses earns full marks
+     */
+    private function scoreEmergencyFund(User $user, Carbon $asOf, float $monthlyExpenses, string $symbol): array
+    {
+        $maxScore = 20;
+
+        $accounts = $user->accounts()
+            ->where('is_active', true)
+            ->where('include_in_net_worth', true)
+            ->whereIn('type', ['cash', 'bank', 'ewallet'])
+            ->get();
+        $history = AccountBalanceHistory::whereIn('account_id', $accounts->pluck('id'))
+            ->where('date', '<=', $asOf->format('Y-m-d'))
+            ->orderBy('date')
+            ->get()
+            ->groupBy('account_id');
+
+        $now = Carbon::now();
+        $liquid = $accounts->sum(
+            fn ($account) => $this->getAccountBalanceAt($account, $history->get($account->id), $asOf, $now)
+        );
+
+        if ($monthlyExpenses <= 0) {
+            return $this->healthComponent('Emergency fund', null, 'months', $liquid > 0 ? $maxScore : 0, $maxScore, $liquid > 0,
+                'Record your expenses to see how many months your savings would last.');
         }
 
-        if ($scores['goal_progress']['score'] < 8) {
-            $recommendations[] = [
-                'category' => 'goals',
-                'priority' => 'medium',
-                'message' => 'Your financial goals need more attention to stay on track.',
-                'action' => 'Review your goals and adjust contribution amounts if needed.',
-            ];
+        $months = max(0, $liquid / $monthlyExpenses);
+        $score = min($maxScore, ($months / 6) * $maxScore);
+        $target = $months < 3 ? 3 : 6;
+
+        $suggestion = $months >= 6
+            ? 'Your cash covers six months of expenses. Anything beyond that can go toward goals or investments.'
+            : sprintf(
+                'Set aside %s%s more to cover %d months of expenses (%s%s a month).',
+                $symbol,
+                number_format(($target * $monthlyExpenses) - $liquid, 2),
+                $target,
+                $symbol,
+                number_format($monthlyExpenses, 2)
+            );
+
+        return $this->healthComponent('Emergency fund', round($months, 1), 'months', $score, $maxScore, true, $suggestion);
+    }
+
+    /**
+     * Budget adherence (20 points): share of budgets running in the window
+     * that stayed within their limit
+     */
+    private function scoreBudgetAdherence(User $user, Carbon $windowStart, Carbon $asOf, string $symbol): array
+    {
+        $maxScore = 20;
+
+        $budgets = $user->budgets()
+            ->with('category')
+            ->where('is_active', true)
+            ->where('start_date', '<=', $asOf->format('Y-m-d'))
+            ->where('end_date', '>=', $windowStart->format('Y-m-d'))
+            ->get();
+
+        if ($budgets->isEmpty()) {
+            return $this->healthComponent('Budget adherence', null, '%', 0, $maxScore, false,
+                'Create budgets for your largest spending categories to start tracking adherence.');
         }
 
-        return $recommendations;
+        // Spending only counts up to the scoring date, not the whole period
+        $overruns = $budgets->map(function ($budget) use ($user, $asOf) {
+            $spent = (float) $user->transactions()
+                ->where('category_id', $budget->category_id)
+                ->where('type', 'expense')
+                ->whereBetween('date', [
+                    $budget->start_date->toDateString(),
+                    $budget->end_date->min($asOf)->toDateString(),
+                ])
+                ->sum('amount');
+
+            return ['budget' => $budget, 'over' => $spent - (float) $budget->amount];
+        });
+
+        $exceeded = $overruns->filter(fn ($item) => $item['over'] > 0)->sortByDesc('over');
+        $withinLimit = (($budgets->count() - $exceeded->count()) / $budgets->count()) * 100;
+
+        if ($exceeded->isEmpty()) {
+            $suggestion = sprintf('All %d budgets are within their limits.', $budgets->count());
+        } else {
+            $worst = $exceeded->first();
+            $suggestion = sprintf(
+                '%s is %s%s over its limit. Raise the limit if it was unrealistic or cut back for the rest of the period.',
+                $worst['budget']->name ?: ($worst['budget']->category->name ?? 'A budget'),
+                $symbol,
+                number_format($worst['over'], 2)
+            );
+        }
+
+        return $this->healthComponent('Budget adherence', round($withinLimit, 1), '%', ($withinLimit / 100) * $maxScore, $maxScore, true, $suggestion);
+    }
+
+    /**
+     * Bill punctuality (15 points): share of bills due in the window that
+     * were paid on or before their due date
+     */
+    private function scoreBillPunctuality(User $user, Carbon $windowStart, Carbon $asOf): array
+    {
+        $maxScore = 15;
+        $onTime = 0;
+        $late = [];
+
+        $bills = $user->bills()->where('status', '!=', 'cancelled')->get();
+
+        foreach ($bills as $bill) {
+            foreach ($bill->payment_history ?? [] as $payment) {
+                if (empty($payment['due_date'])) {
+                    continue;
+                }
+
+                $dueDate = Carbon::parse($payment['due_date']);
+                $paidOn = Carbon::parse($payment['payment_date']);
+
+                if (!$dueDate->between($windowStart, $asOf)) {
+                    continue;
+                }
+
+                if ($paidOn->lte($dueDate)) {
+                    $onTime++;
+                } else {
+                    $late[] = $bill->name;
+                }
+            }
+
+            // The current due date is still unpaid, so if it had passed by then it was missed
+            if ($bill->status !== 'paid'
+                && $bill->due_date->gte($windowStart)
+                && $bill->due_date->lt($asOf->copy()->startOfDay())) {
+                $late[] = $bill->name;
+            }
+        }
+
+        $total = $onTime + count($late);
+        if ($total === 0) {
+            return $this->healthComponent('Bill punctuality', null, '%', 0, $maxScore, false,
+                $bills->isEmpty()
+                    ? 'Add your recurring bills to get reminders and track on-time payments.'
+                    : 'No bills were due in the last 30 days.');
+        }
+
+        $rate = ($onTime / $total) * 100;
+        $suggestion = empty($late)
+            ? sprintf('All %d bills due in the last 30 days were paid on time.', $total)
+            : sprintf(
+                '%s %s paid late or missed. Turn on reminders a few days before the due date.',
+                implode(', ', array_unique($late)),
+                count(array_unique($late)) === 1 ? 'was' : 'were'
+            );
+
+        return $this->healthComponent('Bill punctuality', round($rate, 1), '%', ($rate / 100) * $maxScore, $maxScore, true, $suggestion);
+    }
+
+    private function healthComponent(
+        string $label,
+        ?float $value,
+        string $unit,
+        float $score,
+        int $maxScore,
+        bool $applicable,
+        string $suggestion
+    ): array {
+        $ratio = $maxScore > 0 ? $score / $maxScore : 0;
+
+        return [
+            'label' => $label,
+            'value' => $value,
+            'unit' => $unit,
+            'score' => round($score, 1),
+            'max_score' => $maxScore,
+            'applicable' => $applicable,
+            'status' => !$applicable ? 'not_applicable' : ($ratio >= 0.75 ? 'good' : ($ratio >= 0.4 ? 'fair' : 'poor')),
+            'suggestion' => $suggestion,
+        ];
+    }
+
+    /**
+     * Total of the applicable components, scaled to 100
+     */
+    private function getOverallHealthScore(array $components): int
+    {
+        $applicable = collect($components)->where('applicable', true);
+        $maxScore = $applicable->sum('max_score');
+
+        return $maxScore > 0 ? (int) round(($applicable->sum('score') / $maxScore) * 100) : 0;
+    }
+
+    /**
+     * Dismissed insight ids mapped to when they were dismissed
+     */
+    private function getDismissedInsights(User $user): array
+    {
+        $dismissed = json_decode($user->getSetting(self::DISMISSED_INSIGHTS_SETTING, '[]'), true);
+
+        return is_array($dismissed) ? $dismissed : [];
+    }
+
+    /**
+     * Filters for the Transactions page
+     */
+    private function transactionsLink(array $filters, string $label = 'View transactions'): array
+    {
+        return [
+            'label' => $label,
+            'filters' => array_filter($filters, function ($value) {
+                return $value !== null && $value !== '';
+            }),
+        ];
     }
 
     private function getSpendingInsights(User $user): array
     {
         $insights = [];
+        $today = Carbon::today();
+        $month = $today->format('Y-m');
 
-        // Analyze recent spending patterns
-        $recentSpending = $user->transactions()
-            ->where('type', 'expense')
-            ->where('date', '>=', Carbon::now()->subMonth())
-            ->get();
+        // The last 30 days against the three 30-day windows before them
+        $recentStart = $today->copy()->subDays(29);
+        $baselineStart = $recentStart->copy()->subDays(90);
 
-        $previousSpending = $user->transactions()
+        $expenses = $user->transactions()
             ->where('type', 'expense')
-            ->whereBetween('date', [
-                Carbon::now()->subMonths(2),
-                Carbon::now()->subMonth()
-            ])
+            ->whereBetween('date', [$baselineStart->format('Y-m-d'), $today->format('Y-m-d')])
+            ->with('category')
             ->get();
 
-        $increase = $recentSpending->sum('amount') - $previousSpending->sum('amount');
-        if ($increase > $previousSpending->sum('amount') * 0.1) {
+        $recent = $expenses->filter(function ($t) use ($recentStart) {
+            return Carbon::parse($t->date)->gte($recentStart);
+        });
+        $baseline = $expenses->filter(function ($t) use ($recentStart) {
+            return Carbon::parse($t->date)->lt($recentStart);
+        });
+
+        $recentTotal = (float) $recent->sum('amount');
+        $averageTotal = (float) $baseline->sum('amount') / 3;
+        $symbol = $user->getCurrencySymbol();
+
+        if ($averageTotal > 0 && $recentTotal > $averageTotal * (1 + self::SPENDING_INCREASE_THRESHOLD)) {
             $insights[] = [
+                'id' => "spending_increase:{$month}",
                 'type' => 'spending_increase',
                 'priority' => 8,
                 'title' => 'Spending Increase Detected',
-                'message' => sprintf('Your spending increased by %.1f%% this month.',
-                    ($increase / $previousSpending->sum('amount')) * 100),
+                'message' => sprintf(
+                    'You spent %.0f%% more in the last 30 days than your 3-month average.',
+                    (($recentTotal - $averageTotal) / $averageTotal) * 100
+                ),
                 'action' => 'Review your recent transactions to identify unusual expenses.',
+                'link' => $this->transactionsLink([
+                    'type' => 'expense',
+                    'start_date' => $recentStart->format('Y-m-d'),
+                    'end_date' => $today->format('Y-m-d'),
+                ]),
+            ];
+        }
+
+        $baselineByCategory = $baseline->groupBy('category_id')->map(function ($transactions) {
+            return (float) $transactions->sum('amount') / 3;
+        });
+
+        $categorySpikes = $recent->groupBy('category_id')
+            ->map(function ($transactions, $categoryId) use ($baselineByCategory) {
+                $spent = (float) $transactions->sum('amount');
+                $average = $baselineByCategory[$categoryId] ?? 0;
+
+                return [
+                    'category_id' => $categoryId,
+                    'category' => $transactions->first()->category,
+                    'spent' => $spent,
+                    'average' => $average,
+                    'increase' => $average > 0 ? ($spent - $average) / $average : 0,
+                ];
+            })
+            ->filter(function ($item) {
+                return $item['category'] && $item['average'] > 0
+                    && $item['increase'] > self::SPENDING_INCREASE_THRESHOLD;
+            })
+            ->sortByDesc('increase')
+            ->take(3);
+
+        foreach ($categorySpikes as $spike) {
+            $insights[] = [
+                'id' => "category_spike:{$spike['category_id']}:{$month}",
+                'type' => 'category_spike',
+                'priority' => 7,
+                'title' => sprintf('%s Spending Up', $spike['category']->name),
+                'message' => sprintf(
+                    '%s is %.0f%% higher than your 3-month average.',
+                    $spike['category']->name,
+                    $spike['increase'] * 100
+                ),
+                'action' => sprintf(
+                    '%s%s in the last 30 days against a usual %s%s a month.',
+                    $symbol,
+                    number_format($spike['spent'], 2),
+                    $symbol,
+                    number_format($spike['average'], 2)
+                ),
+                'link' => $this->transactionsLink([
+                    'type' => 'expense',
+                    'category_id' => $spike['category_id'],
+                    'start_date' => $recentStart->format('Y-m-d'),
+                    'end_date' => $today->format('Y-m-d'),
+                ]),
             ];
         }
 
@@ -1435,25 +2225,46 @@ private function getSpendingInsights(User $user): array
     private function getSavingInsights(User $user): array
     {
         $insights = [];
+        $today = Carbon::today();
+        $recentStart = $today->copy()->subDays(29);
+        $previousStart = $recentStart->copy()->subDays(30);
+        $previousEnd = $recentStart->copy()->subDay();
 
-        $income = $user->getTotalIncome(
-            Carbon::now()->startOfMonth()->format('Y-m-d'),
-            Carbon::now()->format('Y-m-d')
-        );
-        $expenses = $user->getTotalExpenses(
-            Carbon::now()->startOfMonth()->format('Y-m-d'),
-            Carbon::now()->format('Y-m-d')
-        );
+        $income = $user->getTotalIncome($recentStart->format('Y-m-d'), $today->format('Y-m-d'));
+        $expenses = $user->getTotalExpenses($recentStart->format('Y-m-d'), $today->format('Y-m-d'));
+
+        // Without income there is no rate to speak of
+        if ($income <= 0) {
+            return $insights;
+        }
 
-        $savingsRate = $income > 0 ? (($income - $expenses) / $income) * 100 : 0;
+        $savingsRate = (($income - $expenses) / $income) * 100;
+
+        if ($savingsRate < self::LOW_SAVINGS_RATE) {
+            $previousIncome = $user->getTotalIncome($previousStart->format('Y-m-d'), $previousEnd->format('Y-m-d'));
+            $previousExpenses = $user->getTotalExpenses($previousStart->format('Y-m-d'), $previousEnd->format('Y-m-d'));
+            $previousRate = $previousIncome > 0 ? (($previousIncome - $previousExpenses) / $previousIncome) * 100 : null;
+            $dropped = $previousRate !== null && $previousRate >= self::LOW_SAVINGS_RATE;
 
-        if ($savingsRate < 10) {
             $insights[] = [
+                'id' => 'low_savings:' . $today->format('Y-m'),
                 'type' => 'low_savings',
                 'priority' => 9,
-                'title' => 'Low Savings Rate',
-                'message' => sprintf('You\'re only saving %.1f%% of your income.', $savingsRate),
+                'title' => $dropped ? 'Savings Rate Dropped' : 'Low Savings Rate',
+                'message' => $dropped
+                    ? sprintf(
+                        'Your savings rate dropped below %d%%, from %.1f%% to %.1f%% over the last 30 days.',
+                        self::LOW_SAVINGS_RATE,
+                        $previousRate,
+                        $savingsRate
+                    )
+                    : sprintf('You\'re only saving %.1f%% of your income.', $savingsRate),
                 'action' => 'Try to increase your savings rate to at least 20%.',
+                'link' => $this->transactionsLink([
+                    'type' => 'expense',
+                    'start_date' => $recentStart->format('Y-m-d'),
+                    'end_date' => $today->format('Y-m-d'),
+                ], 'View expenses'),
             ];
         }
 
@@ -1472,11 +2283,18 @@ private function getBudgetingInsights(User $user): array
 
             if ($percentage > 90) {
                 $insights[] = [
+                    'id' => "budget_warning:{$budget->id}:" . $budget->start_date->format('Y-m-d'),
                     'type' => 'budget_warning',
                     'priority' => 7,
                     'title' => sprintf('Budget Alert: %s', $budget->name),
                     'message' => sprintf('You\'ve used %.1f%% of your %s budget.', $percentage, $budget->name),
                     'action' => 'Consider reducing spending in this category.',
+                    'link' => $this->transactionsLink([
+                        'type' => 'expense',
+                        'category_id' => $budget->category_id,
+                        'start_date' => $budget->start_date->format('Y-m-d'),
+                        'end_date' => $budget->end_date->format('Y-m-d'),
+                    ]),
                 ];
             }
         }
@@ -1484,6 +2302,89 @@ private function getBudgetingInsights(User $user): array
         return $insights;
     }
 
+    /**
+     * Recurring bills whose latest charge is higher than the one before it
+     */
+    private function getSubscriptionInsights(User $user): array
+    {
+        $insights = [];
+
+        $increased = $user->bills()
+            ->where('is_recurring', true)
+            ->get()
+            ->map(function ($bill) {
+                $payments = collect($bill->payment_history ?? [])
+                    ->filter(function ($payment) {
+                        return isset($payment['amount']);
+                    })
+                    ->sortBy(function ($payment) {
+                        return $payment['payment_date'] ?? $payment['due_date'] ?? '';
+                    })
+                    ->values();
+
+                if ($payments->count() < 2) {
+                    return null;
+                }
+
+                $latest = (float) $payments->last()['amount'];
+                $previous = (float) $payments[$payments->count() - 2]['amount'];
+
+                return $latest > $previous ? [
+                    'bill' => $bill,
+                    'previous' => $previous,
+                    'latest' => $latest,
+                    'since' => $payments[$payments->count() - 2]['payment_date'] ?? null,
+                ] : null;
+            })
+            ->filter()
+            ->values();
+
+        if ($increased->isEmpty()) {
+            return $insights;
+        }
+
+        $count = $increased->count();
+        $extra = $increased->sum(function ($item) {
+            return $item['latest'] - $item['previous'];
+        });
+
+        // The id changes with the amounts, so a new increase shows again
+        $signature = $increased->map(function ($item) {
+            return $item['bill']->id . '=' . $item['latest'];
+        })->sort()->implode(',');
+
+        // One bill links straight to its charges; several link to their shared category if any
+        $categoryIds = $increased->pluck('bill.category_id')->unique();
+        $filters = ['type' => 'expense'];
+        if ($count === 1) {
+            $filters['search'] = $increased[0]['bill']->name;
+        } elseif ($categoryIds->count() === 1 && $categoryIds->first()) {
+            $filters['category_id'] = $categoryIds->first();
+        }
+        if ($since = $increased->pluck('since')->filter()->min()) {
+            $filters['start_date'] = Carbon::parse($since)->format('Y-m-d');
+        }
+
+        $insights[] = [
+            'id' => 'subscription_increase:' . md5($signature),
+            'type' => 'subscription_increase',
+            'priority' => 7,
+            'title' => 'Subscription Price Increase',
+            'message' => $count === 1
+                ? sprintf('%s increased in price.', $increased[0]['bill']->name)
+                : sprintf('You have %d subscriptions that increased in price.', $count),
+            'action' => sprintf(
+                'That adds %s%s to every billing cycle: %s.',
+                $user->getCurrencySymbol(),
+                number_format($extra, 2),
+                $increased->pluck('bill.name')->implode(', ')
+            ),
+            'link' => $this->transactionsLink($filters),
+        ];
+
+        return $insights;
+    }
+
     private function getDebtInsights(User $user): array
     {
         $insights = [];
@@ -1495,12 +2396,14 @@ private function getDebtInsights(User $user): array
 
             if ($highInterestDebts->count() > 0) {
                 $insights[] = [
+                    'id' => 'high_interest_debt:' . $highInterestDebts->pluck('id')->sort()->implode(','),
                     'type' => 'high_interest_debt',
                     'priority' => 9,
                     'title' => 'High Interest Debt',
                     'message' => sprintf('You have %d debt(s) with interest rates above 15%%.',
                         $highInterestDebts->count()),
                     'action' => 'Prioritize paying off high-interest debts first.',
+                    'link' => null,
                 ];
             }
         }
@@ -1519,11 +2422,13 @@ private function getInvestmentInsights(User $user): array
 
         if ($investmentAccounts->count() === 0) {
             $insights[] = [
+                'id' => 'no_investments',
                 'type' => 'no_investments',
                 'priority' => 6,
                 'title' => 'No Investment Accounts',
                 'message' => 'You don\'t have any investment accounts set up.',
                 'action' => 'Consider starting to invest for long-term wealth building.',
+                'link' => null,
             ];
         }
 
@@ -1539,15 +2444,18 @@ public function convertToCSV(array $data): string
         // This is a simplified example
         $csv = '';
 
-        if (isset($data['data']) && is_array($data['data'])) {
+        // Aggregate reports keep their table under "rows"
+        $rows = $data['data']['rows'] ?? $data['data'] ?? null;
+
+        if (is_array($rows)) {
             // Create header row
-            if (count($data['data']) > 0) {
-                $firstRow = reset($data['data']);
+            if (count($rows) > 0) {
+                $firstRow = reset($rows);
                 if (is_array($firstRow)) {
                     $csv .= implode(',', array_keys($firstRow)) . "\n";
 
                     // Add data rows
-                    foreach ($data['data'] as $row) {
+                    foreach ($rows as $row) {
                         $csv .= implode(',', array_values($row)) . "\n";
                     }
                 }
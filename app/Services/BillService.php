@@ -11,6 +11,16 @@
 
 class BillService
 {
+    protected TransactionService $transactionService;
+
+    protected NotificationService $notificationService;
+
+    public function __construct(TransactionService $transactionService, NotificationService $notificationService)
+    {
+        $this->transactionService = $transactionService;
+        $this->notificationService = $notificationService;
+    }
+
     /**
      * Create a new bill
      */
@@ -18,7 +28,7 @@ public function createBill(User $user, array $data): Bill
     {
         $data['user_id'] = $user->id;
         $data['status'] = 'active';
-        $data['reminder_days'] = $data['reminder_days'] ?? 3;
+        $data['due_day'] = Carbon::parse($data['due_date'])->day;
         $data['is_recurring'] = $data['is_recurring'] ?? true;
         $data['payment_history'] = [];
 
@@ -38,6 +48,8 @@ public function updateBill(Bill $bill, array $data): Bill
         // Check if due date changed and update status accordingly
         if (isset($data['due_date'])) {
             $dueDate = Carbon::parse($data['due_date']);
+            $data['due_day'] = $dueDate->day;
+
             if ($dueDate->isPast() && $bill->status === 'active') {
                 $data['status'] = 'overdue';
             } elseif ($dueDate->isFuture() && $bill->status === 'overdue') {
@@ -65,12 +77,25 @@ public function markBillAsPaid(Bill $bill, array $data): Bill
         $paymentDate = Carbon::parse($data['payment_date']);
         $amount = $data['amount'] ?? $bill->amount;
 
+        // Create the matching expense transaction if one isn't linked already
+        $transactionId = $data['transaction_id'] ?? null;
+        if (!$transactionId && ($data['create_transaction'] ?? true)) {
+            $transactionId = $this->createTransactionForBill(
+                $bill,
+                (float) $amount,
+                $paymentDate,
+                $data['account_id'] ?? null,
+                $data['notes'] ?? null
+            )->id;
+        }
+
         // Add to payment history
         $paymentHistory = $bill->payment_history ?? [];
         $paymentHistory[] = [
+            'due_date' => $bill->due_date->toDateString(),
             'payment_date' => $paymentDate->toDateString(),
             'amount' => $amount,
-            'transaction_id' => $data['transaction_id'] ?? null,
+            'transaction_id' => $transactionId,
             'notes' => $data['notes'] ?? null,
             'paid_at' => now()->toDateTimeString(),
         ];
@@ -80,50 +105,125 @@ public function markBillAsPaid(Bill $bill, array $data): Bill
             'payment_history' => $paymentHistory,
         ];
 
-        // If recurring and next due date is provided, update it
-        if ($bill->is_recurring && isset($data['next_due_date'])) {
-            $updateData['due_date'] = $data['next_due_date'];
-            $updateData['status'] = 'active';
-        } elseif ($bill->is_recurring) {
-            // Auto-calculate next due date based on frequency
-            $nextDueDate = $this->calculateNextDueDate($bill->due_date, $bill->frequency);
+        // Recurring bills roll forward to their next due date
+        if ($bill->is_recurring) {
+            $nextDueDate = $data['next_due_date']
+                ?? $this->calculateNextDueDate($bill->due_date->toDateString(), $bill->frequency, $bill->due_day);
             $updateData['due_date'] = $nextDueDate;
-            $updateData['status'] = 'active';
-        }
 
-        $bill->update($updateData);
+            // A date picked by hand becomes the bill's new day of month
+            if (isset($data['next_due_date'])) {
+                $updateData['due_day'] = Carbon::parse($nextDueDate)->day;
+            }
 
-        // Create a transaction if not already linked
-        if (!isset($data['transaction_id']) && isset($data['create_transaction']) && $data['create_transaction']) {
-            $this->createTransactionForBill($bill, $amount, $paymentDate);
+            $updateData['status'] = Carbon::parse($nextDueDate)->lt(Carbon::today()) ? 'overdue' : 'active';
         }
 
+        $bill->update($updateData);
+
         return $bill->fresh();
     }
 
     /**
      * Calculate next due date based on frequency
+     *
+     * Month-based steps land on the bill's day of month, or the last day of
+     * shorter months, so a bill due on the 31st is due Feb 28 and then Mar 31.
      */
-    protected function calculateNextDueDate(string $currentDueDate, string $frequency): string
+    protected function calculateNextDueDate(string $currentDueDate, string $frequency, ?int $dueDay = null): string
     {
         $date = Carbon::parse($currentDueDate);
 
-        switch ($frequency) {
-            case 'weekly':
-                return $date->addWeek()->toDateString();
-            case 'bi-weekly':
-                return $date->addWeeks(2)->toDateString();
-            case 'monthly':
-                return $date->addMonth()->toDateString();
-            case 'quarterly':
-                return $date->addMonths(3)->toDateString();
-            case 'semi-annually':
-                return $date->addMonths(6)->toDateString();
-            case 'annually':
-                return $date->addYear()->toDateString();
-            default:
-                return $date->addMonth()->toDateString();
+        if ($frequency === 'weekly') {
+            return $date->addWeek()->toDateString();
+        }
+
+        if ($frequency === 'bi-weekly') {
+            return $date->addWeeks(2)->toDateString();
         }
+
+        $months = match ($frequency) {
+            'quarterly' => 3,
+            'semi-annually' => 6,
+            'annually' => 12,
+            default => 1,
+        };
+
+        $next = $date->copy()->startOfMonth()->addMonths($months);
+
+        return $next->day(min($dueDay ?? $date->day, $next->daysInMonth))->toDateString();
+    }
+
+    /**
+     * Get bill occurrences between two dates for a calendar.
+     *
+     * Paid occurrences come from the payment history. Unpaid ones start at
+     * the current due date and repeat by frequency for recurring bills.
+     */
+    public function getCalendar(User $user, Carbon $startDate, Carbon $endDate): array
+    {
+        $bills = $user->bills()
+            ->with('category')
+            ->where('status', '!=', 'cancelled')
+            ->get();
+
+        $today = Carbon::today();
+        $occurrences = [];
+
+        foreach ($bills as $bill) {
+            $base = [
+                'bill_id' => $bill->id,
+                'name' => $bill->name,
+                'color' => $bill->color ?? $bill->category?->color,
+                'frequency' => $bill->frequency,
+            ];
+
+            foreach ($bill->payment_history ?? [] as $payment) {
+                // Older history entries only recorded when the bill was paid
+                $date = Carbon::parse($payment['due_date'] ?? $payment['payment_date']);
+
+                if ($date->between($startDate, $endDate)) {
+                    $occurrences[] = $base + [
+                        'date' => $date->toDateString(),
+                        'amount' => round((float) $payment['amount'], 2),
+                        'status' => 'paid',
+                        'is_projected' => false,
+                        'payment_date' => $payment['payment_date'],
+                    ];
+                }
+            }
+
+            if ($bill->status === 'paid') {
+                continue;
+            }
+
+            $dueDate = $bill->due_date->copy();
+            $isCurrent = true;
+
+            while ($dueDate->lte($endDate)) {
+                if ($dueDate->gte($startDate)) {
+                    $occurrences[] = $base + [
+                        'date' => $dueDate->toDateString(),
+                        'amount' => round((float) $bill->amount, 2),
+                        'status' => $dueDate->lt($today) ? 'overdue' : 'upcoming',
+                        // Only the current due date can be paid; later ones are projections
+                        'is_projected' => !$isCurrent,
+                        'payment_date' => null,
+                    ];
+                }
+
+                if (!$bill->is_recurring) {
+                    break;
+                }
+
+                $dueDate = Carbon::parse($this->calculateNextDueDate($dueDate->toDateString(), $bill->frequency, $bill->due_day));
+                $isCurrent = false;
+            }
+        }
+
+        usort($occurrences, fn ($a, $b) => [$a['date'], $a['name']] <=> [$b['date'], $b['name']]);
+
+        return $occurrences;
     }
 
     /**
@@ -168,10 +268,20 @@ public function getOverdueBills(User $user, ?int $limit = null): Collection
      */
     public function updateOverdueStatuses(User $user): void
     {
-        $user->bills()
+        $bills = $user->bills()
             ->where('status', 'active')
             ->where('due_date', '<', Carbon::today())
-            ->update(['status' => 'overdue']);
+            ->get();
+
+        if ($bills->isEmpty()) {
+            return;
+        }
+
+        $user->bills()->whereIn('id', $bills->pluck('id'))->update(['status' => 'overdue']);
+
+        foreach ($bills as $bill) {
+            $this->notificationService->sendBillOverdue($bill);
+        }
     }
 
     /**
@@ -357,6 +467,7 @@ public function duplicateBill(Bill $bill, ?string $name = null, ?string $dueDate
 
         $data['name'] = $name ?? $bill->name . ' (Copy)';
         $data['due_date'] = $dueDate ?? $bill->due_date;
+        $data['due_day'] = $dueDate ? Carbon::parse($dueDate)->day : $bill->due_day;
         $data['status'] = 'active';
         $data['payment_history'] = [];
 
@@ -371,11 +482,10 @@ public function duplicateBill(Bill $bill, ?string $name = null, ?string $dueDate
     /**
      * Create a transaction for a bill payment
      */
-    protected function createTransactionForBill(Bill $bill, float $amount, Carbon $paymentDate): Transaction
+    protected function createTransactionForBill(Bill $bill, float $amount, Carbon $paymentDate, ?int $accountId = null, ?string $notes = null): Transaction
     {
-        return Transaction::create([
-            'user_id' => $bill->user_id,
-            'account_id' => $bill->user->accounts()->first()->id, // Use default account
+        return $this->transactionService->createTransaction([
+            'account_id' => $accountId ?? $bill->user->accounts()->first()->id, // Fall back to the first account
             'category_id' => $bill->category_id,
             'type' => 'expense',
             'amount' => $amount,
@@ -383,37 +493,44 @@ protected function createTransactionForBill(Bill $bill, float $amount, Carbon $p
             'date' => $paymentDate->toDateString(),
             'is_recurring' => false,
             'tags' => ['bill_payment'],
-            'notes' => "Automatic transaction for bill payment: {$bill->name}",
+            'notes' => $notes ?? "Automatic transaction for bill payment: {$bill->name}",
         ]);
     }
 
     /**
-     * Check and send bill reminders
+     * Check and send bill reminders. Each bill is reminded its own
+     * reminder_days ahead of the due date, or the user's reminder_days_before
+     * when it has none; a bill with reminder_days set to 0 gets no reminder.
      */
     public function checkAndSendReminders(User $user): array
     {
         $reminders = [];
+        $defaultDays = (int) $this->notificationService->getSettings($user)['preferences']['reminder_days_before'];
+        $today = Carbon::today();
+
+        // Reminder lead times are capped at 30 days
         $bills = $user->bills()
             ->where('status', 'active')
-            ->where('reminder_days', '>', 0)
+            ->whereDate('due_date', '>', $today->format('Y-m-d'))
+            ->whereDate('due_date', '<=', $today->copy()->addDays(30)->format('Y-m-d'))
             ->get();
 
         foreach ($bills as $bill) {
-            $daysUntilDue = Carbon::parse($bill->due_date)->diffInDays(Carbon::today(), false);
-
-            // Check if we should send a reminder
-            if ($daysUntilDue == $bill->reminder_days) {
-                $reminders[] = [
-                    'bill_id' => $bill->id,
-                    'bill_name' => $bill->name,
-                    'amount' => $bill->amount,
-                    'due_date' => $bill->due_date,
-                    'days_until_due' => $bill->reminder_days,
-                ];
-
-                // Here you would typically trigger a notification
-                // This could be email, push notification, or in-app notification
+            $daysBefore = $bill->reminder_days ?? $defaultDays;
+
+            if ($daysBefore <= 0 || !$bill->due_date->isSameDay($today->copy()->addDays($daysBefore))) {
+                continue;
             }
+
+            $this->notificationService->sendBillReminder($bill, $daysBefore);
+
+            $reminders[] = [
+                'bill_id' => $bill->id,
+                'bill_name' => $bill->name,
+                'amount' => $bill->amount,
+                'due_date' => $bill->due_date,
+                'days_until_due' => $daysBefore,
+            ];
         }
 
         return $reminders;
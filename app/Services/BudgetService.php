@@ -3,14 +3,28 @@
 namespace App\Services;
 
 use App\Models\Budget;
+use App\Models\BudgetPeriod;
+use App\Models\RecurringTransaction;
 use App\Models\User;
 use App\Models\Transaction;
 use Carbon\Carbon;
+use Illuminate\Database\Eloquent\Collection;
 use Illuminate\Support\Facades\Auth;
 use Illuminate\Support\Facades\DB;
 
 class BudgetService
 {
+    /**
+     * Day of the period from which an on-pace overrun is reported. Before
+     * that there are too few days to trust the spending pace.
+     */
+    public const FORECAST_WARNING_DAY = 10;
+
+    /**
+     * z-score of the forecast band (90% of outcomes)
+     */
+    private const FORECAST_Z_SCORE = 1.645;
+
     /**
      * Create a new budget
      */
@@ -593,4 +607,457 @@ public function getDailySpendingData(User $user, $startDate, $endDate): array
             ->get()
             ->toArray();
     }
+
+    /**
+     * Resolve the date window of a budget period, shifted by a number of periods
+     *
+     * Standard periods are anchored on today. Saved periods are anchored on their
+     * own dates, so a custom pay cycle (e.g. the 15th to the 14th) keeps its
+     * boundaries as it moves back and forward.
+     *
+     * @param string $periodType Period type (weekly, monthly, yearly, custom)
+     * @param int $offset Number of periods to move from the anchor (negative for past periods)
+     * @param BudgetPeriod|null $budgetPeriod Saved period to anchor on
+     * @return array{start: Carbon, end: Carbon, label: string}
+     */
+    public function resolvePeriodWindow(string $periodType, int $offset = 0, ?BudgetPeriod $budgetPeriod = null): array
+    {
+        if (!$budgetPeriod) {
+            $now = Carbon::now();
+
+            [$start, $end] = match ($periodType) {
+                'weekly' => [$now->copy()->startOfWeek()->addWeeks($offset), $now->copy()->endOfWeek()->addWeeks($offset)],
+                'yearly' => [$now->copy()->startOfYear()->addYears($offset), $now->copy()->endOfYear()->addYears($offset)],
+                default => [$now->copy()->startOfMonth()->addMonthsNoOverflow($offset), $now->copy()->addMonthsNoOverflow($offset)->endOfMonth()],
+            };
+
+            return [
+                'start' => $start->startOfDay(),
+                'end' => $end->startOfDay(),
+                'label' => match ($periodType) {
+                    'weekly' => $start->format('M j') . ' - ' . $end->format('M j, Y'),
+                    'yearly' => $start->format('Y'),
+                    default => $start->format('F Y'),
+                },
+            ];
+        }
+
+        $anchorStart = $budgetPeriod->start_date->copy()->startOfDay();
+        $anchorEnd = $budgetPeriod->end_date->copy()->startOfDay();
+        $nextStart = $anchorEnd->copy()->addDay();
+
+        // Periods spanning whole months move by months so month lengths don't shift the boundaries
+        $months = (int) $anchorStart->diffInMonths($nextStart);
+        $isMonthAligned = $months > 0 && $anchorStart->copy()->addMonthsNoOverflow($months)->equalTo($nextStart);
+
+        if ($budgetPeriod->period_type === 'weekly') {
+            $start = $anchorStart->copy()->addWeeks($offset);
+            $end = $anchorEnd->copy()->addWeeks($offset);
+        } elseif ($budgetPeriod->period_type === 'yearly') {
+            $start = $anchorStart->copy()->addYearsNoOverflow($offset);
+            $end = $start->copy()->addYearNoOverflow()->subDay();
+        } elseif ($budgetPeriod->period_type === 'monthly' || $isMonthAligned) {
+            // Both ends come from the anchor, so a period starting on the 31st
+            // ends the day before the next one starts even after a short month
+            $step = max(1, $months);
+            $start = $anchorStart->copy()->addMonthsNoOverflow($offset * $step);
+            $end = $anchorStart->copy()->addMonthsNoOverflow(($offset + 1) * $step)->subDay();
+        } else {
+            $days = $anchorStart->diffInDays($nextStart);
+            $start = $anchorStart->copy()->addDays($offset * $days);
+            $end = $anchorEnd->copy()->addDays($offset * $days);
+        }
+
+        return [
+            'start' => $start,
+            'end' => $end,
+            'label' => $budgetPeriod->name . ': ' . $start->format('M j') . ' - ' . $end->format('M j, Y'),
+        ];
+    }
+
+    /**
+     * Get active budgets with their actual spending inside a date window
+     *
+     * @param User $user The user to get budgets for
+     * @param Carbon $startDate Start of the window
+     * @param Carbon $endDate End of the window
+     * @param string|null $budgetPeriod Only include budgets of this period type
+     * @return Collection Budgets with `current_spent` set for the window
+     */
+    public function getBudgetsForWindow(User $user, Carbon $startDate, Carbon $endDate, ?string $budgetPeriod = null): Collection
+    {
+        $query = $user->budgets()->where('is_active', true)->with('category');
+
+        if ($budgetPeriod) {
+            $query->where('period', $budgetPeriod);
+        }
+
+        $spending = $this->getSpendingBreakdownByCategory($user, $startDate, $endDate);
+
+        return $query->orderBy('name')->get()->each(function ($budget) use ($spending) {
+            $budget->current_spent = (float) ($spending[$budget->category_id]['total_spent'] ?? 0);
+        });
+    }
+
+    /**
+     * Compare budgeted and actual spending per category over recent periods
+     *
+     * Past periods are measured against each budget's current amount, since
+     * budget amounts are not versioned.
+     *
+     * @param User $user The user to compare budgets for
+     * @param string $periodType Budget period type (weekly, monthly, yearly)
+     * @param int $periods Number of periods to include, ending with the current one
+     * @return array Periods from oldest to newest, each with per-category rows and totals
+     */
+    public function getBudgetVsActual(User $user, string $periodType, int $periods): array
+    {
+        $budgets = $user->budgets()
+            ->where('period', $periodType)
+            ->where('is_active', true)
+            ->with('category')
+            ->orderBy('name')
+            ->get();
+
+        $results = [];
+
+        for ($offset = 1 - $periods; $offset <= 0; $offset++) {
+            $window = $this->resolvePeriodWindow($periodType, $offset);
+            $spending = $this->getSpendingBreakdownByCategory($user, $window['start'], $window['end']);
+
+            $items = $budgets->map(function ($budget) use ($spending) {
+                $budgeted = (float) $budget->amount;
+                $actual = (float) ($spending[$budget->category_id]['total_spent'] ?? 0);
+                $variance = $budgeted - $actual;
+
+                return [
+                    'budget_id' => $budget->id,
+                    'category_id' => $budget->category_id,
+                    'category' => $budget->category ? $budget->category->name : $budget->name,
+                    'category_icon' => $budget->category?->icon,
+                    'category_color' => $budget->category?->color,
+                    'budgeted' => $budgeted,
+                    'actual' => $actual,
+                    'variance' => round($variance, 2),
+                    'variance_percentage' => $budgeted > 0 ? round(($variance / $budgeted) * 100, 1) : 0,
+                ];
+            })->values();
+
+            $totalBudgeted = $items->sum('budgeted');
+            $totalVariance = $totalBudgeted - $items->sum('actual');
+
+            $results[] = [
+                'label' => $window['label'],
+                'start_date' => $window['start']->toDateString(),
+                'end_date' => $window['end']->toDateString(),
+                'items' => $items->all(),
+                'total_budgeted' => $totalBudgeted,
+                'total_actual' => $items->sum('actual'),
+                'total_variance' => round($totalVariance, 2),
+                'total_variance_percentage' => $totalBudgeted > 0 ? round(($totalVariance / $totalBudgeted) * 100, 1) : 0,
+            ];
+        }
+
+        return $results;
+    }
+
+    /**
+     * Project end-of-period spending per budget and overall
+     *
+     * Expenses so far are split into recurring and day-to-day spending. The
+     * day-to-day part is extrapolated at its current daily average and the
+     * recurring expenses still due before the period ends are added on their
+     * dates. The band widens with how much day-to-day spending varies.
+     *
+     * @param User $user The user to forecast for
+     * @param Carbon $startDate Start of the period
+     * @param Carbon $endDate End of the period
+     * @param string $budgetPeriod Budget period type to project (weekly, monthly, yearly)
+     * @return array Overall projection with a daily series, per-budget projections and warnings
+     */
+    public function getSpendingForecast(User $user, Carbon $startDate, Carbon $endDate, string $budgetPeriod): array
+    {
+        $startDate = $startDate->copy()->startOfDay();
+        $endDate = $endDate->copy()->startOfDay();
+        $asOf = Carbon::today()->min($endDate)->max($startDate);
+
+        $totalDays = (int) $startDate->diffInDays($endDate) + 1;
+        $daysPassed = (int) $startDate->diffInDays($asOf) + 1;
+        $daysRemaining = $totalDays - $daysPassed;
+
+        $expenses = Transaction::where('user_id', $user->id)
+            ->where('type', 'expense')
+            ->whereBetween('date', [$startDate->format('Y-m-d'), $asOf->format('Y-m-d')])
+            ->get(['id', 'category_id', 'amount', 'date', 'is_recurring']);
+        $upcoming = $this->getUpcomingRecurringExpenses($user, $asOf->copy()->addDay(), $endDate);
+
+        $overall = $this->projectSpending($expenses, $upcoming, $startDate, $daysPassed, $daysRemaining);
+
+        $budgets = $user->budgets()
+            ->where('period', $budgetPeriod)
+            ->where('is_active', true)
+            ->with('category')
+            ->orderBy('name')
+            ->get();
+
+        $symbol = $user->getCurrencySymbol();
+        $warningsActive = $daysPassed >= self::FORECAST_WARNING_DAY;
+
+        $items = $budgets->map(function ($budget) use ($expenses, $upcoming, $startDate, $daysPassed, $daysRemaining, $warningsActive, $symbol) {
+            $projection = $this->projectSpending(
+                $expenses->where('category_id', $budget->category_id),
+                $upcoming->where('category_id', $budget->category_id),
+                $startDate,
+                $daysPassed,
+                $daysRemaining
+            );
+            $amount = (float) $budget->amount;
+            $name = $budget->category ? $budget->category->name : $budget->name;
+
+            if ($projection['spent'] > $amount) {
+                $status = 'exceeded';
+            } elseif ($projection['projected'] > $amount) {
+                $status = 'at_risk';
+            } else {
+                $status = 'on_track';
+            }
+
+            $warning = null;
+            if ($status === 'exceeded') {
+                $warning = "{$name} is already " . $symbol . number_format($projection['spent'] - $amount, 2)
+                    . ' over its ' . $symbol . number_format($amount, 2) . ' budget.';
+            } elseif ($status === 'at_risk' && $warningsActive) {
+                $warning = "{$name} is on pace to reach " . $symbol . number_format($projection['projected'], 2)
+                    . ', ' . $symbol . number_format($projection['projected'] - $amount, 2)
+                    . ' over its ' . $symbol . number_format($amount, 2) . ' budget.';
+            }
+
+            return array_merge([
+                'budget_id' => $budget->id,
+                'name' => $budget->name,
+                'category_id' => $budget->category_id,
+                'category' => $name,
+                'category_color' => $budget->category?->color,
+                'amount' => $amount,
+            ], $projection, [
+                'projected_percentage' => $amount > 0 ? round(($projection['projected'] / $amount) * 100, 1) : 0,
+                'projected_overage' => round(max(0, $projection['projected'] - $amount), 2),
+                'status' => $status,
+                'warning' => $warning,
+            ]);
+        })->values();
+
+        return [
+            'period' => [
+                'type' => $budgetPeriod,
+                'start_date' => $startDate->toDateString(),
+                'end_date' => $endDate->toDateString(),
+                'as_of' => $asOf->toDateString(),
+                'total_days' => $totalDays,
+                'days_passed' => $daysPassed,
+                'days_remaining' => $daysRemaining,
+            ],
+            'confidence_level' => 90,
+            'warnings_active' => $warningsActive,
+            'overall' => array_merge($overall, [
+                'total_budget' => (float) $budgets->sum('amount'),
+            ]),
+            'daily' => $this->getForecastSeries($expenses, $upcoming, $overall, $startDate, $endDate, $asOf),
+            'budgets' => $items->all(),
+            'warnings' => $items->whereNotNull('warning')
+                ->map(function ($item) {
+                    return [
+                        'budget_id' => $item['budget_id'],
+                        'category' => $item['category'],
+                        'status' => $item['status'],
+                        'message' => $item['warning'],
+                        'projected_overage' => $item['projected_overage'],
+                    ];
+                })
+                ->values()
+                ->all(),
+            'upcoming_recurring' => $upcoming->sortBy('date')->values()->all(),
+        ];
+    }
+
+    /**
+     * Extrapolate spending to the end of a period
+     *
+     * @param \Illuminate\Support\Collection $expenses Expenses from the start of the period to today
+     * @param \Illuminate\Support\Collection $upcoming Recurring expenses due after today
+     * @return array Spending so far, the projection and its band
+     */
+    private function projectSpending(
+        \Illuminate\Support\Collection $expenses,
+        \Illuminate\Support\Collection $upcoming,
+        Carbon $startDate,
+        int $daysPassed,
+        int $daysRemaining
+    ): array {
+        $spent = (float) $expenses->sum('amount');
+        $variable = $expenses->where('is_recurring', false);
+
+        // Every day so far counts, including the ones without spending
+        $byDay = $variable->groupBy(function ($transaction) {
+            return Carbon::parse($transaction->date)->format('Y-m-d');
+        })->map(function ($day) {
+            return (float) $day->sum('amount');
+        });
+        $dailyTotals = [];
+        for ($day = 0; $day < $daysPassed; $day++) {
+            $dailyTotals[] = $byDay[$startDate->copy()->addDays($day)->format('Y-m-d')] ?? 0.0;
+        }
+
+        $dailyAverage = $daysPassed > 0 ? array_sum($dailyTotals) / $daysPassed : 0;
+        $dailyDeviation = $this->getStandardDeviation($dailyTotals);
+        $upcomingTotal = (float) $upcoming->sum('amount');
+
+        $projected = $spent + $dailyAverage * $daysRemaining + $upcomingTotal;
+        $margin = self::FORECAST_Z_SCORE * $dailyDeviation * sqrt($daysRemaining);
+
+        return [
+            'spent' => round($spent, 2),
+            'daily_average' => round($dailyAverage, 2),
+            'daily_deviation' => round($dailyDeviation, 2),
+            'upcoming_recurring' => round($upcomingTotal, 2),
+            'projected' => round($projected, 2),
+            // Money already spent or committed can't be un-spent
+            'projected_low' => round(max($spent + $upcomingTotal, $projected - $margin), 2),
+            'projected_high' => round($projected + $margin, 2),
+        ];
+    }
+
+    /**
+     * Cumulative spending per day: actual up to today, then the projection
+     * with its band. Today carries both so the lines meet.
+     */
+    private function getForecastSeries(
+        \Illuminate\Support\Collection $expenses,
+        \Illuminate\Support\Collection $upcoming,
+        array $overall,
+        Carbon $startDate,
+        Carbon $endDate,
+        Carbon $asOf
+    ): array {
+        $spentByDay = $expenses->groupBy(function ($transaction) {
+            return Carbon::parse($transaction->date)->format('Y-m-d');
+        })->map(function ($day) {
+            return (float) $day->sum('amount');
+        });
+        $upcomingByDay = $upcoming->groupBy('date')->map(function ($day) {
+            return (float) $day->sum('amount');
+        });
+
+        $series = [];
+        $actual = 0.0;
+        $committed = 0.0;
+
+        for ($date = $startDate->copy(); $date->lte($endDate); $date->addDay()) {
+            $key = $date->format('Y-m-d');
+
+            if ($date->lte($asOf)) {
+                $actual += $spentByDay[$key] ?? 0;
+            }
+
+            $point = [
+                'date' => $key,
+                'actual' => $date->lte($asOf) ? round($actual, 2) : null,
+                'projected' => null,
+                'low' => null,
+                'high' => null,
+            ];
+
+            if ($date->gte($asOf)) {
+                $days = (int) $asOf->diffInDays($date);
+                $committed += $upcomingByDay[$key] ?? 0;
+                $projected = $overall['spent'] + $overall['daily_average'] * $days + $committed;
+                $margin = self::FORECAST_Z_SCORE * $overall['daily_deviation'] * sqrt($days);
+
+                $point['projected'] = round($projected, 2);
+                $point['low'] = round(max($overall['spent'] + $committed, $projected - $margin), 2);
+                $point['high'] = round($projected + $margin, 2);
+            }
+
+            $series[] = $point;
+        }
+
+        return $series;
+    }
+
+    /**
+     * Occurrences of active recurring expenses between two dates. Overdue
+     * occurrences that haven't been posted yet count once, on the first day,
+     * so a scheduler that fell behind doesn't stack up missed charges.
+     *
+     * @return \Illuminate\Support\Collection Items with date, category_id, name and amount
+     */
+    private function getUpcomingRecurringExpenses(User $user, Carbon $from, Carbon $until): \Illuminate\Support\Collection
+    {
+        if ($from->gt($until)) {
+            return collect();
+        }
+
+        $recurring = RecurringTransaction::where('user_id', $user->id)
+            ->where('type', 'expense')
+            ->where('is_active', true)
+            ->whereDate('next_occurrence', '<=', $until->format('Y-m-d'))
+            ->get();
+
+        $occurrences = collect();
+
+        foreach ($recurring as $template) {
+            $date = $template->next_occurrence->copy();
+            $count = $template->occurrences_count;
+            $overdueCounted = false;
+
+            while ($date->lte($until)) {
+                if ($template->end_date && $date->gt($template->end_date)) {
+                    break;
+                }
+                if ($template->max_occurrences && $count >= $template->max_occurrences) {
+                    break;
+                }
+
+                $overdue = $date->lt($from);
+                if (!$overdue || !$overdueCounted) {
+                    $occurrences->push([
+                        'recurring_transaction_id' => $template->id,
+                        'name' => $template->name,
+                        'category_id' => $template->category_id,
+                        'date' => $date->copy()->max($from)->format('Y-m-d'),
+                        'amount' => (float) $template->amount,
+                    ]);
+                    $overdueCounted = $overdueCounted || $overdue;
+                }
+
+                $count++;
+                $date = match ($template->frequency) {
+                    'weekly' => $date->addWeeks($template->interval ?: 1),
+                    'quarterly' => $date->addMonths(($template->interval ?: 1) * 3),
+                    'yearly' => $date->addYears($template->interval ?: 1),
+                    default => $date->addMonths($template->interval ?: 1),
+                };
+            }
+        }
+
+        return $occurrences;
+    }
+
+    /**
+     * Population standard deviation
+     */
+    private function getStandardDeviation(array $values): float
+    {
+        $count = count($values);
+        if ($count < 2) {
+            return 0.0;
+        }
+
+        $mean = array_sum($values) / $count;
+        $variance = array_sum(array_map(function ($value) use ($mean) {
+            return ($value - $mean) ** 2;
+        }, $values)) / $count;
+
+        return sqrt($variance);
+    }
 }
@@ -207,7 +207,7 @@ public function getSpendingAnalysis(User $user, string $period = 'month', string
         $query = $user->transactions()
             ->where('type', $type)
             ->whereBetween('date', [$dateRange['start'], $dateRange['end']])
-            ->with('category');
+            ->with(['category' => fn ($query) => $query->withTrashed()]);
 
         $transactions = $query->get();
         $totalAmount = $transactions->sum('amount');
@@ -243,19 +243,24 @@ public function getSpendingAnalysis(User $user, string $period = 'month', string
     /**
      * Get category trends over time
      */
-    public function getCategoryTrends(User $user, string $period = 'month', int $months = 6, ?array $categoryIds = null): array
+    public function getCategoryTrends(User $user, string $period = 'month', int $months = 6, ?array $categoryIds = null, ?string $type = null): array
     {
+        // Whole calendar months, the last one being the current month to date
         $endDate = now();
-        $startDate = $endDate->copy()->subMonths($months);
+        $startDate = $endDate->copy()->subMonthsNoOverflow($months - 1)->startOfMonth();
 
         $query = $user->transactions()
             ->whereBetween('date', [$startDate, $endDate])
-            ->with('category');
+            ->with(['category' => fn ($query) => $query->withTrashed()]);
 
         if ($categoryIds) {
             $query->whereIn('category_id', $categoryIds);
         }
 
+        if ($type) {
+            $query->where('type', $type);
+        }
+
         $transactions = $query->get();
 
         // Group by category and period
@@ -318,20 +323,27 @@ public function mergeCategories(Category $sourceCategory, Category $targetCatego
             throw new \Exception('Categories must be of the same type');
         }
 
-        $movedTransactions = 0;
-        $movedBudgets = 0;
-
-        // Move all transactions from source to target category
-        $sourceCategory->transactions()->update(['category_id' => $targetCategory->id]);
-        $movedTransactions = $sourceCategory->transactions()->count();
+        // Move all transactions from source to target category (update() returns the affected rows)
+        $movedTransactions = $sourceCategory->transactions()->update(['category_id' => $targetCategory->id]);
 
         // Move all budgets from source to target category
-        $sourceCategory->budgets()->update(['category_id' => $targetCategory->id]);
-        $movedBudgets = $sourceCategory->budgets()->count();
+        $movedBudgets = $sourceCategory->budgets()->update(['category_id' => $targetCategory->id]);
+
+        // A target inside the source's tree moves up to the source's place first,
+        // so re-parenting the source's children under it can't form a cycle
+        if (in_array($targetCategory->id, $sourceCategory->getAllDescendantIds(), true)) {
+            $targetCategory->update(['parent_id' => $sourceCategory->parent_id]);
+        }
+
+        // Re-parent subcategories so they are not left under a removed or inactive parent
+        $movedChildren = $sourceCategory->children()
+            ->whereKeyNot($targetCategory->id)
+            ->update(['parent_id' => $targetCategory->id]);
 
         $result = [
             'moved_transactions' => $movedTransactions,
             'moved_budgets' => $movedBudgets,
+            'moved_children' => $movedChildren,
             'source_category' => $sourceCategory->name,
             'target_category' => $targetCategory->name,
             'source_deleted' => false,
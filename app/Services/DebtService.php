@@ -11,6 +11,13 @@
 
 class DebtService
 {
+    protected TransactionService $transactionService;
+
+    public function __construct(TransactionService $transactionService)
+    {
+        $this->transactionService = $transactionService;
+    }
+
     /**
      * Create a new debt
      */
@@ -49,22 +56,35 @@ public function deleteDebt(Debt $debt): bool
      */
     public function recordPayment(Debt $debt, array $data): DebtPayment
     {
-        // Calculate principal and interest portions
-        $paymentAmount = $data['amount'];
-        $interestRate = $debt->interest_rate / 100;
-        $monthlyInterestRate = $interestRate / 12;
-
-        // Calculate interest portion (simple interest for the period)
-        $interestPortion = $debt->current_balance * $monthlyInterestRate;
-        $interestPortion = min($interestPortion, $paymentAmount); // Interest can't exceed payment
+        $paymentAmount = (float) $data['amount'];
+        $split = $this->calculatePaymentSplit($debt, $paymentAmount, Carbon::parse($data['payment_date']));
 
-        // Calculate principal portion
+        // An interest amount from the lender's statement takes precedence over the estimate
+        $interestPortion = isset($data['interest'])
+            ? min((float) $data['interest'], $paymentAmount)
+            : $split['interest'];
         $principalPortion = $paymentAmount - $interestPortion;
 
+        // Record the matching expense from the paying account when requested
+        $transactionId = $data['transaction_id'] ?? null;
+        if (!$transactionId && !empty($data['account_id'])) {
+            $transaction = $this->transactionService->createTransaction([
+                'account_id' => $data['account_id'],
+                'category_id' => $data['category_id'],
+                'description' => "Payment for: {$debt->name}",
+                'amount' => $paymentAmount,
+                'type' => 'expense',
+                'date' => $data['payment_date'],
+                'notes' => $data['notes'] ?? null,
+                'tags' => ['debt_payment'],
+            ]);
+            $transactionId = $transaction->id;
+        }
+
         // Create payment record
         $payment = DebtPayment::create([
             'debt_id' => $debt->id,
-            'transaction_id' => $data['transaction_id'] ?? null,
+            'transaction_id' => $transactionId,
             'amount' => $paymentAmount,
             'principal' => $principalPortion,
             'interest' => $interestPortion,
@@ -82,6 +102,43 @@ public function recordPayment(Debt $debt, array $data): DebtPayment
         return $payment;
     }
 
+    /**
+     * Split a payment into interest and principal.
+     *
+     * Interest accrues daily at the debt's APR since the last recorded payment.
+     * Without a previous payment, one payment period is assumed.
+     */
+    public function calculatePaymentSplit(Debt $debt, float $amount, Carbon $paymentDate): array
+    {
+        $lastPayment = $debt->payments()
+            ->where('payment_date', '<=', $paymentDate->toDateString())
+            ->orderByDesc('payment_date')
+            ->orderByDesc('id')
+            ->first();
+
+        $periodStart = $lastPayment
+            ? $lastPayment->payment_date->copy()
+            : match ($debt->payment_frequency) {
+                'weekly' => $paymentDate->copy()->subWeek(),
+                'bi-weekly' => $paymentDate->copy()->subWeeks(2),
+                default => $paymentDate->copy()->subMonth(),
+            };
+
+        $days = (int) max(0, $periodStart->startOfDay()->diffInDays($paymentDate->copy()->startOfDay()));
+        $dailyRate = ((float) $debt->interest_rate / 100) / 365;
+        $interestDue = round((float) $debt->current_balance * $dailyRate * $days, 2);
+        $interest = min($interestDue, $amount); // Interest can't exceed payment
+
+        return [
+            'last_payment_date' => $lastPayment?->payment_date->format('Y-m-d'),
+            'days_since_last_payment' => $days,
+            'interest_due' => $interestDue,
+            'interest' => round($interest, 2),
+            'principal' => round($amount - $interest, 2),
+            'payoff_amount' => round((float) $debt->current_balance + $interestDue, 2),
+        ];
+    }
+
     /**
      * Calculate payoff schedule for a debt
      */
@@ -146,6 +203,194 @@ public function calculatePayoffSchedule(Debt $debt, float $extraPayment = 0, str
         ];
     }
 
+    /**
+     * Simulate paying off several debts together.
+     *
+     * Every debt receives its minimum payment each month. The extra payment,
+     * plus the minimums freed up by debts that are already paid off, goes to
+     * the first unpaid debt in the strategy's order. The "minimum" strategy
+     * pays only the minimums and does not roll anything over.
+     */
+    public function simulatePayoffPlan(Collection $debts, float $extraPayment = 0, string $strategy = 'avalanche', array $customOrder = []): array
+    {
+        $ordered = $this->orderDebtsForStrategy($debts, $strategy, $customOrder);
+        $rollover = $strategy !== 'minimum';
+
+        $state = $ordered->map(function (Debt $debt) {
+            return [
+                'debt_id' => $debt->id,
+                'name' => $debt->name,
+                'balance' => (float) $debt->current_balance,
+                'monthly_rate' => ((float) $debt->interest_rate / 100) / 12,
+                'minimum_payment' => $this->getMonthlyPayment($debt),
+                'interest_paid' => 0.0,
+                'payoff_month' => null,
+            ];
+        })->values()->all();
+
+        $monthlyBudget = array_sum(array_column($state, 'minimum_payment')) + ($rollover ? $extraPayment : 0);
+
+        $schedule = [];
+        $month = 0;
+        $totalInterest = 0;
+        $totalPaid = 0;
+        $currentDate = Carbon::now();
+
+        while ($this->hasOutstandingBalance($state) && $month < 360) { // Max 30 years
+            $month++;
+            $payments = array_fill(0, count($state), 0.0);
+            $interestCharges = array_fill(0, count($state), 0.0);
+
+            // Accrue interest, then pay each debt's minimum
+            foreach ($state as $index => $debt) {
+                if ($debt['balance'] <= 0) {
+                    continue;
+                }
+
+                $interestCharges[$index] = $debt['balance'] * $debt['monthly_rate'];
+                $state[$index]['balance'] += $interestCharges[$index];
+                $state[$index]['interest_paid'] += $interestCharges[$index];
+
+                $payments[$index] = min($debt['minimum_payment'], $state[$index]['balance']);
+                $state[$index]['balance'] -= $payments[$index];
+            }
+
+            // Whatever is left of the budget goes to the debts in strategy order
+            if ($rollover) {
+                $available = $monthlyBudget - array_sum($payments);
+
+                foreach ($state as $index => $debt) {
+                    if ($available <= 0) {
+                        break;
+                    }
+
+                    if ($debt['balance'] <= 0) {
+                        continue;
+                    }
+
+                    $payment = min($available, $debt['balance']);
+                    $payments[$index] += $payment;
+                    $state[$index]['balance'] -= $payment;
+                    $available -= $payment;
+                }
+            }
+
+            $debtRows = [];
+            foreach ($state as $index => $debt) {
+                if ($debt['balance'] <= 0.01) {
+                    $state[$index]['balance'] = 0;
+
+                    if ($debt['payoff_month'] === null) {
+                        $state[$index]['payoff_month'] = $month;
+                    }
+                }
+
+                $debtRows[] = [
+                    'debt_id' => $debt['debt_id'],
+                    'payment' => round($payments[$index], 2),
+                    'interest' => round($interestCharges[$index], 2),
+                    'ending_balance' => round($state[$index]['balance'], 2),
+                ];
+            }
+
+            $monthInterest = array_sum($interestCharges);
+            $monthPayment = array_sum($payments);
+            $totalInterest += $monthInterest;
+            $totalPaid += $monthPayment;
+
+            $schedule[] = [
+                'month' => $month,
+                'date' => $currentDate->copy()->addMonths($month)->format('Y-m-d'),
+                'payment' => round($monthPayment, 2),
+                'principal' => round($monthPayment - $monthInterest, 2),
+                'interest' => round($monthInterest, 2),
+                'ending_balance' => round(array_sum(array_column($state, 'balance')), 2),
+                'cumulative_interest' => round($totalInterest, 2),
+                'debts' => $debtRows,
+            ];
+        }
+
+        $isPaidOff = !$this->hasOutstandingBalance($state);
+
+        return [
+            'strategy' => $strategy,
+            'schedule' => $schedule,
+            'summary' => [
+                'monthly_budget' => round($monthlyBudget, 2),
+                'months_to_payoff' => $month,
+                'years_to_payoff' => round($month / 12, 1),
+                'debt_free_date' => $isPaidOff ? $currentDate->copy()->addMonths($month)->format('Y-m-d') : null,
+                'is_paid_off' => $isPaidOff,
+                'total_amount_paid' => round($totalPaid, 2),
+                'total_interest_paid' => round($totalInterest, 2),
+                'payoff_order' => array_map(function (array $debt) use ($currentDate) {
+                    return [
+                        'debt_id' => $debt['debt_id'],
+                        'name' => $debt['name'],
+                        'payoff_month' => $debt['payoff_month'],
+                        'payoff_date' => $debt['payoff_month'] !== null
+                            ? $currentDate->copy()->addMonths($debt['payoff_month'])->format('Y-m-d')
+                            : null,
+                        'interest_paid' => round($debt['interest_paid'], 2),
+                    ];
+                }, $state),
+            ],
+        ];
+    }
+
+    /**
+     * Order debts by the payoff strategy's priority
+     */
+    private function orderDebtsForStrategy(Collection $debts, string $strategy, array $customOrder = []): Collection
+    {
+        return match ($strategy) {
+            // Highest interest rate first, smallest balance breaks ties
+            'avalanche' => $debts->sortBy([
+                fn (Debt $a, Debt $b) => (float) $b->interest_rate <=> (float) $a->interest_rate,
+                fn (Debt $a, Debt $b) => (float) $a->current_balance <=> (float) $b->current_balance,
+            ])->values(),
+            // Smallest balance first, highest interest rate breaks ties
+            'snowball' => $debts->sortBy([
+                fn (Debt $a, Debt $b) => (float) $a->current_balance <=> (float) $b->current_balance,
+                fn (Debt $a, Debt $b) => (float) $b->interest_rate <=> (float) $a->interest_rate,
+            ])->values(),
+            // Debts missing from the custom order keep their place after the listed ones
+            'custom' => $debts->sortBy(function (Debt $debt) use ($customOrder) {
+                $position = array_search($debt->id, array_map('intval', $customOrder), true);
+                return $position === false ? PHP_INT_MAX : $position;
+            })->values(),
+            default => $debts->values(),
+        };
+    }
+
+    /**
+     * Convert a debt's minimum payment to its monthly equivalent
+     */
+    private function getMonthlyPayment(Debt $debt): float
+    {
+        $payment = (float) $debt->minimum_payment;
+
+        return match ($debt->payment_frequency) {
+            'weekly' => $payment * 52 / 12,
+            'bi-weekly' => $payment * 26 / 12,
+            default => $payment,
+        };
+    }
+
+    /**
+     * Check whether any simulated debt still has a balance
+     */
+    private function hasOutstandingBalance(array $state): bool
+    {
+        foreach ($state as $debt) {
+            if ($debt['balance'] > 0) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
     /**
      * Calculate interest saved with extra payment
      */
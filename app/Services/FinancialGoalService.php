@@ -3,13 +3,19 @@
 namespace App\Services;
 
 use App\Models\FinancialGoal;
-use App\Models\Notification;
 use Carbon\Carbon;
 use Illuminate\Support\Collection;
 use Illuminate\Support\Facades\DB;
 
 class FinancialGoalService
 {
+    protected NotificationService $notificationService;
+
+    public function __construct(NotificationService $notificationService)
+    {
+        $this->notificationService = $notificationService;
+    }
+
     /**
      * Calculate average monthly contribution for a goal
      */
@@ -261,20 +267,19 @@ public function checkMilestoneAchievements(FinancialGoal $goal): void
      */
     private function createMilestoneNotification(FinancialGoal $goal, int $milestone): void
     {
-        Notification::create([
-            'user_id' => $goal->user_id,
-            'type' => 'goal_milestone',
-            'title' => "Goal Milestone Reached! 🎯",
-            'message' => "You've reached {$milestone}% of your goal '{$goal->name}'! Keep up the great work!",
-            'data' => [
+        $this->notificationService->send(
+            $goal->user,
+            'goal_milestone',
+            "Goal Milestone Reached! 🎯",
+            "You've reached {$milestone}% of your goal '{$goal->name}'! Keep up the great work!",
+            [
                 'goal_id' => $goal->id,
                 'goal_name' => $goal->name,
                 'milestone' => $milestone,
                 'current_amount' => $goal->current_amount,
                 'target_amount' => $goal->target_amount,
-            ],
-            'is_read' => false,
-        ]);
+            ]
+        );
     }
 
     /**
@@ -282,19 +287,18 @@ private function createMilestoneNotification(FinancialGoal $goal, int $milestone
      */
     public function createGoalCompletionNotification(FinancialGoal $goal): void
     {
-        Notification::create([
-            'user_id' => $goal->user_id,
-            'type' => 'goal_completed',
-            'title' => "Goal Completed! 🎉",
-            'message' => "Congratulations! You've successfully completed your goal '{$goal->name}'!",
-            'data' => [
+        $this->notificationService->send(
+            $goal->user,
+            'goal_completed',
+            "Goal Completed! 🎉",
+            "Congratulations! You've successfully completed your goal '{$goal->name}'!",
+            [
                 'goal_id' => $goal->id,
                 'goal_name' => $goal->name,
                 'target_amount' => $goal->target_amount,
                 'completed_date' => now()->format('Y-m-d'),
-            ],
-            'is_read' => false,
-        ]);
+            ]
+        );
     }
 
     /**
@@ -0,0 +1,285 @@
+<?php
+
+namespace App\Services;
+
+use App\Jobs\SendNotificationMessage;
+use App\Models\Account;
+use App\Models\Bill;
+use App\Models\Budget;
+use App\Models\Notification;
+use App\Models\User;
+use Carbon\Carbon;
+use Illuminate\Support\Collection;
+
+class NotificationService
+{
+    public const TYPES = ['budget_alert', 'bill_reminder', 'goal_milestone', 'low_balance', 'transaction', 'system'];
+
+    public const CHANNELS = ['app', 'email', 'sms'];
+
+    /**
+     * Settings keys the older per-type switches were saved under
+     */
+    private const LEGACY_TYPE_SETTINGS = [
+        'budget_alert' => 'notify_budget_alerts',
+        'bill_reminder' => 'notify_bill_reminders',
+        'goal_milestone' => 'notify_goal_milestones',
+        'low_balance' => 'notify_low_balance',
+        'transaction' => 'notify_transactions',
+        'system' => 'notify_system',
+    ];
+
+    /**
+     * Account types whose balance is money owed, so a low balance is good news
+     */
+    private const DEBT_ACCOUNT_TYPES = ['credit_card', 'loan'];
+
+    /**
+     * Get the type x channel matrix and the notification preferences
+     */
+    public function getSettings(User $user): array
+    {
+        // One query for every setting instead of one per key
+        $stored = $user->settings()->pluck('value', 'key');
+
+        $matrix = [];
+        foreach (self::TYPES as $type) {
+            foreach (self::CHANNELS as $channel) {
+                $matrix[$type][$channel] = $this->toBoolean(
+                    $stored->get("notify_{$type}_{$channel}", $this->getDefaultCell($stored, $type, $channel))
+                );
+            }
+        }
+
+        $preferences = [
+            'low_balance_threshold' => (float) $stored->get('low_balance_threshold', 1000),
+            'reminder_days_before' => (int) $stored->get('reminder_days_before', 3),
+            'budget_alert_percentage' => (int) $stored->get('budget_alert_percentage', 80),
+            'quiet_hours_enabled' => $this->toBoolean($stored->get('quiet_hours_enabled', false)),
+            'quiet_hours_start' => (string) $stored->get('quiet_hours_start', '22:00'),
+            'quiet_hours_end' => (string) $stored->get('quiet_hours_end', '08:00'),
+        ];
+
+        return [
+            'matrix' => $matrix,
+            // The older shape: a switch per channel and per type, on when any cell of it is
+            'channels' => collect(self::CHANNELS)
+                ->mapWithKeys(fn ($channel) => [$channel => collect($matrix)->contains(fn ($cells) => $cells[$channel])])
+                ->all(),
+            'types' => collect($matrix)->map(fn ($cells) => in_array(true, $cells, true))->all(),
+            'preferences' => $preferences,
+        ];
+    }
+
+    /**
+     * Update matrix cells and preferences; keys that are not sent, and null
+     * cells, are left as they are. The older `channels` and `types` switches
+     * set every cell of their column or row.
+     */
+    public function updateSettings(User $user, array $data): array
+    {
+        foreach ($data['channels'] ?? [] as $channel => $enabled) {
+            if ($enabled === null) {
+                continue;
+            }
+
+            foreach (self::TYPES as $type) {
+                $data['matrix'][$type][$channel] ??= $enabled;
+            }
+        }
+
+        foreach ($data['types'] ?? [] as $type => $enabled) {
+            if ($enabled === null) {
+                continue;
+            }
+
+            foreach (self::CHANNELS as $channel) {
+                $data['matrix'][$type][$channel] ??= $enabled;
+            }
+        }
+
+        foreach ($data['matrix'] ?? [] as $type => $channels) {
+            foreach ($channels ?? [] as $channel => $enabled) {
+                if ($enabled === null) {
+                    continue;
+                }
+
+                $user->setSetting("notify_{$type}_{$channel}", $enabled ? 1 : 0);
+            }
+        }
+
+        foreach ($data['preferences'] ?? [] as $key => $value) {
+            if (is_bool($value)) {
+                $value = $value ? 1 : 0;
+            }
+
+            $user->setSetting($key, $value);
+        }
+
+        return $this->getSettings($user);
+    }
+
+    /**
+     * Send a notification on each channel the user has switched on for its
+     * type. The app copy is stored for the in-app feed; email and SMS are
+     * queued, and held back until quiet hours end. Types outside the matrix
+     * only go to the app.
+     *
+     * @return Notification|null The in-app notification, null when the app channel is off
+     */
+    public function send(User $user, string $type, string $title, string $message, array $data = [], string $priority = 'normal'): ?Notification
+    {
+        $settings = $this->getSettings($user);
+
+        $channels = in_array($type, self::TYPES, true)
+            ? array_keys(array_filter($settings['matrix'][$type]))
+            : ['app'];
+
+        $quietUntil = $this->getQuietHoursEnd($user, $settings['preferences']);
+
+        foreach (array_diff($channels, ['app']) as $channel) {
+            SendNotificationMessage::dispatch($user, $channel, $title, $message)->delay($quietUntil);
+        }
+
+        if (!in_array('app', $channels, true)) {
+            return null;
+        }
+
+        return $user->notifications()->create([
+            'type' => $type,
+            'title' => $title,
+            'message' => $message,
+            'data' => $data,
+            'priority' => $priority,
+            'channel' => 'app',
+            'is_read' => false,
+        ]);
+    }
+
+    /**
+     * Low balance alert when a change takes an account below the user's
+     * threshold. Staying below it doesn't alert again.
+     */
+    public function checkLowBalance(Account $account, float $previousBalance): void
+    {
+        if (in_array($account->type, self::DEBT_ACCOUNT_TYPES, true)) {
+            return;
+        }
+
+        $user = $account->user;
+        $threshold = $this->getSettings($user)['preferences']['low_balance_threshold'];
+        $balance = (float) $account->balance;
+
+        if ($previousBalance >= $threshold && $balance < $threshold) {
+            $this->send(
+                $user,
+                'low_balance',
+                'Low Balance',
+                "{$account->name} is down to " . number_format($balance, 2) . ', below your alert level of ' . number_format($threshold, 2) . '.',
+                ['account_id' => $account->id, 'balance' => $balance, 'threshold' => $threshold],
+                'high'
+            );
+        }
+    }
+
+    /**
+     * Budget alert when spending crosses the user's alert percentage, and
+     * again when it goes over the budget
+     */
+    public function checkBudgetAlert(Budget $budget, float $previousSpent): void
+    {
+        $amount = (float) $budget->amount;
+        if (!$budget->alert_enabled || $amount <= 0) {
+            return;
+        }
+
+        $user = $budget->user;
+        $alertPercentage = $this->getSettings($user)['preferences']['budget_alert_percentage'];
+        $before = $previousSpent / $amount * 100;
+        $after = (float) $budget->spent / $amount * 100;
+        $data = ['budget_id' => $budget->id, 'spent' => (float) $budget->spent, 'amount' => $amount, 'percentage' => round($after, 1)];
+
+        if ($before <= 100 && $after > 100) {
+            $this->send($user, 'budget_alert', 'Budget Exceeded', "You have gone over your {$budget->name} budget.", $data, 'high');
+        } elseif ($before < $alertPercentage && $after >= $alertPercentage) {
+            $this->send($user, 'budget_alert', 'Budget Alert', "You have used " . round($after) . "% of your {$budget->name} budget.", $data);
+        }
+    }
+
+    /**
+     * Bill reminder, sent the bill's reminder_days (or the user's reminder_days_before) ahead of the due date
+     */
+    public function sendBillReminder(Bill $bill, int $daysUntilDue): void
+    {
+        $this->send(
+            $bill->user,
+            'bill_reminder',
+            'Bill Due Soon',
+            "{$bill->name} (" . number_format((float) $bill->amount, 2) . ") is due in {$daysUntilDue} " . ($daysUntilDue === 1 ? 'day' : 'days') . '.',
+            ['bill_id' => $bill->id, 'due_date' => $bill->due_date->format('Y-m-d'), 'amount' => (float) $bill->amount]
+        );
+    }
+
+    /**
+     * Bill reminder for a bill that has just become overdue
+     */
+    public function sendBillOverdue(Bill $bill): void
+    {
+        $this->send(
+            $bill->user,
+            'bill_reminder',
+            'Bill Overdue',
+            "{$bill->name} was due on {$bill->due_date->format('M j, Y')} and hasn't been paid.",
+            ['bill_id' => $bill->id, 'due_date' => $bill->due_date->format('Y-m-d'), 'amount' => (float) $bill->amount],
+            'high'
+        );
+    }
+
+    /**
+     * When the user's quiet hours end, in their timezone, or null outside
+     * quiet hours; the window may span midnight
+     */
+    protected function getQuietHoursEnd(User $user, array $preferences): ?Carbon
+    {
+        if (!$preferences['quiet_hours_enabled']) {
+            return null;
+        }
+
+        $timezone = $user->timezone ?: config('app.timezone');
+        $now = Carbon::now($timezone);
+        $start = Carbon::createFromFormat('H:i', $preferences['quiet_hours_start'], $timezone)->format('H:i');
+        $end = Carbon::createFromFormat('H:i', $preferences['quiet_hours_end'], $timezone)->format('H:i');
+        $time = $now->format('H:i');
+
+        $quiet = $start <= $end
+            ? $time >= $start && $time < $end
+            : $time >= $start || $time < $end;
+
+        if (!$quiet) {
+            return null;
+        }
+
+        $until = $now->copy()->setTimeFromTimeString($end);
+
+        return $until->lte($now) ? $until->addDay() : $until;
+    }
+
+    /**
+     * Default for a cell: the older per-type and per-channel switches, if they were saved
+     */
+    protected function getDefaultCell(Collection $stored, string $type, string $channel): bool
+    {
+        $typeEnabled = $this->toBoolean($stored->get(self::LEGACY_TYPE_SETTINGS[$type], $type !== 'transaction'));
+        $channelEnabled = $this->toBoolean($stored->get("notifications_{$channel}", $channel !== 'sms'));
+
+        return $typeEnabled && $channelEnabled;
+    }
+
+    /**
+     * Settings are stored as strings, so "0" and "" must read as false
+     */
+    protected function toBoolean($value): bool
+    {
+        return filter_var($value, FILTER_VALIDATE_BOOLEAN);
+    }
+}
@@ -9,6 +9,7 @@
 use App\Models\Category;
 // use Illuminate\Database\Eloquent\Collection;
 use Illuminate\Http\UploadedFile;
+use Illuminate\Support\Arr;
 use Illuminate\Support\Facades\DB;
 use Illuminate\Support\Facades\Storage;
 use Illuminate\Support\Str;
@@ -18,6 +19,59 @@
 
 class TransactionService
 {
+    /**
+     * Column delimiters a CSV import can be read with
+     */
+    private const CSV_DELIMITERS = [
+        'comma' => ',',
+        'semicolon' => ';',
+        'tab' => "\t",
+        'pipe' => '|',
+    ];
+
+    /**
+     * Values of a type column that mark a row as income or expense, lowercased
+     */
+    private const CSV_INCOME_TYPES = ['income', 'credit', 'cr', 'c', 'deposit', 'in'];
+
+    private const CSV_EXPENSE_TYPES = ['expense', 'debit', 'dr', 'd', 'withdrawal', 'payment', 'out'];
+
+    /**
+     * Raw rows returned with the first preview, for choosing the mappings
+     */
+    private const CSV_PREVIEW_ROWS = 10;
+
+    /**
+     * UserSetting key holding saved CSV mapping presets as JSON
+     */
+    private const IMPORT_PRESETS_SETTING = 'csv_import_presets';
+
+    /**
+     * UserSetting key holding duplicate groups marked as not duplicates
+     */
+    private const IGNORED_DUPLICATES_SETTING = 'ignored_duplicate_groups';
+
+    /**
+     * Import options kept with a mapping preset
+     */
+    private const IMPORT_PRESET_OPTIONS = [
+        'date_format',
+        'delimiter',
+        'has_header',
+        'amount_sign',
+        'decimal_separator',
+        'default_account_id',
+        'default_category_id',
+        'default_type',
+    ];
+
+    protected NotificationService $notificationService;
+
+    public function __construct(NotificationService $notificationService)
+    {
+        $this->notificationService = $notificationService;
+    }
+
     /**
      * Create a new transaction
      */
@@ -137,6 +191,39 @@ public function bulkCreateTransactions(array $transactionsData): Collection
         return $transactions;
     }
 
+    /**
+     * Drop rows whose reference number is already used in the same account,
+     * or earlier in the batch, so importing a statement twice creates nothing
+     */
+    public function withoutExistingReferences(User $user, array $transactionsData): array
+    {
+        $references = array_filter(array_column($transactionsData, 'reference_number'));
+
+        if (empty($references)) {
+            return $transactionsData;
+        }
+
+        $existing = $user->transactions()
+            ->whereIn('reference_number', array_unique($references))
+            ->get(['account_id', 'reference_number'])
+            ->mapWithKeys(fn ($transaction) => [$transaction->account_id . '|' . $transaction->reference_number => true])
+            ->all();
+
+        return array_values(array_filter($transactionsData, function ($data) use (&$existing) {
+            if (empty($data['reference_number'])) {
+                return true;
+            }
+
+            $key = $data['account_id'] . '|' . $data['reference_number'];
+            if (isset($existing[$key])) {
+                return false;
+            }
+
+            $existing[$key] = true;
+            return true;
+        }));
+    }
+
     /**
      * Bulk delete transactions
      */
@@ -192,37 +279,45 @@ public function searchTransactions(User $user, string $query, array $filters = [
      */
     public function importTransactionsFromCsv(User $user, UploadedFile $file, array $mappings, array $options = []): array
     {
-        $content = file_get_contents($file->getRealPath());
-        $lines = array_map('str_getcsv', explode("\n", $content));
-        $headers = array_shift($lines);
+        [$headers, $records] = $this->readCsv($file, $options);
+        $rows = $this->mapCsvRecords($user, $headers, $records, $mappings, $options);
+
+        // Rows left out during review, e.g. duplicates the user chose not to import
+        $skipLines = array_map('intval', $options['skip_lines'] ?? []);
 
         $imported = 0;
         $skipped = 0;
         $errors = [];
 
-        foreach ($lines as $index => $line) {
-            if (empty(array_filter($line))) {
-                continue; // Skip empty lines
+        foreach ($rows as $row) {
+            if (in_array($row['line'], $skipLines, true)) {
+                $skipped++;
+                continue;
             }
 
-            try {
-                $transactionData = $this->mapCsvRowToTransaction($line, $headers, $mappings, $options, $user);
+            if ($row['error'] !== null) {
+                $errors[] = [
+                    'line' => $row['line'],
+                    'error' => $row['error'],
+                    'data' => $row['values'],
+                ];
+                continue;
+            }
 
-                // Check for duplicates if option is enabled
-                if ($options['skip_duplicates'] ?? false) {
-                    if ($this->isDuplicateTransaction($user, $transactionData)) {
-                        $skipped++;
-                        continue;
-                    }
-                }
+            // Check for duplicates if option is enabled
+            if (($options['skip_duplicates'] ?? false) && $row['duplicate_of'] !== null) {
+                $skipped++;
+                continue;
+            }
 
-                $this->createTransaction($transactionData);
+            try {
+                $this->createTransaction($row['transaction']);
                 $imported++;
             } catch (\Exception $e) {
                 $errors[] = [
-                    'line' => $index + 2, // +2 because we removed headers and arrays are 0-indexed
+                    'line' => $row['line'],
                     'error' => $e->getMessage(),
-                    'data' => $line,
+                    'data' => $row['values'],
                 ];
             }
         }
@@ -231,8 +326,235 @@ public function importTransactionsFromCsv(User $user, UploadedFile $file, array
             'imported' => $imported,
             'skipped' => $skipped,
             'errors' => $errors,
-            'total_processed' => count($lines),
+            'total_processed' => count($records),
+        ];
+    }
+
+    /**
+     * Read a CSV without importing it. Without mappings only the headers and
+     * the first rows come back; with mappings every row is mapped and checked
+     * against existing transactions so duplicates can be reviewed.
+     */
+    public function previewCsvImport(User $user, UploadedFile $file, array $mappings = [], array $options = []): array
+    {
+        [$headers, $records] = $this->readCsv($file, $options);
+
+        $preview = [
+            'headers' => $headers,
+            'sample' => array_column(array_slice($records, 0, self::CSV_PREVIEW_ROWS), 'values'),
+            'total_rows' => count($records),
+        ];
+
+        if (empty(array_filter($mappings))) {
+            return $preview;
+        }
+
+        $rows = $this->mapCsvRecords($user, $headers, $records, $mappings, $options);
+
+        $preview['rows'] = array_map(function ($row) {
+            return array_merge(
+                ['line' => $row['line']],
+                $row['transaction'] ?? [],
+                [
+                    'account' => $row['account'],
+                    'category' => $row['category'],
+                    'error' => $row['error'],
+                    'duplicate_of' => $row['duplicate_of'],
+                ]
+            );
+        }, $rows);
+        $preview['summary'] = [
+            'valid' => count(array_filter($rows, fn ($row) => $row['error'] === null)),
+            'errors' => count(array_filter($rows, fn ($row) => $row['error'] !== null)),
+            'duplicates' => count(array_filter($rows, fn ($row) => $row['duplicate_of'] !== null)),
         ];
+
+        return $preview;
+    }
+
+    /**
+     * Get the user's saved CSV mapping presets
+     */
+    public function getImportPresets(User $user): array
+    {
+        $presets = json_decode($user->getSetting(self::IMPORT_PRESETS_SETTING, '[]'), true);
+
+        return is_array($presets) ? array_values($presets) : [];
+    }
+
+    /**
+     * Save column mappings and options under a name, typically one per bank
+     */
+    public function createImportPreset(User $user, string $name, array $mappings, array $options = []): array
+    {
+        $presets = $this->getImportPresets($user);
+        $now = Carbon::now()->toIso8601String();
+
+        $preset = [
+            'id' => (string) Str::uuid(),
+            'name' => $name,
+            'column_mappings' => array_filter($mappings),
+            'import_options' => Arr::only($options, self::IMPORT_PRESET_OPTIONS),
+            'created_at' => $now,
+            'updated_at' => $now,
+        ];
+
+        $presets[] = $preset;
+        $user->setSetting(self::IMPORT_PRESETS_SETTING, $presets);
+
+        return $preset;
+    }
+
+    /**
+     * Replace the name, mappings and options of a preset
+     */
+    public function updateImportPreset(User $user, string $id, string $name, array $mappings, array $options = []): ?array
+    {
+        $presets = $this->getImportPresets($user);
+        $index = array_search($id, array_column($presets, 'id'), true);
+
+        if ($index === false) {
+            return null;
+        }
+
+        $presets[$index] = array_merge($presets[$index], [
+            'name' => $name,
+            'column_mappings' => array_filter($mappings),
+            'import_options' => Arr::only($options, self::IMPORT_PRESET_OPTIONS),
+            'updated_at' => Carbon::now()->toIso8601String(),
+        ]);
+        $user->setSetting(self::IMPORT_PRESETS_SETTING, $presets);
+
+        return $presets[$index];
+    }
+
+    /**
+     * Delete a preset
+     */
+    public function deleteImportPreset(User $user, string $id): bool
+    {
+        $presets = $this->getImportPresets($user);
+        $remaining = array_values(array_filter($presets, function ($preset) use ($id) {
+            return $preset['id'] !== $id;
+        }));
+
+        if (count($remaining) === count($presets)) {
+            return false;
+        }
+
+        $user->setSetting(self::IMPORT_PRESETS_SETTING, $remaining);
+
+        return true;
+    }
+
+    /**
+     * Group transactions that look like double entries: same account and
+     * type, amounts within the tolerance, dates within the window and
+     * similar descriptions. Groups the user marked as not duplicates are
+     * left out.
+     */
+    public function findDuplicateGroups(User $user, array $options = []): array
+    {
+        $days = (int) ($options['days'] ?? 3);
+        $tolerance = (float) ($options['amount_tolerance'] ?? 1) / 100;
+        $similarity = (float) ($options['similarity'] ?? 70);
+        $startDate = $options['start_date'] ?? Carbon::today()->subMonths(6)->format('Y-m-d');
+        $endDate = $options['end_date'] ?? Carbon::today()->format('Y-m-d');
+
+        $transactions = $user->transactions()
+            ->with(['account', 'category'])
+            ->whereBetween('date', [$startDate, $endDate])
+            ->when($options['account_id'] ?? null, fn ($query, $accountId) => $query->where('account_id', $accountId))
+            ->orderBy('date')
+            ->orderBy('id')
+            ->get()
+            ->values();
+
+        $descriptions = $transactions->map(fn ($transaction) => $this->normalizeDescription($transaction->description))->all();
+
+        // Union-find over pairwise matches, so A~B and B~C end up in one group
+        $parent = range(0, max($transactions->count() - 1, 0));
+        $find = function (int $i) use (&$parent, &$find): int {
+            return $parent[$i] === $i ? $i : ($parent[$i] = $find($parent[$i]));
+        };
+
+        foreach ($transactions as $i => $transaction) {
+            // Sorted by date, so only the rows inside the window need comparing
+            for ($j = $i + 1; $j < $transactions->count(); $j++) {
+                $other = $transactions[$j];
+
+                if (abs($transaction->date->diffInDays($other->date)) > $days) {
+                    break;
+                }
+
+                if ($transaction->account_id !== $other->account_id || $transaction->type !== $other->type) {
+                    continue;
+                }
+
+                $amount = (float) $transaction->amount;
+                $otherAmount = (float) $other->amount;
+                if (abs($amount - $otherAmount) > max($amount, $otherAmount) * $tolerance + 0.005) {
+                    continue;
+                }
+
+                if (!$this->descriptionsMatch($descriptions[$i], $descriptions[$j], $similarity)) {
+                    continue;
+                }
+
+                $parent[$find($j)] = $find($i);
+            }
+        }
+
+        $ignored = $this->getIgnoredDuplicateGroups($user);
+
+        return $transactions
+            ->groupBy(fn ($transaction, $i) => $find($i))
+            ->filter(fn ($group) => $group->count() > 1)
+            ->map(function ($group) {
+                $group = $group->sortBy('created_at')->values();
+
+                return [
+                    'key' => $this->duplicateGroupKey($group->pluck('id')->all()),
+                    'transactions' => $group,
+                    // The first one entered is usually the one to keep
+                    'suggested_keep_id' => $group->first()->id,
+                ];
+            })
+            ->reject(fn ($group) => in_array($group['key'], $ignored, true))
+            ->sortByDesc(fn ($group) => $group['transactions']->max('date'))
+            ->values()
+            ->all();
+    }
+
+    /**
+     * Remember that a group of transactions is not a duplicate. Adding another
+     * match later changes the group, so it is shown again.
+     */
+    public function ignoreDuplicateGroup(User $user, array $transactionIds): string
+    {
+        $key = $this->duplicateGroupKey($transactionIds);
+        $ignored = $this->getIgnoredDuplicateGroups($user);
+
+        if (!in_array($key, $ignored, true)) {
+            $ignored[] = $key;
+            $user->setSetting(self::IGNORED_DUPLICATES_SETTING, $ignored);
+        }
+
+        return $key;
+    }
+
+    /**
+     * Keep one transaction of a duplicate group with the merged notes and
+     * tags, and delete the rest. Run inside a DB transaction so a failed
+     * delete leaves the keeper untouched.
+     */
+    public function mergeDuplicates(Transaction $keeper, Collection $duplicates, array $data): Transaction
+    {
+        $keeper->update(Arr::only($data, ['notes', 'tags']));
+
+        $this->bulkDeleteTransactions($duplicates);
+
+        return $keeper->fresh(['account', 'category', 'transferAccount']);
     }
 
     /**
@@ -385,6 +707,7 @@ private function updateAccountBalances(Transaction $transaction): void
     {
         $account = Account::find($transaction->account_id);
         $transferAccount = $transaction->transfer_account_id ? Account::find($transaction->transfer_account_id) : null;
+        $previousBalance = (float) $account->balance;
 
         switch ($transaction->type) {
             case 'income':
@@ -424,6 +747,8 @@ private function updateAccountBalances(Transaction $transaction): void
         if ($transferAccount) {
             $this->recordAccountBalanceHistory($transferAccount, $transaction);
         }
+
+        $this->notificationService->checkLowBalance($account, $previousBalance);
     }
 
     /**
@@ -486,6 +811,8 @@ private function updateBudgetSpending(Transaction $transaction, ?float $oldAmoun
             ->get();
 
         foreach ($budgets as $budget) {
+            $previousSpent = (float) $budget->spent;
+
             if ($isDelete && $oldType === 'expense') {
                 // Subtract old amount when deleting
                 $budget->decrement('spent', $oldAmount);
@@ -499,6 +826,8 @@ private function updateBudgetSpending(Transaction $transaction, ?float $oldAmoun
                 // Add new expense
                 $budget->increment('spent', $transaction->amount);
             }
+
+            $this->notificationService->checkBudgetAlert($budget, $previousSpent);
         }
     }
 
@@ -738,6 +1067,14 @@ public function processDueRecurringTransactions(): array
                     $recurring->update(['is_active' => false]);
                 }
 
+                $this->notificationService->send(
+                    $recurring->user,
+                    'transaction',
+                    'Recurring Transaction Posted',
+                    "{$recurring->name}: " . ucfirst($transaction->type) . ' of ' . number_format((float) $transaction->amount, 2) . " on {$transaction->date->format('M j, Y')}.",
+                    ['transaction_id' => $transaction->id, 'recurring_transaction_id' => $recurring->id]
+                );
+
                 DB::commit();
                 $processedCount++;
 
@@ -809,66 +1146,410 @@ private function shouldDeactivateRecurring(RecurringTransaction $recurring): boo
 
     /**
      * Record account balance history
+     *
+     * Each entry is the balance at the end of its day, so a backdated
+     * transaction is added to the balance as of its date and to every
+     * later entry, rather than stamping today's balance on a past day.
      */
     private function recordAccountBalanceHistory(Account $account, Transaction $transaction): void
     {
-        $account->balanceHistory()->updateOrCreate(
-            [
-                'date' => $transaction->date->format('Y-m-d'),
-            ],
-            [
-                'balance' => $account->balance,
-                'change_type' => 'transaction',
-                'change_amount' => $transaction->amount,
-            ]
-        );
+        $date = $transaction->date->format('Y-m-d');
+        $effect = $this->getBalanceEffect($account, $transaction);
+
+        $record = $account->balanceHistory()->whereDate('date', $date)->first();
+
+        if ($record) {
+            $balanceBefore = (float) $record->balance;
+        } else {
+            $previous = $account->balanceHistory()->whereDate('date', '<', $date)->orderByDesc('date')->first();
+            $next = $account->balanceHistory()->whereDate('date', '>', $date)->orderBy('date')->first();
+
+            // Without an earlier entry, work back from the next one, or from the
+            // current balance, which already includes this transaction
+            $balanceBefore = match (true) {
+                $previous !== null => (float) $previous->balance,
+                $next !== null => (float) $next->balance - (float) $next->change_amount,
+                default => (float) $account->balance - $effect,
+            };
+
+            $record = $account->balanceHistory()->make(['date' => $date]);
+        }
+
+        // change_amount is the signed net change for the day, like the other history entries
+        $record->fill([
+            'balance' => $balanceBefore + $effect,
+            'change_type' => 'transaction',
+            'change_amount' => (float) $record->change_amount + $effect,
+        ])->save();
+
+        $account->balanceHistory()
+            ->whereDate('date', '>', $date)
+            ->increment('balance', $effect);
     }
 
     /**
-     * Map CSV row to transaction data
+     * Signed effect of a transaction on an account balance, as applied by updateAccountBalances
+     */
+    private function getBalanceEffect(Account $account, Transaction $transaction): float
+    {
+        $amount = (float) $transaction->amount;
+        $isCreditCard = $account->type === 'credit_card';
+
+        // Incoming side of a transfer
+        if ($transaction->account_id != $account->id) {
+            return $isCreditCard ? -$amount : $amount;
+        }
+
+        if ($transaction->type === 'income') {
+            return $amount;
+        }
+
+        // Expenses and outgoing transfers add debt to credit cards
+        return $isCreditCard ? $amount : -$amount;
+    }
+
+    /**
+     * Read the headers and non-empty rows of a CSV. Each row keeps its line
+     * number in the file so errors and review choices can refer to it.
+     */
+    private function readCsv(UploadedFile $file, array $options): array
+    {
+        $delimiter = self::CSV_DELIMITERS[$options['delimiter'] ?? 'comma'] ?? ',';
+        $hasHeader = filter_var($options['has_header'] ?? true, FILTER_VALIDATE_BOOLEAN);
+
+        $handle = fopen($file->getRealPath(), 'r');
+        if ($handle === false) {
+            throw new \RuntimeException('Unable to read the uploaded file');
+        }
+
+        $headers = null;
+        $records = [];
+        $line = 0;
+
+        while (($values = fgetcsv($handle, 0, $delimiter)) !== false) {
+            $line++;
+
+            if ($line === 1) {
+                // Spreadsheet exports often start with a byte order mark
+                $values[0] = preg_replace('/^\xEF\xBB\xBF/', '', (string) $values[0]);
+            }
+
+            if ($headers === null && $hasHeader) {
+                $headers = array_map(function ($header, $index) {
+                    $header = trim((string) $header);
+                    return $header !== '' ? $header : 'Column ' . ($index + 1);
+                }, $values, array_keys($values));
+                continue;
+            }
+
+            if (empty(array_filter($values, fn ($value) => trim((string) $value) !== ''))) {
+                continue; // Skip empty lines
+            }
+
+            $records[] = [
+                'line' => $line,
+                'values' => array_map(fn ($value) => trim((string) $value), $values),
+            ];
+        }
+
+        fclose($handle);
+
+        if ($headers === null) {
+            $columns = empty($records) ? 0 : max(array_map(fn ($record) => count($record['values']), $records));
+            $headers = array_map(fn ($index) => 'Column ' . ($index + 1), range(0, max($columns - 1, 0)));
+        }
+
+        return [$headers, $records];
+    }
+
+    /**
+     * Map CSV rows to transaction data, flagging rows that can't be read
+     * and rows that already exist
      */
-    private function mapCsvRowToTransaction(array $row, array $headers, array $mappings, array $options, User $user): array
+    private function mapCsvRecords(User $user, array $headers, array $records, array $mappings, array $options): array
     {
-        $data = [];
+        $accounts = $user->accounts()->get(['id', 'name']);
+        $categories = $user->categories()->get(['id', 'name', 'type']);
+
+        if ($accounts->isEmpty()) {
+            throw new \RuntimeException('Create an account before importing transactions');
+        }
+
+        $rows = array_map(function ($record) use ($headers, $mappings, $options, $accounts, $categories) {
+            $row = [
+                'line' => $record['line'],
+                'values' => $record['values'],
+                'transaction' => null,
+                'account' => null,
+                'category' => null,
+                'error' => null,
+                'duplicate_of' => null,
+            ];
 
-        // Map columns
-        foreach ($mappings as $field => $columnName) {
-            $columnIndex = array_search($columnName, $headers);
-            if ($columnIndex !== false && isset($row[$columnIndex])) {
-                $data[$field] = trim($row[$columnIndex]);
+            try {
+                $transaction = $this->mapCsvRowToTransaction($record['values'], $headers, $mappings, $options, $accounts, $categories);
+                $row['transaction'] = $transaction;
+                $row['account'] = $accounts->firstWhere('id', $transaction['account_id'])?->name;
+                $row['category'] = $categories->firstWhere('id', $transaction['category_id'])?->name;
+            } catch (\Exception $e) {
+                $row['error'] = $e->getMessage();
             }
+
+            return $row;
+        }, $records);
+
+        $duplicates = $this->findDuplicateTransactions($user, array_filter(array_column($rows, 'transaction', 'line')));
+
+        foreach ($rows as &$row) {
+            $row['duplicate_of'] = $duplicates[$row['line']] ?? null;
         }
+        unset($row);
+
+        return $rows;
+    }
+
+    /**
+     * Map CSV row to transaction data
+     */
+    private function mapCsvRowToTransaction(
+        array $row,
+        array $headers,
+        array $mappings,
+        array $options,
+        Collection $accounts,
+        Collection $categories
+    ): array {
+        $value = function (string $field) use ($row, $headers, $mappings): ?string {
+            $column = $mappings[$field] ?? null;
+            $index = $column ? array_search($column, $headers, true) : false;
+
+            if ($index === false || !isset($row[$index]) || $row[$index] === '') {
+                return null;
+            }
+
+            return $row[$index];
+        };
 
         // Process date
-        if (isset($data['date'])) {
-            $dateFormat = $options['date_format'] ?? 'Y-m-d';
-            $data['date'] = Carbon::createFromFormat($dateFormat, $data['date'])->format('Y-m-d');
+        $rawDate = $value('date');
+        if ($rawDate === null) {
+            throw new \InvalidArgumentException('Date is empty');
+        }
+        $dateFormat = $options['date_format'] ?? 'Y-m-d';
+        try {
+            $date = Carbon::createFromFormat('!' . $dateFormat, $rawDate);
+        } catch (\Exception $e) {
+            $date = null;
+        }
+        $dateErrors = \DateTime::getLastErrors();
+        if (!$date || ($dateErrors && $dateErrors['warning_count'] > 0)) {
+            throw new \InvalidArgumentException(sprintf('"%s" does not match the date format %s', $rawDate, $dateFormat));
+        }
+
+        $description = $value('description');
+        if ($description === null) {
+            throw new \InvalidArgumentException('Description is empty');
+        }
+
+        // Process amount: one signed column, or money out and money in apart
+        $decimalSeparator = $options['decimal_separator'] ?? '.';
+        $signedType = null;
+
+        if (!empty($mappings['debit']) || !empty($mappings['credit'])) {
+            $debit = $this->parseCsvAmount($value('debit'), $decimalSeparator);
+            $credit = $this->parseCsvAmount($value('credit'), $decimalSeparator);
+
+            if ($debit) {
+                $amount = $debit;
+                $signedType = 'expense';
+            } elseif ($credit) {
+                $amount = $credit;
+                $signedType = 'income';
+            } else {
+                throw new \InvalidArgumentException('Debit and credit are both empty');
+            }
+        } else {
+            $amount = $this->parseCsvAmount($value('amount'), $decimalSeparator);
+            if ($amount === null) {
+                throw new \InvalidArgumentException('Amount is empty');
+            }
+
+            $signedType = match ($options['amount_sign'] ?? 'absolute') {
+                'negative_is_expense' => $amount < 0 ? 'expense' : 'income',
+                'positive_is_expense' => $amount > 0 ? 'expense' : 'income',
+                default => null,
+            };
+        }
+
+        $amount = round(abs($amount), 2);
+        if ($amount == 0) {
+            throw new \InvalidArgumentException('Amount is zero');
+        }
+
+        // An explicit type column wins over the sign of the amount
+        $typeValue = strtolower($value('type') ?? '');
+        $type = match (true) {
+            in_array($typeValue, self::CSV_INCOME_TYPES, true) => 'income',
+            in_array($typeValue, self::CSV_EXPENSE_TYPES, true) => 'expense',
+            default => $signedType ?? $options['default_type'] ?? 'expense',
+        };
+
+        // Accounts and categories are matched by name, falling back to the defaults
+        $accountName = $value('account');
+        $account = ($accountName ? $accounts->first(fn ($account) => strcasecmp($account->name, $accountName) === 0) : null)
+            ?? $accounts->firstWhere('id', (int) ($options['default_account_id'] ?? 0))
+            ?? $accounts->first();
+
+        $categoryName = $value('category');
+        $namedCategories = $categoryName
+            ? $categories->filter(fn ($category) => strcasecmp($category->name, $categoryName) === 0)
+            : collect();
+        $category = $namedCategories->firstWhere('type', $type)
+            ?? $namedCategories->first()
+            ?? $categories->firstWhere('id', (int) ($options['default_category_id'] ?? 0))
+            ?? $categories->firstWhere('type', $type)
+            ?? $categories->first();
+
+        if (!$category) {
+            throw new \InvalidArgumentException('Create a category before importing transactions');
+        }
+
+        return [
+            'account_id' => $account->id,
+            'category_id' => $category->id,
+            'description' => Str::limit($description, 255, ''),
+            'amount' => $amount,
+            'type' => $type,
+            'date' => $date->format('Y-m-d'),
+            'notes' => $value('notes'),
+            'reference_number' => $value('reference_number'),
+        ];
+    }
+
+    /**
+     * Parse a bank amount such as "1,234.50", "-12.00", "(12.00)" or "12.00-"
+     */
+    private function parseCsvAmount(?string $value, string $decimalSeparator): ?float
+    {
+        if ($value === null) {
+            return null;
+        }
+
+        $negative = str_contains($value, '-') || (str_starts_with($value, '(') && str_ends_with($value, ')'));
+
+        $number = str_replace($decimalSeparator === ',' ? '.' : ',', '', $value);
+        if ($decimalSeparator === ',') {
+            $number = str_replace(',', '.', $number);
+        }
+        $number = preg_replace('/[^0-9.]/', '', $number);
+
+        if ($number === '' || !is_numeric($number)) {
+            throw new \InvalidArgumentException(sprintf('"%s" is not a valid amount', $value));
+        }
+
+        return $negative ? -(float) $number : (float) $number;
+    }
+
+    /**
+     * Find existing transactions matching the given ones, either on account,
+     * date, amount and description or on account and reference number.
+     * Looked up in one query for the whole date range instead of per row.
+     *
+     * @param  array<int, array>  $transactions  transaction data keyed by line
+     * @return array<int, array>  the matching transaction keyed by line
+     */
+    private function findDuplicateTransactions(User $user, array $transactions): array
+    {
+        if (empty($transactions)) {
+            return [];
+        }
+
+        $dates = array_column($transactions, 'date');
+        $existing = $user->transactions()
+            ->whereIn('account_id', array_unique(array_column($transactions, 'account_id')))
+            ->whereBetween('date', [min($dates), max($dates)])
+            ->get(['id', 'account_id', 'date', 'amount', 'description', 'reference_number']);
+
+        $byDetails = [];
+        $byReference = [];
+        foreach ($existing as $transaction) {
+            $byDetails[$this->duplicateKey(
+                $transaction->account_id,
+                $transaction->date->format('Y-m-d'),
+                $transaction->amount,
+                $transaction->description
+            )] = $transaction;
+
+            if ($transaction->reference_number) {
+                $byReference[$transaction->account_id . '|' . $transaction->reference_number] = $transaction;
+            }
         }
 
-        // Process amount
-        if (isset($data['amount'])) {
-            $data['amount'] = floatval(str_replace(['$', ','], '', $data['amount']));
+        $duplicates = [];
+        foreach ($transactions as $line => $data) {
+            $match = $byDetails[$this->duplicateKey($data['account_id'], $data['date'], $data['amount'], $data['description'])]
+                ?? ($data['reference_number'] ? ($byReference[$data['account_id'] . '|' . $data['reference_number']] ?? null) : null);
+
+            if ($match) {
+                $duplicates[$line] = [
+                    'id' => $match->id,
+                    'date' => $match->date->format('Y-m-d'),
+                    'description' => $match->description,
+                    'amount' => (float) $match->amount,
+                ];
+            }
         }
 
-        // Set defaults
-        $data['account_id'] = $options['default_account_id'] ?? $user->accounts()->first()->id;
-        $data['category_id'] = $options['default_category_id'] ?? $user->categories()->first()->id;
-        $data['type'] = $data['type'] ?? $options['default_type'] ?? 'expense';
+        return $duplicates;
+    }
+
+    private function duplicateKey($accountId, string $date, $amount, ?string $description): string
+    {
+        return implode('|', [$accountId, $date, number_format((float) $amount, 2, '.', ''), Str::lower(trim((string) $description))]);
+    }
+
+    private function getIgnoredDuplicateGroups(User $user): array
+    {
+        $ignored = json_decode($user->getSetting(self::IGNORED_DUPLICATES_SETTING, '[]'), true);
+
+        return is_array($ignored) ? $ignored : [];
+    }
+
+    private function duplicateGroupKey(array $transactionIds): string
+    {
+        $ids = array_map('intval', $transactionIds);
+        sort($ids);
 
-        return $data;
+        return implode('-', $ids);
     }
 
     /**
-     * Check if transaction is duplicate
+     * Lowercase, without punctuation and long digit runs such as card or
+     * terminal numbers that differ between otherwise identical entries
      */
-    private function isDuplicateTransaction(User $user, array $transactionData): bool
+    private function normalizeDescription(?string $description): string
+    {
+        $normalized = Str::lower((string) $description);
+        $normalized = preg_replace('/\d{4,}/', ' ', $normalized);
+        $normalized = preg_replace('/[^\p{L}\p{N}]+/u', ' ', $normalized);
+
+        return trim(preg_replace('/\s+/', ' ', $normalized));
+    }
+
+    private function descriptionsMatch(string $a, string $b, float $threshold): bool
     {
-        return $user->transactions()
-            ->where('description', $transactionData['description'])
-            ->where('amount', $transactionData['amount'])
-            ->where('date', $transactionData['date'])
-            ->where('account_id', $transactionData['account_id'])
-            ->exists();
+        if ($a === '' || $b === '') {
+            return $a === $b;
+        }
+
+        // "starbucks" and "pos starbucks manila" are the same merchant
+        if (min(strlen($a), strlen($b)) >= 4 && (str_contains($a, $b) || str_contains($b, $a))) {
+            return true;
+        }
+
+        similar_text($a, $b, $percent);
+
+        return $percent >= $threshold;
     }
 
     /**
@@ -41,4 +41,10 @@
         'api_url' => env('CURRENCY_API_URL'),
     ],
 
+    'sms' => [
+        'url' => env('SMS_GATEWAY_URL'),
+        'token' => env('SMS_GATEWAY_TOKEN'),
+        'sender' => env('SMS_SENDER_ID', env('APP_NAME')),
+    ],
+
 ];
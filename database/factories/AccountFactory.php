@@ -0,0 +1,42 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\User;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\Account>
+ */
+class AccountFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'user_id' => User::factory(),
+            'name' => fake()->company() . ' Checking',
+            'type' => 'bank',
+            'balance' => 1000,
+            'currency' => 'PHP',
+            'is_active' => true,
+            'include_in_net_worth' => true,
+        ];
+    }
+
+    /**
+     * Indicate that the account is a credit card.
+     */
+    public function creditCard(): static
+    {
+        return $this->state(fn (array $attributes) => [
+            'type' => 'credit_card',
+            'balance' => 0,
+            'credit_limit' => 50000,
+        ]);
+    }
+}
@@ -0,0 +1,35 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Category;
+use Carbon\Carbon;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\Bill>
+ */
+class BillFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'category_id' => Category::factory(),
+            'user_id' => fn (array $attributes) => Category::find($attributes['category_id'])->user_id,
+            'name' => fake()->company() . ' Bill',
+            'amount' => 1500,
+            'due_date' => now()->addWeek()->format('Y-m-d'),
+            'due_day' => fn (array $attributes) => Carbon::parse($attributes['due_date'])->day,
+            'frequency' => 'monthly',
+            'reminder_days' => null,
+            'status' => 'active',
+            'is_recurring' => true,
+            'payment_history' => [],
+        ];
+    }
+}
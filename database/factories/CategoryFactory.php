@@ -0,0 +1,37 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\User;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\Category>
+ */
+class CategoryFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'user_id' => User::factory(),
+            'name' => fake()->unique()->word(),
+            'type' => 'expense',
+            'is_active' => true,
+        ];
+    }
+
+    /**
+     * Indicate that the category is for income.
+     */
+    public function income(): static
+    {
+        return $this->state(fn (array $attributes) => [
+            'type' => 'income',
+        ]);
+    }
+}
@@ -0,0 +1,33 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\User;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\Debt>
+ */
+class DebtFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'user_id' => User::factory(),
+            'name' => fake()->company() . ' Loan',
+            'type' => 'personal_loan',
+            'original_balance' => 10000,
+            'current_balance' => 10000,
+            'interest_rate' => 12,
+            'minimum_payment' => 500,
+            'due_date' => now()->addMonth()->format('Y-m-d'),
+            'payment_frequency' => 'monthly',
+            'status' => 'active',
+        ];
+    }
+}
@@ -0,0 +1,39 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Account;
+use App\Models\Category;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\RecurringTransaction>
+ */
+class RecurringTransactionFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'account_id' => Account::factory(),
+            'user_id' => fn (array $attributes) => Account::find($attributes['account_id'])->user_id,
+            'category_id' => fn (array $attributes) => Category::factory()->state([
+                'user_id' => $attributes['user_id'],
+            ]),
+            'name' => fake()->words(2, true),
+            'description' => fake()->sentence(3),
+            'amount' => 100,
+            'type' => 'expense',
+            'frequency' => 'monthly',
+            'interval' => 1,
+            'start_date' => now()->subMonth()->format('Y-m-d'),
+            'next_occurrence' => now()->addWeek()->format('Y-m-d'),
+            'is_active' => true,
+            'occurrences_count' => 0,
+        ];
+    }
+}
@@ -0,0 +1,59 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Account;
+use App\Models\Category;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * Rows are inserted as they are; account balances and budgets are not
+ * touched, unlike transactions created through TransactionService.
+ *
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\Transaction>
+ */
+class TransactionFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'account_id' => Account::factory(),
+            'user_id' => fn (array $attributes) => Account::find($attributes['account_id'])->user_id,
+            'category_id' => fn (array $attributes) => Category::factory()->state([
+                'user_id' => $attributes['user_id'],
+            ]),
+            'description' => fake()->words(3, true),
+            'amount' => fake()->randomFloat(2, 1, 500),
+            'type' => 'expense',
+            'date' => fake()->dateTimeBetween('-2 months', '-1 day')->format('Y-m-d'),
+            'is_recurring' => false,
+            'is_cleared' => true,
+        ];
+    }
+
+    /**
+     * Indicate that the transaction is income.
+     */
+    public function income(): static
+    {
+        return $this->state(fn (array $attributes) => [
+            'type' => 'income',
+        ]);
+    }
+
+    /**
+     * Indicate that the transaction has not cleared the bank yet.
+     */
+    public function uncleared(): static
+    {
+        return $this->state(fn (array $attributes) => [
+            'is_cleared' => false,
+            'cleared_at' => null,
+        ]);
+    }
+}
@@ -0,0 +1,32 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('bills', function (Blueprint $table) {
+            // Null follows the user's reminder_days_before setting
+            $table->integer('reminder_days')->nullable()->default(null)->change();
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        DB::table('bills')->whereNull('reminder_days')->update(['reminder_days' => 3]);
+
+        Schema::table('bills', function (Blueprint $table) {
+            $table->integer('reminder_days')->default(3)->change();
+        });
+    }
+};
@@ -0,0 +1,38 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('bills', function (Blueprint $table) {
+            // Day of month the bill falls due, kept when a short month moves due_date earlier
+            $table->unsignedTinyInteger('due_day')
+                ->nullable()
+                ->after('due_date');
+        });
+
+        DB::table('bills')->select('id', 'due_date')->orderBy('id')->each(function ($bill) {
+            DB::table('bills')
+                ->where('id', $bill->id)
+                ->update(['due_day' => (int) date('j', strtotime($bill->due_date))]);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('bills', function (Blueprint $table) {
+            $table->dropColumn('due_day');
+        });
+    }
+};
@@ -1,5 +1,4 @@
 import { ReactNode } from 'react';
-import { Toaster } from '@/components/ui/toaster';
 interface AuthLayoutProps {
   children: ReactNode;
 }
@@ -17,7 +16,6 @@ export default function AuthLayout({ children }: AuthLayoutProps) {
           </p>
         </div>
         {children}
-        <Toaster />
       </div>
     </div>
   );
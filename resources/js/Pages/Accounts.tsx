@@ -0,0 +1,495 @@
+// resources/js/Pages/Accounts.tsx
+
+import { useState } from 'react';
+import { Head, Link, router } from '@inertiajs/react';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    CreditCardIcon,
+    LandmarkIcon,
+    MoreVerticalIcon,
+    PlusIcon,
+    RefreshCwIcon,
+    TrendingUpIcon,
+    WalletIcon,
+    SmartphoneIcon,
+    BanknoteIcon,
+    ArrowLeftRightIcon,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage } from '@/lib/api';
+import { formatCurrency, formatPercent, toNumber } from '@/lib/format';
+import {
+    AccountFormModal,
+    accountTypes,
+    type AccountFormData,
+} from '@/components/account-form-modal';
+import { DeleteAccountDialog } from '@/components/delete-account-dialog';
+import { TransferDialog } from '@/components/transfer-dialog';
+import type { Account, AccountType } from '@/types/account';
+
+interface AccountsMeta {
+    total: number;
+    total_balance: number | string;
+    net_worth: number | string;
+    currency: string;
+    currency_symbol: string;
+}
+
+const typeIcons: Record<AccountType, typeof WalletIcon> = {
+    cash: BanknoteIcon,
+    bank: LandmarkIcon,
+    credit_card: CreditCardIcon,
+    investment: TrendingUpIcon,
+    ewallet: SmartphoneIcon,
+};
+
+export default function Accounts() {
+    const { toast } = useToast();
+    const [includeInactive, setIncludeInactive] = useState(false);
+    const {
+        data: accounts,
+        meta,
+        loading,
+        error,
+        reload,
+    } = useApi<Account[], AccountsMeta>('/accounts', {
+        include_inactive: includeInactive ? 1 : 0,
+    });
+
+    // Modal states
+    const [showFormModal, setShowFormModal] = useState(false);
+    const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+    const [showTransferDialog, setShowTransferDialog] = useState(false);
+    const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+    const [deletingAccount, setDeletingAccount] = useState<Account | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const currency = meta?.currency ?? 'PHP';
+
+    // Group accounts by type, keeping the canonical type order
+    const groups = accountTypes
+        .map((type) => ({
+            ...type,
+            accounts: (accounts ?? []).filter((a) => a.type === type.value),
+        }))
+        .filter((group) => group.accounts.length > 0);
+
+    const creditCards = (accounts ?? []).filter(
+        (a) => a.type === 'credit_card' && a.is_active
+    );
+    const totalCreditLimit = creditCards.reduce(
+        (sum, a) => sum + toNumber(a.credit_limit),
+        0
+    );
+    const totalCreditUsed = creditCards.reduce(
+        (sum, a) => sum + Math.abs(toNumber(a.balance)),
+        0
+    );
+
+    // Handle create - open modal
+    const handleCreate = () => {
+        setEditingAccount(null);
+        setShowFormModal(true);
+    };
+
+    // Handle edit - open modal with account data
+    const handleEdit = (account: Account) => {
+        setEditingAccount(account);
+        setShowFormModal(true);
+    };
+
+    // Handle form submit (create or update)
+    const handleFormSubmit = async (data: AccountFormData) => {
+        setIsSubmitting(true);
+
+        try {
+            if (editingAccount) {
+                // Balance changes go through the adjust balance flow
+                const { balance: _balance, ...changes } = data;
+                await api.put(`/accounts/${editingAccount.id}`, changes);
+            } else {
+                await api.post('/accounts', data);
+            }
+
+            toast({
+                title: 'Success',
+                description: editingAccount
+                    ? 'Account updated successfully'
+                    : 'Account created successfully',
+            });
+            setShowFormModal(false);
+            setEditingAccount(null);
+            reload();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(
+                    err,
+                    editingAccount
+                        ? 'Failed to update account'
+                        : 'Failed to create account'
+                ),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    // Handle delete - open confirmation dialog
+    const handleDelete = (account: Account) => {
+        setDeletingAccount(account);
+        setShowDeleteDialog(true);
+    };
+
+    // Confirm delete
+    const confirmDelete = async () => {
+        if (!deletingAccount) return;
+
+        setIsDeleting(true);
+        try {
+            await api.delete(`/accounts/${deletingAccount.id}`);
+            toast({
+                title: 'Success',
+                description: 'Account deleted successfully',
+            });
+            setShowDeleteDialog(false);
+            setDeletingAccount(null);
+            reload();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to delete account'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    return (
+        <>
+            <Head title="Accounts" />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+                                {/* Header Section */}
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <h1 className="text-3xl font-bold">Accounts</h1>
+                                        <p className="text-muted-foreground">
+                                            Your cash, bank, credit card, investment
+                                            and e-wallet accounts
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={reload}
+                                            disabled={loading}
+                                        >
+                                            <RefreshCwIcon
+                                                className={loading ? 'animate-spin' : ''}
+                                            />
+                                            Refresh
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => setShowTransferDialog(true)}
+                                            disabled={!accounts || accounts.length < 2}
+                                        >
+                                            <ArrowLeftRightIcon />
+                                            Transfer
+                                        </Button>
+                                        <Button size="sm" onClick={handleCreate}>
+                                            <PlusIcon />
+                                            Add Account
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {/* Summary Cards */}
+                                <div className="grid gap-4 md:grid-cols-3">
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Net Worth
+                                            </CardTitle>
+                                            <WalletIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">
+                                                {formatCurrency(meta?.net_worth, currency)}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                Accounts included in net worth
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Total Balance
+                                            </CardTitle>
+                                            <LandmarkIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">
+                                                {formatCurrency(meta?.total_balance, currency)}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                Across {meta?.total ?? 0} accounts
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Credit Utilization
+                                            </CardTitle>
+                                            <CreditCardIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">
+                                                {totalCreditLimit > 0
+                                                    ? formatPercent(
+                                                          (totalCreditUsed / totalCreditLimit) * 100
+                                                      )
+                                                    : '—'}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {formatCurrency(totalCreditUsed, currency)} of{' '}
+                                                {formatCurrency(totalCreditLimit, currency)} limit
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                </div>
+
+                                <div className="flex items-center space-x-2">
+                                    <Checkbox
+                                        id="include_inactive"
+                                        checked={includeInactive}
+                                        onCheckedChange={(checked) =>
+                                            setIncludeInactive(!!checked)
+                                        }
+                                    />
+                                    <Label
+                                        htmlFor="include_inactive"
+                                        className="text-sm font-normal"
+                                    >
+                                        Show inactive accounts
+                                    </Label>
+                                </div>
+
+                                {error && (
+                                    <p className="text-sm text-destructive">{error}</p>
+                                )}
+
+                                {/* Accounts grouped by type */}
+                                {loading && !accounts ? (
+                                    <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+                                        {Array.from({ length: 3 }).map((_, index) => (
+                                            <Skeleton key={index} className="h-32 w-full" />
+                                        ))}
+                                    </div>
+                                ) : groups.length === 0 ? (
+                                    <Card>
+                                        <CardContent className="py-10 text-center text-muted-foreground">
+                                            No accounts yet. Add your first account to
+                                            start tracking balances.
+                                        </CardContent>
+                                    </Card>
+                                ) : (
+                                    groups.map((group) => {
+                                        const Icon = typeIcons[group.value];
+                                        const groupTotal = group.accounts.reduce(
+                                            (sum, a) => sum + toNumber(a.balance),
+                                            0
+                                        );
+
+                                        return (
+                                            <section key={group.value} className="space-y-3">
+                                                <div className="flex items-center justify-between">
+                                                    <h2 className="flex items-center gap-2 text-lg font-semibold">
+                                                        <Icon className="h-5 w-5 text-muted-foreground" />
+                                                        {group.label}
+                                                        <Badge variant="secondary">
+                                                            {group.accounts.length}
+                                                        </Badge>
+                                                    </h2>
+                                                    <span className="font-medium tabular-nums">
+                                                        {formatCurrency(groupTotal, currency)}
+                                                    </span>
+                                                </div>
+                                                <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+                                                    {group.accounts.map((account) => (
+                                                        <AccountCard
+                                                            key={account.id}
+                                                            account={account}
+                                                            onEdit={handleEdit}
+                                                            onDelete={handleDelete}
+                                                        />
+                                                    ))}
+                                                </div>
+                                            </section>
+                                        );
+                                    })
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+
+            {/* Account Form Modal (Add/Edit) */}
+            <AccountFormModal
+                open={showFormModal}
+                onOpenChange={(open) => {
+                    setShowFormModal(open);
+                    if (!open) {
+                        setEditingAccount(null);
+                    }
+                }}
+                account={editingAccount}
+                onSubmit={handleFormSubmit}
+                isSubmitting={isSubmitting}
+            />
+
+            {/* Delete Confirmation Dialog */}
+            <DeleteAccountDialog
+                open={showDeleteDialog}
+                onOpenChange={setShowDeleteDialog}
+                account={deletingAccount}
+                onConfirm={confirmDelete}
+                isDeleting={isDeleting}
+            />
+
+            {/* Transfer Dialog */}
+            <TransferDialog
+                open={showTransferDialog}
+                onOpenChange={setShowTransferDialog}
+                accounts={accounts ?? []}
+                onTransferred={reload}
+            />
+        </>
+    );
+}
+
+interface AccountCardProps {
+    account: Account;
+    onEdit: (account: Account) => void;
+    onDelete: (account: Account) => void;
+}
+
+function AccountCard({ account, onEdit, onDelete }: AccountCardProps) {
+    const balance = toNumber(account.balance);
+    const creditLimit = toNumber(account.credit_limit);
+    const utilization =
+        account.type === 'credit_card' && creditLimit > 0
+            ? (Math.abs(balance) / creditLimit) * 100
+            : null;
+
+    return (
+        <Card className={account.is_active ? '' : 'opacity-60'}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                <div className="flex items-center gap-3">
+                    <span
+                        className="h-3 w-3 rounded-full"
+                        style={{ backgroundColor: account.color ?? '#999999' }}
+                    />
+                    <div>
+                        <CardTitle className="text-base">
+                            <Link
+                                href={`/accounts/${account.id}`}
+                                className="hover:underline"
+                            >
+                                {account.name}
+                            </Link>
+                        </CardTitle>
+                        <CardDescription>
+                            {[account.bank_name, account.account_number]
+                                .filter(Boolean)
+                                .join(' • ') || account.type_label}
+                        </CardDescription>
+                    </div>
+                </div>
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <MoreVerticalIcon />
+                            <span className="sr-only">Open menu</span>
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                            onClick={() => router.get(`/accounts/${account.id}`)}
+                        >
+                            View
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onEdit(account)}>
+                            Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                            className="text-destructive"
+                            onClick={() => onDelete(account)}
+                        >
+                            Delete
+                        </DropdownMenuItem>
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            </CardHeader>
+            <CardContent>
+                <div
+                    className={`text-2xl font-bold tabular-nums ${
+                        balance < 0 ? 'text-red-600' : ''
+                    }`}
+                >
+                    {formatCurrency(balance, account.currency)}
+                </div>
+                <div className="mt-1 flex flex-wrap gap-2 text-xs text-muted-foreground">
+                    {utilization !== null && (
+                        <span>
+                            {formatPercent(utilization)} of{' '}
+                            {formatCurrency(creditLimit, account.currency)} used
+                        </span>
+                    )}
+                    {!account.include_in_net_worth && (
+                        <Badge variant="outline">Excluded from net worth</Badge>
+                    )}
+                    {!account.is_active && <Badge variant="outline">Inactive</Badge>}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
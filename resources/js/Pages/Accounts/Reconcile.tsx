@@ -0,0 +1,441 @@
+// resources/js/Pages/Accounts/Reconcile.tsx
+
+import { useEffect, useMemo, useState } from 'react';
+import { Head, Link, router, usePage } from '@inertiajs/react';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeftIcon, CheckCircle2Icon, Loader2Icon } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage, type ApiResponse } from '@/lib/api';
+import { formatCurrency, formatDate, toDateString, toNumber } from '@/lib/format';
+import type { Account, ReconcileResult, ReconciliationData } from '@/types/account';
+
+interface PageProps {
+    accountId: number;
+    [key: string]: any;
+}
+
+export default function AccountReconcile() {
+    const { accountId } = usePage<PageProps>().props;
+    const { toast } = useToast();
+
+    // Statement details
+    const [statementDate, setStatementDate] = useState(toDateString(new Date()));
+    const [statementBalance, setStatementBalance] = useState('');
+    const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+    const [showConfirm, setShowConfirm] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const { data: account } = useApi<Account>(`/accounts/${accountId}`);
+    const { data: reconciliation, loading, error } = useApi<ReconciliationData>(
+        `/accounts/${accountId}/reconciliation`,
+        { statement_date: statementDate }
+    );
+
+    const transactions = reconciliation?.transactions ?? [];
+    const currency = account?.currency ?? 'PHP';
+
+    // Drop ticks for transactions that fall outside a new statement date
+    useEffect(() => {
+        setSelectedIds((previous) => {
+            const visible = new Set(transactions.map((t) => t.id));
+            return new Set([...previous].filter((id) => visible.has(id)));
+        });
+    }, [reconciliation]);
+
+    const clearedBalance = useMemo(() => {
+        const ticked = transactions
+            .filter((t) => selectedIds.has(t.id))
+            .reduce((sum, t) => sum + toNumber(t.effect), 0);
+
+        return toNumber(reconciliation?.cleared_balance) + ticked;
+    }, [reconciliation, transactions, selectedIds]);
+
+    const hasStatementBalance = statementBalance.trim() !== '';
+    const difference = hasStatementBalance
+        ? Math.round((toNumber(statementBalance) - clearedBalance) * 100) / 100
+        : null;
+    const isBalanced = difference !== null && Math.abs(difference) < 0.01;
+
+    const toggle = (id: number, checked: boolean) => {
+        setSelectedIds((previous) => {
+            const next = new Set(previous);
+            if (checked) {
+                next.add(id);
+            } else {
+                next.delete(id);
+            }
+            return next;
+        });
+    };
+
+    const allSelected = transactions.length > 0 && selectedIds.size === transactions.length;
+
+    const toggleAll = (checked: boolean) => {
+        setSelectedIds(checked ? new Set(transactions.map((t) => t.id)) : new Set());
+    };
+
+    const finishReconciliation = async () => {
+        setIsSubmitting(true);
+        try {
+            const { data } = await api.post<ApiResponse<ReconcileResult>>(
+                `/accounts/${accountId}/reconcile`,
+                {
+                    statement_balance: toNumber(statementBalance),
+                    statement_date: statementDate,
+                    transaction_ids: [...selectedIds],
+                }
+            );
+            const adjustment = toNumber(data.data.adjustment);
+            toast({
+                title: 'Success',
+                description:
+                    adjustment !== 0
+                        ? `Cleared ${data.data.cleared_count} transactions and adjusted the balance by ${formatCurrency(adjustment, currency)}`
+                        : `Cleared ${data.data.cleared_count} transactions`,
+            });
+            router.get(`/accounts/${accountId}`);
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to reconcile account'),
+                variant: 'destructive',
+            });
+            setIsSubmitting(false);
+            setShowConfirm(false);
+        }
+    };
+
+    return (
+        <>
+            <Head title={account ? `Reconcile ${account.name}` : 'Reconcile Account'} />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+                                {/* Header with Back Button */}
+                                <div className="flex items-center justify-between">
+                                    <div className="flex items-center gap-4">
+                                        <Link href={`/accounts/${accountId}`}>
+                                            <Button variant="outline" size="icon">
+                                                <ArrowLeftIcon className="h-4 w-4" />
+                                            </Button>
+                                        </Link>
+                                        <div>
+                                            <h1 className="text-3xl font-bold">
+                                                Reconcile {account?.name ?? 'Account'}
+                                            </h1>
+                                            <p className="text-muted-foreground">
+                                                Tick the transactions that appear on your
+                                                statement until the difference is zero
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <Button
+                                        onClick={() => setShowConfirm(true)}
+                                        disabled={!hasStatementBalance || loading || isSubmitting}
+                                    >
+                                        <CheckCircle2Icon className="mr-2 h-4 w-4" />
+                                        Finish Reconciliation
+                                    </Button>
+                                </div>
+
+                                {error && (
+                                    <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-4 text-sm text-destructive">
+                                        {error}
+                                    </div>
+                                )}
+
+                                {/* Statement Details */}
+                                <Card>
+                                    <CardHeader>
+                                        <CardTitle>Statement</CardTitle>
+                                        <CardDescription>
+                                            {reconciliation?.last_cleared_at
+                                                ? `Last cleared ${formatDate(reconciliation.last_cleared_at)}`
+                                                : 'Enter the ending balance and date from your statement'}
+                                        </CardDescription>
+                                    </CardHeader>
+                                    <CardContent>
+                                        <div className="grid gap-4 md:grid-cols-2">
+                                            <div className="space-y-2">
+                                                <Label htmlFor="statement_date">
+                                                    Statement Date
+                                                </Label>
+                                                <Input
+                                                    id="statement_date"
+                                                    type="date"
+                                                    max={toDateString(new Date())}
+                                                    value={statementDate}
+                                                    onChange={(e) =>
+                                                        e.target.value &&
+                                                        setStatementDate(e.target.value)
+                                                    }
+                                                />
+                                            </div>
+                                            <div className="space-y-2">
+                                                <Label htmlFor="statement_balance">
+                                                    Ending Balance ({currency})
+                                                </Label>
+                                                <Input
+                                                    id="statement_balance"
+                                                    type="number"
+                                                    step="0.01"
+                                                    placeholder="0.00"
+                                                    value={statementBalance}
+                                                    onChange={(e) =>
+                                                        setStatementBalance(e.target.value)
+                                                    }
+                                                />
+                                            </div>
+                                        </div>
+                                    </CardContent>
+                                </Card>
+
+                                {/* Running Totals */}
+                                <div className="grid gap-4 md:grid-cols-3">
+                                    <Card>
+                                        <CardHeader>
+                                            <CardDescription>Cleared Balance</CardDescription>
+                                            <CardTitle className="text-2xl font-semibold tabular-nums">
+                                                {loading && !reconciliation ? (
+                                                    <Skeleton className="h-8 w-32" />
+                                                ) : (
+                                                    formatCurrency(clearedBalance, currency)
+                                                )}
+                                            </CardTitle>
+                                        </CardHeader>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader>
+                                            <CardDescription>Statement Balance</CardDescription>
+                                            <CardTitle className="text-2xl font-semibold tabular-nums">
+                                                {hasStatementBalance
+                                                    ? formatCurrency(statementBalance, currency)
+                                                    : '—'}
+                                            </CardTitle>
+                                        </CardHeader>
+                                    </Card>
+                                    <Card
+                                        className={
+                                            difference === null
+                                                ? ''
+                                                : isBalanced
+                                                  ? 'border-green-600/50'
+                                                  : 'border-destructive/50'
+                                        }
+                                    >
+                                        <CardHeader>
+                                            <CardDescription>Difference</CardDescription>
+                                            <CardTitle
+                                                className={`text-2xl font-semibold tabular-nums ${
+                                                    difference === null
+                                                        ? ''
+                                                        : isBalanced
+                                                          ? 'text-green-600'
+                                                          : 'text-red-600'
+                                                }`}
+                                            >
+                                                {difference === null
+                                                    ? '—'
+                                                    : formatCurrency(difference, currency)}
+                                            </CardTitle>
+                                        </CardHeader>
+                                    </Card>
+                                </div>
+
+                                {/* Uncleared Transactions Checklist */}
+                                <Card>
+                                    <CardHeader>
+                                        <CardTitle>Uncleared Transactions</CardTitle>
+                                        <CardDescription>
+                                            {selectedIds.size} of {transactions.length} ticked
+                                            {' • '}up to {formatDate(statementDate)}
+                                        </CardDescription>
+                                    </CardHeader>
+                                    <CardContent>
+                                        <Table>
+                                            <TableHeader>
+                                                <TableRow>
+                                                    <TableHead className="w-10">
+                                                        <Checkbox
+                                                            checked={allSelected}
+                                                            onCheckedChange={(checked) =>
+                                                                toggleAll(!!checked)
+                                                            }
+                                                            disabled={transactions.length === 0}
+                                                            aria-label="Tick all"
+                                                        />
+                                                    </TableHead>
+                                                    <TableHead>Date</TableHead>
+                                                    <TableHead>Description</TableHead>
+                                                    <TableHead>Category</TableHead>
+                                                    <TableHead className="text-right">
+                                                        Amount
+                                                    </TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {loading && !reconciliation ? (
+                                                    Array.from({ length: 5 }).map((_, i) => (
+                                                        <TableRow key={i}>
+                                                            <TableCell colSpan={5}>
+                                                                <Skeleton className="h-6 w-full" />
+                                                            </TableCell>
+                                                        </TableRow>
+                                                    ))
+                                                ) : transactions.length === 0 ? (
+                                                    <TableRow>
+                                                        <TableCell
+                                                            colSpan={5}
+                                                            className="h-24 text-center text-muted-foreground"
+                                                        >
+                                                            Every transaction up to this date is
+                                                            already cleared
+                                                        </TableCell>
+                                                    </TableRow>
+                                                ) : (
+                                                    transactions.map((transaction) => {
+                                                        const effect = toNumber(transaction.effect);
+
+                                                        return (
+                                                            <TableRow
+                                                                key={transaction.id}
+                                                                data-state={
+                                                                    selectedIds.has(transaction.id)
+                                                                        ? 'selected'
+                                                                        : undefined
+                                                                }
+                                                            >
+                                                                <TableCell>
+                                                                    <Checkbox
+                                                                        checked={selectedIds.has(
+                                                                            transaction.id
+                                                                        )}
+                                                                        onCheckedChange={(checked) =>
+                                                                            toggle(
+                                                                                transaction.id,
+                                                                                !!checked
+                                                                            )
+                                                                        }
+                                                                        aria-label={`Tick ${transaction.description}`}
+                                                                    />
+                                                                </TableCell>
+                                                                <TableCell className="whitespace-nowrap">
+                                                                    {formatDate(transaction.date)}
+                                                                </TableCell>
+                                                                <TableCell>
+                                                                    <div className="font-medium">
+                                                                        {transaction.description}
+                                                                    </div>
+                                                                    {transaction.reference_number && (
+                                                                        <div className="text-xs text-muted-foreground">
+                                                                            Ref: {transaction.reference_number}
+                                                                        </div>
+                                                                    )}
+                                                                </TableCell>
+                                                                <TableCell className="text-muted-foreground">
+                                                                    {transaction.transfer_account
+                                                                        ? `Transfer • ${transaction.transfer_account}`
+                                                                        : transaction.category ?? '—'}
+                                                                </TableCell>
+                                                                <TableCell
+                                                                    className={`text-right tabular-nums ${
+                                                                        effect < 0
+                                                                            ? 'text-red-600'
+                                                                            : 'text-green-600'
+                                                                    }`}
+                                                                >
+                                                                    {effect > 0 ? '+' : ''}
+                                                                    {formatCurrency(effect, currency)}
+                                                                </TableCell>
+                                                            </TableRow>
+                                                        );
+                                                    })
+                                                )}
+                                            </TableBody>
+                                        </Table>
+                                    </CardContent>
+                                </Card>
+                            </div>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+
+            {/* Finish Confirmation */}
+            <AlertDialog open={showConfirm} onOpenChange={setShowConfirm}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Finish Reconciliation</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {selectedIds.size} ticked transactions will be marked as
+                            cleared.
+                            {difference !== null && !isBalanced && (
+                                <>
+                                    {' '}
+                                    A balance adjustment of{' '}
+                                    <span className="font-semibold text-foreground">
+                                        {formatCurrency(difference, currency)}
+                                    </span>{' '}
+                                    will be posted to cover the remaining difference.
+                                </>
+                            )}
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isSubmitting}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={(e) => {
+                                e.preventDefault();
+                                finishReconciliation();
+                            }}
+                            disabled={isSubmitting}
+                        >
+                            {isSubmitting && (
+                                <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+                            )}
+                            Finish
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </>
+    );
+}
@@ -0,0 +1,549 @@
+// resources/js/Pages/Accounts/Show.tsx
+
+import { useState } from 'react';
+import { Head, Link, router, usePage } from '@inertiajs/react';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import {
+    ArrowLeftIcon,
+    ArrowLeftRightIcon,
+    ChevronLeftIcon,
+    ChevronRightIcon,
+    ListChecksIcon,
+    PencilIcon,
+    ScaleIcon,
+    TrashIcon,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage, type PaginationMeta } from '@/lib/api';
+import { formatCurrency, formatDate, formatPercent, toNumber } from '@/lib/format';
+import { AccountBalanceChart } from '@/components/account-balance-chart';
+import {
+    AccountFormModal,
+    type AccountFormData,
+} from '@/components/account-form-modal';
+import {
+    AdjustBalanceDialog,
+    type AdjustBalanceFormData,
+} from '@/components/adjust-balance-dialog';
+import { DeleteAccountDialog } from '@/components/delete-account-dialog';
+import { TransferDialog } from '@/components/transfer-dialog';
+import type {
+    Account,
+    AccountPerformanceMetrics,
+    AccountTransaction,
+} from '@/types/account';
+
+interface PageProps {
+    accountId: number;
+    [key: string]: any;
+}
+
+const typeColors = {
+    income: 'text-green-600',
+    expense: 'text-red-600',
+    transfer: 'text-blue-600',
+};
+
+export default function AccountShow() {
+    const { accountId } = usePage<PageProps>().props;
+    const { toast } = useToast();
+
+    const {
+        data: account,
+        loading,
+        error,
+        reload,
+    } = useApi<Account>(`/accounts/${accountId}`);
+    const { data: metrics, reload: reloadMetrics } =
+        useApi<AccountPerformanceMetrics>(
+            `/accounts/${accountId}/performance-metrics`,
+            { months: 6 }
+        );
+    // Other accounts to transfer to or from
+    const { data: accounts, reload: reloadAccounts } = useApi<Account[]>('/accounts');
+
+    // Transaction list state
+    const [page, setPage] = useState(1);
+    const [type, setType] = useState<string>('all');
+    const {
+        data: transactions,
+        meta: pagination,
+        loading: transactionsLoading,
+        reload: reloadTransactions,
+    } = useApi<AccountTransaction[], PaginationMeta>(
+        `/accounts/${accountId}/transactions`,
+        {
+            page,
+            per_page: 15,
+            type: type === 'all' ? undefined : type,
+        }
+    );
+
+    // Modal states
+    const [showFormModal, setShowFormModal] = useState(false);
+    const [showAdjustDialog, setShowAdjustDialog] = useState(false);
+    const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+    const [showTransferDialog, setShowTransferDialog] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const refreshAll = () => {
+        reload();
+        reloadMetrics();
+        reloadTransactions();
+        reloadAccounts();
+    };
+
+    // Handle edit submit
+    const handleFormSubmit = async (data: AccountFormData) => {
+        setIsSubmitting(true);
+        try {
+            // Balance changes go through the adjust balance flow
+            const { balance: _balance, ...changes } = data;
+            await api.put(`/accounts/${accountId}`, changes);
+            toast({
+                title: 'Success',
+                description: 'Account updated successfully',
+            });
+            setShowFormModal(false);
+            reload();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to update account'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    // Handle balance adjustment
+    const handleAdjustBalance = async (data: AdjustBalanceFormData) => {
+        setIsSubmitting(true);
+        try {
+            await api.post(`/accounts/${accountId}/adjust-balance`, data);
+            toast({
+                title: 'Success',
+                description: 'Account balance adjusted successfully',
+            });
+            setShowAdjustDialog(false);
+            refreshAll();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to adjust balance'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    // Confirm delete
+    const confirmDelete = async () => {
+        setIsDeleting(true);
+        try {
+            await api.delete(`/accounts/${accountId}`);
+            toast({
+                title: 'Success',
+                description: 'Account deleted successfully',
+            });
+            router.get('/accounts');
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to delete account'),
+                variant: 'destructive',
+            });
+            setIsDeleting(false);
+        }
+    };
+
+    const creditLimit = toNumber(account?.credit_limit);
+    const utilization =
+        account?.type === 'credit_card' && creditLimit > 0
+            ? (Math.abs(toNumber(account.balance)) / creditLimit) * 100
+            : null;
+
+    return (
+        <>
+            <Head title={account ? account.name : 'Account'} />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+                                {/* Header with Back Button */}
+                                <div className="flex items-center justify-between">
+                                    <div className="flex items-center gap-4">
+                                        <Link href="/accounts">
+                                            <Button variant="outline" size="icon">
+                                                <ArrowLeftIcon className="h-4 w-4" />
+                                            </Button>
+                                        </Link>
+                                        <div>
+                                            <h1 className="text-3xl font-bold">
+                                                {account?.name ?? 'Account Details'}
+                                            </h1>
+                                            <p className="text-muted-foreground">
+                                                {account
+                                                    ? [account.type_label, account.bank_name]
+                                                          .filter(Boolean)
+                                                          .join(' • ')
+                                                    : 'View account information'}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button variant="outline" asChild>
+                                            <Link href={`/accounts/${accountId}/reconcile`}>
+                                                <ListChecksIcon className="mr-2 h-4 w-4" />
+                                                Reconcile
+                                            </Link>
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            onClick={() => setShowTransferDialog(true)}
+                                            disabled={!account || !account.is_active}
+                                        >
+                                            <ArrowLeftRightIcon className="mr-2 h-4 w-4" />
+                                            Transfer
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            onClick={() => setShowAdjustDialog(true)}
+                                            disabled={!account}
+                                        >
+                                            <ScaleIcon className="mr-2 h-4 w-4" />
+                                            Adjust Balance
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            onClick={() => setShowFormModal(true)}
+                                            disabled={!account}
+                                        >
+                                            <PencilIcon className="mr-2 h-4 w-4" />
+                                            Edit
+                                        </Button>
+                                        <Button
+                                            variant="destructive"
+                                            onClick={() => setShowDeleteDialog(true)}
+                                            disabled={!account}
+                                        >
+                                            <TrashIcon className="mr-2 h-4 w-4" />
+                                            Delete
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {error && (
+                                    <p className="text-sm text-destructive">{error}</p>
+                                )}
+
+                                {/* Balance and performance */}
+                                <div className="grid gap-4 md:grid-cols-4">
+                                    <Card>
+                                        <CardHeader className="pb-2">
+                                            <CardDescription>Current Balance</CardDescription>
+                                            {loading && !account ? (
+                                                <Skeleton className="h-8 w-32" />
+                                            ) : (
+                                                <CardTitle
+                                                    className={`text-2xl tabular-nums ${
+                                                        toNumber(account?.balance) < 0
+                                                            ? 'text-red-600'
+                                                            : ''
+                                                    }`}
+                                                >
+                                                    {formatCurrency(
+                                                        account?.balance,
+                                                        account?.currency
+                                                    )}
+                                                </CardTitle>
+                                            )}
+                                        </CardHeader>
+                                        <CardContent className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                                            {utilization !== null && (
+                                                <span>
+                                                    {formatPercent(utilization)} of{' '}
+                                                    {formatCurrency(creditLimit, account?.currency)}{' '}
+                                                    limit used
+                                                </span>
+                                            )}
+                                            {account && !account.is_active && (
+                                                <Badge variant="outline">Inactive</Badge>
+                                            )}
+                                            {account && !account.include_in_net_worth && (
+                                                <Badge variant="outline">
+                                                    Excluded from net worth
+                                                </Badge>
+                                            )}
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="pb-2">
+                                            <CardDescription>Income (6 months)</CardDescription>
+                                            <CardTitle className="text-2xl tabular-nums text-green-600">
+                                                {formatCurrency(
+                                                    metrics?.total_income,
+                                                    account?.currency
+                                                )}
+                                            </CardTitle>
+                                        </CardHeader>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="pb-2">
+                                            <CardDescription>Expenses (6 months)</CardDescription>
+                                            <CardTitle className="text-2xl tabular-nums text-red-600">
+                                                {formatCurrency(
+                                                    metrics?.total_expenses,
+                                                    account?.currency
+                                                )}
+                                            </CardTitle>
+                                        </CardHeader>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="pb-2">
+                                            <CardDescription>Avg. Monthly Net</CardDescription>
+                                            <CardTitle
+                                                className={`text-2xl tabular-nums ${
+                                                    toNumber(metrics?.average_monthly_net) < 0
+                                                        ? 'text-red-600'
+                                                        : 'text-green-600'
+                                                }`}
+                                            >
+                                                {formatCurrency(
+                                                    metrics?.average_monthly_net,
+                                                    account?.currency
+                                                )}
+                                            </CardTitle>
+                                        </CardHeader>
+                                    </Card>
+                                </div>
+
+                                {/* Remount after balance changes so the history refetches */}
+                                <AccountBalanceChart
+                                    key={account?.updated_at}
+                                    accountId={accountId}
+                                    currency={account?.currency}
+                                />
+
+                                {/* Transactions */}
+                                <Card>
+                                    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                                        <div className="space-y-1.5">
+                                            <CardTitle>Transactions</CardTitle>
+                                            <CardDescription>
+                                                {pagination
+                                                    ? `${pagination.total} transactions in this account`
+                                                    : 'Transactions in this account'}
+                                            </CardDescription>
+                                        </div>
+                                        <Select
+                                            value={type}
+                                            onValueChange={(value) => {
+                                                setType(value);
+                                                setPage(1);
+                                            }}
+                                        >
+                                            <SelectTrigger className="w-36">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="all">All types</SelectItem>
+                                                <SelectItem value="income">Income</SelectItem>
+                                                <SelectItem value="expense">Expense</SelectItem>
+                                                <SelectItem value="transfer">Transfer</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                    </CardHeader>
+                                    <CardContent>
+                                        <Table>
+                                            <TableHeader>
+                                                <TableRow>
+                                                    <TableHead>Date</TableHead>
+                                                    <TableHead>Description</TableHead>
+                                                    <TableHead>Category</TableHead>
+                                                    <TableHead className="text-right">
+                                                        Amount
+                                                    </TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {transactionsLoading && !transactions ? (
+                                                    <TableRow>
+                                                        <TableCell colSpan={4}>
+                                                            <Skeleton className="h-8 w-full" />
+                                                        </TableCell>
+                                                    </TableRow>
+                                                ) : !transactions || transactions.length === 0 ? (
+                                                    <TableRow>
+                                                        <TableCell
+                                                            colSpan={4}
+                                                            className="h-24 text-center text-muted-foreground"
+                                                        >
+                                                            No transactions found.
+                                                        </TableCell>
+                                                    </TableRow>
+                                                ) : (
+                                                    transactions.map((transaction) => (
+                                                        <TableRow
+                                                            key={transaction.id}
+                                                            className="cursor-pointer"
+                                                            onClick={() =>
+                                                                router.get(
+                                                                    `/transactions/${transaction.id}`
+                                                                )
+                                                            }
+                                                        >
+                                                            <TableCell className="whitespace-nowrap">
+                                                                {formatDate(transaction.date)}
+                                                            </TableCell>
+                                                            <TableCell>
+                                                                <div className="font-medium">
+                                                                    {transaction.description}
+                                                                </div>
+                                                                {transaction.transfer_account && (
+                                                                    <div className="text-xs text-muted-foreground">
+                                                                        To {transaction.transfer_account.name}
+                                                                    </div>
+                                                                )}
+                                                            </TableCell>
+                                                            <TableCell>
+                                                                {transaction.category ? (
+                                                                    <span className="flex items-center gap-2">
+                                                                        <span
+                                                                            className="h-2.5 w-2.5 rounded-full"
+                                                                            style={{
+                                                                                backgroundColor:
+                                                                                    transaction.category.color ??
+                                                                                    '#999999',
+                                                                            }}
+                                                                        />
+                                                                        {transaction.category.name}
+                                                                    </span>
+                                                                ) : (
+                                                                    <span className="text-muted-foreground">
+                                                                        Uncategorized
+                                                                    </span>
+                                                                )}
+                                                            </TableCell>
+                                                            <TableCell
+                                                                className={`text-right font-medium tabular-nums ${typeColors[transaction.type]}`}
+                                                            >
+                                                                {transaction.type === 'income'
+                                                                    ? '+'
+                                                                    : '-'}
+                                                                {formatCurrency(
+                                                                    transaction.amount,
+                                                                    account?.currency
+                                                                )}
+                                                            </TableCell>
+                                                        </TableRow>
+                                                    ))
+                                                )}
+                                            </TableBody>
+                                        </Table>
+
+                                        {pagination && pagination.last_page > 1 && (
+                                            <div className="flex items-center justify-between pt-4">
+                                                <p className="text-sm text-muted-foreground">
+                                                    Showing {pagination.from} to {pagination.to} of{' '}
+                                                    {pagination.total}
+                                                </p>
+                                                <div className="flex gap-2">
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        onClick={() => setPage(page - 1)}
+                                                        disabled={page <= 1}
+                                                    >
+                                                        <ChevronLeftIcon />
+                                                        Previous
+                                                    </Button>
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        onClick={() => setPage(page + 1)}
+                                                        disabled={page >= pagination.last_page}
+                                                    >
+                                                        Next
+                                                        <ChevronRightIcon />
+                                                    </Button>
+                                                </div>
+                                            </div>
+                                        )}
+                                    </CardContent>
+                                </Card>
+                            </div>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+
+            <AccountFormModal
+                open={showFormModal}
+                onOpenChange={setShowFormModal}
+                account={account}
+                onSubmit={handleFormSubmit}
+                isSubmitting={isSubmitting}
+            />
+
+            <AdjustBalanceDialog
+                open={showAdjustDialog}
+                onOpenChange={setShowAdjustDialog}
+                account={account}
+                onSubmit={handleAdjustBalance}
+                isSubmitting={isSubmitting}
+            />
+
+            <DeleteAccountDialog
+                open={showDeleteDialog}
+                onOpenChange={setShowDeleteDialog}
+                account={account}
+                onConfirm={confirmDelete}
+                isDeleting={isDeleting}
+            />
+
+            <TransferDialog
+                open={showTransferDialog}
+                onOpenChange={setShowTransferDialog}
+                accounts={accounts ?? []}
+                defaultFromAccountId={account?.id}
+                onTransferred={refreshAll}
+            />
+        </>
+    );
+}
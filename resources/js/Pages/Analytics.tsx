@@ -0,0 +1,1196 @@
+// resources/js/Pages/Analytics.tsx
+
+import * as React from 'react';
+import { Head, Link, usePage } from '@inertiajs/react';
+import { eachMonthOfInterval, format, parseISO } from 'date-fns';
+import {
+    Area,
+    Bar,
+    BarChart,
+    CartesianGrid,
+    ComposedChart,
+    Line,
+    XAxis,
+    YAxis,
+} from 'recharts';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import {
+    type ChartConfig,
+    ChartContainer,
+    ChartLegend,
+    ChartLegendContent,
+    ChartTooltip,
+    ChartTooltipContent,
+} from '@/components/ui/chart';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+    ActivityIcon,
+    ArrowDownIcon,
+    ArrowUpIcon,
+    CreditCardIcon,
+    FileSpreadsheetIcon,
+    HeartPulseIcon,
+    LandmarkIcon,
+    LightbulbIcon,
+    PiggyBankIcon,
+    RefreshCwIcon,
+    TrendingDownIcon,
+    TrendingUpIcon,
+    WalletIcon,
+} from 'lucide-react';
+import { useApi } from '@/hooks/use-api';
+import { formatCurrency, formatDate, formatPercent, toNumber } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import { DateRangePicker, getPresetRange } from '@/components/date-range-picker';
+import {
+    formatHealthValue,
+    healthComponentOrder,
+    healthScoreColor,
+    healthStatusColors,
+    ScoreChange,
+} from '@/components/health-score-card';
+import {
+    getNetWorthSeries,
+    getNetWorthSources,
+    NetWorthChart,
+    type NetWorthSource,
+} from '@/components/net-worth-chart';
+import { ProgressRing } from '@/components/progress-ring';
+import { SpendingForecastPanel } from '@/components/spending-forecast-panel';
+import type {
+    CashFlowReport,
+    CategoryBreakdownReport,
+    DateRange,
+    ExpensePredictions,
+    HealthScore,
+    HealthScoreComponent,
+    IncomeVsExpensesReport,
+    NetWorthReport,
+    SpendingTrendsReport,
+} from '@/types/analytics';
+
+type AnalyticsTab = 'overview' | 'cash-flow' | 'net-worth' | 'trends' | 'predictions' | 'health';
+type CashFlowGroupBy = 'day' | 'week' | 'month';
+
+const analyticsTabs: { value: AnalyticsTab; label: string }[] = [
+    { value: 'overview', label: 'Overview' },
+    { value: 'cash-flow', label: 'Cash Flow' },
+    { value: 'net-worth', label: 'Net Worth' },
+    { value: 'trends', label: 'Trends' },
+    { value: 'predictions', label: 'Predictions' },
+    { value: 'health', label: 'Health Score' },
+];
+
+// Categories drawn as their own series in the trends chart; the rest become "Other"
+const TREND_CATEGORY_LIMIT = 5;
+
+const chartColors = ['var(--chart-1)', 'var(--chart-2)', 'var(--chart-3)', 'var(--chart-4)', 'var(--chart-5)'];
+
+const overviewConfig = {
+    income: {
+        label: 'Income',
+        color: 'var(--chart-2)',
+    },
+    expenses: {
+        label: 'Expenses',
+        color: 'var(--chart-1)',
+    },
+} satisfies ChartConfig;
+
+const cashFlowConfig = {
+    inflow: {
+        label: 'Inflow',
+        color: 'var(--chart-2)',
+    },
+    outflow: {
+        label: 'Outflow',
+        color: 'var(--chart-1)',
+    },
+    running_balance: {
+        label: 'Cumulative net',
+        color: 'var(--chart-4)',
+    },
+} satisfies ChartConfig;
+
+const predictionsConfig = {
+    actual: {
+        label: 'Actual',
+        color: 'var(--chart-1)',
+    },
+    predicted: {
+        label: 'Predicted',
+        color: 'var(--chart-3)',
+    },
+    band: {
+        label: 'Confidence range',
+        color: 'var(--chart-3)',
+    },
+} satisfies ChartConfig;
+
+function compactNumber(value: number) {
+    return new Intl.NumberFormat('en-PH', { notation: 'compact' }).format(value);
+}
+
+/**
+ * Every month touched by the range as Y-m keys, so months without
+ * transactions are drawn as zero instead of being skipped.
+ */
+function monthsInRange(range: DateRange) {
+    return eachMonthOfInterval({ start: parseISO(range.start), end: parseISO(range.end) }).map(
+        (date) => ({ key: format(date, 'yyyy-MM'), label: format(date, 'MMM yy') })
+    );
+}
+
+/**
+ * Label a cash flow bucket; the API keys days as Y-m-d, ISO weeks as o-W
+ * and months as Y-m.
+ */
+function periodLabel(period: string, groupBy: CashFlowGroupBy) {
+    if (groupBy === 'week') {
+        const [year, week] = period.split('-');
+        return `Week ${Number(week)}, ${year}`;
+    }
+    return groupBy === 'month'
+        ? format(parseISO(`${period}-01`), 'MMM yy')
+        : format(parseISO(period), 'MMM d');
+}
+
+export default function AnalyticsPage() {
+    const { url } = usePage();
+    // Other pages link straight to a tab, e.g. /analytics?tab=health
+    const [tab, setTab] = React.useState<AnalyticsTab>(() => {
+        const requested = new URLSearchParams(url.split('?')[1] ?? '').get('tab');
+        return analyticsTabs.find((t) => t.value === requested)?.value ?? 'overview';
+    });
+    const [range, setRange] = React.useState<DateRange>(() => getPresetRange('6m'));
+    // Bumped by Refresh; remounting the active tab re-runs its requests
+    const [refreshKey, setRefreshKey] = React.useState(0);
+
+    return (
+        <>
+            <Head title="Analytics" />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+                                {/* Header Section */}
+                                <div className="flex flex-wrap items-center justify-between gap-4">
+                                    <div>
+                                        <h1 className="text-3xl font-bold">Analytics</h1>
+                                        <p className="text-muted-foreground">
+                                            Reports on your cash flow, net worth and spending
+                                        </p>
+                                    </div>
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <DateRangePicker value={range} onChange={setRange} />
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => setRefreshKey((key) => key + 1)}
+                                        >
+                                            <RefreshCwIcon />
+                                            Refresh
+                                        </Button>
+                                        <Button variant="outline" size="sm" asChild>
+                                            <Link href="/analytics/reports">
+                                                <FileSpreadsheetIcon />
+                                                Report Builder
+                                            </Link>
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                <Tabs
+                                    value={tab}
+                                    onValueChange={(value) => setTab(value as AnalyticsTab)}
+                                    className="gap-4"
+                                >
+                                    <TabsList className="h-auto flex-wrap">
+                                        {analyticsTabs.map((t) => (
+                                            <TabsTrigger key={t.value} value={t.value}>
+                                                {t.label}
+                                            </TabsTrigger>
+                                        ))}
+                                    </TabsList>
+
+                                    <TabsContent value="overview">
+                                        <OverviewTab key={refreshKey} range={range} />
+                                    </TabsContent>
+                                    <TabsContent value="cash-flow">
+                                        <CashFlowTab key={refreshKey} range={range} />
+                                    </TabsContent>
+                                    <TabsContent value="net-worth">
+                                        <NetWorthTab key={refreshKey} range={range} />
+                                    </TabsContent>
+                                    <TabsContent value="trends">
+                                        <TrendsTab key={refreshKey} range={range} />
+                                    </TabsContent>
+                                    <TabsContent value="predictions">
+                                        <PredictionsTab key={refreshKey} range={range} />
+                                    </TabsContent>
+                                    <TabsContent value="health">
+                                        <HealthScoreTab key={refreshKey} />
+                                    </TabsContent>
+                                </Tabs>
+                            </div>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+        </>
+    );
+}
+
+interface TabProps {
+    range: DateRange;
+}
+
+interface SummaryCardProps {
+    title: string;
+    icon: React.ComponentType<{ className?: string }>;
+    value: React.ReactNode;
+    hint?: React.ReactNode;
+    loading?: boolean;
+    valueClassName?: string;
+}
+
+function SummaryCard({ title, icon: Icon, value, hint, loading, valueClassName }: SummaryCardProps) {
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{title}</CardTitle>
+                <Icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+                {loading ? (
+                    <Skeleton className="h-8 w-32" />
+                ) : (
+                    <div className={cn('text-2xl font-bold', valueClassName)}>{value}</div>
+                )}
+                {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+            </CardContent>
+        </Card>
+    );
+}
+
+function CurrencyTooltip({ config }: { config: ChartConfig }) {
+    return (
+        <ChartTooltipContent
+            indicator="dot"
+            formatter={(value, name) => (
+                <div className="flex w-full items-center justify-between gap-4">
+                    <span className="text-muted-foreground">
+                        {config[name as string]?.label ?? name}
+                    </span>
+                    <span className="font-mono font-medium tabular-nums">
+                        {Array.isArray(value)
+                            ? `${formatCurrency(value[0] as number)} – ${formatCurrency(value[1] as number)}`
+                            : formatCurrency(value as number)}
+                    </span>
+                </div>
+            )}
+        />
+    );
+}
+
+function OverviewTab({ range }: TabProps) {
+    const { data: report, loading, error } = useApi<IncomeVsExpensesReport>(
+        '/analytics/income-vs-expenses',
+        { start_date: range.start, end_date: range.end, group_by: 'month' }
+    );
+    const { data: breakdown, loading: breakdownLoading } = useApi<CategoryBreakdownReport>(
+        '/analytics/category-breakdown',
+        { start_date: range.start, end_date: range.end, type: 'expense', limit: 5 }
+    );
+
+    const totals = new Map((report?.data ?? []).map((point) => [point.period, point]));
+    const chartData = monthsInRange(range).map((month) => ({
+        month: month.label,
+        income: toNumber(totals.get(month.key)?.income),
+        expenses: toNumber(totals.get(month.key)?.expenses),
+    }));
+
+    const summary = report?.summary;
+    const income = toNumber(summary?.total_income);
+    const net = toNumber(summary?.net_income);
+    const savingsRate = income > 0 ? (net / income) * 100 : 0;
+    const initialLoad = loading && !report;
+
+    return (
+        <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                <SummaryCard
+                    title="Income"
+                    icon={ArrowUpIcon}
+                    loading={initialLoad}
+                    value={formatCurrency(summary?.total_income)}
+                    hint={`${formatCurrency(summary?.average_monthly_income)} per month`}
+                />
+                <SummaryCard
+                    title="Expenses"
+                    icon={ArrowDownIcon}
+                    loading={initialLoad}
+                    value={formatCurrency(summary?.total_expenses)}
+                    hint={`${formatCurrency(summary?.average_monthly_expenses)} per month`}
+                />
+                <SummaryCard
+                    title="Net Income"
+                    icon={WalletIcon}
+                    loading={initialLoad}
+                    value={formatCurrency(net)}
+                    valueClassName={net < 0 ? 'text-red-600' : 'text-green-600'}
+                    hint="Income minus expenses"
+                />
+                <SummaryCard
+                    title="Savings Rate"
+                    icon={PiggyBankIcon}
+                    loading={initialLoad}
+                    value={formatPercent(savingsRate)}
+                    hint="Share of income kept"
+                />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="grid gap-4 lg:grid-cols-3">
+                <Card className="lg:col-span-2">
+                    <CardHeader>
+                        <CardTitle>Income vs Expenses</CardTitle>
+                        <CardDescription>Monthly totals for the selected range</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {initialLoad ? (
+                            <Skeleton className="h-[280px] w-full" />
+                        ) : (
+                            <ChartContainer
+                                config={overviewConfig}
+                                className="aspect-auto h-[280px] w-full"
+                            >
+                                <BarChart data={chartData}>
+                                    <CartesianGrid vertical={false} />
+                                    <XAxis
+                                        dataKey="month"
+                                        tickLine={false}
+                                        axisLine={false}
+                                        tickMargin={8}
+                                    />
+                                    <YAxis
+                                        tickLine={false}
+                                        axisLine={false}
+                                        width={80}
+                                        tickFormatter={compactNumber}
+                                    />
+                                    <ChartTooltip
+                                        cursor={false}
+                                        content={<CurrencyTooltip config={overviewConfig} />}
+                                    />
+                                    <Bar dataKey="income" fill="var(--color-income)" radius={4} />
+                                    <Bar dataKey="expenses" fill="var(--color-expenses)" radius={4} />
+                                    <ChartLegend content={<ChartLegendContent />} />
+                                </BarChart>
+                            </ChartContainer>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Top Spending</CardTitle>
+                        <CardDescription>Largest expense categories in the range</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {breakdownLoading && !breakdown ? (
+                            Array.from({ length: 4 }).map((_, index) => (
+                                <Skeleton key={index} className="h-8 w-full" />
+                            ))
+                        ) : (breakdown?.breakdown ?? []).length === 0 ? (
+                            <p className="text-sm text-muted-foreground">
+                                No expenses in this range.
+                            </p>
+                        ) : (
+                            breakdown?.breakdown.map((item) => (
+                                <div key={item.category_id ?? 'none'} className="space-y-1">
+                                    <div className="flex items-center justify-between gap-2 text-sm">
+                                        <span className="truncate font-medium">
+                                            {item.category_name}
+                                        </span>
+                                        <span className="shrink-0 tabular-nums text-muted-foreground">
+                                            {formatCurrency(item.total_amount)}
+                                        </span>
+                                    </div>
+                                    <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                                        <div
+                                            className="h-full rounded-full"
+                                            style={{
+                                                width: `${Math.min(100, item.percentage)}%`,
+                                                backgroundColor: item.category_color,
+                                            }}
+                                        />
+                                    </div>
+                                </div>
+                            ))
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    );
+}
+
+function CashFlowTab({ range }: TabProps) {
+    const [groupBy, setGroupBy] = React.useState<CashFlowGroupBy>('month');
+
+    const { data: report, loading, error } = useApi<CashFlowReport>('/analytics/cash-flow', {
+        start_date: range.start,
+        end_date: range.end,
+        group_by: groupBy,
+    });
+
+    const chartData = (report?.data ?? []).map((point) => ({
+        period: periodLabel(point.period, groupBy),
+        inflow: toNumber(point.inflow),
+        outflow: toNumber(point.outflow),
+        running_balance: toNumber(point.running_balance),
+    }));
+
+    const summary = report?.summary;
+    const net = toNumber(summary?.net_cash_flow);
+    const initialLoad = loading && !report;
+
+    return (
+        <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                <SummaryCard
+                    title="Inflow"
+                    icon={ArrowUpIcon}
+                    loading={initialLoad}
+                    value={formatCurrency(summary?.total_inflow)}
+                />
+                <SummaryCard
+                    title="Outflow"
+                    icon={ArrowDownIcon}
+                    loading={initialLoad}
+                    value={formatCurrency(summary?.total_outflow)}
+                />
+                <SummaryCard
+                    title="Net Cash Flow"
+                    icon={WalletIcon}
+                    loading={initialLoad}
+                    value={formatCurrency(net)}
+                    valueClassName={net < 0 ? 'text-red-600' : 'text-green-600'}
+                />
+                <SummaryCard
+                    title="Average Daily Flow"
+                    icon={ActivityIcon}
+                    loading={initialLoad}
+                    value={formatCurrency(summary?.average_daily_flow)}
+                />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div className="space-y-1.5">
+                        <CardTitle>Cash Flow</CardTitle>
+                        <CardDescription>
+                            Money in and out, with the cumulative net over the range
+                        </CardDescription>
+                    </div>
+                    <ToggleGroup
+                        type="single"
+                        value={groupBy}
+                        onValueChange={(value) => value && setGroupBy(value as CashFlowGroupBy)}
+                        variant="outline"
+                    >
+                        <ToggleGroupItem value="day" className="h-8 px-2.5">
+                            Daily
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="week" className="h-8 px-2.5">
+                            Weekly
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="month" className="h-8 px-2.5">
+                            Monthly
+                        </ToggleGroupItem>
+                    </ToggleGroup>
+                </CardHeader>
+                <CardContent>
+                    {initialLoad ? (
+                        <Skeleton className="h-[300px] w-full" />
+                    ) : chartData.length === 0 ? (
+                        <p className="py-10 text-center text-sm text-muted-foreground">
+                            No transactions in this range.
+                        </p>
+                    ) : (
+                        <ChartContainer
+                            config={cashFlowConfig}
+                            className="aspect-auto h-[300px] w-full"
+                        >
+                            <ComposedChart data={chartData}>
+                                <CartesianGrid vertical={false} />
+                                <XAxis
+                                    dataKey="period"
+                                    tickLine={false}
+                                    axisLine={false}
+                                    tickMargin={8}
+                                    minTickGap={32}
+                                />
+                                <YAxis
+                                    tickLine={false}
+                                    axisLine={false}
+                                    width={80}
+                                    tickFormatter={compactNumber}
+                                />
+                                <ChartTooltip
+                                    cursor={false}
+                                    content={<CurrencyTooltip config={cashFlowConfig} />}
+                                />
+                                <Bar dataKey="inflow" fill="var(--color-inflow)" radius={4} />
+                                <Bar dataKey="outflow" fill="var(--color-outflow)" radius={4} />
+                                <Line
+                                    dataKey="running_balance"
+                                    type="monotone"
+                                    stroke="var(--color-running_balance)"
+                                    strokeWidth={2}
+                                    dot={false}
+                                />
+                                <ChartLegend content={<ChartLegendContent />} />
+                            </ComposedChart>
+                        </ChartContainer>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+function NetWorthTab({ range }: TabProps) {
+    const { data: report, loading, error } = useApi<NetWorthReport>('/analytics/net-worth', {
+        start_date: range.start,
+        end_date: range.end,
+        include_debts: 1,
+    });
+    // Source keys left out of the totals; null until the user toggles one,
+    // so the accounts' own "include in net worth" setting is the default
+    const [excluded, setExcluded] = React.useState<string[] | null>(null);
+
+    const sources = React.useMemo(() => getNetWorthSources(report), [report]);
+    const excludedKeys = React.useMemo(
+        () =>
+            excluded ??
+            (report?.accounts ?? [])
+                .filter((account) => !account.include_in_net_worth)
+                .map((account) => `account-${account.id}`),
+        [excluded, report]
+    );
+    const includedSources = sources.filter((source) => !excludedKeys.includes(source.key));
+    const series = React.useMemo(
+        () => getNetWorthSeries(report, sources, excludedKeys),
+        [report, sources, excludedKeys]
+    );
+
+    const toggleSource = (key: string, checked: boolean) => {
+        setExcluded(
+            checked ? excludedKeys.filter((k) => k !== key) : [...excludedKeys, key]
+        );
+    };
+
+    const latest = series[series.length - 1];
+    const previous = series[series.length - 2];
+    const change = latest && previous ? latest.net_worth - previous.net_worth : 0;
+    const changePercent =
+        previous && previous.net_worth !== 0 ? (change / Math.abs(previous.net_worth)) * 100 : 0;
+    const initialLoad = loading && !report;
+
+    return (
+        <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                <SummaryCard
+                    title="Net Worth"
+                    icon={LandmarkIcon}
+                    loading={initialLoad}
+                    value={formatCurrency(latest?.net_worth)}
+                    hint="At the end of the range"
+                />
+                <SummaryCard
+                    title="Change"
+                    icon={change < 0 ? TrendingDownIcon : TrendingUpIcon}
+                    loading={initialLoad}
+                    value={formatCurrency(change)}
+                    valueClassName={change < 0 ? 'text-red-600' : 'text-green-600'}
+                    hint={`${formatPercent(changePercent)} vs. the previous month`}
+                />
+                <SummaryCard
+                    title="Assets"
+                    icon={WalletIcon}
+                    loading={initialLoad}
+                    value={formatCurrency(latest?.assets)}
+                    hint="Cash, bank, e-wallet and investment accounts"
+                />
+                <SummaryCard
+                    title="Liabilities"
+                    icon={CreditCardIcon}
+                    loading={initialLoad}
+                    value={formatCurrency(latest?.liabilities)}
+                    hint="Credit cards and debts"
+                />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="grid gap-4 lg:grid-cols-3">
+                <Card className="lg:col-span-2">
+                    <CardHeader>
+                        <CardTitle>Net Worth Over Time</CardTitle>
+                        <CardDescription>
+                            Month-end balances, assets above the line and liabilities below.
+                            Hover a month for the breakdown.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {initialLoad ? (
+                            <Skeleton className="h-[320px] w-full" />
+                        ) : series.length === 0 ? (
+                            <p className="py-10 text-center text-sm text-muted-foreground">
+                                No balance history in this range.
+                            </p>
+                        ) : (
+                            <NetWorthChart data={series} sources={includedSources} />
+                        )}
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Accounts & Debts</CardTitle>
+                        <CardDescription>
+                            Toggle what counts toward net worth. This only changes the view, not
+                            the account settings.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {initialLoad ? (
+                            Array.from({ length: 4 }).map((_, index) => (
+                                <Skeleton key={index} className="h-8 w-full" />
+                            ))
+                        ) : sources.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">
+                                No accounts or debts yet.
+                            </p>
+                        ) : (
+                            <>
+                                <NetWorthSourceList
+                                    title="Assets"
+                                    sources={sources.filter((source) => !source.isLiability)}
+                                    excluded={excludedKeys}
+                                    onToggle={toggleSource}
+                                />
+                                <NetWorthSourceList
+                                    title="Liabilities"
+                                    sources={sources.filter((source) => source.isLiability)}
+                                    excluded={excludedKeys}
+                                    onToggle={toggleSource}
+                                />
+                            </>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    );
+}
+
+interface NetWorthSourceListProps {
+    title: string;
+    sources: NetWorthSource[];
+    excluded: string[];
+    onToggle: (key: string, checked: boolean) => void;
+}
+
+function NetWorthSourceList({ title, sources, excluded, onToggle }: NetWorthSourceListProps) {
+    if (sources.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="space-y-2">
+            <h3 className="text-sm font-medium">{title}</h3>
+            {sources.map((source) => (
+                <div key={source.key} className="flex items-center justify-between gap-2 text-sm">
+                    <div className="flex min-w-0 items-center gap-2">
+                        <Checkbox
+                            id={source.key}
+                            checked={!excluded.includes(source.key)}
+                            onCheckedChange={(checked) => onToggle(source.key, checked === true)}
+                        />
+                        <span
+                            className="h-2.5 w-2.5 shrink-0 rounded-full"
+                            style={{ backgroundColor: source.color }}
+                        />
+                        <Label htmlFor={source.key} className="truncate font-normal">
+                            {source.name}
+                        </Label>
+                    </div>
+                    <span
+                        className={cn(
+                            'shrink-0 tabular-nums',
+                            excluded.includes(source.key) && 'text-muted-foreground line-through'
+                        )}
+                    >
+                        {formatCurrency(source.balance)}
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+function TrendsTab({ range }: TabProps) {
+    const { data: report, loading, error } = useApi<SpendingTrendsReport>(
+        '/analytics/spending-trends',
+        { start_date: range.start, end_date: range.end }
+    );
+
+    // Largest categories over the whole range get their own series
+    const { chartData, chartConfig, seriesKeys } = React.useMemo(() => {
+        const topIds = (report?.top_categories ?? [])
+            .slice(0, TREND_CATEGORY_LIMIT)
+            .map((category) => category.category_id);
+        const config: ChartConfig = {};
+        const keys: string[] = [];
+
+        (report?.top_categories ?? []).slice(0, TREND_CATEGORY_LIMIT).forEach((category, index) => {
+            const key = `category-${category.category_id ?? 'none'}`;
+            config[key] = {
+                label: category.category_name,
+                color: chartColors[index % chartColors.length],
+            };
+            keys.push(key);
+        });
+        config.other = { label: 'Other', color: 'var(--muted-foreground)' };
+        keys.push('other');
+
+        const months = new Map((report?.trends ?? []).map((month) => [month.month, month]));
+        const data = monthsInRange(range).map((month) => {
+            const point: Record<string, string | number> = { month: month.label, other: 0 };
+            keys.forEach((key) => {
+                point[key] = 0;
+            });
+            months.get(month.key)?.categories.forEach((category) => {
+                const key = topIds.includes(category.category_id)
+                    ? `category-${category.category_id ?? 'none'}`
+                    : 'other';
+                point[key] = (point[key] as number) + toNumber(category.amount);
+            });
+            return point;
+        });
+
+        return { chartData: data, chartConfig: config, seriesKeys: keys };
+    }, [report, range]);
+
+    const analysis = report?.analysis;
+    const totalSpending = (report?.trends ?? []).reduce(
+        (sum, month) => sum + toNumber(month.total_spending),
+        0
+    );
+    const initialLoad = loading && !report;
+
+    return (
+        <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+                <SummaryCard
+                    title="Total Spending"
+                    icon={WalletIcon}
+                    loading={initialLoad}
+                    value={formatCurrency(totalSpending)}
+                    hint={`Across ${analysis?.months_analyzed ?? report?.trends.length ?? 0} months with expenses`}
+                />
+                <SummaryCard
+                    title="Average Monthly Change"
+                    icon={
+                        analysis?.trend_direction === 'decreasing'
+                            ? TrendingDownIcon
+                            : TrendingUpIcon
+                    }
+                    loading={initialLoad}
+                    value={
+                        analysis?.trend_direction === 'insufficient_data'
+                            ? '—'
+                            : `${toNumber(analysis?.average_change) > 0 ? '+' : ''}${formatPercent(analysis?.average_change)}`
+                    }
+                    valueClassName={
+                        analysis?.trend_direction === 'increasing'
+                            ? 'text-red-600'
+                            : analysis?.trend_direction === 'decreasing'
+                              ? 'text-green-600'
+                              : undefined
+                    }
+                    hint={
+                        analysis?.trend_direction === 'insufficient_data'
+                            ? 'Needs at least two months of expenses'
+                            : `Spending is ${analysis?.trend_direction ?? '…'}`
+                    }
+                />
+                <SummaryCard
+                    title="Volatility"
+                    icon={ActivityIcon}
+                    loading={initialLoad}
+                    value={formatPercent(analysis?.volatility)}
+                    hint="Standard deviation of the monthly change"
+                />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Spending by Category</CardTitle>
+                    <CardDescription>
+                        Monthly expenses for your top {TREND_CATEGORY_LIMIT} categories
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {initialLoad ? (
+                        <Skeleton className="h-[300px] w-full" />
+                    ) : (
+                        <ChartContainer
+                            config={chartConfig}
+                            className="aspect-auto h-[300px] w-full"
+                        >
+                            <BarChart data={chartData}>
+                                <CartesianGrid vertical={false} />
+                                <XAxis
+                                    dataKey="month"
+                                    tickLine={false}
+                                    axisLine={false}
+                                    tickMargin={8}
+                                />
+                                <YAxis
+                                    tickLine={false}
+                                    axisLine={false}
+                                    width={80}
+                                    tickFormatter={compactNumber}
+                                />
+                                <ChartTooltip
+                                    cursor={false}
+                                    content={<CurrencyTooltip config={chartConfig} />}
+                                />
+                                {seriesKeys.map((key) => (
+                                    <Bar
+                                        key={key}
+                                        dataKey={key}
+                                        stackId="spending"
+                                        fill={`var(--color-${key})`}
+                                    />
+                                ))}
+                                <ChartLegend content={<ChartLegendContent />} />
+                            </BarChart>
+                        </ChartContainer>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+function PredictionsTab({ range }: TabProps) {
+    const [monthsAhead, setMonthsAhead] = React.useState('3');
+
+    const { data: actuals, loading: actualsLoading } = useApi<IncomeVsExpensesReport>(
+        '/analytics/income-vs-expenses',
+        { start_date: range.start, end_date: range.end, group_by: 'month' }
+    );
+    const { data: forecast, loading, error } = useApi<ExpensePredictions>(
+        '/analytics/predictions',
+        { months_ahead: Number(monthsAhead) }
+    );
+
+    // Actual expenses for the range followed by the forecast; the last actual
+    // month also starts the predicted line so the two connect
+    const chartData = React.useMemo(() => {
+        const totals = new Map((actuals?.data ?? []).map((point) => [point.period, point]));
+        const history = monthsInRange(range).map((month) => ({
+            key: month.key,
+            month: month.label,
+            actual: toNumber(totals.get(month.key)?.expenses) as number | null,
+            predicted: null as number | null,
+            band: null as [number, number] | null,
+        }));
+        const last = history[history.length - 1];
+        if (last) {
+            last.predicted = last.actual;
+        }
+
+        const predictions = (forecast?.predictions ?? []).map((prediction) => ({
+            key: prediction.month,
+            month: format(parseISO(`${prediction.month}-01`), 'MMM yy'),
+            actual: null,
+            predicted: prediction.predicted_amount,
+            band: [
+                prediction.confidence_interval.lower,
+                prediction.confidence_interval.upper,
+            ] as [number, number],
+        }));
+
+        return [...history.filter((point) => !predictions.some((p) => p.key === point.key)), ...predictions];
+    }, [actuals, forecast, range]);
+
+    const next = forecast?.predictions[0];
+    const initialLoad = (loading && !forecast) || (actualsLoading && !actuals);
+
+    return (
+        <div className="space-y-4">
+            <SpendingForecastPanel />
+
+            <div className="grid gap-4 md:grid-cols-3">
+                <SummaryCard
+                    title="Next Month"
+                    icon={TrendingUpIcon}
+                    loading={loading && !forecast}
+                    value={formatCurrency(next?.predicted_amount)}
+                    hint={
+                        next
+                            ? `${formatCurrency(next.confidence_interval.lower)} – ${formatCurrency(next.confidence_interval.upper)}`
+                            : 'Not enough history yet'
+                    }
+                />
+                <SummaryCard
+                    title="Monthly Average"
+                    icon={WalletIcon}
+                    loading={loading && !forecast}
+                    value={formatCurrency(forecast?.based_on.average_monthly_expense)}
+                    hint={`Over the last ${forecast?.based_on.historical_months ?? 12} months`}
+                />
+                <SummaryCard
+                    title="Variability"
+                    icon={ActivityIcon}
+                    loading={loading && !forecast}
+                    value={formatCurrency(forecast?.based_on.standard_deviation)}
+                    hint="Standard deviation of monthly expenses"
+                />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div className="space-y-1.5">
+                        <CardTitle>Expense Forecast</CardTitle>
+                        <CardDescription>
+                            Actual expenses in the range and the predicted months ahead
+                        </CardDescription>
+                    </div>
+                    <Select value={monthsAhead} onValueChange={setMonthsAhead}>
+                        <SelectTrigger className="w-36" size="sm">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {['3', '6', '12'].map((value) => (
+                                <SelectItem key={value} value={value}>
+                                    Next {value} months
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </CardHeader>
+                <CardContent>
+                    {initialLoad ? (
+                        <Skeleton className="h-[300px] w-full" />
+                    ) : (
+                        <ChartContainer
+                            config={predictionsConfig}
+                            className="aspect-auto h-[300px] w-full"
+                        >
+                            <ComposedChart data={chartData}>
+                                <CartesianGrid vertical={false} />
+                                <XAxis
+                                    dataKey="month"
+                                    tickLine={false}
+                                    axisLine={false}
+                                    tickMargin={8}
+                                />
+                                <YAxis
+                                    tickLine={false}
+                                    axisLine={false}
+                                    width={80}
+                                    tickFormatter={compactNumber}
+                                />
+                                <ChartTooltip
+                                    cursor={false}
+                                    content={<CurrencyTooltip config={predictionsConfig} />}
+                                />
+                                <Area
+                                    dataKey="band"
+                                    type="monotone"
+                                    fill="var(--color-band)"
+                                    fillOpacity={0.15}
+                                    stroke="none"
+                                />
+                                <Line
+                                    dataKey="actual"
+                                    type="monotone"
+                                    stroke="var(--color-actual)"
+                                    strokeWidth={2}
+                                    dot={{ r: 3 }}
+                                />
+                                <Line
+                                    dataKey="predicted"
+                                    type="monotone"
+                                    stroke="var(--color-predicted)"
+                                    strokeDasharray="4 4"
+                                    strokeWidth={2}
+                                    dot={{ r: 3 }}
+                                />
+                                <ChartLegend content={<ChartLegendContent />} />
+                            </ComposedChart>
+                        </ChartContainer>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+function HealthScoreTab() {
+    const { data: health, loading, error } = useApi<HealthScore>('/analytics/health-score');
+
+    if (loading && !health) {
+        return (
+            <div className="grid gap-4 lg:grid-cols-3">
+                <Skeleton className="h-[280px] w-full" />
+                <Skeleton className="h-[280px] w-full lg:col-span-2" />
+            </div>
+        );
+    }
+
+    if (error || !health) {
+        return <p className="text-sm text-destructive">{error}</p>;
+    }
+
+    // Weakest areas first so the most useful suggestions lead
+    const components = [...healthComponentOrder].sort((a, b) => {
+        const left = health.components[a];
+        const right = health.components[b];
+        if (left.applicable !== right.applicable) {
+            return left.applicable ? -1 : 1;
+        }
+        return left.score / left.max_score - right.score / right.max_score;
+    });
+
+    return (
+        <div className="grid gap-4 lg:grid-cols-3">
+            <Card>
+                <CardHeader>
+                    <CardTitle>Financial Health</CardTitle>
+                    <CardDescription>
+                        The 30 days up to {formatDate(health.as_of)}. The date range above does not
+                        apply here.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="flex flex-col items-center gap-3">
+                    <ProgressRing
+                        value={health.overall_score}
+                        size={160}
+                        strokeWidth={12}
+                        color={healthScoreColor(health.overall_score)}
+                    >
+                        <div className="text-center">
+                            <div className="text-4xl font-bold">{health.overall_score}</div>
+                            <div className="text-xs text-muted-foreground">of {health.max_score}</div>
+                        </div>
+                    </ProgressRing>
+                    <Badge variant="outline" className="text-base">
+                        Grade {health.grade}
+                    </Badge>
+                    <ScoreChange change={health.score_change} />
+                    <p className="text-center text-xs text-muted-foreground">
+                        {health.previous_score} a month ago
+                    </p>
+                </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <HeartPulseIcon className="h-4 w-4" />
+                        Score Breakdown
+                    </CardTitle>
+                    <CardDescription>
+                        Areas without data, such as having no budgets, are left out of the total
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                    {components.map((key) => (
+                        <HealthComponentRow key={key} component={health.components[key]} />
+                    ))}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+function HealthComponentRow({ component }: { component: HealthScoreComponent }) {
+    const percentage = (component.score / component.max_score) * 100;
+
+    return (
+        <div
+            className={cn(
+                'space-y-2 rounded-lg border p-3',
+                !component.applicable && 'bg-muted/40'
+            )}
+        >
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                    <span className="font-medium">{component.label}</span>
+                    <Badge variant="secondary" className="tabular-nums">
+                        {formatHealthValue(component.value, component.unit)}
+                    </Badge>
+                </div>
+                <div className="flex items-center gap-3">
+                    {component.applicable && <ScoreChange change={component.score_change} />}
+                    <span className="text-sm font-medium tabular-nums">
+                        {component.applicable
+                            ? `${component.score.toFixed(1)} / ${component.max_score}`
+                            : 'Not scored'}
+                    </span>
+                </div>
+            </div>
+            <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                <div
+                    className={cn('h-full rounded-full', healthStatusColors[component.status])}
+                    style={{ width: `${Math.min(100, percentage)}%` }}
+                />
+            </div>
+            <p className="flex items-start gap-2 text-sm text-muted-foreground">
+                <LightbulbIcon className="mt-0.5 h-4 w-4 shrink-0" />
+                {component.suggestion}
+            </p>
+        </div>
+    );
+}
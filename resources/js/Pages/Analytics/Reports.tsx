@@ -0,0 +1,1057 @@
+// resources/js/Pages/Analytics/Reports.tsx
+
+import * as React from 'react';
+import { Head, Link } from '@inertiajs/react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import {
+    type ChartConfig,
+    ChartContainer,
+    ChartLegend,
+    ChartLegendContent,
+    ChartTooltip,
+    ChartTooltipContent,
+} from '@/components/ui/chart';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+    DropdownMenu,
+    DropdownMenuCheckboxItem,
+    DropdownMenuContent,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableFooter,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+    ArrowLeftIcon,
+    BarChart3Icon,
+    ChevronDownIcon,
+    FilePlusIcon,
+    LineChartIcon,
+    Loader2Icon,
+    PlayIcon,
+    SaveIcon,
+    TableIcon,
+    Trash2Icon,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage, type ApiResponse } from '@/lib/api';
+import { formatCurrency, formatDate } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import {
+    DateRangePicker,
+    dateRangePresets,
+    findDateRangePreset,
+    getPresetRange,
+    type DateRangePreset,
+} from '@/components/date-range-picker';
+import { SaveReportDialog } from '@/components/save-report-dialog';
+import type { Account } from '@/types/account';
+import type { Category } from '@/types/category';
+import type {
+    AggregateReport,
+    CustomReport,
+    DateRange,
+    ReportDefinition,
+    ReportDimension,
+    ReportFilters,
+    ReportMetric,
+    ReportView,
+    SavedReport,
+} from '@/types/analytics';
+
+const reportRangePresets: { value: DateRangePreset; label: string }[] = [
+    { value: 'last_month', label: 'Last month' },
+    ...dateRangePresets,
+];
+
+const metricOptions: { value: ReportMetric; label: string }[] = [
+    { value: 'sum', label: 'Total amount' },
+    { value: 'count', label: 'Transactions' },
+    { value: 'average', label: 'Average amount' },
+];
+
+const dimensionOptions: { value: ReportDimension; label: string }[] = [
+    { value: 'category', label: 'Category' },
+    { value: 'account', label: 'Account' },
+    { value: 'type', label: 'Type' },
+    { value: 'month', label: 'Month' },
+    { value: 'tag', label: 'Tag' },
+];
+
+const typeOptions: { value: ReportFilters['types'][number]; label: string }[] = [
+    { value: 'income', label: 'Income' },
+    { value: 'expense', label: 'Expense' },
+    { value: 'transfer', label: 'Transfer' },
+];
+
+const defaultDefinition: ReportDefinition = {
+    metrics: ['sum', 'count'],
+    dimensions: ['category'],
+    filters: {
+        types: ['expense'],
+        category_ids: [],
+        account_ids: [],
+        tags: [],
+        min_amount: null,
+        max_amount: null,
+    },
+    date_preset: 'last_month',
+    start_date: null,
+    end_date: null,
+    view: 'table',
+};
+
+// Chart series past this are folded into "Other"
+const MAX_SERIES = 6;
+
+function metricLabel(metric: ReportMetric): string {
+    return metricOptions.find((option) => option.value === metric)?.label ?? metric;
+}
+
+function dimensionLabel(dimension: ReportDimension): string {
+    return dimensionOptions.find((option) => option.value === dimension)?.label ?? dimension;
+}
+
+function formatMetric(metric: ReportMetric, value: number | undefined): string {
+    return metric === 'count' ? String(value ?? 0) : formatCurrency(value ?? 0);
+}
+
+function formatDimensionValue(dimension: ReportDimension, value: string | undefined): string {
+    if (value === undefined) {
+        return '—';
+    }
+    if (dimension === 'month') {
+        return formatDate(`${value}-01`, 'MMM yyyy');
+    }
+    if (dimension === 'type') {
+        return value.charAt(0).toUpperCase() + value.slice(1);
+    }
+    return value;
+}
+
+function toggleValue<T>(values: T[], value: T, checked: boolean): T[] {
+    return checked ? [...values, value] : values.filter((existing) => existing !== value);
+}
+
+function parseTags(text: string): string[] {
+    return Array.from(
+        new Set(
+            text
+                .split(',')
+                .map((tag) => tag.trim())
+                .filter(Boolean)
+        )
+    );
+}
+
+function getDefinitionRange(definition: ReportDefinition): DateRange {
+    if (definition.date_preset) {
+        return getPresetRange(definition.date_preset);
+    }
+    if (definition.start_date && definition.end_date) {
+        return { start: definition.start_date, end: definition.end_date };
+    }
+    return getPresetRange('last_month');
+}
+
+interface ChartSeries {
+    key: string;
+    label: string;
+}
+
+/**
+ * Pivot the rows for charting. Months (or else the first dimension) run
+ * along the x-axis and the other dimension becomes one series per value.
+ */
+function getChartData(
+    report: AggregateReport,
+    metric: ReportMetric
+): { data: Record<string, string | number>[]; series: ChartSeries[] } {
+    const [first, second] = report.dimensions;
+    const xDimension = second === 'month' ? second : first;
+    const seriesDimension = second === 'month' ? first : second;
+
+    if (!xDimension) {
+        return {
+            data: [{ label: 'All transactions', s0: report.totals[metric] ?? 0 }],
+            series: [{ key: 's0', label: metricLabel(metric) }],
+        };
+    }
+
+    if (!seriesDimension) {
+        return {
+            data: report.rows.map((row) => ({
+                label: formatDimensionValue(xDimension, row[xDimension]),
+                s0: row[metric] ?? 0,
+            })),
+            series: [{ key: 's0', label: metricLabel(metric) }],
+        };
+    }
+
+    const seriesTotals = new Map<string, number>();
+    report.rows.forEach((row) => {
+        const value = row[seriesDimension] ?? '';
+        seriesTotals.set(value, (seriesTotals.get(value) ?? 0) + (row[metric] ?? 0));
+    });
+    const ranked = [...seriesTotals.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([value]) => value);
+    const shown = ranked.slice(0, MAX_SERIES);
+    // Averages can't be added together, so the smaller series are left out instead
+    const hasOther = metric !== 'average' && ranked.length > MAX_SERIES;
+
+    const series = shown.map((value, index) => ({
+        key: `s${index}`,
+        label: formatDimensionValue(seriesDimension, value),
+    }));
+    if (hasOther) {
+        series.push({ key: 'other', label: 'Other' });
+    }
+
+    const points = new Map<string, Record<string, string | number>>();
+    report.rows.forEach((row) => {
+        const x = row[xDimension] ?? '';
+        const point =
+            points.get(x) ??
+            Object.fromEntries([
+                ['label', formatDimensionValue(xDimension, x)],
+                ...series.map((s) => [s.key, 0]),
+            ]);
+        const index = shown.indexOf(row[seriesDimension] ?? '');
+        if (index !== -1 || hasOther) {
+            const key = index === -1 ? 'other' : `s${index}`;
+            point[key] = (point[key] as number) + (row[metric] ?? 0);
+        }
+        points.set(x, point);
+    });
+
+    return { data: [...points.values()], series };
+}
+
+export default function ReportBuilderPage() {
+    const { toast } = useToast();
+    const [definition, setDefinition] = React.useState<ReportDefinition>(defaultDefinition);
+    const [range, setRange] = React.useState<DateRange>(() => getPresetRange('last_month'));
+    const [tagsText, setTagsText] = React.useState('');
+    const [activeReport, setActiveReport] = React.useState<SavedReport | null>(null);
+    const [report, setReport] = React.useState<AggregateReport | null>(null);
+    const [isRunning, setIsRunning] = React.useState(false);
+    const [saveMode, setSaveMode] = React.useState<'new' | 'update' | null>(null);
+    const [isSaving, setIsSaving] = React.useState(false);
+    const [deletingReport, setDeletingReport] = React.useState<SavedReport | null>(null);
+    const [isDeleting, setIsDeleting] = React.useState(false);
+
+    const {
+        data: savedReports,
+        loading: savedLoading,
+        error: savedError,
+        reload: reloadSaved,
+    } = useApi<SavedReport[]>('/analytics/saved-reports');
+    const { data: accounts } = useApi<Account[]>('/accounts');
+    const { data: categories } = useApi<Category[]>('/categories', { is_active: 1 });
+
+    const updateFilters = (changes: Partial<ReportFilters>) => {
+        setDefinition((current) => ({
+            ...current,
+            filters: { ...current.filters, ...changes },
+        }));
+    };
+
+    const setDimension = (index: number, value: string) => {
+        setDefinition((current) => {
+            const dimensions = [...current.dimensions];
+            if (value === 'none') {
+                dimensions.splice(index);
+            } else {
+                dimensions[index] = value as ReportDimension;
+            }
+            // The second grouping can't repeat the first
+            return { ...current, dimensions: dimensions.filter((d, i) => dimensions.indexOf(d) === i) };
+        });
+    };
+
+    // A range that matches a preset is kept as the preset, so a saved report
+    // covers the latest period whenever it is run again
+    const buildDefinition = (): ReportDefinition => {
+        const preset = findDateRangePreset(range, reportRangePresets);
+
+        return {
+            ...definition,
+            filters: { ...definition.filters, tags: parseTags(tagsText) },
+            date_preset: preset,
+            start_date: preset ? null : range.start,
+            end_date: preset ? null : range.end,
+        };
+    };
+
+    const runReport = async (next: ReportDefinition) => {
+        setIsRunning(true);
+        try {
+            const response = await api.post<ApiResponse<CustomReport<AggregateReport>>>(
+                '/analytics/custom-report',
+                { ...next, report_type: 'aggregate' }
+            );
+            setReport(response.data.data.data);
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to run report'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const loadReport = (saved: SavedReport) => {
+        setActiveReport(saved);
+        setDefinition(saved.definition);
+        setTagsText(saved.definition.filters.tags.join(', '));
+        setRange(getDefinitionRange(saved.definition));
+        runReport(saved.definition);
+    };
+
+    const startNewReport = () => {
+        setActiveReport(null);
+        setDefinition(defaultDefinition);
+        setTagsText('');
+        setRange(getPresetRange('last_month'));
+        setReport(null);
+    };
+
+    const saveReport = async (name: string) => {
+        setIsSaving(true);
+        try {
+            const payload = { name, definition: buildDefinition() };
+            const response =
+                saveMode === 'update' && activeReport
+                    ? await api.put<ApiResponse<SavedReport>>(
+                          `/analytics/saved-reports/${activeReport.id}`,
+                          payload
+                      )
+                    : await api.post<ApiResponse<SavedReport>>('/analytics/saved-reports', payload);
+            setActiveReport(response.data.data);
+            setSaveMode(null);
+            reloadSaved();
+            toast({
+                title: 'Success',
+                description: response.data.message ?? 'Report saved successfully',
+            });
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to save report'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const confirmDelete = async () => {
+        if (!deletingReport) return;
+
+        setIsDeleting(true);
+        try {
+            await api.delete(`/analytics/saved-reports/${deletingReport.id}`);
+            if (activeReport?.id === deletingReport.id) {
+                setActiveReport(null);
+            }
+            setDeletingReport(null);
+            reloadSaved();
+            toast({
+                title: 'Success',
+                description: 'Report deleted successfully',
+            });
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to delete report'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    const { filters } = definition;
+    const canRun = definition.metrics.length > 0 && !isRunning;
+
+    return (
+        <>
+            <Head title="Report Builder" />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+                                {/* Header Section */}
+                                <div className="flex flex-wrap items-center justify-between gap-4">
+                                    <div className="flex items-center gap-4">
+                                        <Link href="/analytics">
+                                            <Button variant="outline" size="icon">
+                                                <ArrowLeftIcon className="h-4 w-4" />
+                                            </Button>
+                                        </Link>
+                                        <div>
+                                            <h1 className="text-3xl font-bold">
+                                                {activeReport?.name ?? 'Report Builder'}
+                                            </h1>
+                                            <p className="text-muted-foreground">
+                                                Group and total your transactions, then save the
+                                                report to run again later
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <div className="flex flex-wrap gap-2">
+                                        <Button variant="outline" size="sm" onClick={startNewReport}>
+                                            <FilePlusIcon />
+                                            New
+                                        </Button>
+                                        {activeReport && (
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => setSaveMode('update')}
+                                                disabled={definition.metrics.length === 0}
+                                            >
+                                                <SaveIcon />
+                                                Save Changes
+                                            </Button>
+                                        )}
+                                        <Button
+                                            size="sm"
+                                            onClick={() => setSaveMode('new')}
+                                            disabled={definition.metrics.length === 0}
+                                        >
+                                            <SaveIcon />
+                                            {activeReport ? 'Save as New' : 'Save Report'}
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                <div className="grid gap-4 lg:grid-cols-[22rem_1fr]">
+                                    <div className="flex flex-col gap-4">
+                                        {/* Saved Reports */}
+                                        <Card>
+                                            <CardHeader>
+                                                <CardTitle>Saved Reports</CardTitle>
+                                                <CardDescription>
+                                                    Pick one to load and run it
+                                                </CardDescription>
+                                            </CardHeader>
+                                            <CardContent>
+                                                {savedLoading && !savedReports ? (
+                                                    <div className="space-y-2">
+                                                        {Array.from({ length: 3 }).map((_, index) => (
+                                                            <Skeleton key={index} className="h-9 w-full" />
+                                                        ))}
+                                                    </div>
+                                                ) : savedError ? (
+                                                    <p className="text-sm text-destructive">{savedError}</p>
+                                                ) : (savedReports ?? []).length === 0 ? (
+                                                    <p className="text-sm text-muted-foreground">
+                                                        No saved reports yet.
+                                                    </p>
+                                                ) : (
+                                                    <div className="space-y-1">
+                                                        {(savedReports ?? []).map((saved) => (
+                                                            <div
+                                                                key={saved.id}
+                                                                className={cn(
+                                                                    'flex items-center gap-1 rounded-md',
+                                                                    activeReport?.id === saved.id && 'bg-muted'
+                                                                )}
+                                                            >
+                                                                <Button
+                                                                    variant="ghost"
+                                                                    size="sm"
+                                                                    className="flex-1 justify-start truncate"
+                                                                    onClick={() => loadReport(saved)}
+                                                                >
+                                                                    <PlayIcon />
+                                                                    {saved.name}
+                                                                </Button>
+                                                                <Button
+                                                                    variant="ghost"
+                                                                    size="icon"
+                                                                    className="h-8 w-8 text-muted-foreground"
+                                                                    onClick={() => setDeletingReport(saved)}
+                                                                >
+                                                                    <Trash2Icon className="h-4 w-4" />
+                                                                    <span className="sr-only">
+                                                                        Delete {saved.name}
+                                                                    </span>
+                                                                </Button>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </CardContent>
+                                        </Card>
+
+                                        {/* Definition */}
+                                        <Card>
+                                            <CardHeader>
+                                                <CardTitle>Definition</CardTitle>
+                                                <CardDescription>
+                                                    What to measure and how to group it
+                                                </CardDescription>
+                                            </CardHeader>
+                                            <CardContent className="space-y-5">
+                                                <div className="space-y-2">
+                                                    <Label>Metrics</Label>
+                                                    {metricOptions.map((option) => (
+                                                        <div key={option.value} className="flex items-center gap-2">
+                                                            <Checkbox
+                                                                id={`metric_${option.value}`}
+                                                                checked={definition.metrics.includes(option.value)}
+                                                                onCheckedChange={(checked) =>
+                                                                    setDefinition((current) => ({
+                                                                        ...current,
+                                                                        metrics: metricOptions
+                                                                            .map((o) => o.value)
+                                                                            .filter((value) =>
+                                                                                value === option.value
+                                                                                    ? !!checked
+                                                                                    : current.metrics.includes(value)
+                                                                            ),
+                                                                    }))
+                                                                }
+                                                            />
+                                                            <Label
+                                                                htmlFor={`metric_${option.value}`}
+                                                                className="font-normal"
+                                                            >
+                                                                {option.label}
+                                                            </Label>
+                                                        </div>
+                                                    ))}
+                                                </div>
+
+                                                <div className="grid grid-cols-2 gap-2">
+                                                    <div className="space-y-2">
+                                                        <Label>Group by</Label>
+                                                        <DimensionSelect
+                                                            value={definition.dimensions[0]}
+                                                            onChange={(value) => setDimension(0, value)}
+                                                        />
+                                                    </div>
+                                                    <div className="space-y-2">
+                                                        <Label>Then by</Label>
+                                                        <DimensionSelect
+                                                            value={definition.dimensions[1]}
+                                                            exclude={definition.dimensions[0]}
+                                                            disabled={definition.dimensions.length === 0}
+                                                            onChange={(value) => setDimension(1, value)}
+                                                        />
+                                                    </div>
+                                                </div>
+
+                                                <div className="space-y-2">
+                                                    <Label>Date range</Label>
+                                                    <DateRangePicker
+                                                        value={range}
+                                                        onChange={setRange}
+                                                        presets={reportRangePresets}
+                                                    />
+                                                </div>
+
+                                                <div className="space-y-2">
+                                                    <Label>Transaction types</Label>
+                                                    <ToggleGroup
+                                                        type="multiple"
+                                                        value={filters.types}
+                                                        onValueChange={(types) =>
+                                                            updateFilters({
+                                                                types: types as ReportFilters['types'],
+                                                            })
+                                                        }
+                                                        variant="outline"
+                                                        className="w-full"
+                                                    >
+                                                        {typeOptions.map((option) => (
+                                                            <ToggleGroupItem
+                                                                key={option.value}
+                                                                value={option.value}
+                                                                className="h-8 flex-1"
+                                                            >
+                                                                {option.label}
+                                                            </ToggleGroupItem>
+                                                        ))}
+                                                    </ToggleGroup>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        None selected includes every type.
+                                                    </p>
+                                                </div>
+
+                                                <div className="grid grid-cols-2 gap-2">
+                                                    <MultiSelectFilter
+                                                        label="Accounts"
+                                                        options={(accounts ?? []).map((account) => ({
+                                                            id: account.id,
+                                                            name: account.name,
+                                                        }))}
+                                                        selected={filters.account_ids}
+                                                        onChange={(ids) => updateFilters({ account_ids: ids })}
+                                                    />
+                                                    <MultiSelectFilter
+                                                        label="Categories"
+                                                        options={(categories ?? []).map((category) => ({
+                                                            id: category.id,
+                                                            name: category.name,
+                                                        }))}
+                                                        selected={filters.category_ids}
+                                                        onChange={(ids) => updateFilters({ category_ids: ids })}
+                                                    />
+                                                </div>
+
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="report_tags">Tags</Label>
+                                                    <Input
+                                                        id="report_tags"
+                                                        value={tagsText}
+                                                        placeholder="e.g. travel, work"
+                                                        onChange={(e) => setTagsText(e.target.value)}
+                                                    />
+                                                    <p className="text-xs text-muted-foreground">
+                                                        Comma separated; matches any of them.
+                                                    </p>
+                                                </div>
+
+                                                <div className="grid grid-cols-2 gap-2">
+                                                    <div className="space-y-2">
+                                                        <Label htmlFor="report_min_amount">Min amount</Label>
+                                                        <Input
+                                                            id="report_min_amount"
+                                                            type="number"
+                                                            min="0"
+                                                            step="0.01"
+                                                            value={filters.min_amount ?? ''}
+                                                            onChange={(e) =>
+                                                                updateFilters({
+                                                                    min_amount:
+                                                                        e.target.value === ''
+                                                                            ? null
+                                                                            : Number(e.target.value),
+                                                                })
+                                                            }
+                                                        />
+                                                    </div>
+                                                    <div className="space-y-2">
+                                                        <Label htmlFor="report_max_amount">Max amount</Label>
+                                                        <Input
+                                                            id="report_max_amount"
+                                                            type="number"
+                                                            min="0"
+                                                            step="0.01"
+                                                            value={filters.max_amount ?? ''}
+                                                            onChange={(e) =>
+                                                                updateFilters({
+                                                                    max_amount:
+                                                                        e.target.value === ''
+                                                                            ? null
+                                                                            : Number(e.target.value),
+                                                                })
+                                                            }
+                                                        />
+                                                    </div>
+                                                </div>
+
+                                                <Button
+                                                    className="w-full"
+                                                    onClick={() => runReport(buildDefinition())}
+                                                    disabled={!canRun}
+                                                >
+                                                    {isRunning ? (
+                                                        <Loader2Icon className="animate-spin" />
+                                                    ) : (
+                                                        <PlayIcon />
+                                                    )}
+                                                    Run Report
+                                                </Button>
+                                            </CardContent>
+                                        </Card>
+                                    </div>
+
+                                    {/* Result */}
+                                    <ReportResult
+                                        report={report}
+                                        loading={isRunning}
+                                        view={definition.view}
+                                        onViewChange={(view) =>
+                                            setDefinition((current) => ({ ...current, view }))
+                                        }
+                                    />
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+
+            <SaveReportDialog
+                open={saveMode !== null}
+                onOpenChange={(open) => !open && setSaveMode(null)}
+                defaultName={saveMode === 'update' ? activeReport?.name : ''}
+                onSubmit={saveReport}
+                isSubmitting={isSaving}
+            />
+
+            <AlertDialog
+                open={deletingReport !== null}
+                onOpenChange={(open) => !open && setDeletingReport(null)}
+            >
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Report</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            "{deletingReport?.name}" will be removed from your saved reports.
+                            Your transactions are not affected.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={(e) => {
+                                e.preventDefault();
+                                confirmDelete();
+                            }}
+                            disabled={isDeleting}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                            {isDeleting && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                            Delete Report
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </>
+    );
+}
+
+interface DimensionSelectProps {
+    value: ReportDimension | undefined;
+    exclude?: ReportDimension;
+    disabled?: boolean;
+    onChange: (value: string) => void;
+}
+
+function DimensionSelect({ value, exclude, disabled, onChange }: DimensionSelectProps) {
+    return (
+        <Select value={value ?? 'none'} onValueChange={onChange} disabled={disabled}>
+            <SelectTrigger className="w-full" size="sm">
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                {dimensionOptions
+                    .filter((option) => option.value !== exclude)
+                    .map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                        </SelectItem>
+                    ))}
+            </SelectContent>
+        </Select>
+    );
+}
+
+interface MultiSelectFilterProps {
+    label: string;
+    options: { id: number; name: string }[];
+    selected: number[];
+    onChange: (ids: number[]) => void;
+}
+
+function MultiSelectFilter({ label, options, selected, onChange }: MultiSelectFilterProps) {
+    return (
+        <div className="space-y-2">
+            <Label>{label}</Label>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="w-full justify-between font-normal">
+                        {selected.length === 0 ? 'All' : `${selected.length} selected`}
+                        <ChevronDownIcon className="text-muted-foreground" />
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="max-h-72 w-56 overflow-y-auto">
+                    {options.map((option) => (
+                        <DropdownMenuCheckboxItem
+                            key={option.id}
+                            checked={selected.includes(option.id)}
+                            onCheckedChange={(checked) =>
+                                onChange(toggleValue(selected, option.id, !!checked))
+                            }
+                            onSelect={(event) => event.preventDefault()}
+                        >
+                            {option.name}
+                        </DropdownMenuCheckboxItem>
+                    ))}
+                </DropdownMenuContent>
+            </DropdownMenu>
+        </div>
+    );
+}
+
+interface ReportResultProps {
+    report: AggregateReport | null;
+    loading: boolean;
+    view: ReportView;
+    onViewChange: (view: ReportView) => void;
+}
+
+function ReportResult({ report, loading, view, onViewChange }: ReportResultProps) {
+    const [chartMetric, setChartMetric] = React.useState<ReportMetric>('sum');
+    const metric =
+        report && !report.metrics.includes(chartMetric) ? report.metrics[0] : chartMetric;
+
+    return (
+        <Card className="self-start">
+            <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2">
+                <div className="space-y-1.5">
+                    <CardTitle>Result</CardTitle>
+                    <CardDescription>
+                        {report
+                            ? `${formatDate(report.start_date, 'MMM d, yyyy')} – ${formatDate(
+                                  report.end_date,
+                                  'MMM d, yyyy'
+                              )} • ${report.rows.length} ${report.rows.length === 1 ? 'row' : 'rows'}`
+                            : 'Run the report to see the numbers'}
+                    </CardDescription>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    {view !== 'table' && report && report.metrics.length > 1 && (
+                        <Select
+                            value={metric}
+                            onValueChange={(value) => setChartMetric(value as ReportMetric)}
+                        >
+                            <SelectTrigger className="w-40" size="sm">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {report.metrics.map((m) => (
+                                    <SelectItem key={m} value={m}>
+                                        {metricLabel(m)}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    )}
+                    <ToggleGroup
+                        type="single"
+                        value={view}
+                        onValueChange={(value) => value && onViewChange(value as ReportView)}
+                        variant="outline"
+                    >
+                        <ToggleGroupItem value="table" className="h-8 px-2.5" aria-label="Table">
+                            <TableIcon />
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="bar" className="h-8 px-2.5" aria-label="Bar chart">
+                            <BarChart3Icon />
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="line" className="h-8 px-2.5" aria-label="Line chart">
+                            <LineChartIcon />
+                        </ToggleGroupItem>
+                    </ToggleGroup>
+                </div>
+            </CardHeader>
+            <CardContent className={cn(view !== 'table' && 'px-2 sm:px-6')}>
+                {loading && !report ? (
+                    <Skeleton className="h-[320px] w-full" />
+                ) : !report ? (
+                    <p className="py-12 text-center text-sm text-muted-foreground">
+                        Choose your metrics and groupings, then run the report.
+                    </p>
+                ) : report.rows.length === 0 ? (
+                    <p className="py-12 text-center text-sm text-muted-foreground">
+                        No transactions match this report.
+                    </p>
+                ) : view === 'table' ? (
+                    <ReportTable report={report} />
+                ) : (
+                    <ReportChart report={report} metric={metric} view={view} />
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+function ReportTable({ report }: { report: AggregateReport }) {
+    return (
+        <Table>
+            <TableHeader>
+                <TableRow>
+                    {report.dimensions.map((dimension) => (
+                        <TableHead key={dimension}>{dimensionLabel(dimension)}</TableHead>
+                    ))}
+                    {report.metrics.map((metric) => (
+                        <TableHead key={metric} className="text-right">
+                            {metricLabel(metric)}
+                        </TableHead>
+                    ))}
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {report.rows.map((row, index) => (
+                    <TableRow key={index}>
+                        {report.dimensions.map((dimension) => (
+                            <TableCell key={dimension}>
+                                {formatDimensionValue(dimension, row[dimension])}
+                            </TableCell>
+                        ))}
+                        {report.metrics.map((metric) => (
+                            <TableCell key={metric} className="text-right tabular-nums">
+                                {formatMetric(metric, row[metric])}
+                            </TableCell>
+                        ))}
+                    </TableRow>
+                ))}
+            </TableBody>
+            <TableFooter>
+                <TableRow>
+                    {report.dimensions.length > 0 && (
+                        <TableCell colSpan={report.dimensions.length} className="font-medium">
+                            Total
+                        </TableCell>
+                    )}
+                    {report.metrics.map((metric) => (
+                        <TableCell key={metric} className="text-right font-medium tabular-nums">
+                            {formatMetric(metric, report.totals[metric])}
+                        </TableCell>
+                    ))}
+                </TableRow>
+            </TableFooter>
+        </Table>
+    );
+}
+
+interface ReportChartProps {
+    report: AggregateReport;
+    metric: ReportMetric;
+    view: 'bar' | 'line';
+}
+
+function ReportChart({ report, metric, view }: ReportChartProps) {
+    const { data, series } = getChartData(report, metric);
+    const chartConfig = Object.fromEntries(
+        series.map((s, index) => [
+            s.key,
+            {
+                label: s.label,
+                color: s.key === 'other' ? 'var(--muted-foreground)' : `var(--chart-${(index % 5) + 1})`,
+            },
+        ])
+    ) satisfies ChartConfig;
+
+    const axes = (
+        <>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+            <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={80}
+                allowDecimals={metric !== 'count'}
+                tickFormatter={(value) =>
+                    new Intl.NumberFormat('en-PH', {
+                        notation: 'compact',
+                    }).format(value)
+                }
+            />
+            <ChartTooltip
+                content={
+                    <ChartTooltipContent
+                        indicator="dot"
+                        formatter={(value, name) => (
+                            <div className="flex w-full items-center justify-between gap-4">
+                                <span className="text-muted-foreground">
+                                    {chartConfig[name as string]?.label ?? name}
+                                </span>
+                                <span className="font-mono font-medium tabular-nums">
+                                    {formatMetric(metric, value as number)}
+                                </span>
+                            </div>
+                        )}
+                    />
+                }
+            />
+            {series.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+        </>
+    );
+
+    return (
+        <ChartContainer config={chartConfig} className="aspect-auto h-[320px] w-full">
+            {view === 'bar' ? (
+                <BarChart data={data}>
+                    {axes}
+                    {series.map((s, index) => (
+                        <Bar
+                            key={s.key}
+                            dataKey={s.key}
+                            stackId={metric === 'average' ? undefined : 'value'}
+                            fill={`var(--color-${s.key})`}
+                            radius={index === series.length - 1 || metric === 'average' ? [4, 4, 0, 0] : 0}
+                        />
+                    ))}
+                </BarChart>
+            ) : (
+                <LineChart data={data}>
+                    {axes}
+                    {series.map((s) => (
+                        <Line
+                            key={s.key}
+                            dataKey={s.key}
+                            type="monotone"
+                            stroke={`var(--color-${s.key})`}
+                            strokeWidth={2}
+                            dot={{ r: 3 }}
+                        />
+                    ))}
+                </LineChart>
+            )}
+        </ChartContainer>
+    );
+}
@@ -0,0 +1,613 @@
+// resources/js/Pages/Bills.tsx
+
+import { useMemo, useState } from 'react';
+import { Head } from '@inertiajs/react';
+import { addMonths, differenceInCalendarDays, format, subMonths } from 'date-fns';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    AlertCircleIcon,
+    CalendarClockIcon,
+    CheckCircle2Icon,
+    ChevronLeftIcon,
+    ChevronRightIcon,
+    MoreVerticalIcon,
+    PlusIcon,
+    RefreshCwIcon,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage, type ApiResponse } from '@/lib/api';
+import { formatCurrency, formatDate, toDateString, toNumber } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import { BillCalendar, getCalendarRange } from '@/components/bill-calendar';
+import { BillFormModal, type BillFormData } from '@/components/bill-form-modal';
+import { BillPayDialog, type BillPaymentFormData } from '@/components/bill-pay-dialog';
+import { DeleteBillDialog } from '@/components/delete-bill-dialog';
+import type { Account } from '@/types/account';
+import type { Bill, BillCalendarMeta, BillCalendarOccurrence } from '@/types/bill';
+import type { Category } from '@/types/category';
+
+// How far ahead the queue looks
+const QUEUE_DAYS = 30;
+
+interface UpcomingMeta {
+    days_ahead: number;
+    count: number;
+    total_amount: number | string;
+}
+
+export default function Bills() {
+    const { toast } = useToast();
+    const [month, setMonth] = useState(() => new Date());
+    const range = useMemo(() => getCalendarRange(month), [month]);
+
+    const {
+        data: bills,
+        loading,
+        error,
+        reload,
+    } = useApi<Bill[]>('/bills', { per_page: 100, sort_by: 'due_date', sort_order: 'asc' });
+    const {
+        data: queue,
+        loading: queueLoading,
+        reload: reloadQueue,
+    } = useApi<Bill[], UpcomingMeta>('/bills/status/upcoming', {
+        days: QUEUE_DAYS,
+        limit: 100,
+    });
+    const {
+        data: occurrences,
+        meta: calendarMeta,
+        loading: calendarLoading,
+        error: calendarError,
+        reload: reloadCalendar,
+    } = useApi<BillCalendarOccurrence[], BillCalendarMeta>('/bills/status/calendar', {
+        start_date: toDateString(range.start),
+        end_date: toDateString(range.end),
+    });
+    const { data: categories } = useApi<Category[]>('/categories', { type: 'expense' });
+    const { data: accounts } = useApi<Account[]>('/accounts');
+
+    // Modal states
+    const [showFormModal, setShowFormModal] = useState(false);
+    const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+    const [showPayDialog, setShowPayDialog] = useState(false);
+    const [editingBill, setEditingBill] = useState<Bill | null>(null);
+    const [deletingBill, setDeletingBill] = useState<Bill | null>(null);
+    const [payingBill, setPayingBill] = useState<Bill | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const list = bills ?? [];
+    const overdueBills = (queue ?? []).filter((bill) => bill.is_overdue);
+    const dueSoonBills = (queue ?? []).filter((bill) => !bill.is_overdue);
+    const overdueTotal = overdueBills.reduce((sum, bill) => sum + toNumber(bill.amount), 0);
+    const dueSoonTotal = dueSoonBills.reduce((sum, bill) => sum + toNumber(bill.amount), 0);
+
+    const refreshAll = () => {
+        reload();
+        reloadQueue();
+        reloadCalendar();
+    };
+
+    // Handle create - open modal
+    const handleCreate = () => {
+        setEditingBill(null);
+        setShowFormModal(true);
+    };
+
+    // Handle edit - open modal with bill data
+    const handleEdit = (bill: Bill) => {
+        setEditingBill(bill);
+        setShowFormModal(true);
+    };
+
+    // Handle form submit (create or update)
+    const handleFormSubmit = async (data: BillFormData) => {
+        setIsSubmitting(true);
+
+        try {
+            const payload = { ...data, notes: data.notes || null };
+            if (editingBill) {
+                await api.put(`/bills/${editingBill.id}`, payload);
+            } else {
+                await api.post('/bills', payload);
+            }
+
+            toast({
+                title: 'Success',
+                description: editingBill
+                    ? 'Bill updated successfully'
+                    : 'Bill created successfully',
+            });
+            setShowFormModal(false);
+            setEditingBill(null);
+            refreshAll();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(
+                    err,
+                    editingBill ? 'Failed to update bill' : 'Failed to create bill'
+                ),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    // Handle mark paid - open the pay dialog
+    const handleMarkPaid = (bill: Bill) => {
+        setPayingBill(bill);
+        setShowPayDialog(true);
+    };
+
+    const handleSelectOccurrence = (occurrence: BillCalendarOccurrence) => {
+        const bill = list.find((b) => b.id === occurrence.bill_id);
+        if (bill) {
+            handleMarkPaid(bill);
+        }
+    };
+
+    const handlePaySubmit = async (data: BillPaymentFormData) => {
+        if (!payingBill) return;
+
+        setIsSubmitting(true);
+        try {
+            const { data: response } = await api.post<ApiResponse<Bill>>(
+                `/bills/${payingBill.id}/pay`,
+                {
+                    amount: data.amount,
+                    payment_date: data.payment_date,
+                    create_transaction: data.create_transaction,
+                    account_id: data.create_transaction ? data.account_id : null,
+                    notes: data.notes || null,
+                }
+            );
+
+            toast({
+                title: 'Success',
+                description: payingBill.is_recurring
+                    ? `${payingBill.name} paid. Next due ${formatDate(response.data.due_date)}`
+                    : `${payingBill.name} marked as paid`,
+            });
+            setShowPayDialog(false);
+            setPayingBill(null);
+            refreshAll();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to mark bill as paid'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleDuplicate = async (bill: Bill) => {
+        try {
+            await api.post(`/bills/${bill.id}/duplicate`);
+            toast({
+                title: 'Success',
+                description: 'Bill duplicated successfully',
+            });
+            refreshAll();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to duplicate bill'),
+                variant: 'destructive',
+            });
+        }
+    };
+
+    // Handle delete - open confirmation dialog
+    const handleDelete = (bill: Bill) => {
+        setDeletingBill(bill);
+        setShowDeleteDialog(true);
+    };
+
+    // Confirm delete
+    const confirmDelete = async () => {
+        if (!deletingBill) return;
+
+        setIsDeleting(true);
+        try {
+            await api.delete(`/bills/${deletingBill.id}`);
+            toast({
+                title: 'Success',
+                description: 'Bill deleted successfully',
+            });
+            setShowDeleteDialog(false);
+            setDeletingBill(null);
+            refreshAll();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to delete bill'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    const rowActions = {
+        onMarkPaid: handleMarkPaid,
+        onEdit: handleEdit,
+        onDuplicate: handleDuplicate,
+        onDelete: handleDelete,
+    };
+
+    return (
+        <>
+            <Head title="Bills" />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+                                {/* Header Section */}
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <h1 className="text-3xl font-bold">Bills</h1>
+                                        <p className="text-muted-foreground">
+                                            Due dates for your bills and subscriptions
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={refreshAll}
+                                            disabled={loading}
+                                        >
+                                            <RefreshCwIcon
+                                                className={loading ? 'animate-spin' : ''}
+                                            />
+                                            Refresh
+                                        </Button>
+                                        <Button size="sm" onClick={handleCreate}>
+                                            <PlusIcon />
+                                            Add Bill
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {/* Summary Cards */}
+                                <div className="grid gap-4 md:grid-cols-3">
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Overdue
+                                            </CardTitle>
+                                            <AlertCircleIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div
+                                                className={cn(
+                                                    'text-2xl font-bold',
+                                                    overdueBills.length > 0 && 'text-red-600'
+                                                )}
+                                            >
+                                                {formatCurrency(overdueTotal)}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {overdueBills.length} bills past their due date
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Due in {QUEUE_DAYS} Days
+                                            </CardTitle>
+                                            <CalendarClockIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">
+                                                {formatCurrency(dueSoonTotal)}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {dueSoonBills.length} bills coming up
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Paid in {format(month, 'MMMM')}
+                                            </CardTitle>
+                                            <CheckCircle2Icon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">
+                                                {formatCurrency(calendarMeta?.paid_amount)}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {formatCurrency(calendarMeta?.upcoming_amount)} still
+                                                to pay on the calendar
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                </div>
+
+                                {error && (
+                                    <p className="text-sm text-destructive">{error}</p>
+                                )}
+
+                                <div className="grid gap-4 lg:grid-cols-3">
+                                    {/* Month Calendar */}
+                                    <Card className="lg:col-span-2">
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                                            <div className="space-y-1.5">
+                                                <CardTitle>{format(month, 'MMMM yyyy')}</CardTitle>
+                                                <CardDescription>
+                                                    Click an unpaid bill to mark it as paid
+                                                </CardDescription>
+                                            </div>
+                                            <div className="flex gap-1">
+                                                <Button
+                                                    variant="outline"
+                                                    size="icon"
+                                                    className="h-8 w-8"
+                                                    onClick={() => setMonth((m) => subMonths(m, 1))}
+                                                >
+                                                    <ChevronLeftIcon />
+                                                    <span className="sr-only">Previous month</span>
+                                                </Button>
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() => setMonth(new Date())}
+                                                >
+                                                    Today
+                                                </Button>
+                                                <Button
+                                                    variant="outline"
+                                                    size="icon"
+                                                    className="h-8 w-8"
+                                                    onClick={() => setMonth((m) => addMonths(m, 1))}
+                                                >
+                                                    <ChevronRightIcon />
+                                                    <span className="sr-only">Next month</span>
+                                                </Button>
+                                            </div>
+                                        </CardHeader>
+                                        <CardContent>
+                                            {calendarError && (
+                                                <p className="mb-2 text-sm text-destructive">
+                                                    {calendarError}
+                                                </p>
+                                            )}
+                                            {calendarLoading && !occurrences ? (
+                                                <Skeleton className="h-[480px] w-full" />
+                                            ) : (
+                                                <BillCalendar
+                                                    month={month}
+                                                    occurrences={occurrences ?? []}
+                                                    onSelect={handleSelectOccurrence}
+                                                />
+                                            )}
+                                        </CardContent>
+                                    </Card>
+
+                                    {/* Upcoming / Overdue Queue */}
+                                    <Card>
+                                        <CardHeader>
+                                            <CardTitle>Queue</CardTitle>
+                                            <CardDescription>
+                                                Overdue bills and the next {QUEUE_DAYS} days
+                                            </CardDescription>
+                                        </CardHeader>
+                                        <CardContent className="space-y-4">
+                                            {queueLoading && !queue ? (
+                                                Array.from({ length: 4 }).map((_, index) => (
+                                                    <Skeleton key={index} className="h-12 w-full" />
+                                                ))
+                                            ) : overdueBills.length === 0 && dueSoonBills.length === 0 ? (
+                                                <p className="text-sm text-muted-foreground">
+                                                    Nothing due in the next {QUEUE_DAYS} days.
+                                                </p>
+                                            ) : (
+                                                <>
+                                                    {overdueBills.length > 0 && (
+                                                        <div className="space-y-2">
+                                                            <h3 className="text-xs font-medium uppercase text-red-600">
+                                                                Overdue
+                                                            </h3>
+                                                            {overdueBills.map((bill) => (
+                                                                <BillRow key={bill.id} bill={bill} {...rowActions} />
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                    {dueSoonBills.length > 0 && (
+                                                        <div className="space-y-2">
+                                                            <h3 className="text-xs font-medium uppercase text-muted-foreground">
+                                                                Coming up
+                                                            </h3>
+                                                            {dueSoonBills.map((bill) => (
+                                                                <BillRow key={bill.id} bill={bill} {...rowActions} />
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                </>
+                                            )}
+                                        </CardContent>
+                                    </Card>
+                                </div>
+
+                                {/* All Bills */}
+                                <Card>
+                                    <CardHeader>
+                                        <CardTitle>All Bills</CardTitle>
+                                        <CardDescription>
+                                            {list.length} bills and subscriptions
+                                        </CardDescription>
+                                    </CardHeader>
+                                    <CardContent>
+                                        {loading && !bills ? (
+                                            <div className="grid gap-2 md:grid-cols-2">
+                                                {Array.from({ length: 4 }).map((_, index) => (
+                                                    <Skeleton key={index} className="h-12 w-full" />
+                                                ))}
+                                            </div>
+                                        ) : list.length === 0 ? (
+                                            <p className="py-6 text-center text-sm text-muted-foreground">
+                                                No bills yet. Add one to see it on the calendar.
+                                            </p>
+                                        ) : (
+                                            <div className="grid gap-x-6 gap-y-2 md:grid-cols-2">
+                                                {list.map((bill) => (
+                                                    <BillRow key={bill.id} bill={bill} {...rowActions} />
+                                                ))}
+                                            </div>
+                                        )}
+                                    </CardContent>
+                                </Card>
+                            </div>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+
+            {/* Bill Form Modal (Add/Edit) */}
+            <BillFormModal
+                open={showFormModal}
+                onOpenChange={(open) => {
+                    setShowFormModal(open);
+                    if (!open) {
+                        setEditingBill(null);
+                    }
+                }}
+                bill={editingBill}
+                categories={categories ?? []}
+                onSubmit={handleFormSubmit}
+                isSubmitting={isSubmitting}
+            />
+
+            {/* Mark Paid Dialog */}
+            <BillPayDialog
+                open={showPayDialog}
+                onOpenChange={setShowPayDialog}
+                bill={payingBill}
+                accounts={accounts ?? []}
+                onSubmit={handlePaySubmit}
+                isSubmitting={isSubmitting}
+            />
+
+            {/* Delete Confirmation Dialog */}
+            <DeleteBillDialog
+                open={showDeleteDialog}
+                onOpenChange={setShowDeleteDialog}
+                bill={deletingBill}
+                onConfirm={confirmDelete}
+                isDeleting={isDeleting}
+            />
+        </>
+    );
+}
+
+interface BillRowProps {
+    bill: Bill;
+    onMarkPaid: (bill: Bill) => void;
+    onEdit: (bill: Bill) => void;
+    onDuplicate: (bill: Bill) => void;
+    onDelete: (bill: Bill) => void;
+}
+
+function BillRow({ bill, onMarkPaid, onEdit, onDuplicate, onDelete }: BillRowProps) {
+    const days = differenceInCalendarDays(new Date(bill.due_date), new Date());
+    const isPayable = bill.status === 'active' || bill.status === 'overdue';
+    const dueLabel =
+        bill.status === 'paid'
+            ? 'Paid'
+            : bill.status === 'cancelled'
+              ? 'Cancelled'
+              : days < 0
+                ? `${Math.abs(days)}d overdue`
+                : days === 0
+                  ? 'Due today'
+                  : `Due in ${days}d`;
+
+    return (
+        <div
+            className={cn(
+                'flex items-center justify-between gap-2 rounded-lg border p-2',
+                !isPayable && 'opacity-60'
+            )}
+        >
+            <div className="flex min-w-0 items-center gap-3">
+                <span
+                    className="h-8 w-1 shrink-0 rounded-full"
+                    style={{ backgroundColor: bill.color ?? 'var(--muted-foreground)' }}
+                />
+                <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{bill.name}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                        {formatCurrency(bill.amount)} • {formatDate(bill.due_date)} •{' '}
+                        {bill.frequency_label}
+                    </p>
+                </div>
+            </div>
+            <div className="flex shrink-0 items-center gap-1">
+                <Badge
+                    variant={bill.is_overdue ? 'destructive' : 'outline'}
+                    className="hidden sm:inline-flex"
+                >
+                    {dueLabel}
+                </Badge>
+                {isPayable && (
+                    <Button variant="outline" size="sm" onClick={() => onMarkPaid(bill)}>
+                        Mark paid
+                    </Button>
+                )}
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <MoreVerticalIcon />
+                            <span className="sr-only">Open menu</span>
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => onEdit(bill)}>Edit</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onDuplicate(bill)}>
+                            Duplicate
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                            className="text-destructive"
+                            onClick={() => onDelete(bill)}
+                        >
+                            Delete
+                        </DropdownMenuItem>
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            </div>
+        </div>
+    );
+}
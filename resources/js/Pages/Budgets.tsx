@@ -0,0 +1,651 @@
+// resources/js/Pages/Budgets.tsx
+
+import { useState } from 'react';
+import { Head, Link } from '@inertiajs/react';
+import { addDays, parseISO } from 'date-fns';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    AlertTriangleIcon,
+    ChartColumnIcon,
+    MoreVerticalIcon,
+    PercentIcon,
+    PiggyBankIcon,
+    PlusIcon,
+    RefreshCwIcon,
+    TrendingDownIcon,
+    XIcon,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage } from '@/lib/api';
+import { formatCurrency, formatPercent, toDateString, toNumber } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import {
+    BudgetFormModal,
+    budgetPeriodEnd,
+    type BudgetFormData,
+} from '@/components/budget-form-modal';
+import { DeleteBudgetDialog } from '@/components/delete-budget-dialog';
+import { BudgetQuickAdjustDialog } from '@/components/budget-quick-adjust-dialog';
+import { BudgetPeriodNavigator } from '@/components/budget-period-navigator';
+import { SpendingForecastPanel } from '@/components/spending-forecast-panel';
+import type { Budget, BudgetsMeta, BudgetStatusCode } from '@/types/budget';
+import type { Category } from '@/types/category';
+
+const statusColors: Record<BudgetStatusCode, { bar: string; badge: string }> = {
+    under_budget: { bar: 'bg-green-600', badge: 'text-green-600 border-green-600/40' },
+    on_track: { bar: 'bg-green-600', badge: 'text-green-600 border-green-600/40' },
+    near_limit: { bar: 'bg-amber-500', badge: 'text-amber-600 border-amber-500/40' },
+    over_budget: { bar: 'bg-red-600', badge: 'text-red-600 border-red-600/40' },
+};
+
+export default function Budgets() {
+    const { toast } = useToast();
+    const [includeInactive, setIncludeInactive] = useState(false);
+    const {
+        data: budgets,
+        meta,
+        loading,
+        error,
+        reload,
+    } = useApi<Budget[], BudgetsMeta>('/budgets', {
+        include_inactive: includeInactive ? 1 : 0,
+    });
+    const { data: categories } = useApi<Category[]>('/categories', { type: 'expense' });
+    const [periodRefreshKey, setPeriodRefreshKey] = useState(0);
+
+    // Reload the list and the period view after budgets change
+    const refreshAll = () => {
+        reload();
+        setPeriodRefreshKey((key) => key + 1);
+    };
+
+    // Modal states
+    const [showFormModal, setShowFormModal] = useState(false);
+    const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+    const [showQuickAdjust, setShowQuickAdjust] = useState(false);
+    const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+    const [deletingBudget, setDeletingBudget] = useState<Budget | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    // Quick adjust mode
+    const [selectMode, setSelectMode] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+    const list = budgets ?? [];
+    const activeBudgets = list.filter((b) => b.is_active);
+    const selectedBudgets = list.filter((b) => selectedIds.has(b.id));
+    const totalBudgeted = toNumber(meta?.total_budgeted);
+    const totalSpent = toNumber(meta?.total_spent);
+    const overBudgetCount = activeBudgets.filter((b) => b.status.is_over_budget).length;
+    const nearLimitCount = activeBudgets.filter((b) => b.status.is_near_limit).length;
+
+    // Handle create - open modal
+    const handleCreate = () => {
+        setEditingBudget(null);
+        setShowFormModal(true);
+    };
+
+    // Handle edit - open modal with budget data
+    const handleEdit = (budget: Budget) => {
+        setEditingBudget(budget);
+        setShowFormModal(true);
+    };
+
+    // Handle form submit (create or update)
+    const handleFormSubmit = async (data: BudgetFormData) => {
+        setIsSubmitting(true);
+
+        try {
+            if (editingBudget) {
+                await api.put(`/budgets/${editingBudget.id}`, data);
+            } else {
+                await api.post('/budgets', data);
+            }
+
+            toast({
+                title: 'Success',
+                description: editingBudget
+                    ? 'Budget updated successfully'
+                    : 'Budget created successfully',
+            });
+            setShowFormModal(false);
+            setEditingBudget(null);
+            refreshAll();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(
+                    err,
+                    editingBudget ? 'Failed to update budget' : 'Failed to create budget'
+                ),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    // Handle delete - open confirmation dialog
+    const handleDelete = (budget: Budget) => {
+        setDeletingBudget(budget);
+        setShowDeleteDialog(true);
+    };
+
+    // Confirm delete
+    const confirmDelete = async () => {
+        if (!deletingBudget) return;
+
+        setIsDeleting(true);
+        try {
+            await api.delete(`/budgets/${deletingBudget.id}`);
+            toast({
+                title: 'Success',
+                description: 'Budget deleted successfully',
+            });
+            setShowDeleteDialog(false);
+            setDeletingBudget(null);
+            refreshAll();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to delete budget'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    // Move a budget to the period after its current one, honouring its rollover settings
+    const handleRollover = async (budget: Budget) => {
+        const startDate = toDateString(addDays(parseISO(budget.end_date), 1));
+        const rollover = budget.rollover_settings;
+        const carryOver =
+            !!rollover?.enabled &&
+            !!rollover.carry_over_unused &&
+            !(rollover.reset_on_overspend && budget.status.is_over_budget);
+
+        try {
+            await api.post(`/budgets/${budget.id}/reset`, {
+                start_date: startDate,
+                end_date: budgetPeriodEnd(startDate, budget.period),
+                carry_over_unused: carryOver,
+                reset_spent: true,
+            });
+            toast({
+                title: 'Success',
+                description: carryOver
+                    ? `${budget.name} rolled over with ${formatCurrency(
+                          Math.max(0, toNumber(budget.remaining))
+                      )} carried forward`
+                    : `${budget.name} moved to the next period`,
+            });
+            refreshAll();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to roll over budget'),
+                variant: 'destructive',
+            });
+        }
+    };
+
+    const toggleSelected = (id: number, checked: boolean) => {
+        setSelectedIds((previous) => {
+            const next = new Set(previous);
+            if (checked) {
+                next.add(id);
+            } else {
+                next.delete(id);
+            }
+            return next;
+        });
+    };
+
+    const exitSelectMode = () => {
+        setSelectMode(false);
+        setSelectedIds(new Set());
+    };
+
+    // Apply a percentage change to every selected budget
+    const handleQuickAdjust = async (percentage: number) => {
+        setIsSubmitting(true);
+        try {
+            const { data } = await api.post('/budgets/bulk/quick-adjust', {
+                percentage,
+                budget_ids: [...selectedIds],
+            });
+            toast({
+                title: 'Success',
+                description: data.message ?? 'Budgets adjusted successfully',
+            });
+            setShowQuickAdjust(false);
+            exitSelectMode();
+            refreshAll();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to adjust budgets'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <>
+            <Head title="Budgets" />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+                                {/* Header Section */}
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <h1 className="text-3xl font-bold">Budgets</h1>
+                                        <p className="text-muted-foreground">
+                                            Spending limits by category and how much of
+                                            each is left
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={refreshAll}
+                                            disabled={loading}
+                                        >
+                                            <RefreshCwIcon
+                                                className={loading ? 'animate-spin' : ''}
+                                            />
+                                            Refresh
+                                        </Button>
+                                        <Button variant="outline" size="sm" asChild>
+                                            <Link href="/budgets/comparison">
+                                                <ChartColumnIcon />
+                                                Budget vs. Actual
+                                            </Link>
+                                        </Button>
+                                        <Button
+                                            variant={selectMode ? 'secondary' : 'outline'}
+                                            size="sm"
+                                            onClick={() =>
+                                                selectMode ? exitSelectMode() : setSelectMode(true)
+                                            }
+                                            disabled={activeBudgets.length === 0}
+                                        >
+                                            <PercentIcon />
+                                            Quick Adjust
+                                        </Button>
+                                        <Button size="sm" onClick={handleCreate}>
+                                            <PlusIcon />
+                                            Add Budget
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {/* Summary Cards */}
+                                <div className="grid gap-4 md:grid-cols-3">
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Total Budgeted
+                                            </CardTitle>
+                                            <PiggyBankIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">
+                                                {formatCurrency(totalBudgeted)}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                Across {meta?.total ?? 0} budgets
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Remaining
+                                            </CardTitle>
+                                            <TrendingDownIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div
+                                                className={cn(
+                                                    'text-2xl font-bold',
+                                                    totalBudgeted - totalSpent < 0 && 'text-red-600'
+                                                )}
+                                            >
+                                                {formatCurrency(totalBudgeted - totalSpent)}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {formatCurrency(totalSpent)} spent (
+                                                {formatPercent(
+                                                    totalBudgeted > 0
+                                                        ? (totalSpent / totalBudgeted) * 100
+                                                        : 0
+                                                )}
+                                                )
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Alerts
+                                            </CardTitle>
+                                            <AlertTriangleIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">
+                                                {overBudgetCount + nearLimitCount}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                <span className="text-red-600">
+                                                    {overBudgetCount} over budget
+                                                </span>
+                                                {' • '}
+                                                <span className="text-amber-600">
+                                                    {nearLimitCount} near limit
+                                                </span>
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                </div>
+
+                                {/* Period Navigator */}
+                                <BudgetPeriodNavigator refreshKey={periodRefreshKey} />
+
+                                {/* Month-end Forecast */}
+                                <SpendingForecastPanel key={periodRefreshKey} />
+
+                                {/* Quick Adjust Toolbar */}
+                                {selectMode && (
+                                    <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border bg-muted/50 p-3">
+                                        <div className="flex items-center gap-3 text-sm">
+                                            <Checkbox
+                                                id="select_all"
+                                                checked={
+                                                    activeBudgets.length > 0 &&
+                                                    selectedIds.size === activeBudgets.length
+                                                }
+                                                onCheckedChange={(checked) =>
+                                                    setSelectedIds(
+                                                        checked
+                                                            ? new Set(activeBudgets.map((b) => b.id))
+                                                            : new Set()
+                                                    )
+                                                }
+                                            />
+                                            <Label htmlFor="select_all" className="font-normal">
+                                                {selectedIds.size} of {activeBudgets.length}{' '}
+                                                active budgets selected
+                                            </Label>
+                                        </div>
+                                        <div className="flex gap-2">
+                                            <Button variant="ghost" size="sm" onClick={exitSelectMode}>
+                                                <XIcon />
+                                                Cancel
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                onClick={() => setShowQuickAdjust(true)}
+                                                disabled={selectedIds.size === 0}
+                                            >
+                                                <PercentIcon />
+                                                Adjust Selected
+                                            </Button>
+                                        </div>
+                                    </div>
+                                )}
+
+                                <div className="flex items-center space-x-2">
+                                    <Checkbox
+                                        id="include_inactive"
+                                        checked={includeInactive}
+                                        onCheckedChange={(checked) =>
+                                            setIncludeInactive(!!checked)
+                                        }
+                                    />
+                                    <Label
+                                        htmlFor="include_inactive"
+                                        className="text-sm font-normal"
+                                    >
+                                        Show inactive budgets
+                                    </Label>
+                                </div>
+
+                                {error && (
+                                    <p className="text-sm text-destructive">{error}</p>
+                                )}
+
+                                {/* Budget List */}
+                                {loading && !budgets ? (
+                                    <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+                                        {Array.from({ length: 3 }).map((_, index) => (
+                                            <Skeleton key={index} className="h-40 w-full" />
+                                        ))}
+                                    </div>
+                                ) : list.length === 0 ? (
+                                    <Card>
+                                        <CardContent className="py-10 text-center text-muted-foreground">
+                                            No budgets yet. Add a budget to start tracking
+                                            spending against a limit.
+                                        </CardContent>
+                                    </Card>
+                                ) : (
+                                    <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+                                        {list.map((budget) => (
+                                            <BudgetCard
+                                                key={budget.id}
+                                                budget={budget}
+                                                selectable={selectMode && budget.is_active}
+                                                selected={selectedIds.has(budget.id)}
+                                                onSelect={toggleSelected}
+                                                onEdit={handleEdit}
+                                                onRollover={handleRollover}
+                                                onDelete={handleDelete}
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+
+            {/* Budget Form Modal (Add/Edit) */}
+            <BudgetFormModal
+                open={showFormModal}
+                onOpenChange={(open) => {
+                    setShowFormModal(open);
+                    if (!open) {
+                        setEditingBudget(null);
+                    }
+                }}
+                budget={editingBudget}
+                categories={categories ?? []}
+                onSubmit={handleFormSubmit}
+                isSubmitting={isSubmitting}
+            />
+
+            {/* Delete Confirmation Dialog */}
+            <DeleteBudgetDialog
+                open={showDeleteDialog}
+                onOpenChange={setShowDeleteDialog}
+                budget={deletingBudget}
+                onConfirm={confirmDelete}
+                isDeleting={isDeleting}
+            />
+
+            {/* Quick Adjust Dialog */}
+            <BudgetQuickAdjustDialog
+                open={showQuickAdjust}
+                onOpenChange={setShowQuickAdjust}
+                budgets={selectedBudgets}
+                onSubmit={handleQuickAdjust}
+                isSubmitting={isSubmitting}
+            />
+        </>
+    );
+}
+
+interface BudgetCardProps {
+    budget: Budget;
+    selectable: boolean;
+    selected: boolean;
+    onSelect: (id: number, checked: boolean) => void;
+    onEdit: (budget: Budget) => void;
+    onRollover: (budget: Budget) => void;
+    onDelete: (budget: Budget) => void;
+}
+
+function BudgetCard({
+    budget,
+    selectable,
+    selected,
+    onSelect,
+    onEdit,
+    onRollover,
+    onDelete,
+}: BudgetCardProps) {
+    const percentage = toNumber(budget.percentage_used);
+    const remaining = toNumber(budget.remaining);
+    const colors = statusColors[budget.status.code];
+    const rollover = budget.rollover_settings;
+
+    return (
+        <Card
+            className={cn(
+                !budget.is_active && 'opacity-60',
+                selected && 'ring-2 ring-primary'
+            )}
+        >
+            <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                <div className="flex items-center gap-3">
+                    {selectable ? (
+                        <Checkbox
+                            checked={selected}
+                            onCheckedChange={(checked) => onSelect(budget.id, !!checked)}
+                            aria-label={`Select ${budget.name}`}
+                        />
+                    ) : (
+                        <span
+                            className="h-3 w-3 rounded-full"
+                            style={{ backgroundColor: budget.category?.color ?? '#999999' }}
+                        />
+                    )}
+                    <div>
+                        <CardTitle className="text-base">{budget.name}</CardTitle>
+                        <CardDescription>
+                            {budget.period_info.start_date_formatted} –{' '}
+                            {budget.period_info.end_date_formatted}
+                        </CardDescription>
+                    </div>
+                </div>
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <MoreVerticalIcon />
+                            <span className="sr-only">Open menu</span>
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => onEdit(budget)}>Edit</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onRollover(budget)}>
+                            Roll over to next period
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                            className="text-destructive"
+                            onClick={() => onDelete(budget)}
+                        >
+                            Delete
+                        </DropdownMenuItem>
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                <div className="flex items-baseline justify-between">
+                    <span className="text-2xl font-bold tabular-nums">
+                        {formatCurrency(budget.spent)}
+                    </span>
+                    <span className="text-sm text-muted-foreground tabular-nums">
+                        of {formatCurrency(budget.amount)}
+                    </span>
+                </div>
+
+                {/* Progress with the alert threshold marked */}
+                <div className="relative h-2 w-full overflow-visible rounded-full bg-muted">
+                    <div
+                        className={cn('h-full rounded-full', colors.bar)}
+                        style={{ width: `${Math.min(100, percentage)}%` }}
+                    />
+                    {budget.alert_enabled && toNumber(budget.alert_threshold) > 0 && (
+                        <div
+                            className="absolute -top-1 h-4 w-0.5 bg-foreground/60"
+                            style={{ left: `${Math.min(100, toNumber(budget.alert_threshold))}%` }}
+                            title={`Alert at ${formatPercent(budget.alert_threshold, 0)}`}
+                        />
+                    )}
+                </div>
+
+                <div className="flex items-center justify-between text-xs">
+                    <span className={remaining < 0 ? 'text-red-600' : 'text-muted-foreground'}>
+                        {remaining < 0
+                            ? `${formatCurrency(Math.abs(remaining))} over`
+                            : `${formatCurrency(remaining)} left`}
+                        {budget.status.days_remaining >= 0 &&
+                            ` • ${budget.status.days_remaining} days to go`}
+                    </span>
+                    <Badge variant="outline" className={colors.badge}>
+                        {budget.status.label}
+                    </Badge>
+                </div>
+
+                <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                    <Badge variant="secondary" className="capitalize">
+                        {budget.period}
+                    </Badge>
+                    {budget.category && <Badge variant="outline">{budget.category.name}</Badge>}
+                    {rollover?.enabled && (
+                        <Badge variant="outline">
+                            {rollover.carry_over_unused ? 'Rolls over unused' : 'Rolls over'}
+                        </Badge>
+                    )}
+                    {!budget.alert_enabled && <Badge variant="outline">Alerts off</Badge>}
+                    {!budget.is_active && <Badge variant="outline">Inactive</Badge>}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,586 @@
+// resources/js/Pages/Budgets/Comparison.tsx
+
+import * as React from 'react';
+import { Head, Link } from '@inertiajs/react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import {
+    type ChartConfig,
+    ChartContainer,
+    ChartLegend,
+    ChartLegendContent,
+    ChartTooltip,
+    ChartTooltipContent,
+} from '@/components/ui/chart';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+    ArrowLeftIcon,
+    DownloadIcon,
+    Loader2Icon,
+    RefreshCwIcon,
+    ScaleIcon,
+    TargetIcon,
+    WalletIcon,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage } from '@/lib/api';
+import { formatCurrency, formatDate, formatPercent, toNumber } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import { budgetPeriods } from '@/components/budget-form-modal';
+import type { BudgetComparison, BudgetPeriod } from '@/types/budget';
+import type { BudgetPerformanceReport } from '@/types/analytics';
+
+type PeriodCount = '3' | '6' | '12';
+
+const chartConfig = {
+    budgeted: {
+        label: 'Budgeted',
+        color: 'var(--chart-1)',
+    },
+    actual: {
+        label: 'Actual',
+        color: 'var(--chart-2)',
+    },
+} satisfies ChartConfig;
+
+const axisDateFormats: Record<BudgetPeriod, string> = {
+    weekly: 'MMM d',
+    monthly: 'MMM yyyy',
+    yearly: 'yyyy',
+};
+
+/**
+ * Positive variance means spending came in under budget.
+ */
+function varianceClass(variance: number): string {
+    if (variance < 0) {
+        return 'text-red-600';
+    }
+    return variance > 0 ? 'text-green-600' : '';
+}
+
+export default function BudgetComparisonPage() {
+    const { toast } = useToast();
+    const [periodType, setPeriodType] = React.useState<BudgetPeriod>('monthly');
+    const [periodCount, setPeriodCount] = React.useState<PeriodCount>('6');
+    const [categoryFilter, setCategoryFilter] = React.useState('all');
+    const [isExporting, setIsExporting] = React.useState(false);
+
+    const { data, loading, error, reload } = useApi<BudgetComparison>(
+        '/budgets/analytics/comparison',
+        { period: periodType, periods: Number(periodCount) }
+    );
+    const {
+        data: performance,
+        loading: performanceLoading,
+        reload: reloadPerformance,
+    } = useApi<BudgetPerformanceReport>('/analytics/budget-performance', {
+        period: 'current',
+    });
+
+    const refreshAll = () => {
+        reload();
+        reloadPerformance();
+    };
+
+    const handlePeriodTypeChange = (value: BudgetPeriod) => {
+        setPeriodType(value);
+        setCategoryFilter('all');
+    };
+
+    const periods = data?.periods ?? [];
+
+    // Categories come from the latest period; every period lists the same budgets
+    const categories = periods.length > 0 ? periods[periods.length - 1].items : [];
+
+    const filteredPeriods = periods.map((period) => {
+        const items =
+            categoryFilter === 'all'
+                ? period.items
+                : period.items.filter((item) => String(item.budget_id) === categoryFilter);
+        const budgeted = items.reduce((sum, item) => sum + toNumber(item.budgeted), 0);
+        const actual = items.reduce((sum, item) => sum + toNumber(item.actual), 0);
+
+        return { ...period, items, budgeted, actual, variance: budgeted - actual };
+    });
+
+    const chartData = filteredPeriods.map((period) => ({
+        period: formatDate(period.start_date, axisDateFormats[periodType]),
+        label: period.label,
+        budgeted: period.budgeted,
+        actual: period.actual,
+    }));
+
+    const totalBudgeted = filteredPeriods.reduce((sum, period) => sum + period.budgeted, 0);
+    const totalActual = filteredPeriods.reduce((sum, period) => sum + period.actual, 0);
+    const totalVariance = totalBudgeted - totalActual;
+
+    const summary = performance?.summary;
+    const onTrackCount = summary
+        ? summary.total_budgets - summary.warning - summary.exceeded
+        : 0;
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const response = await api.get('/budgets/export/csv', {
+                params: {
+                    report: 'comparison',
+                    period: periodType,
+                    periods: Number(periodCount),
+                },
+                responseType: 'blob',
+            });
+            const url = URL.createObjectURL(response.data);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `budget_comparison_${periodType}.csv`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to export comparison'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <>
+            <Head title="Budget vs. Actual" />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+                                {/* Header Section */}
+                                <div className="flex items-center justify-between">
+                                    <div className="flex items-center gap-4">
+                                        <Link href="/budgets">
+                                            <Button variant="outline" size="icon">
+                                                <ArrowLeftIcon className="h-4 w-4" />
+                                            </Button>
+                                        </Link>
+                                        <div>
+                                            <h1 className="text-3xl font-bold">
+                                                Budget vs. Actual
+                                            </h1>
+                                            <p className="text-muted-foreground">
+                                                How spending compared with each budget over
+                                                recent periods
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={refreshAll}
+                                            disabled={loading}
+                                        >
+                                            <RefreshCwIcon
+                                                className={loading ? 'animate-spin' : ''}
+                                            />
+                                            Refresh
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            onClick={handleExport}
+                                            disabled={isExporting || periods.length === 0}
+                                        >
+                                            {isExporting ? (
+                                                <Loader2Icon className="animate-spin" />
+                                            ) : (
+                                                <DownloadIcon />
+                                            )}
+                                            Export CSV
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {/* Filters */}
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <Select value={periodType} onValueChange={handlePeriodTypeChange}>
+                                        <SelectTrigger className="w-36" size="sm">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {budgetPeriods.map((period) => (
+                                                <SelectItem key={period.value} value={period.value}>
+                                                    {period.label}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <ToggleGroup
+                                        type="single"
+                                        value={periodCount}
+                                        onValueChange={(value) =>
+                                            value && setPeriodCount(value as PeriodCount)
+                                        }
+                                        variant="outline"
+                                    >
+                                        <ToggleGroupItem value="3" className="h-8 px-2.5">
+                                            Last 3
+                                        </ToggleGroupItem>
+                                        <ToggleGroupItem value="6" className="h-8 px-2.5">
+                                            Last 6
+                                        </ToggleGroupItem>
+                                        <ToggleGroupItem value="12" className="h-8 px-2.5">
+                                            Last 12
+                                        </ToggleGroupItem>
+                                    </ToggleGroup>
+                                    <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                                        <SelectTrigger className="w-48" size="sm">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="all">All categories</SelectItem>
+                                            {categories.map((item) => (
+                                                <SelectItem
+                                                    key={item.budget_id}
+                                                    value={String(item.budget_id)}
+                                                >
+                                                    {item.category}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+
+                                {/* Summary Cards */}
+                                <div className="grid gap-4 md:grid-cols-3">
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Budgeted vs. Actual
+                                            </CardTitle>
+                                            <WalletIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            {loading && !data ? (
+                                                <Skeleton className="h-8 w-32" />
+                                            ) : (
+                                                <div className="text-2xl font-bold">
+                                                    {formatCurrency(totalActual)}
+                                                </div>
+                                            )}
+                                            <p className="text-xs text-muted-foreground">
+                                                of {formatCurrency(totalBudgeted)} budgeted across{' '}
+                                                {periods.length} periods
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Net Variance
+                                            </CardTitle>
+                                            <ScaleIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            {loading && !data ? (
+                                                <Skeleton className="h-8 w-32" />
+                                            ) : (
+                                                <div
+                                                    className={cn(
+                                                        'text-2xl font-bold',
+                                                        varianceClass(totalVariance)
+                                                    )}
+                                                >
+                                                    {formatCurrency(totalVariance)}
+                                                </div>
+                                            )}
+                                            <p className="text-xs text-muted-foreground">
+                                                {totalVariance >= 0 ? 'Under' : 'Over'} budget by{' '}
+                                                {formatPercent(
+                                                    totalBudgeted > 0
+                                                        ? (Math.abs(totalVariance) / totalBudgeted) * 100
+                                                        : 0
+                                                )}
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Current Period
+                                            </CardTitle>
+                                            <TargetIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            {performanceLoading && !performance ? (
+                                                <Skeleton className="h-8 w-32" />
+                                            ) : (
+                                                <div className="text-2xl font-bold">
+                                                    {formatPercent(summary?.overall_percentage ?? 0)}
+                                                </div>
+                                            )}
+                                            <p className="text-xs text-muted-foreground">
+                                                {onTrackCount} on track, {summary?.warning ?? 0}{' '}
+                                                near limit, {summary?.exceeded ?? 0} exceeded
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                </div>
+
+                                {error && <p className="text-sm text-destructive">{error}</p>}
+
+                                {/* Chart */}
+                                <Card>
+                                    <CardHeader>
+                                        <CardTitle>Budgeted vs. Actual by Period</CardTitle>
+                                        <CardDescription>
+                                            {categoryFilter === 'all'
+                                                ? 'All active budgets combined'
+                                                : categories.find(
+                                                      (item) =>
+                                                          String(item.budget_id) === categoryFilter
+                                                  )?.category}
+                                        </CardDescription>
+                                    </CardHeader>
+                                    <CardContent className="px-2 sm:px-6">
+                                        {loading && !data ? (
+                                            <Skeleton className="h-[300px] w-full" />
+                                        ) : categories.length === 0 ? (
+                                            <p className="py-12 text-center text-sm text-muted-foreground">
+                                                No active {periodType} budgets to compare.
+                                            </p>
+                                        ) : (
+                                            <ChartContainer
+                                                config={chartConfig}
+                                                className="aspect-auto h-[300px] w-full"
+                                            >
+                                                <BarChart data={chartData}>
+                                                    <CartesianGrid vertical={false} />
+                                                    <XAxis
+                                                        dataKey="period"
+                                                        tickLine={false}
+                                                        axisLine={false}
+                                                        tickMargin={8}
+                                                    />
+                                                    <YAxis
+                                                        tickLine={false}
+                                                        axisLine={false}
+                                                        width={80}
+                                                        tickFormatter={(value) =>
+                                                            new Intl.NumberFormat('en-PH', {
+                                                                notation: 'compact',
+                                                            }).format(value)
+                                                        }
+                                                    />
+                                                    <ChartTooltip
+                                                        cursor={false}
+                                                        content={
+                                                            <ChartTooltipContent
+                                                                indicator="dot"
+                                                                labelFormatter={(_, payload) =>
+                                                                    payload?.[0]?.payload?.label
+                                                                }
+                                                                formatter={(value, name) => (
+                                                                    <div className="flex w-full justify-between gap-4">
+                                                                        <span className="text-muted-foreground">
+                                                                            {chartConfig[
+                                                                                name as keyof typeof chartConfig
+                                                                            ]?.label ?? name}
+                                                                        </span>
+                                                                        <span className="font-mono font-medium tabular-nums">
+                                                                            {formatCurrency(value as number)}
+                                                                        </span>
+                                                                    </div>
+                                                                )}
+                                                            />
+                                                        }
+                                                    />
+                                                    <ChartLegend content={<ChartLegendContent />} />
+                                                    <Bar
+                                                        dataKey="budgeted"
+                                                        fill="var(--color-budgeted)"
+                                                        radius={4}
+                                                    />
+                                                    <Bar
+                                                        dataKey="actual"
+                                                        fill="var(--color-actual)"
+                                                        radius={4}
+                                                    />
+                                                </BarChart>
+                                            </ChartContainer>
+                                        )}
+                                    </CardContent>
+                                </Card>
+
+                                {/* Variance Table */}
+                                <Card>
+                                    <CardHeader>
+                                        <CardTitle>Variance by Category</CardTitle>
+                                        <CardDescription>
+                                            Positive variance is money left unspent; negative
+                                            variance is overspending
+                                        </CardDescription>
+                                    </CardHeader>
+                                    <CardContent>
+                                        {loading && !data ? (
+                                            <div className="space-y-2">
+                                                {Array.from({ length: 5 }).map((_, index) => (
+                                                    <Skeleton key={index} className="h-8 w-full" />
+                                                ))}
+                                            </div>
+                                        ) : categories.length === 0 ? (
+                                            <p className="text-sm text-muted-foreground">
+                                                Nothing to show for this period type.
+                                            </p>
+                                        ) : (
+                                            <Table>
+                                                <TableHeader>
+                                                    <TableRow>
+                                                        <TableHead>Category</TableHead>
+                                                        <TableHead className="text-right">
+                                                            Budgeted
+                                                        </TableHead>
+                                                        <TableHead className="text-right">
+                                                            Actual
+                                                        </TableHead>
+                                                        <TableHead className="text-right">
+                                                            Variance
+                                                        </TableHead>
+                                                        <TableHead className="text-right">
+                                                            Variance %
+                                                        </TableHead>
+                                                    </TableRow>
+                                                </TableHeader>
+                                                <TableBody>
+                                                    {[...filteredPeriods].reverse().map((period) => (
+                                                        <React.Fragment key={period.start_date}>
+                                                            <TableRow className="bg-muted/50 hover:bg-muted/50">
+                                                                <TableCell className="font-medium">
+                                                                    {period.label}
+                                                                </TableCell>
+                                                                <TableCell className="text-right font-medium tabular-nums">
+                                                                    {formatCurrency(period.budgeted)}
+                                                                </TableCell>
+                                                                <TableCell className="text-right font-medium tabular-nums">
+                                                                    {formatCurrency(period.actual)}
+                                                                </TableCell>
+                                                                <TableCell
+                                                                    className={cn(
+                                                                        'text-right font-medium tabular-nums',
+                                                                        varianceClass(period.variance)
+                                                                    )}
+                                                                >
+                                                                    {formatCurrency(period.variance)}
+                                                                </TableCell>
+                                                                <TableCell
+                                                                    className={cn(
+                                                                        'text-right font-medium tabular-nums',
+                                                                        varianceClass(period.variance)
+                                                                    )}
+                                                                >
+                                                                    {formatPercent(
+                                                                        period.budgeted > 0
+                                                                            ? (period.variance /
+                                                                                  period.budgeted) *
+                                                                                  100
+                                                                            : 0
+                                                                    )}
+                                                                </TableCell>
+                                                            </TableRow>
+                                                            {period.items.map((item) => (
+                                                                <TableRow
+                                                                    key={`${period.start_date}-${item.budget_id}`}
+                                                                >
+                                                                    <TableCell className="pl-6">
+                                                                        <div className="flex items-center gap-2">
+                                                                            <span
+                                                                                className="h-2.5 w-2.5 rounded-full bg-muted-foreground"
+                                                                                style={
+                                                                                    item.category_color
+                                                                                        ? {
+                                                                                              backgroundColor:
+                                                                                                  item.category_color,
+                                                                                          }
+                                                                                        : undefined
+                                                                                }
+                                                                            />
+                                                                            {item.category}
+                                                                        </div>
+                                                                    </TableCell>
+                                                                    <TableCell className="text-right tabular-nums">
+                                                                        {formatCurrency(item.budgeted)}
+                                                                    </TableCell>
+                                                                    <TableCell className="text-right tabular-nums">
+                                                                        {formatCurrency(item.actual)}
+                                                                    </TableCell>
+                                                                    <TableCell
+                                                                        className={cn(
+                                                                            'text-right tabular-nums',
+                                                                            varianceClass(
+                                                                                toNumber(item.variance)
+                                                                            )
+                                                                        )}
+                                                                    >
+                                                                        {formatCurrency(item.variance)}
+                                                                    </TableCell>
+                                                                    <TableCell
+                                                                        className={cn(
+                                                                            'text-right tabular-nums',
+                                                                            varianceClass(
+                                                                                toNumber(item.variance)
+                                                                            )
+                                                                        )}
+                                                                    >
+                                                                        {formatPercent(
+                                                                            toNumber(
+                                                                                item.variance_percentage
+                                                                            )
+                                                                        )}
+                                                                    </TableCell>
+                                                                </TableRow>
+                                                            ))}
+                                                        </React.Fragment>
+                                                    ))}
+                                                </TableBody>
+                                            </Table>
+                                        )}
+                                    </CardContent>
+                                </Card>
+                            </div>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+        </>
+    );
+}
@@ -0,0 +1,632 @@
+// resources/js/Pages/Categories.tsx
+
+import { useEffect, useId, useMemo, useState } from 'react';
+import { Head, Link } from '@inertiajs/react';
+import {
+    DndContext,
+    KeyboardSensor,
+    MouseSensor,
+    TouchSensor,
+    closestCenter,
+    useSensor,
+    useSensors,
+    type DragEndEvent,
+} from '@dnd-kit/core';
+import { restrictToVerticalAxis } from '@dnd-kit/modifiers';
+import {
+    SortableContext,
+    arrayMove,
+    useSortable,
+    verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+    ArchiveIcon,
+    ChartPieIcon,
+    CheckCircle2Icon,
+    GripVerticalIcon,
+    Loader2Icon,
+    MoreVerticalIcon,
+    PlusIcon,
+    RefreshCwIcon,
+    SparklesIcon,
+    TagsIcon,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage, type ApiResponse } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { CategoryIcon } from '@/components/category-icon';
+import {
+    CategoryFormModal,
+    categoryTypes,
+    type CategoryFormData,
+} from '@/components/category-form-modal';
+import { CategoryMergeDialog } from '@/components/category-merge-dialog';
+import { DeleteCategoryDialog } from '@/components/delete-category-dialog';
+import type {
+    Category,
+    CategoryIconsAndColors,
+    CategoryMergeResult,
+    CategoryType,
+} from '@/types/category';
+
+export default function Categories() {
+    const { toast } = useToast();
+    const [tab, setTab] = useState<CategoryType>('expense');
+
+    const { data: categories, loading, error, reload } = useApi<Category[]>('/categories');
+    const { data: options } = useApi<CategoryIconsAndColors>('/categories/meta/icons-and-colors');
+
+    // Local copy so a drop reorders the list immediately, before the API answers
+    const [items, setItems] = useState<Category[]>([]);
+    useEffect(() => {
+        setItems(categories ?? []);
+    }, [categories]);
+
+    // Modal states
+    const [showFormModal, setShowFormModal] = useState(false);
+    const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+    const [showMergeDialog, setShowMergeDialog] = useState(false);
+    const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+    const [deletingCategory, setDeletingCategory] = useState<Category | null>(null);
+    const [mergingCategory, setMergingCategory] = useState<Category | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isDeleting, setIsDeleting] = useState(false);
+    const [isCreatingDefaults, setIsCreatingDefaults] = useState(false);
+
+    const tabItems = useMemo(() => items.filter((c) => c.type === tab), [items, tab]);
+    const activeCount = items.filter((c) => c.is_active).length;
+    const unusedCount = items.filter((c) => !c.has_transactions).length;
+
+    const runAction = async (action: () => Promise<unknown>, success: string, fallback: string) => {
+        try {
+            await action();
+            toast({
+                title: 'Success',
+                description: success,
+            });
+            reload();
+            return true;
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, fallback),
+                variant: 'destructive',
+            });
+            return false;
+        }
+    };
+
+    // Persist the new order of the current tab; sort_order follows the row position
+    const handleReorder = async (ordered: Category[]) => {
+        setItems((current) => [...current.filter((c) => c.type !== tab), ...ordered]);
+
+        try {
+            await api.put('/categories/bulk/reorder', {
+                order: ordered.map((category, index) => ({
+                    id: category.id,
+                    sort_order: index,
+                })),
+            });
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to save the new order'),
+                variant: 'destructive',
+            });
+            reload();
+        }
+    };
+
+    // Handle create - open modal
+    const handleCreate = () => {
+        setEditingCategory(null);
+        setShowFormModal(true);
+    };
+
+    // Handle edit - open modal with category data
+    const handleEdit = (category: Category) => {
+        setEditingCategory(category);
+        setShowFormModal(true);
+    };
+
+    // Handle form submit (create or update)
+    const handleFormSubmit = async (data: CategoryFormData) => {
+        setIsSubmitting(true);
+
+        const payload = { ...data, description: data.description || null };
+        const saved = await runAction(
+            () =>
+                editingCategory
+                    ? api.put(`/categories/${editingCategory.id}`, payload)
+                    : api.post('/categories', payload),
+            editingCategory ? 'Category updated successfully' : 'Category created successfully',
+            editingCategory ? 'Failed to update category' : 'Failed to create category'
+        );
+
+        if (saved) {
+            setShowFormModal(false);
+            setEditingCategory(null);
+            setTab(data.type);
+        }
+        setIsSubmitting(false);
+    };
+
+    const handleToggleActive = (category: Category) =>
+        runAction(
+            () => api.put(`/categories/${category.id}`, { is_active: !category.is_active }),
+            category.is_active ? `${category.name} deactivated` : `${category.name} activated`,
+            'Failed to update category'
+        );
+
+    const handleCreateDefaults = async () => {
+        setIsCreatingDefaults(true);
+        await runAction(
+            () => api.post('/categories/meta/create-defaults'),
+            'Default categories created',
+            'Failed to create default categories'
+        );
+        setIsCreatingDefaults(false);
+    };
+
+    // Handle merge - open the merge dialog for the category being merged away
+    const handleMerge = (category: Category) => {
+        setMergingCategory(category);
+        setShowMergeDialog(true);
+    };
+
+    const confirmMerge = async (targetId: number, deleteSource: boolean) => {
+        if (!mergingCategory) return;
+
+        setIsSubmitting(true);
+        try {
+            const { data: response } = await api.post<ApiResponse<CategoryMergeResult>>(
+                '/categories/merge',
+                {
+                    source_id: mergingCategory.id,
+                    target_id: targetId,
+                    delete_source: deleteSource ? 1 : 0,
+                }
+            );
+
+            toast({
+                title: 'Success',
+                description: `${response.message}. ${response.data.moved_transactions} transactions moved.`,
+            });
+            setShowMergeDialog(false);
+            setMergingCategory(null);
+            reload();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to merge categories'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    // Handle delete - open confirmation dialog
+    const handleDelete = (category: Category) => {
+        setDeletingCategory(category);
+        setShowDeleteDialog(true);
+    };
+
+    // Confirm delete
+    const confirmDelete = async () => {
+        if (!deletingCategory) return;
+
+        setIsDeleting(true);
+        const deleted = await runAction(
+            () => api.delete(`/categories/${deletingCategory.id}`),
+            'Category deleted successfully',
+            'Failed to delete category'
+        );
+        if (deleted) {
+            setShowDeleteDialog(false);
+            setDeletingCategory(null);
+        }
+        setIsDeleting(false);
+    };
+
+    return (
+        <>
+            <Head title="Categories" />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+                                {/* Header Section */}
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <h1 className="text-3xl font-bold">Categories</h1>
+                                        <p className="text-muted-foreground">
+                                            Organize how your transactions are grouped
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={reload}
+                                            disabled={loading}
+                                        >
+                                            <RefreshCwIcon
+                                                className={loading ? 'animate-spin' : ''}
+                                            />
+                                            Refresh
+                                        </Button>
+                                        <Button variant="outline" size="sm" asChild>
+                                            <Link href="/categories/analysis">
+                                                <ChartPieIcon />
+                                                Analysis
+                                            </Link>
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={handleCreateDefaults}
+                                            disabled={isCreatingDefaults}
+                                        >
+                                            {isCreatingDefaults ? (
+                                                <Loader2Icon className="animate-spin" />
+                                            ) : (
+                                                <SparklesIcon />
+                                            )}
+                                            Create Defaults
+                                        </Button>
+                                        <Button size="sm" onClick={handleCreate}>
+                                            <PlusIcon />
+                                            Add Category
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {/* Summary Cards */}
+                                <div className="grid gap-4 md:grid-cols-3">
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Categories
+                                            </CardTitle>
+                                            <TagsIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">{items.length}</div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {categoryTypes
+                                                    .map(
+                                                        (t) =>
+                                                            `${items.filter((c) => c.type === t.value).length} ${t.label.toLowerCase()}`
+                                                    )
+                                                    .join(' • ')}
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Active
+                                            </CardTitle>
+                                            <CheckCircle2Icon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">{activeCount}</div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {items.length - activeCount} inactive
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Unused
+                                            </CardTitle>
+                                            <ArchiveIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">{unusedCount}</div>
+                                            <p className="text-xs text-muted-foreground">
+                                                Categories without transactions
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                </div>
+
+                                {error && (
+                                    <p className="text-sm text-destructive">{error}</p>
+                                )}
+
+                                <Card>
+                                    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                                        <div className="space-y-1.5">
+                                            <CardTitle>
+                                                {categoryTypes.find((t) => t.value === tab)?.label}{' '}
+                                                Categories
+                                            </CardTitle>
+                                            <CardDescription>
+                                                Drag the handle to change the order categories are
+                                                listed in
+                                            </CardDescription>
+                                        </div>
+                                        <Tabs
+                                            value={tab}
+                                            onValueChange={(value) => setTab(value as CategoryType)}
+                                        >
+                                            <TabsList>
+                                                {categoryTypes.map((t) => (
+                                                    <TabsTrigger key={t.value} value={t.value}>
+                                                        {t.label}
+                                                        <Badge variant="secondary" className="ml-1">
+                                                            {items.filter((c) => c.type === t.value).length}
+                                                        </Badge>
+                                                    </TabsTrigger>
+                                                ))}
+                                            </TabsList>
+                                        </Tabs>
+                                    </CardHeader>
+                                    <CardContent>
+                                        {loading && !categories ? (
+                                            <div className="space-y-2">
+                                                {Array.from({ length: 5 }).map((_, index) => (
+                                                    <Skeleton key={index} className="h-12 w-full" />
+                                                ))}
+                                            </div>
+                                        ) : tabItems.length === 0 ? (
+                                            <div className="py-10 text-center text-sm text-muted-foreground">
+                                                <p>No {tab} categories yet.</p>
+                                                <p>
+                                                    Add one, or use Create Defaults to add the
+                                                    standard set.
+                                                </p>
+                                            </div>
+                                        ) : (
+                                            <SortableCategoryTable
+                                                categories={tabItems}
+                                                onReorder={handleReorder}
+                                                onEdit={handleEdit}
+                                                onToggleActive={handleToggleActive}
+                                                onMerge={handleMerge}
+                                                onDelete={handleDelete}
+                                            />
+                                        )}
+                                    </CardContent>
+                                </Card>
+                            </div>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+
+            {/* Category Form Modal (Add/Edit) */}
+            <CategoryFormModal
+                open={showFormModal}
+                onOpenChange={(open) => {
+                    setShowFormModal(open);
+                    if (!open) {
+                        setEditingCategory(null);
+                    }
+                }}
+                category={editingCategory}
+                defaultType={tab}
+                options={options}
+                onSubmit={handleFormSubmit}
+                isSubmitting={isSubmitting}
+            />
+
+            {/* Merge Dialog */}
+            <CategoryMergeDialog
+                open={showMergeDialog}
+                onOpenChange={setShowMergeDialog}
+                source={mergingCategory}
+                categories={items}
+                onConfirm={confirmMerge}
+                isMerging={isSubmitting}
+            />
+
+            {/* Delete Confirmation Dialog */}
+            <DeleteCategoryDialog
+                open={showDeleteDialog}
+                onOpenChange={setShowDeleteDialog}
+                category={deletingCategory}
+                onConfirm={confirmDelete}
+                isDeleting={isDeleting}
+            />
+        </>
+    );
+}
+
+interface CategoryRowActions {
+    onEdit: (category: Category) => void;
+    onToggleActive: (category: Category) => void;
+    onMerge: (category: Category) => void;
+    onDelete: (category: Category) => void;
+}
+
+interface SortableCategoryTableProps extends CategoryRowActions {
+    categories: Category[];
+    onReorder: (ordered: Category[]) => void;
+}
+
+function SortableCategoryTable({ categories, onReorder, ...actions }: SortableCategoryTableProps) {
+    const sortableId = useId();
+    const sensors = useSensors(
+        useSensor(MouseSensor, {}),
+        useSensor(TouchSensor, {}),
+        useSensor(KeyboardSensor, {})
+    );
+
+    const ids = useMemo(() => categories.map(({ id }) => id), [categories]);
+
+    function handleDragEnd(event: DragEndEvent) {
+        const { active, over } = event;
+        if (active && over && active.id !== over.id) {
+            const oldIndex = ids.indexOf(Number(active.id));
+            const newIndex = ids.indexOf(Number(over.id));
+            onReorder(arrayMove(categories, oldIndex, newIndex));
+        }
+    }
+
+    return (
+        <div className="overflow-hidden rounded-lg border">
+            <DndContext
+                collisionDetection={closestCenter}
+                modifiers={[restrictToVerticalAxis]}
+                onDragEnd={handleDragEnd}
+                sensors={sensors}
+                id={sortableId}
+            >
+                <Table>
+                    <TableHeader className="bg-muted">
+                        <TableRow>
+                            <TableHead className="w-10" />
+                            <TableHead>Category</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead>Usage</TableHead>
+                            <TableHead className="w-10" />
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        <SortableContext items={ids} strategy={verticalListSortingStrategy}>
+                            {categories.map((category) => (
+                                <DraggableCategoryRow
+                                    key={category.id}
+                                    category={category}
+                                    {...actions}
+                                />
+                            ))}
+                        </SortableContext>
+                    </TableBody>
+                </Table>
+            </DndContext>
+        </div>
+    );
+}
+
+interface DraggableCategoryRowProps extends CategoryRowActions {
+    category: Category;
+}
+
+function DraggableCategoryRow({
+    category,
+    onEdit,
+    onToggleActive,
+    onMerge,
+    onDelete,
+}: DraggableCategoryRowProps) {
+    const { attributes, listeners, transform, transition, setNodeRef, isDragging } = useSortable({
+        id: category.id,
+    });
+
+    return (
+        <TableRow
+            data-dragging={isDragging}
+            ref={setNodeRef}
+            className="relative z-0 data-[dragging=true]:z-10 data-[dragging=true]:opacity-80"
+            style={{
+                transform: CSS.Transform.toString(transform),
+                transition: transition,
+            }}
+        >
+            <TableCell>
+                <Button
+                    {...attributes}
+                    {...listeners}
+                    variant="ghost"
+                    size="icon"
+                    className="size-7 text-muted-foreground hover:bg-transparent"
+                >
+                    <GripVerticalIcon className="size-3 text-muted-foreground" />
+                    <span className="sr-only">Drag to reorder</span>
+                </Button>
+            </TableCell>
+            <TableCell>
+                <div className={cn('flex items-center gap-3', !category.is_active && 'opacity-60')}>
+                    <CategoryIcon icon={category.icon} color={category.color} />
+                    <div className="min-w-0">
+                        <p className="truncate font-medium">{category.name}</p>
+                        {category.description && (
+                            <p className="truncate text-xs text-muted-foreground">
+                                {category.description}
+                            </p>
+                        )}
+                    </div>
+                </div>
+            </TableCell>
+            <TableCell>
+                <Badge variant={category.is_active ? 'outline' : 'secondary'}>
+                    {category.is_active ? 'Active' : 'Inactive'}
+                </Badge>
+            </TableCell>
+            <TableCell className="space-x-1">
+                {category.has_transactions && <Badge variant="outline">Transactions</Badge>}
+                {category.has_budgets && <Badge variant="outline">Budgets</Badge>}
+                {!category.has_transactions && !category.has_budgets && (
+                    <span className="text-sm text-muted-foreground">Unused</span>
+                )}
+            </TableCell>
+            <TableCell>
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <MoreVerticalIcon />
+                            <span className="sr-only">Open menu</span>
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => onEdit(category)}>Edit</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onToggleActive(category)}>
+                            {category.is_active ? 'Deactivate' : 'Activate'}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onMerge(category)}>
+                            Merge into…
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                            className="text-destructive"
+                            disabled={category.has_transactions}
+                            onClick={() => onDelete(category)}
+                        >
+                            Delete
+                        </DropdownMenuItem>
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            </TableCell>
+        </TableRow>
+    );
+}
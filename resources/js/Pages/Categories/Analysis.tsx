@@ -0,0 +1,653 @@
+// resources/js/Pages/Categories/Analysis.tsx
+
+import * as React from 'react';
+import { Head, Link } from '@inertiajs/react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import {
+    type ChartConfig,
+    ChartContainer,
+    ChartTooltip,
+    ChartTooltipContent,
+} from '@/components/ui/chart';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+    ArrowLeftIcon,
+    ChevronLeftIcon,
+    ChevronRightIcon,
+    PieChartIcon,
+    ReceiptIcon,
+    RefreshCwIcon,
+    TrendingUpIcon,
+    XIcon,
+} from 'lucide-react';
+import { useApi } from '@/hooks/use-api';
+import { formatCurrency, formatDate, formatPercent, toNumber } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import { CategoryIcon } from '@/components/category-icon';
+import { CategorySpendingDonut } from '@/components/category-spending-donut';
+import type {
+    CategoryAnalysisPeriod,
+    CategorySpendingAnalysis,
+    CategoryTransaction,
+    CategoryTrends,
+} from '@/types/category';
+
+type AnalysisType = 'expense' | 'income';
+
+// Months before the current one that make up the trailing average
+const TRAILING_MONTHS = 6;
+// Months shown in the drill-down trend line
+const TREND_MONTHS = 12;
+
+const analysisPeriods: { value: CategoryAnalysisPeriod; label: string }[] = [
+    { value: 'week', label: 'This week' },
+    { value: 'month', label: 'This month' },
+    { value: 'quarter', label: 'This quarter' },
+    { value: 'year', label: 'This year' },
+];
+
+const spikeThresholds = ['10', '25', '50', '100'];
+
+const trendConfig = {
+    amount: {
+        label: 'Amount',
+        color: 'var(--chart-1)',
+    },
+} satisfies ChartConfig;
+
+interface TransactionsMeta {
+    current_page: number;
+    last_page: number;
+    per_page: number;
+    total: number;
+}
+
+interface SpendingSpike {
+    categoryId: number;
+    name: string;
+    color: string | null;
+    current: number;
+    average: number;
+    change: number;
+}
+
+/**
+ * Categories whose current month is more than `threshold` percent above the
+ * average of the preceding months. Months without transactions count as zero.
+ */
+function findSpendingSpikes(trends: CategoryTrends | null, threshold: number): SpendingSpike[] {
+    const months = trends?.trends ?? [];
+    if (months.length < 2) {
+        return [];
+    }
+
+    const current = months[months.length - 1];
+    const previous = months.slice(0, -1);
+
+    return current.categories
+        .map((item) => {
+            const history = previous.map((month) =>
+                toNumber(
+                    month.categories.find((c) => c.category_id === item.category_id)?.total_amount
+                )
+            );
+            const average = history.reduce((sum, amount) => sum + amount, 0) / previous.length;
+            const amount = toNumber(item.total_amount);
+
+            return {
+                categoryId: item.category_id,
+                name: item.category_name,
+                color: item.category_color,
+                current: amount,
+                average,
+                change: average > 0 ? ((amount - average) / average) * 100 : 0,
+            };
+        })
+        .filter((spike) => spike.average > 0 && spike.change > threshold)
+        .sort((a, b) => b.change - a.change);
+}
+
+export default function CategoryAnalysisPage() {
+    const [type, setType] = React.useState<AnalysisType>('expense');
+    const [period, setPeriod] = React.useState<CategoryAnalysisPeriod>('month');
+    const [threshold, setThreshold] = React.useState('25');
+    const [selectedId, setSelectedId] = React.useState<number | null>(null);
+    const [page, setPage] = React.useState(1);
+
+    const { data: analysis, loading, error, reload } = useApi<CategorySpendingAnalysis>(
+        '/categories/analytics/spending-analysis',
+        { period, type }
+    );
+    const {
+        data: recentTrends,
+        loading: recentLoading,
+        reload: reloadRecent,
+    } = useApi<CategoryTrends>('/categories/analytics/trends', {
+        months: TRAILING_MONTHS + 1,
+        type,
+    });
+    const { data: selectedTrend, loading: trendLoading } = useApi<CategoryTrends>(
+        selectedId ? '/categories/analytics/trends' : null,
+        { months: TREND_MONTHS, type, category_ids: [selectedId] }
+    );
+    const {
+        data: transactions,
+        meta: transactionsMeta,
+        loading: transactionsLoading,
+    } = useApi<CategoryTransaction[], TransactionsMeta>(
+        selectedId ? `/categories/${selectedId}/transactions` : null,
+        {
+            start_date: analysis?.date_range.start,
+            end_date: analysis?.date_range.end,
+            per_page: 10,
+            page,
+        }
+    );
+
+    const refreshAll = () => {
+        reload();
+        reloadRecent();
+    };
+
+    const handleTypeChange = (value: AnalysisType) => {
+        setType(value);
+        setSelectedId(null);
+    };
+
+    const handleSelect = (categoryId: number) => {
+        setSelectedId((current) => (current === categoryId ? null : categoryId));
+        setPage(1);
+    };
+
+    const categories = analysis?.categories ?? [];
+    const spikes = React.useMemo(
+        () => findSpendingSpikes(recentTrends, Number(threshold)),
+        [recentTrends, threshold]
+    );
+
+    // The selected category may only appear in the spikes list (e.g. with a short period)
+    const selected = categories.find((c) => c.category_id === selectedId) ?? null;
+    const selectedSpike = spikes.find((s) => s.categoryId === selectedId) ?? null;
+    const selectedName = selected?.category_name ?? selectedSpike?.name ?? '';
+    const selectedColor = selected?.category_color ?? selectedSpike?.color ?? null;
+
+    const trendData = (selectedTrend?.trends ?? []).map((month) => ({
+        month: formatDate(month.date, 'MMM yy'),
+        label: month.period,
+        amount: toNumber(month.categories[0]?.total_amount),
+    }));
+    const trendHistory = trendData.slice(0, -1);
+    const trendAverage =
+        trendHistory.length > 0
+            ? trendHistory.reduce((sum, point) => sum + point.amount, 0) / trendHistory.length
+            : 0;
+
+    const typeLabel = type === 'expense' ? 'Spending' : 'Income';
+    const topCategory = categories[0];
+
+    return (
+        <>
+            <Head title="Category Analysis" />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+                                {/* Header Section */}
+                                <div className="flex items-center justify-between">
+                                    <div className="flex items-center gap-4">
+                                        <Link href="/categories">
+                                            <Button variant="outline" size="icon">
+                                                <ArrowLeftIcon className="h-4 w-4" />
+                                            </Button>
+                                        </Link>
+                                        <div>
+                                            <h1 className="text-3xl font-bold">
+                                                Category Analysis
+                                            </h1>
+                                            <p className="text-muted-foreground">
+                                                Where your money goes and which categories are
+                                                trending up
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={refreshAll}
+                                        disabled={loading}
+                                    >
+                                        <RefreshCwIcon className={loading ? 'animate-spin' : ''} />
+                                        Refresh
+                                    </Button>
+                                </div>
+
+                                {/* Filters */}
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <ToggleGroup
+                                        type="single"
+                                        value={type}
+                                        onValueChange={(value) =>
+                                            value && handleTypeChange(value as AnalysisType)
+                                        }
+                                        variant="outline"
+                                    >
+                                        <ToggleGroupItem value="expense" className="h-8 px-2.5">
+                                            Expenses
+                                        </ToggleGroupItem>
+                                        <ToggleGroupItem value="income" className="h-8 px-2.5">
+                                            Income
+                                        </ToggleGroupItem>
+                                    </ToggleGroup>
+                                    <Select
+                                        value={period}
+                                        onValueChange={(value) => {
+                                            setPeriod(value as CategoryAnalysisPeriod);
+                                            setPage(1);
+                                        }}
+                                    >
+                                        <SelectTrigger className="w-36" size="sm">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {analysisPeriods.map((p) => (
+                                                <SelectItem key={p.value} value={p.value}>
+                                                    {p.label}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+
+                                {/* Summary Cards */}
+                                <div className="grid gap-4 md:grid-cols-3">
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Total {typeLabel}
+                                            </CardTitle>
+                                            <PieChartIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            {loading && !analysis ? (
+                                                <Skeleton className="h-8 w-32" />
+                                            ) : (
+                                                <div className="text-2xl font-bold">
+                                                    {formatCurrency(analysis?.total_amount)}
+                                                </div>
+                                            )}
+                                            <p className="text-xs text-muted-foreground">
+                                                {analysis?.total_transactions ?? 0} transactions in{' '}
+                                                {categories.length} categories
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Largest Category
+                                            </CardTitle>
+                                            <ReceiptIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="truncate text-2xl font-bold">
+                                                {topCategory?.category_name ?? '—'}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {topCategory
+                                                    ? `${formatCurrency(topCategory.total_amount)} • ${formatPercent(topCategory.percentage_of_total)} of the total`
+                                                    : 'No transactions in this period'}
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Trending Up
+                                            </CardTitle>
+                                            <TrendingUpIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">{spikes.length}</div>
+                                            <p className="text-xs text-muted-foreground">
+                                                Categories more than {threshold}% above their{' '}
+                                                {TRAILING_MONTHS}-month average
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                </div>
+
+                                {error && (
+                                    <p className="text-sm text-destructive">{error}</p>
+                                )}
+
+                                <div className="grid gap-4 lg:grid-cols-3">
+                                    {/* Share by Category */}
+                                    <Card className="lg:col-span-2">
+                                        <CardHeader>
+                                            <CardTitle>{typeLabel} by Category</CardTitle>
+                                            <CardDescription>
+                                                Click a slice to see its trend and transactions
+                                            </CardDescription>
+                                        </CardHeader>
+                                        <CardContent>
+                                            {loading && !analysis ? (
+                                                <Skeleton className="h-[260px] w-full" />
+                                            ) : categories.length === 0 ? (
+                                                <p className="py-10 text-center text-sm text-muted-foreground">
+                                                    No {type} transactions in this period.
+                                                </p>
+                                            ) : (
+                                                <CategorySpendingDonut
+                                                    categories={categories}
+                                                    total={analysis?.total_amount ?? 0}
+                                                    selectedId={selectedId}
+                                                    onSelect={handleSelect}
+                                                />
+                                            )}
+                                        </CardContent>
+                                    </Card>
+
+                                    {/* Spending Spikes */}
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                                            <div className="space-y-1.5">
+                                                <CardTitle>Trending Up</CardTitle>
+                                                <CardDescription>
+                                                    This month vs. the previous {TRAILING_MONTHS}{' '}
+                                                    months
+                                                </CardDescription>
+                                            </div>
+                                            <Select value={threshold} onValueChange={setThreshold}>
+                                                <SelectTrigger className="w-24" size="sm">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {spikeThresholds.map((value) => (
+                                                        <SelectItem key={value} value={value}>
+                                                            +{value}%
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </CardHeader>
+                                        <CardContent className="space-y-2">
+                                            {recentLoading && !recentTrends ? (
+                                                Array.from({ length: 3 }).map((_, index) => (
+                                                    <Skeleton key={index} className="h-12 w-full" />
+                                                ))
+                                            ) : spikes.length === 0 ? (
+                                                <p className="text-sm text-muted-foreground">
+                                                    No category is more than {threshold}% above its
+                                                    average.
+                                                </p>
+                                            ) : (
+                                                spikes.map((spike) => (
+                                                    <SpikeRow
+                                                        key={spike.categoryId}
+                                                        spike={spike}
+                                                        selected={spike.categoryId === selectedId}
+                                                        onSelect={handleSelect}
+                                                    />
+                                                ))
+                                            )}
+                                        </CardContent>
+                                    </Card>
+                                </div>
+
+                                {/* Drill-down */}
+                                {selectedId && (
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                                            <div className="flex items-center gap-3">
+                                                <CategoryIcon
+                                                    icon={selected?.category_icon}
+                                                    color={selectedColor}
+                                                />
+                                                <div className="space-y-1">
+                                                    <CardTitle>{selectedName}</CardTitle>
+                                                    <CardDescription>
+                                                        Monthly totals over the last {TREND_MONTHS}{' '}
+                                                        months
+                                                    </CardDescription>
+                                                </div>
+                                            </div>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-8 w-8"
+                                                onClick={() => setSelectedId(null)}
+                                            >
+                                                <XIcon />
+                                                <span className="sr-only">Close</span>
+                                            </Button>
+                                        </CardHeader>
+                                        <CardContent className="space-y-6">
+                                            {trendLoading && !selectedTrend ? (
+                                                <Skeleton className="h-[240px] w-full" />
+                                            ) : (
+                                                <ChartContainer
+                                                    config={trendConfig}
+                                                    className="aspect-auto h-[240px] w-full"
+                                                >
+                                                    <LineChart data={trendData}>
+                                                        <CartesianGrid vertical={false} />
+                                                        <XAxis
+                                                            dataKey="month"
+                                                            tickLine={false}
+                                                            axisLine={false}
+                                                            tickMargin={8}
+                                                        />
+                                                        <YAxis
+                                                            tickLine={false}
+                                                            axisLine={false}
+                                                            width={80}
+                                                            tickFormatter={(value) =>
+                                                                new Intl.NumberFormat('en-PH', {
+                                                                    notation: 'compact',
+                                                                }).format(value)
+                                                            }
+                                                        />
+                                                        <ChartTooltip
+                                                            cursor={false}
+                                                            content={
+                                                                <ChartTooltipContent
+                                                                    indicator="dot"
+                                                                    labelFormatter={(_, payload) =>
+                                                                        payload?.[0]?.payload?.label
+                                                                    }
+                                                                    formatter={(value) => (
+                                                                        <span className="font-mono font-medium tabular-nums">
+                                                                            {formatCurrency(value as number)}
+                                                                        </span>
+                                                                    )}
+                                                                />
+                                                            }
+                                                        />
+                                                        {trendAverage > 0 && (
+                                                            <ReferenceLine
+                                                                y={trendAverage}
+                                                                stroke="var(--muted-foreground)"
+                                                                strokeDasharray="4 4"
+                                                            />
+                                                        )}
+                                                        <Line
+                                                            dataKey="amount"
+                                                            type="monotone"
+                                                            stroke={selectedColor ?? 'var(--color-amount)'}
+                                                            strokeWidth={2}
+                                                            dot={{ r: 3 }}
+                                                        />
+                                                    </LineChart>
+                                                </ChartContainer>
+                                            )}
+                                            {trendAverage > 0 && (
+                                                <p className="-mt-4 text-xs text-muted-foreground">
+                                                    Dashed line: average of the previous{' '}
+                                                    {trendHistory.length} months (
+                                                    {formatCurrency(trendAverage)})
+                                                </p>
+                                            )}
+
+                                            <div className="space-y-2">
+                                                <h3 className="text-sm font-medium">
+                                                    Transactions{' '}
+                                                    {analysis &&
+                                                        `from ${formatDate(analysis.date_range.start)} to ${formatDate(analysis.date_range.end)}`}
+                                                </h3>
+                                                {transactionsLoading && !transactions ? (
+                                                    <div className="space-y-2">
+                                                        {Array.from({ length: 4 }).map((_, index) => (
+                                                            <Skeleton key={index} className="h-8 w-full" />
+                                                        ))}
+                                                    </div>
+                                                ) : (transactions ?? []).length === 0 ? (
+                                                    <p className="text-sm text-muted-foreground">
+                                                        No transactions in this period.
+                                                    </p>
+                                                ) : (
+                                                    <Table>
+                                                        <TableHeader>
+                                                            <TableRow>
+                                                                <TableHead>Date</TableHead>
+                                                                <TableHead>Description</TableHead>
+                                                                <TableHead>Account</TableHead>
+                                                                <TableHead className="text-right">
+                                                                    Amount
+                                                                </TableHead>
+                                                            </TableRow>
+                                                        </TableHeader>
+                                                        <TableBody>
+                                                            {(transactions ?? []).map((transaction) => (
+                                                                <TableRow key={transaction.id}>
+                                                                    <TableCell className="whitespace-nowrap">
+                                                                        {formatDate(transaction.date)}
+                                                                    </TableCell>
+                                                                    <TableCell>
+                                                                        <Link
+                                                                            href={`/transactions/${transaction.id}`}
+                                                                            className="hover:underline"
+                                                                        >
+                                                                            {transaction.description}
+                                                                        </Link>
+                                                                    </TableCell>
+                                                                    <TableCell className="text-muted-foreground">
+                                                                        {transaction.account?.name ?? '—'}
+                                                                    </TableCell>
+                                                                    <TableCell className="text-right font-medium tabular-nums">
+                                                                        {formatCurrency(transaction.amount)}
+                                                                    </TableCell>
+                                                                </TableRow>
+                                                            ))}
+                                                        </TableBody>
+                                                    </Table>
+                                                )}
+
+                                                {transactionsMeta && transactionsMeta.last_page > 1 && (
+                                                    <div className="flex items-center justify-between pt-2">
+                                                        <p className="text-sm text-muted-foreground">
+                                                            Page {transactionsMeta.current_page} of{' '}
+                                                            {transactionsMeta.last_page}
+                                                        </p>
+                                                        <div className="flex gap-2">
+                                                            <Button
+                                                                variant="outline"
+                                                                size="sm"
+                                                                onClick={() => setPage(page - 1)}
+                                                                disabled={page <= 1}
+                                                            >
+                                                                <ChevronLeftIcon />
+                                                                Previous
+                                                            </Button>
+                                                            <Button
+                                                                variant="outline"
+                                                                size="sm"
+                                                                onClick={() => setPage(page + 1)}
+                                                                disabled={
+                                                                    page >= transactionsMeta.last_page
+                                                                }
+                                                            >
+                                                                Next
+                                                                <ChevronRightIcon />
+                                                            </Button>
+                                                        </div>
+                                                    </div>
+                                                )}
+                                            </div>
+                                        </CardContent>
+                                    </Card>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+        </>
+    );
+}
+
+interface SpikeRowProps {
+    spike: SpendingSpike;
+    selected: boolean;
+    onSelect: (categoryId: number) => void;
+}
+
+function SpikeRow({ spike, selected, onSelect }: SpikeRowProps) {
+    return (
+        <button
+            type="button"
+            onClick={() => onSelect(spike.categoryId)}
+            className={cn(
+                'flex w-full items-center justify-between gap-2 rounded-lg border p-2 text-left transition-colors hover:bg-muted',
+                selected && 'bg-muted'
+            )}
+        >
+            <div className="flex min-w-0 items-center gap-2">
+                <span
+                    className="h-8 w-1 shrink-0 rounded-full"
+                    style={{ backgroundColor: spike.color ?? 'var(--muted-foreground)' }}
+                />
+                <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{spike.name}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                        {formatCurrency(spike.current)} vs. {formatCurrency(spike.average)} avg
+                    </p>
+                </div>
+            </div>
+            <Badge variant="destructive" className="shrink-0">
+                +{formatPercent(spike.change, 0)}
+            </Badge>
+        </button>
+    );
+}
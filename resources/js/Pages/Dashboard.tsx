@@ -1,18 +1,72 @@
+import { Head } from "@inertiajs/react"
+import { subMonths } from "date-fns"
+
 import { AppSidebar } from "@/components/app-sidebar"
+import { BudgetHealthCard } from "@/components/budget-health-card"
+import { ChartAreaInteractive } from "@/components/chart-area-interactive"
+import { HealthScoreCard } from "@/components/health-score-card"
+import { InsightsFeed } from "@/components/insights-feed"
+import { RecentTransactionsCard } from "@/components/recent-transactions-card"
 import { SectionCards } from "@/components/section-cards"
 import { SiteHeader } from "@/components/site-header"
+import { UpcomingBillsCard } from "@/components/upcoming-bills-card"
 import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar"
+import { useApi } from "@/hooks/use-api"
+import { toDateString } from "@/lib/format"
+import type { DashboardSummary } from "@/types/analytics"
+
+const lastMonth = toDateString(subMonths(new Date(), 1))
 
 export default function Page() {
+  const current = useApi<DashboardSummary>("/analytics/dashboard", {
+    period: "month",
+  })
+  const previous = useApi<DashboardSummary>("/analytics/dashboard", {
+    period: "month",
+    date: lastMonth,
+  })
+
   return (
     <SidebarProvider>
+      <Head title="Dashboard" />
       <AppSidebar variant="inset" />
       <SidebarInset>
         <SiteHeader />
         <div className="flex flex-1 flex-col">
           <div className="@container/main flex flex-1 flex-col gap-2">
             <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
-              <SectionCards />
+              {current.error && (
+                <p className="px-4 text-sm text-destructive lg:px-6">
+                  {current.error}
+                </p>
+              )}
+              <SectionCards
+                current={current.data}
+                previous={previous.data}
+                loading={current.loading}
+              />
+              <div className="grid grid-cols-1 gap-4 px-4 lg:px-6 @5xl/main:grid-cols-3">
+                <div className="@5xl/main:col-span-2">
+                  <ChartAreaInteractive />
+                </div>
+                <HealthScoreCard />
+              </div>
+              <div className="px-4 lg:px-6">
+                <InsightsFeed />
+              </div>
+              <div className="grid grid-cols-1 gap-4 px-4 lg:px-6 @5xl/main:grid-cols-2">
+                <UpcomingBillsCard />
+                <BudgetHealthCard
+                  budgetStatus={current.data?.budget_status ?? null}
+                  loading={current.loading}
+                />
+              </div>
+              <div className="px-4 lg:px-6">
+                <RecentTransactionsCard
+                  transactions={current.data?.recent_transactions ?? []}
+                  loading={current.loading}
+                />
+              </div>
             </div>
           </div>
         </div>
@@ -0,0 +1,496 @@
+// resources/js/Pages/Debts.tsx
+
+import { useMemo, useState } from 'react';
+import { Head } from '@inertiajs/react';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    BanknoteIcon,
+    CalendarClockIcon,
+    LandmarkIcon,
+    MoreVerticalIcon,
+    PercentIcon,
+    PlusIcon,
+    RefreshCwIcon,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage } from '@/lib/api';
+import { formatCurrency, formatDate, formatPercent, toNumber } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import { DebtFormModal, type DebtFormData } from '@/components/debt-form-modal';
+import { DeleteDebtDialog } from '@/components/delete-debt-dialog';
+import { DebtPaymentDialog, type DebtPaymentFormData } from '@/components/debt-payment-dialog';
+import { DebtPaymentHistorySheet } from '@/components/debt-payment-history-sheet';
+import { DebtPayoffPlanner } from '@/components/debt-payoff-planner';
+import type { Debt, DebtSummary } from '@/types/debt';
+
+export default function Debts() {
+    const { toast } = useToast();
+    const {
+        data: debts,
+        loading,
+        error,
+        reload,
+    } = useApi<Debt[]>('/debts', { per_page: 100, sort_by: 'interest_rate' });
+    const { data: summary, reload: reloadSummary } = useApi<DebtSummary>('/debts/summary');
+    const [planRefreshKey, setPlanRefreshKey] = useState(0);
+    const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+
+    // Modal states
+    const [showFormModal, setShowFormModal] = useState(false);
+    const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+    const [showPaymentDialog, setShowPaymentDialog] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [editingDebt, setEditingDebt] = useState<Debt | null>(null);
+    const [deletingDebt, setDeletingDebt] = useState<Debt | null>(null);
+    const [selectedDebt, setSelectedDebt] = useState<Debt | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const list = debts ?? [];
+    // Only debts still being paid take part in the payoff plan
+    const plannableDebts = useMemo(
+        () =>
+            (debts ?? []).filter(
+                (debt) => debt.status === 'active' && toNumber(debt.current_balance) > 0
+            ),
+        [debts]
+    );
+
+    const refreshAll = () => {
+        reload();
+        reloadSummary();
+        setPlanRefreshKey((key) => key + 1);
+        setHistoryRefreshKey((key) => key + 1);
+    };
+
+    // Handle create - open modal
+    const handleCreate = () => {
+        setEditingDebt(null);
+        setShowFormModal(true);
+    };
+
+    // Handle edit - open modal with debt data
+    const handleEdit = (debt: Debt) => {
+        setEditingDebt(debt);
+        setShowFormModal(true);
+    };
+
+    // Handle form submit (create or update)
+    const handleFormSubmit = async (data: DebtFormData) => {
+        setIsSubmitting(true);
+
+        try {
+            if (editingDebt) {
+                await api.put(`/debts/${editingDebt.id}`, data);
+            } else {
+                await api.post('/debts', data);
+            }
+
+            toast({
+                title: 'Success',
+                description: editingDebt
+                    ? 'Debt updated successfully'
+                    : 'Debt created successfully',
+            });
+            setShowFormModal(false);
+            setEditingDebt(null);
+            refreshAll();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(
+                    err,
+                    editingDebt ? 'Failed to update debt' : 'Failed to create debt'
+                ),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleRecordPayment = (debt: Debt) => {
+        setSelectedDebt(debt);
+        setShowPaymentDialog(true);
+    };
+
+    const handlePaymentSubmit = async (data: DebtPaymentFormData) => {
+        if (!selectedDebt) return;
+
+        setIsSubmitting(true);
+        try {
+            await api.post(`/debts/${selectedDebt.id}/payment`, {
+                amount: data.amount,
+                payment_date: data.payment_date,
+                interest: data.interest,
+                notes: data.notes || null,
+                account_id: data.create_transaction ? data.account_id : null,
+                category_id: data.create_transaction ? data.category_id : null,
+            });
+
+            const paidOff = data.amount - data.interest >= toNumber(selectedDebt.current_balance);
+            toast({
+                title: 'Success',
+                description: paidOff
+                    ? `${selectedDebt.name} is paid off!`
+                    : 'Payment recorded successfully',
+            });
+            setShowPaymentDialog(false);
+            refreshAll();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to record payment'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleShowHistory = (debt: Debt) => {
+        setSelectedDebt(debt);
+        setShowHistory(true);
+    };
+
+    // Handle delete - open confirmation dialog
+    const handleDelete = (debt: Debt) => {
+        setDeletingDebt(debt);
+        setShowDeleteDialog(true);
+    };
+
+    // Confirm delete
+    const confirmDelete = async () => {
+        if (!deletingDebt) return;
+
+        setIsDeleting(true);
+        try {
+            await api.delete(`/debts/${deletingDebt.id}`);
+            toast({
+                title: 'Success',
+                description: 'Debt deleted successfully',
+            });
+            setShowDeleteDialog(false);
+            setDeletingDebt(null);
+            refreshAll();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to delete debt'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    return (
+        <>
+            <Head title="Debts" />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+                                {/* Header Section */}
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <h1 className="text-3xl font-bold">Debts</h1>
+                                        <p className="text-muted-foreground">
+                                            Loans and credit cards, and a plan to pay them off
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={refreshAll}
+                                            disabled={loading}
+                                        >
+                                            <RefreshCwIcon
+                                                className={loading ? 'animate-spin' : ''}
+                                            />
+                                            Refresh
+                                        </Button>
+                                        <Button size="sm" onClick={handleCreate}>
+                                            <PlusIcon />
+                                            Add Debt
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {/* Summary Cards */}
+                                <div className="grid gap-4 md:grid-cols-3">
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Total Debt
+                                            </CardTitle>
+                                            <LandmarkIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">
+                                                {formatCurrency(summary?.total_current_balance)}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {formatPercent(summary?.progress_percentage ?? 0)}{' '}
+                                                paid off across {summary?.total_debts ?? 0} active
+                                                debts
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Minimum Payments
+                                            </CardTitle>
+                                            <CalendarClockIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">
+                                                {formatCurrency(summary?.total_minimum_payment)}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {summary?.estimated_payoff_date
+                                                    ? `Debt-free ${formatDate(summary.estimated_payoff_date, 'MMM yyyy')} at the minimums`
+                                                    : 'Per payment period'}
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Average Interest Rate
+                                            </CardTitle>
+                                            <PercentIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">
+                                                {formatPercent(summary?.average_interest_rate, 2)}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {formatCurrency(summary?.estimated_total_interest)}{' '}
+                                                interest left at the minimums
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                </div>
+
+                                {error && (
+                                    <p className="text-sm text-destructive">{error}</p>
+                                )}
+
+                                {/* Debt List */}
+                                {loading && !debts ? (
+                                    <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+                                        {Array.from({ length: 3 }).map((_, index) => (
+                                            <Skeleton key={index} className="h-48 w-full" />
+                                        ))}
+                                    </div>
+                                ) : list.length === 0 ? (
+                                    <Card>
+                                        <CardContent className="py-10 text-center text-muted-foreground">
+                                            No debts yet. Add a loan or credit card to plan its
+                                            payoff.
+                                        </CardContent>
+                                    </Card>
+                                ) : (
+                                    <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+                                        {list.map((debt) => (
+                                            <DebtCard
+                                                key={debt.id}
+                                                debt={debt}
+                                                onRecordPayment={handleRecordPayment}
+                                                onShowHistory={handleShowHistory}
+                                                onEdit={handleEdit}
+                                                onDelete={handleDelete}
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+
+                                {/* Payoff Planner */}
+                                {debts && (
+                                    <DebtPayoffPlanner
+                                        debts={plannableDebts}
+                                        refreshKey={planRefreshKey}
+                                    />
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+
+            {/* Debt Form Modal (Add/Edit) */}
+            <DebtFormModal
+                open={showFormModal}
+                onOpenChange={(open) => {
+                    setShowFormModal(open);
+                    if (!open) {
+                        setEditingDebt(null);
+                    }
+                }}
+                debt={editingDebt}
+                onSubmit={handleFormSubmit}
+                isSubmitting={isSubmitting}
+            />
+
+            {/* Payment Dialog */}
+            <DebtPaymentDialog
+                open={showPaymentDialog}
+                onOpenChange={setShowPaymentDialog}
+                debt={selectedDebt}
+                onSubmit={handlePaymentSubmit}
+                isSubmitting={isSubmitting}
+            />
+
+            {/* Payment History */}
+            <DebtPaymentHistorySheet
+                open={showHistory}
+                onOpenChange={setShowHistory}
+                debt={selectedDebt}
+                refreshKey={historyRefreshKey}
+            />
+
+            {/* Delete Confirmation Dialog */}
+            <DeleteDebtDialog
+                open={showDeleteDialog}
+                onOpenChange={setShowDeleteDialog}
+                debt={deletingDebt}
+                onConfirm={confirmDelete}
+                isDeleting={isDeleting}
+            />
+        </>
+    );
+}
+
+interface DebtCardProps {
+    debt: Debt;
+    onRecordPayment: (debt: Debt) => void;
+    onShowHistory: (debt: Debt) => void;
+    onEdit: (debt: Debt) => void;
+    onDelete: (debt: Debt) => void;
+}
+
+function DebtCard({ debt, onRecordPayment, onShowHistory, onEdit, onDelete }: DebtCardProps) {
+    const progress = toNumber(debt.progress_percentage);
+    const isActive = debt.status === 'active';
+
+    return (
+        <Card className={cn(!isActive && 'opacity-60')}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                <div className="min-w-0">
+                    <CardTitle className="truncate text-base">{debt.name}</CardTitle>
+                    <CardDescription className="truncate">
+                        {debt.type_label} • {formatPercent(debt.interest_rate, 2)} APR
+                    </CardDescription>
+                </div>
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <MoreVerticalIcon />
+                            <span className="sr-only">Open menu</span>
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => onShowHistory(debt)}>
+                            Payment history
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onEdit(debt)}>Edit</DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                            className="text-destructive"
+                            onClick={() => onDelete(debt)}
+                        >
+                            Delete
+                        </DropdownMenuItem>
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                <div className="flex items-baseline justify-between gap-2">
+                    <span className="text-2xl font-bold tabular-nums">
+                        {formatCurrency(debt.current_balance)}
+                    </span>
+                    <span className="text-sm text-muted-foreground tabular-nums">
+                        of {formatCurrency(debt.original_balance)}
+                    </span>
+                </div>
+
+                <div className="h-2 w-full rounded-full bg-muted">
+                    <div
+                        className="h-full rounded-full bg-green-600"
+                        style={{ width: `${Math.min(100, progress)}%` }}
+                    />
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                    <div>
+                        <div className="text-muted-foreground">Minimum payment</div>
+                        <div className="font-medium tabular-nums">
+                            {formatCurrency(debt.minimum_payment)}{' '}
+                            <span className="font-normal text-muted-foreground">
+                                {debt.payment_frequency_label.toLowerCase()}
+                            </span>
+                        </div>
+                    </div>
+                    <div>
+                        <div className="text-muted-foreground">Next due</div>
+                        <div className={cn('font-medium', debt.is_overdue && 'text-red-600')}>
+                            {formatDate(debt.due_date)}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">
+                        {formatPercent(progress)} paid off
+                    </span>
+                    {debt.is_overdue ? (
+                        <Badge variant="outline" className="text-red-600 border-red-600/40">
+                            Overdue
+                        </Badge>
+                    ) : (
+                        !isActive && <Badge variant="secondary">{debt.status_label}</Badge>
+                    )}
+                </div>
+
+                {isActive && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => onRecordPayment(debt)}
+                    >
+                        <BanknoteIcon />
+                        Record Payment
+                    </Button>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,586 @@
+// resources/js/Pages/Goals.tsx
+
+import { useState } from 'react';
+import { Head } from '@inertiajs/react';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+    CalendarClockIcon,
+    CheckCircle2Icon,
+    FlagIcon,
+    MoreVerticalIcon,
+    PlusIcon,
+    RefreshCwIcon,
+    TargetIcon,
+    TrophyIcon,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage } from '@/lib/api';
+import { formatCurrency, formatDate, formatPercent, toNumber } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import { GoalFormModal, type GoalFormData } from '@/components/goal-form-modal';
+import {
+    GoalContributeDialog,
+    type GoalContributionFormData,
+} from '@/components/goal-contribute-dialog';
+import { GoalHistorySheet } from '@/components/goal-history-sheet';
+import { DeleteGoalDialog } from '@/components/delete-goal-dialog';
+import { ProgressRing } from '@/components/progress-ring';
+import type { FinancialGoal, GoalPriority, GoalsMeta } from '@/types/goal';
+
+type GoalFilter = 'active' | 'completed' | 'all';
+
+const priorityColors: Record<GoalPriority, string> = {
+    high: 'text-red-600 border-red-600/40',
+    medium: 'text-amber-600 border-amber-500/40',
+    low: 'text-muted-foreground',
+};
+
+// Milestones shown as badges on each card; 100% is shown as completion instead
+const badgeMilestones = [25, 50, 75];
+
+export default function Goals() {
+    const { toast } = useToast();
+    const [filter, setFilter] = useState<GoalFilter>('active');
+    const {
+        data: goals,
+        meta,
+        loading,
+        error,
+        reload,
+    } = useApi<FinancialGoal[], GoalsMeta>('/goals');
+    const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+
+    // Modal states
+    const [showFormModal, setShowFormModal] = useState(false);
+    const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+    const [showContributeDialog, setShowContributeDialog] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [editingGoal, setEditingGoal] = useState<FinancialGoal | null>(null);
+    const [deletingGoal, setDeletingGoal] = useState<FinancialGoal | null>(null);
+    const [selectedGoal, setSelectedGoal] = useState<FinancialGoal | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const list = goals ?? [];
+    const filteredGoals = list.filter((goal) => {
+        if (filter === 'active') {
+            return goal.status === 'active' || goal.status === 'paused';
+        }
+        if (filter === 'completed') {
+            return goal.status === 'completed';
+        }
+        return true;
+    });
+    const activeGoals = list.filter((goal) => goal.status === 'active');
+    const behindCount = activeGoals.filter((goal) => !goal.is_on_track).length;
+    const monthlyNeeded = activeGoals.reduce(
+        (sum, goal) => sum + toNumber(goal.required_monthly_contribution),
+        0
+    );
+
+    const refreshAll = () => {
+        reload();
+        setHistoryRefreshKey((key) => key + 1);
+    };
+
+    // Handle create - open modal
+    const handleCreate = () => {
+        setEditingGoal(null);
+        setShowFormModal(true);
+    };
+
+    // Handle edit - open modal with goal data
+    const handleEdit = (goal: FinancialGoal) => {
+        setEditingGoal(goal);
+        setShowFormModal(true);
+    };
+
+    // Handle form submit (create or update)
+    const handleFormSubmit = async (data: GoalFormData) => {
+        setIsSubmitting(true);
+
+        try {
+            if (editingGoal) {
+                await api.put(`/goals/${editingGoal.id}`, data);
+            } else {
+                await api.post('/goals', data);
+            }
+
+            toast({
+                title: 'Success',
+                description: editingGoal
+                    ? 'Goal updated successfully'
+                    : 'Goal created successfully',
+            });
+            setShowFormModal(false);
+            setEditingGoal(null);
+            reload();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(
+                    err,
+                    editingGoal ? 'Failed to update goal' : 'Failed to create goal'
+                ),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleContribute = (goal: FinancialGoal) => {
+        setSelectedGoal(goal);
+        setShowContributeDialog(true);
+    };
+
+    const handleContributeSubmit = async (data: GoalContributionFormData) => {
+        if (!selectedGoal) return;
+
+        setIsSubmitting(true);
+        try {
+            const response = await api.post(`/goals/${selectedGoal.id}/contribute`, data);
+            const result = response.data.data;
+            const reached = badgeMilestones.filter(
+                (milestone) =>
+                    toNumber(selectedGoal.progress_percentage) < milestone &&
+                    toNumber(result.progress_percentage) >= milestone
+            );
+
+            toast({
+                title: 'Success',
+                description: result.is_completed
+                    ? `${selectedGoal.name} is complete!`
+                    : reached.length > 0
+                      ? `${selectedGoal.name} reached ${reached[reached.length - 1]}%`
+                      : 'Contribution added successfully',
+            });
+            setShowContributeDialog(false);
+            refreshAll();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to add contribution'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleShowHistory = (goal: FinancialGoal) => {
+        setSelectedGoal(goal);
+        setShowHistory(true);
+    };
+
+    const handleComplete = async (goal: FinancialGoal) => {
+        try {
+            await api.post(`/goals/${goal.id}/complete`);
+            toast({
+                title: 'Success',
+                description: `${goal.name} marked as completed`,
+            });
+            reload();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to complete goal'),
+                variant: 'destructive',
+            });
+        }
+    };
+
+    // Handle delete - open confirmation dialog
+    const handleDelete = (goal: FinancialGoal) => {
+        setDeletingGoal(goal);
+        setShowDeleteDialog(true);
+    };
+
+    // Confirm delete
+    const confirmDelete = async () => {
+        if (!deletingGoal) return;
+
+        setIsDeleting(true);
+        try {
+            await api.delete(`/goals/${deletingGoal.id}`);
+            toast({
+                title: 'Success',
+                description: 'Goal deleted successfully',
+            });
+            setShowDeleteDialog(false);
+            setDeletingGoal(null);
+            reload();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to delete goal'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    return (
+        <>
+            <Head title="Goals" />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+                                {/* Header Section */}
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <h1 className="text-3xl font-bold">Goals</h1>
+                                        <p className="text-muted-foreground">
+                                            Savings targets and how close you are to each
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={refreshAll}
+                                            disabled={loading}
+                                        >
+                                            <RefreshCwIcon
+                                                className={loading ? 'animate-spin' : ''}
+                                            />
+                                            Refresh
+                                        </Button>
+                                        <Button size="sm" onClick={handleCreate}>
+                                            <PlusIcon />
+                                            Add Goal
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {/* Summary Cards */}
+                                <div className="grid gap-4 md:grid-cols-3">
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Total Saved
+                                            </CardTitle>
+                                            <TargetIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">
+                                                {formatCurrency(meta?.total_current_amount)}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                {formatPercent(meta?.overall_progress ?? 0)} of{' '}
+                                                {formatCurrency(meta?.total_target_amount)}
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Needed Monthly
+                                            </CardTitle>
+                                            <CalendarClockIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">
+                                                {formatCurrency(monthlyNeeded)}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                Across {activeGoals.length} active goals
+                                                {behindCount > 0 && (
+                                                    <span className="text-amber-600">
+                                                        {' • '}
+                                                        {behindCount} behind schedule
+                                                    </span>
+                                                )}
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                            <CardTitle className="text-sm font-medium">
+                                                Completed
+                                            </CardTitle>
+                                            <TrophyIcon className="h-4 w-4 text-muted-foreground" />
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="text-2xl font-bold">
+                                                {meta?.completed_goals ?? 0}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                Out of {meta?.total ?? 0} goals
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                </div>
+
+                                <Tabs
+                                    value={filter}
+                                    onValueChange={(value) => setFilter(value as GoalFilter)}
+                                >
+                                    <TabsList>
+                                        <TabsTrigger value="active">In Progress</TabsTrigger>
+                                        <TabsTrigger value="completed">Completed</TabsTrigger>
+                                        <TabsTrigger value="all">All</TabsTrigger>
+                                    </TabsList>
+                                </Tabs>
+
+                                {error && (
+                                    <p className="text-sm text-destructive">{error}</p>
+                                )}
+
+                                {/* Goal List */}
+                                {loading && !goals ? (
+                                    <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+                                        {Array.from({ length: 3 }).map((_, index) => (
+                                            <Skeleton key={index} className="h-56 w-full" />
+                                        ))}
+                                    </div>
+                                ) : filteredGoals.length === 0 ? (
+                                    <Card>
+                                        <CardContent className="py-10 text-center text-muted-foreground">
+                                            {list.length === 0
+                                                ? 'No goals yet. Add a goal to start saving towards it.'
+                                                : 'No goals match this filter.'}
+                                        </CardContent>
+                                    </Card>
+                                ) : (
+                                    <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+                                        {filteredGoals.map((goal) => (
+                                            <GoalCard
+                                                key={goal.id}
+                                                goal={goal}
+                                                onContribute={handleContribute}
+                                                onShowHistory={handleShowHistory}
+                                                onEdit={handleEdit}
+                                                onComplete={handleComplete}
+                                                onDelete={handleDelete}
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+
+            {/* Goal Form Modal (Add/Edit) */}
+            <GoalFormModal
+                open={showFormModal}
+                onOpenChange={(open) => {
+                    setShowFormModal(open);
+                    if (!open) {
+                        setEditingGoal(null);
+                    }
+                }}
+                goal={editingGoal}
+                onSubmit={handleFormSubmit}
+                isSubmitting={isSubmitting}
+            />
+
+            {/* Contribute Dialog */}
+            <GoalContributeDialog
+                open={showContributeDialog}
+                onOpenChange={setShowContributeDialog}
+                goal={selectedGoal}
+                onSubmit={handleContributeSubmit}
+                isSubmitting={isSubmitting}
+            />
+
+            {/* Contribution History */}
+            <GoalHistorySheet
+                open={showHistory}
+                onOpenChange={setShowHistory}
+                goal={selectedGoal}
+                refreshKey={historyRefreshKey}
+            />
+
+            {/* Delete Confirmation Dialog */}
+            <DeleteGoalDialog
+                open={showDeleteDialog}
+                onOpenChange={setShowDeleteDialog}
+                goal={deletingGoal}
+                onConfirm={confirmDelete}
+                isDeleting={isDeleting}
+            />
+        </>
+    );
+}
+
+interface GoalCardProps {
+    goal: FinancialGoal;
+    onContribute: (goal: FinancialGoal) => void;
+    onShowHistory: (goal: FinancialGoal) => void;
+    onEdit: (goal: FinancialGoal) => void;
+    onComplete: (goal: FinancialGoal) => void;
+    onDelete: (goal: FinancialGoal) => void;
+}
+
+function GoalCard({
+    goal,
+    onContribute,
+    onShowHistory,
+    onEdit,
+    onComplete,
+    onDelete,
+}: GoalCardProps) {
+    const progress = toNumber(goal.progress_percentage);
+    const milestones = (goal.milestone_settings?.milestones ?? badgeMilestones).filter(
+        (milestone) => badgeMilestones.includes(milestone)
+    );
+    const isActive = goal.status === 'active';
+
+    return (
+        <Card className={cn(!isActive && !goal.is_completed && 'opacity-60')}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                <div className="min-w-0">
+                    <CardTitle className="truncate text-base">{goal.name}</CardTitle>
+                    <CardDescription className="truncate">
+                        {goal.description || `Target ${formatDate(goal.target_date)}`}
+                    </CardDescription>
+                </div>
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <MoreVerticalIcon />
+                            <span className="sr-only">Open menu</span>
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => onShowHistory(goal)}>
+                            Contribution history
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onEdit(goal)}>Edit</DropdownMenuItem>
+                        {!goal.is_completed && (
+                            <DropdownMenuItem onClick={() => onComplete(goal)}>
+                                Mark as completed
+                            </DropdownMenuItem>
+                        )}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                            className="text-destructive"
+                            onClick={() => onDelete(goal)}
+                        >
+                            Delete
+                        </DropdownMenuItem>
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex items-center gap-4">
+                    <ProgressRing value={progress} color={goal.color}>
+                        {goal.is_completed ? (
+                            <CheckCircle2Icon className="h-6 w-6 text-green-600" />
+                        ) : (
+                            <span className="text-sm font-semibold tabular-nums">
+                                {formatPercent(progress, 0)}
+                            </span>
+                        )}
+                    </ProgressRing>
+                    <div className="min-w-0 space-y-1">
+                        <div className="text-2xl font-bold tabular-nums">
+                            {formatCurrency(goal.current_amount)}
+                        </div>
+                        <div className="text-sm text-muted-foreground tabular-nums">
+                            of {formatCurrency(goal.target_amount)}
+                        </div>
+                    </div>
+                </div>
+
+                {/* Dates */}
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                    <div>
+                        <div className="text-muted-foreground">Target date</div>
+                        <div
+                            className={cn(
+                                'font-medium',
+                                goal.is_overdue && !goal.is_completed && 'text-red-600'
+                            )}
+                        >
+                            {formatDate(goal.target_date)}
+                        </div>
+                    </div>
+                    <div>
+                        <div className="text-muted-foreground">Projected</div>
+                        <div className="font-medium">
+                            {goal.is_completed
+                                ? 'Completed'
+                                : goal.projected_completion_date
+                                  ? formatDate(goal.projected_completion_date)
+                                  : 'Not enough history'}
+                        </div>
+                    </div>
+                </div>
+
+                {/* Milestone Badges */}
+                <div className="flex flex-wrap items-center gap-2">
+                    {milestones.map((milestone) => {
+                        const reached = progress >= milestone;
+                        return (
+                            <Badge
+                                key={milestone}
+                                variant={reached ? 'secondary' : 'outline'}
+                                className={cn(!reached && 'text-muted-foreground')}
+                            >
+                                {reached && <FlagIcon className="h-3 w-3" />}
+                                {milestone}%
+                            </Badge>
+                        );
+                    })}
+                    <Badge
+                        variant="outline"
+                        className={cn('capitalize', priorityColors[goal.priority])}
+                    >
+                        {goal.priority}
+                    </Badge>
+                    {isActive && !goal.is_on_track && (
+                        <Badge variant="outline" className="text-amber-600 border-amber-500/40">
+                            Behind schedule
+                        </Badge>
+                    )}
+                    {goal.status === 'paused' && <Badge variant="outline">Paused</Badge>}
+                    {goal.status === 'cancelled' && <Badge variant="outline">Cancelled</Badge>}
+                </div>
+
+                {isActive && (
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-muted-foreground">
+                            {formatCurrency(goal.required_monthly_contribution)}/month to stay on
+                            target
+                        </span>
+                        <Button size="sm" variant="outline" onClick={() => onContribute(goal)}>
+                            <PlusIcon />
+                            Contribute
+                        </Button>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,454 @@
+// resources/js/Pages/Notifications.tsx
+
+import { useState } from 'react';
+import { Head, router } from '@inertiajs/react';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    CheckCheckIcon,
+    ChevronLeftIcon,
+    ChevronRightIcon,
+    RefreshCwIcon,
+    Trash2Icon,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage } from '@/lib/api';
+import { notifyNotificationsChanged } from '@/components/notification-bell';
+import { NotificationItem, notificationTypes } from '@/components/notification-item';
+import type {
+    AppNotification,
+    NotificationListMeta,
+    UnreadCount,
+} from '@/types/notification';
+
+type ReadFilter = 'all' | 'unread' | 'read';
+
+export default function Notifications() {
+    const { toast } = useToast();
+    const [type, setType] = useState('all');
+    const [priority, setPriority] = useState('all');
+    const [readFilter, setReadFilter] = useState<ReadFilter>('all');
+    const [page, setPage] = useState(1);
+    const [selectedIds, setSelectedIds] = useState<number[]>([]);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const {
+        data: notifications,
+        meta: pagination,
+        loading,
+        error,
+        reload,
+    } = useApi<AppNotification[], NotificationListMeta>('/notifications', {
+        page,
+        per_page: 20,
+        channel: 'app',
+        type: type === 'all' ? undefined : type,
+        priority: priority === 'all' ? undefined : priority,
+        // The API validates is_read as a boolean, which accepts 1/0 but not "true"/"false"
+        is_read: readFilter === 'all' ? undefined : readFilter === 'read' ? 1 : 0,
+    });
+    const { data: unread, reload: reloadUnread } = useApi<UnreadCount>(
+        '/notifications/status/unread-count'
+    );
+
+    const list = notifications ?? [];
+    const allSelected = list.length > 0 && list.every((n) => selectedIds.includes(n.id));
+
+    const refreshAll = () => {
+        reload();
+        reloadUnread();
+        setSelectedIds([]);
+        notifyNotificationsChanged();
+    };
+
+    // Changing a filter starts again from the first page
+    const updateFilter = (update: () => void) => {
+        update();
+        setPage(1);
+        setSelectedIds([]);
+    };
+
+    const toggleSelected = (id: number, checked: boolean) => {
+        setSelectedIds((ids) => (checked ? [...ids, id] : ids.filter((i) => i !== id)));
+    };
+
+    const runAction = async (
+        action: () => Promise<unknown>,
+        success: string,
+        fallback: string
+    ) => {
+        setIsWorking(true);
+        try {
+            await action();
+            toast({
+                title: 'Success',
+                description: success,
+            });
+            refreshAll();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, fallback),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleMarkSelectedRead = () =>
+        runAction(
+            () =>
+                Promise.all(
+                    list
+                        .filter((n) => selectedIds.includes(n.id) && !n.is_read)
+                        .map((n) => api.put(`/notifications/${n.id}/read`))
+                ),
+            'Notifications marked as read',
+            'Failed to mark notifications as read'
+        );
+
+    const handleDeleteSelected = () =>
+        runAction(
+            () =>
+                api.delete('/notifications/bulk/delete', {
+                    data: { notification_ids: selectedIds },
+                }),
+            `Deleted ${selectedIds.length} notifications`,
+            'Failed to delete notifications'
+        );
+
+    const handleMarkAllRead = () =>
+        runAction(
+            () => api.put('/notifications/read-all'),
+            'All notifications marked as read',
+            'Failed to mark notifications as read'
+        );
+
+    const handleClearRead = () =>
+        runAction(
+            () => api.delete('/notifications/bulk/delete', { data: { scope: 'read' } }),
+            'Read notifications cleared',
+            'Failed to clear notifications'
+        );
+
+    const handleOpen = async (notification: AppNotification) => {
+        if (!notification.is_read) {
+            try {
+                await api.put(`/notifications/${notification.id}/read`);
+                reload();
+                reloadUnread();
+                notifyNotificationsChanged();
+            } catch (err) {
+                toast({
+                    title: 'Error',
+                    description: getApiErrorMessage(err, 'Failed to mark notification as read'),
+                    variant: 'destructive',
+                });
+            }
+        }
+        if (notification.action_url) {
+            router.visit(notification.action_url);
+        }
+    };
+
+    return (
+        <>
+            <Head title="Notifications" />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+                                {/* Header Section */}
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <h1 className="text-3xl font-bold">Notifications</h1>
+                                        <p className="text-muted-foreground">
+                                            {unread
+                                                ? `${unread.total_unread} unread`
+                                                : 'Alerts about your budgets, bills, goals and accounts'}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={refreshAll}
+                                            disabled={loading}
+                                        >
+                                            <RefreshCwIcon
+                                                className={loading ? 'animate-spin' : ''}
+                                            />
+                                            Refresh
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={handleClearRead}
+                                            disabled={isWorking}
+                                        >
+                                            <Trash2Icon />
+                                            Clear read
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            onClick={handleMarkAllRead}
+                                            disabled={isWorking || (unread?.total_unread ?? 0) === 0}
+                                        >
+                                            <CheckCheckIcon />
+                                            Mark all read
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {/* Unread by Type */}
+                                <div className="grid gap-4 grid-cols-2 md:grid-cols-3 xl:grid-cols-6">
+                                    {notificationTypes.map((t) => {
+                                        const Icon = t.icon;
+                                        const count = unread?.by_type[t.value] ?? 0;
+
+                                        return (
+                                            <Card
+                                                key={t.value}
+                                                className={
+                                                    type === t.value
+                                                        ? 'cursor-pointer ring-2 ring-primary'
+                                                        : 'cursor-pointer'
+                                                }
+                                                onClick={() =>
+                                                    updateFilter(() =>
+                                                        setType(type === t.value ? 'all' : t.value)
+                                                    )
+                                                }
+                                            >
+                                                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                                    <CardTitle className="text-sm font-medium">
+                                                        {t.label}
+                                                    </CardTitle>
+                                                    <Icon className="h-4 w-4 text-muted-foreground" />
+                                                </CardHeader>
+                                                <CardContent>
+                                                    <div className="text-2xl font-bold">{count}</div>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        unread
+                                                    </p>
+                                                </CardContent>
+                                            </Card>
+                                        );
+                                    })}
+                                </div>
+
+                                {/* Notification List */}
+                                <Card>
+                                    <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+                                        <div className="space-y-1.5">
+                                            <CardTitle>All Notifications</CardTitle>
+                                            <CardDescription>
+                                                {pagination
+                                                    ? `${pagination.total} notifications`
+                                                    : 'Newest first'}
+                                            </CardDescription>
+                                        </div>
+                                        <div className="flex flex-wrap gap-2">
+                                            <Select
+                                                value={type}
+                                                onValueChange={(value) =>
+                                                    updateFilter(() => setType(value))
+                                                }
+                                            >
+                                                <SelectTrigger className="w-40">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value="all">All types</SelectItem>
+                                                    {notificationTypes.map((t) => (
+                                                        <SelectItem key={t.value} value={t.value}>
+                                                            {t.label}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                            <Select
+                                                value={priority}
+                                                onValueChange={(value) =>
+                                                    updateFilter(() => setPriority(value))
+                                                }
+                                            >
+                                                <SelectTrigger className="w-36">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value="all">All priorities</SelectItem>
+                                                    <SelectItem value="high">High</SelectItem>
+                                                    <SelectItem value="normal">Normal</SelectItem>
+                                                    <SelectItem value="low">Low</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                            <Select
+                                                value={readFilter}
+                                                onValueChange={(value: ReadFilter) =>
+                                                    updateFilter(() => setReadFilter(value))
+                                                }
+                                            >
+                                                <SelectTrigger className="w-32">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value="all">All</SelectItem>
+                                                    <SelectItem value="unread">Unread</SelectItem>
+                                                    <SelectItem value="read">Read</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                    </CardHeader>
+                                    <CardContent className="space-y-2">
+                                        {/* Bulk Actions */}
+                                        <div className="flex items-center justify-between gap-2 border-b pb-2">
+                                            <div className="flex items-center gap-2">
+                                                <Checkbox
+                                                    id="select_all_notifications"
+                                                    checked={allSelected}
+                                                    disabled={list.length === 0}
+                                                    onCheckedChange={(checked) =>
+                                                        setSelectedIds(
+                                                            checked ? list.map((n) => n.id) : []
+                                                        )
+                                                    }
+                                                />
+                                                <label
+                                                    htmlFor="select_all_notifications"
+                                                    className="text-sm text-muted-foreground"
+                                                >
+                                                    {selectedIds.length > 0
+                                                        ? `${selectedIds.length} selected`
+                                                        : 'Select all'}
+                                                </label>
+                                            </div>
+                                            {selectedIds.length > 0 && (
+                                                <div className="flex gap-2">
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        onClick={handleMarkSelectedRead}
+                                                        disabled={isWorking}
+                                                    >
+                                                        Mark read
+                                                    </Button>
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        className="text-destructive"
+                                                        onClick={handleDeleteSelected}
+                                                        disabled={isWorking}
+                                                    >
+                                                        Delete
+                                                    </Button>
+                                                </div>
+                                            )}
+                                        </div>
+
+                                        {error && (
+                                            <p className="text-sm text-destructive">{error}</p>
+                                        )}
+                                        {loading && !notifications ? (
+                                            Array.from({ length: 5 }).map((_, index) => (
+                                                <Skeleton key={index} className="h-16 w-full" />
+                                            ))
+                                        ) : list.length === 0 ? (
+                                            <p className="py-10 text-center text-sm text-muted-foreground">
+                                                No notifications match these filters.
+                                            </p>
+                                        ) : (
+                                            list.map((notification) => (
+                                                <div
+                                                    key={notification.id}
+                                                    className="flex items-start gap-2"
+                                                >
+                                                    <Checkbox
+                                                        className="mt-3"
+                                                        checked={selectedIds.includes(notification.id)}
+                                                        onCheckedChange={(checked) =>
+                                                            toggleSelected(notification.id, !!checked)
+                                                        }
+                                                        aria-label={`Select ${notification.title}`}
+                                                    />
+                                                    <div className="min-w-0 flex-1">
+                                                        <NotificationItem
+                                                            notification={notification}
+                                                            onClick={handleOpen}
+                                                        />
+                                                    </div>
+                                                    <span className="mt-2.5 hidden shrink-0 text-xs text-muted-foreground sm:block">
+                                                        {notification.type_label}
+                                                    </span>
+                                                </div>
+                                            ))
+                                        )}
+
+                                        {pagination && pagination.last_page > 1 && (
+                                            <div className="flex items-center justify-between pt-4">
+                                                <p className="text-sm text-muted-foreground">
+                                                    Page {pagination.current_page} of{' '}
+                                                    {pagination.last_page}
+                                                </p>
+                                                <div className="flex gap-2">
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        onClick={() => {
+                                                            setPage(page - 1);
+                                                            setSelectedIds([]);
+                                                        }}
+                                                        disabled={page <= 1}
+                                                    >
+                                                        <ChevronLeftIcon />
+                                                        Previous
+                                                    </Button>
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        onClick={() => {
+                                                            setPage(page + 1);
+                                                            setSelectedIds([]);
+                                                        }}
+                                                        disabled={page >= pagination.last_page}
+                                                    >
+                                                        Next
+                                                        <ChevronRightIcon />
+                                                    </Button>
+                                                </div>
+                                            </div>
+                                        )}
+                                    </CardContent>
+                                </Card>
+                            </div>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+        </>
+    );
+}
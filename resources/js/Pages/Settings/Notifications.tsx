@@ -0,0 +1,450 @@
+// resources/js/Pages/Settings/Notifications.tsx
+
+import * as React from 'react';
+import { useState } from 'react';
+import { Head } from '@inertiajs/react';
+import { useForm, type FieldErrors, type UseFormRegister } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { Loader2Icon, MoonIcon, SendIcon } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage, type ApiResponse } from '@/lib/api';
+import { notifyNotificationsChanged } from '@/components/notification-bell';
+import { getNotificationIcon } from '@/components/notification-item';
+import type {
+    NotificationChannel,
+    NotificationSettings,
+    NotificationType,
+} from '@/types/notification';
+
+const timePattern = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const channelSchema = z.object({
+    app: z.boolean(),
+    email: z.boolean(),
+    sms: z.boolean(),
+});
+
+const settingsSchema = z.object({
+    matrix: z.record(z.string(), channelSchema),
+    preferences: z.object({
+        low_balance_threshold: z
+            .number({ error: 'Threshold must be a number' })
+            .min(0, 'Threshold cannot be negative'),
+        reminder_days_before: z
+            .number({ error: 'Days must be a number' })
+            .int('Days must be a whole number')
+            .min(1, 'Remind at least 1 day before')
+            .max(30, 'Remind at most 30 days before'),
+        budget_alert_percentage: z
+            .number({ error: 'Percentage must be a number' })
+            .int('Percentage must be a whole number')
+            .min(50, 'Alert at 50% or more')
+            .max(100, 'Alert at 100% or less'),
+        quiet_hours_enabled: z.boolean(),
+        quiet_hours_start: z.string().regex(timePattern, 'Use HH:MM'),
+        quiet_hours_end: z.string().regex(timePattern, 'Use HH:MM'),
+    }),
+});
+
+type SettingsFormData = z.infer<typeof settingsSchema>;
+
+const channels: { value: NotificationChannel; label: string }[] = [
+    { value: 'app', label: 'In-App' },
+    { value: 'email', label: 'Email' },
+    { value: 'sms', label: 'SMS' },
+];
+
+const matrixTypes: { value: NotificationType; label: string; description: string }[] = [
+    {
+        value: 'budget_alert',
+        label: 'Budget alert',
+        description: 'When spending in a budget reaches the alert level',
+    },
+    {
+        value: 'bill_reminder',
+        label: 'Bill reminder',
+        description: 'Before a bill is due and when it becomes overdue',
+    },
+    {
+        value: 'goal_milestone',
+        label: 'Goal milestone',
+        description: 'At 25%, 50%, 75% and 100% of a savings goal',
+    },
+    {
+        value: 'low_balance',
+        label: 'Low balance',
+        description: 'When an account balance drops below the threshold',
+    },
+];
+
+export default function NotificationSettingsPage() {
+    const { toast } = useToast();
+    const { data: settings, loading, error, reload } = useApi<NotificationSettings>(
+        '/notifications/user/settings'
+    );
+    const [isSaving, setIsSaving] = useState(false);
+    const [testingType, setTestingType] = useState<NotificationType | null>(null);
+
+    const {
+        register,
+        handleSubmit,
+        setValue,
+        watch,
+        reset,
+        formState: { errors, isDirty },
+    } = useForm<SettingsFormData>({
+        resolver: zodResolver(settingsSchema),
+    });
+
+    // Load the saved settings into the form
+    React.useEffect(() => {
+        if (settings) {
+            reset(settings);
+        }
+    }, [settings, reset]);
+
+    const matrix = watch('matrix');
+    const quietHoursEnabled = watch('preferences.quiet_hours_enabled');
+
+    const setCell = (type: NotificationType, channel: NotificationChannel, checked: boolean) => {
+        setValue(`matrix.${type}.${channel}`, checked, { shouldDirty: true });
+    };
+
+    // Clicking a column header turns the channel on for every type, or off if it already is
+    const toggleChannel = (channel: NotificationChannel) => {
+        const allOn = matrixTypes.every((type) => matrix?.[type.value]?.[channel]);
+        matrixTypes.forEach((type) => setCell(type.value, channel, !allOn));
+    };
+
+    const onSubmit = async (data: SettingsFormData) => {
+        setIsSaving(true);
+        try {
+            const { data: response } = await api.put<ApiResponse<NotificationSettings>>(
+                '/notifications/user/settings',
+                data
+            );
+            reset(response.data);
+            toast({
+                title: 'Success',
+                description: 'Notification settings saved',
+            });
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to save notification settings'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSendTest = async (type: NotificationType) => {
+        const enabled = channels.find((c) => matrix?.[type]?.[c.value]);
+
+        setTestingType(type);
+        try {
+            await api.post('/notifications/test/send', {
+                type,
+                channel: enabled?.value ?? 'app',
+            });
+            toast({
+                title: 'Success',
+                description: `Test notification sent${enabled ? ` via ${enabled.label}` : ''}`,
+            });
+            notifyNotificationsChanged();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to send test notification'),
+                variant: 'destructive',
+            });
+        } finally {
+            setTestingType(null);
+        }
+    };
+
+    return (
+        <>
+            <Head title="Notification Settings" />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <form
+                                onSubmit={handleSubmit(onSubmit)}
+                                className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6"
+                            >
+                                {/* Header Section */}
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <h1 className="text-3xl font-bold">Notification Settings</h1>
+                                        <p className="text-muted-foreground">
+                                            Choose what you hear about and where
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button
+                                            type="button"
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => (settings ? reset(settings) : reload())}
+                                            disabled={!isDirty || isSaving}
+                                        >
+                                            Discard
+                                        </Button>
+                                        <Button
+                                            type="submit"
+                                            size="sm"
+                                            disabled={!settings || !isDirty || isSaving}
+                                        >
+                                            {isSaving && <Loader2Icon className="animate-spin" />}
+                                            Save Changes
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {error && <p className="text-sm text-destructive">{error}</p>}
+
+                                {/* Type x Channel Matrix */}
+                                <Card>
+                                    <CardHeader>
+                                        <CardTitle>Delivery</CardTitle>
+                                        <CardDescription>
+                                            Tick the channels each alert is sent on. Click a
+                                            channel heading to toggle the whole column.
+                                        </CardDescription>
+                                    </CardHeader>
+                                    <CardContent>
+                                        {loading && !settings ? (
+                                            <Skeleton className="h-72 w-full" />
+                                        ) : (
+                                            <Table>
+                                                <TableHeader>
+                                                    <TableRow>
+                                                        <TableHead>Notification</TableHead>
+                                                        <TableHead>Threshold</TableHead>
+                                                        {channels.map((channel) => (
+                                                            <TableHead
+                                                                key={channel.value}
+                                                                className="w-20 text-center"
+                                                            >
+                                                                <button
+                                                                    type="button"
+                                                                    className="underline-offset-2 hover:underline"
+                                                                    onClick={() => toggleChannel(channel.value)}
+                                                                >
+                                                                    {channel.label}
+                                                                </button>
+                                                            </TableHead>
+                                                        ))}
+                                                        <TableHead className="w-28" />
+                                                    </TableRow>
+                                                </TableHeader>
+                                                <TableBody>
+                                                    {matrixTypes.map((type) => {
+                                                        const Icon = getNotificationIcon(type.value);
+
+                                                        return (
+                                                            <TableRow key={type.value}>
+                                                                <TableCell>
+                                                                    <div className="flex items-start gap-3">
+                                                                        <Icon className="mt-0.5 h-4 w-4 text-muted-foreground" />
+                                                                        <div>
+                                                                            <div className="font-medium">
+                                                                                {type.label}
+                                                                            </div>
+                                                                            <div className="text-xs text-muted-foreground whitespace-normal">
+                                                                                {type.description}
+                                                                            </div>
+                                                                        </div>
+                                                                    </div>
+                                                                </TableCell>
+                                                                <TableCell>
+                                                                    <ThresholdField
+                                                                        type={type.value}
+                                                                        register={register}
+                                                                        errors={errors}
+                                                                    />
+                                                                </TableCell>
+                                                                {channels.map((channel) => (
+                                                                    <TableCell
+                                                                        key={channel.value}
+                                                                        className="text-center"
+                                                                    >
+                                                                        <Checkbox
+                                                                            checked={!!matrix?.[type.value]?.[channel.value]}
+                                                                            onCheckedChange={(checked) =>
+                                                                                setCell(type.value, channel.value, !!checked)
+                                                                            }
+                                                                            aria-label={`${type.label} via ${channel.label}`}
+                                                                        />
+                                                                    </TableCell>
+                                                                ))}
+                                                                <TableCell className="text-right">
+                                                                    <Button
+                                                                        type="button"
+                                                                        variant="ghost"
+                                                                        size="sm"
+                                                                        onClick={() => handleSendTest(type.value)}
+                                                                        disabled={testingType !== null}
+                                                                    >
+                                                                        {testingType === type.value ? (
+                                                                            <Loader2Icon className="animate-spin" />
+                                                                        ) : (
+                                                                            <SendIcon />
+                                                                        )}
+                                                                        Test
+                                                                    </Button>
+                                                                </TableCell>
+                                                            </TableRow>
+                                                        );
+                                                    })}
+                                                </TableBody>
+                                            </Table>
+                                        )}
+                                    </CardContent>
+                                </Card>
+
+                                {/* Quiet Hours */}
+                                <Card>
+                                    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                                        <div className="space-y-1.5">
+                                            <CardTitle>Quiet Hours</CardTitle>
+                                            <CardDescription>
+                                                Don&apos;t send email or SMS alerts during these
+                                                hours. In-app notifications still arrive.
+                                            </CardDescription>
+                                        </div>
+                                        <MoonIcon className="h-4 w-4 text-muted-foreground" />
+                                    </CardHeader>
+                                    <CardContent className="space-y-4">
+                                        <div className="flex items-center space-x-2">
+                                            <Checkbox
+                                                id="quiet_hours_enabled"
+                                                checked={!!quietHoursEnabled}
+                                                disabled={!settings}
+                                                onCheckedChange={(checked) =>
+                                                    setValue('preferences.quiet_hours_enabled', !!checked, {
+                                                        shouldDirty: true,
+                                                    })
+                                                }
+                                            />
+                                            <Label
+                                                htmlFor="quiet_hours_enabled"
+                                                className="text-sm font-normal"
+                                            >
+                                                Enable quiet hours
+                                            </Label>
+                                        </div>
+                                        {quietHoursEnabled && (
+                                            <div className="grid max-w-sm grid-cols-2 gap-4">
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="quiet_hours_start">From</Label>
+                                                    <Input
+                                                        id="quiet_hours_start"
+                                                        type="time"
+                                                        {...register('preferences.quiet_hours_start')}
+                                                        aria-invalid={!!errors.preferences?.quiet_hours_start}
+                                                    />
+                                                    {errors.preferences?.quiet_hours_start && (
+                                                        <p className="text-sm text-destructive">
+                                                            {errors.preferences.quiet_hours_start.message}
+                                                        </p>
+                                                    )}
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="quiet_hours_end">Until</Label>
+                                                    <Input
+                                                        id="quiet_hours_end"
+                                                        type="time"
+                                                        {...register('preferences.quiet_hours_end')}
+                                                        aria-invalid={!!errors.preferences?.quiet_hours_end}
+                                                    />
+                                                    {errors.preferences?.quiet_hours_end && (
+                                                        <p className="text-sm text-destructive">
+                                                            {errors.preferences.quiet_hours_end.message}
+                                                        </p>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        )}
+                                    </CardContent>
+                                </Card>
+                            </form>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+        </>
+    );
+}
+
+interface ThresholdFieldProps {
+    type: NotificationType;
+    register: UseFormRegister<SettingsFormData>;
+    errors: FieldErrors<SettingsFormData>;
+}
+
+// Per-type threshold input shown in the matrix row
+function ThresholdField({ type, register, errors }: ThresholdFieldProps) {
+    const field =
+        type === 'budget_alert'
+            ? { name: 'budget_alert_percentage' as const, prefix: 'At', suffix: '% spent', step: '1' }
+            : type === 'bill_reminder'
+              ? { name: 'reminder_days_before' as const, prefix: '', suffix: 'days before', step: '1' }
+              : type === 'low_balance'
+                ? { name: 'low_balance_threshold' as const, prefix: 'Below', suffix: '', step: '0.01' }
+                : null;
+
+    if (!field) {
+        return <span className="text-xs text-muted-foreground">—</span>;
+    }
+
+    const error = errors.preferences?.[field.name];
+
+    return (
+        <div className="space-y-1">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                {field.prefix && <span>{field.prefix}</span>}
+                <Input
+                    type="number"
+                    step={field.step}
+                    className="h-8 w-24"
+                    {...register(`preferences.${field.name}`, { valueAsNumber: true })}
+                    aria-invalid={!!error}
+                />
+                {field.suffix && <span className="whitespace-nowrap">{field.suffix}</span>}
+            </div>
+            {error && <p className="text-xs text-destructive">{error.message}</p>}
+        </div>
+    );
+}
@@ -1,11 +1,17 @@
 // resources/js/Pages/Transactions.tsx
 
 import { useState, useEffect } from 'react';
-import { Head, router, usePage } from '@inertiajs/react';
+import { Head, Link, router, usePage } from '@inertiajs/react';
 import { AppSidebar } from '@/components/app-sidebar';
 import { SiteHeader } from '@/components/site-header';
 import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
 import { Button } from '@/components/ui/button';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
     Card,
     CardContent,
@@ -14,15 +20,19 @@ import {
     CardTitle,
 } from '@/components/ui/card';
 import {
+    CopyIcon,
     PlusIcon,
     RefreshCwIcon,
     TrendingUpIcon,
     TrendingDownIcon,
+    UploadIcon,
     WalletIcon,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { DataTableTransactions } from '@/components/data-table-transactions';
 import { TransactionFormModal } from '@/components/transaction-form-modal';
+import { ImportTransactionsDialog } from '@/components/import-transactions-dialog';
+import { ImportStatementDialog } from '@/components/import-statement-dialog';
 import {
     DeleteTransactionDialog,
     BulkDeleteTransactionDialog,
@@ -155,6 +165,8 @@ export default function Transactions() {
     const [showFormModal, setShowFormModal] = useState(false);
     const [showDeleteDialog, setShowDeleteDialog] = useState(false);
     const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
+    const [showImportDialog, setShowImportDialog] = useState(false);
+    const [showStatementDialog, setShowStatementDialog] = useState(false);
     const [editingTransaction, setEditingTransaction] =
         useState<Transaction | null>(null);
     const [deletingTransaction, setDeletingTransaction] =
@@ -460,6 +472,47 @@ export default function Transactions() {
                                                 {selectedTransactions.length})
                                             </Button>
                                         )}
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            asChild
+                                        >
+                                            <Link href="/transactions/duplicates">
+                                                <CopyIcon />
+                                                Find Duplicates
+                                            </Link>
+                                        </Button>
+                                        <DropdownMenu>
+                                            <DropdownMenuTrigger asChild>
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                >
+                                                    <UploadIcon />
+                                                    Import
+                                                </Button>
+                                            </DropdownMenuTrigger>
+                                            <DropdownMenuContent align="end">
+                                                <DropdownMenuItem
+                                                    onClick={() =>
+                                                        setShowImportDialog(
+                                                            true
+                                                        )
+                                                    }
+                                                >
+                                                    CSV file
+                                                </DropdownMenuItem>
+                                                <DropdownMenuItem
+                                                    onClick={() =>
+                                                        setShowStatementDialog(
+                                                            true
+                                                        )
+                                                    }
+                                                >
+                                                    OFX / QFX / QIF statement
+                                                </DropdownMenuItem>
+                                            </DropdownMenuContent>
+                                        </DropdownMenu>
                                         <Button
                                             size="sm"
                                             onClick={handleCreate}
@@ -594,6 +647,20 @@ export default function Transactions() {
                 isSubmitting={isSubmitting}
             />
 
+            {/* CSV Import Wizard */}
+            <ImportTransactionsDialog
+                open={showImportDialog}
+                onOpenChange={setShowImportDialog}
+                onImported={handleRefresh}
+            />
+
+            {/* OFX/QFX/QIF Statement Import */}
+            <ImportStatementDialog
+                open={showStatementDialog}
+                onOpenChange={setShowStatementDialog}
+                onImported={handleRefresh}
+            />
+
             {/* Delete Confirmation Dialog */}
             <DeleteTransactionDialog
                 open={showDeleteDialog}
@@ -0,0 +1,449 @@
+// resources/js/Pages/Transactions/Duplicates.tsx
+
+import { useState } from 'react';
+import { Head, Link } from '@inertiajs/react';
+import { AppSidebar } from '@/components/app-sidebar';
+import { SiteHeader } from '@/components/site-header';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeftIcon, CheckCircle2Icon, Loader2Icon } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage } from '@/lib/api';
+import { formatCurrency, formatDate, toNumber } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import type { Account } from '@/types/account';
+import type { DuplicateGroup, DuplicateTransaction } from '@/types/transaction';
+
+const dayOptions = [
+    { value: '0', label: 'Same day' },
+    { value: '1', label: 'Within 1 day' },
+    { value: '3', label: 'Within 3 days' },
+    { value: '7', label: 'Within a week' },
+    { value: '14', label: 'Within 2 weeks' },
+];
+
+const toleranceOptions = [
+    { value: '0', label: 'Exact amount' },
+    { value: '1', label: 'Within 1%' },
+    { value: '5', label: 'Within 5%' },
+];
+
+const similarityOptions = [
+    { value: '60', label: 'Loose' },
+    { value: '70', label: 'Normal' },
+    { value: '85', label: 'Strict' },
+];
+
+// Matches the notes limit of the transaction endpoints
+const MAX_NOTES_LENGTH = 1000;
+
+const ALL = 'all';
+
+/**
+ * Notes of every entry in the group, the kept one first, without repeats.
+ */
+function mergeNotes(transactions: DuplicateTransaction[]): string | null {
+    const notes = [...new Set(transactions.map((t) => t.notes?.trim() ?? '').filter(Boolean))];
+    return notes.length > 0 ? notes.join('\n').slice(0, MAX_NOTES_LENGTH) : null;
+}
+
+function mergeTags(transactions: DuplicateTransaction[]): string[] {
+    return [...new Set(transactions.flatMap((t) => t.tags ?? []))];
+}
+
+export default function TransactionDuplicates() {
+    const { toast } = useToast();
+    const [days, setDays] = useState('3');
+    const [tolerance, setTolerance] = useState('1');
+    const [similarity, setSimilarity] = useState('70');
+    const [accountId, setAccountId] = useState(ALL);
+    // Chosen keeper per group; falls back to the suggested one
+    const [keepIds, setKeepIds] = useState<Record<string, number>>({});
+    const [mergingGroup, setMergingGroup] = useState<DuplicateGroup | null>(null);
+    const [isMerging, setIsMerging] = useState(false);
+    const [ignoringKey, setIgnoringKey] = useState<string | null>(null);
+
+    const { data: accounts } = useApi<Account[]>('/accounts');
+    const {
+        data: groups,
+        loading,
+        error,
+        reload,
+    } = useApi<DuplicateGroup[]>('/transactions/duplicates/groups', {
+        days,
+        amount_tolerance: tolerance,
+        similarity,
+        account_id: accountId === ALL ? undefined : accountId,
+    });
+
+    const keepIdFor = (group: DuplicateGroup) => keepIds[group.key] ?? group.suggested_keep_id;
+
+    const ignoreGroup = async (group: DuplicateGroup) => {
+        setIgnoringKey(group.key);
+        try {
+            await api.post('/transactions/duplicates/ignore', {
+                transaction_ids: group.transactions.map((t) => t.id),
+            });
+            reload();
+            toast({
+                title: 'Success',
+                description: 'Marked as not duplicates',
+            });
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to update duplicates'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIgnoringKey(null);
+        }
+    };
+
+    const confirmMerge = async () => {
+        if (!mergingGroup) return;
+
+        const keepId = keepIdFor(mergingGroup);
+        const keeper = mergingGroup.transactions.find((t) => t.id === keepId);
+        const others = mergingGroup.transactions.filter((t) => t.id !== keepId);
+        if (!keeper) return;
+
+        const ordered = [keeper, ...others];
+
+        setIsMerging(true);
+        try {
+            // Notes and tags are carried over and the others deleted in one request
+            await api.post('/transactions/duplicates/merge', {
+                keep_id: keeper.id,
+                transaction_ids: others.map((t) => t.id),
+                notes: mergeNotes(ordered),
+                tags: mergeTags(ordered),
+            });
+            toast({
+                title: 'Success',
+                description: `Merged ${others.length} ${
+                    others.length === 1 ? 'duplicate' : 'duplicates'
+                } into "${keeper.description}"`,
+            });
+            setMergingGroup(null);
+            reload();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to merge duplicates'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsMerging(false);
+        }
+    };
+
+    return (
+        <>
+            <Head title="Find Duplicates" />
+
+            <SidebarProvider>
+                <AppSidebar variant="inset" />
+                <SidebarInset>
+                    <SiteHeader />
+                    <div className="flex flex-1 flex-col">
+                        <div className="@container/main flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+                                {/* Header Section */}
+                                <div className="flex items-center gap-4">
+                                    <Link href="/transactions">
+                                        <Button variant="outline" size="icon">
+                                            <ArrowLeftIcon className="h-4 w-4" />
+                                        </Button>
+                                    </Link>
+                                    <div>
+                                        <h1 className="text-3xl font-bold">Find Duplicates</h1>
+                                        <p className="text-muted-foreground">
+                                            Transactions in the same account with matching amounts,
+                                            close dates and similar descriptions
+                                        </p>
+                                    </div>
+                                </div>
+
+                                {/* Matching Options */}
+                                <Card>
+                                    <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                                        <div className="space-y-2">
+                                            <Label>Dates</Label>
+                                            <Select value={days} onValueChange={setDays}>
+                                                <SelectTrigger className="w-full">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {dayOptions.map((option) => (
+                                                        <SelectItem key={option.value} value={option.value}>
+                                                            {option.label}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                        <div className="space-y-2">
+                                            <Label>Amounts</Label>
+                                            <Select value={tolerance} onValueChange={setTolerance}>
+                                                <SelectTrigger className="w-full">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {toleranceOptions.map((option) => (
+                                                        <SelectItem key={option.value} value={option.value}>
+                                                            {option.label}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                        <div className="space-y-2">
+                                            <Label>Description match</Label>
+                                            <Select value={similarity} onValueChange={setSimilarity}>
+                                                <SelectTrigger className="w-full">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {similarityOptions.map((option) => (
+                                                        <SelectItem key={option.value} value={option.value}>
+                                                            {option.label}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                        <div className="space-y-2">
+                                            <Label>Account</Label>
+                                            <Select value={accountId} onValueChange={setAccountId}>
+                                                <SelectTrigger className="w-full">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value={ALL}>All accounts</SelectItem>
+                                                    {(accounts ?? []).map((account) => (
+                                                        <SelectItem key={account.id} value={String(account.id)}>
+                                                            {account.name}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                    </CardContent>
+                                </Card>
+
+                                {/* Duplicate Groups */}
+                                {loading && !groups ? (
+                                    Array.from({ length: 2 }).map((_, index) => (
+                                        <Skeleton key={index} className="h-56 w-full" />
+                                    ))
+                                ) : error ? (
+                                    <p className="text-sm text-destructive">{error}</p>
+                                ) : !groups || groups.length === 0 ? (
+                                    <Card>
+                                        <CardContent className="flex flex-col items-center gap-2 py-10 text-center">
+                                            <CheckCircle2Icon className="h-8 w-8 text-green-600" />
+                                            <p className="font-medium">No duplicates found</p>
+                                            <p className="text-sm text-muted-foreground">
+                                                Nothing in the last 6 months matches these settings.
+                                            </p>
+                                        </CardContent>
+                                    </Card>
+                                ) : (
+                                    <>
+                                        <p className="text-sm text-muted-foreground">
+                                            {groups.length} {groups.length === 1 ? 'group' : 'groups'} of
+                                            possible duplicates. Pick the entry to keep; its notes and tags
+                                            are combined with the others before they are deleted.
+                                        </p>
+                                        {groups.map((group) => {
+                                            const keepId = keepIdFor(group);
+                                            const keeper = group.transactions.find((t) => t.id === keepId);
+                                            const ordered = keeper
+                                                ? [keeper, ...group.transactions.filter((t) => t.id !== keepId)]
+                                                : group.transactions;
+                                            const mergedNotes = mergeNotes(ordered);
+                                            const mergedTags = mergeTags(ordered);
+
+                                            return (
+                                                <Card key={group.key}>
+                                                    <CardHeader>
+                                                        <CardTitle>
+                                                            {group.transactions.length} possible duplicates
+                                                        </CardTitle>
+                                                        <CardDescription>
+                                                            {group.transactions[0].account?.name}
+                                                        </CardDescription>
+                                                    </CardHeader>
+                                                    <CardContent className="space-y-4">
+                                                        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                                                            {group.transactions.map((transaction) => (
+                                                                <DuplicateCard
+                                                                    key={transaction.id}
+                                                                    transaction={transaction}
+                                                                    kept={transaction.id === keepId}
+                                                                    onKeep={() =>
+                                                                        setKeepIds((current) => ({
+                                                                            ...current,
+                                                                            [group.key]: transaction.id,
+                                                                        }))
+                                                                    }
+                                                                />
+                                                            ))}
+                                                        </div>
+                                                        <div className="flex flex-wrap items-end justify-between gap-4">
+                                                            <div className="space-y-1 text-sm">
+                                                                <p className="text-muted-foreground">After merging</p>
+                                                                <p className="whitespace-pre-line">
+                                                                    {mergedNotes ?? 'No notes'}
+                                                                </p>
+                                                                {mergedTags.length > 0 && (
+                                                                    <div className="flex flex-wrap gap-1">
+                                                                        {mergedTags.map((tag) => (
+                                                                            <Badge key={tag} variant="secondary">
+                                                                                {tag}
+                                                                            </Badge>
+                                                                        ))}
+                                                                    </div>
+                                                                )}
+                                                            </div>
+                                                            <div className="flex gap-2">
+                                                                <Button
+                                                                    variant="outline"
+                                                                    onClick={() => ignoreGroup(group)}
+                                                                    disabled={ignoringKey === group.key}
+                                                                >
+                                                                    {ignoringKey === group.key && (
+                                                                        <Loader2Icon className="animate-spin" />
+                                                                    )}
+                                                                    Not Duplicates
+                                                                </Button>
+                                                                <Button
+                                                                    variant="destructive"
+                                                                    onClick={() => setMergingGroup(group)}
+                                                                >
+                                                                    Merge & Delete {group.transactions.length - 1}
+                                                                </Button>
+                                                            </div>
+                                                        </div>
+                                                    </CardContent>
+                                                </Card>
+                                            );
+                                        })}
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                </SidebarInset>
+            </SidebarProvider>
+
+            <AlertDialog
+                open={mergingGroup !== null}
+                onOpenChange={(open) => !open && !isMerging && setMergingGroup(null)}
+            >
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Merge duplicates?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {mergingGroup &&
+                                `${mergingGroup.transactions.length - 1} ${
+                                    mergingGroup.transactions.length - 1 === 1 ? 'transaction' : 'transactions'
+                                } will be deleted and their amounts removed from the account balance. Notes and tags are kept on the remaining entry. This cannot be undone.`}
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isMerging}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={(e) => {
+                                e.preventDefault();
+                                confirmMerge();
+                            }}
+                            disabled={isMerging}
+                            className="bg-destructive text-white hover:bg-destructive/90"
+                        >
+                            {isMerging && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                            Merge & Delete
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </>
+    );
+}
+
+interface DuplicateCardProps {
+    transaction: DuplicateTransaction;
+    kept: boolean;
+    onKeep: () => void;
+}
+
+function DuplicateCard({ transaction, kept, onKeep }: DuplicateCardProps) {
+    return (
+        <button
+            type="button"
+            onClick={onKeep}
+            className={cn(
+                'space-y-2 rounded-lg border p-4 text-left text-sm transition-colors',
+                kept ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+            )}
+        >
+            <div className="flex items-start justify-between gap-2">
+                <span className="font-medium">{transaction.description}</span>
+                {kept ? <Badge>Keep</Badge> : <Badge variant="outline">Delete</Badge>}
+            </div>
+            <p
+                className={cn(
+                    'text-lg font-semibold tabular-nums',
+                    transaction.type === 'income' ? 'text-green-600' : 'text-red-600'
+                )}
+            >
+                {formatCurrency(toNumber(transaction.amount))}
+            </p>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-muted-foreground">
+                <dt>Date</dt>
+                <dd className="text-foreground">{formatDate(transaction.date)}</dd>
+                <dt>Category</dt>
+                <dd className="text-foreground">{transaction.category?.name ?? '—'}</dd>
+                <dt>Reference</dt>
+                <dd className="text-foreground break-all">{transaction.reference_number ?? '—'}</dd>
+                <dt>Notes</dt>
+                <dd className="text-foreground whitespace-pre-line">{transaction.notes || '—'}</dd>
+                <dt>Tags</dt>
+                <dd className="text-foreground">
+                    {transaction.tags && transaction.tags.length > 0 ? transaction.tags.join(', ') : '—'}
+                </dd>
+                <dt>Added</dt>
+                <dd className="text-foreground">{transaction.created_at_human}</dd>
+            </dl>
+        </button>
+    );
+}
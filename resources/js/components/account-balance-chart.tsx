@@ -0,0 +1,167 @@
+"use client"
+
+import * as React from "react"
+import { subDays } from "date-fns"
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts"
+
+import { useApi } from "@/hooks/use-api"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  ToggleGroup,
+  ToggleGroupItem,
+} from "@/components/ui/toggle-group"
+import { formatCurrency, formatDate, toDateString, toNumber } from "@/lib/format"
+import type { BalanceHistoryPoint } from "@/types/account"
+
+type TimeRange = "30d" | "90d" | "365d"
+
+const rangeDays: Record<TimeRange, number> = {
+  "30d": 30,
+  "90d": 90,
+  "365d": 365,
+}
+
+const chartConfig = {
+  balance: {
+    label: "Balance",
+    color: "var(--chart-1)",
+  },
+} satisfies ChartConfig
+
+interface AccountBalanceChartProps {
+  accountId: number
+  currency?: string
+}
+
+export function AccountBalanceChart({
+  accountId,
+  currency = "PHP",
+}: AccountBalanceChartProps) {
+  const [timeRange, setTimeRange] = React.useState<TimeRange>("90d")
+
+  const params = React.useMemo(() => {
+    const end = new Date()
+    return {
+      start_date: toDateString(subDays(end, rangeDays[timeRange] - 1)),
+      end_date: toDateString(end),
+    }
+  }, [timeRange])
+
+  const { data, loading, error } = useApi<BalanceHistoryPoint[]>(
+    `/accounts/${accountId}/balance-history`,
+    params
+  )
+
+  const chartData = (data ?? []).map((point) => ({
+    date: point.date,
+    balance: toNumber(point.balance),
+  }))
+
+  return (
+    <Card className="@container/card">
+      <CardHeader className="relative">
+        <CardTitle>Balance History</CardTitle>
+        <CardDescription>End-of-day balance from recorded changes</CardDescription>
+        <div className="absolute right-4 top-4">
+          <ToggleGroup
+            type="single"
+            value={timeRange}
+            onValueChange={(value) => value && setTimeRange(value as TimeRange)}
+            variant="outline"
+          >
+            <ToggleGroupItem value="365d" className="h-8 px-2.5">
+              1y
+            </ToggleGroupItem>
+            <ToggleGroupItem value="90d" className="h-8 px-2.5">
+              90d
+            </ToggleGroupItem>
+            <ToggleGroupItem value="30d" className="h-8 px-2.5">
+              30d
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </CardHeader>
+      <CardContent className="px-2 pt-4 sm:px-6 sm:pt-6">
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : loading && !data ? (
+          <Skeleton className="h-[250px] w-full" />
+        ) : (
+          <ChartContainer
+            config={chartConfig}
+            className="aspect-auto h-[250px] w-full"
+          >
+            <AreaChart data={chartData}>
+              <defs>
+                <linearGradient id="fillBalance" x1="0" y1="0" x2="0" y2="1">
+                  <stop
+                    offset="5%"
+                    stopColor="var(--color-balance)"
+                    stopOpacity={0.8}
+                  />
+                  <stop
+                    offset="95%"
+                    stopColor="var(--color-balance)"
+                    stopOpacity={0.1}
+                  />
+                </linearGradient>
+              </defs>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                minTickGap={32}
+                tickFormatter={(value) => formatDate(value, "MMM d")}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={80}
+                tickFormatter={(value) =>
+                  new Intl.NumberFormat("en-PH", {
+                    notation: "compact",
+                  }).format(value)
+                }
+              />
+              <ChartTooltip
+                cursor={false}
+                content={
+                  <ChartTooltipContent
+                    indicator="dot"
+                    labelFormatter={(value) => formatDate(value)}
+                    formatter={(value) => (
+                      <span className="font-mono font-medium tabular-nums">
+                        {formatCurrency(value as number, currency)}
+                      </span>
+                    )}
+                  />
+                }
+              />
+              <Area
+                dataKey="balance"
+                type="stepAfter"
+                fill="url(#fillBalance)"
+                stroke="var(--color-balance)"
+              />
+            </AreaChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,380 @@
+// resources/js/components/account-form-modal.tsx
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2Icon } from 'lucide-react';
+import type { Account, AccountType } from '@/types/account';
+
+// Validation schema for account form
+const accountFormSchema = z.object({
+    name: z.string().min(1, 'Name is required').max(255),
+    type: z.enum(['cash', 'bank', 'credit_card', 'investment', 'ewallet']),
+    account_number: z.string().max(50).optional().nullable(),
+    bank_name: z.string().max(255).optional().nullable(),
+    balance: z.number({ error: 'Balance must be a number' }),
+    credit_limit: z.number().min(0).optional().nullable(),
+    currency: z.string().length(3, 'Use a 3-letter currency code'),
+    color: z
+        .string()
+        .regex(/^#[a-fA-F0-9]{6}$/, 'Pick a valid color')
+        .optional()
+        .nullable(),
+    description: z.string().max(500).optional().nullable(),
+    is_active: z.boolean(),
+    include_in_net_worth: z.boolean(),
+});
+
+export type AccountFormData = z.infer<typeof accountFormSchema>;
+
+interface AccountFormModalProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    account?: Account | null;
+    onSubmit: (data: AccountFormData) => void;
+    isSubmitting?: boolean;
+}
+
+export const accountTypes: { value: AccountType; label: string; color: string }[] = [
+    { value: 'cash', label: 'Cash', color: '#4CAF50' },
+    { value: 'bank', label: 'Bank Account', color: '#2196F3' },
+    { value: 'credit_card', label: 'Credit Card', color: '#F44336' },
+    { value: 'investment', label: 'Investment', color: '#FF9800' },
+    { value: 'ewallet', label: 'E-Wallet', color: '#9C27B0' },
+];
+
+const emptyAccount: AccountFormData = {
+    name: '',
+    type: 'bank',
+    account_number: '',
+    bank_name: '',
+    balance: 0,
+    credit_limit: null,
+    currency: 'PHP',
+    color: '#2196F3',
+    description: '',
+    is_active: true,
+    include_in_net_worth: true,
+};
+
+export function AccountFormModal({
+    open,
+    onOpenChange,
+    account,
+    onSubmit,
+    isSubmitting = false,
+}: AccountFormModalProps) {
+    const isEditMode = !!account;
+
+    const {
+        register,
+        handleSubmit,
+        setValue,
+        watch,
+        reset,
+        formState: { errors },
+    } = useForm<AccountFormData>({
+        resolver: zodResolver(accountFormSchema),
+        defaultValues: emptyAccount,
+    });
+
+    // Watch values for conditional rendering
+    const type = watch('type');
+    const isActive = watch('is_active');
+    const includeInNetWorth = watch('include_in_net_worth');
+
+    // Reset form when modal opens/closes or account changes
+    React.useEffect(() => {
+        if (open) {
+            if (account) {
+                reset({
+                    name: account.name,
+                    type: account.type,
+                    account_number: account.account_number || '',
+                    bank_name: account.bank_name || '',
+                    balance: Number(account.balance),
+                    credit_limit:
+                        account.credit_limit !== null
+                            ? Number(account.credit_limit)
+                            : null,
+                    currency: account.currency,
+                    color: account.color || null,
+                    description: account.description || '',
+                    is_active: account.is_active,
+                    include_in_net_worth: account.include_in_net_worth,
+                });
+            } else {
+                reset(emptyAccount);
+            }
+        }
+    }, [open, account, reset]);
+
+    const handleTypeChange = (value: AccountType) => {
+        setValue('type', value);
+        // Suggest the type's color for new accounts only
+        if (!isEditMode) {
+            setValue(
+                'color',
+                accountTypes.find((t) => t.value === value)?.color ?? null
+            );
+        }
+    };
+
+    const onFormSubmit = (data: AccountFormData) => {
+        // Clean up data
+        const submitData = { ...data };
+        if (submitData.type !== 'credit_card') {
+            submitData.credit_limit = null;
+        }
+        if (submitData.type !== 'bank' && submitData.type !== 'credit_card') {
+            submitData.bank_name = null;
+        }
+        if (!submitData.color) {
+            delete submitData.color;
+        }
+        onSubmit(submitData);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>
+                        {isEditMode ? 'Edit Account' : 'Add New Account'}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {isEditMode
+                            ? 'Update the account details. Use "Adjust balance" on the account page to correct its balance.'
+                            : 'Create a new account. Fields with * are required.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form
+                    onSubmit={handleSubmit(onFormSubmit)}
+                    className="space-y-4"
+                >
+                    {/* Name and Type Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="name">
+                                Name <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="name"
+                                placeholder="e.g., BDO Savings"
+                                {...register('name')}
+                                aria-invalid={!!errors.name}
+                            />
+                            {errors.name && (
+                                <p className="text-sm text-destructive">
+                                    {errors.name.message}
+                                </p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label>
+                                Type <span className="text-destructive">*</span>
+                            </Label>
+                            <Select value={type} onValueChange={handleTypeChange}>
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Select type" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {accountTypes.map((t) => (
+                                        <SelectItem key={t.value} value={t.value}>
+                                            {t.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    {/* Balance and Currency Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="balance">
+                                {isEditMode ? 'Current Balance' : 'Opening Balance'}{' '}
+                                <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="balance"
+                                type="number"
+                                step="0.01"
+                                placeholder="0.00"
+                                readOnly={isEditMode}
+                                {...register('balance', { valueAsNumber: true })}
+                                aria-invalid={!!errors.balance}
+                            />
+                            {errors.balance && (
+                                <p className="text-sm text-destructive">
+                                    {errors.balance.message}
+                                </p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="currency">
+                                Currency <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="currency"
+                                maxLength={3}
+                                className="uppercase"
+                                {...register('currency', {
+                                    setValueAs: (value: string) => value.toUpperCase(),
+                                })}
+                                aria-invalid={!!errors.currency}
+                            />
+                            {errors.currency && (
+                                <p className="text-sm text-destructive">
+                                    {errors.currency.message}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Credit Limit (credit cards only) */}
+                    {type === 'credit_card' && (
+                        <div className="space-y-2">
+                            <Label htmlFor="credit_limit">Credit Limit</Label>
+                            <Input
+                                id="credit_limit"
+                                type="number"
+                                step="0.01"
+                                placeholder="0.00"
+                                {...register('credit_limit', {
+                                    setValueAs: (value) =>
+                                        value === '' || value === null ? null : Number(value),
+                                })}
+                                aria-invalid={!!errors.credit_limit}
+                            />
+                            {errors.credit_limit && (
+                                <p className="text-sm text-destructive">
+                                    {errors.credit_limit.message}
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Bank Details Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        {(type === 'bank' || type === 'credit_card') && (
+                            <div className="space-y-2">
+                                <Label htmlFor="bank_name">Bank Name</Label>
+                                <Input
+                                    id="bank_name"
+                                    placeholder="e.g., BDO"
+                                    {...register('bank_name')}
+                                />
+                            </div>
+                        )}
+                        <div className="space-y-2">
+                            <Label htmlFor="account_number">Account Number</Label>
+                            <Input
+                                id="account_number"
+                                placeholder="Last 4 digits"
+                                {...register('account_number')}
+                            />
+                        </div>
+                    </div>
+
+                    {/* Color */}
+                    <div className="space-y-2">
+                        <Label htmlFor="color">Color</Label>
+                        <Input
+                            id="color"
+                            type="color"
+                            className="h-10 w-20 p-1"
+                            {...register('color')}
+                        />
+                        {errors.color && (
+                            <p className="text-sm text-destructive">
+                                {errors.color.message}
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Description */}
+                    <div className="space-y-2">
+                        <Label htmlFor="description">Description</Label>
+                        <Textarea
+                            id="description"
+                            placeholder="Additional notes..."
+                            rows={3}
+                            {...register('description')}
+                        />
+                    </div>
+
+                    {/* Flags */}
+                    <div className="flex items-center space-x-2">
+                        <Checkbox
+                            id="include_in_net_worth"
+                            checked={includeInNetWorth}
+                            onCheckedChange={(checked) =>
+                                setValue('include_in_net_worth', !!checked)
+                            }
+                        />
+                        <Label
+                            htmlFor="include_in_net_worth"
+                            className="text-sm font-normal"
+                        >
+                            Include in net worth
+                        </Label>
+                    </div>
+                    {isEditMode && (
+                        <div className="flex items-center space-x-2">
+                            <Checkbox
+                                id="is_active"
+                                checked={isActive}
+                                onCheckedChange={(checked) =>
+                                    setValue('is_active', !!checked)
+                                }
+                            />
+                            <Label htmlFor="is_active" className="text-sm font-normal">
+                                Account is active
+                            </Label>
+                        </div>
+                    )}
+
+                    <DialogFooter className="gap-2 sm:gap-0">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && (
+                                <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+                            )}
+                            {isEditMode ? 'Update Account' : 'Create Account'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
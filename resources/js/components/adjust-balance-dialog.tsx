@@ -0,0 +1,143 @@
+// resources/js/components/adjust-balance-dialog.tsx
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2Icon } from 'lucide-react';
+import { formatCurrency, toNumber } from '@/lib/format';
+import type { Account } from '@/types/account';
+
+const adjustBalanceSchema = z.object({
+    balance: z.number({ error: 'Balance must be a number' }),
+    reason: z.string().min(1, 'Reason is required').max(255),
+});
+
+export type AdjustBalanceFormData = z.infer<typeof adjustBalanceSchema>;
+
+interface AdjustBalanceDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    account: Account | null;
+    onSubmit: (data: AdjustBalanceFormData) => void;
+    isSubmitting?: boolean;
+}
+
+export function AdjustBalanceDialog({
+    open,
+    onOpenChange,
+    account,
+    onSubmit,
+    isSubmitting = false,
+}: AdjustBalanceDialogProps) {
+    const {
+        register,
+        handleSubmit,
+        watch,
+        reset,
+        formState: { errors },
+    } = useForm<AdjustBalanceFormData>({
+        resolver: zodResolver(adjustBalanceSchema),
+        defaultValues: { balance: 0, reason: '' },
+    });
+
+    React.useEffect(() => {
+        if (open && account) {
+            reset({ balance: toNumber(account.balance), reason: '' });
+        }
+    }, [open, account, reset]);
+
+    const difference = toNumber(watch('balance')) - toNumber(account?.balance);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[450px]">
+                <DialogHeader>
+                    <DialogTitle>Adjust Balance</DialogTitle>
+                    <DialogDescription>
+                        Set the actual balance of {account?.name}. The difference
+                        is recorded as an adjustment in the balance history.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="adjust_balance">
+                            New Balance <span className="text-destructive">*</span>
+                        </Label>
+                        <Input
+                            id="adjust_balance"
+                            type="number"
+                            step="0.01"
+                            {...register('balance', { valueAsNumber: true })}
+                            aria-invalid={!!errors.balance}
+                        />
+                        {errors.balance && (
+                            <p className="text-sm text-destructive">
+                                {errors.balance.message}
+                            </p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                            Current: {formatCurrency(account?.balance, account?.currency)}
+                            {difference !== 0 && (
+                                <span
+                                    className={
+                                        difference > 0 ? 'text-green-600' : 'text-red-600'
+                                    }
+                                >
+                                    {' '}
+                                    ({difference > 0 ? '+' : ''}
+                                    {formatCurrency(difference, account?.currency)})
+                                </span>
+                            )}
+                        </p>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="adjust_reason">
+                            Reason <span className="text-destructive">*</span>
+                        </Label>
+                        <Input
+                            id="adjust_reason"
+                            placeholder="e.g., Matched bank statement"
+                            {...register('reason')}
+                            aria-invalid={!!errors.reason}
+                        />
+                        {errors.reason && (
+                            <p className="text-sm text-destructive">
+                                {errors.reason.message}
+                            </p>
+                        )}
+                    </div>
+
+                    <DialogFooter className="gap-2 sm:gap-0">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && (
+                                <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+                            )}
+                            Save Balance
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
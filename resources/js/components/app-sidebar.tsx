@@ -2,6 +2,7 @@ import * as React from "react";
 import {
     ArrowUpCircleIcon,
     BarChartIcon,
+    CalendarClockIcon,
     CameraIcon,
     ClipboardListIcon,
     DatabaseIcon,
@@ -10,11 +11,16 @@ import {
     FileTextIcon,
     FolderIcon,
     HelpCircleIcon,
+    LandmarkIcon,
     LayoutDashboardIcon,
     ListIcon,
+    PiggyBankIcon,
     SearchIcon,
     SettingsIcon,
+    TagsIcon,
+    TargetIcon,
     UsersIcon,
+    WalletIcon,
 } from "lucide-react";
 
 import { NavDocuments } from "@/components/nav-documents";
@@ -53,9 +59,39 @@ const data = {
             url: "/transactions",
             icon: FileTextIcon,
         },
+        {
+            title: "Accounts",
+            url: "/accounts",
+            icon: WalletIcon,
+        },
+        {
+            title: "Categories",
+            url: "/categories",
+            icon: TagsIcon,
+        },
+        {
+            title: "Budgets",
+            url: "/budgets",
+            icon: PiggyBankIcon,
+        },
+        {
+            title: "Goals",
+            url: "/goals",
+            icon: TargetIcon,
+        },
+        {
+            title: "Debts",
+            url: "/debts",
+            icon: LandmarkIcon,
+        },
+        {
+            title: "Bills",
+            url: "/bills",
+            icon: CalendarClockIcon,
+        },
         {
             title: "Analytics",
-            url: "#",
+            url: "/analytics",
             icon: BarChartIcon,
         },
         {
@@ -120,7 +156,7 @@ const data = {
     navSecondary: [
         {
             title: "Settings",
-            url: "#",
+            url: "/settings/notifications",
             icon: SettingsIcon,
         },
         {
@@ -0,0 +1,153 @@
+// resources/js/components/bill-calendar.tsx
+
+import * as React from 'react';
+import {
+    eachDayOfInterval,
+    endOfMonth,
+    endOfWeek,
+    format,
+    isSameMonth,
+    isToday,
+    startOfMonth,
+    startOfWeek,
+} from 'date-fns';
+import {
+    Tooltip,
+    TooltipContent,
+    TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { formatCurrency, formatDate, toDateString } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import type { BillCalendarOccurrence, BillOccurrenceStatus } from '@/types/bill';
+
+interface BillCalendarProps {
+    month: Date;
+    occurrences: BillCalendarOccurrence[];
+    /** Called for unpaid, non-projected occurrences so the page can open the pay dialog */
+    onSelect?: (occurrence: BillCalendarOccurrence) => void;
+}
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const occurrenceStyles: Record<BillOccurrenceStatus, string> = {
+    paid: 'bg-green-600/10 text-green-700 dark:text-green-400',
+    overdue: 'bg-red-600/10 text-red-700 dark:text-red-400',
+    upcoming: 'bg-blue-600/10 text-blue-700 dark:text-blue-400',
+};
+
+/** First and last day shown on the grid, including the padding weeks */
+export function getCalendarRange(month: Date): { start: Date; end: Date } {
+    return {
+        start: startOfWeek(startOfMonth(month)),
+        end: endOfWeek(endOfMonth(month)),
+    };
+}
+
+export function BillCalendar({ month, occurrences, onSelect }: BillCalendarProps) {
+    const { start, end } = getCalendarRange(month);
+    const days = eachDayOfInterval({ start, end });
+
+    const byDate = React.useMemo(() => {
+        const map = new Map<string, BillCalendarOccurrence[]>();
+        occurrences.forEach((occurrence) => {
+            const list = map.get(occurrence.date) ?? [];
+            list.push(occurrence);
+            map.set(occurrence.date, list);
+        });
+        return map;
+    }, [occurrences]);
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-7 overflow-hidden rounded-lg border text-sm">
+                {weekdays.map((day) => (
+                    <div
+                        key={day}
+                        className="border-b bg-muted/50 px-2 py-1.5 text-center text-xs font-medium text-muted-foreground"
+                    >
+                        {day}
+                    </div>
+                ))}
+                {days.map((day, index) => {
+                    const key = toDateString(day);
+                    const items = byDate.get(key) ?? [];
+
+                    return (
+                        <div
+                            key={key}
+                            className={cn(
+                                'min-h-24 space-y-1 border-b p-1.5',
+                                index % 7 !== 6 && 'border-r',
+                                !isSameMonth(day, month) && 'bg-muted/30 text-muted-foreground'
+                            )}
+                        >
+                            <div
+                                className={cn(
+                                    'flex h-6 w-6 items-center justify-center rounded-full text-xs',
+                                    isToday(day) && 'bg-primary font-semibold text-primary-foreground'
+                                )}
+                            >
+                                {format(day, 'd')}
+                            </div>
+                            {items.map((occurrence) => {
+                                const payable =
+                                    !!onSelect &&
+                                    occurrence.status !== 'paid' &&
+                                    !occurrence.is_projected;
+
+                                return (
+                                    <Tooltip key={`${occurrence.bill_id}-${occurrence.date}`}>
+                                        <TooltipTrigger asChild>
+                                            <button
+                                                type="button"
+                                                disabled={!payable}
+                                                onClick={() => payable && onSelect(occurrence)}
+                                                className={cn(
+                                                    'flex w-full items-center gap-1 truncate rounded px-1.5 py-0.5 text-left text-xs',
+                                                    occurrenceStyles[occurrence.status],
+                                                    occurrence.is_projected && 'opacity-60',
+                                                    payable ? 'cursor-pointer hover:opacity-80' : 'cursor-default'
+                                                )}
+                                            >
+                                                <span
+                                                    className="h-1.5 w-1.5 shrink-0 rounded-full"
+                                                    style={{ backgroundColor: occurrence.color ?? 'currentColor' }}
+                                                />
+                                                <span className="truncate">{occurrence.name}</span>
+                                            </button>
+                                        </TooltipTrigger>
+                                        <TooltipContent>
+                                            {occurrence.name} • {formatCurrency(occurrence.amount)}
+                                            <br />
+                                            {occurrence.status === 'paid'
+                                                ? `Paid ${formatDate(occurrence.payment_date ?? occurrence.date)}`
+                                                : occurrence.status === 'overdue'
+                                                  ? 'Overdue — click to mark paid'
+                                                  : occurrence.is_projected
+                                                    ? 'Projected from the bill frequency'
+                                                    : 'Upcoming — click to mark paid'}
+                                        </TooltipContent>
+                                    </Tooltip>
+                                );
+                            })}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {/* Legend */}
+            <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                {(['paid', 'upcoming', 'overdue'] as BillOccurrenceStatus[]).map((status) => (
+                    <span key={status} className="flex items-center gap-1.5">
+                        <span className={cn('h-3 w-3 rounded', occurrenceStyles[status])} />
+                        <span className="capitalize">{status}</span>
+                    </span>
+                ))}
+                <span className="flex items-center gap-1.5">
+                    <span className={cn('h-3 w-3 rounded opacity-60', occurrenceStyles.upcoming)} />
+                    Projected
+                </span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,359 @@
+// resources/js/components/bill-form-modal.tsx
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2Icon } from 'lucide-react';
+import { toDateString, toNumber } from '@/lib/format';
+import type { Bill, BillFrequency, BillStatus } from '@/types/bill';
+import type { Category } from '@/types/category';
+
+// Validation schema for bill form
+const billFormSchema = z.object({
+    name: z.string().min(1, 'Name is required').max(255),
+    category_id: z.number({ error: 'Category is required' }).min(1, 'Category is required'),
+    amount: z
+        .number({ error: 'Amount must be a number' })
+        .min(0.01, 'Amount must be at least 0.01'),
+    due_date: z.string().min(1, 'Due date is required'),
+    frequency: z.enum(['weekly', 'bi-weekly', 'monthly', 'quarterly', 'semi-annually', 'annually']),
+    is_recurring: z.boolean(),
+    reminder_days: z
+        .number({ error: 'Reminder days must be a number' })
+        .int()
+        .min(0, 'Reminder days cannot be negative')
+        .max(30, 'Reminder days cannot exceed 30')
+        .nullable(),
+    status: z.enum(['active', 'paid', 'overdue', 'cancelled']),
+    color: z.string().regex(/^#[a-fA-F0-9]{6}$/, 'Pick a valid color'),
+    notes: z.string().max(500),
+});
+
+export type BillFormData = z.infer<typeof billFormSchema>;
+
+interface BillFormModalProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    bill?: Bill | null;
+    categories: Category[];
+    onSubmit: (data: BillFormData) => void;
+    isSubmitting?: boolean;
+}
+
+export const billFrequencies: { value: BillFrequency; label: string }[] = [
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'bi-weekly', label: 'Bi-Weekly' },
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'quarterly', label: 'Quarterly' },
+    { value: 'semi-annually', label: 'Semi-Annually' },
+    { value: 'annually', label: 'Annually' },
+];
+
+export const billStatuses: { value: BillStatus; label: string }[] = [
+    { value: 'active', label: 'Active' },
+    { value: 'overdue', label: 'Overdue' },
+    { value: 'paid', label: 'Paid' },
+    { value: 'cancelled', label: 'Cancelled' },
+];
+
+function emptyBill(categories: Category[]): BillFormData {
+    return {
+        name: '',
+        category_id: categories[0]?.id ?? 0,
+        amount: 0,
+        due_date: toDateString(new Date()),
+        frequency: 'monthly',
+        is_recurring: true,
+        reminder_days: null,
+        status: 'active',
+        color: '#FF9800',
+        notes: '',
+    };
+}
+
+export function BillFormModal({
+    open,
+    onOpenChange,
+    bill,
+    categories,
+    onSubmit,
+    isSubmitting = false,
+}: BillFormModalProps) {
+    const isEditMode = !!bill;
+
+    const {
+        register,
+        handleSubmit,
+        setValue,
+        watch,
+        reset,
+        formState: { errors },
+    } = useForm<BillFormData>({
+        resolver: zodResolver(billFormSchema),
+        defaultValues: emptyBill(categories),
+    });
+
+    const categoryId = watch('category_id');
+    const frequency = watch('frequency');
+    const isRecurring = watch('is_recurring');
+    const status = watch('status');
+
+    // Reset form when modal opens/closes or bill changes
+    React.useEffect(() => {
+        if (open) {
+            if (bill) {
+                reset({
+                    name: bill.name,
+                    category_id: bill.category_id,
+                    amount: toNumber(bill.amount),
+                    due_date: bill.due_date,
+                    frequency: bill.frequency,
+                    is_recurring: bill.is_recurring,
+                    reminder_days: bill.reminder_days,
+                    status: bill.status,
+                    color: bill.color || '#FF9800',
+                    notes: bill.notes ?? '',
+                });
+            } else {
+                reset(emptyBill(categories));
+            }
+        }
+    }, [open, bill, categories, reset]);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{isEditMode ? 'Edit Bill' : 'Add New Bill'}</DialogTitle>
+                    <DialogDescription>
+                        {isEditMode
+                            ? 'Update the bill details below.'
+                            : 'Add a bill or subscription to track its due dates. Fields with * are required.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    {/* Name and Color Row */}
+                    <div className="grid grid-cols-[1fr_auto] gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="name">
+                                Name <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="name"
+                                placeholder="e.g., Electricity"
+                                {...register('name')}
+                                aria-invalid={!!errors.name}
+                            />
+                            {errors.name && (
+                                <p className="text-sm text-destructive">{errors.name.message}</p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="color">Color</Label>
+                            <Input
+                                id="color"
+                                type="color"
+                                className="w-16 p-1"
+                                {...register('color')}
+                            />
+                        </div>
+                    </div>
+
+                    {/* Category and Amount Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label>
+                                Category <span className="text-destructive">*</span>
+                            </Label>
+                            <Select
+                                value={categoryId ? String(categoryId) : ''}
+                                onValueChange={(value) =>
+                                    setValue('category_id', Number(value), { shouldValidate: true })
+                                }
+                            >
+                                <SelectTrigger aria-invalid={!!errors.category_id}>
+                                    <SelectValue placeholder="Select category" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {categories.map((category) => (
+                                        <SelectItem key={category.id} value={String(category.id)}>
+                                            {category.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {errors.category_id && (
+                                <p className="text-sm text-destructive">
+                                    {errors.category_id.message}
+                                </p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="amount">
+                                Amount <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="amount"
+                                type="number"
+                                step="0.01"
+                                placeholder="0.00"
+                                {...register('amount', { valueAsNumber: true })}
+                                aria-invalid={!!errors.amount}
+                            />
+                            {errors.amount && (
+                                <p className="text-sm text-destructive">{errors.amount.message}</p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Due Date and Frequency Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="due_date">
+                                {isEditMode ? 'Next Due Date' : 'First Due Date'}{' '}
+                                <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="due_date"
+                                type="date"
+                                {...register('due_date')}
+                                aria-invalid={!!errors.due_date}
+                            />
+                            {errors.due_date && (
+                                <p className="text-sm text-destructive">
+                                    {errors.due_date.message}
+                                </p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label>
+                                Frequency <span className="text-destructive">*</span>
+                            </Label>
+                            <Select
+                                value={frequency}
+                                onValueChange={(value: BillFrequency) =>
+                                    setValue('frequency', value)
+                                }
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {billFrequencies.map((f) => (
+                                        <SelectItem key={f.value} value={f.value}>
+                                            {f.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    {/* Reminder and Recurrence Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="reminder_days">Remind Me (days before)</Label>
+                            <Input
+                                id="reminder_days"
+                                type="number"
+                                step="1"
+                                placeholder="Notification settings default"
+                                {...register('reminder_days', {
+                                    // Left empty, the bill follows the notification settings
+                                    setValueAs: (value) =>
+                                        value === '' || value === null ? null : Number(value),
+                                })}
+                                aria-invalid={!!errors.reminder_days}
+                            />
+                            {errors.reminder_days && (
+                                <p className="text-sm text-destructive">
+                                    {errors.reminder_days.message}
+                                </p>
+                            )}
+                        </div>
+                        <div className="flex items-end pb-2">
+                            <div className="flex items-center space-x-2">
+                                <Checkbox
+                                    id="is_recurring"
+                                    checked={isRecurring}
+                                    onCheckedChange={(checked) =>
+                                        setValue('is_recurring', !!checked)
+                                    }
+                                />
+                                <Label htmlFor="is_recurring" className="text-sm font-normal">
+                                    Repeats after each payment
+                                </Label>
+                            </div>
+                        </div>
+                    </div>
+
+                    {isEditMode && (
+                        <div className="space-y-2">
+                            <Label>Status</Label>
+                            <Select
+                                value={status}
+                                onValueChange={(value: BillStatus) => setValue('status', value)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {billStatuses.map((s) => (
+                                        <SelectItem key={s.value} value={s.value}>
+                                            {s.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <Label htmlFor="notes">Notes</Label>
+                        <Textarea id="notes" rows={2} {...register('notes')} />
+                        {errors.notes && (
+                            <p className="text-sm text-destructive">{errors.notes.message}</p>
+                        )}
+                    </div>
+
+                    <DialogFooter className="gap-2 sm:gap-0">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                            {isEditMode ? 'Update Bill' : 'Create Bill'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
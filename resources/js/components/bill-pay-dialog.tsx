@@ -0,0 +1,222 @@
+// resources/js/components/bill-pay-dialog.tsx
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2Icon } from 'lucide-react';
+import { formatCurrency, formatDate, toDateString, toNumber } from '@/lib/format';
+import type { Account } from '@/types/account';
+import type { Bill } from '@/types/bill';
+
+const payBillSchema = z
+    .object({
+        amount: z
+            .number({ error: 'Amount must be a number' })
+            .min(0.01, 'Amount must be at least 0.01'),
+        payment_date: z.string().min(1, 'Payment date is required'),
+        create_transaction: z.boolean(),
+        account_id: z.number().nullable(),
+        notes: z.string().max(500),
+    })
+    .refine((data) => !data.create_transaction || data.account_id !== null, {
+        message: 'Choose the account the bill was paid from',
+        path: ['account_id'],
+    });
+
+export type BillPaymentFormData = z.infer<typeof payBillSchema>;
+
+interface BillPayDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    bill: Bill | null;
+    accounts: Account[];
+    onSubmit: (data: BillPaymentFormData) => void;
+    isSubmitting?: boolean;
+}
+
+export function BillPayDialog({
+    open,
+    onOpenChange,
+    bill,
+    accounts,
+    onSubmit,
+    isSubmitting = false,
+}: BillPayDialogProps) {
+    const {
+        register,
+        handleSubmit,
+        setValue,
+        watch,
+        reset,
+        formState: { errors },
+    } = useForm<BillPaymentFormData>({
+        resolver: zodResolver(payBillSchema),
+        defaultValues: {
+            amount: 0,
+            payment_date: toDateString(new Date()),
+            create_transaction: true,
+            account_id: null,
+            notes: '',
+        },
+    });
+
+    React.useEffect(() => {
+        if (open) {
+            const account = accounts.find((a) => a.is_active) ?? accounts[0];
+            reset({
+                amount: bill ? toNumber(bill.amount) : 0,
+                payment_date: toDateString(new Date()),
+                create_transaction: accounts.length > 0,
+                account_id: account?.id ?? null,
+                notes: '',
+            });
+        }
+    }, [open, bill, accounts, reset]);
+
+    const createTransaction = watch('create_transaction');
+    const accountId = watch('account_id');
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[480px]">
+                <DialogHeader>
+                    <DialogTitle>Mark Bill as Paid</DialogTitle>
+                    <DialogDescription>
+                        {bill?.name} was due {bill ? formatDate(bill.due_date) : ''}.{' '}
+                        {bill?.is_recurring
+                            ? `It then rolls forward to its next ${bill.frequency_label.toLowerCase()} due date.`
+                            : 'It is a one-off bill and will be closed.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="bill_payment_amount">
+                                Amount <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="bill_payment_amount"
+                                type="number"
+                                step="0.01"
+                                {...register('amount', { valueAsNumber: true })}
+                                aria-invalid={!!errors.amount}
+                            />
+                            {errors.amount && (
+                                <p className="text-sm text-destructive">{errors.amount.message}</p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="bill_payment_date">
+                                Paid On <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="bill_payment_date"
+                                type="date"
+                                max={toDateString(new Date())}
+                                {...register('payment_date')}
+                                aria-invalid={!!errors.payment_date}
+                            />
+                            {errors.payment_date && (
+                                <p className="text-sm text-destructive">
+                                    {errors.payment_date.message}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Matching Expense Transaction */}
+                    <div className="space-y-3 rounded-lg border p-3">
+                        <div className="flex items-center space-x-2">
+                            <Checkbox
+                                id="bill_create_transaction"
+                                checked={createTransaction}
+                                disabled={accounts.length === 0}
+                                onCheckedChange={(checked) =>
+                                    setValue('create_transaction', !!checked)
+                                }
+                            />
+                            <Label htmlFor="bill_create_transaction" className="text-sm font-normal">
+                                Record an expense transaction
+                                {bill?.category ? ` in ${bill.category.name}` : ''}
+                            </Label>
+                        </div>
+                        {createTransaction && (
+                            <div className="space-y-2">
+                                <Label>Paid From</Label>
+                                <Select
+                                    value={accountId ? String(accountId) : ''}
+                                    onValueChange={(value) =>
+                                        setValue('account_id', Number(value), {
+                                            shouldValidate: true,
+                                        })
+                                    }
+                                >
+                                    <SelectTrigger aria-invalid={!!errors.account_id}>
+                                        <SelectValue placeholder="Select account" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {accounts.map((account) => (
+                                            <SelectItem key={account.id} value={String(account.id)}>
+                                                {account.name} • {formatCurrency(account.balance, account.currency)}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {errors.account_id && (
+                                    <p className="text-sm text-destructive">
+                                        {errors.account_id.message}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="bill_payment_notes">Notes</Label>
+                        <Textarea id="bill_payment_notes" rows={2} {...register('notes')} />
+                        {errors.notes && (
+                            <p className="text-sm text-destructive">{errors.notes.message}</p>
+                        )}
+                    </div>
+
+                    <DialogFooter className="gap-2 sm:gap-0">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                            Mark as Paid
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,431 @@
+// resources/js/components/budget-form-modal.tsx
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { addMonths, addWeeks, addYears, parseISO, subDays } from 'date-fns';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2Icon } from 'lucide-react';
+import { toDateString } from '@/lib/format';
+import type { Budget, BudgetPeriod } from '@/types/budget';
+import type { Category } from '@/types/category';
+
+// Validation schema for budget form
+const budgetFormSchema = z.object({
+    category_id: z.number({ error: 'Please select a category' }).min(1, 'Please select a category'),
+    name: z.string().min(1, 'Name is required').max(255),
+    amount: z
+        .number({ error: 'Amount must be a number' })
+        .min(0.01, 'Amount must be at least 0.01'),
+    period: z.enum(['weekly', 'monthly', 'yearly']),
+    start_date: z.string().min(1, 'Start date is required'),
+    end_date: z.string().min(1, 'End date is required'),
+    is_active: z.boolean(),
+    alert_enabled: z.boolean(),
+    alert_threshold: z
+        .number({ error: 'Threshold must be a number' })
+        .min(0, 'Threshold cannot be negative')
+        .max(100, 'Threshold cannot exceed 100%'),
+    rollover_settings: z.object({
+        enabled: z.boolean(),
+        carry_over_unused: z.boolean(),
+        reset_on_overspend: z.boolean(),
+    }),
+});
+
+export type BudgetFormData = z.infer<typeof budgetFormSchema>;
+
+interface BudgetFormModalProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    budget?: Budget | null;
+    categories: Category[];
+    onSubmit: (data: BudgetFormData) => void;
+    isSubmitting?: boolean;
+}
+
+export const budgetPeriods: { value: BudgetPeriod; label: string }[] = [
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'yearly', label: 'Yearly' },
+];
+
+/**
+ * Last day of a budget period starting on `startDate` (both `yyyy-MM-dd`).
+ */
+export function budgetPeriodEnd(startDate: string, period: BudgetPeriod): string {
+    const start = parseISO(startDate);
+    const next = {
+        weekly: addWeeks(start, 1),
+        monthly: addMonths(start, 1),
+        yearly: addYears(start, 1),
+    }[period];
+
+    return toDateString(subDays(next, 1));
+}
+
+function emptyBudget(): BudgetFormData {
+    const today = new Date();
+    const startDate = toDateString(new Date(today.getFullYear(), today.getMonth(), 1));
+
+    return {
+        category_id: 0,
+        name: '',
+        amount: 0,
+        period: 'monthly',
+        start_date: startDate,
+        end_date: budgetPeriodEnd(startDate, 'monthly'),
+        is_active: true,
+        alert_enabled: true,
+        alert_threshold: 80,
+        rollover_settings: {
+            enabled: false,
+            carry_over_unused: false,
+            reset_on_overspend: false,
+        },
+    };
+}
+
+export function BudgetFormModal({
+    open,
+    onOpenChange,
+    budget,
+    categories,
+    onSubmit,
+    isSubmitting = false,
+}: BudgetFormModalProps) {
+    const isEditMode = !!budget;
+
+    const {
+        register,
+        handleSubmit,
+        setValue,
+        getValues,
+        watch,
+        reset,
+        formState: { errors },
+    } = useForm<BudgetFormData>({
+        resolver: zodResolver(budgetFormSchema),
+        defaultValues: emptyBudget(),
+    });
+
+    // Watch values for conditional rendering
+    const categoryId = watch('category_id');
+    const period = watch('period');
+    const isActive = watch('is_active');
+    const alertEnabled = watch('alert_enabled');
+    const rollover = watch('rollover_settings');
+
+    // Reset form when modal opens/closes or budget changes
+    React.useEffect(() => {
+        if (open) {
+            if (budget) {
+                reset({
+                    category_id: budget.category_id,
+                    name: budget.name,
+                    amount: Number(budget.amount),
+                    period: budget.period,
+                    start_date: budget.start_date,
+                    end_date: budget.end_date,
+                    is_active: budget.is_active,
+                    alert_enabled: budget.alert_enabled,
+                    alert_threshold: Number(budget.alert_threshold),
+                    rollover_settings: {
+                        enabled: !!budget.rollover_settings?.enabled,
+                        carry_over_unused: !!budget.rollover_settings?.carry_over_unused,
+                        reset_on_overspend: !!budget.rollover_settings?.reset_on_overspend,
+                    },
+                });
+            } else {
+                reset(emptyBudget());
+            }
+        }
+    }, [open, budget, reset]);
+
+    // Keep the end date in step with the period
+    const syncEndDate = (startDate: string, nextPeriod: BudgetPeriod) => {
+        if (startDate) {
+            setValue('end_date', budgetPeriodEnd(startDate, nextPeriod));
+        }
+    };
+
+    const handleCategoryChange = (value: string) => {
+        const id = Number(value);
+        setValue('category_id', id);
+        // Suggest the category name for new budgets
+        if (!isEditMode && !getValues('name')) {
+            setValue('name', categories.find((c) => c.id === id)?.name ?? '');
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{isEditMode ? 'Edit Budget' : 'Add New Budget'}</DialogTitle>
+                    <DialogDescription>
+                        {isEditMode
+                            ? 'Update the budget details below.'
+                            : 'Set a spending limit for a category. Fields with * are required.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    {/* Category and Name Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label>
+                                Category <span className="text-destructive">*</span>
+                            </Label>
+                            <Select
+                                value={categoryId ? String(categoryId) : ''}
+                                onValueChange={handleCategoryChange}
+                            >
+                                <SelectTrigger aria-invalid={!!errors.category_id}>
+                                    <SelectValue placeholder="Select category" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {categories.map((category) => (
+                                        <SelectItem key={category.id} value={String(category.id)}>
+                                            {category.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {errors.category_id && (
+                                <p className="text-sm text-destructive">
+                                    {errors.category_id.message}
+                                </p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="name">
+                                Name <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="name"
+                                placeholder="e.g., Groceries"
+                                {...register('name')}
+                                aria-invalid={!!errors.name}
+                            />
+                            {errors.name && (
+                                <p className="text-sm text-destructive">{errors.name.message}</p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Amount and Period Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="amount">
+                                Amount <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="amount"
+                                type="number"
+                                step="0.01"
+                                placeholder="0.00"
+                                {...register('amount', { valueAsNumber: true })}
+                                aria-invalid={!!errors.amount}
+                            />
+                            {errors.amount && (
+                                <p className="text-sm text-destructive">{errors.amount.message}</p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label>
+                                Period <span className="text-destructive">*</span>
+                            </Label>
+                            <Select
+                                value={period}
+                                onValueChange={(value: BudgetPeriod) => {
+                                    setValue('period', value);
+                                    syncEndDate(getValues('start_date'), value);
+                                }}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Select period" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {budgetPeriods.map((p) => (
+                                        <SelectItem key={p.value} value={p.value}>
+                                            {p.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {errors.period && (
+                                <p className="text-sm text-destructive">{errors.period.message}</p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Date Range Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="start_date">
+                                Start Date <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="start_date"
+                                type="date"
+                                {...register('start_date', {
+                                    onChange: (e) => syncEndDate(e.target.value, period),
+                                })}
+                                aria-invalid={!!errors.start_date}
+                            />
+                            {errors.start_date && (
+                                <p className="text-sm text-destructive">
+                                    {errors.start_date.message}
+                                </p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="end_date">
+                                End Date <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="end_date"
+                                type="date"
+                                {...register('end_date')}
+                                aria-invalid={!!errors.end_date}
+                            />
+                            {errors.end_date && (
+                                <p className="text-sm text-destructive">
+                                    {errors.end_date.message}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Alerts */}
+                    <div className="space-y-3 rounded-lg border p-4">
+                        <div className="flex items-center space-x-2">
+                            <Checkbox
+                                id="alert_enabled"
+                                checked={alertEnabled}
+                                onCheckedChange={(checked) => setValue('alert_enabled', !!checked)}
+                            />
+                            <Label htmlFor="alert_enabled" className="text-sm font-normal">
+                                Alert me when spending reaches the threshold
+                            </Label>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Label htmlFor="alert_threshold" className="text-sm font-normal">
+                                Threshold
+                            </Label>
+                            <Input
+                                id="alert_threshold"
+                                type="number"
+                                step="1"
+                                min={0}
+                                max={100}
+                                className="w-24"
+                                disabled={!alertEnabled}
+                                {...register('alert_threshold', { valueAsNumber: true })}
+                                aria-invalid={!!errors.alert_threshold}
+                            />
+                            <span className="text-sm text-muted-foreground">% of the budget</span>
+                        </div>
+                        {errors.alert_threshold && (
+                            <p className="text-sm text-destructive">
+                                {errors.alert_threshold.message}
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Rollover */}
+                    <div className="space-y-3 rounded-lg border p-4">
+                        <div className="flex items-center space-x-2">
+                            <Checkbox
+                                id="rollover_enabled"
+                                checked={rollover?.enabled}
+                                onCheckedChange={(checked) =>
+                                    setValue('rollover_settings.enabled', !!checked)
+                                }
+                            />
+                            <Label htmlFor="rollover_enabled" className="text-sm font-normal">
+                                Roll this budget over into the next period
+                            </Label>
+                        </div>
+                        {rollover?.enabled && (
+                            <div className="space-y-3 pl-6">
+                                <div className="flex items-center space-x-2">
+                                    <Checkbox
+                                        id="carry_over_unused"
+                                        checked={rollover.carry_over_unused}
+                                        onCheckedChange={(checked) =>
+                                            setValue('rollover_settings.carry_over_unused', !!checked)
+                                        }
+                                    />
+                                    <Label htmlFor="carry_over_unused" className="text-sm font-normal">
+                                        Carry over the unused amount
+                                    </Label>
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                    <Checkbox
+                                        id="reset_on_overspend"
+                                        checked={rollover.reset_on_overspend}
+                                        onCheckedChange={(checked) =>
+                                            setValue('rollover_settings.reset_on_overspend', !!checked)
+                                        }
+                                    />
+                                    <Label htmlFor="reset_on_overspend" className="text-sm font-normal">
+                                        Start fresh after overspending
+                                    </Label>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {isEditMode && (
+                        <div className="flex items-center space-x-2">
+                            <Checkbox
+                                id="is_active"
+                                checked={isActive}
+                                onCheckedChange={(checked) => setValue('is_active', !!checked)}
+                            />
+                            <Label htmlFor="is_active" className="text-sm font-normal">
+                                Budget is active
+                            </Label>
+                        </div>
+                    )}
+
+                    <DialogFooter className="gap-2 sm:gap-0">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                            {isEditMode ? 'Update Budget' : 'Create Budget'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,107 @@
+// resources/js/components/budget-health-card.tsx
+
+import { Link } from '@inertiajs/react';
+import { ArrowRightIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatCurrency, formatPercent, toNumber } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import type { BudgetHealthItem, DashboardSummary } from '@/types/analytics';
+
+interface BudgetHealthCardProps {
+    budgetStatus: DashboardSummary['budget_status'] | null;
+    loading?: boolean;
+    limit?: number;
+}
+
+const statusColors: Record<BudgetHealthItem['status'], string> = {
+    on_track: 'bg-green-600',
+    normal: 'bg-green-600',
+    warning: 'bg-amber-500',
+    exceeded: 'bg-red-600',
+};
+
+export function BudgetHealthCard({
+    budgetStatus,
+    loading = false,
+    limit = 5,
+}: BudgetHealthCardProps) {
+    const budgets = budgetStatus?.budgets.slice(0, limit) ?? [];
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between">
+                <div className="space-y-1.5">
+                    <CardTitle>Budget Health</CardTitle>
+                    <CardDescription>
+                        {budgetStatus && budgetStatus.budgets.length > 0
+                            ? `${formatCurrency(budgetStatus.total_spent)} of ${formatCurrency(
+                                  budgetStatus.total_budget
+                              )} spent (${formatPercent(budgetStatus.utilization_percentage)})`
+                            : 'Spending against this month\'s budgets'}
+                    </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                    <Link href="/budgets">
+                        View all <ArrowRightIcon />
+                    </Link>
+                </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {loading ? (
+                    Array.from({ length: 3 }).map((_, index) => (
+                        <Skeleton key={index} className="h-8 w-full" />
+                    ))
+                ) : budgets.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        No active budgets for this month.
+                    </p>
+                ) : (
+                    <>
+                        <div className="flex gap-4 text-xs text-muted-foreground">
+                            <span>{budgetStatus?.on_track ?? 0} on track</span>
+                            <span className="text-amber-600">
+                                {budgetStatus?.warning ?? 0} near limit
+                            </span>
+                            <span className="text-red-600">
+                                {budgetStatus?.exceeded ?? 0} over budget
+                            </span>
+                        </div>
+                        {budgets.map((budget) => (
+                            <div key={budget.budget_id} className="space-y-1">
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="font-medium">{budget.name}</span>
+                                    <span className="tabular-nums text-muted-foreground">
+                                        {formatCurrency(budget.spent)} /{' '}
+                                        {formatCurrency(budget.amount)}
+                                    </span>
+                                </div>
+                                <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                                    <div
+                                        className={cn(
+                                            'h-full rounded-full',
+                                            statusColors[budget.status]
+                                        )}
+                                        style={{
+                                            width: `${Math.min(
+                                                100,
+                                                toNumber(budget.percentage_used)
+                                            )}%`,
+                                        }}
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
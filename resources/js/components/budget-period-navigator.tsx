@@ -0,0 +1,285 @@
+// resources/js/components/budget-period-navigator.tsx
+
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import {
+    Select,
+    SelectContent,
+    SelectGroup,
+    SelectItem,
+    SelectLabel,
+    SelectSeparator,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CalendarRangeIcon, ChevronLeftIcon, ChevronRightIcon } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage } from '@/lib/api';
+import { formatCurrency, formatPercent, toNumber } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import {
+    BudgetPeriodsDialog,
+    type BudgetPeriodFormData,
+} from '@/components/budget-periods-dialog';
+import type {
+    Budget,
+    BudgetPeriodViewMeta,
+    BudgetStatusCode,
+    SavedBudgetPeriod,
+} from '@/types/budget';
+
+const barColors: Record<BudgetStatusCode, string> = {
+    under_budget: 'bg-green-600',
+    on_track: 'bg-green-600',
+    near_limit: 'bg-amber-500',
+    over_budget: 'bg-red-600',
+};
+
+const standardPeriods = [
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'yearly', label: 'Yearly' },
+];
+
+interface BudgetPeriodNavigatorProps {
+    /** Bumped by the page after budgets change so the view refetches */
+    refreshKey?: number;
+}
+
+/**
+ * Step through past and future budget periods, including saved custom
+ * periods, and show each budget's actual spending in that window.
+ */
+export function BudgetPeriodNavigator({ refreshKey = 0 }: BudgetPeriodNavigatorProps) {
+    const { toast } = useToast();
+    // Either a standard period type or `saved:<id>`
+    const [selection, setSelection] = React.useState('monthly');
+    const [offset, setOffset] = React.useState(0);
+    const [showPeriodsDialog, setShowPeriodsDialog] = React.useState(false);
+    const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+    const { data: periods, reload: reloadPeriods } =
+        useApi<SavedBudgetPeriod[]>('/budget-periods');
+
+    const savedPeriodId = selection.startsWith('saved:') ? Number(selection.slice(6)) : null;
+    const {
+        data: budgets,
+        meta,
+        loading,
+        error,
+        reload,
+    } = useApi<Budget[], BudgetPeriodViewMeta>('/budgets/period/view', {
+        period_type: savedPeriodId ? undefined : selection,
+        budget_period_id: savedPeriodId ?? undefined,
+        offset,
+    });
+
+    React.useEffect(() => {
+        if (refreshKey > 0) {
+            reload();
+        }
+    }, [refreshKey, reload]);
+
+    const handleSelectionChange = (value: string) => {
+        setSelection(value);
+        setOffset(0);
+    };
+
+    const handleCreatePeriod = async (data: BudgetPeriodFormData) => {
+        setIsSubmitting(true);
+        try {
+            const response = await api.post('/budget-periods', data);
+            toast({
+                title: 'Success',
+                description: 'Budget period saved successfully',
+            });
+            reloadPeriods();
+            handleSelectionChange(`saved:${response.data.data.id}`);
+            setShowPeriodsDialog(false);
+            return true;
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to save budget period'),
+                variant: 'destructive',
+            });
+            return false;
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleDeletePeriod = async (period: SavedBudgetPeriod) => {
+        setIsSubmitting(true);
+        try {
+            await api.delete(`/budget-periods/${period.id}`);
+            toast({
+                title: 'Success',
+                description: 'Budget period deleted successfully',
+            });
+            if (savedPeriodId === period.id) {
+                handleSelectionChange('monthly');
+            }
+            reloadPeriods();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to delete budget period'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const totalBudgeted = toNumber(meta?.total_budgeted);
+    const totalSpent = toNumber(meta?.total_spent);
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-col gap-4 space-y-0 md:flex-row md:items-start md:justify-between">
+                <div className="space-y-1.5">
+                    <CardTitle>Spending by Period</CardTitle>
+                    <CardDescription>
+                        {meta
+                            ? `${formatCurrency(totalSpent)} of ${formatCurrency(
+                                  totalBudgeted
+                              )} spent (${formatPercent(
+                                  totalBudgeted > 0 ? (totalSpent / totalBudgeted) * 100 : 0
+                              )})`
+                            : 'Actual spending against each budget in a period'}
+                    </CardDescription>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <Select value={selection} onValueChange={handleSelectionChange}>
+                        <SelectTrigger className="w-44" size="sm">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {standardPeriods.map((period) => (
+                                <SelectItem key={period.value} value={period.value}>
+                                    {period.label}
+                                </SelectItem>
+                            ))}
+                            {periods && periods.length > 0 && (
+                                <>
+                                    <SelectSeparator />
+                                    <SelectGroup>
+                                        <SelectLabel>Saved periods</SelectLabel>
+                                        {periods.map((period) => (
+                                            <SelectItem key={period.id} value={`saved:${period.id}`}>
+                                                {period.name}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectGroup>
+                                </>
+                            )}
+                        </SelectContent>
+                    </Select>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowPeriodsDialog(true)}
+                    >
+                        <CalendarRangeIcon />
+                        Periods
+                    </Button>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {/* Period Switcher */}
+                <div className="flex items-center justify-between rounded-lg border p-2">
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setOffset((o) => o - 1)}
+                    >
+                        <ChevronLeftIcon className="h-4 w-4" />
+                        <span className="sr-only">Previous period</span>
+                    </Button>
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                        {meta ? meta.label : <Skeleton className="h-5 w-40" />}
+                        {meta && !meta.is_current && (
+                            <Button
+                                variant="link"
+                                size="sm"
+                                className="h-auto p-0"
+                                onClick={() => setOffset(0)}
+                            >
+                                Back to current
+                            </Button>
+                        )}
+                    </div>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setOffset((o) => o + 1)}
+                    >
+                        <ChevronRightIcon className="h-4 w-4" />
+                        <span className="sr-only">Next period</span>
+                    </Button>
+                </div>
+
+                {error && <p className="text-sm text-destructive">{error}</p>}
+
+                {loading && !budgets ? (
+                    Array.from({ length: 3 }).map((_, index) => (
+                        <Skeleton key={index} className="h-8 w-full" />
+                    ))
+                ) : !budgets || budgets.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        No active budgets for this kind of period.
+                    </p>
+                ) : (
+                    <div className={cn('space-y-4', loading && 'opacity-60')}>
+                        {budgets.map((budget) => (
+                            <div key={budget.id} className="space-y-1">
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="font-medium">{budget.name}</span>
+                                    <span className="tabular-nums text-muted-foreground">
+                                        {formatCurrency(budget.spent)} /{' '}
+                                        {formatCurrency(budget.amount)}
+                                    </span>
+                                </div>
+                                <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                                    <div
+                                        className={cn(
+                                            'h-full rounded-full',
+                                            barColors[budget.status.code]
+                                        )}
+                                        style={{
+                                            width: `${Math.min(
+                                                100,
+                                                toNumber(budget.percentage_used)
+                                            )}%`,
+                                        }}
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+
+            <BudgetPeriodsDialog
+                open={showPeriodsDialog}
+                onOpenChange={setShowPeriodsDialog}
+                periods={periods ?? []}
+                onCreate={handleCreatePeriod}
+                onDelete={handleDeletePeriod}
+                isSubmitting={isSubmitting}
+            />
+        </Card>
+    );
+}
@@ -0,0 +1,242 @@
+// resources/js/components/budget-periods-dialog.tsx
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2Icon, PlusIcon, TrashIcon } from 'lucide-react';
+import { formatDate, toDateString } from '@/lib/format';
+import { budgetPeriodEnd } from '@/components/budget-form-modal';
+import type { SavedBudgetPeriod } from '@/types/budget';
+
+const periodFormSchema = z
+    .object({
+        name: z.string().min(1, 'Name is required').max(255),
+        period_type: z.enum(['weekly', 'monthly', 'yearly', 'custom']),
+        start_date: z.string().min(1, 'Start date is required'),
+        end_date: z.string().min(1, 'End date is required'),
+    })
+    .refine((data) => data.end_date >= data.start_date, {
+        message: 'End date must be on or after the start date',
+        path: ['end_date'],
+    });
+
+export type BudgetPeriodFormData = z.infer<typeof periodFormSchema>;
+
+interface BudgetPeriodsDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    periods: SavedBudgetPeriod[];
+    onCreate: (data: BudgetPeriodFormData) => Promise<boolean>;
+    onDelete: (period: SavedBudgetPeriod) => void;
+    isSubmitting?: boolean;
+}
+
+const periodTypes: { value: BudgetPeriodFormData['period_type']; label: string }[] = [
+    { value: 'custom', label: 'Custom (e.g. pay cycle)' },
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'yearly', label: 'Yearly' },
+];
+
+function emptyPeriod(): BudgetPeriodFormData {
+    const today = new Date();
+    const startDate = toDateString(new Date(today.getFullYear(), today.getMonth(), 15));
+
+    return {
+        name: 'Pay cycle',
+        period_type: 'custom',
+        start_date: startDate,
+        end_date: budgetPeriodEnd(startDate, 'monthly'),
+    };
+}
+
+export function BudgetPeriodsDialog({
+    open,
+    onOpenChange,
+    periods,
+    onCreate,
+    onDelete,
+    isSubmitting = false,
+}: BudgetPeriodsDialogProps) {
+    const {
+        register,
+        handleSubmit,
+        setValue,
+        getValues,
+        watch,
+        reset,
+        formState: { errors },
+    } = useForm<BudgetPeriodFormData>({
+        resolver: zodResolver(periodFormSchema),
+        defaultValues: emptyPeriod(),
+    });
+
+    const periodType = watch('period_type');
+
+    React.useEffect(() => {
+        if (open) {
+            reset(emptyPeriod());
+        }
+    }, [open, reset]);
+
+    // Standard period types have a fixed length, so fill in the end date
+    const syncEndDate = (startDate: string, type: BudgetPeriodFormData['period_type']) => {
+        if (startDate && type !== 'custom') {
+            setValue('end_date', budgetPeriodEnd(startDate, type));
+        }
+    };
+
+    const onSubmit = async (data: BudgetPeriodFormData) => {
+        if (await onCreate(data)) {
+            reset(emptyPeriod());
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Budget Periods</DialogTitle>
+                    <DialogDescription>
+                        Save periods that match how you get paid. Moving back and forward
+                        keeps the same start day, so a 15th to 14th cycle stays aligned.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {/* Saved Periods */}
+                <div className="space-y-2">
+                    {periods.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No saved periods yet.</p>
+                    ) : (
+                        periods.map((period) => (
+                            <div
+                                key={period.id}
+                                className="flex items-center justify-between rounded-lg border p-3 text-sm"
+                            >
+                                <div>
+                                    <div className="font-medium">{period.name}</div>
+                                    <div className="text-muted-foreground">
+                                        {formatDate(period.start_date)} –{' '}
+                                        {formatDate(period.end_date)}
+                                        {' • '}
+                                        {period.duration_days} days
+                                    </div>
+                                </div>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8 text-destructive"
+                                    onClick={() => onDelete(period)}
+                                    disabled={isSubmitting}
+                                >
+                                    <TrashIcon className="h-4 w-4" />
+                                    <span className="sr-only">Delete {period.name}</span>
+                                </Button>
+                            </div>
+                        ))
+                    )}
+                </div>
+
+                {/* New Period */}
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 border-t pt-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="period_name">
+                                Name <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="period_name"
+                                {...register('name')}
+                                aria-invalid={!!errors.name}
+                            />
+                            {errors.name && (
+                                <p className="text-sm text-destructive">{errors.name.message}</p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Type</Label>
+                            <Select
+                                value={periodType}
+                                onValueChange={(value: BudgetPeriodFormData['period_type']) => {
+                                    setValue('period_type', value);
+                                    syncEndDate(getValues('start_date'), value);
+                                }}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {periodTypes.map((type) => (
+                                        <SelectItem key={type.value} value={type.value}>
+                                            {type.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="period_start_date">
+                                Start Date <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="period_start_date"
+                                type="date"
+                                {...register('start_date', {
+                                    onChange: (e) => syncEndDate(e.target.value, periodType),
+                                })}
+                                aria-invalid={!!errors.start_date}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="period_end_date">
+                                End Date <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="period_end_date"
+                                type="date"
+                                readOnly={periodType !== 'custom'}
+                                {...register('end_date')}
+                                aria-invalid={!!errors.end_date}
+                            />
+                            {errors.end_date && (
+                                <p className="text-sm text-destructive">
+                                    {errors.end_date.message}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                    <div className="flex justify-end">
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting ? (
+                                <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                                <PlusIcon className="mr-2 h-4 w-4" />
+                            )}
+                            Save Period
+                        </Button>
+                    </div>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,160 @@
+// resources/js/components/budget-quick-adjust-dialog.tsx
+
+import * as React from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2Icon } from 'lucide-react';
+import { formatCurrency, toNumber } from '@/lib/format';
+import type { Budget } from '@/types/budget';
+
+interface BudgetQuickAdjustDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    budgets: Budget[];
+    onSubmit: (percentage: number) => void;
+    isSubmitting?: boolean;
+}
+
+// Matches the bounds accepted by POST /budgets/bulk/quick-adjust
+const MIN_PERCENTAGE = -50;
+const MAX_PERCENTAGE = 50;
+const presets = [-10, -5, 5, 10];
+
+export function BudgetQuickAdjustDialog({
+    open,
+    onOpenChange,
+    budgets,
+    onSubmit,
+    isSubmitting = false,
+}: BudgetQuickAdjustDialogProps) {
+    const [percentage, setPercentage] = React.useState('5');
+
+    React.useEffect(() => {
+        if (open) {
+            setPercentage('5');
+        }
+    }, [open]);
+
+    const value = toNumber(percentage);
+    const isValid =
+        percentage.trim() !== '' &&
+        value !== 0 &&
+        value >= MIN_PERCENTAGE &&
+        value <= MAX_PERCENTAGE;
+    const multiplier = 1 + value / 100;
+
+    const currentTotal = budgets.reduce((sum, b) => sum + toNumber(b.amount), 0);
+    const newTotal = budgets.reduce(
+        (sum, b) => sum + Math.round(toNumber(b.amount) * multiplier * 100) / 100,
+        0
+    );
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Quick Adjust Budgets</DialogTitle>
+                    <DialogDescription>
+                        Change the amount of {budgets.length} selected{' '}
+                        {budgets.length === 1 ? 'budget' : 'budgets'} by a percentage.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="percentage">Adjustment (%)</Label>
+                        <div className="flex gap-2">
+                            <Input
+                                id="percentage"
+                                type="number"
+                                step="0.5"
+                                min={MIN_PERCENTAGE}
+                                max={MAX_PERCENTAGE}
+                                value={percentage}
+                                onChange={(e) => setPercentage(e.target.value)}
+                                aria-invalid={!isValid}
+                                className="w-28"
+                            />
+                            {presets.map((preset) => (
+                                <Button
+                                    key={preset}
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-9"
+                                    onClick={() => setPercentage(String(preset))}
+                                >
+                                    {preset > 0 ? '+' : ''}
+                                    {preset}%
+                                </Button>
+                            ))}
+                        </div>
+                        {!isValid && (
+                            <p className="text-sm text-destructive">
+                                Enter a non-zero percentage between {MIN_PERCENTAGE}% and{' '}
+                                {MAX_PERCENTAGE}%.
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Preview */}
+                    <div className="max-h-64 space-y-2 overflow-y-auto rounded-lg border p-3 text-sm">
+                        {budgets.map((budget) => (
+                            <div key={budget.id} className="flex items-center justify-between">
+                                <span className="font-medium">{budget.name}</span>
+                                <span className="tabular-nums text-muted-foreground">
+                                    {formatCurrency(budget.amount)}
+                                    {isValid && (
+                                        <>
+                                            {' → '}
+                                            <span className="text-foreground">
+                                                {formatCurrency(
+                                                    toNumber(budget.amount) * multiplier
+                                                )}
+                                            </span>
+                                        </>
+                                    )}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex justify-between border-t pt-2 text-sm font-medium">
+                        <span>Total</span>
+                        <span className="tabular-nums">
+                            {formatCurrency(currentTotal)}
+                            {isValid && ` → ${formatCurrency(newTotal)}`}
+                        </span>
+                    </div>
+                </div>
+
+                <DialogFooter className="gap-2 sm:gap-0">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => onOpenChange(false)}
+                        disabled={isSubmitting}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        onClick={() => onSubmit(value)}
+                        disabled={!isValid || budgets.length === 0 || isSubmitting}
+                    >
+                        {isSubmitting && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                        Apply Adjustment
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,309 @@
+// resources/js/components/category-form-modal.tsx
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Tooltip,
+    TooltipContent,
+    TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { CheckIcon, Loader2Icon } from 'lucide-react';
+import { CategoryIcon, getCategoryIcon } from '@/components/category-icon';
+import { cn } from '@/lib/utils';
+import type { Category, CategoryIconsAndColors, CategoryType } from '@/types/category';
+
+// Validation schema for category form
+const categoryFormSchema = z.object({
+    name: z.string().min(1, 'Name is required').max(255),
+    type: z.enum(['income', 'expense', 'transfer']),
+    icon: z.string().min(1, 'Pick an icon').max(50),
+    color: z.string().regex(/^#[a-fA-F0-9]{6}$/, 'Pick a valid color'),
+    description: z.string().max(500),
+    is_active: z.boolean(),
+});
+
+export type CategoryFormData = z.infer<typeof categoryFormSchema>;
+
+interface CategoryFormModalProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    category?: Category | null;
+    /** Type preselected when creating (the tab the user is on) */
+    defaultType: CategoryType;
+    options: CategoryIconsAndColors | null;
+    onSubmit: (data: CategoryFormData) => void;
+    isSubmitting?: boolean;
+}
+
+export const categoryTypes: { value: CategoryType; label: string }[] = [
+    { value: 'expense', label: 'Expense' },
+    { value: 'income', label: 'Income' },
+    { value: 'transfer', label: 'Transfer' },
+];
+
+function emptyCategory(type: CategoryType, options: CategoryIconsAndColors | null): CategoryFormData {
+    return {
+        name: '',
+        type,
+        icon: type === 'transfer' ? 'swap_horiz' : (options?.icons[0]?.name ?? 'category'),
+        color: options?.colors[0]?.value ?? '#3B82F6',
+        description: '',
+        is_active: true,
+    };
+}
+
+export function CategoryFormModal({
+    open,
+    onOpenChange,
+    category,
+    defaultType,
+    options,
+    onSubmit,
+    isSubmitting = false,
+}: CategoryFormModalProps) {
+    const isEditMode = !!category;
+
+    const {
+        register,
+        handleSubmit,
+        setValue,
+        watch,
+        reset,
+        formState: { errors },
+    } = useForm<CategoryFormData>({
+        resolver: zodResolver(categoryFormSchema),
+        defaultValues: emptyCategory(defaultType, options),
+    });
+
+    const type = watch('type');
+    const icon = watch('icon');
+    const color = watch('color');
+    const name = watch('name');
+    const isActive = watch('is_active');
+
+    // Reset form when modal opens/closes or category changes
+    React.useEffect(() => {
+        if (open) {
+            if (category) {
+                reset({
+                    name: category.name,
+                    type: category.type,
+                    icon: category.icon || 'category',
+                    color: category.color || '#3B82F6',
+                    description: category.description ?? '',
+                    is_active: category.is_active,
+                });
+            } else {
+                reset(emptyCategory(defaultType, options));
+            }
+        }
+    }, [open, category, defaultType, options, reset]);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{isEditMode ? 'Edit Category' : 'Add New Category'}</DialogTitle>
+                    <DialogDescription>
+                        {isEditMode
+                            ? 'Update the category details below.'
+                            : 'Create a category to group your transactions. Fields with * are required.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    {/* Preview */}
+                    <div className="flex items-center gap-3 rounded-lg border p-3">
+                        <CategoryIcon icon={icon} color={color} className="h-10 w-10" />
+                        <div>
+                            <p className="font-medium">{name || 'Category name'}</p>
+                            <p className="text-sm text-muted-foreground">
+                                {categoryTypes.find((t) => t.value === type)?.label}
+                            </p>
+                        </div>
+                    </div>
+
+                    {/* Name and Type Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="name">
+                                Name <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="name"
+                                placeholder="e.g., Groceries"
+                                {...register('name')}
+                                aria-invalid={!!errors.name}
+                            />
+                            {errors.name && (
+                                <p className="text-sm text-destructive">{errors.name.message}</p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label>
+                                Type <span className="text-destructive">*</span>
+                            </Label>
+                            <Select
+                                value={type}
+                                onValueChange={(value) =>
+                                    setValue('type', value as CategoryType, { shouldValidate: true })
+                                }
+                                disabled={isEditMode && category?.has_transactions}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {categoryTypes.map((t) => (
+                                        <SelectItem key={t.value} value={t.value}>
+                                            {t.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {isEditMode && category?.has_transactions && (
+                                <p className="text-xs text-muted-foreground">
+                                    The type is locked while transactions use this category.
+                                </p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Icon picker */}
+                    <div className="space-y-2">
+                        <Label>
+                            Icon <span className="text-destructive">*</span>
+                        </Label>
+                        <div className="grid grid-cols-8 gap-1.5 rounded-lg border p-2">
+                            {(options?.icons ?? []).map((option) => {
+                                const Icon = getCategoryIcon(option.name);
+                                const selected = option.name === icon;
+
+                                return (
+                                    <Tooltip key={option.name}>
+                                        <TooltipTrigger asChild>
+                                            <button
+                                                type="button"
+                                                onClick={() =>
+                                                    setValue('icon', option.name, { shouldValidate: true })
+                                                }
+                                                className={cn(
+                                                    'flex h-9 w-9 items-center justify-center rounded-md border transition-colors hover:bg-muted',
+                                                    selected ? 'border-primary bg-muted' : 'border-transparent'
+                                                )}
+                                                style={selected ? { color } : undefined}
+                                            >
+                                                <Icon className="h-4 w-4" />
+                                                <span className="sr-only">{option.label}</span>
+                                            </button>
+                                        </TooltipTrigger>
+                                        <TooltipContent>{option.label}</TooltipContent>
+                                    </Tooltip>
+                                );
+                            })}
+                        </div>
+                        {errors.icon && (
+                            <p className="text-sm text-destructive">{errors.icon.message}</p>
+                        )}
+                    </div>
+
+                    {/* Color picker */}
+                    <div className="space-y-2">
+                        <Label htmlFor="color">Color</Label>
+                        <div className="flex flex-wrap items-center gap-2">
+                            {(options?.colors ?? []).map((option) => (
+                                <button
+                                    key={option.value}
+                                    type="button"
+                                    title={option.label}
+                                    onClick={() =>
+                                        setValue('color', option.value, { shouldValidate: true })
+                                    }
+                                    className="flex h-7 w-7 items-center justify-center rounded-full ring-offset-2 ring-offset-background"
+                                    style={{ backgroundColor: option.value }}
+                                >
+                                    {option.value.toLowerCase() === color.toLowerCase() && (
+                                        <CheckIcon className="h-4 w-4 text-white" />
+                                    )}
+                                    <span className="sr-only">{option.label}</span>
+                                </button>
+                            ))}
+                            <Input
+                                id="color"
+                                type="color"
+                                className="h-8 w-12 p-1"
+                                {...register('color')}
+                            />
+                        </div>
+                        {errors.color && (
+                            <p className="text-sm text-destructive">{errors.color.message}</p>
+                        )}
+                    </div>
+
+                    {/* Description */}
+                    <div className="space-y-2">
+                        <Label htmlFor="description">Description</Label>
+                        <Textarea
+                            id="description"
+                            placeholder="Optional notes about what belongs here"
+                            rows={2}
+                            {...register('description')}
+                        />
+                        {errors.description && (
+                            <p className="text-sm text-destructive">{errors.description.message}</p>
+                        )}
+                    </div>
+
+                    {/* Active */}
+                    <div className="flex items-center gap-2">
+                        <Checkbox
+                            id="is_active"
+                            checked={isActive}
+                            onCheckedChange={(checked) => setValue('is_active', checked === true)}
+                        />
+                        <Label htmlFor="is_active" className="font-normal">
+                            Active
+                        </Label>
+                    </div>
+
+                    <DialogFooter>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                            {isEditMode ? 'Update Category' : 'Create Category'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
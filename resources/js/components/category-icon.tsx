@@ -0,0 +1,109 @@
+// resources/js/components/category-icon.tsx
+
+import {
+    ArrowLeftRightIcon,
+    BriefcaseIcon,
+    BusIcon,
+    CarIcon,
+    CoffeeIcon,
+    DollarSignIcon,
+    DumbbellIcon,
+    FilmIcon,
+    FuelIcon,
+    GiftIcon,
+    GraduationCapIcon,
+    HeartIcon,
+    HomeIcon,
+    HospitalIcon,
+    KeyRoundIcon,
+    LandmarkIcon,
+    LaptopIcon,
+    MonitorSmartphoneIcon,
+    MusicIcon,
+    PawPrintIcon,
+    PiggyBankIcon,
+    PlaneIcon,
+    ReceiptIcon,
+    ShirtIcon,
+    ShoppingBasketIcon,
+    ShoppingCartIcon,
+    SmartphoneIcon,
+    TagIcon,
+    TrendingUpIcon,
+    UtensilsIcon,
+    WalletIcon,
+    ZapIcon,
+    type LucideIcon,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+/**
+ * Categories store Material icon names (see /categories/meta/icons-and-colors);
+ * this maps them onto the lucide icons used across the UI.
+ */
+export const categoryIcons: Record<string, LucideIcon> = {
+    shopping_cart: ShoppingCartIcon,
+    shopping_bag: ShoppingCartIcon,
+    home: HomeIcon,
+    directions_car: CarIcon,
+    restaurant: UtensilsIcon,
+    fastfood: UtensilsIcon,
+    favorite: HeartIcon,
+    work: BriefcaseIcon,
+    business_center: BriefcaseIcon,
+    flight: PlaneIcon,
+    local_grocery_store: ShoppingBasketIcon,
+    movie: FilmIcon,
+    local_cafe: CoffeeIcon,
+    pets: PawPrintIcon,
+    smartphone: SmartphoneIcon,
+    local_gas_station: FuelIcon,
+    school: GraduationCapIcon,
+    music_note: MusicIcon,
+    fitness_center: DumbbellIcon,
+    checkroom: ShirtIcon,
+    devices: MonitorSmartphoneIcon,
+    computer: LaptopIcon,
+    bolt: ZapIcon,
+    electrical_services: ZapIcon,
+    key: KeyRoundIcon,
+    directions_bus: BusIcon,
+    local_hospital: HospitalIcon,
+    attach_money: DollarSignIcon,
+    monetization_on: DollarSignIcon,
+    payment: DollarSignIcon,
+    account_balance: LandmarkIcon,
+    account_balance_wallet: WalletIcon,
+    savings: PiggyBankIcon,
+    card_giftcard: GiftIcon,
+    trending_up: TrendingUpIcon,
+    receipt: ReceiptIcon,
+    swap_horiz: ArrowLeftRightIcon,
+    compare_arrows: ArrowLeftRightIcon,
+    category: TagIcon,
+};
+
+export function getCategoryIcon(icon?: string | null): LucideIcon {
+    return (icon && categoryIcons[icon]) || TagIcon;
+}
+
+interface CategoryIconProps {
+    icon?: string | null;
+    color?: string | null;
+    className?: string;
+}
+
+/** Round badge with the category's icon drawn in its color */
+export function CategoryIcon({ icon, color, className }: CategoryIconProps) {
+    const Icon = getCategoryIcon(icon);
+    const tint = color || '#607D8B';
+
+    return (
+        <span
+            className={cn('flex h-8 w-8 shrink-0 items-center justify-center rounded-full', className)}
+            style={{ backgroundColor: `${tint}1A`, color: tint }}
+        >
+            <Icon className="h-4 w-4" />
+        </span>
+    );
+}
@@ -0,0 +1,152 @@
+// resources/js/components/category-merge-dialog.tsx
+
+import * as React from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { ArrowDownIcon, Loader2Icon } from 'lucide-react';
+import { CategoryIcon } from '@/components/category-icon';
+import type { Category } from '@/types/category';
+
+interface CategoryMergeDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** Category that is merged away */
+    source: Category | null;
+    /** Candidates to merge into; only categories of the source's type are offered */
+    categories: Category[];
+    onConfirm: (targetId: number, deleteSource: boolean) => void;
+    isMerging?: boolean;
+}
+
+export function CategoryMergeDialog({
+    open,
+    onOpenChange,
+    source,
+    categories,
+    onConfirm,
+    isMerging = false,
+}: CategoryMergeDialogProps) {
+    const [targetId, setTargetId] = React.useState<number | null>(null);
+    const [deleteSource, setDeleteSource] = React.useState(true);
+
+    const targets = categories.filter((c) => c.type === source?.type && c.id !== source?.id);
+    const target = targets.find((c) => c.id === targetId) ?? null;
+
+    // Reset the choice every time the dialog opens
+    React.useEffect(() => {
+        if (open) {
+            setTargetId(null);
+            setDeleteSource(true);
+        }
+    }, [open, source]);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[480px]">
+                <DialogHeader>
+                    <DialogTitle>Merge Category</DialogTitle>
+                    <DialogDescription>
+                        Every transaction, budget and subcategory in {source?.name} moves to the
+                        category you pick. This cannot be undone.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    {source && (
+                        <div className="flex items-center gap-3 rounded-lg border p-3">
+                            <CategoryIcon icon={source.icon} color={source.color} />
+                            <div>
+                                <p className="font-medium">{source.name}</p>
+                                <p className="text-xs text-muted-foreground">
+                                    {source.has_transactions ? 'Has transactions' : 'No transactions'}
+                                    {source.has_budgets && ' • Has budgets'}
+                                </p>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="flex justify-center text-muted-foreground">
+                        <ArrowDownIcon className="h-4 w-4" />
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>
+                            Merge into <span className="text-destructive">*</span>
+                        </Label>
+                        <Select
+                            value={targetId ? String(targetId) : ''}
+                            onValueChange={(value) => setTargetId(Number(value))}
+                        >
+                            <SelectTrigger>
+                                <SelectValue placeholder="Select category" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {targets.map((category) => (
+                                    <SelectItem key={category.id} value={String(category.id)}>
+                                        {category.name}
+                                        {!category.is_active && ' (inactive)'}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        {targets.length === 0 && (
+                            <p className="text-sm text-muted-foreground">
+                                There is no other {source?.type_label.toLowerCase()} category to
+                                merge into.
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="flex items-start gap-2">
+                        <Checkbox
+                            id="delete_source"
+                            checked={deleteSource}
+                            onCheckedChange={(checked) => setDeleteSource(checked === true)}
+                        />
+                        <Label htmlFor="delete_source" className="font-normal leading-snug">
+                            Delete {source?.name} after merging
+                            <span className="block text-xs text-muted-foreground">
+                                When unchecked it is kept as an inactive category.
+                            </span>
+                        </Label>
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => onOpenChange(false)}
+                        disabled={isMerging}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        onClick={() => target && onConfirm(target.id, deleteSource)}
+                        disabled={!target || isMerging}
+                    >
+                        {isMerging && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                        {target ? `Merge into ${target.name}` : 'Merge'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,143 @@
+// resources/js/components/category-spending-donut.tsx
+
+import { Cell, Label, Pie, PieChart } from 'recharts';
+import {
+    type ChartConfig,
+    ChartContainer,
+    ChartTooltip,
+    ChartTooltipContent,
+} from '@/components/ui/chart';
+import { formatCurrency, formatPercent, toNumber } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import type { CategorySpendingItem } from '@/types/category';
+
+// Fallbacks for categories without a color of their own
+const chartColors = ['var(--chart-1)', 'var(--chart-2)', 'var(--chart-3)', 'var(--chart-4)', 'var(--chart-5)'];
+
+interface CategorySpendingDonutProps {
+    categories: CategorySpendingItem[];
+    total: number | string;
+    selectedId: number | null;
+    onSelect: (categoryId: number) => void;
+}
+
+export function CategorySpendingDonut({
+    categories,
+    total,
+    selectedId,
+    onSelect,
+}: CategorySpendingDonutProps) {
+    const chartData = categories.map((item, index) => ({
+        id: item.category_id,
+        key: `category-${item.category_id}`,
+        name: item.category_name,
+        value: toNumber(item.total_amount),
+        percentage: item.percentage_of_total,
+        fill: item.category_color || chartColors[index % chartColors.length],
+    }));
+
+    const chartConfig = Object.fromEntries(
+        chartData.map((item) => [item.key, { label: item.name, color: item.fill }])
+    ) satisfies ChartConfig;
+
+    return (
+        <div className="grid items-center gap-6 md:grid-cols-2">
+            <ChartContainer config={chartConfig} className="mx-auto aspect-square h-[260px]">
+                <PieChart>
+                    <ChartTooltip
+                        cursor={false}
+                        content={
+                            <ChartTooltipContent
+                                hideLabel
+                                nameKey="key"
+                                formatter={(value, _name, item) => (
+                                    <div className="flex w-full justify-between gap-4">
+                                        <span className="text-muted-foreground">
+                                            {item.payload.name}
+                                        </span>
+                                        <span className="font-mono font-medium tabular-nums">
+                                            {formatCurrency(value as number)}
+                                        </span>
+                                    </div>
+                                )}
+                            />
+                        }
+                    />
+                    <Pie
+                        data={chartData}
+                        dataKey="value"
+                        nameKey="name"
+                        innerRadius={70}
+                        outerRadius={110}
+                        strokeWidth={2}
+                        className="cursor-pointer"
+                        onClick={(_, index) => onSelect(chartData[index].id)}
+                    >
+                        {chartData.map((item) => (
+                            <Cell
+                                key={item.id}
+                                fill={item.fill}
+                                opacity={selectedId === null || selectedId === item.id ? 1 : 0.35}
+                            />
+                        ))}
+                        <Label
+                            content={({ viewBox }) => {
+                                if (viewBox && 'cx' in viewBox && 'cy' in viewBox) {
+                                    return (
+                                        <text
+                                            x={viewBox.cx}
+                                            y={viewBox.cy}
+                                            textAnchor="middle"
+                                            dominantBaseline="middle"
+                                        >
+                                            <tspan
+                                                x={viewBox.cx}
+                                                y={viewBox.cy}
+                                                className="fill-foreground text-lg font-bold"
+                                            >
+                                                {formatCurrency(total)}
+                                            </tspan>
+                                            <tspan
+                                                x={viewBox.cx}
+                                                y={(viewBox.cy ?? 0) + 20}
+                                                className="fill-muted-foreground text-xs"
+                                            >
+                                                Total
+                                            </tspan>
+                                        </text>
+                                    );
+                                }
+                            }}
+                        />
+                    </Pie>
+                </PieChart>
+            </ChartContainer>
+
+            {/* Legend doubles as a list so small slices stay clickable */}
+            <div className="max-h-[260px] space-y-1 overflow-y-auto">
+                {chartData.map((item) => (
+                    <button
+                        key={item.id}
+                        type="button"
+                        onClick={() => onSelect(item.id)}
+                        className={cn(
+                            'flex w-full items-center justify-between gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-muted',
+                            selectedId === item.id && 'bg-muted'
+                        )}
+                    >
+                        <span className="flex min-w-0 items-center gap-2">
+                            <span
+                                className="h-2.5 w-2.5 shrink-0 rounded-full"
+                                style={{ backgroundColor: item.fill }}
+                            />
+                            <span className="truncate">{item.name}</span>
+                        </span>
+                        <span className="shrink-0 tabular-nums text-muted-foreground">
+                            {formatCurrency(item.value)} · {formatPercent(item.percentage)}
+                        </span>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
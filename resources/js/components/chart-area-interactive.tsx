@@ -1,22 +1,43 @@
 "use client"
 
 import * as React from "react"
-import { Area, AreaChart, CartesianGrid, XAxis } from "recharts"
+import {
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  format,
+  subDays,
+} from "date-fns"
+import { FilterIcon } from "lucide-react"
+import { Area, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts"
 
+import { useApi } from "@/hooks/use-api"
 import { useIsMobile } from "@/hooks/use-mobile"
+import { Button } from "@/components/ui/button"
 import {
   Card,
   CardContent,
   CardDescription,
+  CardFooter,
   CardHeader,
   CardTitle,
 } from "@/components/ui/card"
 import {
   ChartConfig,
   ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
   ChartTooltip,
   ChartTooltipContent,
 } from "@/components/ui/chart"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import {
   Select,
   SelectContent,
@@ -24,121 +45,95 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
 import {
   ToggleGroup,
   ToggleGroupItem,
 } from "@/components/ui/toggle-group"
-const chartData = [
-  { date: "2024-04-01", desktop: 222, mobile: 150 },
-  { date: "2024-04-02", desktop: 97, mobile: 180 },
-  { date: "2024-04-03", desktop: 167, mobile: 120 },
-  { date: "2024-04-04", desktop: 242, mobile: 260 },
-  { date: "2024-04-05", desktop: 373, mobile: 290 },
-  { date: "2024-04-06", desktop: 301, mobile: 340 },
-  { date: "2024-04-07", desktop: 245, mobile: 180 },
-  { date: "2024-04-08", desktop: 409, mobile: 320 },
-  { date: "2024-04-09", desktop: 59, mobile: 110 },
-  { date: "2024-04-10", desktop: 261, mobile: 190 },
-  { date: "2024-04-11", desktop: 327, mobile: 350 },
-  { date: "2024-04-12", desktop: 292, mobile: 210 },
-  { date: "2024-04-13", desktop: 342, mobile: 380 },
-  { date: "2024-04-14", desktop: 137, mobile: 220 },
-  { date: "2024-04-15", desktop: 120, mobile: 170 },
-  { date: "2024-04-16", desktop: 138, mobile: 190 },
-  { date: "2024-04-17", desktop: 446, mobile: 360 },
-  { date: "2024-04-18", desktop: 364, mobile: 410 },
-  { date: "2024-04-19", desktop: 243, mobile: 180 },
-  { date: "2024-04-20", desktop: 89, mobile: 150 },
-  { date: "2024-04-21", desktop: 137, mobile: 200 },
-  { date: "2024-04-22", desktop: 224, mobile: 170 },
-  { date: "2024-04-23", desktop: 138, mobile: 230 },
-  { date: "2024-04-24", desktop: 387, mobile: 290 },
-  { date: "2024-04-25", desktop: 215, mobile: 250 },
-  { date: "2024-04-26", desktop: 75, mobile: 130 },
-  { date: "2024-04-27", desktop: 383, mobile: 420 },
-  { date: "2024-04-28", desktop: 122, mobile: 180 },
-  { date: "2024-04-29", desktop: 315, mobile: 240 },
-  { date: "2024-04-30", desktop: 454, mobile: 380 },
-  { date: "2024-05-01", desktop: 165, mobile: 220 },
-  { date: "2024-05-02", desktop: 293, mobile: 310 },
-  { date: "2024-05-03", desktop: 247, mobile: 190 },
-  { date: "2024-05-04", desktop: 385, mobile: 420 },
-  { date: "2024-05-05", desktop: 481, mobile: 390 },
-  { date: "2024-05-06", desktop: 498, mobile: 520 },
-  { date: "2024-05-07", desktop: 388, mobile: 300 },
-  { date: "2024-05-08", desktop: 149, mobile: 210 },
-  { date: "2024-05-09", desktop: 227, mobile: 180 },
-  { date: "2024-05-10", desktop: 293, mobile: 330 },
-  { date: "2024-05-11", desktop: 335, mobile: 270 },
-  { date: "2024-05-12", desktop: 197, mobile: 240 },
-  { date: "2024-05-13", desktop: 197, mobile: 160 },
-  { date: "2024-05-14", desktop: 448, mobile: 490 },
-  { date: "2024-05-15", desktop: 473, mobile: 380 },
-  { date: "2024-05-16", desktop: 338, mobile: 400 },
-  { date: "2024-05-17", desktop: 499, mobile: 420 },
-  { date: "2024-05-18", desktop: 315, mobile: 350 },
-  { date: "2024-05-19", desktop: 235, mobile: 180 },
-  { date: "2024-05-20", desktop: 177, mobile: 230 },
-  { date: "2024-05-21", desktop: 82, mobile: 140 },
-  { date: "2024-05-22", desktop: 81, mobile: 120 },
-  { date: "2024-05-23", desktop: 252, mobile: 290 },
-  { date: "2024-05-24", desktop: 294, mobile: 220 },
-  { date: "2024-05-25", desktop: 201, mobile: 250 },
-  { date: "2024-05-26", desktop: 213, mobile: 170 },
-  { date: "2024-05-27", desktop: 420, mobile: 460 },
-  { date: "2024-05-28", desktop: 233, mobile: 190 },
-  { date: "2024-05-29", desktop: 78, mobile: 130 },
-  { date: "2024-05-30", desktop: 340, mobile: 280 },
-  { date: "2024-05-31", desktop: 178, mobile: 230 },
-  { date: "2024-06-01", desktop: 178, mobile: 200 },
-  { date: "2024-06-02", desktop: 470, mobile: 410 },
-  { date: "2024-06-03", desktop: 103, mobile: 160 },
-  { date: "2024-06-04", desktop: 439, mobile: 380 },
-  { date: "2024-06-05", desktop: 88, mobile: 140 },
-  { date: "2024-06-06", desktop: 294, mobile: 250 },
-  { date: "2024-06-07", desktop: 323, mobile: 370 },
-  { date: "2024-06-08", desktop: 385, mobile: 320 },
-  { date: "2024-06-09", desktop: 438, mobile: 480 },
-  { date: "2024-06-10", desktop: 155, mobile: 200 },
-  { date: "2024-06-11", desktop: 92, mobile: 150 },
-  { date: "2024-06-12", desktop: 492, mobile: 420 },
-  { date: "2024-06-13", desktop: 81, mobile: 130 },
-  { date: "2024-06-14", desktop: 426, mobile: 380 },
-  { date: "2024-06-15", desktop: 307, mobile: 350 },
-  { date: "2024-06-16", desktop: 371, mobile: 310 },
-  { date: "2024-06-17", desktop: 475, mobile: 520 },
-  { date: "2024-06-18", desktop: 107, mobile: 170 },
-  { date: "2024-06-19", desktop: 341, mobile: 290 },
-  { date: "2024-06-20", desktop: 408, mobile: 450 },
-  { date: "2024-06-21", desktop: 169, mobile: 210 },
-  { date: "2024-06-22", desktop: 317, mobile: 270 },
-  { date: "2024-06-23", desktop: 480, mobile: 530 },
-  { date: "2024-06-24", desktop: 132, mobile: 180 },
-  { date: "2024-06-25", desktop: 141, mobile: 190 },
-  { date: "2024-06-26", desktop: 434, mobile: 380 },
-  { date: "2024-06-27", desktop: 448, mobile: 490 },
-  { date: "2024-06-28", desktop: 149, mobile: 200 },
-  { date: "2024-06-29", desktop: 103, mobile: 160 },
-  { date: "2024-06-30", desktop: 446, mobile: 400 },
-]
+import { formatCurrency, toDateString, toNumber } from "@/lib/format"
+import type { Account } from "@/types/account"
+import type { CashFlowReport, IncomeVsExpensesReport } from "@/types/analytics"
+import type { Category } from "@/types/category"
+
+type TimeRange = "7d" | "30d" | "90d"
+type GroupBy = "day" | "week" | "month"
+
+const rangeDays: Record<TimeRange, number> = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+}
+
+const rangeLabels: Record<TimeRange, string> = {
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+  "90d": "Last 3 months",
+}
 
 const chartConfig = {
-  visitors: {
-    label: "Visitors",
+  income: {
+    label: "Income",
+    color: "var(--chart-2)",
   },
-  desktop: {
-    label: "Desktop",
-    color: "hsl(var(--chart-1))",
+  expenses: {
+    label: "Expenses",
+    color: "var(--chart-1)",
   },
-  mobile: {
-    label: "Mobile",
-    color: "hsl(var(--chart-2))",
+  net: {
+    label: "Net",
+    color: "var(--chart-3)",
+  },
+  running_balance: {
+    label: "Cumulative net",
+    color: "var(--chart-4)",
   },
 } satisfies ChartConfig
 
+interface ChartPoint {
+  key: string
+  label: string
+  income: number
+  expenses: number
+  net: number
+  running_balance: number
+}
+
+/**
+ * Build every bucket in the range using the same keys the API groups by
+ * (Y-m-d, ISO year-week and Y-m), so periods without transactions still
+ * show up on the chart as zero instead of being skipped.
+ */
+function buildBuckets(start: Date, end: Date, groupBy: GroupBy) {
+  const interval = { start, end }
+
+  if (groupBy === "week") {
+    return eachWeekOfInterval(interval, { weekStartsOn: 1 }).map((date) => ({
+      key: `${format(date, "RRRR")}-${format(date, "II")}`,
+      label: `Week of ${format(date, "MMM d")}`,
+    }))
+  }
+  if (groupBy === "month") {
+    return eachMonthOfInterval(interval).map((date) => ({
+      key: format(date, "yyyy-MM"),
+      label: format(date, "MMM yyyy"),
+    }))
+  }
+  return eachDayOfInterval(interval).map((date) => ({
+    key: format(date, "yyyy-MM-dd"),
+    label: format(date, "MMM d"),
+  }))
+}
+
+function toggleId(ids: number[], id: number, checked: boolean) {
+  return checked ? [...ids, id] : ids.filter((existing) => existing !== id)
+}
+
 export function ChartAreaInteractive() {
   const isMobile = useIsMobile()
-  const [timeRange, setTimeRange] = React.useState("30d")
+  const [timeRange, setTimeRange] = React.useState<TimeRange>("30d")
+  const [groupBy, setGroupBy] = React.useState<GroupBy>("day")
+  const [accountIds, setAccountIds] = React.useState<number[]>([])
+  const [categoryIds, setCategoryIds] = React.useState<number[]>([])
 
   React.useEffect(() => {
     if (isMobile) {
@@ -146,35 +141,76 @@ export function ChartAreaInteractive() {
     }
   }, [isMobile])
 
-  const filteredData = chartData.filter((item) => {
-    const date = new Date(item.date)
-    const referenceDate = new Date("2024-06-30")
-    let daysToSubtract = 90
-    if (timeRange === "30d") {
-      daysToSubtract = 30
-    } else if (timeRange === "7d") {
-      daysToSubtract = 7
-    }
-    const startDate = new Date(referenceDate)
-    startDate.setDate(startDate.getDate() - daysToSubtract)
-    return date >= startDate
+  const range = React.useMemo(() => {
+    const end = new Date()
+    return { start: subDays(end, rangeDays[timeRange] - 1), end }
+  }, [timeRange])
+
+  const params = {
+    start_date: toDateString(range.start),
+    end_date: toDateString(range.end),
+    group_by: groupBy,
+    account_ids: accountIds,
+    category_ids: categoryIds,
+  }
+
+  const incomeVsExpenses = useApi<IncomeVsExpensesReport>(
+    "/analytics/income-vs-expenses",
+    params
+  )
+  const cashFlow = useApi<CashFlowReport>("/analytics/cash-flow", params)
+  const { data: accounts } = useApi<Account[]>("/accounts")
+  const { data: categories } = useApi<Category[]>("/categories", {
+    is_active: 1,
   })
 
+  const chartData = React.useMemo<ChartPoint[]>(() => {
+    const totals = new Map(
+      (incomeVsExpenses.data?.data ?? []).map((point) => [point.period, point])
+    )
+    const flows = new Map(
+      (cashFlow.data?.data ?? []).map((point) => [point.period, point])
+    )
+    let runningBalance = 0
+
+    return buildBuckets(range.start, range.end, groupBy).map((bucket) => {
+      const total = totals.get(bucket.key)
+      const flow = flows.get(bucket.key)
+      if (flow) {
+        runningBalance = toNumber(flow.running_balance)
+      }
+
+      return {
+        ...bucket,
+        income: toNumber(total?.income),
+        expenses: toNumber(total?.expenses),
+        net: toNumber(total?.net),
+        running_balance: runningBalance,
+      }
+    })
+  }, [incomeVsExpenses.data, cashFlow.data, range, groupBy])
+
+  const summary = incomeVsExpenses.data?.summary
+  const flowSummary = cashFlow.data?.summary
+  const loading = incomeVsExpenses.loading || cashFlow.loading
+  const error = incomeVsExpenses.error ?? cashFlow.error
+  const filterCount = accountIds.length + categoryIds.length
+
   return (
     <Card className="@container/card">
       <CardHeader className="relative">
-        <CardTitle>Total Visitors</CardTitle>
+        <CardTitle>Income vs Expenses</CardTitle>
         <CardDescription>
           <span className="@[540px]/card:block hidden">
-            Total for the last 3 months
+            Totals for the {rangeLabels[timeRange].toLowerCase()}
           </span>
-          <span className="@[540px]/card:hidden">Last 3 months</span>
+          <span className="@[540px]/card:hidden">{rangeLabels[timeRange]}</span>
         </CardDescription>
-        <div className="absolute right-4 top-4">
+        <div className="@[540px]/card:absolute @[540px]/card:right-4 @[540px]/card:top-4 mt-2 flex flex-wrap items-center gap-2">
           <ToggleGroup
             type="single"
             value={timeRange}
-            onValueChange={setTimeRange}
+            onValueChange={(value) => value && setTimeRange(value as TimeRange)}
             variant="outline"
             className="@[767px]/card:flex hidden"
           >
@@ -188,12 +224,15 @@ export function ChartAreaInteractive() {
               Last 7 days
             </ToggleGroupItem>
           </ToggleGroup>
-          <Select value={timeRange} onValueChange={setTimeRange}>
+          <Select
+            value={timeRange}
+            onValueChange={(value) => setTimeRange(value as TimeRange)}
+          >
             <SelectTrigger
               className="@[767px]/card:hidden flex w-40"
-              aria-label="Select a value"
+              aria-label="Select a time range"
             >
-              <SelectValue placeholder="Last 3 months" />
+              <SelectValue placeholder="Last 30 days" />
             </SelectTrigger>
             <SelectContent className="rounded-xl">
               <SelectItem value="90d" className="rounded-lg">
@@ -207,86 +246,224 @@ export function ChartAreaInteractive() {
               </SelectItem>
             </SelectContent>
           </Select>
+          <Select
+            value={groupBy}
+            onValueChange={(value) => setGroupBy(value as GroupBy)}
+          >
+            <SelectTrigger className="w-28" aria-label="Group by">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="rounded-xl">
+              <SelectItem value="day" className="rounded-lg">
+                Daily
+              </SelectItem>
+              <SelectItem value="week" className="rounded-lg">
+                Weekly
+              </SelectItem>
+              <SelectItem value="month" className="rounded-lg">
+                Monthly
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="h-9">
+                <FilterIcon />
+                Filters{filterCount > 0 ? ` (${filterCount})` : ""}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent
+              align="end"
+              className="max-h-80 w-56 overflow-y-auto"
+            >
+              <DropdownMenuLabel>Accounts</DropdownMenuLabel>
+              {(accounts ?? []).map((account) => (
+                <DropdownMenuCheckboxItem
+                  key={account.id}
+                  checked={accountIds.includes(account.id)}
+                  onCheckedChange={(checked) =>
+                    setAccountIds((ids) => toggleId(ids, account.id, !!checked))
+                  }
+                  onSelect={(event) => event.preventDefault()}
+                >
+                  {account.name}
+                </DropdownMenuCheckboxItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Categories</DropdownMenuLabel>
+              {(categories ?? [])
+                .filter((category) => category.type !== "transfer")
+                .map((category) => (
+                  <DropdownMenuCheckboxItem
+                    key={category.id}
+                    checked={categoryIds.includes(category.id)}
+                    onCheckedChange={(checked) =>
+                      setCategoryIds((ids) =>
+                        toggleId(ids, category.id, !!checked)
+                      )
+                    }
+                    onSelect={(event) => event.preventDefault()}
+                  >
+                    {category.name}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              {filterCount > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => {
+                      setAccountIds([])
+                      setCategoryIds([])
+                    }}
+                  >
+                    Clear filters
+                  </Button>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </CardHeader>
       <CardContent className="px-2 pt-4 sm:px-6 sm:pt-6">
-        <ChartContainer
-          config={chartConfig}
-          className="aspect-auto h-[250px] w-full"
-        >
-          <AreaChart data={filteredData}>
-            <defs>
-              <linearGradient id="fillDesktop" x1="0" y1="0" x2="0" y2="1">
-                <stop
-                  offset="5%"
-                  stopColor="var(--color-desktop)"
-                  stopOpacity={1.0}
-                />
-                <stop
-                  offset="95%"
-                  stopColor="var(--color-desktop)"
-                  stopOpacity={0.1}
-                />
-              </linearGradient>
-              <linearGradient id="fillMobile" x1="0" y1="0" x2="0" y2="1">
-                <stop
-                  offset="5%"
-                  stopColor="var(--color-mobile)"
-                  stopOpacity={0.8}
-                />
-                <stop
-                  offset="95%"
-                  stopColor="var(--color-mobile)"
-                  stopOpacity={0.1}
-                />
-              </linearGradient>
-            </defs>
-            <CartesianGrid vertical={false} />
-            <XAxis
-              dataKey="date"
-              tickLine={false}
-              axisLine={false}
-              tickMargin={8}
-              minTickGap={32}
-              tickFormatter={(value) => {
-                const date = new Date(value)
-                return date.toLocaleDateString("en-US", {
-                  month: "short",
-                  day: "numeric",
-                })
-              }}
-            />
-            <ChartTooltip
-              cursor={false}
-              content={
-                <ChartTooltipContent
-                  labelFormatter={(value) => {
-                    return new Date(value).toLocaleDateString("en-US", {
-                      month: "short",
-                      day: "numeric",
-                    })
-                  }}
-                  indicator="dot"
-                />
-              }
-            />
-            <Area
-              dataKey="mobile"
-              type="natural"
-              fill="url(#fillMobile)"
-              stroke="var(--color-mobile)"
-              stackId="a"
-            />
-            <Area
-              dataKey="desktop"
-              type="natural"
-              fill="url(#fillDesktop)"
-              stroke="var(--color-desktop)"
-              stackId="a"
-            />
-          </AreaChart>
-        </ChartContainer>
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : loading && !incomeVsExpenses.data ? (
+          <Skeleton className="h-[250px] w-full" />
+        ) : (
+          <ChartContainer
+            config={chartConfig}
+            className="aspect-auto h-[250px] w-full"
+          >
+            <ComposedChart data={chartData}>
+              <defs>
+                <linearGradient id="fillIncome" x1="0" y1="0" x2="0" y2="1">
+                  <stop
+                    offset="5%"
+                    stopColor="var(--color-income)"
+                    stopOpacity={0.8}
+                  />
+                  <stop
+                    offset="95%"
+                    stopColor="var(--color-income)"
+                    stopOpacity={0.1}
+                  />
+                </linearGradient>
+                <linearGradient id="fillExpenses" x1="0" y1="0" x2="0" y2="1">
+                  <stop
+                    offset="5%"
+                    stopColor="var(--color-expenses)"
+                    stopOpacity={0.8}
+                  />
+                  <stop
+                    offset="95%"
+                    stopColor="var(--color-expenses)"
+                    stopOpacity={0.1}
+                  />
+                </linearGradient>
+              </defs>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="label"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                minTickGap={32}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={80}
+                tickFormatter={(value) =>
+                  new Intl.NumberFormat("en-PH", {
+                    notation: "compact",
+                  }).format(value)
+                }
+              />
+              <ChartTooltip
+                cursor={false}
+                content={
+                  <ChartTooltipContent
+                    indicator="dot"
+                    formatter={(value, name) => (
+                      <div className="flex w-full items-center justify-between gap-4">
+                        <span className="text-muted-foreground">
+                          {chartConfig[name as keyof typeof chartConfig]?.label}
+                        </span>
+                        <span className="font-mono font-medium tabular-nums">
+                          {formatCurrency(value as number)}
+                        </span>
+                      </div>
+                    )}
+                  />
+                }
+              />
+              <Area
+                dataKey="income"
+                type="monotone"
+                fill="url(#fillIncome)"
+                stroke="var(--color-income)"
+              />
+              <Area
+                dataKey="expenses"
+                type="monotone"
+                fill="url(#fillExpenses)"
+                stroke="var(--color-expenses)"
+              />
+              <Line
+                dataKey="net"
+                type="monotone"
+                stroke="var(--color-net)"
+                strokeWidth={2}
+                dot={false}
+              />
+              <Line
+                dataKey="running_balance"
+                type="monotone"
+                stroke="var(--color-running_balance)"
+                strokeDasharray="4 4"
+                strokeWidth={2}
+                dot={false}
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+            </ComposedChart>
+          </ChartContainer>
+        )}
       </CardContent>
+      {summary && (
+        <CardFooter className="grid grid-cols-2 gap-4 text-sm @[540px]/card:grid-cols-4">
+          <div>
+            <div className="text-muted-foreground">Income</div>
+            <div className="font-medium tabular-nums">
+              {formatCurrency(summary.total_income)}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Expenses</div>
+            <div className="font-medium tabular-nums">
+              {formatCurrency(summary.total_expenses)}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Net</div>
+            <div
+              className={`font-medium tabular-nums ${
+                toNumber(summary.net_income) < 0 ? "text-red-600" : "text-green-600"
+              }`}
+            >
+              {formatCurrency(summary.net_income)}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Avg. daily cash flow</div>
+            <div className="font-medium tabular-nums">
+              {formatCurrency(flowSummary?.average_daily_flow)}
+            </div>
+          </div>
+        </CardFooter>
+      )}
     </Card>
   )
 }
@@ -0,0 +1,150 @@
+// resources/js/components/date-range-picker.tsx
+
+import * as React from 'react';
+import { endOfMonth, startOfMonth, startOfYear, subMonths } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { CalendarIcon } from 'lucide-react';
+import { formatDate, toDateString } from '@/lib/format';
+import type { DateRange, DateRangePreset } from '@/types/analytics';
+
+export type { DateRangePreset };
+
+export const dateRangePresets: { value: DateRangePreset; label: string }[] = [
+    { value: '1m', label: '1M' },
+    { value: '3m', label: '3M' },
+    { value: '6m', label: '6M' },
+    { value: '12m', label: '12M' },
+    { value: 'ytd', label: 'YTD' },
+];
+
+/**
+ * Whole months up to today, so monthly reports never start mid-month.
+ * "last_month" is the previous calendar month.
+ */
+export function getPresetRange(preset: DateRangePreset): DateRange {
+    const today = new Date();
+    if (preset === 'last_month') {
+        const lastMonth = subMonths(today, 1);
+        return {
+            start: toDateString(startOfMonth(lastMonth)),
+            end: toDateString(endOfMonth(lastMonth)),
+        };
+    }
+
+    const start =
+        preset === 'ytd'
+            ? startOfYear(today)
+            : startOfMonth(subMonths(today, parseInt(preset, 10) - 1));
+
+    return { start: toDateString(start), end: toDateString(today) };
+}
+
+/**
+ * The preset that produces exactly this range today, if any.
+ */
+export function findDateRangePreset(
+    range: DateRange,
+    presets: { value: DateRangePreset }[] = dateRangePresets
+): DateRangePreset | null {
+    return (
+        presets.find((preset) => {
+            const presetRange = getPresetRange(preset.value);
+            return presetRange.start === range.start && presetRange.end === range.end;
+        })?.value ?? null
+    );
+}
+
+interface DateRangePickerProps {
+    value: DateRange;
+    onChange: (range: DateRange) => void;
+    presets?: { value: DateRangePreset; label: string }[];
+}
+
+export function DateRangePicker({ value, onChange, presets = dateRangePresets }: DateRangePickerProps) {
+    const [open, setOpen] = React.useState(false);
+    const [draft, setDraft] = React.useState<DateRange>(value);
+
+    // Start editing from the applied range every time the popover opens
+    React.useEffect(() => {
+        if (open) {
+            setDraft(value);
+        }
+    }, [open, value]);
+
+    const activePreset = findDateRangePreset(value, presets) ?? '';
+
+    const draftValid = draft.start !== '' && draft.end !== '' && draft.start <= draft.end;
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <ToggleGroup
+                type="single"
+                value={activePreset}
+                onValueChange={(preset) =>
+                    preset && onChange(getPresetRange(preset as DateRangePreset))
+                }
+                variant="outline"
+            >
+                {presets.map((preset) => (
+                    <ToggleGroupItem key={preset.value} value={preset.value} className="h-8 px-2.5">
+                        {preset.label}
+                    </ToggleGroupItem>
+                ))}
+            </ToggleGroup>
+            <Popover open={open} onOpenChange={setOpen}>
+                <PopoverTrigger asChild>
+                    <Button variant="outline" size="sm" className="font-normal">
+                        <CalendarIcon />
+                        {formatDate(value.start, 'MMM d, yyyy')} –{' '}
+                        {formatDate(value.end, 'MMM d, yyyy')}
+                    </Button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-72">
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-2 gap-2">
+                            <div className="space-y-2">
+                                <Label htmlFor="range_start">From</Label>
+                                <Input
+                                    id="range_start"
+                                    type="date"
+                                    value={draft.start}
+                                    max={draft.end || undefined}
+                                    onChange={(e) => setDraft({ ...draft, start: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="range_end">To</Label>
+                                <Input
+                                    id="range_end"
+                                    type="date"
+                                    value={draft.end}
+                                    min={draft.start || undefined}
+                                    onChange={(e) => setDraft({ ...draft, end: e.target.value })}
+                                />
+                            </div>
+                        </div>
+                        <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => setOpen(false)}>
+                                Cancel
+                            </Button>
+                            <Button
+                                size="sm"
+                                disabled={!draftValid}
+                                onClick={() => {
+                                    onChange(draft);
+                                    setOpen(false);
+                                }}
+                            >
+                                Apply
+                            </Button>
+                        </div>
+                    </div>
+                </PopoverContent>
+            </Popover>
+        </div>
+    );
+}
@@ -0,0 +1,372 @@
+// resources/js/components/debt-form-modal.tsx
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { addMonths } from 'date-fns';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2Icon } from 'lucide-react';
+import { toDateString } from '@/lib/format';
+import type { Debt, DebtPaymentFrequency, DebtStatus, DebtType } from '@/types/debt';
+
+// Validation schema for debt form
+const debtFormSchema = z
+    .object({
+        name: z.string().min(1, 'Name is required').max(255),
+        type: z.enum(['credit_card', 'personal_loan', 'mortgage', 'auto_loan', 'student_loan']),
+        original_balance: z
+            .number({ error: 'Original balance must be a number' })
+            .min(0, 'Original balance cannot be negative'),
+        current_balance: z
+            .number({ error: 'Current balance must be a number' })
+            .min(0, 'Current balance cannot be negative'),
+        interest_rate: z
+            .number({ error: 'Interest rate must be a number' })
+            .min(0, 'Interest rate cannot be negative')
+            .max(100, 'Interest rate cannot exceed 100%'),
+        minimum_payment: z
+            .number({ error: 'Minimum payment must be a number' })
+            .min(0, 'Minimum payment cannot be negative'),
+        due_date: z.string().min(1, 'Due date is required'),
+        payment_frequency: z.enum(['monthly', 'weekly', 'bi-weekly']),
+        status: z.enum(['active', 'paid_off', 'closed']),
+        notes: z.string().max(1000),
+    })
+    .refine((data) => data.current_balance <= data.original_balance, {
+        message: 'Current balance cannot exceed the original balance',
+        path: ['current_balance'],
+    });
+
+export type DebtFormData = z.infer<typeof debtFormSchema>;
+
+interface DebtFormModalProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    debt?: Debt | null;
+    onSubmit: (data: DebtFormData) => void;
+    isSubmitting?: boolean;
+}
+
+export const debtTypes: { value: DebtType; label: string }[] = [
+    { value: 'credit_card', label: 'Credit Card' },
+    { value: 'personal_loan', label: 'Personal Loan' },
+    { value: 'mortgage', label: 'Mortgage' },
+    { value: 'auto_loan', label: 'Auto Loan' },
+    { value: 'student_loan', label: 'Student Loan' },
+];
+
+export const debtPaymentFrequencies: { value: DebtPaymentFrequency; label: string }[] = [
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'bi-weekly', label: 'Bi-Weekly' },
+    { value: 'weekly', label: 'Weekly' },
+];
+
+export const debtStatuses: { value: DebtStatus; label: string }[] = [
+    { value: 'active', label: 'Active' },
+    { value: 'paid_off', label: 'Paid Off' },
+    { value: 'closed', label: 'Closed' },
+];
+
+function emptyDebt(): DebtFormData {
+    return {
+        name: '',
+        type: 'credit_card',
+        original_balance: 0,
+        current_balance: 0,
+        interest_rate: 0,
+        minimum_payment: 0,
+        due_date: toDateString(addMonths(new Date(), 1)),
+        payment_frequency: 'monthly',
+        status: 'active',
+        notes: '',
+    };
+}
+
+export function DebtFormModal({
+    open,
+    onOpenChange,
+    debt,
+    onSubmit,
+    isSubmitting = false,
+}: DebtFormModalProps) {
+    const isEditMode = !!debt;
+
+    const {
+        register,
+        handleSubmit,
+        setValue,
+        watch,
+        reset,
+        formState: { errors },
+    } = useForm<DebtFormData>({
+        resolver: zodResolver(debtFormSchema),
+        defaultValues: emptyDebt(),
+    });
+
+    const type = watch('type');
+    const paymentFrequency = watch('payment_frequency');
+    const status = watch('status');
+
+    // Reset form when modal opens/closes or debt changes
+    React.useEffect(() => {
+        if (open) {
+            if (debt) {
+                reset({
+                    name: debt.name,
+                    type: debt.type,
+                    original_balance: Number(debt.original_balance),
+                    current_balance: Number(debt.current_balance),
+                    interest_rate: Number(debt.interest_rate),
+                    minimum_payment: Number(debt.minimum_payment),
+                    due_date: debt.due_date,
+                    payment_frequency: debt.payment_frequency,
+                    status: debt.status,
+                    notes: debt.notes ?? '',
+                });
+            } else {
+                reset(emptyDebt());
+            }
+        }
+    }, [open, debt, reset]);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{isEditMode ? 'Edit Debt' : 'Add New Debt'}</DialogTitle>
+                    <DialogDescription>
+                        {isEditMode
+                            ? 'Update the debt details below.'
+                            : 'Add a loan or credit card you are paying off. Fields with * are required.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    {/* Name and Type Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="name">
+                                Name <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="name"
+                                placeholder="e.g., Visa Platinum"
+                                {...register('name')}
+                                aria-invalid={!!errors.name}
+                            />
+                            {errors.name && (
+                                <p className="text-sm text-destructive">{errors.name.message}</p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label>
+                                Type <span className="text-destructive">*</span>
+                            </Label>
+                            <Select
+                                value={type}
+                                onValueChange={(value: DebtType) => setValue('type', value)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {debtTypes.map((t) => (
+                                        <SelectItem key={t.value} value={t.value}>
+                                            {t.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    {/* Balances Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="original_balance">
+                                Original Balance <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="original_balance"
+                                type="number"
+                                step="0.01"
+                                placeholder="0.00"
+                                {...register('original_balance', { valueAsNumber: true })}
+                                aria-invalid={!!errors.original_balance}
+                            />
+                            {errors.original_balance && (
+                                <p className="text-sm text-destructive">
+                                    {errors.original_balance.message}
+                                </p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="current_balance">
+                                Current Balance <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="current_balance"
+                                type="number"
+                                step="0.01"
+                                placeholder="0.00"
+                                {...register('current_balance', { valueAsNumber: true })}
+                                aria-invalid={!!errors.current_balance}
+                            />
+                            {errors.current_balance && (
+                                <p className="text-sm text-destructive">
+                                    {errors.current_balance.message}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Rate and Payment Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="interest_rate">
+                                Interest Rate (APR %) <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="interest_rate"
+                                type="number"
+                                step="0.01"
+                                placeholder="0.00"
+                                {...register('interest_rate', { valueAsNumber: true })}
+                                aria-invalid={!!errors.interest_rate}
+                            />
+                            {errors.interest_rate && (
+                                <p className="text-sm text-destructive">
+                                    {errors.interest_rate.message}
+                                </p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="minimum_payment">
+                                Minimum Payment <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="minimum_payment"
+                                type="number"
+                                step="0.01"
+                                placeholder="0.00"
+                                {...register('minimum_payment', { valueAsNumber: true })}
+                                aria-invalid={!!errors.minimum_payment}
+                            />
+                            {errors.minimum_payment && (
+                                <p className="text-sm text-destructive">
+                                    {errors.minimum_payment.message}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Schedule Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="due_date">
+                                Next Due Date <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="due_date"
+                                type="date"
+                                min={isEditMode ? undefined : toDateString(new Date())}
+                                {...register('due_date')}
+                                aria-invalid={!!errors.due_date}
+                            />
+                            {errors.due_date && (
+                                <p className="text-sm text-destructive">
+                                    {errors.due_date.message}
+                                </p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label>
+                                Payment Frequency <span className="text-destructive">*</span>
+                            </Label>
+                            <Select
+                                value={paymentFrequency}
+                                onValueChange={(value: DebtPaymentFrequency) =>
+                                    setValue('payment_frequency', value)
+                                }
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {debtPaymentFrequencies.map((f) => (
+                                        <SelectItem key={f.value} value={f.value}>
+                                            {f.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    {isEditMode && (
+                        <div className="space-y-2">
+                            <Label>Status</Label>
+                            <Select
+                                value={status}
+                                onValueChange={(value: DebtStatus) => setValue('status', value)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {debtStatuses.map((s) => (
+                                        <SelectItem key={s.value} value={s.value}>
+                                            {s.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <Label htmlFor="notes">Notes</Label>
+                        <Textarea id="notes" rows={2} {...register('notes')} />
+                        {errors.notes && (
+                            <p className="text-sm text-destructive">{errors.notes.message}</p>
+                        )}
+                    </div>
+
+                    <DialogFooter className="gap-2 sm:gap-0">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                            {isEditMode ? 'Update Debt' : 'Create Debt'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,379 @@
+// resources/js/components/debt-payment-dialog.tsx
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2Icon } from 'lucide-react';
+import { useApi } from '@/hooks/use-api';
+import { formatCurrency, formatDate, formatPercent, toDateString, toNumber } from '@/lib/format';
+import type { Account } from '@/types/account';
+import type { Category } from '@/types/category';
+import type { Debt, DebtPaymentSplit } from '@/types/debt';
+
+const paymentSchema = z
+    .object({
+        amount: z
+            .number({ error: 'Amount must be a number' })
+            .min(0.01, 'Amount must be at least 0.01'),
+        payment_date: z.string().min(1, 'Payment date is required'),
+        interest: z
+            .number({ error: 'Interest must be a number' })
+            .min(0, 'Interest cannot be negative'),
+        notes: z.string().max(500),
+        create_transaction: z.boolean(),
+        account_id: z.number().nullable(),
+        category_id: z.number().nullable(),
+    })
+    .refine((data) => data.interest <= data.amount, {
+        message: 'Interest cannot exceed the payment amount',
+        path: ['interest'],
+    })
+    .refine((data) => !data.create_transaction || data.account_id !== null, {
+        message: 'Choose the account the payment came from',
+        path: ['account_id'],
+    })
+    .refine((data) => !data.create_transaction || data.category_id !== null, {
+        message: 'Choose a category for the transaction',
+        path: ['category_id'],
+    });
+
+export type DebtPaymentFormData = z.infer<typeof paymentSchema>;
+
+interface DebtPaymentDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    debt: Debt | null;
+    onSubmit: (data: DebtPaymentFormData) => void;
+    isSubmitting?: boolean;
+}
+
+// Expense categories that usually hold loan and card payments
+const debtCategoryPattern = /debt|loan|credit|mortgage/i;
+
+export function DebtPaymentDialog({
+    open,
+    onOpenChange,
+    debt,
+    onSubmit,
+    isSubmitting = false,
+}: DebtPaymentDialogProps) {
+    const {
+        register,
+        handleSubmit,
+        setValue,
+        watch,
+        reset,
+        formState: { errors },
+    } = useForm<DebtPaymentFormData>({
+        resolver: zodResolver(paymentSchema),
+        defaultValues: {
+            amount: 0,
+            payment_date: toDateString(new Date()),
+            interest: 0,
+            notes: '',
+            create_transaction: false,
+            account_id: null,
+            category_id: null,
+        },
+    });
+    // Once the interest is typed in (e.g. from a statement) the estimate stops overwriting it
+    const [interestEdited, setInterestEdited] = React.useState(false);
+
+    const amount = toNumber(watch('amount'));
+    const paymentDate = watch('payment_date');
+    const interest = toNumber(watch('interest'));
+    const createTransaction = watch('create_transaction');
+    const accountId = watch('account_id');
+    const categoryId = watch('category_id');
+
+    const { data: split, loading: splitLoading } = useApi<DebtPaymentSplit>(
+        open && debt ? `/debts/${debt.id}/payment-split` : null,
+        { amount, payment_date: paymentDate }
+    );
+    const { data: accounts } = useApi<Account[]>(open ? '/accounts' : null);
+    const { data: categories } = useApi<Category[]>(open ? '/categories' : null, {
+        type: 'expense',
+    });
+
+    React.useEffect(() => {
+        if (open) {
+            reset({
+                amount: debt
+                    ? Math.min(toNumber(debt.minimum_payment), toNumber(debt.current_balance))
+                    : 0,
+                payment_date: toDateString(new Date()),
+                interest: 0,
+                notes: '',
+                create_transaction: false,
+                account_id: null,
+                category_id: null,
+            });
+            setInterestEdited(false);
+        }
+    }, [open, debt, reset]);
+
+    React.useEffect(() => {
+        if (split && !interestEdited) {
+            setValue('interest', split.interest, { shouldValidate: true });
+        }
+    }, [split, interestEdited, setValue]);
+
+    // Pick sensible defaults the first time the transaction option is turned on
+    React.useEffect(() => {
+        if (!createTransaction) return;
+
+        if (accountId === null && accounts && accounts.length > 0) {
+            const account = accounts.find((a) => a.is_active) ?? accounts[0];
+            setValue('account_id', account.id);
+        }
+        if (categoryId === null && categories && categories.length > 0) {
+            const category =
+                categories.find((c) => debtCategoryPattern.test(c.name)) ?? categories[0];
+            setValue('category_id', category.id);
+        }
+    }, [createTransaction, accounts, categories, accountId, categoryId, setValue]);
+
+    const principal = Math.max(0, amount - interest);
+    const remainingBalance = Math.max(0, toNumber(debt?.current_balance) - principal);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Record Payment</DialogTitle>
+                    <DialogDescription>
+                        Pay towards {debt?.name}. {formatCurrency(debt?.current_balance)} remaining.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="payment_amount">
+                                Amount <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="payment_amount"
+                                type="number"
+                                step="0.01"
+                                {...register('amount', { valueAsNumber: true })}
+                                aria-invalid={!!errors.amount}
+                            />
+                            {errors.amount && (
+                                <p className="text-sm text-destructive">{errors.amount.message}</p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="payment_date">
+                                Date <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="payment_date"
+                                type="date"
+                                max={toDateString(new Date())}
+                                {...register('payment_date')}
+                                aria-invalid={!!errors.payment_date}
+                            />
+                            {errors.payment_date && (
+                                <p className="text-sm text-destructive">
+                                    {errors.payment_date.message}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Interest / Principal Split */}
+                    <div className="space-y-3 rounded-lg border p-3 text-sm">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="payment_interest">Interest</Label>
+                                <Input
+                                    id="payment_interest"
+                                    type="number"
+                                    step="0.01"
+                                    {...register('interest', {
+                                        valueAsNumber: true,
+                                        onChange: () => setInterestEdited(true),
+                                    })}
+                                    aria-invalid={!!errors.interest}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Principal</Label>
+                                <div className="flex h-9 items-center font-medium tabular-nums">
+                                    {formatCurrency(principal)}
+                                </div>
+                            </div>
+                        </div>
+                        {errors.interest && (
+                            <p className="text-sm text-destructive">{errors.interest.message}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                            {splitLoading && !split ? (
+                                'Estimating interest…'
+                            ) : split ? (
+                                <>
+                                    {split.days_since_last_payment} days of interest at{' '}
+                                    {formatPercent(debt?.interest_rate, 2)} APR since{' '}
+                                    {split.last_payment_date
+                                        ? `the last payment on ${formatDate(split.last_payment_date)}`
+                                        : 'one payment period ago'}
+                                    .{' '}
+                                    {interestEdited && (
+                                        <button
+                                            type="button"
+                                            className="underline underline-offset-2"
+                                            onClick={() => {
+                                                setInterestEdited(false);
+                                                setValue('interest', split.interest, {
+                                                    shouldValidate: true,
+                                                });
+                                            }}
+                                        >
+                                            Use estimate ({formatCurrency(split.interest)})
+                                        </button>
+                                    )}
+                                </>
+                            ) : null}
+                        </p>
+                        <div className="flex justify-between border-t pt-2">
+                            <span className="text-muted-foreground">Balance after payment</span>
+                            <span className="font-medium tabular-nums">
+                                {formatCurrency(remainingBalance)}
+                            </span>
+                        </div>
+                        {split && amount < split.payoff_amount && (
+                            <button
+                                type="button"
+                                className="text-xs text-primary underline underline-offset-2"
+                                onClick={() =>
+                                    setValue('amount', split.payoff_amount, { shouldValidate: true })
+                                }
+                            >
+                                Pay off in full ({formatCurrency(split.payoff_amount)})
+                            </button>
+                        )}
+                    </div>
+
+                    {/* Matching Expense Transaction */}
+                    <div className="space-y-3 rounded-lg border p-3">
+                        <div className="flex items-center space-x-2">
+                            <Checkbox
+                                id="create_transaction"
+                                checked={createTransaction}
+                                onCheckedChange={(checked) =>
+                                    setValue('create_transaction', !!checked)
+                                }
+                            />
+                            <Label htmlFor="create_transaction" className="text-sm font-normal">
+                                Record an expense transaction for this payment
+                            </Label>
+                        </div>
+                        {createTransaction && (
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label>Paid From</Label>
+                                    <Select
+                                        value={accountId ? String(accountId) : ''}
+                                        onValueChange={(value) =>
+                                            setValue('account_id', Number(value), {
+                                                shouldValidate: true,
+                                            })
+                                        }
+                                    >
+                                        <SelectTrigger aria-invalid={!!errors.account_id}>
+                                            <SelectValue placeholder="Select account" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {accounts?.map((account) => (
+                                                <SelectItem key={account.id} value={String(account.id)}>
+                                                    {account.name}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    {errors.account_id && (
+                                        <p className="text-sm text-destructive">
+                                            {errors.account_id.message}
+                                        </p>
+                                    )}
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>Category</Label>
+                                    <Select
+                                        value={categoryId ? String(categoryId) : ''}
+                                        onValueChange={(value) =>
+                                            setValue('category_id', Number(value), {
+                                                shouldValidate: true,
+                                            })
+                                        }
+                                    >
+                                        <SelectTrigger aria-invalid={!!errors.category_id}>
+                                            <SelectValue placeholder="Select category" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {categories?.map((category) => (
+                                                <SelectItem key={category.id} value={String(category.id)}>
+                                                    {category.name}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    {errors.category_id && (
+                                        <p className="text-sm text-destructive">
+                                            {errors.category_id.message}
+                                        </p>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="payment_notes">Notes</Label>
+                        <Textarea id="payment_notes" rows={2} {...register('notes')} />
+                        {errors.notes && (
+                            <p className="text-sm text-destructive">{errors.notes.message}</p>
+                        )}
+                    </div>
+
+                    <DialogFooter className="gap-2 sm:gap-0">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                            Record Payment
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
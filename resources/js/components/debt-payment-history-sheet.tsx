@@ -0,0 +1,168 @@
+// resources/js/components/debt-payment-history-sheet.tsx
+
+import * as React from 'react';
+import {
+    Sheet,
+    SheetContent,
+    SheetDescription,
+    SheetHeader,
+    SheetTitle,
+} from '@/components/ui/sheet';
+import { Skeleton } from '@/components/ui/skeleton';
+import { LinkIcon } from 'lucide-react';
+import { useApi } from '@/hooks/use-api';
+import { formatCurrency, formatDate, toNumber } from '@/lib/format';
+import type { Debt, DebtPayment } from '@/types/debt';
+
+interface PaymentHistoryMeta {
+    total: number;
+}
+
+interface DebtPaymentHistorySheetProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    debt: Debt | null;
+    /** Bumped by the page after a payment so the history refetches */
+    refreshKey?: number;
+}
+
+export function DebtPaymentHistorySheet({
+    open,
+    onOpenChange,
+    debt,
+    refreshKey = 0,
+}: DebtPaymentHistorySheetProps) {
+    const {
+        data: payments,
+        meta,
+        loading,
+        error,
+        reload,
+    } = useApi<DebtPayment[], PaymentHistoryMeta>(
+        open && debt ? `/debts/${debt.id}/payment-history` : null,
+        { per_page: 100 }
+    );
+
+    React.useEffect(() => {
+        if (refreshKey > 0) {
+            reload();
+        }
+    }, [refreshKey, reload]);
+
+    const list = payments ?? [];
+    const totals = list.reduce(
+        (sum, payment) => ({
+            amount: sum.amount + toNumber(payment.amount),
+            principal: sum.principal + toNumber(payment.principal),
+            interest: sum.interest + toNumber(payment.interest),
+        }),
+        { amount: 0, principal: 0, interest: 0 }
+    );
+
+    return (
+        <Sheet open={open} onOpenChange={onOpenChange}>
+            <SheetContent side="right" className="flex flex-col sm:max-w-md">
+                <SheetHeader>
+                    <SheetTitle>{debt?.name}</SheetTitle>
+                    <SheetDescription>
+                        {formatCurrency(debt?.current_balance)} of{' '}
+                        {formatCurrency(debt?.original_balance)} remaining
+                    </SheetDescription>
+                </SheetHeader>
+
+                <div className="flex-1 space-y-6 overflow-y-auto px-4 pb-4">
+                    {/* Totals */}
+                    <div className="grid grid-cols-3 gap-2 rounded-lg border p-3 text-sm">
+                        <div>
+                            <div className="text-xs text-muted-foreground">Paid</div>
+                            <div className="font-medium tabular-nums">
+                                {formatCurrency(totals.amount)}
+                            </div>
+                        </div>
+                        <div>
+                            <div className="text-xs text-muted-foreground">Principal</div>
+                            <div className="font-medium tabular-nums">
+                                {formatCurrency(totals.principal)}
+                            </div>
+                        </div>
+                        <div>
+                            <div className="text-xs text-muted-foreground">Interest</div>
+                            <div className="font-medium tabular-nums">
+                                {formatCurrency(totals.interest)}
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Payment Timeline */}
+                    <div className="space-y-3">
+                        <h3 className="text-sm font-medium">Payments</h3>
+                        {error && <p className="text-sm text-destructive">{error}</p>}
+                        {loading && !payments ? (
+                            Array.from({ length: 4 }).map((_, index) => (
+                                <Skeleton key={index} className="h-16 w-full" />
+                            ))
+                        ) : list.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">
+                                No payments recorded yet.
+                            </p>
+                        ) : (
+                            <ol className="relative space-y-4 border-l pl-4">
+                                {list.map((payment) => (
+                                    <li key={payment.id} className="relative text-sm">
+                                        <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+                                        <div className="flex items-start justify-between gap-4">
+                                            <div className="min-w-0 space-y-0.5">
+                                                <div className="font-medium">
+                                                    {formatDate(payment.payment_date)}
+                                                </div>
+                                                <div className="text-xs text-muted-foreground tabular-nums">
+                                                    {formatCurrency(payment.principal)} principal •{' '}
+                                                    {formatCurrency(payment.interest)} interest
+                                                </div>
+                                                {payment.transaction && (
+                                                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                                                        <LinkIcon className="h-3 w-3" />
+                                                        <span className="truncate">
+                                                            {payment.transaction.account
+                                                                ? `${payment.transaction.account.name} • `
+                                                                : ''}
+                                                            {payment.transaction.description}
+                                                        </span>
+                                                    </div>
+                                                )}
+                                                {payment.notes && (
+                                                    <div className="text-xs text-muted-foreground">
+                                                        {payment.notes}
+                                                    </div>
+                                                )}
+                                            </div>
+                                            <span className="font-medium tabular-nums">
+                                                {formatCurrency(payment.amount)}
+                                            </span>
+                                        </div>
+                                        {/* Principal vs interest share of the payment */}
+                                        <div className="mt-2 flex h-1.5 w-full overflow-hidden rounded-full bg-muted">
+                                            <div
+                                                className="h-full bg-green-600"
+                                                style={{ width: `${payment.principal_percentage}%` }}
+                                            />
+                                            <div
+                                                className="h-full bg-amber-500"
+                                                style={{ width: `${payment.interest_percentage}%` }}
+                                            />
+                                        </div>
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                        {meta && meta.total > list.length && (
+                            <p className="text-xs text-muted-foreground">
+                                Showing the latest {list.length} of {meta.total} payments.
+                            </p>
+                        )}
+                    </div>
+                </div>
+            </SheetContent>
+        </Sheet>
+    );
+}
@@ -0,0 +1,545 @@
+// resources/js/components/debt-payoff-planner.tsx
+
+import * as React from 'react';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import {
+    type ChartConfig,
+    ChartContainer,
+    ChartLegend,
+    ChartLegendContent,
+    ChartTooltip,
+    ChartTooltipContent,
+} from '@/components/ui/chart';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ArrowDownIcon, ArrowUpIcon, Loader2Icon } from 'lucide-react';
+import { useApi } from '@/hooks/use-api';
+import { formatCurrency, formatDate, formatPercent, toNumber } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import type { Debt, PayoffPlan, PayoffPlanSummary, PayoffStrategy } from '@/types/debt';
+
+export const payoffStrategies: { value: PayoffStrategy; label: string; description: string }[] = [
+    {
+        value: 'avalanche',
+        label: 'Avalanche',
+        description: 'Highest interest rate first',
+    },
+    {
+        value: 'snowball',
+        label: 'Snowball',
+        description: 'Smallest balance first',
+    },
+    {
+        value: 'custom',
+        label: 'Custom',
+        description: 'Your own order',
+    },
+    {
+        value: 'minimum',
+        label: 'Minimum only',
+        description: 'No extra payment or rollover',
+    },
+];
+
+// Rows shown in the amortization table before "Show all"
+const PREVIEW_MONTHS = 24;
+
+interface DebtPayoffPlannerProps {
+    /** Active debts with a balance, in the order they are listed on the page */
+    debts: Debt[];
+    /** Bumped by the page after debts change so the plan refetches */
+    refreshKey?: number;
+}
+
+export function DebtPayoffPlanner({ debts, refreshKey = 0 }: DebtPayoffPlannerProps) {
+    const [extraInput, setExtraInput] = React.useState('0');
+    const [extraPayment, setExtraPayment] = React.useState(0);
+    const [strategy, setStrategy] = React.useState<PayoffStrategy>('avalanche');
+    const [customOrder, setCustomOrder] = React.useState<number[]>([]);
+    const [showAllMonths, setShowAllMonths] = React.useState(false);
+
+    // Wait for typing to settle before re-running the simulation
+    React.useEffect(() => {
+        const timeout = window.setTimeout(() => {
+            setExtraPayment(Math.max(0, toNumber(extraInput)));
+        }, 400);
+
+        return () => window.clearTimeout(timeout);
+    }, [extraInput]);
+
+    // Keep the custom order in sync with the debt list: drop removed debts, append new ones
+    React.useEffect(() => {
+        setCustomOrder((previous) => {
+            const ids = debts.map((debt) => debt.id);
+            const kept = previous.filter((id) => ids.includes(id));
+            const next = [...kept, ...ids.filter((id) => !kept.includes(id))];
+            return next.length === previous.length &&
+                next.every((id, index) => id === previous[index])
+                ? previous
+                : next;
+        });
+    }, [debts]);
+
+    const { data, loading, error, reload } = useApi<PayoffPlan>(
+        debts.length > 0 ? '/debts/payoff-plan' : null,
+        {
+            extra_payment: extraPayment,
+            strategy,
+            order: strategy === 'custom' ? customOrder : undefined,
+        }
+    );
+
+    React.useEffect(() => {
+        if (refreshKey > 0) {
+            reload();
+        }
+    }, [refreshKey, reload]);
+
+    const debtsById = React.useMemo(
+        () => new Map(debts.map((debt) => [debt.id, debt])),
+        [debts]
+    );
+
+    const moveDebt = (index: number, direction: -1 | 1) => {
+        setCustomOrder((previous) => {
+            const next = [...previous];
+            const target = index + direction;
+            if (target < 0 || target >= next.length) {
+                return previous;
+            }
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const plan = data?.plan;
+    const schedule = plan?.schedule ?? [];
+    const baseline = data?.comparison.minimum;
+
+    // One stacked area per debt, keyed by id so the config lines up with the data
+    const chartConfig = React.useMemo(() => {
+        const config: ChartConfig = {};
+        debts.forEach((debt, index) => {
+            config[`debt_${debt.id}`] = {
+                label: debt.name,
+                color: `var(--chart-${(index % 5) + 1})`,
+            };
+        });
+        return config;
+    }, [debts]);
+
+    const chartData = schedule.map((month) => {
+        const point: Record<string, number | string> = {
+            date: month.date,
+        };
+        month.debts.forEach((row) => {
+            point[`debt_${row.debt_id}`] = row.ending_balance;
+        });
+        return point;
+    });
+
+    const visibleMonths = showAllMonths ? schedule : schedule.slice(0, PREVIEW_MONTHS);
+
+    if (debts.length === 0) {
+        return (
+            <Card>
+                <CardHeader>
+                    <CardTitle>Payoff Planner</CardTitle>
+                    <CardDescription>
+                        Add an active debt with a balance to plan its payoff.
+                    </CardDescription>
+                </CardHeader>
+            </Card>
+        );
+    }
+
+    return (
+        <div className="flex flex-col gap-4">
+            {/* Planner Controls */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Payoff Planner</CardTitle>
+                    <CardDescription>
+                        Every debt gets its minimum payment. The extra payment, and each minimum
+                        freed up by a paid-off debt, goes to the next debt in the order.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex flex-wrap items-end gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="extra_payment">Extra monthly payment</Label>
+                            <Input
+                                id="extra_payment"
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                className="w-44"
+                                value={extraInput}
+                                onChange={(e) => setExtraInput(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Strategy</Label>
+                            <ToggleGroup
+                                type="single"
+                                value={strategy}
+                                onValueChange={(value) =>
+                                    value && setStrategy(value as PayoffStrategy)
+                                }
+                                variant="outline"
+                            >
+                                {payoffStrategies.map((option) => (
+                                    <ToggleGroupItem
+                                        key={option.value}
+                                        value={option.value}
+                                        className="h-9 px-3"
+                                    >
+                                        {option.label}
+                                    </ToggleGroupItem>
+                                ))}
+                            </ToggleGroup>
+                        </div>
+                        {loading && (
+                            <Loader2Icon className="mb-2.5 h-4 w-4 animate-spin text-muted-foreground" />
+                        )}
+                    </div>
+
+                    {plan && (
+                        <p className="text-sm text-muted-foreground">
+                            Paying {formatCurrency(plan.summary.monthly_budget)} a month in total.
+                        </p>
+                    )}
+
+                    {/* Custom Ordering */}
+                    {strategy === 'custom' && (
+                        <div className="space-y-2">
+                            <Label>Payoff order</Label>
+                            <div className="divide-y rounded-lg border">
+                                {customOrder.map((id, index) => {
+                                    const debt = debtsById.get(id);
+                                    if (!debt) return null;
+
+                                    return (
+                                        <div
+                                            key={id}
+                                            className="flex items-center justify-between gap-4 p-2 pl-3 text-sm"
+                                        >
+                                            <div className="flex min-w-0 items-center gap-3">
+                                                <span className="w-5 text-muted-foreground tabular-nums">
+                                                    {index + 1}.
+                                                </span>
+                                                <span className="truncate font-medium">
+                                                    {debt.name}
+                                                </span>
+                                                <span className="hidden text-muted-foreground sm:inline">
+                                                    {formatCurrency(debt.current_balance)} •{' '}
+                                                    {formatPercent(debt.interest_rate, 2)}
+                                                </span>
+                                            </div>
+                                            <div className="flex gap-1">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-8 w-8"
+                                                    onClick={() => moveDebt(index, -1)}
+                                                    disabled={index === 0}
+                                                >
+                                                    <ArrowUpIcon />
+                                                    <span className="sr-only">Move up</span>
+                                                </Button>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-8 w-8"
+                                                    onClick={() => moveDebt(index, 1)}
+                                                    disabled={index === customOrder.length - 1}
+                                                >
+                                                    <ArrowDownIcon />
+                                                    <span className="sr-only">Move down</span>
+                                                </Button>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                </CardContent>
+            </Card>
+
+            {/* Strategy Comparison */}
+            <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+                {!data
+                    ? Array.from({ length: 3 }).map((_, index) => (
+                          <Skeleton key={index} className="h-36 w-full" />
+                      ))
+                    : payoffStrategies
+                          .filter((option) => data.comparison[option.value])
+                          .map((option) => (
+                              <StrategySummaryCard
+                                  key={option.value}
+                                  label={option.label}
+                                  description={option.description}
+                                  summary={data.comparison[option.value]!}
+                                  baseline={option.value === 'minimum' ? undefined : baseline}
+                                  selected={option.value === strategy}
+                                  onSelect={() => setStrategy(option.value)}
+                              />
+                          ))}
+            </div>
+
+            {/* Balance Chart */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Remaining Balance</CardTitle>
+                    <CardDescription>
+                        Balance of each debt month by month with the selected strategy
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="px-2 sm:px-6">
+                    {!plan ? (
+                        <Skeleton className="h-[300px] w-full" />
+                    ) : (
+                        <ChartContainer config={chartConfig} className="aspect-auto h-[300px] w-full">
+                            <AreaChart data={chartData}>
+                                <CartesianGrid vertical={false} />
+                                <XAxis
+                                    dataKey="date"
+                                    tickLine={false}
+                                    axisLine={false}
+                                    tickMargin={8}
+                                    minTickGap={32}
+                                    tickFormatter={(value) => formatDate(value, 'MMM yyyy')}
+                                />
+                                <YAxis
+                                    tickLine={false}
+                                    axisLine={false}
+                                    width={80}
+                                    tickFormatter={(value) =>
+                                        new Intl.NumberFormat('en-PH', {
+                                            notation: 'compact',
+                                        }).format(value)
+                                    }
+                                />
+                                <ChartTooltip
+                                    cursor={false}
+                                    content={
+                                        <ChartTooltipContent
+                                            indicator="dot"
+                                            labelFormatter={(value) => formatDate(value, 'MMM yyyy')}
+                                            formatter={(value, name) => (
+                                                <div className="flex w-full justify-between gap-4">
+                                                    <span className="text-muted-foreground">
+                                                        {chartConfig[name as string]?.label ?? name}
+                                                    </span>
+                                                    <span className="font-mono font-medium tabular-nums">
+                                                        {formatCurrency(value as number)}
+                                                    </span>
+                                                </div>
+                                            )}
+                                        />
+                                    }
+                                />
+                                <ChartLegend content={<ChartLegendContent />} />
+                                {debts.map((debt) => (
+                                    <Area
+                                        key={debt.id}
+                                        dataKey={`debt_${debt.id}`}
+                                        type="monotone"
+                                        stackId="balance"
+                                        fill={`var(--color-debt_${debt.id})`}
+                                        fillOpacity={0.4}
+                                        stroke={`var(--color-debt_${debt.id})`}
+                                    />
+                                ))}
+                            </AreaChart>
+                        </ChartContainer>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Amortization Table */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Month-by-Month Schedule</CardTitle>
+                    <CardDescription>
+                        Total payments across all debts and which debts are paid off each month
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {!plan ? (
+                        <Skeleton className="h-64 w-full" />
+                    ) : (
+                        <div className="space-y-4">
+                            <div className="rounded-lg border">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Month</TableHead>
+                                            <TableHead className="text-right">Payment</TableHead>
+                                            <TableHead className="text-right">Principal</TableHead>
+                                            <TableHead className="text-right">Interest</TableHead>
+                                            <TableHead className="text-right">
+                                                Remaining Balance
+                                            </TableHead>
+                                            <TableHead>Paid Off</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {visibleMonths.map((month) => {
+                                            const paidOff = plan.summary.payoff_order.filter(
+                                                (debt) => debt.payoff_month === month.month
+                                            );
+
+                                            return (
+                                                <TableRow key={month.month}>
+                                                    <TableCell>
+                                                        <span className="font-medium">
+                                                            {formatDate(month.date, 'MMM yyyy')}
+                                                        </span>{' '}
+                                                        <span className="text-xs text-muted-foreground">
+                                                            #{month.month}
+                                                        </span>
+                                                    </TableCell>
+                                                    <TableCell className="text-right tabular-nums">
+                                                        {formatCurrency(month.payment)}
+                                                    </TableCell>
+                                                    <TableCell className="text-right tabular-nums">
+                                                        {formatCurrency(month.principal)}
+                                                    </TableCell>
+                                                    <TableCell className="text-right tabular-nums text-muted-foreground">
+                                                        {formatCurrency(month.interest)}
+                                                    </TableCell>
+                                                    <TableCell className="text-right font-medium tabular-nums">
+                                                        {formatCurrency(month.ending_balance)}
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <div className="flex flex-wrap gap-1">
+                                                            {paidOff.map((debt) => (
+                                                                <Badge key={debt.debt_id} variant="secondary">
+                                                                    {debt.name}
+                                                                </Badge>
+                                                            ))}
+                                                        </div>
+                                                    </TableCell>
+                                                </TableRow>
+                                            );
+                                        })}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                            {schedule.length > PREVIEW_MONTHS && (
+                                <div className="flex justify-center">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => setShowAllMonths((value) => !value)}
+                                    >
+                                        {showAllMonths
+                                            ? `Show first ${PREVIEW_MONTHS} months`
+                                            : `Show all ${schedule.length} months`}
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+interface StrategySummaryCardProps {
+    label: string;
+    description: string;
+    summary: PayoffPlanSummary;
+    /** Minimum-payments plan used to show what the strategy saves */
+    baseline?: PayoffPlanSummary;
+    selected: boolean;
+    onSelect: () => void;
+}
+
+function StrategySummaryCard({
+    label,
+    description,
+    summary,
+    baseline,
+    selected,
+    onSelect,
+}: StrategySummaryCardProps) {
+    const interestSaved = baseline
+        ? baseline.total_interest_paid - summary.total_interest_paid
+        : 0;
+    const monthsSaved = baseline ? baseline.months_to_payoff - summary.months_to_payoff : 0;
+
+    return (
+        <Card
+            role="button"
+            tabIndex={0}
+            onClick={onSelect}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    onSelect();
+                }
+            }}
+            className={cn(
+                'cursor-pointer transition-colors hover:bg-muted/50',
+                selected && 'ring-2 ring-primary'
+            )}
+        >
+            <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">{label}</CardTitle>
+                <CardDescription className="text-xs">{description}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+                <div>
+                    <div className="text-xs text-muted-foreground">Debt-free</div>
+                    <div className="text-xl font-bold">
+                        {summary.debt_free_date
+                            ? formatDate(summary.debt_free_date, 'MMM yyyy')
+                            : 'Over 30 years'}
+                    </div>
+                    {summary.is_paid_off && (
+                        <div className="text-xs text-muted-foreground">
+                            {summary.months_to_payoff} months
+                        </div>
+                    )}
+                </div>
+                <div>
+                    <div className="text-xs text-muted-foreground">Total interest</div>
+                    <div className="font-medium tabular-nums">
+                        {formatCurrency(summary.total_interest_paid)}
+                    </div>
+                </div>
+                {baseline && (interestSaved > 0 || monthsSaved > 0) && (
+                    <p className="text-xs text-green-600">
+                        Saves {formatCurrency(interestSaved)}
+                        {monthsSaved > 0 && ` and ${monthsSaved} months`}
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
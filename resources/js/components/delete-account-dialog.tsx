@@ -0,0 +1,82 @@
+// resources/js/components/delete-account-dialog.tsx
+
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2Icon, AlertTriangleIcon } from 'lucide-react';
+import { formatCurrency } from '@/lib/format';
+import type { Account } from '@/types/account';
+
+interface DeleteAccountDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    account: Account | null;
+    onConfirm: () => void;
+    isDeleting?: boolean;
+}
+
+export function DeleteAccountDialog({
+    open,
+    onOpenChange,
+    account,
+    onConfirm,
+    isDeleting = false,
+}: DeleteAccountDialogProps) {
+    return (
+        <AlertDialog open={open} onOpenChange={onOpenChange}>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <div className="flex items-center gap-3">
+                        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-destructive/10">
+                            <AlertTriangleIcon className="h-5 w-5 text-destructive" />
+                        </div>
+                        <AlertDialogTitle>Delete Account</AlertDialogTitle>
+                    </div>
+                    <AlertDialogDescription className="pt-2">
+                        Are you sure you want to delete this account? Accounts
+                        with recent transactions or a remaining balance cannot
+                        be deleted; deactivate them instead.
+                        <br />
+                        <br />
+                        <span className="block rounded-lg border p-3 text-foreground">
+                            <span className="font-semibold">{account?.name}</span>
+                            <br />
+                            <span className="text-muted-foreground">
+                                {account?.type_label}
+                            </span>
+                            {' • '}
+                            <span className="font-medium">
+                                {formatCurrency(account?.balance, account?.currency)}
+                            </span>
+                        </span>
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                    <AlertDialogCancel disabled={isDeleting}>
+                        Cancel
+                    </AlertDialogCancel>
+                    <AlertDialogAction
+                        onClick={(e) => {
+                            e.preventDefault();
+                            onConfirm();
+                        }}
+                        disabled={isDeleting}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                        {isDeleting && (
+                            <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Delete Account
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+}
@@ -0,0 +1,80 @@
+// resources/js/components/delete-bill-dialog.tsx
+
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2Icon, AlertTriangleIcon } from 'lucide-react';
+import { formatCurrency } from '@/lib/format';
+import type { Bill } from '@/types/bill';
+
+interface DeleteBillDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    bill: Bill | null;
+    onConfirm: () => void;
+    isDeleting?: boolean;
+}
+
+export function DeleteBillDialog({
+    open,
+    onOpenChange,
+    bill,
+    onConfirm,
+    isDeleting = false,
+}: DeleteBillDialogProps) {
+    return (
+        <AlertDialog open={open} onOpenChange={onOpenChange}>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <div className="flex items-center gap-3">
+                        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-destructive/10">
+                            <AlertTriangleIcon className="h-5 w-5 text-destructive" />
+                        </div>
+                        <AlertDialogTitle>Delete Bill</AlertDialogTitle>
+                    </div>
+                    <AlertDialogDescription className="pt-2">
+                        Are you sure you want to delete this bill? Its upcoming due dates
+                        are removed from the calendar. Transactions recorded for past
+                        payments are kept.
+                        <br />
+                        <br />
+                        <span className="block rounded-lg border p-3 text-foreground">
+                            <span className="font-semibold">{bill?.name}</span>
+                            <br />
+                            <span className="text-muted-foreground">{bill?.frequency_label}</span>
+                            {' • '}
+                            <span className="font-medium">
+                                {formatCurrency(bill?.amount)}
+                            </span>
+                        </span>
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                    <AlertDialogCancel disabled={isDeleting}>
+                        Cancel
+                    </AlertDialogCancel>
+                    <AlertDialogAction
+                        onClick={(e) => {
+                            e.preventDefault();
+                            onConfirm();
+                        }}
+                        disabled={isDeleting}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                        {isDeleting && (
+                            <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Delete Bill
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+}
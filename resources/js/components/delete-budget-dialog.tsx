@@ -0,0 +1,82 @@
+// resources/js/components/delete-budget-dialog.tsx
+
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2Icon, AlertTriangleIcon } from 'lucide-react';
+import { formatCurrency } from '@/lib/format';
+import type { Budget } from '@/types/budget';
+
+interface DeleteBudgetDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    budget: Budget | null;
+    onConfirm: () => void;
+    isDeleting?: boolean;
+}
+
+export function DeleteBudgetDialog({
+    open,
+    onOpenChange,
+    budget,
+    onConfirm,
+    isDeleting = false,
+}: DeleteBudgetDialogProps) {
+    return (
+        <AlertDialog open={open} onOpenChange={onOpenChange}>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <div className="flex items-center gap-3">
+                        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-destructive/10">
+                            <AlertTriangleIcon className="h-5 w-5 text-destructive" />
+                        </div>
+                        <AlertDialogTitle>Delete Budget</AlertDialogTitle>
+                    </div>
+                    <AlertDialogDescription className="pt-2">
+                        Are you sure you want to delete this budget? Transactions in
+                        its category are kept.
+                        <br />
+                        <br />
+                        <span className="block rounded-lg border p-3 text-foreground">
+                            <span className="font-semibold">{budget?.name}</span>
+                            <br />
+                            <span className="text-muted-foreground">
+                                {budget?.period_info.start_date_formatted} –{' '}
+                                {budget?.period_info.end_date_formatted}
+                            </span>
+                            {' • '}
+                            <span className="font-medium">
+                                {formatCurrency(budget?.amount)}
+                            </span>
+                        </span>
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                    <AlertDialogCancel disabled={isDeleting}>
+                        Cancel
+                    </AlertDialogCancel>
+                    <AlertDialogAction
+                        onClick={(e) => {
+                            e.preventDefault();
+                            onConfirm();
+                        }}
+                        disabled={isDeleting}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                        {isDeleting && (
+                            <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Delete Budget
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+}
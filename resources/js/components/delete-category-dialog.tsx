@@ -0,0 +1,75 @@
+// resources/js/components/delete-category-dialog.tsx
+
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2Icon, AlertTriangleIcon } from 'lucide-react';
+import type { Category } from '@/types/category';
+
+interface DeleteCategoryDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    category: Category | null;
+    onConfirm: () => void;
+    isDeleting?: boolean;
+}
+
+export function DeleteCategoryDialog({
+    open,
+    onOpenChange,
+    category,
+    onConfirm,
+    isDeleting = false,
+}: DeleteCategoryDialogProps) {
+    return (
+        <AlertDialog open={open} onOpenChange={onOpenChange}>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <div className="flex items-center gap-3">
+                        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-destructive/10">
+                            <AlertTriangleIcon className="h-5 w-5 text-destructive" />
+                        </div>
+                        <AlertDialogTitle>Delete Category</AlertDialogTitle>
+                    </div>
+                    <AlertDialogDescription className="pt-2">
+                        Are you sure you want to delete this category? This action cannot be
+                        undone. Categories that still have transactions must be merged into
+                        another category instead.
+                        <br />
+                        <br />
+                        <span className="block rounded-lg border p-3 text-foreground">
+                            <span className="font-semibold">{category?.name}</span>
+                            <br />
+                            <span className="text-muted-foreground">{category?.type_label}</span>
+                        </span>
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                    <AlertDialogCancel disabled={isDeleting}>
+                        Cancel
+                    </AlertDialogCancel>
+                    <AlertDialogAction
+                        onClick={(e) => {
+                            e.preventDefault();
+                            onConfirm();
+                        }}
+                        disabled={isDeleting}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                        {isDeleting && (
+                            <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Delete Category
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+}
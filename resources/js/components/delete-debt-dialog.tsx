@@ -0,0 +1,79 @@
+// resources/js/components/delete-debt-dialog.tsx
+
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2Icon, AlertTriangleIcon } from 'lucide-react';
+import { formatCurrency } from '@/lib/format';
+import type { Debt } from '@/types/debt';
+
+interface DeleteDebtDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    debt: Debt | null;
+    onConfirm: () => void;
+    isDeleting?: boolean;
+}
+
+export function DeleteDebtDialog({
+    open,
+    onOpenChange,
+    debt,
+    onConfirm,
+    isDeleting = false,
+}: DeleteDebtDialogProps) {
+    return (
+        <AlertDialog open={open} onOpenChange={onOpenChange}>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <div className="flex items-center gap-3">
+                        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-destructive/10">
+                            <AlertTriangleIcon className="h-5 w-5 text-destructive" />
+                        </div>
+                        <AlertDialogTitle>Delete Debt</AlertDialogTitle>
+                    </div>
+                    <AlertDialogDescription className="pt-2">
+                        Are you sure you want to delete this debt? It is removed from
+                        your payoff plan. Transactions recorded for its payments are kept.
+                        <br />
+                        <br />
+                        <span className="block rounded-lg border p-3 text-foreground">
+                            <span className="font-semibold">{debt?.name}</span>
+                            <br />
+                            <span className="text-muted-foreground">{debt?.type_label}</span>
+                            {' • '}
+                            <span className="font-medium">
+                                {formatCurrency(debt?.current_balance)} remaining
+                            </span>
+                        </span>
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                    <AlertDialogCancel disabled={isDeleting}>
+                        Cancel
+                    </AlertDialogCancel>
+                    <AlertDialogAction
+                        onClick={(e) => {
+                            e.preventDefault();
+                            onConfirm();
+                        }}
+                        disabled={isDeleting}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                        {isDeleting && (
+                            <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Delete Debt
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+}
@@ -0,0 +1,82 @@
+// resources/js/components/delete-goal-dialog.tsx
+
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2Icon, AlertTriangleIcon } from 'lucide-react';
+import { formatCurrency, formatDate } from '@/lib/format';
+import type { FinancialGoal } from '@/types/goal';
+
+interface DeleteGoalDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    goal: FinancialGoal | null;
+    onConfirm: () => void;
+    isDeleting?: boolean;
+}
+
+export function DeleteGoalDialog({
+    open,
+    onOpenChange,
+    goal,
+    onConfirm,
+    isDeleting = false,
+}: DeleteGoalDialogProps) {
+    return (
+        <AlertDialog open={open} onOpenChange={onOpenChange}>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <div className="flex items-center gap-3">
+                        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-destructive/10">
+                            <AlertTriangleIcon className="h-5 w-5 text-destructive" />
+                        </div>
+                        <AlertDialogTitle>Delete Goal</AlertDialogTitle>
+                    </div>
+                    <AlertDialogDescription className="pt-2">
+                        Are you sure you want to delete this goal? Its contribution
+                        history is deleted with it. Linked transactions are kept.
+                        <br />
+                        <br />
+                        <span className="block rounded-lg border p-3 text-foreground">
+                            <span className="font-semibold">{goal?.name}</span>
+                            <br />
+                            <span className="text-muted-foreground">
+                                Target {goal ? formatDate(goal.target_date) : ''}
+                            </span>
+                            {' • '}
+                            <span className="font-medium">
+                                {formatCurrency(goal?.current_amount)} of{' '}
+                                {formatCurrency(goal?.target_amount)}
+                            </span>
+                        </span>
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                    <AlertDialogCancel disabled={isDeleting}>
+                        Cancel
+                    </AlertDialogCancel>
+                    <AlertDialogAction
+                        onClick={(e) => {
+                            e.preventDefault();
+                            onConfirm();
+                        }}
+                        disabled={isDeleting}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                        {isDeleting && (
+                            <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Delete Goal
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+}
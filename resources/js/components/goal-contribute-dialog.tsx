@@ -0,0 +1,233 @@
+// resources/js/components/goal-contribute-dialog.tsx
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2Icon } from 'lucide-react';
+import { useApi } from '@/hooks/use-api';
+import { formatCurrency, formatPercent, toDateString, toNumber } from '@/lib/format';
+import type { AccountTransaction } from '@/types/account';
+import type { FinancialGoal } from '@/types/goal';
+
+const contributeSchema = z.object({
+    amount: z
+        .number({ error: 'Amount must be a number' })
+        .min(0.01, 'Amount must be at least 0.01'),
+    date: z.string().min(1, 'Date is required'),
+    notes: z.string().max(500),
+    transaction_id: z.number().nullable(),
+});
+
+export type GoalContributionFormData = z.infer<typeof contributeSchema>;
+
+interface GoalContributeDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    goal: FinancialGoal | null;
+    onSubmit: (data: GoalContributionFormData) => void;
+    isSubmitting?: boolean;
+}
+
+export function GoalContributeDialog({
+    open,
+    onOpenChange,
+    goal,
+    onSubmit,
+    isSubmitting = false,
+}: GoalContributeDialogProps) {
+    const {
+        register,
+        handleSubmit,
+        setValue,
+        watch,
+        reset,
+        formState: { errors },
+    } = useForm<GoalContributionFormData>({
+        resolver: zodResolver(contributeSchema),
+        defaultValues: { amount: 0, date: toDateString(new Date()), notes: '', transaction_id: null },
+    });
+
+    // Recent transactions that can back the contribution, loaded only while open
+    const { data: transactions, loading: transactionsLoading } = useApi<AccountTransaction[]>(
+        open ? '/transactions' : null,
+        { per_page: 50, sort_by: 'date', sort_direction: 'desc' }
+    );
+
+    React.useEffect(() => {
+        if (open) {
+            reset({
+                amount: goal ? toNumber(goal.remaining_amount) : 0,
+                date: toDateString(new Date()),
+                notes: '',
+                transaction_id: null,
+            });
+        }
+    }, [open, goal, reset]);
+
+    const transactionId = watch('transaction_id');
+    const amount = toNumber(watch('amount'));
+
+    const handleTransactionChange = (value: string) => {
+        if (value === 'none') {
+            setValue('transaction_id', null);
+            return;
+        }
+
+        const transaction = transactions?.find((t) => t.id === Number(value));
+        setValue('transaction_id', Number(value));
+        if (transaction) {
+            // The contribution mirrors the linked transaction
+            setValue('amount', toNumber(transaction.amount), { shouldValidate: true });
+            setValue('date', transaction.date.slice(0, 10));
+        }
+    };
+
+    const target = toNumber(goal?.target_amount);
+    const current = toNumber(goal?.current_amount);
+    const currentProgress = target > 0 ? (current / target) * 100 : 0;
+    const newProgress = target > 0 ? ((current + amount) / target) * 100 : 0;
+    const reachedMilestones = (goal?.milestone_settings?.milestones ?? [25, 50, 75, 100]).filter(
+        (milestone) => currentProgress < milestone && newProgress >= milestone
+    );
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[480px]">
+                <DialogHeader>
+                    <DialogTitle>Add Contribution</DialogTitle>
+                    <DialogDescription>
+                        Put money towards {goal?.name}.{' '}
+                        {formatCurrency(goal?.remaining_amount)} to go.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    <div className="space-y-2">
+                        <Label>Linked Transaction</Label>
+                        <Select
+                            value={transactionId ? String(transactionId) : 'none'}
+                            onValueChange={handleTransactionChange}
+                            disabled={transactionsLoading}
+                        >
+                            <SelectTrigger>
+                                <SelectValue placeholder="No linked transaction" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="none">No linked transaction</SelectItem>
+                                {transactions?.map((transaction) => (
+                                    <SelectItem key={transaction.id} value={String(transaction.id)}>
+                                        {transaction.formatted_date} • {transaction.description} •{' '}
+                                        {formatCurrency(transaction.amount)}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                            Optional. Link the transfer or deposit that moved the money.
+                        </p>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="contribution_amount">
+                                Amount <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="contribution_amount"
+                                type="number"
+                                step="0.01"
+                                {...register('amount', { valueAsNumber: true })}
+                                aria-invalid={!!errors.amount}
+                            />
+                            {errors.amount && (
+                                <p className="text-sm text-destructive">{errors.amount.message}</p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="contribution_date">
+                                Date <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="contribution_date"
+                                type="date"
+                                max={toDateString(new Date())}
+                                {...register('date')}
+                                aria-invalid={!!errors.date}
+                            />
+                            {errors.date && (
+                                <p className="text-sm text-destructive">{errors.date.message}</p>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="contribution_notes">Notes</Label>
+                        <Textarea id="contribution_notes" rows={2} {...register('notes')} />
+                        {errors.notes && (
+                            <p className="text-sm text-destructive">{errors.notes.message}</p>
+                        )}
+                    </div>
+
+                    {/* Progress Preview */}
+                    {amount > 0 && (
+                        <div className="space-y-2 rounded-lg border p-3 text-sm">
+                            <div className="flex justify-between">
+                                <span className="text-muted-foreground">Progress</span>
+                                <span className="tabular-nums">
+                                    {formatPercent(currentProgress)} →{' '}
+                                    <span className="font-medium">{formatPercent(newProgress)}</span>
+                                </span>
+                            </div>
+                            {reachedMilestones.length > 0 && (
+                                <div className="flex items-center gap-2">
+                                    <span className="text-muted-foreground">Reaches</span>
+                                    {reachedMilestones.map((milestone) => (
+                                        <Badge key={milestone} variant="secondary">
+                                            {milestone === 100 ? 'Goal complete' : `${milestone}%`}
+                                        </Badge>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <DialogFooter className="gap-2 sm:gap-0">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                            Add Contribution
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,371 @@
+// resources/js/components/goal-form-modal.tsx
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { addYears } from 'date-fns';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2Icon } from 'lucide-react';
+import { toDateString } from '@/lib/format';
+import type { FinancialGoal, GoalPriority, GoalStatus } from '@/types/goal';
+
+// Validation schema for goal form
+const goalFormSchema = z.object({
+    name: z.string().min(1, 'Name is required').max(255),
+    description: z.string().max(1000),
+    target_amount: z
+        .number({ error: 'Target amount must be a number' })
+        .min(0.01, 'Target amount must be at least 0.01'),
+    target_date: z.string().min(1, 'Target date is required'),
+    priority: z.enum(['high', 'medium', 'low']),
+    status: z.enum(['active', 'completed', 'paused', 'cancelled']),
+    color: z.string().regex(/^#[a-fA-F0-9]{6}$/, 'Pick a valid color'),
+    monthly_target: z
+        .number({ error: 'Monthly target must be a number' })
+        .min(0, 'Monthly target cannot be negative')
+        .nullable(),
+    milestone_settings: z.object({
+        milestones: z.array(z.number()),
+        notifications_enabled: z.boolean(),
+    }),
+});
+
+export type GoalFormData = z.infer<typeof goalFormSchema>;
+
+interface GoalFormModalProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    goal?: FinancialGoal | null;
+    onSubmit: (data: GoalFormData) => void;
+    isSubmitting?: boolean;
+}
+
+export const goalPriorities: { value: GoalPriority; label: string }[] = [
+    { value: 'high', label: 'High' },
+    { value: 'medium', label: 'Medium' },
+    { value: 'low', label: 'Low' },
+];
+
+export const goalStatuses: { value: GoalStatus; label: string }[] = [
+    { value: 'active', label: 'Active' },
+    { value: 'paused', label: 'Paused' },
+    { value: 'completed', label: 'Completed' },
+    { value: 'cancelled', label: 'Cancelled' },
+];
+
+// Reaching 100% completes the goal, so only the intermediate milestones are optional
+const milestoneOptions = [25, 50, 75];
+
+function emptyGoal(): GoalFormData {
+    return {
+        name: '',
+        description: '',
+        target_amount: 0,
+        target_date: toDateString(addYears(new Date(), 1)),
+        priority: 'medium',
+        status: 'active',
+        color: '#2196F3',
+        monthly_target: null,
+        milestone_settings: {
+            milestones: [25, 50, 75, 100],
+            notifications_enabled: true,
+        },
+    };
+}
+
+export function GoalFormModal({
+    open,
+    onOpenChange,
+    goal,
+    onSubmit,
+    isSubmitting = false,
+}: GoalFormModalProps) {
+    const isEditMode = !!goal;
+
+    const {
+        register,
+        handleSubmit,
+        setValue,
+        watch,
+        reset,
+        formState: { errors },
+    } = useForm<GoalFormData>({
+        resolver: zodResolver(goalFormSchema),
+        defaultValues: emptyGoal(),
+    });
+
+    const priority = watch('priority');
+    const status = watch('status');
+    const milestones = watch('milestone_settings.milestones');
+    const notificationsEnabled = watch('milestone_settings.notifications_enabled');
+
+    // Reset form when modal opens/closes or goal changes
+    React.useEffect(() => {
+        if (open) {
+            if (goal) {
+                reset({
+                    name: goal.name,
+                    description: goal.description ?? '',
+                    target_amount: Number(goal.target_amount),
+                    target_date: goal.target_date,
+                    priority: goal.priority,
+                    status: goal.status,
+                    color: goal.color || '#2196F3',
+                    monthly_target: goal.monthly_target,
+                    milestone_settings: {
+                        milestones: goal.milestone_settings?.milestones ?? [25, 50, 75, 100],
+                        notifications_enabled:
+                            goal.milestone_settings?.notifications_enabled ?? true,
+                    },
+                });
+            } else {
+                reset(emptyGoal());
+            }
+        }
+    }, [open, goal, reset]);
+
+    const toggleMilestone = (milestone: number, checked: boolean) => {
+        const next = checked
+            ? [...milestones, milestone]
+            : milestones.filter((value) => value !== milestone);
+        setValue(
+            'milestone_settings.milestones',
+            Array.from(new Set([...next, 100])).sort((a, b) => a - b)
+        );
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{isEditMode ? 'Edit Goal' : 'Add New Goal'}</DialogTitle>
+                    <DialogDescription>
+                        {isEditMode
+                            ? 'Update the goal details below.'
+                            : 'Set a savings target and a date to reach it. Fields with * are required.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    {/* Name and Color Row */}
+                    <div className="grid grid-cols-[1fr_auto] gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="name">
+                                Name <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="name"
+                                placeholder="e.g., Emergency Fund"
+                                {...register('name')}
+                                aria-invalid={!!errors.name}
+                            />
+                            {errors.name && (
+                                <p className="text-sm text-destructive">{errors.name.message}</p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="color">Color</Label>
+                            <Input
+                                id="color"
+                                type="color"
+                                className="w-16 p-1"
+                                {...register('color')}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="description">Description</Label>
+                        <Textarea
+                            id="description"
+                            rows={2}
+                            placeholder="What are you saving for?"
+                            {...register('description')}
+                        />
+                        {errors.description && (
+                            <p className="text-sm text-destructive">
+                                {errors.description.message}
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Amount and Date Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="target_amount">
+                                Target Amount <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="target_amount"
+                                type="number"
+                                step="0.01"
+                                placeholder="0.00"
+                                {...register('target_amount', { valueAsNumber: true })}
+                                aria-invalid={!!errors.target_amount}
+                            />
+                            {errors.target_amount && (
+                                <p className="text-sm text-destructive">
+                                    {errors.target_amount.message}
+                                </p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="target_date">
+                                Target Date <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="target_date"
+                                type="date"
+                                {...register('target_date')}
+                                aria-invalid={!!errors.target_date}
+                            />
+                            {errors.target_date && (
+                                <p className="text-sm text-destructive">
+                                    {errors.target_date.message}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Priority and Monthly Target Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label>
+                                Priority <span className="text-destructive">*</span>
+                            </Label>
+                            <Select
+                                value={priority}
+                                onValueChange={(value: GoalPriority) => setValue('priority', value)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {goalPriorities.map((p) => (
+                                        <SelectItem key={p.value} value={p.value}>
+                                            {p.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="monthly_target">Monthly Target</Label>
+                            <Input
+                                id="monthly_target"
+                                type="number"
+                                step="0.01"
+                                placeholder="Calculated if empty"
+                                {...register('monthly_target', {
+                                    setValueAs: (value) =>
+                                        value === '' || value === null ? null : Number(value),
+                                })}
+                                aria-invalid={!!errors.monthly_target}
+                            />
+                            {errors.monthly_target && (
+                                <p className="text-sm text-destructive">
+                                    {errors.monthly_target.message}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Milestones */}
+                    <div className="space-y-3 rounded-lg border p-4">
+                        <Label className="text-sm">Milestones</Label>
+                        <div className="flex flex-wrap gap-4">
+                            {milestoneOptions.map((milestone) => (
+                                <div key={milestone} className="flex items-center space-x-2">
+                                    <Checkbox
+                                        id={`milestone_${milestone}`}
+                                        checked={milestones.includes(milestone)}
+                                        onCheckedChange={(checked) =>
+                                            toggleMilestone(milestone, !!checked)
+                                        }
+                                    />
+                                    <Label
+                                        htmlFor={`milestone_${milestone}`}
+                                        className="text-sm font-normal"
+                                    >
+                                        {milestone}%
+                                    </Label>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                            <Checkbox
+                                id="notifications_enabled"
+                                checked={notificationsEnabled}
+                                onCheckedChange={(checked) =>
+                                    setValue('milestone_settings.notifications_enabled', !!checked)
+                                }
+                            />
+                            <Label htmlFor="notifications_enabled" className="text-sm font-normal">
+                                Notify me when a milestone is reached
+                            </Label>
+                        </div>
+                    </div>
+
+                    {isEditMode && (
+                        <div className="space-y-2">
+                            <Label>Status</Label>
+                            <Select
+                                value={status}
+                                onValueChange={(value: GoalStatus) => setValue('status', value)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {goalStatuses.map((s) => (
+                                        <SelectItem key={s.value} value={s.value}>
+                                            {s.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {errors.status && (
+                                <p className="text-sm text-destructive">{errors.status.message}</p>
+                            )}
+                        </div>
+                    )}
+
+                    <DialogFooter className="gap-2 sm:gap-0">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                            {isEditMode ? 'Update Goal' : 'Create Goal'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
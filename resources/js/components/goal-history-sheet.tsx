@@ -0,0 +1,175 @@
+// resources/js/components/goal-history-sheet.tsx
+
+import * as React from 'react';
+import {
+    Sheet,
+    SheetContent,
+    SheetDescription,
+    SheetHeader,
+    SheetTitle,
+} from '@/components/ui/sheet';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CheckCircle2Icon, CircleIcon, LinkIcon } from 'lucide-react';
+import { useApi } from '@/hooks/use-api';
+import { formatCurrency, formatDate, formatPercent } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import type { FinancialGoal, GoalProgress } from '@/types/goal';
+
+interface GoalHistorySheetProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    goal: FinancialGoal | null;
+    /** Bumped by the page after a contribution so the history refetches */
+    refreshKey?: number;
+}
+
+export function GoalHistorySheet({
+    open,
+    onOpenChange,
+    goal,
+    refreshKey = 0,
+}: GoalHistorySheetProps) {
+    const goalUrl = open && goal ? `/goals/${goal.id}` : null;
+    const {
+        data: detail,
+        loading,
+        error,
+        reload,
+    } = useApi<FinancialGoal>(goalUrl);
+    const { data: progress, reload: reloadProgress } = useApi<GoalProgress>(
+        goalUrl && `${goalUrl}/progress`
+    );
+
+    React.useEffect(() => {
+        if (refreshKey > 0) {
+            reload();
+            reloadProgress();
+        }
+    }, [refreshKey, reload, reloadProgress]);
+
+    const contributions = [...(detail?.contributions ?? [])].sort((a, b) =>
+        b.date.localeCompare(a.date)
+    );
+
+    return (
+        <Sheet open={open} onOpenChange={onOpenChange}>
+            <SheetContent side="right" className="flex flex-col sm:max-w-md">
+                <SheetHeader>
+                    <SheetTitle>{goal?.name}</SheetTitle>
+                    <SheetDescription>
+                        {formatCurrency(detail?.current_amount ?? goal?.current_amount)} of{' '}
+                        {formatCurrency(goal?.target_amount)} saved
+                    </SheetDescription>
+                </SheetHeader>
+
+                <div className="flex-1 space-y-6 overflow-y-auto px-4 pb-4">
+                    {/* Milestones */}
+                    <div className="space-y-3">
+                        <h3 className="text-sm font-medium">Milestones</h3>
+                        {!progress ? (
+                            <Skeleton className="h-24 w-full" />
+                        ) : (
+                            <div className="space-y-2">
+                                {progress.milestones.map((milestone) => (
+                                    <div
+                                        key={milestone.percentage}
+                                        className="flex items-center justify-between text-sm"
+                                    >
+                                        <div className="flex items-center gap-2">
+                                            {milestone.achieved ? (
+                                                <CheckCircle2Icon className="h-4 w-4 text-green-600" />
+                                            ) : (
+                                                <CircleIcon className="h-4 w-4 text-muted-foreground" />
+                                            )}
+                                            <span
+                                                className={cn(
+                                                    !milestone.achieved && 'text-muted-foreground'
+                                                )}
+                                            >
+                                                {milestone.percentage}% •{' '}
+                                                {formatCurrency(milestone.amount)}
+                                            </span>
+                                        </div>
+                                        <span className="text-muted-foreground">
+                                            {milestone.achieved_date
+                                                ? formatDate(milestone.achieved_date)
+                                                : 'Not yet'}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Contribution History */}
+                    <div className="space-y-3">
+                        <h3 className="text-sm font-medium">Contributions</h3>
+                        {error && <p className="text-sm text-destructive">{error}</p>}
+                        {loading && !detail ? (
+                            Array.from({ length: 4 }).map((_, index) => (
+                                <Skeleton key={index} className="h-12 w-full" />
+                            ))
+                        ) : contributions.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">
+                                No contributions yet.
+                            </p>
+                        ) : (
+                            <div className="divide-y rounded-lg border">
+                                {contributions.map((contribution) => (
+                                    <div
+                                        key={contribution.id}
+                                        className="flex items-start justify-between gap-4 p-3 text-sm"
+                                    >
+                                        <div className="min-w-0 space-y-0.5">
+                                            <div className="font-medium">
+                                                {formatDate(contribution.date)}
+                                            </div>
+                                            {contribution.transaction && (
+                                                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                                                    <LinkIcon className="h-3 w-3" />
+                                                    <span className="truncate">
+                                                        {contribution.transaction.description}
+                                                    </span>
+                                                </div>
+                                            )}
+                                            {contribution.notes && (
+                                                <div className="text-xs text-muted-foreground">
+                                                    {contribution.notes}
+                                                </div>
+                                            )}
+                                        </div>
+                                        <span className="font-medium tabular-nums text-green-600">
+                                            +{formatCurrency(contribution.amount)}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Monthly Totals */}
+                    {progress && progress.timeline.length > 0 && (
+                        <div className="space-y-3">
+                            <h3 className="text-sm font-medium">By Month</h3>
+                            <div className="space-y-1 text-sm">
+                                {[...progress.timeline].reverse().map((point) => (
+                                    <div key={point.period} className="flex justify-between">
+                                        <span className="text-muted-foreground">
+                                            {formatDate(`${point.period}-01`, 'MMM yyyy')}
+                                        </span>
+                                        <span className="tabular-nums">
+                                            {formatCurrency(point.amount)}{' '}
+                                            <span className="text-muted-foreground">
+                                                ({formatPercent(point.progress_percentage)})
+                                            </span>
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </SheetContent>
+        </Sheet>
+    );
+}
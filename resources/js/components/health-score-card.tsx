@@ -0,0 +1,164 @@
+// resources/js/components/health-score-card.tsx
+
+import { Link } from '@inertiajs/react';
+import { ArrowRightIcon, MinusIcon, TrendingDownIcon, TrendingUpIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ProgressRing } from '@/components/progress-ring';
+import { useApi } from '@/hooks/use-api';
+import { formatPercent } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import type { HealthComponentKey, HealthScore, HealthScoreComponent } from '@/types/analytics';
+
+export const healthComponentOrder: HealthComponentKey[] = [
+    'savings_rate',
+    'debt_to_income',
+    'emergency_fund',
+    'budget_adherence',
+    'bill_punctuality',
+];
+
+export const healthStatusColors: Record<HealthScoreComponent['status'], string> = {
+    good: 'bg-green-500',
+    fair: 'bg-amber-500',
+    poor: 'bg-red-500',
+    not_applicable: 'bg-muted-foreground/40',
+};
+
+export function healthScoreColor(score: number): string {
+    if (score >= 75) return 'var(--color-green-500)';
+    if (score >= 50) return 'var(--color-amber-500)';
+    return 'var(--color-red-500)';
+}
+
+export function formatHealthValue(value: number | null, unit: HealthScoreComponent['unit']): string {
+    if (value === null) {
+        return '—';
+    }
+    return unit === 'months' ? `${value.toFixed(1)} mo` : formatPercent(value);
+}
+
+interface ScoreChangeProps {
+    change: number | null;
+    className?: string;
+}
+
+/**
+ * Points gained or lost since last month.
+ */
+export function ScoreChange({ change, className }: ScoreChangeProps) {
+    if (change === null) {
+        return <span className={cn('text-xs text-muted-foreground', className)}>No prior data</span>;
+    }
+
+    const Icon = change > 0 ? TrendingUpIcon : change < 0 ? TrendingDownIcon : MinusIcon;
+
+    return (
+        <span
+            className={cn(
+                'inline-flex items-center gap-1 text-xs tabular-nums',
+                change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-muted-foreground',
+                className
+            )}
+        >
+            <Icon className="h-3.5 w-3.5" />
+            {change > 0 ? '+' : ''}
+            {change.toFixed(1)} since last month
+        </span>
+    );
+}
+
+export function HealthScoreCard() {
+    const { data: health, loading, error } = useApi<HealthScore>('/analytics/health-score');
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between">
+                <div className="space-y-1.5">
+                    <CardTitle>Financial Health</CardTitle>
+                    <CardDescription>Based on the last 30 days</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                    <Link href="/analytics?tab=health">
+                        Details <ArrowRightIcon />
+                    </Link>
+                </Button>
+            </CardHeader>
+            <CardContent>
+                {loading ? (
+                    <div className="flex items-center gap-6">
+                        <Skeleton className="h-28 w-28 rounded-full" />
+                        <div className="flex-1 space-y-3">
+                            {Array.from({ length: 4 }).map((_, index) => (
+                                <Skeleton key={index} className="h-4 w-full" />
+                            ))}
+                        </div>
+                    </div>
+                ) : error || !health ? (
+                    <p className="text-sm text-destructive">{error}</p>
+                ) : (
+                    <div className="flex flex-col gap-6 sm:flex-row sm:items-center">
+                        <div className="flex flex-col items-center gap-2">
+                            <ProgressRing
+                                value={health.overall_score}
+                                size={112}
+                                strokeWidth={10}
+                                color={healthScoreColor(health.overall_score)}
+                            >
+                                <div className="text-center">
+                                    <div className="text-3xl font-bold">{health.overall_score}</div>
+                                    <div className="text-xs text-muted-foreground">of 100</div>
+                                </div>
+                            </ProgressRing>
+                            <Badge variant="outline">Grade {health.grade}</Badge>
+                            <ScoreChange change={health.score_change} />
+                        </div>
+                        <div className="flex-1 space-y-3">
+                            {healthComponentOrder.map((key) => {
+                                const component = health.components[key];
+
+                                return (
+                                    <div key={key} className="space-y-1">
+                                        <div className="flex items-center justify-between text-sm">
+                                            <span
+                                                className={cn(
+                                                    !component.applicable && 'text-muted-foreground'
+                                                )}
+                                            >
+                                                {component.label}
+                                            </span>
+                                            <span className="tabular-nums text-muted-foreground">
+                                                {component.applicable
+                                                    ? `${component.score.toFixed(0)}/${component.max_score}`
+                                                    : 'n/a'}
+                                            </span>
+                                        </div>
+                                        <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+                                            <div
+                                                className={cn(
+                                                    'h-full rounded-full',
+                                                    healthStatusColors[component.status]
+                                                )}
+                                                style={{
+                                                    width: `${(component.score / component.max_score) * 100}%`,
+                                                }}
+                                            />
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,406 @@
+// resources/js/components/import-statement-dialog.tsx
+
+import * as React from 'react';
+import { Loader2Icon } from 'lucide-react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { useApi } from '@/hooks/use-api';
+import { useToast } from '@/hooks/use-toast';
+import { api, getApiErrorMessage, type ApiResponse } from '@/lib/api';
+import { formatCurrency, formatDate, toDateString } from '@/lib/format';
+import { detectStatementFormat, parseStatement } from '@/lib/statement-parser';
+import { cn } from '@/lib/utils';
+import type { Account } from '@/types/account';
+import type { Category } from '@/types/category';
+import type {
+    BulkCreateResult,
+    BulkTransactionInput,
+    ParsedStatement,
+    QifDateOrder,
+    StatementFormat,
+    StatementTransaction,
+} from '@/types/transaction';
+
+interface ImportStatementDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onImported: () => void;
+}
+
+// Matches the batch limit of POST /transactions/bulk
+const BATCH_SIZE = 100;
+
+const PREVIEW_ROWS = 20;
+
+const NONE = 'none';
+
+function isImportable(transaction: StatementTransaction, today: string): boolean {
+    // Pending rows can be dated ahead; the bulk endpoint rejects future dates
+    return transaction.amount !== 0 && transaction.date <= today;
+}
+
+/**
+ * OFX, QFX and QIF statements are parsed in the browser and sent through the
+ * bulk endpoint. Every row carries a reference number (the OFX FITID where
+ * there is one), and rows whose reference already exists in the account are
+ * skipped, so importing the same statement twice creates nothing.
+ */
+export function ImportStatementDialog({ open, onOpenChange, onImported }: ImportStatementDialogProps) {
+    const { toast } = useToast();
+    const { data: accounts } = useApi<Account[]>(open ? '/accounts' : null);
+    const { data: categories } = useApi<Category[]>(open ? '/categories' : null, { is_active: 1 });
+
+    const [fileName, setFileName] = React.useState<string | null>(null);
+    const [content, setContent] = React.useState<string | null>(null);
+    const [format, setFormat] = React.useState<StatementFormat | null>(null);
+    const [qifDateOrder, setQifDateOrder] = React.useState<QifDateOrder>('mdy');
+    const [targets, setTargets] = React.useState<Record<number, number | undefined>>({});
+    const [fallbackCategories, setFallbackCategories] = React.useState<{
+        expense?: number;
+        income?: number;
+    }>({});
+    const [isImporting, setIsImporting] = React.useState(false);
+
+    React.useEffect(() => {
+        if (!open) {
+            setFileName(null);
+            setContent(null);
+            setFormat(null);
+            setQifDateOrder('mdy');
+            setTargets({});
+            setFallbackCategories({});
+        }
+    }, [open]);
+
+    // Default the fallbacks to the first category of each type
+    React.useEffect(() => {
+        if (!categories) return;
+        setFallbackCategories((current) => ({
+            expense: current.expense ?? categories.find((c) => c.type === 'expense')?.id,
+            income: current.income ?? categories.find((c) => c.type === 'income')?.id,
+        }));
+    }, [categories]);
+
+    const statements = React.useMemo<ParsedStatement[]>(
+        () => (content && format ? parseStatement(format, content, qifDateOrder) : []),
+        [content, format, qifDateOrder]
+    );
+
+    const today = toDateString(new Date());
+
+    const readFile = async (file: File | undefined) => {
+        if (!file) {
+            setFileName(null);
+            setContent(null);
+            setFormat(null);
+            return;
+        }
+
+        const text = await file.text();
+        const detected = detectStatementFormat(file.name, text);
+
+        setFileName(file.name);
+        setTargets({});
+        if (!detected) {
+            setContent(null);
+            setFormat(null);
+            toast({
+                title: 'Error',
+                description: 'This file is not an OFX, QFX or QIF statement',
+                variant: 'destructive',
+            });
+            return;
+        }
+        setContent(text);
+        setFormat(detected);
+    };
+
+    const categoryFor = (transaction: StatementTransaction, type: 'income' | 'expense'): number | undefined => {
+        if (transaction.category) {
+            const named = (categories ?? []).filter(
+                (category) => category.name.toLowerCase() === transaction.category?.toLowerCase()
+            );
+            const match = named.find((category) => category.type === type) ?? named[0];
+            if (match) {
+                return match.id;
+            }
+        }
+        return fallbackCategories[type];
+    };
+
+    const buildRows = (): BulkTransactionInput[] =>
+        statements.flatMap((statement, index) => {
+            const accountId = targets[index];
+            if (!accountId) {
+                return [];
+            }
+
+            return statement.transactions
+                .filter((transaction) => isImportable(transaction, today))
+                .map((transaction) => {
+                    const type = transaction.amount < 0 ? 'expense' : 'income';
+                    return {
+                        account_id: accountId,
+                        category_id: categoryFor(transaction, type) as number,
+                        description: transaction.description,
+                        amount: Math.round(Math.abs(transaction.amount) * 100) / 100,
+                        type,
+                        date: transaction.date,
+                        notes: transaction.notes,
+                        reference_number: transaction.reference_number,
+                    };
+                });
+        });
+
+    const rows = buildRows();
+    const missingCategory = rows.some((row) => !row.category_id);
+    const canImport = rows.length > 0 && !missingCategory && !isImporting;
+
+    const runImport = async () => {
+        let created = 0;
+        let skipped = 0;
+
+        setIsImporting(true);
+        try {
+            for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+                const response = await api.post<ApiResponse<BulkCreateResult>>('/transactions/bulk', {
+                    transactions: rows.slice(start, start + BATCH_SIZE),
+                    skip_existing_references: true,
+                });
+                created += response.data.data.created_count;
+                skipped += response.data.data.skipped_count ?? 0;
+            }
+
+            toast({
+                title: 'Success',
+                description:
+                    `Imported ${created} ${created === 1 ? 'transaction' : 'transactions'}` +
+                    (skipped > 0 ? `, ${skipped} already imported` : ''),
+            });
+            onOpenChange(false);
+            onImported();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description:
+                    getApiErrorMessage(err, 'Import failed') +
+                    (created > 0 ? ` (${created} imported before the error)` : ''),
+                variant: 'destructive',
+            });
+            if (created > 0) {
+                onImported();
+            }
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl">
+                <DialogHeader>
+                    <DialogTitle>Import Statement</DialogTitle>
+                    <DialogDescription>
+                        Import an OFX, QFX or QIF file from your bank. Transactions already imported from an
+                        earlier statement are skipped.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-6">
+                    <div className="grid gap-4 sm:grid-cols-3">
+                        <div className="space-y-2 sm:col-span-2">
+                            <Label htmlFor="statement_file">Statement file</Label>
+                            <Input
+                                id="statement_file"
+                                type="file"
+                                accept=".ofx,.qfx,.qif"
+                                onChange={(e) => readFile(e.target.files?.[0])}
+                            />
+                        </div>
+                        {format === 'qif' && (
+                            <div className="space-y-2">
+                                <Label>QIF date order</Label>
+                                <Select
+                                    value={qifDateOrder}
+                                    onValueChange={(value) => setQifDateOrder(value as QifDateOrder)}
+                                >
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="mdy">Month/Day/Year</SelectItem>
+                                        <SelectItem value="dmy">Day/Month/Year</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+                    </div>
+
+                    {fileName && format && statements.length === 0 && (
+                        <p className="text-sm text-muted-foreground">No transactions found in {fileName}.</p>
+                    )}
+
+                    {statements.length > 0 && (
+                        <div className="grid gap-4 sm:grid-cols-2">
+                            {(['expense', 'income'] as const).map((type) => (
+                                <div key={type} className="space-y-2">
+                                    <Label>{type === 'expense' ? 'Expense' : 'Income'} category</Label>
+                                    <Select
+                                        value={fallbackCategories[type] ? String(fallbackCategories[type]) : NONE}
+                                        onValueChange={(value) =>
+                                            setFallbackCategories((current) => ({
+                                                ...current,
+                                                [type]: value === NONE ? undefined : Number(value),
+                                            }))
+                                        }
+                                    >
+                                        <SelectTrigger className="w-full">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={NONE}>Choose a category</SelectItem>
+                                            {(categories ?? [])
+                                                .filter((category) => category.type === type)
+                                                .map((category) => (
+                                                    <SelectItem key={category.id} value={String(category.id)}>
+                                                        {category.name}
+                                                    </SelectItem>
+                                                ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            ))}
+                            <p className="text-xs text-muted-foreground sm:col-span-2">
+                                {format === 'qif'
+                                    ? "Used when a row's QIF category doesn't match one of yours."
+                                    : 'OFX files carry no categories, so every row gets these.'}{' '}
+                                You can recategorize afterwards.
+                            </p>
+                        </div>
+                    )}
+
+                    {statements.map((statement, index) => {
+                        const importable = statement.transactions.filter((t) => isImportable(t, today));
+                        const excluded = statement.transactions.length - importable.length;
+                        const dates = importable.map((t) => t.date).sort();
+
+                        return (
+                            <div key={index} className="space-y-3 rounded-md border p-4">
+                                <div className="flex flex-wrap items-end justify-between gap-4">
+                                    <div>
+                                        <p className="font-medium">{statement.label}</p>
+                                        <p className="text-sm text-muted-foreground">
+                                            {importable.length}{' '}
+                                            {importable.length === 1 ? 'transaction' : 'transactions'}
+                                            {dates.length > 0 &&
+                                                `, ${formatDate(dates[0])} – ${formatDate(dates[dates.length - 1])}`}
+                                            {excluded > 0 && ` • ${excluded} pending or empty left out`}
+                                        </p>
+                                    </div>
+                                    <div className="w-full space-y-2 sm:w-64">
+                                        <Label>Import into</Label>
+                                        <Select
+                                            value={targets[index] ? String(targets[index]) : NONE}
+                                            onValueChange={(value) =>
+                                                setTargets((current) => ({
+                                                    ...current,
+                                                    [index]: value === NONE ? undefined : Number(value),
+                                                }))
+                                            }
+                                        >
+                                            <SelectTrigger className="w-full">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value={NONE}>Don't import</SelectItem>
+                                                {(accounts ?? []).map((account) => (
+                                                    <SelectItem key={account.id} value={String(account.id)}>
+                                                        {account.name}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                </div>
+                                <div className="max-h-64 overflow-auto rounded-md border">
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Date</TableHead>
+                                                <TableHead>Description</TableHead>
+                                                <TableHead className="text-right">Amount</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {importable.slice(0, PREVIEW_ROWS).map((transaction, position) => (
+                                                <TableRow key={position}>
+                                                    <TableCell className="whitespace-nowrap">
+                                                        {formatDate(transaction.date)}
+                                                    </TableCell>
+                                                    <TableCell>{transaction.description}</TableCell>
+                                                    <TableCell
+                                                        className={cn(
+                                                            'text-right tabular-nums',
+                                                            transaction.amount < 0 ? 'text-red-600' : 'text-green-600'
+                                                        )}
+                                                    >
+                                                        {transaction.amount < 0 ? '-' : '+'}
+                                                        {formatCurrency(Math.abs(transaction.amount))}
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                                {importable.length > PREVIEW_ROWS && (
+                                    <p className="text-xs text-muted-foreground">
+                                        Showing the first {PREVIEW_ROWS} of {importable.length}.
+                                    </p>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <DialogFooter>
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => onOpenChange(false)}
+                        disabled={isImporting}
+                    >
+                        Cancel
+                    </Button>
+                    <Button type="button" onClick={runImport} disabled={!canImport}>
+                        {isImporting && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                        Import {rows.length} {rows.length === 1 ? 'Transaction' : 'Transactions'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
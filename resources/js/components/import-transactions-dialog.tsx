@@ -0,0 +1,887 @@
+// resources/js/components/import-transactions-dialog.tsx
+
+import * as React from 'react';
+import { AlertTriangleIcon, CopyIcon, Loader2Icon, SaveIcon, Trash2Icon } from 'lucide-react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useApi } from '@/hooks/use-api';
+import { useToast } from '@/hooks/use-toast';
+import { api, getApiErrorMessage, type ApiResponse } from '@/lib/api';
+import { formatCurrency, formatDate } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import type { Account } from '@/types/account';
+import type { Category } from '@/types/category';
+import type {
+    ColumnMappings,
+    ImportField,
+    ImportOptions,
+    ImportPreset,
+    ImportPreview,
+    ImportResult,
+} from '@/types/transaction';
+
+type Step = 'upload' | 'map' | 'review';
+
+type AmountMode = 'single' | 'split';
+
+interface ImportTransactionsDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onImported: () => void;
+}
+
+// Keep in sync with ImportTransactionRequest::DATE_FORMATS
+const dateFormats = [
+    { value: 'Y-m-d', label: 'YYYY-MM-DD' },
+    { value: 'm/d/Y', label: 'MM/DD/YYYY' },
+    { value: 'd/m/Y', label: 'DD/MM/YYYY' },
+    { value: 'Y/m/d', label: 'YYYY/MM/DD' },
+    { value: 'd-m-Y', label: 'DD-MM-YYYY' },
+    { value: 'm-d-Y', label: 'MM-DD-YYYY' },
+    { value: 'd.m.Y', label: 'DD.MM.YYYY' },
+];
+
+const mappingFields: { field: ImportField; label: string; required?: boolean; pattern: RegExp }[] = [
+    { field: 'date', label: 'Date', required: true, pattern: /date|posted/i },
+    {
+        field: 'description',
+        label: 'Description',
+        required: true,
+        pattern: /description|details|payee|narrative|particulars|memo/i,
+    },
+    { field: 'amount', label: 'Amount', required: true, pattern: /amount|value/i },
+    { field: 'debit', label: 'Debit (money out)', required: true, pattern: /debit|withdrawal|money out/i },
+    { field: 'credit', label: 'Credit (money in)', required: true, pattern: /credit|deposit|money in/i },
+    { field: 'type', label: 'Type', pattern: /^type$|dr\/cr|cr\/dr|transaction type/i },
+    { field: 'category', label: 'Category', pattern: /category/i },
+    { field: 'reference_number', label: 'Reference number', pattern: /ref|check|cheque/i },
+    { field: 'notes', label: 'Notes', pattern: /note|remark/i },
+];
+
+const defaultOptions: ImportOptions = {
+    delimiter: 'comma',
+    has_header: true,
+    date_format: 'Y-m-d',
+    amount_sign: 'negative_is_expense',
+    decimal_separator: '.',
+    default_type: 'expense',
+};
+
+const NONE = 'none';
+
+// Rows listed on the review step; the import itself covers the whole file
+const REVIEW_ROWS = 100;
+
+function buildImportForm(file: File, mappings: ColumnMappings | null, options: ImportOptions): FormData {
+    const form = new FormData();
+    form.append('csv_file', file);
+
+    Object.entries(mappings ?? {}).forEach(([field, column]) => {
+        if (column) {
+            form.append(`column_mappings[${field}]`, column);
+        }
+    });
+
+    Object.entries(options).forEach(([key, value]) => {
+        if (value === undefined || value === null || value === '') {
+            return;
+        }
+        if (Array.isArray(value)) {
+            value.forEach((item) => form.append(`import_options[${key}][]`, String(item)));
+        } else if (typeof value === 'boolean') {
+            form.append(`import_options[${key}]`, value ? '1' : '0');
+        } else {
+            form.append(`import_options[${key}]`, String(value));
+        }
+    });
+
+    return form;
+}
+
+/**
+ * Best guess at the mappings from the header names, so common bank exports
+ * need little or no adjustment.
+ */
+function guessMappings(headers: string[]): ColumnMappings {
+    const mappings: ColumnMappings = {};
+    const used = new Set<string>();
+
+    mappingFields.forEach(({ field, pattern }) => {
+        const header = headers.find((h) => !used.has(h) && pattern.test(h));
+        if (header) {
+            mappings[field] = header;
+            used.add(header);
+        }
+    });
+
+    return mappings;
+}
+
+function amountModeFor(mappings: ColumnMappings): AmountMode {
+    return !mappings.amount && (mappings.debit || mappings.credit) ? 'split' : 'single';
+}
+
+/**
+ * Multi-step CSV import: upload and preview the file, map its columns, then
+ * review duplicates and errors before anything is written.
+ */
+export function ImportTransactionsDialog({ open, onOpenChange, onImported }: ImportTransactionsDialogProps) {
+    const { toast } = useToast();
+    const { data: presets, reload: reloadPresets } = useApi<ImportPreset[]>(
+        open ? '/transactions/import/presets' : null
+    );
+    const { data: accounts } = useApi<Account[]>(open ? '/accounts' : null);
+    const { data: categories } = useApi<Category[]>(open ? '/categories' : null, { is_active: 1 });
+
+    const [step, setStep] = React.useState<Step>('upload');
+    const [file, setFile] = React.useState<File | null>(null);
+    const [preview, setPreview] = React.useState<ImportPreview | null>(null);
+    const [review, setReview] = React.useState<ImportPreview | null>(null);
+    const [mappings, setMappings] = React.useState<ColumnMappings>({});
+    const [amountMode, setAmountMode] = React.useState<AmountMode>('single');
+    const [options, setOptions] = React.useState<ImportOptions>(defaultOptions);
+    const [presetId, setPresetId] = React.useState<string | null>(null);
+    const [presetName, setPresetName] = React.useState('');
+    // Duplicate lines the user chose to import anyway
+    const [keptDuplicates, setKeptDuplicates] = React.useState<number[]>([]);
+    const [isLoading, setIsLoading] = React.useState(false);
+    const [isImporting, setIsImporting] = React.useState(false);
+    const [isSavingPreset, setIsSavingPreset] = React.useState(false);
+
+    const activePreset = presets?.find((preset) => preset.id === presetId) ?? null;
+
+    React.useEffect(() => {
+        if (!open) {
+            setStep('upload');
+            setFile(null);
+            setPreview(null);
+            setReview(null);
+            setMappings({});
+            setAmountMode('single');
+            setOptions(defaultOptions);
+            setPresetId(null);
+            setPresetName('');
+            setKeptDuplicates([]);
+        }
+    }, [open]);
+
+    const updateOptions = (changes: Partial<ImportOptions>) => {
+        setOptions((current) => ({ ...current, ...changes }));
+    };
+
+    const effectiveMappings = (): ColumnMappings => {
+        const { amount, debit, credit, ...rest } = mappings;
+        return amountMode === 'split' ? { ...rest, debit, credit } : { ...rest, amount };
+    };
+
+    const selectPreset = (id: string) => {
+        const preset = presets?.find((p) => p.id === id);
+        setPresetId(preset?.id ?? null);
+        setPresetName(preset?.name ?? '');
+        if (preset) {
+            updateOptions(preset.import_options);
+        }
+    };
+
+    const loadPreview = async () => {
+        if (!file) return;
+
+        setIsLoading(true);
+        try {
+            const response = await api.post<ApiResponse<ImportPreview>>(
+                '/transactions/import/csv/preview',
+                buildImportForm(file, null, options)
+            );
+            const result = response.data.data;
+            const headers = result.headers;
+
+            // Keep the preset's mappings that exist in this file, guess the rest
+            const presetMappings = Object.fromEntries(
+                Object.entries(activePreset?.column_mappings ?? {}).filter(([, column]) =>
+                    headers.includes(column as string)
+                )
+            ) as ColumnMappings;
+            const nextMappings = activePreset ? presetMappings : guessMappings(headers);
+
+            setPreview(result);
+            setMappings(nextMappings);
+            setAmountMode(amountModeFor(nextMappings));
+            setStep('map');
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to read the file'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const loadReview = async () => {
+        if (!file) return;
+
+        setIsLoading(true);
+        try {
+            const response = await api.post<ApiResponse<ImportPreview>>(
+                '/transactions/import/csv/preview',
+                buildImportForm(file, effectiveMappings(), options)
+            );
+            setReview(response.data.data);
+            setKeptDuplicates([]);
+            setStep('review');
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to preview the import'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const savePreset = async (asNew: boolean) => {
+        const payload = {
+            name: presetName.trim(),
+            column_mappings: effectiveMappings(),
+            import_options: options,
+        };
+
+        setIsSavingPreset(true);
+        try {
+            const response =
+                activePreset && !asNew
+                    ? await api.put<ApiResponse<ImportPreset>>(
+                          `/transactions/import/presets/${activePreset.id}`,
+                          payload
+                      )
+                    : await api.post<ApiResponse<ImportPreset>>('/transactions/import/presets', payload);
+            setPresetId(response.data.data.id);
+            reloadPresets();
+            toast({
+                title: 'Success',
+                description: response.data.message ?? 'Preset saved successfully',
+            });
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to save preset'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSavingPreset(false);
+        }
+    };
+
+    const deletePreset = async () => {
+        if (!activePreset) return;
+
+        try {
+            await api.delete(`/transactions/import/presets/${activePreset.id}`);
+            setPresetId(null);
+            setPresetName('');
+            reloadPresets();
+            toast({
+                title: 'Success',
+                description: 'Preset deleted successfully',
+            });
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to delete preset'),
+                variant: 'destructive',
+            });
+        }
+    };
+
+    const rows = review?.rows ?? [];
+    const duplicateRows = rows.filter((row) => row.error === null && row.duplicate_of !== null);
+    const errorRows = rows.filter((row) => row.error !== null);
+    const importRows = rows.filter(
+        (row) => row.error === null && (row.duplicate_of === null || keptDuplicates.includes(row.line))
+    );
+
+    const runImport = async () => {
+        if (!file) return;
+
+        const skipLines = duplicateRows
+            .filter((row) => !keptDuplicates.includes(row.line))
+            .map((row) => row.line);
+
+        setIsImporting(true);
+        try {
+            const response = await api.post<ApiResponse<ImportResult>>(
+                '/transactions/import/csv',
+                buildImportForm(file, effectiveMappings(), {
+                    ...options,
+                    skip_duplicates: false,
+                    skip_lines: skipLines,
+                })
+            );
+            const result = response.data.data;
+            toast({
+                title: 'Success',
+                description:
+                    `Imported ${result.imported} ${result.imported === 1 ? 'transaction' : 'transactions'}` +
+                    (result.skipped > 0 ? `, skipped ${result.skipped}` : '') +
+                    (result.errors.length > 0 ? `, ${result.errors.length} failed` : ''),
+            });
+            onOpenChange(false);
+            onImported();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Import failed'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const headers = preview?.headers ?? [];
+    const columnIndex = (field: ImportField) =>
+        mappings[field] ? headers.indexOf(mappings[field] as string) : -1;
+    const sampleDate = columnIndex('date') >= 0 ? preview?.sample[0]?.[columnIndex('date')] : undefined;
+
+    const canReview =
+        !!mappings.date &&
+        !!mappings.description &&
+        (amountMode === 'single' ? !!mappings.amount : !!mappings.debit || !!mappings.credit) &&
+        !!options.default_account_id;
+
+    const visibleFields = mappingFields.filter(({ field }) =>
+        amountMode === 'single' ? field !== 'debit' && field !== 'credit' : field !== 'amount'
+    );
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl">
+                <DialogHeader>
+                    <DialogTitle>Import Transactions</DialogTitle>
+                    <DialogDescription>
+                        {step === 'upload' && 'Step 1 of 3: choose a CSV file exported from your bank.'}
+                        {step === 'map' && 'Step 2 of 3: tell us what each column contains.'}
+                        {step === 'review' && 'Step 3 of 3: check duplicates and errors before importing.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {step === 'upload' && (
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="import_file">CSV file</Label>
+                            <Input
+                                id="import_file"
+                                type="file"
+                                accept=".csv,.txt,text/csv"
+                                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                            />
+                        </div>
+                        <div className="grid gap-4 sm:grid-cols-3">
+                            <div className="space-y-2">
+                                <Label>Mapping preset</Label>
+                                <Select value={presetId ?? NONE} onValueChange={selectPreset}>
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NONE}>None</SelectItem>
+                                        {(presets ?? []).map((preset) => (
+                                            <SelectItem key={preset.id} value={preset.id}>
+                                                {preset.name}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Delimiter</Label>
+                                <Select
+                                    value={options.delimiter}
+                                    onValueChange={(value) =>
+                                        updateOptions({ delimiter: value as ImportOptions['delimiter'] })
+                                    }
+                                >
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="comma">Comma (,)</SelectItem>
+                                        <SelectItem value="semicolon">Semicolon (;)</SelectItem>
+                                        <SelectItem value="tab">Tab</SelectItem>
+                                        <SelectItem value="pipe">Pipe (|)</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="flex items-end gap-2 pb-2">
+                                <Checkbox
+                                    id="import_has_header"
+                                    checked={options.has_header}
+                                    onCheckedChange={(checked) => updateOptions({ has_header: checked === true })}
+                                />
+                                <Label htmlFor="import_has_header">First row is a header</Label>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {step === 'map' && preview && (
+                    <div className="space-y-6">
+                        <div className="space-y-2">
+                            <p className="text-sm text-muted-foreground">
+                                {preview.total_rows} {preview.total_rows === 1 ? 'row' : 'rows'} in{' '}
+                                {file?.name}. The first few:
+                            </p>
+                            <div className="overflow-x-auto rounded-md border">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            {headers.map((header) => (
+                                                <TableHead key={header} className="whitespace-nowrap">
+                                                    {header}
+                                                </TableHead>
+                                            ))}
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {preview.sample.slice(0, 5).map((values, index) => (
+                                            <TableRow key={index}>
+                                                {headers.map((header, column) => (
+                                                    <TableCell key={header} className="whitespace-nowrap">
+                                                        {values[column] ?? ''}
+                                                    </TableCell>
+                                                ))}
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        </div>
+
+                        <div className="space-y-3">
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                <h3 className="text-sm font-medium">Columns</h3>
+                                <ToggleGroup
+                                    type="single"
+                                    variant="outline"
+                                    size="sm"
+                                    value={amountMode}
+                                    onValueChange={(value) => value && setAmountMode(value as AmountMode)}
+                                >
+                                    <ToggleGroupItem value="single">One amount column</ToggleGroupItem>
+                                    <ToggleGroupItem value="split">Debit / credit columns</ToggleGroupItem>
+                                </ToggleGroup>
+                            </div>
+                            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                                {visibleFields.map(({ field, label, required }) => (
+                                    <div key={field} className="space-y-2">
+                                        <Label>
+                                            {label}
+                                            {required && field !== 'debit' && field !== 'credit' && ' *'}
+                                        </Label>
+                                        <Select
+                                            value={mappings[field] ?? NONE}
+                                            onValueChange={(value) =>
+                                                setMappings((current) => ({
+                                                    ...current,
+                                                    [field]: value === NONE ? undefined : value,
+                                                }))
+                                            }
+                                        >
+                                            <SelectTrigger className="w-full">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value={NONE}>Not mapped</SelectItem>
+                                                {headers.map((header) => (
+                                                    <SelectItem key={header} value={header}>
+                                                        {header}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                ))}
+                            </div>
+                            {amountMode === 'split' && (
+                                <p className="text-xs text-muted-foreground">
+                                    Map at least one of debit and credit. Debits import as expenses,
+                                    credits as income.
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="space-y-3">
+                            <h3 className="text-sm font-medium">Format</h3>
+                            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                                <div className="space-y-2">
+                                    <Label>Date format</Label>
+                                    <Select
+                                        value={options.date_format}
+                                        onValueChange={(value) => updateOptions({ date_format: value })}
+                                    >
+                                        <SelectTrigger className="w-full">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {dateFormats.map((format) => (
+                                                <SelectItem key={format.value} value={format.value}>
+                                                    {format.label}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    {sampleDate && (
+                                        <p className="text-xs text-muted-foreground">First row: {sampleDate}</p>
+                                    )}
+                                </div>
+                                {amountMode === 'single' && (
+                                    <div className="space-y-2">
+                                        <Label>Amount sign</Label>
+                                        <Select
+                                            value={options.amount_sign}
+                                            onValueChange={(value) =>
+                                                updateOptions({ amount_sign: value as ImportOptions['amount_sign'] })
+                                            }
+                                        >
+                                            <SelectTrigger className="w-full">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="negative_is_expense">
+                                                    Negative amounts are expenses
+                                                </SelectItem>
+                                                <SelectItem value="positive_is_expense">
+                                                    Positive amounts are expenses
+                                                </SelectItem>
+                                                <SelectItem value="absolute">
+                                                    Ignore the sign
+                                                </SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                )}
+                                <div className="space-y-2">
+                                    <Label>Decimal separator</Label>
+                                    <Select
+                                        value={options.decimal_separator}
+                                        onValueChange={(value) =>
+                                            updateOptions({
+                                                decimal_separator: value as ImportOptions['decimal_separator'],
+                                            })
+                                        }
+                                    >
+                                        <SelectTrigger className="w-full">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value=".">Point (1,234.56)</SelectItem>
+                                            <SelectItem value=",">Comma (1.234,56)</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                A mapped type column (e.g. DR/CR or Debit/Credit) takes precedence over the
+                                amount sign.
+                            </p>
+                        </div>
+
+                        <div className="space-y-3">
+                            <h3 className="text-sm font-medium">Destination</h3>
+                            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                                <div className="space-y-2">
+                                    <Label>Account *</Label>
+                                    <Select
+                                        value={options.default_account_id ? String(options.default_account_id) : NONE}
+                                        onValueChange={(value) =>
+                                            updateOptions({
+                                                default_account_id: value === NONE ? undefined : Number(value),
+                                            })
+                                        }
+                                    >
+                                        <SelectTrigger className="w-full">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={NONE}>Choose an account</SelectItem>
+                                            {(accounts ?? []).map((account) => (
+                                                <SelectItem key={account.id} value={String(account.id)}>
+                                                    {account.name}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>Fallback category</Label>
+                                    <Select
+                                        value={options.default_category_id ? String(options.default_category_id) : NONE}
+                                        onValueChange={(value) =>
+                                            updateOptions({
+                                                default_category_id: value === NONE ? undefined : Number(value),
+                                            })
+                                        }
+                                    >
+                                        <SelectTrigger className="w-full">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={NONE}>First category of the type</SelectItem>
+                                            {(categories ?? []).map((category) => (
+                                                <SelectItem key={category.id} value={String(category.id)}>
+                                                    {category.name}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <p className="text-xs text-muted-foreground">
+                                        Used when the category column is empty or doesn't match a category.
+                                    </p>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>Default type</Label>
+                                    <Select
+                                        value={options.default_type}
+                                        onValueChange={(value) =>
+                                            updateOptions({ default_type: value as ImportOptions['default_type'] })
+                                        }
+                                    >
+                                        <SelectTrigger className="w-full">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="expense">Expense</SelectItem>
+                                            <SelectItem value="income">Income</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2 rounded-md border p-3">
+                            <Label htmlFor="preset_name">Save these settings as a preset</Label>
+                            <div className="flex flex-wrap gap-2">
+                                <Input
+                                    id="preset_name"
+                                    className="max-w-xs"
+                                    value={presetName}
+                                    maxLength={100}
+                                    placeholder="e.g. My bank checking"
+                                    onChange={(e) => setPresetName(e.target.value)}
+                                />
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    onClick={() => savePreset(false)}
+                                    disabled={!presetName.trim() || isSavingPreset}
+                                >
+                                    {isSavingPreset ? <Loader2Icon className="animate-spin" /> : <SaveIcon />}
+                                    {activePreset ? 'Update Preset' : 'Save Preset'}
+                                </Button>
+                                {activePreset && (
+                                    <>
+                                        <Button
+                                            type="button"
+                                            variant="outline"
+                                            onClick={() => savePreset(true)}
+                                            disabled={!presetName.trim() || isSavingPreset}
+                                        >
+                                            <CopyIcon />
+                                            Save as New
+                                        </Button>
+                                        <Button type="button" variant="ghost" onClick={deletePreset}>
+                                            <Trash2Icon />
+                                            Delete
+                                        </Button>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {step === 'review' && review && (
+                    <div className="space-y-6">
+                        <div className="flex flex-wrap gap-2">
+                            <Badge variant="outline">{review.summary?.valid ?? 0} readable</Badge>
+                            <Badge
+                                variant="outline"
+                                className={cn(duplicateRows.length > 0 && 'border-amber-500/40 text-amber-600')}
+                            >
+                                {duplicateRows.length} possible {duplicateRows.length === 1 ? 'duplicate' : 'duplicates'}
+                            </Badge>
+                            <Badge variant={errorRows.length > 0 ? 'destructive' : 'outline'}>
+                                {errorRows.length} with errors
+                            </Badge>
+                        </div>
+
+                        {duplicateRows.length > 0 && (
+                            <div className="space-y-2">
+                                <h3 className="text-sm font-medium">Already in this account</h3>
+                                <p className="text-xs text-muted-foreground">
+                                    These rows match an existing transaction and are skipped unless you tick
+                                    them.
+                                </p>
+                                <div className="max-h-64 space-y-2 overflow-y-auto">
+                                    {duplicateRows.map((row) => (
+                                        <label
+                                            key={row.line}
+                                            className="flex items-start gap-3 rounded-md border p-3 text-sm"
+                                        >
+                                            <Checkbox
+                                                checked={keptDuplicates.includes(row.line)}
+                                                onCheckedChange={(checked) =>
+                                                    setKeptDuplicates((current) =>
+                                                        checked === true
+                                                            ? [...current, row.line]
+                                                            : current.filter((line) => line !== row.line)
+                                                    )
+                                                }
+                                            />
+                                            <div className="grid flex-1 gap-1 sm:grid-cols-2">
+                                                <span>
+                                                    <span className="text-muted-foreground">Line {row.line}: </span>
+                                                    {row.date && formatDate(row.date)} • {row.description} •{' '}
+                                                    {formatCurrency(row.amount ?? 0)}
+                                                </span>
+                                                {row.duplicate_of && (
+                                                    <span className="text-muted-foreground">
+                                                        Existing: {formatDate(row.duplicate_of.date)} •{' '}
+                                                        {row.duplicate_of.description} •{' '}
+                                                        {formatCurrency(row.duplicate_of.amount)}
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {errorRows.length > 0 && (
+                            <div className="space-y-2">
+                                <h3 className="text-sm font-medium">Rows that can't be imported</h3>
+                                <div className="max-h-40 space-y-1 overflow-y-auto text-sm">
+                                    {errorRows.map((row) => (
+                                        <p key={row.line} className="flex items-start gap-2">
+                                            <AlertTriangleIcon className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+                                            <span>
+                                                <span className="text-muted-foreground">Line {row.line}: </span>
+                                                {row.error}
+                                            </span>
+                                        </p>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="space-y-2">
+                            <h3 className="text-sm font-medium">To import</h3>
+                            <div className="max-h-80 overflow-auto rounded-md border">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Date</TableHead>
+                                            <TableHead>Description</TableHead>
+                                            <TableHead>Category</TableHead>
+                                            <TableHead className="text-right">Amount</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {importRows.slice(0, REVIEW_ROWS).map((row) => (
+                                            <TableRow key={row.line}>
+                                                <TableCell className="whitespace-nowrap">
+                                                    {row.date && formatDate(row.date)}
+                                                </TableCell>
+                                                <TableCell>{row.description}</TableCell>
+                                                <TableCell>{row.category}</TableCell>
+                                                <TableCell
+                                                    className={cn(
+                                                        'text-right tabular-nums',
+                                                        row.type === 'income' ? 'text-green-600' : 'text-red-600'
+                                                    )}
+                                                >
+                                                    {row.type === 'income' ? '+' : '-'}
+                                                    {formatCurrency(row.amount ?? 0)}
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                            {importRows.length > REVIEW_ROWS && (
+                                <p className="text-xs text-muted-foreground">
+                                    Showing the first {REVIEW_ROWS} of {importRows.length}.
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {step === 'upload' ? (
+                        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                            Cancel
+                        </Button>
+                    ) : (
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => setStep(step === 'review' ? 'map' : 'upload')}
+                            disabled={isLoading || isImporting}
+                        >
+                            Back
+                        </Button>
+                    )}
+                    {step === 'upload' && (
+                        <Button type="button" onClick={loadPreview} disabled={!file || isLoading}>
+                            {isLoading && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                            Next
+                        </Button>
+                    )}
+                    {step === 'map' && (
+                        <Button type="button" onClick={loadReview} disabled={!canReview || isLoading}>
+                            {isLoading && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                            Review
+                        </Button>
+                    )}
+                    {step === 'review' && (
+                        <Button type="button" onClick={runImport} disabled={importRows.length === 0 || isImporting}>
+                            {isImporting && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                            Import {importRows.length} {importRows.length === 1 ? 'Transaction' : 'Transactions'}
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
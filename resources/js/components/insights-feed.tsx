@@ -0,0 +1,172 @@
+// resources/js/components/insights-feed.tsx
+
+import * as React from 'react';
+import { Link } from '@inertiajs/react';
+import {
+    ArrowRightIcon,
+    LightbulbIcon,
+    type LucideIcon,
+    PiggyBankIcon,
+    ReceiptIcon,
+    RotateCcwIcon,
+    TrendingUpIcon,
+    WalletIcon,
+    XIcon,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useApi } from '@/hooks/use-api';
+import { useToast } from '@/hooks/use-toast';
+import { api, getApiErrorMessage } from '@/lib/api';
+import type { Insight, InsightLinkFilters, InsightType } from '@/types/analytics';
+
+const insightIcons: Record<InsightType, LucideIcon> = {
+    spending_increase: TrendingUpIcon,
+    category_spike: TrendingUpIcon,
+    low_savings: PiggyBankIcon,
+    budget_warning: WalletIcon,
+    subscription_increase: ReceiptIcon,
+    high_interest_debt: WalletIcon,
+    no_investments: LightbulbIcon,
+};
+
+const focusAreas = ['spending', 'saving', 'budgeting', 'subscriptions', 'debt'];
+
+function transactionsUrl(filters: InsightLinkFilters): string {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+            params.set(key, String(value));
+        }
+    });
+    return `/transactions?${params.toString()}`;
+}
+
+interface InsightsFeedProps {
+    limit?: number;
+}
+
+/**
+ * Insights from the analytics API. Dismissals are stored per user, so a
+ * dismissed item stays hidden until the underlying finding changes.
+ */
+export function InsightsFeed({ limit = 5 }: InsightsFeedProps) {
+    const { toast } = useToast();
+    const { data, meta, loading, error, reload } = useApi<Insight[], { dismissed_count: number }>(
+        '/analytics/insights',
+        { focus_areas: focusAreas, limit }
+    );
+    // Hidden right away while the dismissal is saved
+    const [hiddenIds, setHiddenIds] = React.useState<string[]>([]);
+    const [isRestoring, setIsRestoring] = React.useState(false);
+
+    const insights = (data ?? []).filter((insight) => !hiddenIds.includes(insight.id));
+    const dismissedCount = meta?.dismissed_count ?? 0;
+
+    const dismiss = async (insight: Insight) => {
+        setHiddenIds((previous) => [...previous, insight.id]);
+        try {
+            await api.post('/analytics/insights/dismiss', { id: insight.id });
+            reload();
+        } catch (err) {
+            setHiddenIds((previous) => previous.filter((id) => id !== insight.id));
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to dismiss insight'),
+                variant: 'destructive',
+            });
+        }
+    };
+
+    const restore = async () => {
+        setIsRestoring(true);
+        try {
+            await api.delete('/analytics/insights/dismissed');
+            setHiddenIds([]);
+            reload();
+            toast({
+                title: 'Success',
+                description: 'Dismissed insights restored',
+            });
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Failed to restore insights'),
+                variant: 'destructive',
+            });
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between">
+                <div className="space-y-1.5">
+                    <CardTitle>Insights</CardTitle>
+                    <CardDescription>What stands out in your recent activity</CardDescription>
+                </div>
+                {dismissedCount > 0 && (
+                    <Button variant="ghost" size="sm" onClick={restore} disabled={isRestoring}>
+                        <RotateCcwIcon />
+                        Restore {dismissedCount} dismissed
+                    </Button>
+                )}
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {loading && !data ? (
+                    Array.from({ length: 3 }).map((_, index) => (
+                        <Skeleton key={index} className="h-16 w-full" />
+                    ))
+                ) : error ? (
+                    <p className="text-sm text-destructive">{error}</p>
+                ) : insights.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        Nothing needs your attention right now.
+                    </p>
+                ) : (
+                    insights.map((insight) => {
+                        const Icon = insightIcons[insight.type] ?? LightbulbIcon;
+
+                        return (
+                            <div
+                                key={insight.id}
+                                className="flex items-start gap-3 rounded-lg border p-3"
+                            >
+                                <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                                <div className="flex-1 space-y-1">
+                                    <p className="text-sm font-medium">{insight.title}</p>
+                                    <p className="text-sm">{insight.message}</p>
+                                    <p className="text-xs text-muted-foreground">{insight.action}</p>
+                                    {insight.link && (
+                                        <Button variant="link" size="sm" className="h-auto px-0" asChild>
+                                            <Link href={transactionsUrl(insight.link.filters)}>
+                                                {insight.link.label} <ArrowRightIcon />
+                                            </Link>
+                                        </Button>
+                                    )}
+                                </div>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-7 w-7 shrink-0"
+                                    onClick={() => dismiss(insight)}
+                                >
+                                    <XIcon />
+                                    <span className="sr-only">Dismiss</span>
+                                </Button>
+                            </div>
+                        );
+                    })
+                )}
+            </CardContent>
+        </Card>
+    );
+}
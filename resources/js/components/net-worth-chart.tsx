@@ -0,0 +1,217 @@
+// resources/js/components/net-worth-chart.tsx
+
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import type { TooltipProps } from 'recharts';
+import {
+    type ChartConfig,
+    ChartContainer,
+    ChartTooltip,
+} from '@/components/ui/chart';
+import { formatCurrency, formatDate, toNumber } from '@/lib/format';
+import type { NetWorthReport } from '@/types/analytics';
+
+// Debts have no color of their own
+const debtColors = ['var(--chart-1)', 'var(--chart-5)', 'var(--chart-4)', 'var(--chart-3)', 'var(--chart-2)'];
+
+export interface NetWorthSource {
+    /** "account-{id}" or "debt-{id}" */
+    key: string;
+    name: string;
+    color: string;
+    isLiability: boolean;
+    /** Balance today */
+    balance: number;
+}
+
+export interface NetWorthPointData {
+    month: string;
+    label: string;
+    assets: number;
+    liabilities: number;
+    net_worth: number;
+    /** Signed balance per source key; liabilities are negative */
+    [key: string]: string | number;
+}
+
+/**
+ * Every account and debt in the report as a chart series.
+ */
+export function getNetWorthSources(report: NetWorthReport | null): NetWorthSource[] {
+    const accounts = (report?.accounts ?? []).map((account, index) => ({
+        key: `account-${account.id}`,
+        name: account.name,
+        color: account.color || `var(--chart-${(index % 5) + 1})`,
+        isLiability: account.is_liability,
+        balance: toNumber(account.balance),
+    }));
+    const debts = (report?.debts ?? []).map((debt, index) => ({
+        key: `debt-${debt.id}`,
+        name: debt.name,
+        color: debtColors[index % debtColors.length],
+        isLiability: true,
+        balance: toNumber(debt.current_balance),
+    }));
+
+    return [...accounts, ...debts];
+}
+
+/**
+ * Recompute the monthly totals from the per-source balances, leaving out
+ * the excluded sources.
+ */
+export function getNetWorthSeries(
+    report: NetWorthReport | null,
+    sources: NetWorthSource[],
+    excluded: string[]
+): NetWorthPointData[] {
+    const included = sources.filter((source) => !excluded.includes(source.key));
+
+    return (report?.history ?? []).map((point) => {
+        const data: NetWorthPointData = {
+            month: point.date,
+            label: formatDate(`${point.date}-01`, 'MMM yy'),
+            assets: 0,
+            liabilities: 0,
+            net_worth: 0,
+        };
+
+        included.forEach((source) => {
+            const [kind, id] = source.key.split('-');
+            const balance = toNumber((kind === 'debt' ? point.debts : point.accounts)[id]);
+
+            data[source.key] = source.isLiability ? -balance : balance;
+            if (source.isLiability) {
+                data.liabilities += balance;
+            } else {
+                data.assets += balance;
+            }
+        });
+        data.net_worth = data.assets - data.liabilities;
+
+        return data;
+    });
+}
+
+interface NetWorthChartProps {
+    data: NetWorthPointData[];
+    sources: NetWorthSource[];
+}
+
+export function NetWorthChart({ data, sources }: NetWorthChartProps) {
+    const chartConfig = {
+        ...Object.fromEntries(
+            sources.map((source) => [source.key, { label: source.name, color: source.color }])
+        ),
+        net_worth: {
+            label: 'Net worth',
+            color: 'var(--foreground)',
+        },
+    } satisfies ChartConfig;
+
+    return (
+        <ChartContainer config={chartConfig} className="aspect-auto h-[320px] w-full">
+            <ComposedChart data={data} stackOffset="sign">
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    width={80}
+                    tickFormatter={(value) =>
+                        new Intl.NumberFormat('en-PH', {
+                            notation: 'compact',
+                        }).format(value)
+                    }
+                />
+                <ChartTooltip
+                    cursor={{ fill: 'var(--muted)', opacity: 0.5 }}
+                    content={<NetWorthTooltip sources={sources} />}
+                />
+                {sources.map((source) => (
+                    <Bar
+                        key={source.key}
+                        dataKey={source.key}
+                        stackId="balance"
+                        fill={source.color}
+                        fillOpacity={source.isLiability ? 0.6 : 0.85}
+                    />
+                ))}
+                <Line
+                    dataKey="net_worth"
+                    type="monotone"
+                    stroke="var(--color-net_worth)"
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                />
+            </ComposedChart>
+        </ChartContainer>
+    );
+}
+
+interface NetWorthTooltipProps extends TooltipProps<number, string> {
+    sources: NetWorthSource[];
+}
+
+/**
+ * Month total broken down by account and debt, grouped into assets and
+ * liabilities.
+ */
+function NetWorthTooltip({ active, payload, sources }: NetWorthTooltipProps) {
+    const point = payload?.[0]?.payload as NetWorthPointData | undefined;
+    if (!active || !point) {
+        return null;
+    }
+
+    const rows = sources
+        .filter((source) => point[source.key] !== undefined && point[source.key] !== 0)
+        .map((source) => ({ ...source, amount: Math.abs(point[source.key] as number) }));
+    const assets = rows.filter((row) => !row.isLiability);
+    const liabilities = rows.filter((row) => row.isLiability);
+
+    return (
+        <div className="grid min-w-[14rem] gap-1.5 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+            <div className="font-medium">{formatDate(`${point.month}-01`, 'MMMM yyyy')}</div>
+            <TooltipSection title="Assets" rows={assets} total={point.assets} />
+            <TooltipSection title="Liabilities" rows={liabilities} total={point.liabilities} />
+            <div className="flex items-center justify-between gap-4 border-t pt-1.5 font-medium">
+                <span>Net worth</span>
+                <span className="font-mono tabular-nums">{formatCurrency(point.net_worth)}</span>
+            </div>
+        </div>
+    );
+}
+
+interface TooltipSectionProps {
+    title: string;
+    rows: (NetWorthSource & { amount: number })[];
+    total: number;
+}
+
+function TooltipSection({ title, rows, total }: TooltipSectionProps) {
+    if (rows.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="grid gap-1">
+            <div className="flex items-center justify-between gap-4 text-muted-foreground">
+                <span>{title}</span>
+                <span className="font-mono tabular-nums">{formatCurrency(total)}</span>
+            </div>
+            {rows.map((row) => (
+                <div key={row.key} className="flex items-center justify-between gap-4">
+                    <span className="flex items-center gap-1.5">
+                        <span
+                            className="h-2.5 w-2.5 shrink-0 rounded-[2px]"
+                            style={{ backgroundColor: row.color }}
+                        />
+                        {row.name}
+                    </span>
+                    <span className="font-mono font-medium tabular-nums">
+                        {formatCurrency(row.amount)}
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+}
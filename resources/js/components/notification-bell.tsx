@@ -0,0 +1,204 @@
+// resources/js/components/notification-bell.tsx
+
+import * as React from 'react';
+import { Link, router } from '@inertiajs/react';
+import { BellIcon, CheckCheckIcon, Trash2Icon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { useApi } from '@/hooks/use-api';
+import { api, getApiErrorMessage } from '@/lib/api';
+import {
+    NotificationItem,
+    groupNotificationsByType,
+} from '@/components/notification-item';
+import type {
+    AppNotification,
+    NotificationListMeta,
+    NotificationType,
+    UnreadCount,
+} from '@/types/notification';
+
+// How often the unread badge is refreshed while the page is open
+const POLL_INTERVAL = 60_000;
+const CHANGED_EVENT = 'notifications:changed';
+
+/** Tell the header bell to refetch after notifications change elsewhere on the page */
+export function notifyNotificationsChanged() {
+    window.dispatchEvent(new Event(CHANGED_EVENT));
+}
+
+export function NotificationBell() {
+    const { toast } = useToast();
+    const [open, setOpen] = React.useState(false);
+
+    const { data: unread, reload: reloadUnread } = useApi<UnreadCount>(
+        '/notifications/status/unread-count'
+    );
+    const {
+        data: notifications,
+        loading,
+        error,
+        reload,
+    } = useApi<AppNotification[], NotificationListMeta>(open ? '/notifications' : null, {
+        per_page: 30,
+        channel: 'app',
+    });
+
+    React.useEffect(() => {
+        const interval = window.setInterval(reloadUnread, POLL_INTERVAL);
+        window.addEventListener(CHANGED_EVENT, reloadUnread);
+        return () => {
+            window.clearInterval(interval);
+            window.removeEventListener(CHANGED_EVENT, reloadUnread);
+        };
+    }, [reloadUnread]);
+
+    const unreadCount = unread?.total_unread ?? 0;
+    const groups = groupNotificationsByType(notifications ?? []);
+    const hasRead = (notifications ?? []).some((n) => n.is_read);
+
+    const refresh = () => {
+        reload();
+        reloadUnread();
+    };
+
+    const runAction = async (action: () => Promise<unknown>, fallback: string) => {
+        try {
+            await action();
+            refresh();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, fallback),
+                variant: 'destructive',
+            });
+        }
+    };
+
+    const handleOpenNotification = async (notification: AppNotification) => {
+        if (!notification.is_read) {
+            await runAction(
+                () => api.put(`/notifications/${notification.id}/read`),
+                'Failed to mark notification as read'
+            );
+        }
+        if (notification.action_url) {
+            setOpen(false);
+            router.visit(notification.action_url);
+        }
+    };
+
+    const handleMarkRead = (type?: NotificationType) =>
+        runAction(
+            () => api.put('/notifications/read-all', type ? { type } : {}),
+            'Failed to mark notifications as read'
+        );
+
+    const handleClearRead = () =>
+        runAction(
+            () => api.delete('/notifications/bulk/delete', { data: { scope: 'read' } }),
+            'Failed to clear notifications'
+        );
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <Button variant="ghost" size="icon" className="relative h-8 w-8">
+                    <BellIcon />
+                    {unreadCount > 0 && (
+                        <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-white">
+                            {unreadCount > 99 ? '99+' : unreadCount}
+                        </span>
+                    )}
+                    <span className="sr-only">Notifications</span>
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-96 p-0">
+                <div className="flex items-center justify-between border-b px-3 py-2">
+                    <div>
+                        <p className="text-sm font-medium">Notifications</p>
+                        <p className="text-xs text-muted-foreground">
+                            {unreadCount > 0 ? `${unreadCount} unread` : 'All caught up'}
+                        </p>
+                    </div>
+                    <div className="flex gap-1">
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleMarkRead()}
+                            disabled={unreadCount === 0}
+                        >
+                            <CheckCheckIcon />
+                            Mark all read
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={handleClearRead}
+                            disabled={!hasRead}
+                        >
+                            <Trash2Icon />
+                            <span className="sr-only">Clear read notifications</span>
+                        </Button>
+                    </div>
+                </div>
+
+                <div className="max-h-[420px] space-y-3 overflow-y-auto p-2">
+                    {error && <p className="p-2 text-sm text-destructive">{error}</p>}
+                    {loading && !notifications ? (
+                        Array.from({ length: 4 }).map((_, index) => (
+                            <Skeleton key={index} className="h-14 w-full" />
+                        ))
+                    ) : groups.length === 0 ? (
+                        <p className="py-8 text-center text-sm text-muted-foreground">
+                            No notifications yet.
+                        </p>
+                    ) : (
+                        groups.map((group) => {
+                            const groupUnread = unread?.by_type[group.value] ?? 0;
+
+                            return (
+                                <div key={group.value} className="space-y-1">
+                                    <div className="flex items-center justify-between px-2">
+                                        <span className="text-xs font-medium uppercase text-muted-foreground">
+                                            {group.label}
+                                            {groupUnread > 0 && ` (${groupUnread})`}
+                                        </span>
+                                        {groupUnread > 0 && (
+                                            <button
+                                                type="button"
+                                                className="text-xs text-primary underline-offset-2 hover:underline"
+                                                onClick={() => handleMarkRead(group.value)}
+                                            >
+                                                Mark read
+                                            </button>
+                                        )}
+                                    </div>
+                                    {group.items.map((notification) => (
+                                        <NotificationItem
+                                            key={notification.id}
+                                            notification={notification}
+                                            onClick={handleOpenNotification}
+                                            compact
+                                        />
+                                    ))}
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+
+                <div className="border-t p-2">
+                    <Button variant="ghost" size="sm" className="w-full" asChild>
+                        <Link href="/notifications" onClick={() => setOpen(false)}>
+                            View all notifications
+                        </Link>
+                    </Button>
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
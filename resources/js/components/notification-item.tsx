@@ -0,0 +1,96 @@
+// resources/js/components/notification-item.tsx
+
+import {
+    BellIcon,
+    CalendarClockIcon,
+    InfoIcon,
+    ReceiptIcon,
+    TargetIcon,
+    TrendingUpIcon,
+    WalletIcon,
+    type LucideIcon,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { AppNotification, NotificationType } from '@/types/notification';
+
+export const notificationTypes: { value: NotificationType; label: string; icon: LucideIcon }[] = [
+    { value: 'budget_alert', label: 'Budget Alerts', icon: TrendingUpIcon },
+    { value: 'bill_reminder', label: 'Bill Reminders', icon: CalendarClockIcon },
+    { value: 'goal_milestone', label: 'Goal Milestones', icon: TargetIcon },
+    { value: 'low_balance', label: 'Low Balance', icon: WalletIcon },
+    { value: 'transaction', label: 'Transactions', icon: ReceiptIcon },
+    { value: 'system', label: 'System', icon: InfoIcon },
+];
+
+export function getNotificationIcon(type: NotificationType): LucideIcon {
+    return notificationTypes.find((t) => t.value === type)?.icon ?? BellIcon;
+}
+
+/** Group notifications by type, keeping the order of `notificationTypes` */
+export function groupNotificationsByType(notifications: AppNotification[]) {
+    return notificationTypes
+        .map((type) => ({
+            ...type,
+            items: notifications.filter((n) => n.type === type.value),
+        }))
+        .filter((group) => group.items.length > 0);
+}
+
+interface NotificationItemProps {
+    notification: AppNotification;
+    onClick?: (notification: AppNotification) => void;
+    compact?: boolean;
+}
+
+export function NotificationItem({ notification, onClick, compact = false }: NotificationItemProps) {
+    const Icon = getNotificationIcon(notification.type);
+
+    return (
+        <button
+            type="button"
+            onClick={() => onClick?.(notification)}
+            className={cn(
+                'flex w-full items-start gap-3 rounded-md p-2 text-left transition-colors hover:bg-muted/60',
+                !notification.is_read && 'bg-muted/40'
+            )}
+        >
+            <span
+                className="mt-0.5 flex h-7 w-7 shrink-0 items-center justify-center rounded-full"
+                style={{ backgroundColor: `${notification.color}1A`, color: notification.color }}
+            >
+                <Icon className="h-3.5 w-3.5" />
+            </span>
+            <span className="min-w-0 flex-1 space-y-0.5">
+                <span className="flex items-center gap-2">
+                    <span
+                        className={cn(
+                            'truncate text-sm',
+                            notification.is_read ? 'text-muted-foreground' : 'font-medium'
+                        )}
+                    >
+                        {notification.title}
+                    </span>
+                    {notification.priority === 'high' && (
+                        <span className="shrink-0 rounded bg-red-600/10 px-1 text-[10px] font-medium uppercase text-red-600">
+                            High
+                        </span>
+                    )}
+                </span>
+                <span
+                    className={cn(
+                        'block text-xs text-muted-foreground',
+                        compact && 'line-clamp-2'
+                    )}
+                >
+                    {notification.message}
+                </span>
+                <span className="block text-[11px] text-muted-foreground">
+                    {notification.created_at_human}
+                </span>
+            </span>
+            {!notification.is_read && (
+                <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />
+            )}
+        </button>
+    );
+}
@@ -0,0 +1,58 @@
+// resources/js/components/progress-ring.tsx
+
+import * as React from 'react';
+import { cn } from '@/lib/utils';
+
+interface ProgressRingProps {
+    /** Progress from 0 to 100; values outside the range are clamped */
+    value: number;
+    size?: number;
+    strokeWidth?: number;
+    color?: string | null;
+    className?: string;
+    children?: React.ReactNode;
+}
+
+export function ProgressRing({
+    value,
+    size = 80,
+    strokeWidth = 8,
+    color,
+    className,
+    children,
+}: ProgressRingProps) {
+    const radius = (size - strokeWidth) / 2;
+    const circumference = 2 * Math.PI * radius;
+    const clamped = Math.min(100, Math.max(0, value));
+
+    return (
+        <div
+            className={cn('relative inline-flex shrink-0 items-center justify-center', className)}
+            style={{ width: size, height: size }}
+        >
+            <svg width={size} height={size} className="-rotate-90">
+                <circle
+                    cx={size / 2}
+                    cy={size / 2}
+                    r={radius}
+                    fill="none"
+                    strokeWidth={strokeWidth}
+                    className="stroke-muted"
+                />
+                <circle
+                    cx={size / 2}
+                    cy={size / 2}
+                    r={radius}
+                    fill="none"
+                    strokeWidth={strokeWidth}
+                    strokeLinecap="round"
+                    stroke={color || 'var(--primary)'}
+                    strokeDasharray={circumference}
+                    strokeDashoffset={circumference * (1 - clamped / 100)}
+                    className="transition-[stroke-dashoffset] duration-500"
+                />
+            </svg>
+            <div className="absolute inset-0 flex items-center justify-center">{children}</div>
+        </div>
+    );
+}
@@ -0,0 +1,92 @@
+// resources/js/components/recent-transactions-card.tsx
+
+import { Link } from '@inertiajs/react';
+import { ArrowRightIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatCurrency, formatDate } from '@/lib/format';
+import type { DashboardSummary } from '@/types/analytics';
+
+interface RecentTransactionsCardProps {
+    transactions: DashboardSummary['recent_transactions'];
+    loading?: boolean;
+}
+
+const amountColors = {
+    income: 'text-green-600',
+    expense: 'text-red-600',
+    transfer: 'text-blue-600',
+};
+
+export function RecentTransactionsCard({
+    transactions,
+    loading = false,
+}: RecentTransactionsCardProps) {
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between">
+                <div className="space-y-1.5">
+                    <CardTitle>Recent Transactions</CardTitle>
+                    <CardDescription>Your latest activity</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                    <Link href="/transactions">
+                        View all <ArrowRightIcon />
+                    </Link>
+                </Button>
+            </CardHeader>
+            <CardContent className="space-y-1">
+                {loading ? (
+                    Array.from({ length: 5 }).map((_, index) => (
+                        <Skeleton key={index} className="h-10 w-full" />
+                    ))
+                ) : transactions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        No transactions yet.
+                    </p>
+                ) : (
+                    transactions.map((transaction) => (
+                        <Link
+                            key={transaction.id}
+                            href={`/transactions/${transaction.id}`}
+                            className="flex items-center justify-between rounded-md px-2 py-2 hover:bg-muted"
+                        >
+                            <div className="flex items-center gap-3">
+                                <span
+                                    className="h-2.5 w-2.5 rounded-full"
+                                    style={{
+                                        backgroundColor:
+                                            transaction.category?.color ?? '#999999',
+                                    }}
+                                />
+                                <div>
+                                    <p className="text-sm font-medium">
+                                        {transaction.description}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {formatDate(transaction.date)} ·{' '}
+                                        {transaction.category?.name ?? 'Uncategorized'} ·{' '}
+                                        {transaction.account.name}
+                                    </p>
+                                </div>
+                            </div>
+                            <span
+                                className={`text-sm font-medium tabular-nums ${amountColors[transaction.type]}`}
+                            >
+                                {transaction.type === 'expense' ? '-' : ''}
+                                {formatCurrency(transaction.amount)}
+                            </span>
+                        </Link>
+                    ))
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,95 @@
+// resources/js/components/save-report-dialog.tsx
+
+import * as React from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2Icon } from 'lucide-react';
+
+interface SaveReportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    defaultName?: string;
+    onSubmit: (name: string) => void;
+    isSubmitting?: boolean;
+}
+
+// Matches the limit accepted by POST /analytics/saved-reports
+const MAX_NAME_LENGTH = 100;
+
+export function SaveReportDialog({
+    open,
+    onOpenChange,
+    defaultName = '',
+    onSubmit,
+    isSubmitting = false,
+}: SaveReportDialogProps) {
+    const [name, setName] = React.useState(defaultName);
+
+    React.useEffect(() => {
+        if (open) {
+            setName(defaultName);
+        }
+    }, [open, defaultName]);
+
+    const isValid = name.trim() !== '' && name.trim().length <= MAX_NAME_LENGTH;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <form
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        if (isValid) {
+                            onSubmit(name.trim());
+                        }
+                    }}
+                    className="space-y-4"
+                >
+                    <DialogHeader>
+                        <DialogTitle>Save Report</DialogTitle>
+                        <DialogDescription>
+                            Preset date ranges such as "Last month" are saved as-is, so the
+                            report covers the latest period every time you run it.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="report_name">Name</Label>
+                        <Input
+                            id="report_name"
+                            value={name}
+                            maxLength={MAX_NAME_LENGTH}
+                            placeholder="e.g. Monthly spending by category"
+                            onChange={(e) => setName(e.target.value)}
+                            autoFocus
+                        />
+                    </div>
+
+                    <DialogFooter>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={!isValid || isSubmitting}>
+                            {isSubmitting && <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />}
+                            Save Report
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -1,4 +1,5 @@
-import { TrendingDownIcon, TrendingUpIcon } from "lucide-react"
+import { Link } from "@inertiajs/react"
+import { ArrowRightIcon, TrendingDownIcon, TrendingUpIcon } from "lucide-react"
 
 import { Badge } from "@/components/ui/badge"
 import {
@@ -8,94 +9,169 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { formatCurrency, formatPercent, toNumber } from "@/lib/format"
+import type { DashboardSummary } from "@/types/analytics"
+
+interface SectionCardsProps {
+  current: DashboardSummary | null
+  previous: DashboardSummary | null
+  loading?: boolean
+}
+
+interface OverviewCard {
+  label: string
+  value: string
+  change: number | null
+  changeLabel: string
+  // Whether a rising value is good news (expenses are not)
+  upIsGood: boolean
+  description: string
+  href?: string
+  linkLabel?: string
+}
+
+function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) {
+    return null
+  }
+  return ((current - previous) / Math.abs(previous)) * 100
+}
+
+function transactionsUrl(summary: DashboardSummary, type?: string) {
+  const params = new URLSearchParams({
+    start_date: summary.date_range.start.slice(0, 10),
+    end_date: summary.date_range.end.slice(0, 10),
+  })
+  if (type) {
+    params.set("type", type)
+  }
+  return `/transactions?${params.toString()}`
+}
+
+function buildCards(
+  current: DashboardSummary,
+  previous: DashboardSummary | null
+): OverviewCard[] {
+  const now = current.financial_summary
+  const before = previous?.financial_summary
+
+  const income = toNumber(now.income)
+  const expenses = toNumber(now.expenses)
+
+  return [
+    {
+      label: "Net Worth",
+      value: formatCurrency(now.net_worth),
+      change: null,
+      changeLabel: "",
+      upIsGood: true,
+      description: `${formatCurrency(now.total_balance)} in accounts, ${formatCurrency(now.total_debt)} in debt`,
+      href: "/accounts",
+      linkLabel: "View accounts",
+    },
+    {
+      label: "Income This Month",
+      value: formatCurrency(income),
+      change: before ? percentChange(income, toNumber(before.income)) : null,
+      changeLabel: "vs last month",
+      upIsGood: true,
+      description: `${formatCurrency(now.savings)} left after expenses`,
+      href: transactionsUrl(current, "income"),
+      linkLabel: "View income",
+    },
+    {
+      label: "Expenses This Month",
+      value: formatCurrency(expenses),
+      change: before ? percentChange(expenses, toNumber(before.expenses)) : null,
+      changeLabel: "vs last month",
+      upIsGood: false,
+      description:
+        income > 0
+          ? `${formatPercent((expenses / income) * 100)} of this month's income`
+          : "No income recorded this month",
+      href: transactionsUrl(current, "expense"),
+      linkLabel: "View expenses",
+    },
+    {
+      label: "Savings Rate",
+      value: formatPercent(now.savings_rate),
+      // Savings rate is already a percentage, so compare it in points
+      change: before ? now.savings_rate - before.savings_rate : null,
+      changeLabel: "pts vs last month",
+      upIsGood: true,
+      description: "Share of income kept after expenses",
+      href: transactionsUrl(current),
+      linkLabel: "View transactions",
+    },
+  ]
+}
+
+export function SectionCards({ current, previous, loading = false }: SectionCardsProps) {
+  const cards = current ? buildCards(current, previous) : []
 
-export function SectionCards() {
   return (
     <div className="*:data-[slot=card]:shadow-xs @xl/main:grid-cols-2 @5xl/main:grid-cols-4 grid grid-cols-1 gap-4 px-4 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card lg:px-6">
-      <Card className="@container/card">
-        <CardHeader className="relative">
-          <CardDescription>Total Revenue</CardDescription>
-          <CardTitle className="@[250px]/card:text-3xl text-2xl font-semibold tabular-nums">
-            $1,250.00
-          </CardTitle>
-          <div className="absolute right-4 top-4">
-            <Badge variant="outline" className="flex gap-1 rounded-lg text-xs">
-              <TrendingUpIcon className="size-3" />
-              +12.5%
-            </Badge>
-          </div>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Trending up this month <TrendingUpIcon className="size-4" />
-          </div>
-          <div className="text-muted-foreground">
-            Visitors for the last 6 months
-          </div>
-        </CardFooter>
-      </Card>
-      <Card className="@container/card">
-        <CardHeader className="relative">
-          <CardDescription>New Customers</CardDescription>
-          <CardTitle className="@[250px]/card:text-3xl text-2xl font-semibold tabular-nums">
-            1,234
-          </CardTitle>
-          <div className="absolute right-4 top-4">
-            <Badge variant="outline" className="flex gap-1 rounded-lg text-xs">
-              <TrendingDownIcon className="size-3" />
-              -20%
-            </Badge>
-          </div>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Down 20% this period <TrendingDownIcon className="size-4" />
-          </div>
-          <div className="text-muted-foreground">
-            Acquisition needs attention
-          </div>
-        </CardFooter>
-      </Card>
-      <Card className="@container/card">
-        <CardHeader className="relative">
-          <CardDescription>Active Accounts</CardDescription>
-          <CardTitle className="@[250px]/card:text-3xl text-2xl font-semibold tabular-nums">
-            45,678
-          </CardTitle>
-          <div className="absolute right-4 top-4">
-            <Badge variant="outline" className="flex gap-1 rounded-lg text-xs">
-              <TrendingUpIcon className="size-3" />
-              +12.5%
-            </Badge>
-          </div>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Strong user retention <TrendingUpIcon className="size-4" />
-          </div>
-          <div className="text-muted-foreground">Engagement exceed targets</div>
-        </CardFooter>
-      </Card>
-      <Card className="@container/card">
-        <CardHeader className="relative">
-          <CardDescription>Growth Rate</CardDescription>
-          <CardTitle className="@[250px]/card:text-3xl text-2xl font-semibold tabular-nums">
-            4.5%
-          </CardTitle>
-          <div className="absolute right-4 top-4">
-            <Badge variant="outline" className="flex gap-1 rounded-lg text-xs">
-              <TrendingUpIcon className="size-3" />
-              +4.5%
-            </Badge>
-          </div>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Steady performance <TrendingUpIcon className="size-4" />
-          </div>
-          <div className="text-muted-foreground">Meets growth projections</div>
-        </CardFooter>
-      </Card>
+      {loading || !current
+        ? Array.from({ length: 4 }).map((_, index) => (
+            <Card key={index} className="@container/card">
+              <CardHeader className="relative">
+                <Skeleton className="h-4 w-24" />
+                <Skeleton className="h-8 w-36" />
+              </CardHeader>
+              <CardFooter className="flex-col items-start gap-1 text-sm">
+                <Skeleton className="h-4 w-40" />
+              </CardFooter>
+            </Card>
+          ))
+        : cards.map((card) => {
+            const isUp = card.change !== null && card.change >= 0
+            const isGood = isUp === card.upIsGood
+
+            return (
+              <Card key={card.label} className="@container/card">
+                <CardHeader className="relative">
+                  <CardDescription>{card.label}</CardDescription>
+                  <CardTitle className="@[250px]/card:text-3xl text-2xl font-semibold tabular-nums">
+                    {card.value}
+                  </CardTitle>
+                  {card.change !== null && (
+                    <div className="absolute right-4 top-4">
+                      <Badge
+                        variant="outline"
+                        className={`flex gap-1 rounded-lg text-xs ${
+                          isGood ? "text-green-600" : "text-red-600"
+                        }`}
+                        title={card.changeLabel}
+                      >
+                        {isUp ? (
+                          <TrendingUpIcon className="size-3" />
+                        ) : (
+                          <TrendingDownIcon className="size-3" />
+                        )}
+                        {isUp ? "+" : ""}
+                        {card.change.toFixed(1)}
+                        {card.changeLabel.startsWith("pts") ? " pts" : "%"}
+                      </Badge>
+                    </div>
+                  )}
+                </CardHeader>
+                <CardFooter className="flex-col items-start gap-1 text-sm">
+                  <div className="text-muted-foreground line-clamp-1">
+                    {card.description}
+                  </div>
+                  {card.href && (
+                    <Link
+                      href={card.href}
+                      className="flex items-center gap-1 font-medium hover:underline"
+                    >
+                      {card.linkLabel} <ArrowRightIcon className="size-4" />
+                    </Link>
+                  )}
+                </CardFooter>
+              </Card>
+            )
+          })}
     </div>
   )
 }
@@ -1,7 +1,14 @@
+import { usePage } from "@inertiajs/react"
+
+import { NotificationBell } from "@/components/notification-bell"
 import { Separator } from "@/components/ui/separator"
 import { SidebarTrigger } from "@/components/ui/sidebar"
 
-export function SiteHeader() {
+export function SiteHeader({ title }: { title?: string }) {
+  const { component } = usePage()
+  // "Accounts/Show" -> "Accounts"
+  const heading = title ?? component.split("/")[0]
+
   return (
     <header className="group-has-data-[collapsible=icon]/sidebar-wrapper:h-12 flex h-12 shrink-0 items-center gap-2 border-b transition-[width,height] ease-linear">
       <div className="flex w-full items-center gap-1 px-4 lg:gap-2 lg:px-6">
@@ -10,7 +17,10 @@ export function SiteHeader() {
           orientation="vertical"
           className="mx-2 data-[orientation=vertical]:h-4"
         />
-        <h1 className="text-base font-medium">Documents</h1>
+        <h1 className="text-base font-medium">{heading}</h1>
+        <div className="ml-auto flex items-center gap-2">
+          <NotificationBell />
+        </div>
       </div>
     </header>
   )
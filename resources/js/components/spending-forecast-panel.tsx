@@ -0,0 +1,332 @@
+// resources/js/components/spending-forecast-panel.tsx
+
+import * as React from 'react';
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { AlertTriangleIcon, InfoIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import {
+    type ChartConfig,
+    ChartContainer,
+    ChartLegend,
+    ChartLegendContent,
+    ChartTooltip,
+    ChartTooltipContent,
+} from '@/components/ui/chart';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useApi } from '@/hooks/use-api';
+import { formatCurrency, formatDate, formatPercent } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import type { BudgetForecast, SpendingVelocity } from '@/types/budget';
+
+const chartConfig = {
+    actual: {
+        label: 'Spent',
+        color: 'var(--chart-1)',
+    },
+    projected: {
+        label: 'Projected',
+        color: 'var(--chart-3)',
+    },
+    band: {
+        label: 'Likely range',
+        color: 'var(--chart-3)',
+    },
+} satisfies ChartConfig;
+
+const forecastStatus: Record<BudgetForecast['status'], { label: string; bar: string; badge: string }> = {
+    on_track: {
+        label: 'On track',
+        bar: 'bg-green-600',
+        badge: 'text-green-600 border-green-600/40',
+    },
+    at_risk: {
+        label: 'On pace to overrun',
+        bar: 'bg-amber-500',
+        badge: 'text-amber-600 border-amber-500/40',
+    },
+    exceeded: {
+        label: 'Exceeded',
+        bar: 'bg-red-600',
+        badge: 'text-red-600 border-red-600/40',
+    },
+};
+
+// Keep in sync with BudgetService::FORECAST_WARNING_DAY
+const WARNING_DAY = 10;
+
+/**
+ * Month-end spending forecast for the monthly budgets, with overrun warnings.
+ */
+export function SpendingForecastPanel() {
+    const { data: forecast, loading, error } = useApi<SpendingVelocity>(
+        '/budgets/analytics/spending-velocity',
+        { period: 'monthly' }
+    );
+
+    if (loading && !forecast) {
+        return (
+            <Card>
+                <CardHeader>
+                    <Skeleton className="h-6 w-48" />
+                    <Skeleton className="h-4 w-72" />
+                </CardHeader>
+                <CardContent>
+                    <Skeleton className="h-[260px] w-full" />
+                </CardContent>
+            </Card>
+        );
+    }
+
+    if (error || !forecast) {
+        return <p className="text-sm text-destructive">{error}</p>;
+    }
+
+    const { overall, period } = forecast;
+    const chartData = forecast.daily.map((point) => ({
+        label: formatDate(point.date, 'MMM d'),
+        actual: point.actual,
+        projected: point.projected,
+        band:
+            point.low !== null && point.high !== null
+                ? ([point.low, point.high] as [number, number])
+                : null,
+    }));
+    const atRiskCount = forecast.budgets.filter((budget) => budget.status === 'at_risk').length;
+    const remaining = overall.total_budget - overall.projected;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>End-of-Month Forecast</CardTitle>
+                <CardDescription>
+                    Day {period.days_passed} of {period.total_days} • based on your spending pace
+                    so far and {forecast.upcoming_recurring.length} recurring{' '}
+                    {forecast.upcoming_recurring.length === 1 ? 'expense' : 'expenses'} still due
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                {forecast.warnings.length > 0 && (
+                    <div className="space-y-2">
+                        {forecast.warnings.map((warning) => (
+                            <div
+                                key={warning.budget_id}
+                                className={cn(
+                                    'flex items-start gap-3 rounded-lg border p-3 text-sm',
+                                    warning.status === 'exceeded'
+                                        ? 'border-red-600/40 bg-red-500/5'
+                                        : 'border-amber-500/40 bg-amber-500/5'
+                                )}
+                            >
+                                <AlertTriangleIcon
+                                    className={cn(
+                                        'mt-0.5 h-4 w-4 shrink-0',
+                                        warning.status === 'exceeded' ? 'text-red-600' : 'text-amber-600'
+                                    )}
+                                />
+                                <span>{warning.message}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {!forecast.warnings_active && atRiskCount > 0 && (
+                    <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <InfoIcon className="h-3.5 w-3.5" />
+                        {atRiskCount} {atRiskCount === 1 ? 'budget is' : 'budgets are'} trending
+                        high. Warnings start on day {WARNING_DAY}, once the pace is reliable.
+                    </p>
+                )}
+
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                    <Stat label="Spent so far" value={formatCurrency(overall.spent)}>
+                        {formatCurrency(overall.daily_average)} a day on average
+                    </Stat>
+                    <Stat label="Projected" value={formatCurrency(overall.projected)}>
+                        {formatCurrency(overall.projected_low)} – {formatCurrency(overall.projected_high)}{' '}
+                        ({forecast.confidence_level}% range)
+                    </Stat>
+                    <Stat label="Budgeted" value={formatCurrency(overall.total_budget)}>
+                        {overall.total_budget <= 0 ? (
+                            'No monthly budgets'
+                        ) : (
+                            <span className={remaining < 0 ? 'text-red-600' : undefined}>
+                                {remaining < 0
+                                    ? `${formatCurrency(Math.abs(remaining))} over at this pace`
+                                    : `${formatCurrency(remaining)} to spare at this pace`}
+                            </span>
+                        )}
+                    </Stat>
+                    <Stat label="Recurring still due" value={formatCurrency(overall.upcoming_recurring)}>
+                        {period.days_remaining} {period.days_remaining === 1 ? 'day' : 'days'} left
+                    </Stat>
+                </div>
+
+                <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+                    <ComposedChart data={chartData}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis
+                            dataKey="label"
+                            tickLine={false}
+                            axisLine={false}
+                            tickMargin={8}
+                            minTickGap={24}
+                        />
+                        <YAxis
+                            tickLine={false}
+                            axisLine={false}
+                            width={80}
+                            tickFormatter={(value) =>
+                                new Intl.NumberFormat('en-PH', {
+                                    notation: 'compact',
+                                }).format(value)
+                            }
+                        />
+                        <ChartTooltip
+                            cursor={false}
+                            content={
+                                <ChartTooltipContent
+                                    indicator="dot"
+                                    formatter={(value, name) => (
+                                        <div className="flex w-full items-center justify-between gap-4">
+                                            <span className="text-muted-foreground">
+                                                {chartConfig[name as keyof typeof chartConfig]?.label ?? name}
+                                            </span>
+                                            <span className="font-mono font-medium tabular-nums">
+                                                {Array.isArray(value)
+                                                    ? `${formatCurrency(value[0] as number)} – ${formatCurrency(value[1] as number)}`
+                                                    : formatCurrency(value as number)}
+                                            </span>
+                                        </div>
+                                    )}
+                                />
+                            }
+                        />
+                        {overall.total_budget > 0 && (
+                            <ReferenceLine
+                                y={overall.total_budget}
+                                stroke="var(--muted-foreground)"
+                                strokeDasharray="2 4"
+                                label={{
+                                    value: 'Budget',
+                                    position: 'insideTopLeft',
+                                    fill: 'var(--muted-foreground)',
+                                    fontSize: 12,
+                                }}
+                            />
+                        )}
+                        <Area
+                            dataKey="band"
+                            type="monotone"
+                            fill="var(--color-band)"
+                            fillOpacity={0.15}
+                            stroke="none"
+                        />
+                        <Line
+                            dataKey="actual"
+                            type="monotone"
+                            stroke="var(--color-actual)"
+                            strokeWidth={2}
+                            dot={false}
+                        />
+                        <Line
+                            dataKey="projected"
+                            type="monotone"
+                            stroke="var(--color-projected)"
+                            strokeDasharray="4 4"
+                            strokeWidth={2}
+                            dot={false}
+                        />
+                        <ChartLegend content={<ChartLegendContent />} />
+                    </ComposedChart>
+                </ChartContainer>
+
+                {forecast.budgets.length > 0 ? (
+                    <div className="space-y-4">
+                        {forecast.budgets.map((budget) => (
+                            <BudgetForecastRow key={budget.budget_id} budget={budget} />
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-center text-sm text-muted-foreground">
+                        Add monthly budgets to see a forecast per category.
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+interface StatProps {
+    label: string;
+    value: string;
+    children: React.ReactNode;
+}
+
+function Stat({ label, value, children }: StatProps) {
+    return (
+        <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">{label}</p>
+            <p className="text-2xl font-bold tabular-nums">{value}</p>
+            <p className="text-xs text-muted-foreground">{children}</p>
+        </div>
+    );
+}
+
+/**
+ * Spent so far in solid, the rest of the projection faded, with the
+ * budget limit at 100%.
+ */
+function BudgetForecastRow({ budget }: { budget: BudgetForecast }) {
+    const status = forecastStatus[budget.status];
+    // Leave room past the limit so overruns stay visible
+    const scale = Math.max(100, budget.projected_percentage);
+    const spentPercentage = budget.amount > 0 ? (budget.spent / budget.amount) * 100 : 0;
+
+    return (
+        <div className="space-y-1.5">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <span className="flex items-center gap-2 font-medium">
+                    <span
+                        className="h-2.5 w-2.5 shrink-0 rounded-full"
+                        style={{ backgroundColor: budget.category_color ?? '#999999' }}
+                    />
+                    {budget.category}
+                </span>
+                <span className="flex items-center gap-2 tabular-nums text-muted-foreground">
+                    {formatCurrency(budget.spent)} → {formatCurrency(budget.projected)} of{' '}
+                    {formatCurrency(budget.amount)}
+                    <Badge variant="outline" className={status.badge}>
+                        {status.label}
+                    </Badge>
+                </span>
+            </div>
+            <div className="relative h-2 w-full overflow-hidden rounded-full bg-muted">
+                <div
+                    className={cn('absolute inset-y-0 left-0 opacity-35', status.bar)}
+                    style={{ width: `${(budget.projected_percentage / scale) * 100}%` }}
+                />
+                <div
+                    className={cn('absolute inset-y-0 left-0', status.bar)}
+                    style={{ width: `${(Math.min(spentPercentage, scale) / scale) * 100}%` }}
+                />
+                {scale > 100 && (
+                    <div
+                        className="absolute inset-y-0 w-0.5 bg-foreground/60"
+                        style={{ left: `${(100 / scale) * 100}%` }}
+                    />
+                )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+                Projected {formatPercent(budget.projected_percentage, 0)} of budget
+                {budget.upcoming_recurring > 0 &&
+                    `, including ${formatCurrency(budget.upcoming_recurring)} in recurring expenses`}
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,515 @@
+// resources/js/components/transfer-dialog.tsx
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangleIcon, ArrowRightIcon, Loader2Icon } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { api, getApiErrorMessage, type ApiResponse } from '@/lib/api';
+import { formatCurrency, toDateString, toNumber } from '@/lib/format';
+import type { Account } from '@/types/account';
+
+const transferFormSchema = z
+    .object({
+        from_account_id: z.number().min(1, 'Source account is required'),
+        to_account_id: z.number().min(1, 'Destination account is required'),
+        amount: z
+            .number({ error: 'Amount must be a number' })
+            .min(0.01, 'Amount must be at least 0.01'),
+        date: z.string().min(1, 'Date is required'),
+        description: z.string().min(1, 'Description is required').max(255),
+        notes: z.string().max(1000).optional().nullable(),
+    })
+    .refine((data) => data.from_account_id !== data.to_account_id, {
+        message: 'Choose a different destination account',
+        path: ['to_account_id'],
+    });
+
+type TransferFormData = z.infer<typeof transferFormSchema>;
+
+interface ConversionQuote {
+    converted: { amount: number; currency: string };
+    rate: number;
+}
+
+interface TransferDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    accounts: Account[];
+    defaultFromAccountId?: number | null;
+    onTransferred?: () => void;
+}
+
+/**
+ * Mirror AccountService::updateAccountBalanceForTransfer: credit card
+ * balances track debt, so money leaving one increases its balance.
+ */
+function balanceAfter(account: Account, amount: number, direction: 'outgoing' | 'incoming') {
+    const balance = toNumber(account.balance);
+    const sign = direction === 'outgoing' ? -1 : 1;
+
+    return account.type === 'credit_card' ? balance - sign * amount : balance + sign * amount;
+}
+
+function availableCredit(account: Account): number {
+    return toNumber(account.credit_limit) - Math.abs(toNumber(account.balance));
+}
+
+export function TransferDialog({
+    open,
+    onOpenChange,
+    accounts,
+    defaultFromAccountId,
+    onTransferred,
+}: TransferDialogProps) {
+    const { toast } = useToast();
+    const [step, setStep] = React.useState<'details' | 'review'>('details');
+    const [quote, setQuote] = React.useState<ConversionQuote | null>(null);
+    const [quoteError, setQuoteError] = React.useState<string | null>(null);
+    const [quoting, setQuoting] = React.useState(false);
+    const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+    const activeAccounts = accounts.filter((a) => a.is_active);
+
+    const {
+        register,
+        handleSubmit,
+        setValue,
+        watch,
+        reset,
+        formState: { errors },
+    } = useForm<TransferFormData>({
+        resolver: zodResolver(transferFormSchema),
+    });
+
+    const fromAccountId = watch('from_account_id');
+    const toAccountId = watch('to_account_id');
+    const amount = toNumber(watch('amount'));
+    const date = watch('date');
+
+    const fromAccount = activeAccounts.find((a) => a.id === fromAccountId) ?? null;
+    const toAccount = activeAccounts.find((a) => a.id === toAccountId) ?? null;
+    const crossCurrency =
+        !!fromAccount && !!toAccount && fromAccount.currency !== toAccount.currency;
+    const receivedAmount = crossCurrency ? quote?.converted.amount ?? null : amount;
+
+    const initialFromAccountId = defaultFromAccountId ?? activeAccounts[0]?.id ?? 0;
+
+    // Reset the wizard whenever it is opened
+    React.useEffect(() => {
+        if (open) {
+            reset({
+                from_account_id: initialFromAccountId,
+                to_account_id: 0,
+                amount: undefined,
+                date: toDateString(new Date()),
+                description: 'Transfer',
+                notes: '',
+            });
+            setStep('details');
+            setQuote(null);
+            setQuoteError(null);
+        }
+    }, [open, initialFromAccountId, reset]);
+
+    // Quote a converted amount when the accounts use different currencies
+    React.useEffect(() => {
+        setQuote(null);
+        setQuoteError(null);
+
+        if (!crossCurrency || !fromAccount || !toAccount || amount <= 0) {
+            return;
+        }
+
+        let cancelled = false;
+        setQuoting(true);
+        const timeout = window.setTimeout(() => {
+            api.post<ApiResponse<ConversionQuote>>('/currencies/convert', {
+                amount,
+                from_currency: fromAccount.currency,
+                to_currency: toAccount.currency,
+                date,
+            })
+                .then(({ data }) => {
+                    if (!cancelled) setQuote(data.data);
+                })
+                .catch((err) => {
+                    if (!cancelled) {
+                        setQuoteError(
+                            getApiErrorMessage(err, 'Could not get an exchange rate')
+                        );
+                    }
+                })
+                .finally(() => {
+                    if (!cancelled) setQuoting(false);
+                });
+        }, 400);
+
+        return () => {
+            cancelled = true;
+            window.clearTimeout(timeout);
+        };
+    }, [crossCurrency, fromAccount?.currency, toAccount?.currency, amount, date]);
+
+    // Same checks as TransferRequest, surfaced before submitting
+    const warnings: string[] = [];
+    if (fromAccount && amount > 0) {
+        if (fromAccount.type === 'credit_card') {
+            if (amount > availableCredit(fromAccount)) {
+                warnings.push(
+                    `Exceeds the available credit on ${fromAccount.name} (${formatCurrency(
+                        availableCredit(fromAccount),
+                        fromAccount.currency
+                    )}).`
+                );
+            }
+        } else if (amount > toNumber(fromAccount.balance)) {
+            warnings.push(
+                `Exceeds the available balance of ${fromAccount.name} (${formatCurrency(
+                    fromAccount.balance,
+                    fromAccount.currency
+                )}).`
+            );
+        }
+    }
+    if (toAccount?.type === 'credit_card' && receivedAmount !== null && receivedAmount > 0) {
+        if (receivedAmount > availableCredit(toAccount)) {
+            warnings.push(
+                `Exceeds the credit limit headroom on ${toAccount.name} (${formatCurrency(
+                    availableCredit(toAccount),
+                    toAccount.currency
+                )}).`
+            );
+        }
+    }
+    if (quoteError) {
+        warnings.push(quoteError);
+    }
+
+    const canReview =
+        warnings.length === 0 && !quoting && (!crossCurrency || quote !== null);
+
+    const onReview = () => {
+        if (canReview) {
+            setStep('review');
+        }
+    };
+
+    const onConfirm = async (data: TransferFormData) => {
+        setIsSubmitting(true);
+        try {
+            await api.post('/accounts/transfer', data);
+            toast({
+                title: 'Success',
+                description: 'Transfer completed successfully',
+            });
+            onOpenChange(false);
+            onTransferred?.();
+        } catch (err) {
+            toast({
+                title: 'Error',
+                description: getApiErrorMessage(err, 'Transfer failed'),
+                variant: 'destructive',
+            });
+            setStep('details');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>
+                        {step === 'details' ? 'Transfer Money' : 'Review Transfer'}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {step === 'details'
+                            ? 'Move money between your accounts. Fields with * are required.'
+                            : 'Check the resulting balances before confirming.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {step === 'details' ? (
+                    <form onSubmit={handleSubmit(onReview)} className="space-y-4">
+                        {/* From and To Row */}
+                        <div className="grid grid-cols-[1fr_auto_1fr] items-end gap-2">
+                            <div className="space-y-2">
+                                <Label>
+                                    From <span className="text-destructive">*</span>
+                                </Label>
+                                <Select
+                                    value={fromAccountId ? String(fromAccountId) : ''}
+                                    onValueChange={(value) =>
+                                        setValue('from_account_id', Number(value))
+                                    }
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Select account" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {activeAccounts.map((account) => (
+                                            <SelectItem key={account.id} value={String(account.id)}>
+                                                {account.name} ({account.currency})
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <ArrowRightIcon className="mb-2.5 h-4 w-4 text-muted-foreground" />
+                            <div className="space-y-2">
+                                <Label>
+                                    To <span className="text-destructive">*</span>
+                                </Label>
+                                <Select
+                                    value={toAccountId ? String(toAccountId) : ''}
+                                    onValueChange={(value) =>
+                                        setValue('to_account_id', Number(value))
+                                    }
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Select account" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {activeAccounts
+                                            .filter((a) => a.id !== fromAccountId)
+                                            .map((account) => (
+                                                <SelectItem
+                                                    key={account.id}
+                                                    value={String(account.id)}
+                                                >
+                                                    {account.name} ({account.currency})
+                                                </SelectItem>
+                                            ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                        {(errors.from_account_id || errors.to_account_id) && (
+                            <p className="text-sm text-destructive">
+                                {errors.from_account_id?.message ??
+                                    errors.to_account_id?.message}
+                            </p>
+                        )}
+
+                        {/* Amount and Date Row */}
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="transfer_amount">
+                                    Amount{fromAccount ? ` (${fromAccount.currency})` : ''}{' '}
+                                    <span className="text-destructive">*</span>
+                                </Label>
+                                <Input
+                                    id="transfer_amount"
+                                    type="number"
+                                    step="0.01"
+                                    placeholder="0.00"
+                                    {...register('amount', { valueAsNumber: true })}
+                                    aria-invalid={!!errors.amount}
+                                />
+                                {errors.amount && (
+                                    <p className="text-sm text-destructive">
+                                        {errors.amount.message}
+                                    </p>
+                                )}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="transfer_date">
+                                    Date <span className="text-destructive">*</span>
+                                </Label>
+                                <Input
+                                    id="transfer_date"
+                                    type="date"
+                                    max={toDateString(new Date())}
+                                    {...register('date')}
+                                    aria-invalid={!!errors.date}
+                                />
+                                {errors.date && (
+                                    <p className="text-sm text-destructive">
+                                        {errors.date.message}
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+
+                        {/* Converted amount quote */}
+                        {crossCurrency && amount > 0 && (
+                            <div className="rounded-lg border p-3 text-sm">
+                                {quoting ? (
+                                    <span className="flex items-center gap-2 text-muted-foreground">
+                                        <Loader2Icon className="h-4 w-4 animate-spin" />
+                                        Getting exchange rate...
+                                    </span>
+                                ) : quote ? (
+                                    <>
+                                        {toAccount?.name} receives{' '}
+                                        <span className="font-semibold">
+                                            {formatCurrency(
+                                                quote.converted.amount,
+                                                quote.converted.currency
+                                            )}
+                                        </span>
+                                        <span className="text-muted-foreground">
+                                            {' '}
+                                            at 1 {fromAccount?.currency} ={' '}
+                                            {toNumber(quote.rate).toFixed(4)} {toAccount?.currency}
+                                        </span>
+                                    </>
+                                ) : null}
+                            </div>
+                        )}
+
+                        <div className="space-y-2">
+                            <Label htmlFor="transfer_description">
+                                Description <span className="text-destructive">*</span>
+                            </Label>
+                            <Input
+                                id="transfer_description"
+                                {...register('description')}
+                                aria-invalid={!!errors.description}
+                            />
+                            {errors.description && (
+                                <p className="text-sm text-destructive">
+                                    {errors.description.message}
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="transfer_notes">Notes</Label>
+                            <Textarea
+                                id="transfer_notes"
+                                placeholder="Additional notes..."
+                                rows={2}
+                                {...register('notes')}
+                            />
+                        </div>
+
+                        {warnings.length > 0 && (
+                            <div className="space-y-1 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+                                {warnings.map((warning) => (
+                                    <p key={warning} className="flex items-start gap-2">
+                                        <AlertTriangleIcon className="mt-0.5 h-4 w-4 shrink-0" />
+                                        {warning}
+                                    </p>
+                                ))}
+                            </div>
+                        )}
+
+                        <DialogFooter className="gap-2 sm:gap-0">
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={() => onOpenChange(false)}
+                            >
+                                Cancel
+                            </Button>
+                            <Button type="submit" disabled={!canReview}>
+                                Review Transfer
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                ) : (
+                    <div className="space-y-4">
+                        {fromAccount && toAccount && (
+                            <div className="grid grid-cols-2 gap-4">
+                                <BalancePreview
+                                    label="From"
+                                    account={fromAccount}
+                                    change={-amount}
+                                    after={balanceAfter(fromAccount, amount, 'outgoing')}
+                                />
+                                <BalancePreview
+                                    label="To"
+                                    account={toAccount}
+                                    change={receivedAmount ?? 0}
+                                    after={balanceAfter(toAccount, receivedAmount ?? 0, 'incoming')}
+                                />
+                            </div>
+                        )}
+                        <p className="text-sm text-muted-foreground">
+                            {watch('description')} on {date}
+                        </p>
+
+                        <DialogFooter className="gap-2 sm:gap-0">
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={() => setStep('details')}
+                                disabled={isSubmitting}
+                            >
+                                Back
+                            </Button>
+                            <Button
+                                type="button"
+                                onClick={handleSubmit(onConfirm)}
+                                disabled={isSubmitting}
+                            >
+                                {isSubmitting && (
+                                    <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+                                )}
+                                Confirm Transfer
+                            </Button>
+                        </DialogFooter>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+interface BalancePreviewProps {
+    label: string;
+    account: Account;
+    change: number;
+    after: number;
+}
+
+function BalancePreview({ label, account, change, after }: BalancePreviewProps) {
+    return (
+        <div className="space-y-2 rounded-lg border p-3 text-sm">
+            <p className="text-xs uppercase text-muted-foreground">{label}</p>
+            <p className="font-semibold">{account.name}</p>
+            <div className="flex justify-between">
+                <span className="text-muted-foreground">Before</span>
+                <span className="tabular-nums">
+                    {formatCurrency(account.balance, account.currency)}
+                </span>
+            </div>
+            <div className="flex justify-between">
+                <span className="text-muted-foreground">Change</span>
+                <span
+                    className={`tabular-nums ${change < 0 ? 'text-red-600' : 'text-green-600'}`}
+                >
+                    {change > 0 ? '+' : ''}
+                    {formatCurrency(change, account.currency)}
+                </span>
+            </div>
+            <div className="flex justify-between border-t pt-2 font-medium">
+                <span>After</span>
+                <span className="tabular-nums">{formatCurrency(after, account.currency)}</span>
+            </div>
+        </div>
+    );
+}
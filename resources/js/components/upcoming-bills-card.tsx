@@ -0,0 +1,110 @@
+// resources/js/components/upcoming-bills-card.tsx
+
+import { Link } from '@inertiajs/react';
+import { differenceInCalendarDays } from 'date-fns';
+import { ArrowRightIcon, CalendarClockIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useApi } from '@/hooks/use-api';
+import { formatCurrency, formatDate } from '@/lib/format';
+import type { Bill } from '@/types/bill';
+
+interface UpcomingBillsCardProps {
+    days?: number;
+    limit?: number;
+}
+
+function dueLabel(dueDate: string): { label: string; overdue: boolean } {
+    const days = differenceInCalendarDays(new Date(dueDate), new Date());
+
+    if (days < 0) {
+        return { label: `${Math.abs(days)}d overdue`, overdue: true };
+    }
+    if (days === 0) {
+        return { label: 'Due today', overdue: false };
+    }
+    return { label: `Due in ${days}d`, overdue: false };
+}
+
+export function UpcomingBillsCard({ days = 14, limit = 5 }: UpcomingBillsCardProps) {
+    const { data: bills, meta, loading, error } = useApi<
+        Bill[],
+        { days_ahead: number; count: number; total_amount: number | string }
+    >('/bills/status/upcoming', { days, limit });
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between">
+                <div className="space-y-1.5">
+                    <CardTitle>Upcoming Bills</CardTitle>
+                    <CardDescription>
+                        {meta
+                            ? `${meta.count} due in the next ${days} days, ${formatCurrency(
+                                  meta.total_amount
+                              )} total`
+                            : `Bills due in the next ${days} days`}
+                    </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                    <Link href="/bills">
+                        View all <ArrowRightIcon />
+                    </Link>
+                </Button>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {loading ? (
+                    Array.from({ length: 3 }).map((_, index) => (
+                        <Skeleton key={index} className="h-10 w-full" />
+                    ))
+                ) : error ? (
+                    <p className="text-sm text-destructive">{error}</p>
+                ) : !bills || bills.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        Nothing due soon.
+                    </p>
+                ) : (
+                    bills.map((bill) => {
+                        const due = dueLabel(bill.due_date);
+
+                        return (
+                            <div
+                                key={bill.id}
+                                className="flex items-center justify-between gap-2"
+                            >
+                                <div className="flex items-center gap-3">
+                                    <CalendarClockIcon className="h-4 w-4 text-muted-foreground" />
+                                    <div>
+                                        <p className="text-sm font-medium">
+                                            {bill.name}
+                                        </p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {formatDate(bill.due_date)}
+                                        </p>
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Badge
+                                        variant={due.overdue ? 'destructive' : 'outline'}
+                                    >
+                                        {due.label}
+                                    </Badge>
+                                    <span className="text-sm font-medium tabular-nums">
+                                        {formatCurrency(bill.amount)}
+                                    </span>
+                                </div>
+                            </div>
+                        );
+                    })
+                )}
+            </CardContent>
+        </Card>
+    );
+}
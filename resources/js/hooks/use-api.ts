@@ -0,0 +1,67 @@
+import * as React from 'react';
+import { api, getApiErrorMessage, type ApiResponse } from '@/lib/api';
+
+interface UseApiState<T, M> {
+    data: T | null;
+    meta: M | null;
+    loading: boolean;
+    error: string | null;
+}
+
+/**
+ * Fetch a GET endpoint from the JSON API and unwrap its `data`/`meta`.
+ * Pass `null` as the url to skip the request (e.g. until a selection is made).
+ * The request re-runs whenever the url or the params change.
+ */
+export function useApi<T, M = Record<string, unknown>>(
+    url: string | null,
+    params?: Record<string, unknown>
+) {
+    const [state, setState] = React.useState<UseApiState<T, M>>({
+        data: null,
+        meta: null,
+        loading: url !== null,
+        error: null,
+    });
+    const [reloadKey, setReloadKey] = React.useState(0);
+    const paramsKey = JSON.stringify(params ?? {});
+
+    React.useEffect(() => {
+        if (url === null) {
+            setState({ data: null, meta: null, loading: false, error: null });
+            return;
+        }
+
+        let cancelled = false;
+        setState((previous) => ({ ...previous, loading: true, error: null }));
+
+        api.get<ApiResponse<T, M>>(url, { params: JSON.parse(paramsKey) })
+            .then(({ data }) => {
+                if (!cancelled) {
+                    setState({
+                        data: data.data,
+                        meta: data.meta ?? null,
+                        loading: false,
+                        error: null,
+                    });
+                }
+            })
+            .catch((error) => {
+                if (!cancelled) {
+                    setState((previous) => ({
+                        ...previous,
+                        loading: false,
+                        error: getApiErrorMessage(error, 'Failed to load data'),
+                    }));
+                }
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [url, paramsKey, reloadKey]);
+
+    const reload = React.useCallback(() => setReloadKey((key) => key + 1), []);
+
+    return { ...state, reload };
+}
@@ -0,0 +1,60 @@
+// resources/js/lib/api.ts
+
+import axios, { isAxiosError } from 'axios';
+
+/**
+ * Envelope returned by every controller under routes/api.php.
+ */
+export interface ApiResponse<T, M = Record<string, unknown>> {
+    success: boolean;
+    message?: string;
+    data: T;
+    meta?: M;
+    errors?: Record<string, string[]> | string[];
+}
+
+export interface PaginationMeta {
+    current_page: number;
+    last_page: number;
+    per_page: number;
+    total: number;
+    from: number | null;
+    to: number | null;
+}
+
+/**
+ * Axios instance for the JSON API. Requests ride on the Inertia session
+ * cookie (Sanctum stateful API), so no token handling is needed here.
+ */
+export const api = axios.create({
+    baseURL: '/api',
+    withCredentials: true,
+    withXSRFToken: true,
+    headers: {
+        Accept: 'application/json',
+        'X-Requested-With': 'XMLHttpRequest',
+    },
+});
+
+/**
+ * Extract a human readable message from a failed API call, preferring
+ * validation errors over the generic message.
+ */
+export function getApiErrorMessage(error: unknown, fallback = 'Something went wrong'): string {
+    if (isAxiosError<ApiResponse<unknown>>(error)) {
+        const body = error.response?.data;
+        if (body?.errors) {
+            const messages = Array.isArray(body.errors)
+                ? body.errors
+                : Object.values(body.errors).flat();
+            if (messages.length > 0) {
+                return messages.join(', ');
+            }
+        }
+        if (body?.message) {
+            return body.message;
+        }
+    }
+
+    return fallback;
+}
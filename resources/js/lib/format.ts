@@ -0,0 +1,41 @@
+// resources/js/lib/format.ts
+
+import { format } from 'date-fns';
+
+/**
+ * Decimal columns are serialized as strings ("1250.00"), so coerce
+ * anything numeric-looking coming back from the API.
+ */
+export function toNumber(value: number | string | null | undefined): number {
+    if (value === null || value === undefined || value === '') {
+        return 0;
+    }
+    const parsed = typeof value === 'number' ? value : parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export function formatCurrency(
+    amount: number | string | null | undefined,
+    currency = 'PHP'
+): string {
+    return new Intl.NumberFormat('en-PH', {
+        style: 'currency',
+        currency,
+    }).format(toNumber(amount));
+}
+
+export function formatPercent(value: number | string | null | undefined, digits = 1): string {
+    return `${toNumber(value).toFixed(digits)}%`;
+}
+
+export function formatDate(value: string | Date, pattern = 'MMM d, yyyy'): string {
+    const date = typeof value === 'string' ? new Date(value) : value;
+    return format(date, pattern);
+}
+
+/**
+ * Format a date as Y-m-d for query strings and form payloads.
+ */
+export function toDateString(date: Date): string {
+    return format(date, 'yyyy-MM-dd');
+}
@@ -0,0 +1,249 @@
+// resources/js/lib/statement-parser.ts
+
+import type {
+    ParsedStatement,
+    QifDateOrder,
+    StatementFormat,
+    StatementTransaction,
+} from '@/types/transaction';
+
+// Matches the reference_number limit of the transaction endpoints
+const MAX_REFERENCE_LENGTH = 50;
+
+// QIF sections that hold bank-style transactions; investment and list sections are skipped
+const QIF_TRANSACTION_TYPES = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+export function detectStatementFormat(fileName: string, content: string): StatementFormat | null {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(content)) {
+        return 'ofx';
+    }
+    if (extension === 'qif' || /^\s*!Type:/im.test(content)) {
+        return 'qif';
+    }
+    return null;
+}
+
+export function parseStatement(
+    format: StatementFormat,
+    content: string,
+    qifDateOrder: QifDateOrder = 'mdy'
+): ParsedStatement[] {
+    return format === 'ofx' ? parseOfx(content) : parseQif(content, qifDateOrder);
+}
+
+/**
+ * 64-bit FNV-1a as hex, for short stable ids derived from row contents.
+ */
+function hashString(value: string): string {
+    let hash = 0xcbf29ce484222325n;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= BigInt(value.charCodeAt(i));
+        hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn;
+    }
+    return hash.toString(16).padStart(16, '0');
+}
+
+function referenceFor(id: string, prefix: string): string {
+    return id.length <= MAX_REFERENCE_LENGTH ? id : `${prefix}-${hashString(id)}`;
+}
+
+function parseAmount(value: string): number {
+    let cleaned = value.replace(/[^0-9.,-]/g, '');
+    // Comma as the decimal separator when there is no point
+    cleaned = cleaned.includes('.') ? cleaned.replace(/,/g, '') : cleaned.replace(',', '.');
+    const amount = parseFloat(cleaned);
+    return Number.isFinite(amount) ? amount : NaN;
+}
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&lt;/gi, '<')
+        .replace(/&gt;/gi, '>')
+        .replace(/&quot;/gi, '"')
+        .replace(/&apos;/gi, "'")
+        .replace(/&nbsp;/gi, ' ')
+        .replace(/&amp;/gi, '&')
+        .trim();
+}
+
+/**
+ * Leaf elements of an OFX aggregate. Works for both SGML (OFX 1.x, no
+ * closing tags) and XML (OFX 2.x) since a value always ends at the next
+ * tag or line break.
+ */
+function ofxFields(block: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const match of block.matchAll(/<([A-Z0-9.]+)>([^<\r\n]*)/gi)) {
+        const value = decodeEntities(match[2]);
+        if (value !== '' && !(match[1].toUpperCase() in fields)) {
+            fields[match[1].toUpperCase()] = value;
+        }
+    }
+    return fields;
+}
+
+function ofxDate(value: string | undefined): string | null {
+    const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * OFX and QFX (Quicken's OFX variant). Bank and credit card statements in
+ * one file come back as separate statements.
+ */
+export function parseOfx(content: string): ParsedStatement[] {
+    const statements: ParsedStatement[] = [];
+    const statementBlocks = content.match(/<(STMTRS|CCSTMTRS)>[\s\S]*?<\/\1>/gi) ?? [];
+
+    statementBlocks.forEach((block, index) => {
+        const account = ofxFields(block.match(/<(BANKACCTFROM|CCACCTFROM)>[\s\S]*?<\/\1>/i)?.[0] ?? '');
+        const accountId = account.ACCTID ?? `statement-${index + 1}`;
+        const transactions: StatementTransaction[] = [];
+
+        for (const match of block.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)) {
+            const fields = ofxFields(match[1]);
+            const date = ofxDate(fields.DTPOSTED ?? fields.DTUSER);
+            const amount = parseAmount(fields.TRNAMT ?? '');
+            if (!date || !Number.isFinite(amount)) {
+                continue;
+            }
+
+            const name = fields.NAME ?? fields.PAYEE ?? '';
+            const memo = fields.MEMO ?? null;
+            // Without a FITID the row can't be recognised on re-import, so derive one
+            const fitId = fields.FITID ?? `OFX-${hashString(`${accountId}|${date}|${amount}|${name}|${memo}`)}`;
+
+            transactions.push({
+                date,
+                amount,
+                description: (name || memo || fields.TRNTYPE || 'Imported transaction').slice(0, 255),
+                notes: name && memo && memo !== name ? memo : null,
+                reference_number: referenceFor(fitId, 'FITID'),
+                category: null,
+            });
+        }
+
+        statements.push({
+            key: accountId,
+            label: [account.BANKID, accountId].filter(Boolean).join(' • '),
+            transactions,
+        });
+    });
+
+    return statements;
+}
+
+function qifDate(value: string, order: QifDateOrder): string | null {
+    // e.g. 1/15/2024, 01/15/24, 1/15'24, 15.01.2024
+    const match = value.trim().match(/^(\d{1,2})\s*[/.-]\s*(\d{1,2})\s*['/.-]\s*(\d{2,4})$/);
+    if (!match) {
+        const iso = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+        return iso ? `${iso[1]}-${iso[2]}-${iso[3]}` : null;
+    }
+
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    const [month, day] = order === 'mdy' ? [first, second] : [second, first];
+    let year = Number(match[3]);
+    if (match[3].length === 2) {
+        // Quicken marks 2000s years with an apostrophe; otherwise pivot at 70
+        year += value.includes("'") || year < 70 ? 2000 : 1900;
+    }
+
+    if (month < 1 || month > 12 || day < 1 || day > 31) {
+        return null;
+    }
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * QIF. Each !Account block starts a new statement; without any, the whole
+ * file is one statement.
+ */
+export function parseQif(content: string, dateOrder: QifDateOrder = 'mdy'): ParsedStatement[] {
+    const statements: ParsedStatement[] = [];
+    let current: ParsedStatement | null = null;
+    let section = '';
+    let inAccountHeader = false;
+    let record: Record<string, string> = {};
+    // Identical rows on the same day are told apart by their position
+    const seen = new Map<string, number>();
+
+    const statementFor = (name: string | null): ParsedStatement => {
+        const key = name ?? `statement-${statements.length + 1}`;
+        const statement = { key, label: name ?? 'QIF statement', transactions: [] };
+        statements.push(statement);
+        return statement;
+    };
+
+    const flush = () => {
+        if (inAccountHeader) {
+            current = statementFor(record.N ?? null);
+            inAccountHeader = false;
+        } else if (QIF_TRANSACTION_TYPES.includes(section) && record.D && (record.T ?? record.U)) {
+            const date = qifDate(record.D, dateOrder);
+            const amount = parseAmount(record.T ?? record.U);
+
+            if (date && Number.isFinite(amount)) {
+                const statement: ParsedStatement = current ?? (current = statementFor(null));
+                const payee = record.P ?? '';
+                const key = `${statement.label}|${date}|${amount}|${payee}|${record.M ?? ''}`;
+                const occurrence = (seen.get(key) ?? 0) + 1;
+                seen.set(key, occurrence);
+
+                statement.transactions.push({
+                    date,
+                    amount,
+                    description: (payee || record.M || 'Imported transaction').slice(0, 255),
+                    notes: payee && record.M && record.M !== payee ? record.M : null,
+                    reference_number: /^\d+$/.test(record.N ?? '')
+                        ? referenceFor(`CHK-${record.N}`, 'CHK')
+                        : `QIF-${hashString(`${key}|${occurrence}`)}`,
+                    // Subcategories are written as Parent:Child; transfers as [Account]
+                    category: record.L && !record.L.startsWith('[') ? record.L.split(':').pop() ?? null : null,
+                });
+            }
+        }
+        record = {};
+    };
+
+    content.split(/\r?\n/).forEach((rawLine) => {
+        const line = rawLine.trimEnd();
+        if (line === '') {
+            return;
+        }
+
+        if (line.startsWith('!')) {
+            const header = line.slice(1).trim().toLowerCase();
+            record = {};
+            if (header === 'account') {
+                inAccountHeader = true;
+            } else if (header.startsWith('type:')) {
+                section = header.slice(5).trim();
+            } else if (header.startsWith('option:') || header.startsWith('clear:')) {
+                // Flags that don't change the records
+            } else {
+                section = header;
+            }
+            return;
+        }
+
+        if (line.startsWith('^')) {
+            flush();
+            return;
+        }
+
+        const code = line[0];
+        // Split lines (S, E, $) repeat per split; only the first of each field is kept
+        if (!(code in record)) {
+            record[code] = line.slice(1).trim();
+        }
+    });
+
+    // A missing final ^ still closes the last record
+    if (Object.keys(record).length > 0) {
+        flush();
+    }
+
+    return statements.filter((statement) => statement.transactions.length > 0);
+}
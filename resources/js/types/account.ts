@@ -0,0 +1,98 @@
+import type { Amount } from '@/types/analytics';
+
+export type AccountType = 'cash' | 'bank' | 'credit_card' | 'investment' | 'ewallet';
+
+export interface Account {
+    id: number;
+    name: string;
+    type: AccountType;
+    type_label: string;
+    account_number?: string | null;
+    bank_name?: string | null;
+    balance: Amount;
+    formatted_balance: string;
+    credit_limit: Amount | null;
+    formatted_credit_limit: string | null;
+    available_credit: number | null;
+    formatted_available_credit: string | null;
+    currency: string;
+    currency_symbol: string;
+    color?: string | null;
+    icon?: string | null;
+    description?: string | null;
+    is_active: boolean;
+    include_in_net_worth: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface AccountTransaction {
+    id: number;
+    description: string;
+    amount: Amount;
+    formatted_amount: string;
+    type: 'income' | 'expense' | 'transfer';
+    type_label: string;
+    date: string;
+    formatted_date: string;
+    notes?: string | null;
+    reference_number?: string | null;
+    is_cleared: boolean;
+    category?: { id: number; name: string; color?: string | null; icon?: string | null };
+    transfer_account?: { id: number; name: string; type: AccountType; color?: string | null };
+}
+
+export interface BalanceHistoryPoint {
+    date: string;
+    balance: Amount;
+    change_amount: Amount | null;
+    change_type: string | null;
+    formatted_balance: string;
+    formatted_change: string | null;
+}
+
+export interface AccountPerformanceMetrics {
+    period: string;
+    date_range: { start: string; end: string };
+    monthly_data: {
+        month: string;
+        income: Amount;
+        expenses: Amount;
+        transfers: Amount;
+        net: Amount;
+        transaction_count: number;
+    }[];
+    total_income: Amount;
+    total_expenses: Amount;
+    total_net: Amount;
+    average_monthly_net: Amount;
+}
+
+export interface ReconciliationTransaction {
+    id: number;
+    date: string;
+    description: string;
+    type: 'income' | 'expense' | 'transfer';
+    amount: number;
+    /** Signed change this transaction makes to the account balance */
+    effect: number;
+    reference_number: string | null;
+    category: string | null;
+    transfer_account: string | null;
+}
+
+export interface ReconciliationData {
+    statement_date: string;
+    current_balance: number;
+    cleared_balance: number;
+    last_cleared_at: string | null;
+    transactions: ReconciliationTransaction[];
+}
+
+export interface ReconcileResult {
+    cleared_count: number;
+    cleared_balance: number;
+    statement_balance: number;
+    adjustment: number;
+    account: Account;
+}
@@ -0,0 +1,371 @@
+export type Amount = number | string;
+
+export interface DateRange {
+    start: string;
+    end: string;
+}
+
+export interface BudgetHealthItem {
+    budget_id: number;
+    name: string;
+    category_color?: string | null;
+    amount: Amount;
+    spent: Amount;
+    percentage_used: number;
+    status: 'on_track' | 'normal' | 'warning' | 'exceeded';
+}
+
+export interface DashboardSummary {
+    period: string;
+    date_range: DateRange;
+    financial_summary: {
+        income: Amount;
+        expenses: Amount;
+        savings: Amount;
+        savings_rate: number;
+        total_balance: Amount;
+        net_worth: Amount;
+        total_debt: Amount;
+    };
+    accounts_summary: {
+        total_accounts: number;
+        by_type: Record<string, { count: number; balance: Amount }>;
+    };
+    budget_status: {
+        total_budget: Amount;
+        total_spent: Amount;
+        utilization_percentage: number;
+        on_track: number;
+        warning: number;
+        exceeded: number;
+        budgets: BudgetHealthItem[];
+    };
+    goals_progress: {
+        total_goals: number;
+        active_goals: number;
+        average_progress: number;
+    };
+    recent_transactions: {
+        id: number;
+        date: string;
+        description: string;
+        amount: Amount;
+        type: 'income' | 'expense' | 'transfer';
+        category: { id: number; name: string; color?: string; icon?: string } | null;
+        account: { id: number; name: string };
+    }[];
+}
+
+export interface IncomeVsExpensesPoint {
+    period: string;
+    income: Amount;
+    expenses: Amount;
+    net: Amount;
+    savings_rate: number;
+}
+
+export interface IncomeVsExpensesReport {
+    date_range: DateRange;
+    group_by: string;
+    data: IncomeVsExpensesPoint[];
+    summary: {
+        total_income: Amount;
+        total_expenses: Amount;
+        net_income: Amount;
+        average_monthly_income: Amount;
+        average_monthly_expenses: Amount;
+    };
+}
+
+export interface CashFlowPoint {
+    period: string;
+    inflow: Amount;
+    outflow: Amount;
+    net_flow: Amount;
+    running_balance: Amount;
+}
+
+export interface CashFlowReport {
+    date_range: DateRange;
+    group_by: string;
+    data: CashFlowPoint[];
+    summary: {
+        total_inflow: Amount;
+        total_outflow: Amount;
+        net_cash_flow: Amount;
+        average_daily_flow: Amount;
+    };
+}
+
+export interface BudgetPerformanceItem {
+    budget_id: number;
+    budget_name: string;
+    category: { id: number; name: string; color: string | null } | null;
+    period: DateRange;
+    budget_amount: Amount;
+    spent_amount: Amount;
+    remaining_amount: Amount;
+    percentage_used: number;
+    status: BudgetHealthItem['status'];
+    days_remaining: number;
+}
+
+export interface BudgetPerformanceReport {
+    period: string;
+    performance: BudgetPerformanceItem[];
+    summary: {
+        total_budgets: number;
+        on_track: number;
+        warning: number;
+        exceeded: number;
+        total_budget: Amount;
+        total_spent: Amount;
+        overall_percentage: number;
+    };
+}
+
+export interface CategoryBreakdownItem {
+    category_id: number | null;
+    category_name: string;
+    category_color: string;
+    category_icon: string;
+    total_amount: Amount;
+    transaction_count: number;
+    average_transaction: Amount;
+    percentage: number;
+}
+
+export interface CategoryBreakdownReport {
+    date_range: DateRange;
+    type: 'income' | 'expense' | 'all';
+    breakdown: CategoryBreakdownItem[];
+    summary: {
+        total_amount: Amount;
+        total_transactions: number;
+        categories_count: number;
+    };
+}
+
+export interface SpendingTrendMonth {
+    /** Y-m */
+    month: string;
+    total_spending: Amount;
+    transaction_count: number;
+    average_transaction: Amount;
+    categories: {
+        category_id: number | null;
+        category_name: string;
+        category_color: string;
+        amount: Amount;
+        transaction_count: number;
+    }[];
+}
+
+export interface SpendingTrendsReport {
+    date_range: DateRange;
+    trends: SpendingTrendMonth[];
+    analysis: {
+        trend_direction: 'increasing' | 'decreasing' | 'insufficient_data';
+        average_change: number;
+        volatility: number;
+        months_analyzed?: number;
+    };
+    top_categories: {
+        category_id: number | null;
+        category_name: string;
+        total_amount: Amount;
+        transaction_count: number;
+    }[];
+}
+
+export interface NetWorthPoint {
+    /** Y-m */
+    date: string;
+    assets: Amount;
+    liabilities: Amount;
+    net_worth: Amount;
+    /** Month-end balance keyed by account id, including excluded accounts */
+    accounts: Record<string, number>;
+    /** Month-end balance keyed by debt id */
+    debts: Record<string, number>;
+}
+
+export interface NetWorthAccount {
+    id: number;
+    name: string;
+    type: string;
+    color: string | null;
+    balance: Amount;
+    /** Credit card balances are amounts owed */
+    is_liability: boolean;
+    include_in_net_worth: boolean;
+}
+
+export interface NetWorthDebt {
+    id: number;
+    name: string;
+    type: string;
+    current_balance: Amount;
+    status: 'active' | 'paid_off';
+}
+
+export interface NetWorthReport {
+    date_range: DateRange;
+    current_net_worth: Amount;
+    net_worth_change: Amount;
+    net_worth_change_percent: number;
+    history: NetWorthPoint[];
+    accounts: NetWorthAccount[];
+    debts: NetWorthDebt[];
+    breakdown: {
+        // PHP serializes an empty grouping as a list
+        assets: Record<string, { type: string; count: number; total: Amount }> | [];
+        liabilities: Record<string, { count: number; total: Amount; average: Amount }> | [];
+    };
+}
+
+export interface ExpensePrediction {
+    /** Y-m */
+    month: string;
+    predicted_amount: number;
+    confidence_interval: {
+        lower: number;
+        upper: number;
+    };
+    confidence_level: number;
+}
+
+export interface ExpensePredictions {
+    predictions: ExpensePrediction[];
+    based_on: {
+        historical_months: number;
+        average_monthly_expense: number;
+        standard_deviation: number;
+    };
+}
+
+export type HealthComponentKey =
+    | 'savings_rate'
+    | 'debt_to_income'
+    | 'emergency_fund'
+    | 'budget_adherence'
+    | 'bill_punctuality';
+
+export interface HealthScoreComponent {
+    label: string;
+    /** Null when there isn't enough data to measure it */
+    value: number | null;
+    unit: '%' | 'months';
+    score: number;
+    max_score: number;
+    /** Components without data (e.g. no budgets) don't count toward the total */
+    applicable: boolean;
+    status: 'good' | 'fair' | 'poor' | 'not_applicable';
+    suggestion: string;
+    previous_value: number | null;
+    previous_score: number;
+    /** Score change since a month ago; null if either month was not applicable */
+    score_change: number | null;
+}
+
+export interface HealthScore {
+    as_of: string;
+    overall_score: number;
+    max_score: number;
+    grade: string;
+    previous_score: number;
+    score_change: number;
+    components: Record<HealthComponentKey, HealthScoreComponent>;
+}
+
+export type DateRangePreset = 'last_month' | '1m' | '3m' | '6m' | '12m' | 'ytd';
+
+export type ReportMetric = 'sum' | 'count' | 'average';
+
+export type ReportDimension = 'category' | 'account' | 'type' | 'month' | 'tag';
+
+export type ReportView = 'table' | 'bar' | 'line';
+
+export interface ReportFilters {
+    types: ('income' | 'expense' | 'transfer')[];
+    category_ids: number[];
+    account_ids: number[];
+    tags: string[];
+    min_amount: number | null;
+    max_amount: number | null;
+}
+
+/**
+ * Body of POST /analytics/custom-report with report_type "aggregate".
+ */
+export interface ReportDefinition {
+    metrics: ReportMetric[];
+    /** At most two, applied in order */
+    dimensions: ReportDimension[];
+    filters: ReportFilters;
+    /** Resolved again on every run; start_date and end_date apply when null */
+    date_preset: DateRangePreset | null;
+    start_date: string | null;
+    end_date: string | null;
+    view: ReportView;
+}
+
+/** Dimension labels (e.g. category name, Y-m month) and metric values */
+export type AggregateReportRow = Partial<Record<ReportDimension, string>> &
+    Partial<Record<ReportMetric, number>>;
+
+export interface AggregateReport {
+    start_date: string;
+    end_date: string;
+    dimensions: ReportDimension[];
+    metrics: ReportMetric[];
+    rows: AggregateReportRow[];
+    /** Over the matching transactions; a transaction with several tags counts once */
+    totals: Partial<Record<ReportMetric, number>>;
+}
+
+export interface CustomReport<T> {
+    report_type: string;
+    generated_at: string;
+    parameters: Record<string, unknown>;
+    data: T;
+}
+
+export interface SavedReport {
+    id: string;
+    name: string;
+    definition: ReportDefinition & { report_type: 'aggregate' };
+    created_at: string;
+    updated_at: string;
+}
+
+export type InsightType =
+    | 'spending_increase'
+    | 'category_spike'
+    | 'low_savings'
+    | 'budget_warning'
+    | 'subscription_increase'
+    | 'high_interest_debt'
+    | 'no_investments';
+
+/**
+ * Query params for the Transactions page.
+ */
+export interface InsightLinkFilters {
+    type?: string;
+    category_id?: number;
+    search?: string;
+    start_date?: string;
+    end_date?: string;
+}
+
+export interface Insight {
+    id: string;
+    type: InsightType;
+    priority: number;
+    title: string;
+    message: string;
+    action: string;
+    link: { label: string; filters: InsightLinkFilters } | null;
+    dismissed: boolean;
+}
@@ -0,0 +1,63 @@
+import type { Amount } from '@/types/analytics';
+
+export type BillFrequency = 'weekly' | 'bi-weekly' | 'monthly' | 'quarterly' | 'semi-annually' | 'annually';
+
+export type BillStatus = 'active' | 'paid' | 'overdue' | 'cancelled';
+
+export interface BillPayment {
+    /** The due date this payment settled; missing on older entries */
+    due_date?: string;
+    amount: Amount;
+    payment_date: string;
+    transaction_id?: number | null;
+    notes?: string | null;
+}
+
+export interface Bill {
+    id: number;
+    category_id: number;
+    category?: { id: number; name: string; color?: string; icon?: string } | null;
+    name: string;
+    amount: Amount;
+    formatted_amount: string;
+    due_date: string;
+    formatted_due_date: string;
+    days_until_due: number | null;
+    frequency: BillFrequency;
+    frequency_label: string;
+    reminder_days: number | null;
+    status: BillStatus;
+    is_recurring: boolean;
+    color?: string | null;
+    icon?: string | null;
+    notes?: string | null;
+    payment_history: BillPayment[] | null;
+    is_overdue: boolean;
+    last_paid_date?: string | null;
+    total_paid?: number;
+    payment_count?: number;
+    next_due_date?: string | null;
+}
+
+export type BillOccurrenceStatus = 'paid' | 'overdue' | 'upcoming';
+
+export interface BillCalendarOccurrence {
+    bill_id: number;
+    name: string;
+    color: string | null;
+    frequency: BillFrequency;
+    date: string;
+    amount: number;
+    status: BillOccurrenceStatus;
+    /** Future repeat of a recurring bill that can't be paid yet */
+    is_projected: boolean;
+    payment_date: string | null;
+}
+
+export interface BillCalendarMeta {
+    start_date: string;
+    end_date: string;
+    paid_amount: number;
+    overdue_amount: number;
+    upcoming_amount: number;
+}
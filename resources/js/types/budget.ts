@@ -0,0 +1,200 @@
+import type { Category } from '@/types/category';
+
+export type BudgetPeriod = 'weekly' | 'monthly' | 'yearly';
+
+export type BudgetStatusCode = 'over_budget' | 'near_limit' | 'on_track' | 'under_budget';
+
+export interface RolloverSettings {
+    enabled?: boolean;
+    carry_over_unused?: boolean;
+    reset_on_overspend?: boolean;
+}
+
+export interface Budget {
+    id: number;
+    user_id: number;
+    category_id: number;
+    category?: Category | null;
+    name: string;
+    amount: number;
+    spent: number;
+    remaining: number;
+    percentage_used: number;
+    period: BudgetPeriod;
+    start_date: string;
+    end_date: string;
+    is_active: boolean;
+    alert_threshold: number;
+    alert_enabled: boolean;
+    rollover_settings: RolloverSettings | null;
+    status: {
+        code: BudgetStatusCode;
+        label: string;
+        is_over_budget: boolean;
+        is_near_limit: boolean;
+        days_remaining: number;
+        is_expired: boolean;
+    };
+    period_info: {
+        start_date: string;
+        end_date: string;
+        start_date_formatted: string;
+        end_date_formatted: string;
+        duration_days: number;
+        days_elapsed: number;
+        days_remaining: number;
+        progress_percentage: number;
+    };
+    spending_info: {
+        daily_average: number;
+        recommended_daily_spend: number;
+        pace_indicator: 'not_started' | 'on_pace' | 'ahead' | 'behind';
+    };
+    created_at: string;
+    updated_at: string;
+}
+
+export interface BudgetsMeta {
+    total: number;
+    active_count: number;
+    inactive_count: number;
+    total_budgeted: number;
+    total_spent: number;
+    by_period: Record<string, number>;
+}
+
+export interface SavedBudgetPeriod {
+    id: number;
+    name: string;
+    start_date: string;
+    end_date: string;
+    period_type: BudgetPeriod | 'custom';
+    duration_days: number;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface BudgetPeriodViewMeta {
+    start_date: string;
+    end_date: string;
+    label: string;
+    period_type: BudgetPeriod | 'custom';
+    budget_period_id: number | null;
+    offset: number;
+    is_current: boolean;
+    total_budgeted: number;
+    total_spent: number;
+}
+
+export interface BudgetComparisonItem {
+    budget_id: number;
+    category_id: number;
+    category: string;
+    category_icon: string | null;
+    category_color: string | null;
+    budgeted: number;
+    actual: number;
+    variance: number;
+    variance_percentage: number;
+}
+
+export interface BudgetComparisonPeriod {
+    label: string;
+    start_date: string;
+    end_date: string;
+    items: BudgetComparisonItem[];
+    total_budgeted: number;
+    total_actual: number;
+    total_variance: number;
+    total_variance_percentage: number;
+}
+
+export interface BudgetComparison {
+    period: {
+        type: BudgetPeriod;
+        start_date: string;
+        end_date: string;
+    };
+    periods: BudgetComparisonPeriod[];
+}
+
+export interface SpendingProjection {
+    spent: number;
+    daily_average: number;
+    daily_deviation: number;
+    /** Recurring expenses still due before the period ends */
+    upcoming_recurring: number;
+    projected: number;
+    projected_low: number;
+    projected_high: number;
+}
+
+export interface BudgetForecast extends SpendingProjection {
+    budget_id: number;
+    name: string;
+    category_id: number;
+    category: string;
+    category_color: string | null;
+    amount: number;
+    projected_percentage: number;
+    projected_overage: number;
+    status: 'exceeded' | 'at_risk' | 'on_track';
+    warning: string | null;
+}
+
+export interface SpendingForecastPoint {
+    date: string;
+    /** Cumulative spending; null after today */
+    actual: number | null;
+    /** Projection and band; null before today */
+    projected: number | null;
+    low: number | null;
+    high: number | null;
+}
+
+export interface UpcomingRecurringExpense {
+    recurring_transaction_id: number;
+    name: string;
+    category_id: number | null;
+    date: string;
+    amount: number;
+}
+
+/**
+ * GET /budgets/analytics/spending-velocity
+ */
+export interface SpendingVelocity {
+    current_rate: 'High' | 'Normal' | 'Low';
+    rate_value: number;
+    daily_average: number;
+    expected_daily_spend: number;
+    projected_month_end: number;
+    days_remaining: number;
+    total_budget: number;
+    total_spent: number;
+    warning: { message: string; amount: number } | null;
+    period: {
+        type: string;
+        start_date: string;
+        end_date: string;
+        as_of: string;
+        total_days: number;
+        days_passed: number;
+        days_remaining: number;
+    };
+    confidence_level: number;
+    /** Overruns are only reported once enough of the period has passed */
+    warnings_active: boolean;
+    overall: SpendingProjection & { total_budget: number };
+    daily: SpendingForecastPoint[];
+    budgets: BudgetForecast[];
+    warnings: {
+        budget_id: number;
+        category: string;
+        status: BudgetForecast['status'];
+        message: string;
+        projected_overage: number;
+    }[];
+    upcoming_recurring: UpcomingRecurringExpense[];
+}
@@ -0,0 +1,100 @@
+import type { Amount, DateRange } from '@/types/analytics';
+
+export type CategoryType = 'income' | 'expense' | 'transfer';
+
+export interface Category {
+    id: number;
+    name: string;
+    type: CategoryType;
+    type_label: string;
+    color?: string | null;
+    icon?: string | null;
+    description?: string | null;
+    is_active: boolean;
+    sort_order: number;
+    has_transactions: boolean;
+    has_budgets: boolean;
+    can_delete: boolean;
+}
+
+export interface CategoryIconOption {
+    name: string;
+    label: string;
+    category: string;
+}
+
+export interface CategoryColorOption {
+    value: string;
+    label: string;
+}
+
+export interface CategoryIconsAndColors {
+    icons: CategoryIconOption[];
+    colors: CategoryColorOption[];
+}
+
+export interface CategoryMergeResult {
+    moved_transactions: number;
+    moved_budgets: number;
+    moved_children: number;
+    source_category: string;
+    target_category: string;
+    source_deleted: boolean;
+}
+
+export type CategoryAnalysisPeriod = 'week' | 'month' | 'quarter' | 'year';
+
+export interface CategorySpendingItem {
+    category_id: number;
+    category_name: string;
+    category_color: string | null;
+    category_icon: string | null;
+    total_amount: Amount;
+    transaction_count: number;
+    average_amount: Amount;
+    percentage_of_total: number;
+}
+
+export interface CategorySpendingAnalysis {
+    period: CategoryAnalysisPeriod;
+    type: 'income' | 'expense';
+    date_range: DateRange;
+    total_amount: Amount;
+    total_transactions: number;
+    categories: CategorySpendingItem[];
+    top_categories: CategorySpendingItem[];
+}
+
+export interface CategoryTrendMonth {
+    /** e.g. "Oct 2026" */
+    period: string;
+    /** First day of the month */
+    date: string;
+    categories: {
+        category_id: number;
+        category_name: string;
+        category_color: string | null;
+        total_amount: Amount;
+        transaction_count: number;
+    }[];
+    total_amount: Amount;
+    total_transactions: number;
+}
+
+export interface CategoryTrends {
+    period: string;
+    months: number;
+    date_range: DateRange;
+    trends: CategoryTrendMonth[];
+}
+
+/** Raw transaction rows returned by /categories/{id}/transactions */
+export interface CategoryTransaction {
+    id: number;
+    description: string;
+    amount: Amount;
+    type: 'income' | 'expense' | 'transfer';
+    date: string;
+    notes?: string | null;
+    account: { id: number; name: string } | null;
+}
@@ -0,0 +1,125 @@
+import type { Amount } from '@/types/analytics';
+
+export type DebtType = 'credit_card' | 'personal_loan' | 'mortgage' | 'auto_loan' | 'student_loan';
+
+export type DebtStatus = 'active' | 'paid_off' | 'closed';
+
+export type DebtPaymentFrequency = 'monthly' | 'weekly' | 'bi-weekly';
+
+export interface Debt {
+    id: number;
+    name: string;
+    type: DebtType;
+    type_label: string;
+    original_balance: Amount;
+    current_balance: Amount;
+    paid_amount: number;
+    progress_percentage: number;
+    interest_rate: Amount;
+    minimum_payment: Amount;
+    due_date: string;
+    days_until_due: number;
+    payment_frequency: DebtPaymentFrequency;
+    payment_frequency_label: string;
+    status: DebtStatus;
+    status_label: string;
+    is_overdue: boolean;
+    notes: string | null;
+    estimated_payoff: {
+        months_remaining: number;
+        payoff_date: string;
+        total_interest: number;
+    } | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface DebtPayment {
+    id: number;
+    debt_id: number;
+    transaction_id: number | null;
+    transaction?: {
+        id: number;
+        description: string;
+        formatted_amount: string;
+        formatted_date: string;
+        account?: { id: number; name: string } | null;
+    } | null;
+    amount: Amount;
+    principal: Amount;
+    interest: Amount;
+    principal_percentage: number;
+    interest_percentage: number;
+    payment_date: string;
+    days_ago: number;
+    notes: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface DebtPaymentSplit {
+    last_payment_date: string | null;
+    days_since_last_payment: number;
+    interest_due: number;
+    interest: number;
+    principal: number;
+    payoff_amount: number;
+}
+
+export interface DebtSummary {
+    total_debts: number;
+    total_original_balance: Amount;
+    total_current_balance: Amount;
+    total_paid_off: number;
+    average_interest_rate: Amount | null;
+    total_minimum_payment: Amount;
+    progress_percentage: number;
+    estimated_payoff_date: string | null;
+    estimated_total_interest: number;
+}
+
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom' | 'minimum';
+
+export interface PayoffPlanDebtMonth {
+    debt_id: number;
+    payment: number;
+    interest: number;
+    ending_balance: number;
+}
+
+export interface PayoffPlanMonth {
+    month: number;
+    date: string;
+    payment: number;
+    principal: number;
+    interest: number;
+    ending_balance: number;
+    cumulative_interest: number;
+    debts: PayoffPlanDebtMonth[];
+}
+
+export interface PayoffPlanSummary {
+    monthly_budget: number;
+    months_to_payoff: number;
+    years_to_payoff: number;
+    debt_free_date: string | null;
+    is_paid_off: boolean;
+    total_amount_paid: number;
+    total_interest_paid: number;
+    payoff_order: {
+        debt_id: number;
+        name: string;
+        payoff_month: number | null;
+        payoff_date: string | null;
+        interest_paid: number;
+    }[];
+}
+
+export interface PayoffPlan {
+    plan: {
+        strategy: PayoffStrategy;
+        schedule: PayoffPlanMonth[];
+        summary: PayoffPlanSummary;
+    };
+    comparison: Partial<Record<PayoffStrategy, PayoffPlanSummary>>;
+}
@@ -0,0 +1,95 @@
+import type { Amount } from '@/types/analytics';
+
+export type GoalPriority = 'high' | 'medium' | 'low';
+
+export type GoalStatus = 'active' | 'completed' | 'paused' | 'cancelled';
+
+export interface MilestoneSettings {
+    milestones?: number[];
+    notifications_enabled?: boolean;
+}
+
+export interface GoalContribution {
+    id: number;
+    financial_goal_id: number;
+    transaction_id: number | null;
+    amount: Amount;
+    date: string;
+    notes: string | null;
+    transaction?: {
+        id: number;
+        description: string;
+        formatted_amount: string;
+        formatted_date: string;
+    } | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface FinancialGoal {
+    id: number;
+    user_id: number;
+    name: string;
+    description: string | null;
+    target_amount: Amount;
+    current_amount: Amount;
+    remaining_amount: number;
+    target_date: string;
+    priority: GoalPriority;
+    status: GoalStatus;
+    color: string;
+    icon: string;
+    monthly_target: number | null;
+    required_monthly_contribution: number;
+    milestone_settings: MilestoneSettings | null;
+    current_milestone: number | null;
+    next_milestone: number | null;
+    is_on_track: boolean;
+    projected_completion_date: string | null;
+    progress_percentage: number;
+    days_remaining: number;
+    is_overdue: boolean;
+    is_completed: boolean;
+    completed_at: string | null;
+    latest_contribution?: GoalContribution | null;
+    contributions_summary?: {
+        total_contributions: number;
+        total_amount: number;
+        average_contribution: number;
+        largest_contribution: number;
+        this_month_total: number;
+        last_month_total: number;
+    };
+    contributions?: GoalContribution[];
+    created_at: string;
+    updated_at: string;
+}
+
+export interface GoalsMeta {
+    total: number;
+    active_goals: number;
+    completed_goals: number;
+    total_target_amount: Amount;
+    total_current_amount: Amount;
+    overall_progress: number;
+    currency: string;
+    currency_symbol: string;
+}
+
+export interface GoalMilestone {
+    percentage: number;
+    amount: number;
+    achieved: boolean;
+    achieved_date: string | null;
+}
+
+export interface GoalProgress {
+    timeline: {
+        period: string;
+        contributions: number;
+        amount: number;
+        cumulative_amount: number;
+        progress_percentage: number;
+    }[];
+    milestones: GoalMilestone[];
+}
@@ -0,0 +1,62 @@
+export type NotificationType =
+    | 'budget_alert'
+    | 'bill_reminder'
+    | 'goal_milestone'
+    | 'low_balance'
+    | 'system'
+    | 'transaction';
+
+export type NotificationPriority = 'low' | 'normal' | 'high';
+
+export type NotificationChannel = 'app' | 'email' | 'sms';
+
+export interface AppNotification {
+    id: number;
+    type: NotificationType;
+    type_label: string;
+    title: string;
+    message: string;
+    data: Record<string, unknown> | null;
+    is_read: boolean;
+    read_at: string | null;
+    priority: NotificationPriority;
+    priority_label: string;
+    channel: NotificationChannel;
+    channel_label: string;
+    created_at: string;
+    updated_at: string;
+    created_at_human: string;
+    read_at_human: string | null;
+    icon: string;
+    color: string;
+    action_url: string | null;
+}
+
+export interface NotificationListMeta {
+    current_page: number;
+    last_page: number;
+    per_page: number;
+    total: number;
+    unread_count: number;
+}
+
+export interface UnreadCount {
+    total_unread: number;
+    by_type: Partial<Record<NotificationType, number>>;
+    by_priority: Partial<Record<NotificationPriority, number>>;
+}
+
+export interface NotificationPreferences {
+    low_balance_threshold: number;
+    reminder_days_before: number;
+    budget_alert_percentage: number;
+    quiet_hours_enabled: boolean;
+    quiet_hours_start: string;
+    quiet_hours_end: string;
+}
+
+export interface NotificationSettings {
+    /** Which channels each notification type is delivered on */
+    matrix: Record<NotificationType, Record<NotificationChannel, boolean>>;
+    preferences: NotificationPreferences;
+}
@@ -0,0 +1,154 @@
+import type { Amount } from '@/types/analytics';
+
+export type ImportField =
+    | 'date'
+    | 'description'
+    | 'amount'
+    | 'debit'
+    | 'credit'
+    | 'type'
+    | 'category'
+    | 'account'
+    | 'reference_number'
+    | 'notes';
+
+/** CSV header name per transaction field */
+export type ColumnMappings = Partial<Record<ImportField, string>>;
+
+export type ImportDelimiter = 'comma' | 'semicolon' | 'tab' | 'pipe';
+
+/**
+ * How the sign of a single amount column reads: `absolute` ignores it and
+ * takes the type from the type column or the default type.
+ */
+export type AmountSign = 'absolute' | 'negative_is_expense' | 'positive_is_expense';
+
+export interface ImportOptions {
+    date_format?: string;
+    delimiter?: ImportDelimiter;
+    has_header?: boolean;
+    amount_sign?: AmountSign;
+    decimal_separator?: '.' | ',';
+    default_account_id?: number;
+    default_category_id?: number;
+    default_type?: 'income' | 'expense';
+    skip_duplicates?: boolean;
+    /** File line numbers to leave out */
+    skip_lines?: number[];
+}
+
+export interface ImportDuplicateMatch {
+    id: number;
+    date: string;
+    description: string;
+    amount: number;
+}
+
+export interface ImportPreviewRow {
+    line: number;
+    account_id?: number;
+    category_id?: number;
+    description?: string;
+    amount?: number;
+    type?: 'income' | 'expense';
+    date?: string;
+    notes?: string | null;
+    reference_number?: string | null;
+    account: string | null;
+    category: string | null;
+    error: string | null;
+    duplicate_of: ImportDuplicateMatch | null;
+}
+
+export interface ImportPreview {
+    headers: string[];
+    sample: string[][];
+    total_rows: number;
+    /** Only present when column mappings were sent */
+    rows?: ImportPreviewRow[];
+    summary?: {
+        valid: number;
+        errors: number;
+        duplicates: number;
+    };
+}
+
+export interface ImportResult {
+    imported: number;
+    skipped: number;
+    errors: { line: number; error: string; data: string[] }[];
+    total_processed: number;
+}
+
+export interface ImportPreset {
+    id: string;
+    name: string;
+    column_mappings: ColumnMappings;
+    import_options: ImportOptions;
+    created_at: string;
+    updated_at: string;
+}
+
+export type StatementFormat = 'ofx' | 'qif';
+
+/** Order of day, month and year in QIF dates, which carry no format */
+export type QifDateOrder = 'mdy' | 'dmy';
+
+export interface StatementTransaction {
+    date: string;
+    /** Signed as in the file: negative is money out */
+    amount: number;
+    description: string;
+    notes: string | null;
+    /** OFX FITID, QIF check number, or a stable id derived from the row */
+    reference_number: string;
+    /** QIF category, when the file has one */
+    category: string | null;
+}
+
+export interface ParsedStatement {
+    /** Account id from the file, or a placeholder when there is none */
+    key: string;
+    label: string;
+    transactions: StatementTransaction[];
+}
+
+/** One row of POST /transactions/bulk */
+export interface BulkTransactionInput {
+    account_id: number;
+    category_id: number;
+    description: string;
+    amount: number;
+    type: 'income' | 'expense';
+    date: string;
+    notes?: string | null;
+    reference_number?: string | null;
+}
+
+export interface BulkCreateResult {
+    created_count: number;
+    skipped_count?: number;
+}
+
+/** The TransactionResource fields the duplicate review uses */
+export interface DuplicateTransaction {
+    id: number;
+    description: string;
+    amount: Amount;
+    type: 'income' | 'expense' | 'transfer';
+    date: string;
+    notes: string | null;
+    tags: string[];
+    reference_number: string | null;
+    account?: { id: number; name: string };
+    category?: { id: number; name: string; color?: string | null };
+    created_at: string;
+    created_at_human: string;
+}
+
+export interface DuplicateGroup {
+    /** Sorted transaction ids, stable for as long as the group is unchanged */
+    key: string;
+    suggested_keep_id: number;
+    transactions: DuplicateTransaction[];
+}
@@ -0,0 +1,11 @@
+<x-mail::message>
+# {{ $title }}
+
+{{ $body }}
+
+<x-mail::button :url="url('/notifications')">
+View Notifications
+</x-mail::button>
+
+{{ config('app.name') }}
+</x-mail::message>
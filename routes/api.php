@@ -5,6 +5,7 @@
 use App\Http\Controllers\Api\AuthController;
 use App\Http\Controllers\Api\BillController;
 use App\Http\Controllers\Api\BudgetController;
+use App\Http\Controllers\Api\BudgetPeriodController;
 use App\Http\Controllers\Api\UserController;
 use App\Http\Controllers\Api\TransactionController;
 use App\Http\Controllers\Api\CategoryController;
@@ -114,6 +115,8 @@
     Route::post('/transfer', [AccountController::class, 'transfer']); // POST /api/accounts/transfer
     Route::get('/{account}/performance-metrics', [AccountController::class, 'getPerformanceMetrics']); // GET /api/accounts/{id}/performance-metrics
     Route::post('/{account}/sync-balance', [AccountController::class, 'syncBalance']); // POST /api/accounts/{id}/sync-balance
+    Route::get('/{account}/reconciliation', [AccountController::class, 'reconciliation']); // GET /api/accounts/{id}/reconciliation
+    Route::post('/{account}/reconcile', [AccountController::class, 'reconcile']); // POST /api/accounts/{id}/reconcile
 });
 
 /*
@@ -133,8 +136,18 @@
 
     // Import/Export
     Route::post('/import/csv', [TransactionController::class, 'import']); // POST /api/transactions/import/csv
+    Route::post('/import/csv/preview', [TransactionController::class, 'previewImport']); // POST /api/transactions/import/csv/preview
+    Route::get('/import/presets', [TransactionController::class, 'importPresets']); // GET /api/transactions/import/presets
+    Route::post('/import/presets', [TransactionController::class, 'storeImportPreset']); // POST /api/transactions/import/presets
+    Route::put('/import/presets/{id}', [TransactionController::class, 'updateImportPreset']); // PUT /api/transactions/import/presets/{id}
+    Route::delete('/import/presets/{id}', [TransactionController::class, 'destroyImportPreset']); // DELETE /api/transactions/import/presets/{id}
     Route::get('/export/data', [TransactionController::class, 'export']); // GET /api/transactions/export/data
 
+    // Duplicate Detection
+    Route::get('/duplicates/groups', [TransactionController::class, 'duplicates']); // GET /api/transactions/duplicates/groups
+    Route::post('/duplicates/ignore', [TransactionController::class, 'ignoreDuplicates']); // POST /api/transactions/duplicates/ignore
+    Route::post('/duplicates/merge', [TransactionController::class, 'mergeDuplicates']); // POST /api/transactions/duplicates/merge
+
     // Statistics and Analytics
     Route::get('/statistics/summary', [TransactionController::class, 'statistics']); // GET /api/transactions/statistics/summary
 
@@ -218,6 +231,22 @@
 
     // Export Budgets
     Route::get('/export/csv', [BudgetController::class, 'export']); // GET /api/budgets/export/csv
+
+    // Spending by Period
+    Route::get('/period/view', [BudgetController::class, 'periodView']); // GET /api/budgets/period/view
+});
+
+/*
+|--------------------------------------------------------------------------
+| Budget Period Routes
+|--------------------------------------------------------------------------
+*/
+
+Route::middleware('auth:sanctum')->prefix('budget-periods')->group(function () {
+    Route::get('/', [BudgetPeriodController::class, 'index']); // GET /api/budget-periods
+    Route::post('/', [BudgetPeriodController::class, 'store']); // POST /api/budget-periods
+    Route::put('/{budgetPeriod}', [BudgetPeriodController::class, 'update']); // PUT /api/budget-periods/{id}
+    Route::delete('/{budgetPeriod}', [BudgetPeriodController::class, 'destroy']); // DELETE /api/budget-periods/{id}
 });
 
 /*
@@ -251,6 +280,7 @@
     Route::get('/types', [DebtController::class, 'getDebtTypes']); // GET /api/debts/types
     Route::get('/summary', [DebtController::class, 'getSummary']); // GET /api/debts/summary
     Route::post('/consolidation-options', [DebtController::class, 'getConsolidationOptions']); // POST /api/debts/consolidation-options
+    Route::get('/payoff-plan', [DebtController::class, 'getPayoffPlan']); // GET /api/debts/payoff-plan
 
     // Core CRUD Operations
     Route::get('/', [DebtController::class, 'index']); // GET /api/debts
@@ -262,6 +292,7 @@
     // Payment Management
     Route::post('/{debt}/payment', [DebtController::class, 'recordPayment']); // POST /api/debts/{id}/payment
     Route::get('/{debt}/payment-history', [DebtController::class, 'getPaymentHistory']); // GET /api/debts/{id}/payment-history - wala
+    Route::get('/{debt}/payment-split', [DebtController::class, 'getPaymentSplit']); // GET /api/debts/{id}/payment-split
     Route::get('/{debt}/payoff-schedule', [DebtController::class, 'getPayoffSchedule']); // GET /api/debts/{id}/payoff-schedule
 
     // Debt Actions
@@ -290,6 +321,7 @@
     // Bill Queries
     Route::get('/status/upcoming', [BillController::class, 'getUpcomingBills']); // GET /api/bills/status/upcoming
     Route::get('/status/overdue', [BillController::class, 'getOverdueBills']); // GET /api/bills/status/overdue - wala
+    Route::get('/status/calendar', [BillController::class, 'getCalendar']); // GET /api/bills/status/calendar
 
     // Payment History
     Route::get('/{bill}/payment-history', [BillController::class, 'getPaymentHistory']); // GET /api/bills/{id}/payment-history
@@ -359,9 +391,15 @@
     Route::get('/predictions', [AnalyticsController::class, 'predictions']); // GET /api/analytics/predictions - wala
     Route::get('/health-score', [AnalyticsController::class, 'healthScore']); // GET /api/analytics/health-score - wala
     Route::get('/insights', [AnalyticsController::class, 'insights']); // GET /api/analytics/insights - wala
+    Route::post('/insights/dismiss', [AnalyticsController::class, 'dismissInsight']); // POST /api/analytics/insights/dismiss
+    Route::delete('/insights/dismissed', [AnalyticsController::class, 'restoreInsights']); // DELETE /api/analytics/insights/dismissed
 
     // Custom Reports
     Route::post('/custom-report', [AnalyticsController::class, 'customReport']); // POST /api/analytics/custom-report
+    Route::get('/saved-reports', [AnalyticsController::class, 'savedReports']); // GET /api/analytics/saved-reports
+    Route::post('/saved-reports', [AnalyticsController::class, 'storeSavedReport']); // POST /api/analytics/saved-reports
+    Route::put('/saved-reports/{id}', [AnalyticsController::class, 'updateSavedReport']); // PUT /api/analytics/saved-reports/{id}
+    Route::delete('/saved-reports/{id}', [AnalyticsController::class, 'destroySavedReport']); // DELETE /api/analytics/saved-reports/{id}
 });
 
 /*
@@ -40,8 +40,10 @@
 
 // You can also add more scheduled tasks here:
 
-// Check for overdue bills daily
-// Schedule::command('bills:check-overdue')->dailyAt('08:00');
+// Mark overdue bills and send bill reminders daily
+Schedule::command('bills:send-reminders')
+    ->dailyAt('08:00')
+    ->withoutOverlapping();
 
 // Send budget alerts weekly
 // Schedule::command('budgets:send-alerts')->weeklyOn(1, '09:00');
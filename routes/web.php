@@ -30,9 +30,73 @@
     Route::post('users/bulk-destroy', [UserController::class, 'bulkDestroy'])->name('users.bulk-destroy');
 
     // Transaction Management
+    // Duplicate review (data is loaded from the transactions API)
+    Route::get('transactions/duplicates', function () {
+        return Inertia::render('Transactions/Duplicates');
+    })->name('transactions.duplicates');
     Route::resource('transactions', TransactionController::class);
     Route::post('transactions/bulk-destroy', [TransactionController::class, 'bulkDestroy'])->name('transactions.bulk-destroy');
 
+    // Account Management (data is loaded from the accounts API)
+    Route::get('accounts', function () {
+        return Inertia::render('Accounts');
+    })->name('accounts.index');
+    Route::get('accounts/{account}', function (int $account) {
+        return Inertia::render('Accounts/Show', ['accountId' => $account]);
+    })->whereNumber('account')->name('accounts.show');
+    Route::get('accounts/{account}/reconcile', function (int $account) {
+        return Inertia::render('Accounts/Reconcile', ['accountId' => $account]);
+    })->whereNumber('account')->name('accounts.reconcile');
+
+    // Category Management (data is loaded from the categories API)
+    Route::get('categories', function () {
+        return Inertia::render('Categories');
+    })->name('categories.index');
+    Route::get('categories/analysis', function () {
+        return Inertia::render('Categories/Analysis');
+    })->name('categories.analysis');
+
+    // Budget Management (data is loaded from the budgets API)
+    Route::get('budgets', function () {
+        return Inertia::render('Budgets');
+    })->name('budgets.index');
+    Route::get('budgets/comparison', function () {
+        return Inertia::render('Budgets/Comparison');
+    })->name('budgets.comparison');
+
+    // Financial Goals (data is loaded from the goals API)
+    Route::get('goals', function () {
+        return Inertia::render('Goals');
+    })->name('goals.index');
+
+    // Debt Management (data is loaded from the debts API)
+    Route::get('debts', function () {
+        return Inertia::render('Debts');
+    })->name('debts.index');
+
+    // Bills & Subscriptions (data is loaded from the bills API)
+    Route::get('bills', function () {
+        return Inertia::render('Bills');
+    })->name('bills.index');
+
+    // Analytics (data is loaded from the analytics API)
+    Route::get('analytics', function () {
+        return Inertia::render('Analytics');
+    })->name('analytics.index');
+    Route::get('analytics/reports', function () {
+        return Inertia::render('Analytics/Reports');
+    })->name('analytics.reports');
+
+    // Notification Center (data is loaded from the notifications API)
+    Route::get('notifications', function () {
+        return Inertia::render('Notifications');
+    })->name('notifications.index');
+
+    // Settings (data is loaded from the settings APIs)
+    Route::get('settings/notifications', function () {
+        return Inertia::render('Settings/Notifications');
+    })->name('settings.notifications');
+
     Route::post('logout', [AuthenticatedSessionController::class, 'destroy'])
         ->name('logout');
 });
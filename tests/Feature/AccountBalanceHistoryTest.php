@@ -0,0 +1,95 @@
+<?php
+
+use App\Models\Account;
+use App\Models\Category;
+use App\Models\User;
+use Carbon\Carbon;
+use Laravel\Sanctum\Sanctum;
+
+beforeEach(function () {
+    Carbon::setTestNow('2025-03-15 10:00:00');
+
+    $this->user = User::factory()->create();
+    $this->account = Account::factory()->for($this->user)->create(['balance' => 900]);
+    $this->category = Category::factory()->for($this->user)->create();
+
+    $this->account->balanceHistory()->create([
+        'date' => '2025-03-01',
+        'balance' => 1000,
+        'change_type' => 'initial',
+        'change_amount' => 1000,
+    ]);
+    $this->account->balanceHistory()->create([
+        'date' => '2025-03-10',
+        'balance' => 900,
+        'change_type' => 'transaction',
+        'change_amount' => -100,
+    ]);
+
+    Sanctum::actingAs($this->user);
+});
+
+afterEach(function () {
+    Carbon::setTestNow();
+});
+
+function balanceHistory(Account $account): array
+{
+    return $account->balanceHistory()
+        ->orderBy('date')
+        ->get()
+        ->mapWithKeys(fn ($entry) => [$entry->date->format('Y-m-d') => (float) $entry->balance])
+        ->all();
+}
+
+function importedRow(Account $account, Category $category, string $date, float $amount, string $type = 'expense'): array
+{
+    return [
+        'account_id' => $account->id,
+        'category_id' => $category->id,
+        'description' => 'Imported entry',
+        'amount' => $amount,
+        'type' => $type,
+        'date' => $date,
+    ];
+}
+
+test('a backdated transaction records the balance as of its date and shifts later entries', function () {
+    $this->postJson('/api/transactions/bulk', [
+        'transactions' => [importedRow($this->account, $this->category, '2025-03-05', 50)],
+    ])->assertCreated();
+
+    expect(balanceHistory($this->account))->toBe([
+        '2025-03-01' => 1000.0,
+        '2025-03-05' => 950.0,
+        '2025-03-10' => 850.0,
+    ])
+        ->and((float) $this->account->fresh()->balance)->toBe(850.0);
+});
+
+test('transactions on a day that already has an entry add to it', function () {
+    $this->postJson('/api/transactions/bulk', [
+        'transactions' => [
+            importedRow($this->account, $this->category, '2025-03-10', 20),
+            importedRow($this->account, $this->category, '2025-03-01', 200, 'income'),
+        ],
+    ])->assertCreated();
+
+    $entry = $this->account->balanceHistory()->whereDate('date', '2025-03-10')->first();
+
+    expect(balanceHistory($this->account))->toBe([
+        '2025-03-01' => 1200.0,
+        '2025-03-10' => 1080.0,
+    ])
+        ->and((float) $entry->change_amount)->toBe(-120.0)
+        ->and((float) $this->account->fresh()->balance)->toBe(1080.0);
+});
+
+test('a transaction dated today keeps the history in line with the account balance', function () {
+    $this->postJson('/api/transactions/bulk', [
+        'transactions' => [importedRow($this->account, $this->category, '2025-03-15', 40)],
+    ])->assertCreated();
+
+    expect(balanceHistory($this->account)['2025-03-15'])->toBe(860.0)
+        ->and((float) $this->account->fresh()->balance)->toBe(860.0);
+});
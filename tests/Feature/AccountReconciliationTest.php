@@ -0,0 +1,107 @@
+<?php
+
+use App\Models\Account;
+use App\Models\Transaction;
+use App\Models\User;
+use Carbon\Carbon;
+use Laravel\Sanctum\Sanctum;
+
+beforeEach(function () {
+    Carbon::setTestNow('2025-03-15 10:00:00');
+
+    $this->user = User::factory()->create();
+
+    // The stored balance already includes the uncleared transactions below
+    $this->account = Account::factory()->for($this->user)->create(['balance' => 1000]);
+
+    $this->expense = Transaction::factory()->for($this->account)->uncleared()->create([
+        'amount' => 100,
+        'date' => '2025-03-05',
+    ]);
+    $this->income = Transaction::factory()->for($this->account)->income()->uncleared()->create([
+        'amount' => 50,
+        'date' => '2025-03-08',
+    ]);
+    $this->afterStatement = Transaction::factory()->for($this->account)->uncleared()->create([
+        'amount' => 30,
+        'date' => '2025-03-12',
+    ]);
+
+    Sanctum::actingAs($this->user);
+});
+
+afterEach(function () {
+    Carbon::setTestNow();
+});
+
+test('ticked transactions are cleared without an adjustment when the statement matches', function () {
+    $response = $this->postJson("/api/accounts/{$this->account->id}/reconcile", [
+        'statement_balance' => 1030,
+        'statement_date' => '2025-03-10',
+        'transaction_ids' => [$this->expense->id, $this->income->id],
+    ]);
+
+    $response->assertOk()->assertJsonPath('data.cleared_count', 2);
+
+    expect($response->json('data.cleared_balance'))->toEqual(1030)
+        ->and($response->json('data.adjustment'))->toEqual(0)
+        ->and($this->expense->fresh()->is_cleared)->toBeTrue()
+        ->and($this->income->fresh()->is_cleared)->toBeTrue()
+        ->and((float) $this->account->fresh()->balance)->toBe(1000.0)
+        ->and($this->account->transactions()->count())->toBe(3);
+});
+
+test('a remaining difference is booked as a balance adjustment', function () {
+    $response = $this->postJson("/api/accounts/{$this->account->id}/reconcile", [
+        'statement_balance' => 1025,
+        'statement_date' => '2025-03-10',
+        'transaction_ids' => [$this->expense->id, $this->income->id],
+    ]);
+
+    $response->assertOk();
+
+    $adjustment = $this->account->transactions()
+        ->where('description', 'like', 'Balance Adjustment:%')
+        ->first();
+
+    expect($response->json('data.adjustment'))->toEqual(-5)
+        ->and((float) $this->account->fresh()->balance)->toBe(995.0)
+        ->and($adjustment)->not->toBeNull()
+        ->and($adjustment->type)->toBe('expense')
+        ->and((float) $adjustment->amount)->toBe(5.0)
+        ->and($adjustment->is_cleared)->toBeTrue();
+});
+
+test('transactions dated after the statement are not cleared even when ticked', function () {
+    $response = $this->postJson("/api/accounts/{$this->account->id}/reconcile", [
+        'statement_balance' => 1030,
+        'statement_date' => '2025-03-10',
+        'transaction_ids' => [$this->expense->id, $this->income->id, $this->afterStatement->id],
+    ]);
+
+    $response->assertOk()->assertJsonPath('data.cleared_count', 2);
+
+    expect($this->afterStatement->fresh()->is_cleared)->toBeFalse()
+        ->and($response->json('data.adjustment'))->toEqual(0);
+});
+
+test('a statement date in the future is rejected', function () {
+    $this->postJson("/api/accounts/{$this->account->id}/reconcile", [
+        'statement_balance' => 1030,
+        'statement_date' => '2025-03-16',
+        'transaction_ids' => [$this->expense->id],
+    ])->assertUnprocessable()->assertJsonValidationErrors('statement_date');
+});
+
+test('another user\'s account is not found', function () {
+    Sanctum::actingAs(User::factory()->create());
+
+    $this->postJson("/api/accounts/{$this->account->id}/reconcile", [
+        'statement_balance' => 0,
+        'statement_date' => '2025-03-10',
+        'transaction_ids' => [$this->expense->id],
+    ])->assertNotFound();
+
+    expect($this->expense->fresh()->is_cleared)->toBeFalse()
+        ->and((float) $this->account->fresh()->balance)->toBe(1000.0);
+});
@@ -0,0 +1,63 @@
+<?php
+
+use App\Models\Bill;
+use App\Models\Category;
+use App\Models\User;
+use App\Services\BillService;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\Queue;
+use Laravel\Sanctum\Sanctum;
+
+beforeEach(function () {
+    Queue::fake();
+    Carbon::setTestNow('2025-01-20 09:00:00');
+
+    $this->user = User::factory()->create();
+    $this->category = Category::factory()->for($this->user)->create();
+    $this->bill = Bill::factory()->for($this->category)->create([
+        'name' => 'Rent',
+        'due_date' => '2025-01-31',
+        'frequency' => 'monthly',
+    ]);
+});
+
+afterEach(function () {
+    Carbon::setTestNow();
+});
+
+test('a bill due on the 31st moves to the end of February and back to the 31st', function () {
+    $service = app(BillService::class);
+
+    $bill = $service->markBillAsPaid($this->bill, ['payment_date' => '2025-01-20', 'create_transaction' => false]);
+    expect($bill->due_date->toDateString())->toBe('2025-02-28');
+
+    $bill = $service->markBillAsPaid($bill, ['payment_date' => '2025-01-20', 'create_transaction' => false]);
+    expect($bill->due_date->toDateString())->toBe('2025-03-31');
+
+    $bill = $service->markBillAsPaid($bill, ['payment_date' => '2025-01-20', 'create_transaction' => false]);
+    expect($bill->due_date->toDateString())->toBe('2025-04-30');
+});
+
+test('a next due date picked by hand becomes the bill\'s day of month', function () {
+    $service = app(BillService::class);
+
+    $bill = $service->markBillAsPaid($this->bill, [
+        'payment_date' => '2025-01-20',
+        'next_due_date' => '2025-02-15',
+        'create_transaction' => false,
+    ]);
+    $bill = $service->markBillAsPaid($bill, ['payment_date' => '2025-01-20', 'create_transaction' => false]);
+
+    expect($bill->due_date->toDateString())->toBe('2025-03-15');
+});
+
+test('the calendar projects a month-end bill without drifting', function () {
+    Sanctum::actingAs($this->user);
+
+    $response = $this->getJson('/api/bills/status/calendar?start_date=2025-01-01&end_date=2025-05-31');
+
+    $response->assertOk();
+
+    expect(collect($response->json('data'))->where('bill_id', $this->bill->id)->pluck('date')->all())
+        ->toBe(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30', '2025-05-31']);
+});
@@ -0,0 +1,65 @@
+<?php
+
+use App\Models\Bill;
+use App\Models\Category;
+use App\Models\User;
+use App\Services\BillService;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\Queue;
+
+beforeEach(function () {
+    Queue::fake();
+    Carbon::setTestNow('2025-03-10 09:00:00');
+
+    $this->user = User::factory()->create();
+    $this->user->setSetting('reminder_days_before', 3);
+    $this->category = Category::factory()->for($this->user)->create();
+});
+
+afterEach(function () {
+    Carbon::setTestNow();
+});
+
+test('each bill is reminded its own number of days ahead', function () {
+    $electricity = Bill::factory()->for($this->category)->create([
+        'name' => 'Electricity',
+        'due_date' => '2025-03-12',
+        'reminder_days' => 2,
+    ]);
+    $rent = Bill::factory()->for($this->category)->create([
+        'name' => 'Rent',
+        'due_date' => '2025-03-17',
+        'reminder_days' => 7,
+    ]);
+    // Due in 3 days, which is only the user's default lead time
+    Bill::factory()->for($this->category)->create([
+        'name' => 'Internet',
+        'due_date' => '2025-03-13',
+        'reminder_days' => 7,
+    ]);
+
+    $reminders = app(BillService::class)->checkAndSendReminders($this->user);
+
+    expect(collect($reminders)->pluck('days_until_due', 'bill_id')->all())
+        ->toEqual([$electricity->id => 2, $rent->id => 7])
+        ->and($this->user->notifications()->pluck('message')->all())
+        ->toContain('Electricity (1,500.00) is due in 2 days.', 'Rent (1,500.00) is due in 7 days.');
+});
+
+test('a bill without its own lead time follows the notification settings', function () {
+    $water = Bill::factory()->for($this->category)->create([
+        'due_date' => '2025-03-13',
+        'reminder_days' => null,
+    ]);
+    // Reminders switched off for this bill
+    Bill::factory()->for($this->category)->create([
+        'due_date' => '2025-03-13',
+        'reminder_days' => 0,
+    ]);
+
+    $reminders = app(BillService::class)->checkAndSendReminders($this->user);
+
+    expect($reminders)->toHaveCount(1)
+        ->and($reminders[0]['bill_id'])->toBe($water->id)
+        ->and($reminders[0]['days_until_due'])->toBe(3);
+});
@@ -0,0 +1,97 @@
+<?php
+
+use App\Models\BudgetPeriod;
+use App\Models\User;
+use App\Services\BudgetService;
+use Carbon\Carbon;
+use Laravel\Sanctum\Sanctum;
+
+beforeEach(function () {
+    Carbon::setTestNow('2025-01-31');
+});
+
+afterEach(function () {
+    Carbon::setTestNow();
+});
+
+test('a standard monthly window rolls forward from the end of a long month', function () {
+    $window = app(BudgetService::class)->resolvePeriodWindow('monthly', 1);
+
+    expect($window['start']->toDateString())->toBe('2025-02-01')
+        ->and($window['end']->toDateString())->toBe('2025-02-28')
+        ->and($window['label'])->toBe('February 2025');
+});
+
+test('a saved period starting on the 31st keeps its windows contiguous', function (int $offset, string $start, string $end) {
+    $period = new BudgetPeriod([
+        'name' => 'Pay cycle',
+        'start_date' => '2025-01-31',
+        'end_date' => '2025-02-27',
+        'period_type' => 'monthly',
+    ]);
+
+    $window = app(BudgetService::class)->resolvePeriodWindow('monthly', $offset, $period);
+
+    expect($window['start']->toDateString())->toBe($start)
+        ->and($window['end']->toDateString())->toBe($end);
+})->with([
+    'previous' => [-1, '2024-12-31', '2025-01-30'],
+    'current' => [0, '2025-01-31', '2025-02-27'],
+    'after February' => [1, '2025-02-28', '2025-03-30'],
+    'after March' => [2, '2025-03-31', '2025-04-29'],
+    'after April' => [3, '2025-04-30', '2025-05-30'],
+]);
+
+test('each saved monthly window starts the day after the previous one ends', function () {
+    $period = new BudgetPeriod([
+        'name' => 'Pay cycle',
+        'start_date' => '2025-01-31',
+        'end_date' => '2025-02-27',
+        'period_type' => 'monthly',
+    ]);
+
+    $service = app(BudgetService::class);
+
+    for ($offset = 0; $offset < 12; $offset++) {
+        $current = $service->resolvePeriodWindow('monthly', $offset, $period);
+        $next = $service->resolvePeriodWindow('monthly', $offset + 1, $period);
+
+        expect($next['start']->toDateString())->toBe($current['end']->copy()->addDay()->toDateString());
+    }
+});
+
+test('the period view resolves windows for the user\'s saved period', function () {
+    $user = User::factory()->create();
+    $period = BudgetPeriod::create([
+        'user_id' => $user->id,
+        'name' => 'Pay cycle',
+        'start_date' => '2025-01-31',
+        'end_date' => '2025-02-27',
+        'period_type' => 'monthly',
+        'is_active' => true,
+    ]);
+
+    Sanctum::actingAs($user);
+
+    $this->getJson("/api/budgets/period/view?budget_period_id={$period->id}&offset=1")
+        ->assertOk()
+        ->assertJsonPath('meta.start_date', '2025-02-28')
+        ->assertJsonPath('meta.end_date', '2025-03-30')
+        ->assertJsonPath('meta.is_current', false);
+});
+
+test('another user\'s saved period is not found', function () {
+    $period = BudgetPeriod::create([
+        'user_id' => User::factory()->create()->id,
+        'name' => 'Pay cycle',
+        'start_date' => '2025-01-01',
+        'end_date' => '2025-01-31',
+        'period_type' => 'monthly',
+        'is_active' => true,
+    ]);
+
+    Sanctum::actingAs(User::factory()->create());
+
+    $this->getJson("/api/budgets/period/view?budget_period_id={$period->id}")
+        ->assertNotFound();
+});
@@ -0,0 +1,68 @@
+<?php
+
+use App\Models\Account;
+use App\Models\Category;
+use App\Models\Transaction;
+use App\Models\User;
+use Laravel\Sanctum\Sanctum;
+
+beforeEach(function () {
+    $this->user = User::factory()->create();
+    $this->food = Category::factory()->for($this->user)->create(['name' => 'Food']);
+    $this->groceries = Category::factory()->for($this->user)->create(['name' => 'Groceries', 'parent_id' => $this->food->id]);
+    $this->dining = Category::factory()->for($this->user)->create(['name' => 'Dining', 'parent_id' => $this->food->id]);
+
+    Sanctum::actingAs($this->user);
+});
+
+test('subcategories move under the target when merging', function () {
+    $snacks = Category::factory()->for($this->user)->create(['name' => 'Snacks']);
+
+    $this->postJson('/api/categories/merge', [
+        'source_id' => $this->food->id,
+        'target_id' => $snacks->id,
+    ])->assertOk()->assertJsonPath('data.moved_children', 2);
+
+    expect($this->groceries->fresh()->parent_id)->toBe($snacks->id)
+        ->and($this->dining->fresh()->parent_id)->toBe($snacks->id)
+        ->and($snacks->fresh()->parent_id)->toBeNull();
+});
+
+test('merging a category into its own subcategory does not make a cycle', function () {
+    $account = Account::factory()->for($this->user)->create();
+    $transaction = Transaction::factory()->for($account)->create(['category_id' => $this->food->id]);
+
+    $this->postJson('/api/categories/merge', [
+        'source_id' => $this->food->id,
+        'target_id' => $this->groceries->id,
+    ])->assertOk()->assertJsonPath('data.moved_children', 1);
+
+    // Groceries takes Food's place at the top, with Dining under it
+    expect($this->groceries->fresh()->parent_id)->toBeNull()
+        ->and($this->dining->fresh()->parent_id)->toBe($this->groceries->id)
+        ->and($transaction->fresh()->category_id)->toBe($this->groceries->id);
+});
+
+test('merging into a deeper descendant lifts it out of the source\'s tree', function () {
+    $takeout = Category::factory()->for($this->user)->create(['name' => 'Takeout', 'parent_id' => $this->dining->id]);
+
+    $this->postJson('/api/categories/merge', [
+        'source_id' => $this->food->id,
+        'target_id' => $takeout->id,
+    ])->assertOk();
+
+    expect($takeout->fresh()->parent_id)->toBeNull()
+        ->and($this->dining->fresh()->parent_id)->toBe($takeout->id)
+        ->and($this->groceries->fresh()->parent_id)->toBe($takeout->id);
+});
+
+test('another user\'s category cannot be merged', function () {
+    $other = Category::factory()->create();
+
+    $this->postJson('/api/categories/merge', [
+        'source_id' => $this->food->id,
+        'target_id' => $other->id,
+    ])->assertNotFound();
+
+    expect($this->groceries->fresh()->parent_id)->toBe($this->food->id);
+});
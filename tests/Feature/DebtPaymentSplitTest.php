@@ -0,0 +1,100 @@
+<?php
+
+use App\Models\Debt;
+use App\Models\DebtPayment;
+use App\Models\User;
+use Carbon\Carbon;
+use Laravel\Sanctum\Sanctum;
+
+beforeEach(function () {
+    Carbon::setTestNow('2025-03-20');
+
+    $this->user = User::factory()->create();
+
+    // 10% APR on 36,500 accrues exactly 10.00 a day
+    $this->debt = Debt::factory()->for($this->user)->create([
+        'current_balance' => 36500,
+        'interest_rate' => 10,
+        'minimum_payment' => 1000,
+        'payment_frequency' => 'monthly',
+    ]);
+
+    Sanctum::actingAs($this->user);
+});
+
+afterEach(function () {
+    Carbon::setTestNow();
+});
+
+test('interest accrues over one payment period when there is no previous payment', function () {
+    $response = $this->getJson("/api/debts/{$this->debt->id}/payment-split?amount=1000&payment_date=2025-03-15");
+
+    $response->assertOk()
+        ->assertJsonPath('data.last_payment_date', null)
+        ->assertJsonPath('data.days_since_last_payment', 28)
+        ->assertJsonPath('data.interest', 280)
+        ->assertJsonPath('data.principal', 720)
+        ->assertJsonPath('data.payoff_amount', 36780);
+});
+
+test('interest accrues from the last recorded payment', function () {
+    DebtPayment::create([
+        'debt_id' => $this->debt->id,
+        'amount' => 1000,
+        'principal' => 900,
+        'interest' => 100,
+        'payment_date' => '2025-03-01',
+    ]);
+
+    $response = $this->getJson("/api/debts/{$this->debt->id}/payment-split?amount=50&payment_date=2025-03-11");
+
+    // The whole payment goes to interest when it does not cover what has accrued
+    $response->assertOk()
+        ->assertJsonPath('data.last_payment_date', '2025-03-01')
+        ->assertJsonPath('data.days_since_last_payment', 10)
+        ->assertJsonPath('data.interest_due', 100)
+        ->assertJsonPath('data.interest', 50)
+        ->assertJsonPath('data.principal', 0);
+});
+
+test('recording a payment only reduces the balance by the principal', function () {
+    $response = $this->postJson("/api/debts/{$this->debt->id}/payment", [
+        'amount' => 1000,
+        'payment_date' => '2025-03-15',
+    ]);
+
+    $response->assertCreated();
+
+    expect((float) $this->debt->fresh()->current_balance)->toBe(35780.0)
+        ->and((float) $this->debt->payments()->first()->interest)->toBe(280.0);
+});
+
+test('a payment above the payoff amount is rejected', function () {
+    $this->postJson("/api/debts/{$this->debt->id}/payment", [
+        'amount' => 36780.01,
+        'payment_date' => '2025-03-15',
+    ])->assertUnprocessable()->assertJsonValidationErrors('amount');
+});
+
+test('a malformed payment date is a validation error', function () {
+    $this->postJson("/api/debts/{$this->debt->id}/payment", [
+        'amount' => 1000,
+        'payment_date' => 'not-a-date',
+    ])->assertUnprocessable()
+        ->assertJsonValidationErrors('payment_date')
+        ->assertJsonMissingValidationErrors('amount');
+});
+
+test('another user\'s debt is not found', function () {
+    $otherDebt = Debt::factory()->create();
+
+    $this->getJson("/api/debts/{$otherDebt->id}/payment-split?amount=100")
+        ->assertNotFound();
+
+    $this->postJson("/api/debts/{$otherDebt->id}/payment", [
+        'amount' => 100,
+        'payment_date' => '2025-03-15',
+    ])->assertNotFound();
+
+    expect($otherDebt->payments()->count())->toBe(0);
+});
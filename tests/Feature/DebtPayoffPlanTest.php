@@ -0,0 +1,82 @@
+<?php
+
+use App\Models\Debt;
+use App\Models\User;
+use App\Services\DebtService;
+use Carbon\Carbon;
+use Laravel\Sanctum\Sanctum;
+
+beforeEach(function () {
+    Carbon::setTestNow('2025-01-15');
+});
+
+afterEach(function () {
+    Carbon::setTestNow();
+});
+
+test('a debt whose minimum payment does not cover the interest is never paid off', function () {
+    // 24% APR on 10,000 accrues 200 a month, twice the minimum payment
+    $debt = Debt::factory()->create([
+        'current_balance' => 10000,
+        'interest_rate' => 24,
+        'minimum_payment' => 100,
+    ]);
+
+    $plan = app(DebtService::class)->simulatePayoffPlan(collect([$debt]), 0, 'minimum');
+
+    expect($plan['summary']['is_paid_off'])->toBeFalse()
+        ->and($plan['summary']['months_to_payoff'])->toBe(360)
+        ->and($plan['summary']['debt_free_date'])->toBeNull()
+        ->and($plan['summary']['payoff_order'][0]['payoff_month'])->toBeNull()
+        ->and($plan['schedule'])->toHaveCount(360);
+});
+
+test('avalanche targets the highest rate and snowball the smallest balance', function () {
+    $user = User::factory()->create();
+    $small = Debt::factory()->for($user)->create([
+        'current_balance' => 1000,
+        'interest_rate' => 5,
+        'minimum_payment' => 50,
+    ]);
+    $expensive = Debt::factory()->for($user)->create([
+        'current_balance' => 5000,
+        'interest_rate' => 20,
+        'minimum_payment' => 150,
+    ]);
+
+    $service = app(DebtService::class);
+    $avalanche = $service->simulatePayoffPlan(collect([$small, $expensive]), 200, 'avalanche');
+    $snowball = $service->simulatePayoffPlan(collect([$small, $expensive]), 200, 'snowball');
+
+    $payoffMonth = fn (array $plan, Debt $debt) => collect($plan['summary']['payoff_order'])
+        ->firstWhere('debt_id', $debt->id)['payoff_month'];
+
+    expect($avalanche['summary']['payoff_order'][0]['debt_id'])->toBe($expensive->id)
+        ->and($snowball['summary']['payoff_order'][0]['debt_id'])->toBe($small->id)
+        ->and($avalanche['summary']['is_paid_off'])->toBeTrue()
+        ->and($snowball['summary']['is_paid_off'])->toBeTrue()
+        ->and($payoffMonth($snowball, $small))->toBeLessThan($payoffMonth($avalanche, $small))
+        ->and($avalanche['summary']['total_interest_paid'])
+            ->toBeLessThanOrEqual($snowball['summary']['total_interest_paid']);
+});
+
+test('the payoff plan endpoint only simulates the current user\'s debts', function () {
+    $user = User::factory()->create();
+    $debt = Debt::factory()->for($user)->create([
+        'current_balance' => 1200,
+        'interest_rate' => 0,
+        'minimum_payment' => 100,
+    ]);
+    Debt::factory()->create(['current_balance' => 50000]);
+
+    Sanctum::actingAs($user);
+
+    $response = $this->getJson('/api/debts/payoff-plan?strategy=snowball&extra_payment=100');
+
+    $response->assertOk()
+        ->assertJsonPath('data.plan.summary.months_to_payoff', 6)
+        ->assertJsonPath('data.plan.summary.debt_free_date', '2025-07-15')
+        ->assertJsonCount(1, 'data.plan.summary.payoff_order')
+        ->assertJsonPath('data.plan.summary.payoff_order.0.debt_id', $debt->id)
+        ->assertJsonStructure(['data' => ['comparison' => ['minimum', 'avalanche', 'snowball']]]);
+});
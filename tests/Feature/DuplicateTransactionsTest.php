@@ -0,0 +1,160 @@
+<?php
+
+use App\Models\Account;
+use App\Models\Category;
+use App\Models\Transaction;
+use App\Models\User;
+use Carbon\Carbon;
+use Laravel\Sanctum\Sanctum;
+
+beforeEach(function () {
+    Carbon::setTestNow('2025-06-15 09:00:00');
+
+    $this->user = User::factory()->create();
+    $this->account = Account::factory()->for($this->user)->create(['balance' => 1000]);
+    $this->category = Category::factory()->for($this->user)->create();
+
+    $entry = fn (array $attributes) => Transaction::factory()->for($this->account)->create(array_merge([
+        'category_id' => $this->category->id,
+        'amount' => 150,
+    ], $attributes));
+
+    // Entered by hand, then again from the bank feed a day later
+    $this->original = $entry(['description' => 'Starbucks', 'date' => '2025-06-01']);
+    $this->copy = $entry(['description' => 'POS STARBUCKS MANILA 004512', 'date' => '2025-06-02']);
+
+    // Same amount and dates, different merchant
+    $entry(['description' => 'Grab ride', 'date' => '2025-06-02']);
+    // Same merchant and amount, but weeks apart
+    $entry(['description' => 'Starbucks', 'date' => '2025-05-10']);
+});
+
+afterEach(function () {
+    Carbon::setTestNow();
+});
+
+test('transactions that look like double entries are grouped', function () {
+    Sanctum::actingAs($this->user);
+
+    $response = $this->getJson('/api/transactions/duplicates/groups');
+
+    $response->assertOk()
+        ->assertJsonPath('meta.count', 1)
+        ->assertJsonPath('data.0.key', "{$this->original->id}-{$this->copy->id}")
+        ->assertJsonPath('data.0.suggested_keep_id', $this->original->id)
+        ->assertJsonCount(2, 'data.0.transactions');
+});
+
+test('entries on different accounts are not duplicates', function () {
+    $savings = Account::factory()->for($this->user)->create();
+    Transaction::factory()->for($savings)->create([
+        'category_id' => $this->category->id,
+        'description' => 'Starbucks',
+        'amount' => 150,
+        'date' => '2025-06-01',
+    ]);
+
+    Sanctum::actingAs($this->user);
+
+    $this->getJson('/api/transactions/duplicates/groups')
+        ->assertOk()
+        ->assertJsonPath('meta.count', 1)
+        ->assertJsonCount(2, 'data.0.transactions');
+});
+
+test('a group marked as not duplicates is no longer shown', function () {
+    Sanctum::actingAs($this->user);
+
+    $this->postJson('/api/transactions/duplicates/ignore', [
+        'transaction_ids' => [$this->copy->id, $this->original->id],
+    ])->assertOk()->assertJsonPath('data.key', "{$this->original->id}-{$this->copy->id}");
+
+    $this->getJson('/api/transactions/duplicates/groups')
+        ->assertOk()
+        ->assertJsonPath('meta.count', 0);
+});
+
+test('another user\'s transactions cannot be marked as not duplicates', function () {
+    $otherTransaction = Transaction::factory()->create();
+
+    Sanctum::actingAs($this->user);
+
+    $this->postJson('/api/transactions/duplicates/ignore', [
+        'transaction_ids' => [$this->original->id, $otherTransaction->id],
+    ])->assertNotFound();
+
+    expect($this->user->getSetting('ignored_duplicate_groups'))->toBeNull();
+});
+
+test('deleting the extra copy restores the account balance', function () {
+    $this->actingAs($this->user)
+        ->from('/transactions/duplicates')
+        ->post('/transactions/bulk-destroy', ['transaction_ids' => [$this->copy->id]])
+        ->assertRedirect('/transactions/duplicates')
+        ->assertSessionHas('success');
+
+    expect(Transaction::find($this->copy->id))->toBeNull()
+        ->and(Transaction::find($this->original->id))->not->toBeNull()
+        ->and((float) $this->account->fresh()->balance)->toBe(1150.0);
+});
+
+test('another user\'s transactions cannot be bulk deleted', function () {
+    $otherTransaction = Transaction::factory()->create();
+
+    $this->actingAs($this->user)
+        ->post('/transactions/bulk-destroy', ['transaction_ids' => [$this->copy->id, $otherTransaction->id]])
+        ->assertNotFound();
+
+    expect(Transaction::find($otherTransaction->id))->not->toBeNull()
+        ->and(Transaction::find($this->copy->id))->not->toBeNull();
+});
+
+test('merging keeps one entry with the combined notes and tags and restores the balance', function () {
+    $this->copy->update(['notes' => 'From the bank feed', 'tags' => ['coffee']]);
+
+    Sanctum::actingAs($this->user);
+
+    $this->postJson('/api/transactions/duplicates/merge', [
+        'keep_id' => $this->original->id,
+        'transaction_ids' => [$this->copy->id],
+        'notes' => 'From the bank feed',
+        'tags' => ['coffee'],
+    ])
+        ->assertOk()
+        ->assertJsonPath('data.id', $this->original->id)
+        ->assertJsonPath('meta.deleted_count', 1);
+
+    $kept = $this->original->fresh();
+
+    expect(Transaction::find($this->copy->id))->toBeNull()
+        ->and($kept->notes)->toBe('From the bank feed')
+        ->and($kept->tags)->toBe(['coffee'])
+        ->and((float) $this->account->fresh()->balance)->toBe(1150.0);
+});
+
+test('a merge that includes another user\'s transaction changes nothing', function () {
+    $otherTransaction = Transaction::factory()->create();
+
+    Sanctum::actingAs($this->user);
+
+    $this->postJson('/api/transactions/duplicates/merge', [
+        'keep_id' => $this->original->id,
+        'transaction_ids' => [$this->copy->id, $otherTransaction->id],
+        'notes' => 'Merged',
+    ])->assertNotFound();
+
+    expect(Transaction::find($this->copy->id))->not->toBeNull()
+        ->and(Transaction::find($otherTransaction->id))->not->toBeNull()
+        ->and($this->original->fresh()->notes)->not->toBe('Merged');
+});
+
+test('the kept transaction cannot also be deleted', function () {
+    Sanctum::actingAs($this->user);
+
+    $this->postJson('/api/transactions/duplicates/merge', [
+        'keep_id' => $this->original->id,
+        'transaction_ids' => [$this->original->id],
+    ])->assertUnprocessable();
+
+    expect(Transaction::find($this->original->id))->not->toBeNull();
+});
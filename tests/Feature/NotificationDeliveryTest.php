@@ -0,0 +1,77 @@
+<?php
+
+use App\Jobs\SendNotificationMessage;
+use App\Models\User;
+use App\Services\NotificationService;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\Queue;
+use Laravel\Sanctum\Sanctum;
+
+beforeEach(function () {
+    Queue::fake();
+
+    $this->user = User::factory()->create(['timezone' => 'Asia/Manila']);
+});
+
+afterEach(function () {
+    Carbon::setTestNow();
+});
+
+test('an alert is stored once for the feed and queued for email', function () {
+    // App and email are on by default
+    app(NotificationService::class)->send($this->user, 'budget_alert', 'Budget Alert', 'You have used 80% of Food.');
+
+    expect($this->user->notifications()->count())->toBe(1)
+        ->and($this->user->notifications()->first()->channel)->toBe('app');
+
+    Queue::assertPushed(SendNotificationMessage::class, fn ($job) => $job->channel === 'email');
+    Queue::assertNotPushed(SendNotificationMessage::class, fn ($job) => $job->channel === 'sms');
+});
+
+test('the feed and the unread count only include in-app notifications', function () {
+    $this->user->setSetting('notify_budget_alert_sms', 1);
+    app(NotificationService::class)->send($this->user, 'budget_alert', 'Budget Alert', 'You have used 80% of Food.');
+    $this->user->notifications()->create([
+        'type' => 'system',
+        'title' => 'Older email copy',
+        'message' => 'Stored before email was delivered separately.',
+        'channel' => 'email',
+    ]);
+
+    Sanctum::actingAs($this->user);
+
+    $this->getJson('/api/notifications')
+        ->assertOk()
+        ->assertJsonCount(1, 'data')
+        ->assertJsonPath('meta.unread_count', 1);
+
+    $this->getJson('/api/notifications/status/unread-count')
+        ->assertOk()
+        ->assertJsonPath('data.total_unread', 1)
+        ->assertJsonPath('data.by_type.budget_alert', 1);
+});
+
+test('email is held back until quiet hours end', function () {
+    Carbon::setTestNow(Carbon::parse('2025-03-10 23:30', 'Asia/Manila'));
+    $this->user->setSetting('quiet_hours_enabled', 1);
+
+    app(NotificationService::class)->send($this->user, 'budget_alert', 'Budget Alert', 'You have used 80% of Food.');
+
+    expect($this->user->notifications()->count())->toBe(1);
+
+    Queue::assertPushed(SendNotificationMessage::class, function ($job) {
+        return $job->channel === 'email'
+            && $job->delay->equalTo(Carbon::parse('2025-03-11 08:00', 'Asia/Manila'));
+    });
+});
+
+test('switching the app channel off keeps the alert out of the feed', function () {
+    $this->user->setSetting('notify_budget_alert_app', 0);
+
+    $notification = app(NotificationService::class)->send($this->user, 'budget_alert', 'Budget Alert', 'You have used 80% of Food.');
+
+    expect($notification)->toBeNull()
+        ->and($this->user->notifications()->count())->toBe(0);
+
+    Queue::assertPushed(SendNotificationMessage::class, 1);
+});
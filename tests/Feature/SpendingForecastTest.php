@@ -0,0 +1,111 @@
+<?php
+
+use App\Models\Account;
+use App\Models\Budget;
+use App\Models\Category;
+use App\Models\RecurringTransaction;
+use App\Models\Transaction;
+use App\Models\User;
+use App\Services\BudgetService;
+use Carbon\Carbon;
+
+beforeEach(function () {
+    // Ten days into April, with twenty to go
+    Carbon::setTestNow('2025-04-10 12:00:00');
+
+    $this->user = User::factory()->create();
+    $this->account = Account::factory()->for($this->user)->create();
+    $this->food = Category::factory()->for($this->user)->create(['name' => 'Food']);
+    $this->fun = Category::factory()->for($this->user)->create(['name' => 'Fun']);
+
+    Transaction::factory()->for($this->account)->create([
+        'category_id' => $this->food->id,
+        'amount' => 100,
+        'date' => '2025-04-02',
+    ]);
+    Transaction::factory()->for($this->account)->create([
+        'category_id' => $this->food->id,
+        'amount' => 200,
+        'date' => '2025-04-05',
+    ]);
+    Transaction::factory()->for($this->account)->create([
+        'category_id' => $this->fun->id,
+        'amount' => 150,
+        'date' => '2025-04-03',
+    ]);
+});
+
+afterEach(function () {
+    Carbon::setTestNow();
+});
+
+function forecastApril(User $user): array
+{
+    return app(BudgetService::class)->getSpendingForecast(
+        $user,
+        Carbon::parse('2025-04-01'),
+        Carbon::parse('2025-04-30'),
+        'monthly'
+    );
+}
+
+test('spending is extrapolated at the daily average', function () {
+    $forecast = forecastApril($this->user);
+
+    expect($forecast['period']['days_passed'])->toBe(10)
+        ->and($forecast['period']['days_remaining'])->toBe(20)
+        ->and($forecast['overall']['spent'])->toEqual(450)
+        ->and($forecast['overall']['daily_average'])->toEqual(45)
+        ->and($forecast['overall']['projected'])->toEqual(1350);
+});
+
+test('a recurring expense that fell behind is counted once', function () {
+    // Weekly since January, and never posted
+    RecurringTransaction::factory()->for($this->account)->create([
+        'category_id' => $this->food->id,
+        'amount' => 50,
+        'frequency' => 'weekly',
+        'next_occurrence' => '2025-01-02',
+    ]);
+
+    $forecast = forecastApril($this->user);
+
+    // The missed charges collapse into tomorrow, then April 17 and 24 follow
+    expect(collect($forecast['upcoming_recurring'])->pluck('date')->all())
+        ->toBe(['2025-04-11', '2025-04-17', '2025-04-24'])
+        ->and($forecast['overall']['upcoming_recurring'])->toEqual(150)
+        ->and($forecast['overall']['projected'])->toEqual(1500);
+});
+
+test('another user\'s recurring expenses are left out', function () {
+    RecurringTransaction::factory()->create([
+        'amount' => 500,
+        'next_occurrence' => '2025-04-20',
+    ]);
+
+    $forecast = forecastApril($this->user);
+
+    expect($forecast['upcoming_recurring'])->toBeEmpty()
+        ->and($forecast['overall']['upcoming_recurring'])->toEqual(0);
+});
+
+test('budgets are flagged by what they have spent and where they are heading', function () {
+    Budget::factory()->for($this->food)->create(['name' => 'Groceries', 'amount' => 1000]);
+    Budget::factory()->for($this->fun)->create(['name' => 'Going out', 'amount' => 100]);
+    RecurringTransaction::factory()->for($this->account)->create([
+        'category_id' => $this->food->id,
+        'amount' => 50,
+        'frequency' => 'weekly',
+        'next_occurrence' => '2025-01-02',
+    ]);
+
+    $forecast = forecastApril($this->user);
+    $budgets = collect($forecast['budgets'])->keyBy('name');
+
+    // Groceries: 300 spent + 30 a day for 20 days + 150 recurring
+    expect($budgets['Groceries']['projected'])->toEqual(1050)
+        ->and($budgets['Groceries']['status'])->toBe('at_risk')
+        ->and($budgets['Going out']['status'])->toBe('exceeded')
+        ->and($forecast['warnings_active'])->toBeTrue()
+        ->and($forecast['warnings'])->toHaveCount(2);
+});
@@ -0,0 +1,89 @@
+<?php
+
+use App\Models\Account;
+use App\Models\Category;
+use App\Models\Transaction;
+use App\Models\User;
+use Laravel\Sanctum\Sanctum;
+
+beforeEach(function () {
+    $this->user = User::factory()->create();
+    $this->checking = Account::factory()->for($this->user)->create(['balance' => 1000]);
+    $this->savings = Account::factory()->for($this->user)->create(['balance' => 0]);
+    $this->category = Category::factory()->for($this->user)->create();
+
+    Sanctum::actingAs($this->user);
+});
+
+function statementRow(Account $account, Category $category, ?string $fitId, float $amount = 25): array
+{
+    return [
+        'account_id' => $account->id,
+        'category_id' => $category->id,
+        'description' => 'Statement entry ' . ($fitId ?? 'without id'),
+        'amount' => $amount,
+        'type' => 'expense',
+        'date' => '2025-03-04',
+        'reference_number' => $fitId,
+    ];
+}
+
+test('statement rows whose FITID was already imported to the account are skipped', function () {
+    Transaction::factory()->for($this->checking)->create([
+        'category_id' => $this->category->id,
+        'reference_number' => 'FIT-1',
+    ]);
+
+    $response = $this->postJson('/api/transactions/bulk', [
+        'skip_existing_references' => true,
+        'transactions' => [
+            statementRow($this->checking, $this->category, 'FIT-1'),
+            statementRow($this->checking, $this->category, 'FIT-2'),
+            // Repeated within the same statement
+            statementRow($this->checking, $this->category, 'FIT-2'),
+            // The same id on another account is a different transaction
+            statementRow($this->savings, $this->category, 'FIT-1'),
+            statementRow($this->checking, $this->category, null),
+        ],
+    ]);
+
+    $response->assertCreated()
+        ->assertJsonPath('data.created_count', 3)
+        ->assertJsonPath('data.skipped_count', 2);
+
+    expect($this->checking->transactions()->where('reference_number', 'FIT-2')->count())->toBe(1)
+        ->and($this->savings->transactions()->where('reference_number', 'FIT-1')->count())->toBe(1)
+        ->and((float) $this->checking->fresh()->balance)->toBe(950.0);
+});
+
+test('rows are created as sent when existing references are not skipped', function () {
+    Transaction::factory()->for($this->checking)->create([
+        'category_id' => $this->category->id,
+        'reference_number' => 'FIT-1',
+    ]);
+
+    $this->postJson('/api/transactions/bulk', [
+        'transactions' => [
+            statementRow($this->checking, $this->category, 'FIT-1'),
+            statementRow($this->checking, $this->category, 'FIT-1'),
+        ],
+    ])->assertCreated()
+        ->assertJsonPath('data.created_count', 2)
+        ->assertJsonPath('data.skipped_count', 0);
+});
+
+test('rows for another user\'s account are rejected', function () {
+    $otherAccount = Account::factory()->create();
+
+    $this->postJson('/api/transactions/bulk', [
+        'skip_existing_references' => true,
+        'transactions' => [
+            statementRow($this->checking, $this->category, 'FIT-1'),
+            statementRow($otherAccount, $this->category, 'FIT-2'),
+        ],
+    ])->assertUnprocessable()
+        ->assertJsonValidationErrors('transactions.1.account_id');
+
+    expect(Transaction::count())->toBe(0)
+        ->and((float) $otherAccount->fresh()->balance)->toBe(1000.0);
+});
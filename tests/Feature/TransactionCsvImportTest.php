@@ -0,0 +1,147 @@
+<?php
+
+use App\Models\Account;
+use App\Models\Category;
+use App\Models\Transaction;
+use App\Models\User;
+use Illuminate\Http\UploadedFile;
+use Laravel\Sanctum\Sanctum;
+
+beforeEach(function () {
+    $this->user = User::factory()->create();
+    $this->account = Account::factory()->for($this->user)->create(['balance' => 1000]);
+    $this->expenses = Category::factory()->for($this->user)->create(['name' => 'Shopping']);
+    $this->income = Category::factory()->for($this->user)->income()->create(['name' => 'Salary']);
+
+    Sanctum::actingAs($this->user);
+});
+
+function importCsv(string $csv, array $mappings, array $options = [])
+{
+    return test()->post('/api/transactions/import/csv', [
+        'csv_file' => UploadedFile::fake()->createWithContent('statement.csv', $csv),
+        'column_mappings' => $mappings,
+        'import_options' => $options,
+    ], ['Accept' => 'application/json']);
+}
+
+test('debit and credit columns set the type whatever sign the bank uses', function () {
+    $csv = implode("\n", [
+        'Date,Description,Debit,Credit',
+        '03/01/2025,Grocery store,(12.50),',
+        '03/02/2025,Payroll,,"1,234.50"',
+        '03/03/2025,Refund,,-40.00',
+        '03/04/2025,Bank fee,12.00-,',
+    ]);
+
+    $response = importCsv($csv, [
+        'date' => 'Date',
+        'description' => 'Description',
+        'debit' => 'Debit',
+        'credit' => 'Credit',
+    ], ['date_format' => 'm/d/Y']);
+
+    $response->assertOk()
+        ->assertJsonPath('data.imported', 4)
+        ->assertJsonPath('data.errors', []);
+
+    $imported = $this->user->transactions()->orderBy('date')->get();
+
+    expect($imported->pluck('type')->all())->toBe(['expense', 'income', 'income', 'expense'])
+        ->and($imported->map(fn ($transaction) => (float) $transaction->amount)->all())->toBe([12.5, 1234.5, 40.0, 12.0])
+        ->and($imported->first()->category_id)->toBe($this->expenses->id)
+        ->and($imported->get(1)->category_id)->toBe($this->income->id)
+        ->and((float) $this->account->fresh()->balance)->toBe(2250.0);
+});
+
+test('a signed amount column can mark negative amounts as expenses', function () {
+    $csv = implode("\n", [
+        'Date,Description,Amount',
+        '2025-03-01,Grocery store,(12.50)',
+        '2025-03-02,Coffee,-40.00',
+        '2025-03-03,Payroll,"1,234.50"',
+    ]);
+
+    importCsv($csv, [
+        'date' => 'Date',
+        'description' => 'Description',
+        'amount' => 'Amount',
+    ], ['amount_sign' => 'negative_is_expense'])->assertOk()->assertJsonPath('data.imported', 3);
+
+    expect($this->user->transactions()->orderBy('date')->pluck('type')->all())
+        ->toBe(['expense', 'expense', 'income']);
+});
+
+test('unreadable rows are reported without stopping the import', function () {
+    $csv = implode("\n", [
+        'Date,Description,Amount',
+        '2025-03-01,Grocery store,12.50',
+        '2025-03-02,Coffee,abc',
+        '2025-02-30,Lunch,8.00',
+    ]);
+
+    $response = importCsv($csv, [
+        'date' => 'Date',
+        'description' => 'Description',
+        'amount' => 'Amount',
+    ]);
+
+    $response->assertOk()
+        ->assertJsonPath('data.imported', 1)
+        ->assertJsonPath('data.total_processed', 3)
+        ->assertJsonCount(2, 'data.errors')
+        ->assertJsonPath('data.errors.0.line', 3)
+        ->assertJsonPath('data.errors.1.line', 4);
+});
+
+test('rows matching existing transactions are skipped', function () {
+    // Same details with different casing, and same reference under another description
+    Transaction::factory()->for($this->account)->create([
+        'category_id' => $this->expenses->id,
+        'description' => 'Grocery Store',
+        'amount' => 12.50,
+        'date' => '2025-03-01',
+    ]);
+    Transaction::factory()->for($this->account)->create([
+        'category_id' => $this->expenses->id,
+        'description' => 'POS 4412 HARDWARE',
+        'amount' => 75,
+        'date' => '2025-03-03',
+        'reference_number' => 'FIT-0003',
+    ]);
+
+    $csv = implode("\n", [
+        'Date,Description,Amount,Reference',
+        '2025-03-01,GROCERY STORE,12.50,',
+        '2025-03-02,Coffee,4.00,',
+        '2025-03-03,Hardware shop,75.00,FIT-0003',
+        '2025-03-05,Lunch,8.00,',
+    ]);
+
+    $response = importCsv($csv, [
+        'date' => 'Date',
+        'description' => 'Description',
+        'amount' => 'Amount',
+        'reference_number' => 'Reference',
+    ], ['skip_duplicates' => true]);
+
+    $response->assertOk()
+        ->assertJsonPath('data.imported', 2)
+        ->assertJsonPath('data.skipped', 2);
+
+    expect($this->user->transactions()->count())->toBe(4);
+});
+
+test('a default account of another user is rejected', function () {
+    $otherAccount = Account::factory()->create();
+
+    importCsv("Date,Description,Amount\n2025-03-01,Coffee,4.00", [
+        'date' => 'Date',
+        'description' => 'Description',
+        'amount' => 'Amount',
+    ], ['default_account_id' => $otherAccount->id])
+        ->assertUnprocessable()
+        ->assertJsonValidationErrors('import_options.default_account_id');
+
+    expect(Transaction::count())->toBe(0);
+});